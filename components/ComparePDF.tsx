@@ -0,0 +1,428 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useRef, useEffect } from 'react';
+import { Tool, ProcessState } from '../types';
+import { getPDFInfo, downloadPDF } from '../services/pdfService';
+import {
+    comparePDFs,
+    exportComparisonReport,
+    DEFAULT_COMPARE_OPTIONS,
+    type CompareOptions,
+    type ComparisonResult,
+} from '../services/pdfCompareService';
+import CompareViewer from './CompareViewer';
+import { useWakeLock, usePageVisibility } from '../hooks/usePageVisibility';
+import { toast } from '../hooks/useToast';
+import { formatFileSize } from '../utils/formatFileSize';
+import BackButton from './BackButton';
+import StepProgress from './StepProgress';
+
+interface ComparePDFProps {
+    tool: Tool;
+    onBack: () => void;
+}
+
+type Side = 'original' | 'revised';
+
+interface SelectedFile {
+    file: File;
+    pageCount: number;
+}
+
+const STEPS = [
+    { label: 'Upload' },
+    { label: 'Comparing' },
+    { label: 'Review' },
+];
+
+const MAX_FILE_SIZE = 150 * 1024 * 1024; // 150MB
+
+const SENSITIVITY_OPTIONS: { value: number; label: string }[] = [
+    { value: 16, label: 'High — catch faint changes' },
+    { value: 48, label: 'Normal' },
+    { value: 96, label: 'Low — ignore light marks' },
+];
+
+const SIDE_LABELS: Record<Side, string> = {
+    original: 'Original',
+    revised: 'Revised',
+};
+
+const ComparePDF: React.FC<ComparePDFProps> = ({ tool, onBack }) => {
+    const [state, setState] = useState<ProcessState>(ProcessState.IDLE);
+    const [files, setFiles] = useState<Record<Side, SelectedFile | null>>({ original: null, revised: null });
+    const [options, setOptions] = useState<CompareOptions>(DEFAULT_COMPARE_OPTIONS);
+    const [errorMsg, setErrorMsg] = useState<string>('');
+    const [result, setResult] = useState<ComparisonResult | null>(null);
+    const [progress, setProgress] = useState<number>(0);
+    const [progressStatus, setProgressStatus] = useState<string>('');
+    const [exporting, setExporting] = useState<boolean>(false);
+    const [dragging, setDragging] = useState<Side | null>(null);
+    const inputRefs = { original: useRef<HTMLInputElement>(null), revised: useRef<HTMLInputElement>(null) };
+    const abortRef = useRef<{ current: boolean }>({ current: false });
+    const mountedRef = useRef(true);
+
+    const isProcessing = state === ProcessState.CONVERTING || exporting;
+    useWakeLock(isProcessing);
+    usePageVisibility();
+
+    useEffect(() => {
+        return () => {
+            mountedRef.current = false;
+            abortRef.current.current = true;
+        };
+    }, []);
+
+    const currentStep = result ? 2
+        : state === ProcessState.CONVERTING ? 1
+        : files.original || files.revised ? 0 : -1;
+
+    const validateAndSetFile = async (side: Side, selectedFile: File) => {
+        if (selectedFile.type !== 'application/pdf' && !selectedFile.name.toLowerCase().endsWith('.pdf')) {
+            setErrorMsg('Please select a valid PDF file.');
+            return;
+        }
+        if (selectedFile.size === 0) {
+            setErrorMsg('The selected file is empty (0 bytes). Please select a valid PDF file.');
+            return;
+        }
+        if (selectedFile.size > MAX_FILE_SIZE) {
+            setErrorMsg(`File is too large (${formatFileSize(selectedFile.size)}). Maximum size is 150MB.`);
+            return;
+        }
+
+        // Magic byte validation
+        try {
+            const header = new Uint8Array(await selectedFile.slice(0, 5).arrayBuffer());
+            if (String.fromCharCode(...header).indexOf('%PDF') !== 0) {
+                setErrorMsg('This file does not appear to be a valid PDF (invalid file header).');
+                return;
+            }
+        } catch {
+            setErrorMsg('Failed to read the file. Please try selecting it again.');
+            return;
+        }
+
+        try {
+            const info = await getPDFInfo(selectedFile);
+            setFiles(previous => ({ ...previous, [side]: { file: selectedFile, pageCount: info.pageCount } }));
+            setErrorMsg('');
+        } catch (err) {
+            setErrorMsg(err instanceof Error && err.message.includes('encrypted')
+                ? `${selectedFile.name} is password-protected. Please unlock it first using the Unlock PDF tool.`
+                : 'Failed to read PDF page information. The file may be corrupted or password-protected.');
+        }
+    };
+
+    const handleFileSelect = (side: Side) => (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (e.target.files?.[0]) {
+            validateAndSetFile(side, e.target.files[0]);
+        }
+        const input = inputRefs[side].current;
+        if (input) input.value = '';
+    };
+
+    const handleDrop = (side: Side) => (e: React.DragEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setDragging(null);
+        if (e.dataTransfer.files?.[0]) {
+            validateAndSetFile(side, e.dataTransfer.files[0]);
+        }
+    };
+
+    const handleCompare = async () => {
+        if (!files.original || !files.revised) {
+            setErrorMsg('Please select both PDFs to compare');
+            return;
+        }
+
+        abortRef.current = { current: false };
+        setState(ProcessState.CONVERTING);
+        setErrorMsg('');
+        setProgress(0);
+        setResult(null);
+
+        try {
+            const comparison = await comparePDFs(files.original.file, files.revised.file, options, (prog, status) => {
+                if (mountedRef.current) {
+                    setProgress(prog);
+                    setProgressStatus(status);
+                }
+            }, abortRef.current);
+
+            if (!mountedRef.current) return;
+
+            setResult(comparison);
+            setState(ProcessState.COMPLETED);
+            toast.success(comparison.changedPages > 0
+                ? `Found changes on ${comparison.changedPages} page${comparison.changedPages !== 1 ? 's' : ''}`
+                : 'No differences found');
+        } catch (err) {
+            if (!mountedRef.current) return;
+            if (err instanceof Error && err.message.includes('cancelled')) {
+                setState(ProcessState.IDLE);
+                setProgress(0);
+                setProgressStatus('');
+                toast.info('Comparison cancelled');
+                return;
+            }
+
+            let errorMessage = 'An unknown error occurred';
+            if (err instanceof Error) {
+                errorMessage = err.message;
+                if (err.message.includes('password-protected')) {
+                    errorMessage = err.message;
+                } else if (err.message.includes('password') || err.message.includes('encrypted')) {
+                    errorMessage = 'One of the PDFs is password-protected. Please unlock it first using the Unlock PDF tool.';
+                } else if (err.message.includes('Invalid PDF')) {
+                    errorMessage = 'One of the files appears to be corrupted or is not a valid PDF.';
+                }
+            }
+            setErrorMsg(errorMessage);
+            toast.error('Comparison failed');
+            setState(ProcessState.IDLE);
+            setProgress(0);
+            setProgressStatus('');
+        }
+    };
+
+    const handleExportReport = async () => {
+        if (!files.original || !files.revised || !result) return;
+
+        abortRef.current = { current: false };
+        setExporting(true);
+        try {
+            const report = await exportComparisonReport(files.original.file, files.revised.file, result, undefined, abortRef.current);
+            if (!mountedRef.current) return;
+            downloadPDF(report, `${files.original.file.name.replace(/\.pdf$/i, '')}_comparison.pdf`);
+            toast.success('Report downloaded!');
+        } catch (err) {
+            if (!mountedRef.current) return;
+            toast.error(err instanceof Error ? err.message : 'The report could not be created');
+        } finally {
+            if (mountedRef.current) setExporting(false);
+        }
+    };
+
+    const handleCancel = () => {
+        abortRef.current.current = true;
+        toast.info('Cancelling...');
+    };
+
+    const handleReset = () => {
+        setState(ProcessState.IDLE);
+        setFiles({ original: null, revised: null });
+        setErrorMsg('');
+        setResult(null);
+        setProgress(0);
+        setProgressStatus('');
+    };
+
+    const renderSlot = (side: Side) => {
+        const selected = files[side];
+        return (
+            <div style={{ flex: 1, minWidth: '240px' }}>
+                <div style={{ fontSize: '0.875rem', fontWeight: 600, color: 'var(--text-primary)', marginBottom: '0.5rem', textAlign: 'left' }}>
+                    {SIDE_LABELS[side]}
+                </div>
+                <input
+                    type="file"
+                    accept=".pdf,application/pdf"
+                    ref={inputRefs[side]}
+                    onChange={handleFileSelect(side)}
+                    style={{ display: 'none' }}
+                />
+                {selected ? (
+                    <div style={{ padding: '1.25rem', background: 'var(--surface-light)', borderRadius: 'var(--radius-md)', textAlign: 'left' }}>
+                        <div style={{ fontSize: '1rem', fontWeight: 600, color: 'var(--text-primary)', marginBottom: '0.25rem', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                            {selected.file.name}
+                        </div>
+                        <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', marginBottom: '0.75rem' }}>
+                            <span className="file-size">{formatFileSize(selected.file.size)}</span>
+                            <span style={{ fontSize: '0.875rem', color: 'var(--text-tertiary)' }}>
+                                {selected.pageCount} page{selected.pageCount !== 1 ? 's' : ''}
+                            </span>
+                        </div>
+                        <button onClick={() => inputRefs[side].current?.click()} className="btn-secondary" style={{ maxWidth: 'none', width: '100%' }}>
+                            Choose a Different PDF
+                        </button>
+                    </div>
+                ) : (
+                    <div
+                        className={`upload-zone${dragging === side ? ' drag-over' : ''}`}
+                        role="button"
+                        tabIndex={0}
+                        aria-label={`Upload the ${SIDE_LABELS[side].toLowerCase()} PDF`}
+                        onClick={() => inputRefs[side].current?.click()}
+                        onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); inputRefs[side].current?.click(); } }}
+                        onDragOver={(e) => { e.preventDefault(); e.stopPropagation(); setDragging(side); }}
+                        onDragEnter={(e) => { e.preventDefault(); e.stopPropagation(); setDragging(side); }}
+                        onDragLeave={(e) => { e.preventDefault(); e.stopPropagation(); setDragging(null); }}
+                        onDrop={handleDrop(side)}
+                    >
+                        <div className="upload-icon-wrapper">
+                            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="icon-lg">
+                                <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5m-13.5-9L12 3m0 0l4.5 4.5M12 3v13.5" />
+                            </svg>
+                        </div>
+                        <span style={{ fontSize: '1.125rem', fontWeight: 500, marginBottom: '0.5rem', color: 'var(--text-primary)' }}>
+                            {dragging === side ? 'Drop your PDF here' : `Select the ${SIDE_LABELS[side].toLowerCase()} PDF`}
+                        </span>
+                        <span style={{ color: 'var(--text-tertiary)', fontSize: '0.875rem' }}>
+                            Click to browse or drag and drop
+                        </span>
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    const optionLabelStyle: React.CSSProperties = {
+        display: 'flex',
+        alignItems: 'center',
+        gap: '0.5rem',
+        fontSize: '0.875rem',
+        color: 'var(--text-secondary)',
+        cursor: 'pointer',
+    };
+
+    return (
+        <div className="detail-view animate-fade-in">
+            <div className="container">
+                <BackButton onBack={onBack} />
+
+                <div className="workspace-card">
+                    {/* Header */}
+                    <div className="workspace-header">
+                        <div className="workspace-icon-large">
+                            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="icon-lg">
+                                <path strokeLinecap="round" strokeLinejoin="round" d={tool.icon} />
+                            </svg>
+                        </div>
+                        <h1 className="workspace-title">{tool.name}</h1>
+                        <p className="workspace-desc">{tool.description}</p>
+                    </div>
+
+                    <div style={{ padding: '1.5rem 1.5rem 0' }}>
+                        <StepProgress steps={STEPS} currentStep={currentStep} />
+                    </div>
+
+                    {/* Functional Area */}
+                    <div className="workspace-body">
+                        {errorMsg && (
+                            <div className="error-msg">
+                                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="icon-sm" style={{ flexShrink: 0 }}>
+                                    <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m-9.303 3.376c-.866 1.5.217 3.374 1.948 3.374h14.71c1.73 0 2.813-1.874 1.948-3.374L13.949 3.378c-.866-1.5-3.032-1.5-3.898 0L2.697 16.126zM12 15.75h.007v.008H12v-.008z" />
+                                </svg>
+                                <div style={{ flex: 1, textAlign: 'left' }}>
+                                    {errorMsg}
+                                </div>
+                            </div>
+                        )}
+
+                        {result && files.original && files.revised ? (
+                            <div className="animate-fade-in">
+                                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1rem', alignItems: 'center', marginBottom: '1.25rem' }}>
+                                    <div style={{ flex: 1, textAlign: 'left', fontSize: '0.875rem', color: 'var(--text-secondary)' }}>
+                                        <strong style={{ color: 'var(--text-primary)' }}>
+                                            {result.changedPages} of {result.pages.length} page{result.pages.length !== 1 ? 's' : ''} changed
+                                        </strong>
+                                        {' · '}{result.insertions} insertion{result.insertions !== 1 ? 's' : ''}
+                                        {' · '}{result.deletions} deletion{result.deletions !== 1 ? 's' : ''}
+                                    </div>
+                                    <button onClick={handleExportReport} className="btn-secondary btn-primary-alt" disabled={exporting}>
+                                        {exporting ? 'Creating Report...' : 'Export Report (PDF)'}
+                                    </button>
+                                    <button onClick={handleReset} className="btn-secondary">Compare Other PDFs</button>
+                                </div>
+                                <CompareViewer
+                                    original={files.original.file}
+                                    revised={files.revised.file}
+                                    result={result}
+                                    pixelThreshold={options.pixelThreshold}
+                                />
+                            </div>
+                        ) : state === ProcessState.CONVERTING ? (
+                            <div className="result-area" style={{ padding: '3rem 0' }} aria-live="polite">
+                                <div style={{ maxWidth: '300px', margin: '0 auto 2rem' }}>
+                                    <div className="loader">
+                                        <div className="loader-bar" style={{ width: `${progress}%`, animation: progress > 0 ? 'none' : undefined }}></div>
+                                    </div>
+                                    <div style={{ textAlign: 'center', marginTop: '1rem', fontSize: '0.875rem', color: 'var(--text-secondary)' }}>
+                                        {Math.round(progress)}%
+                                    </div>
+                                </div>
+                                <h3 className="workspace-title" style={{ fontSize: '1.5rem' }}>Comparing PDFs...</h3>
+                                <p className="workspace-desc">{progressStatus || 'Processing your documents.'}</p>
+                                <button onClick={handleCancel} className="btn-secondary" style={{ marginTop: '1rem' }}>Cancel</button>
+                            </div>
+                        ) : (
+                            <div>
+                                <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', marginBottom: '1.5rem' }}>
+                                    {renderSlot('original')}
+                                    {renderSlot('revised')}
+                                </div>
+
+                                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1.25rem', alignItems: 'center', marginBottom: '1.5rem' }}>
+                                    <label style={optionLabelStyle}>
+                                        <input
+                                            type="checkbox"
+                                            checked={options.ignoreCase}
+                                            onChange={(e) => setOptions({ ...options, ignoreCase: e.target.checked })}
+                                        />
+                                        Ignore case
+                                    </label>
+                                    <label style={optionLabelStyle}>
+                                        <input
+                                            type="checkbox"
+                                            checked={options.compareVisual}
+                                            onChange={(e) => setOptions({ ...options, compareVisual: e.target.checked })}
+                                        />
+                                        Compare visually (pixel diff)
+                                    </label>
+                                    {options.compareVisual && (
+                                        <label style={optionLabelStyle}>
+                                            Sensitivity
+                                            <select
+                                                value={options.pixelThreshold}
+                                                onChange={(e) => setOptions({ ...options, pixelThreshold: Number(e.target.value) })}
+                                                style={{ padding: '0.3rem 0.5rem', border: '1px solid var(--config-border)', borderRadius: '6px', fontSize: '0.8125rem', backgroundColor: 'var(--config-surface)', color: 'var(--text-primary)' }}
+                                            >
+                                                {SENSITIVITY_OPTIONS.map(option => (
+                                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                                ))}
+                                            </select>
+                                        </label>
+                                    )}
+                                </div>
+
+                                <button
+                                    onClick={handleCompare}
+                                    className="btn-action"
+                                    disabled={!files.original || !files.revised}
+                                    style={{ maxWidth: 'none', marginTop: 0, width: '100%', opacity: files.original && files.revised ? 1 : 0.5 }}
+                                >
+                                    Compare PDFs
+                                </button>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Footer */}
+                    <div className="workspace-footer">
+                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="icon-sm">
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 10.5V6.75a4.5 4.5 0 10-9 0v3.75m-.75 11.25h10.5a2.25 2.25 0 002.25-2.25v-6.75a2.25 2.25 0 00-2.25-2.25H6.75a2.25 2.25 0 00-2.25 2.25v6.75a2.25 2.25 0 002.25 2.25z" />
+                        </svg>
+                        All processing happens in your browser. Your files never leave your device.
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ComparePDF;
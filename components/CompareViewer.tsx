@@ -0,0 +1,316 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { renderPDFPageFromDoc } from '../services/pdfEditorService';
+import {
+  renderComparisonOverlay,
+  type CompareRect,
+  type ComparisonResult,
+  type PageComparison,
+} from '../services/pdfCompareService';
+
+interface CompareViewerProps {
+  original: File;
+  revised: File;
+  result: ComparisonResult;
+  pixelThreshold: number;
+}
+
+type ViewMode = 'side' | 'overlay';
+
+/** Width in pixels each page is shown at, per pane */
+const PANE_WIDTH = 420;
+const ROW_GAP = 16;
+
+const DELETION_STYLE: React.CSSProperties = { backgroundColor: 'rgba(220, 38, 38, 0.3)', border: '1px solid rgb(220, 38, 38)' };
+const INSERTION_STYLE: React.CSSProperties = { backgroundColor: 'rgba(22, 163, 74, 0.3)', border: '1px solid rgb(22, 163, 74)' };
+const REGION_STYLE: React.CSSProperties = { border: '1px dashed rgb(245, 158, 11)' };
+
+const pairSize = (page: PageComparison) => ({
+  width: Math.max(page.leftSize?.width ?? 0, page.rightSize?.width ?? 0),
+  height: Math.max(page.leftSize?.height ?? 0, page.rightSize?.height ?? 0),
+});
+
+/** Draws into its canvas once scrolled into view */
+const LazyCanvas: React.FC<{
+  width: number;
+  height: number;
+  draw: () => Promise<HTMLCanvasElement | null>;
+}> = ({ width, height, draw }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const target = canvasRef.current;
+    if (!target) return;
+    let cancelled = false;
+
+    const observer = new IntersectionObserver(async (entries) => {
+      if (!entries.some(entry => entry.isIntersecting)) return;
+      observer.disconnect();
+      try {
+        const source = await draw();
+        if (cancelled || !source) return;
+        target.width = source.width;
+        target.height = source.height;
+        target.getContext('2d')?.drawImage(source, 0, 0);
+        source.width = 0;
+        source.height = 0;
+      } catch {
+        // Leave the page blank; the marks still show where the changes are
+      }
+    }, { rootMargin: '400px' });
+    observer.observe(target);
+
+    return () => {
+      cancelled = true;
+      observer.disconnect();
+    };
+  }, [draw]);
+
+  return <canvas ref={canvasRef} style={{ display: 'block', width: `${width}px`, height: `${height}px`, backgroundColor: '#fff' }} />;
+};
+
+const Marks: React.FC<{ rects: CompareRect[]; scale: number; style: React.CSSProperties }> = ({ rects, scale, style }) => (
+  <>
+    {rects.map((rect, index) => (
+      <div
+        key={index}
+        style={{
+          position: 'absolute',
+          left: `${rect.x * scale}px`,
+          top: `${rect.y * scale}px`,
+          width: `${rect.width * scale}px`,
+          height: `${rect.height * scale}px`,
+          boxSizing: 'border-box',
+          pointerEvents: 'none',
+          ...style,
+        }}
+      />
+    ))}
+  </>
+);
+
+/**
+ * Side-by-side viewer of a comparison with synchronized scrolling, or a single
+ * pane showing the pixel-diff overlay of each page pair
+ */
+const CompareViewer: React.FC<CompareViewerProps> = ({ original, revised, result, pixelThreshold }) => {
+  const [mode, setMode] = useState<ViewMode>('side');
+  const [showRegions, setShowRegions] = useState<boolean>(true);
+  const [docs, setDocs] = useState<{ original: any; revised: any } | null>(null);
+  const [loadError, setLoadError] = useState<string>('');
+  const leftPaneRef = useRef<HTMLDivElement>(null);
+  const rightPaneRef = useRef<HTMLDivElement>(null);
+  const syncingRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: any[] = [];
+    (async () => {
+      try {
+        const { pdfjsLib } = await import('../services/pdfConfig');
+        loaded = await Promise.all([original, revised].map(async file =>
+          pdfjsLib.getDocument({ data: await file.arrayBuffer(), isEvalSupported: false }).promise
+        ));
+        if (cancelled) {
+          loaded.forEach(doc => doc.destroy());
+          return;
+        }
+        setDocs({ original: loaded[0], revised: loaded[1] });
+      } catch {
+        if (!cancelled) setLoadError('Failed to render the pages.');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      loaded.forEach(doc => doc.destroy());
+    };
+  }, [original, revised]);
+
+  // Mirror one pane's scroll position on the other
+  const handleScroll = (source: HTMLDivElement | null, target: HTMLDivElement | null) => {
+    if (!source || !target) return;
+    if (syncingRef.current === source) {
+      syncingRef.current = null;
+      return;
+    }
+    if (target.scrollTop === source.scrollTop && target.scrollLeft === source.scrollLeft) return;
+    syncingRef.current = target;
+    target.scrollTop = source.scrollTop;
+    target.scrollLeft = source.scrollLeft;
+  };
+
+  const scaleOf = (page: PageComparison) => PANE_WIDTH / Math.max(1, pairSize(page).width);
+
+  const jumpTo = (index: number) => {
+    const top = result.pages.slice(0, index).reduce((sum, page) => sum + pairSize(page).height * scaleOf(page) + ROW_GAP + 24, 0);
+    for (const pane of [leftPaneRef.current, rightPaneRef.current]) {
+      if (pane) pane.scrollTop = top;
+    }
+  };
+
+  // Keep one draw function per canvas so pages are not drawn again on every render
+  const drawers = useRef({ docs: null as typeof docs, map: new Map<string, () => Promise<HTMLCanvasElement | null>>() });
+  const drawer = (key: string, draw: () => Promise<HTMLCanvasElement | null>) => {
+    if (drawers.current.docs !== docs) drawers.current = { docs, map: new Map() };
+    if (!drawers.current.map.has(key)) drawers.current.map.set(key, draw);
+    return drawers.current.map.get(key)!;
+  };
+
+  const renderSide = (side: 'left' | 'right') => (
+    <div
+      ref={side === 'left' ? leftPaneRef : rightPaneRef}
+      onScroll={() => side === 'left'
+        ? handleScroll(leftPaneRef.current, rightPaneRef.current)
+        : handleScroll(rightPaneRef.current, leftPaneRef.current)}
+      style={paneStyle}
+    >
+      {result.pages.map((page, index) => {
+        const scale = scaleOf(page);
+        const { height } = pairSize(page);
+        const pageIndex = side === 'left' ? page.left : page.right;
+        const size = side === 'left' ? page.leftSize : page.rightSize;
+        const doc = side === 'left' ? docs?.original : docs?.revised;
+        return (
+          <div key={index} style={{ height: `${height * scale + 24}px`, marginBottom: `${ROW_GAP}px` }}>
+            <div style={rowLabelStyle}>
+              {pageIndex === null ? (side === 'left' ? 'Not in the original' : 'Removed in the revision') : `Page ${pageIndex + 1}`}
+            </div>
+            {pageIndex !== null && size && doc && (
+              <div style={{ position: 'relative', width: `${size.width * scale}px`, boxShadow: '0 1px 6px rgba(0, 0, 0, 0.12)' }}>
+                <LazyCanvas
+                  width={size.width * scale}
+                  height={size.height * scale}
+                  draw={drawer(`${side}-${pageIndex}`, async () => (await renderPDFPageFromDoc(doc, pageIndex + 1, scale * (window.devicePixelRatio || 1))).canvas)}
+                />
+                <Marks
+                  rects={page.changes.filter(change => change.type === (side === 'left' ? 'delete' : 'insert')).flatMap(change => change.rects)}
+                  scale={scale}
+                  style={side === 'left' ? DELETION_STYLE : INSERTION_STYLE}
+                />
+                {showRegions && <Marks rects={page.regions} scale={scale} style={REGION_STYLE} />}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const renderOverlay = () => (
+    <div style={{ ...paneStyle, flex: 'none', width: '100%' }}>
+      {result.pages.map((page, index) => {
+        const scale = scaleOf(page);
+        const { width, height } = pairSize(page);
+        return (
+          <div key={index} style={{ marginBottom: `${ROW_GAP}px`, display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+            <div style={rowLabelStyle}>
+              {page.left !== null ? `Original page ${page.left + 1}` : 'Not in the original'}
+              {' · '}
+              {page.right !== null ? `revised page ${page.right + 1}` : 'removed in the revision'}
+              {page.pixelDifference > 0 && ` · ${(page.pixelDifference * 100).toFixed(1)}% of pixels changed`}
+            </div>
+            {docs && (
+              <div style={{ position: 'relative', boxShadow: '0 1px 6px rgba(0, 0, 0, 0.12)' }}>
+                <LazyCanvas
+                  width={width * scale}
+                  height={height * scale}
+                  draw={drawer(`overlay-${index}`, () => renderComparisonOverlay(docs.original, docs.revised, page, scale, pixelThreshold))}
+                />
+                {showRegions && <Marks rects={page.regions} scale={scale} style={REGION_STYLE} />}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const paneStyle: React.CSSProperties = {
+    flex: 1,
+    height: '70vh',
+    overflow: 'auto',
+    padding: '0.75rem',
+    backgroundColor: 'var(--surface-light)',
+    borderRadius: 'var(--radius-md)',
+  };
+
+  const rowLabelStyle: React.CSSProperties = {
+    height: '24px',
+    fontSize: '0.75rem',
+    color: 'var(--text-tertiary)',
+  };
+
+  const toggleStyle = (active: boolean): React.CSSProperties => ({
+    padding: '0.4rem 0.9rem',
+    border: '1px solid var(--config-border)',
+    borderRadius: '6px',
+    backgroundColor: active ? 'var(--config-active)' : 'transparent',
+    color: active ? '#fff' : 'var(--text-secondary)',
+    fontSize: '0.8125rem',
+    cursor: 'pointer',
+  });
+
+  const changedPages = result.pages
+    .map((page, index) => ({ page, index }))
+    .filter(({ page }) => page.left === null || page.right === null || page.changes.length > 0 || page.regions.length > 0);
+
+  if (loadError) {
+    return <div className="error-msg">{loadError}</div>;
+  }
+
+  return (
+    <div style={{ textAlign: 'left' }}>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', alignItems: 'center', marginBottom: '0.75rem' }}>
+        <button style={toggleStyle(mode === 'side')} onClick={() => setMode('side')}>Side by side</button>
+        <button style={toggleStyle(mode === 'overlay')} onClick={() => setMode('overlay')}>Pixel overlay</button>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', fontSize: '0.8125rem', color: 'var(--text-secondary)', marginLeft: '0.5rem', cursor: 'pointer' }}>
+          <input type="checkbox" checked={showRegions} onChange={(e) => setShowRegions(e.target.checked)} />
+          Show changed areas
+        </label>
+        {mode === 'side' && changedPages.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => jumpTo(Number(e.target.value))}
+            aria-label="Jump to a changed page"
+            style={{ marginLeft: 'auto', padding: '0.35rem 0.5rem', border: '1px solid var(--config-border)', borderRadius: '6px', fontSize: '0.8125rem', backgroundColor: 'var(--config-surface)', color: 'var(--text-primary)' }}
+          >
+            <option value="" disabled>Jump to a change…</option>
+            {changedPages.map(({ page, index }) => (
+              <option key={index} value={index}>
+                {page.left !== null ? `Page ${page.left + 1}` : `New page ${page.right! + 1}`}
+                {page.changes.length > 0 && ` — ${page.changes.length} change${page.changes.length !== 1 ? 's' : ''}`}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div style={{ display: 'flex', gap: '0.75rem', fontSize: '0.75rem', color: 'var(--text-tertiary)', marginBottom: '0.5rem' }}>
+        {mode === 'side' ? (
+          <>
+            <span style={{ flex: 1 }}><strong style={{ color: 'var(--text-primary)' }}>{original.name}</strong> · deletions in red</span>
+            <span style={{ flex: 1 }}><strong style={{ color: 'var(--text-primary)' }}>{revised.name}</strong> · insertions in green</span>
+          </>
+        ) : (
+          <span>Red pixels are only in the original, green pixels only in the revision, orange pixels changed colour.</span>
+        )}
+      </div>
+
+      <div style={{ display: 'flex', gap: '0.75rem' }}>
+        {mode === 'side' ? (
+          <>
+            {renderSide('left')}
+            {renderSide('right')}
+          </>
+        ) : renderOverlay()}
+      </div>
+    </div>
+  );
+};
+
+export default CompareViewer;
@@ -42,7 +42,6 @@ const CompressPDF: React.FC<CompressPDFProps> = ({ tool, onBack }) => {
 
     const fileInputRef = useRef<HTMLInputElement>(null);
     const mountedRef = useRef(true);
-    const progressIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
     const isProcessing = state === ProcessState.CONVERTING;
     useWakeLock(isProcessing);
@@ -51,7 +50,6 @@ const CompressPDF: React.FC<CompressPDFProps> = ({ tool, onBack }) => {
     useEffect(() => {
         return () => {
             mountedRef.current = false;
-            if (progressIntervalRef.current) clearInterval(progressIntervalRef.current);
         };
     }, []);
 
@@ -128,25 +126,14 @@ const CompressPDF: React.FC<CompressPDFProps> = ({ tool, onBack }) => {
         setProgress(0);
         setResultBlob(null);
 
-        // Simulate progress since compressPDF doesn't have progress callback
-        progressIntervalRef.current = setInterval(() => {
-            if (mountedRef.current) {
-                setProgress(prev => {
-                    if (prev >= 90) {
-                        if (progressIntervalRef.current) clearInterval(progressIntervalRef.current);
-                        progressIntervalRef.current = null;
-                        return prev;
-                    }
-                    return prev + 8;
-                });
-            }
-        }, 300);
-
         try {
             setProgressStatus('Compressing your PDF...');
-            const compressedPdf = await compressPDF(file, finalConfig);
+            const compressedPdf = await compressPDF(file, finalConfig, (pct, status) => {
+                if (!mountedRef.current) return;
+                setProgress(pct);
+                setProgressStatus(status);
+            });
 
-            if (progressIntervalRef.current) { clearInterval(progressIntervalRef.current); progressIntervalRef.current = null; }
             if (!mountedRef.current) return;
 
             setProgress(100);
@@ -172,7 +159,6 @@ const CompressPDF: React.FC<CompressPDFProps> = ({ tool, onBack }) => {
             downloadPDF(compressedPdf, `${baseName}_compressed.pdf`);
             toast.success('PDF compressed successfully!');
         } catch (err) {
-            if (progressIntervalRef.current) { clearInterval(progressIntervalRef.current); progressIntervalRef.current = null; }
             if (!mountedRef.current) return;
 
             let errorMessage = 'An unknown error occurred';
@@ -288,8 +274,8 @@ const CompressPDF: React.FC<CompressPDFProps> = ({ tool, onBack }) => {
 
                                             <div style={{ padding: '1rem', background: 'var(--info-bg)', border: '1px solid color-mix(in srgb, var(--info) 40%, transparent)', borderRadius: 'var(--radius-sm)' }}>
                                                 <div style={{ fontSize: '0.875rem', color: 'var(--text-primary)', lineHeight: 1.6 }}>
-                                                    <strong>Note:</strong> Compression removes duplicate objects and optimizes the PDF structure.
-                                                    The amount of compression depends on the PDF content.
+                                                    <strong>Note:</strong> Compression downsamples and re-encodes embedded images and optimizes the PDF structure.
+                                                    Scanned and image-heavy PDFs shrink the most; text-only PDFs shrink less.
                                                 </div>
                                             </div>
                                         </div>
@@ -4,7 +4,7 @@
  */
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Tool } from '../types';
+import { Tool, FlattenPdfConfig } from '../types';
 import {
     EditorState,
     TextElement,
@@ -13,22 +13,27 @@ import {
     AnnotationElement,
     DrawingPath,
     WhiteoutElement,
+    RedactionElement,
+    FormFieldElement,
+    FormFieldKind,
     DetectedTextItem,
     renderPDFPageFromDoc,
     extractTextItemsFromDoc,
-    saveEditedPDF
+    saveEditedPDF,
+    hexToRgb
 } from '../services/pdfEditorService';
 import { downloadPDF } from '../services/pdfService';
 import { toast } from '../hooks/useToast';
 import { useWakeLock } from '../hooks/usePageVisibility';
 import BackButton from './BackButton';
+import FlattenSaveOptions, { NO_FLATTEN } from './FlattenSaveOptions';
 
 interface EditPDFProps {
     tool: Tool;
     onBack: () => void;
 }
 
-type ToolType = 'select' | 'text' | 'draw' | 'shape' | 'highlight' | 'eraser' | 'image';
+type ToolType = 'select' | 'text' | 'draw' | 'shape' | 'highlight' | 'eraser' | 'redact' | 'image' | 'field';
 
 interface EditorCommand {
     execute: () => void;
@@ -38,6 +43,18 @@ interface EditorCommand {
 
 const MAX_HISTORY = 50;
 
+/** Form field kinds; width and height in points are used when a field is placed with a click */
+const FIELD_KINDS: Record<FormFieldKind, { label: string; prefix: string; width: number; height: number }> = {
+    text: { label: 'Text field', prefix: 'Text', width: 160, height: 22 },
+    multiline: { label: 'Multiline text', prefix: 'Notes', width: 220, height: 66 },
+    checkbox: { label: 'Checkbox', prefix: 'Checkbox', width: 14, height: 14 },
+    radio: { label: 'Radio button', prefix: 'Group', width: 14, height: 14 },
+    dropdown: { label: 'Dropdown', prefix: 'Dropdown', width: 140, height: 22 },
+    date: { label: 'Date', prefix: 'Date', width: 100, height: 22 },
+};
+
+const DATE_FORMATS = ['yyyy-mm-dd', 'mm/dd/yyyy', 'dd/mm/yyyy', 'dd.mm.yyyy'];
+
 const EditPDF: React.FC<EditPDFProps> = ({ tool, onBack }) => {
     // Core state
     const [selectedFile, setSelectedFile] = useState<File | null>(null);
@@ -46,6 +63,7 @@ const EditPDF: React.FC<EditPDFProps> = ({ tool, onBack }) => {
     const [zoom, setZoom] = useState(100);
     const [loading, setLoading] = useState(false);
     const [saving, setSaving] = useState(false);
+    const [flattenOnSave, setFlattenOnSave] = useState<FlattenPdfConfig>(NO_FLATTEN);
     const [pageLoading, setPageLoading] = useState(false);
     const [isDragging, setIsDragging] = useState(false);
     const [errorMsg, setErrorMsg] = useState('');
@@ -53,7 +71,7 @@ const EditPDF: React.FC<EditPDFProps> = ({ tool, onBack }) => {
     // Editor
     const [toolMode, setToolMode] = useState<ToolType>('select');
     const [editorState, setEditorState] = useState<EditorState>({
-        texts: [], images: [], shapes: [], annotations: [], drawings: [], whiteouts: []
+        texts: [], images: [], shapes: [], annotations: [], drawings: [], whiteouts: [], redactions: [], fields: []
     });
     const [selectedElementId, setSelectedElementId] = useState<string | null>(null);
     const [detectedTexts, setDetectedTexts] = useState<Map<number, DetectedTextItem[]>>(new Map());
@@ -79,6 +97,8 @@ const EditPDF: React.FC<EditPDFProps> = ({ tool, onBack }) => {
     const [drawSettings, setDrawSettings] = useState({ color: '#000000', width: 3 });
     const [shapeSettings, setShapeSettings] = useState({ type: 'rectangle' as 'rectangle' | 'circle' | 'line', color: '#000000', strokeWidth: 2, fillColor: '' });
     const [highlightColor, setHighlightColor] = useState('#FFFF00');
+    const [redactSettings, setRedactSettings] = useState({ fillColor: '#000000', label: '' });
+    const [fieldSettings, setFieldSettings] = useState({ type: 'text' as FormFieldKind, radioGroup: 'Group1', dateFormat: DATE_FORMATS[0] });
 
     // Element move/resize
     const [movingElement, setMovingElement] = useState<{ id: string; type: string; startX: number; startY: number; origX: number; origY: number } | null>(null);
@@ -224,7 +244,7 @@ const EditPDF: React.FC<EditPDFProps> = ({ tool, onBack }) => {
             setSelectedFile(file);
             setTotalPages(pdf.numPages);
             setCurrentPage(1);
-            setEditorState({ texts: [], images: [], shapes: [], annotations: [], drawings: [], whiteouts: [] });
+            setEditorState({ texts: [], images: [], shapes: [], annotations: [], drawings: [], whiteouts: [], redactions: [], fields: [] });
             setHistory([]);
             setHistoryIndex(-1);
             setSelectedElementId(null);
@@ -273,6 +293,24 @@ const EditPDF: React.FC<EditPDFProps> = ({ tool, onBack }) => {
                     ctx.fillRect(w.x, w.y, w.width, w.height);
                 });
 
+            // Draw redactions as they will be saved
+            editorState.redactions
+                .filter(r => r.pageNumber === currentPage)
+                .forEach(r => {
+                    ctx.fillStyle = r.fillColor;
+                    ctx.fillRect(r.x, r.y, r.width, r.height);
+                    if (r.label.trim()) {
+                        const { r: red, g, b } = hexToRgb(r.fillColor);
+                        ctx.save();
+                        ctx.fillStyle = 0.299 * red + 0.587 * g + 0.114 * b < 0.5 ? '#FFFFFF' : '#000000';
+                        ctx.font = `bold ${Math.min(r.height * 0.6, 14 * scale)}px Helvetica`;
+                        ctx.textAlign = 'center';
+                        ctx.textBaseline = 'middle';
+                        ctx.fillText(r.label.trim(), r.x + r.width / 2, r.y + r.height / 2, r.width * 0.9);
+                        ctx.restore();
+                    }
+                });
+
             // Draw shapes on canvas
             editorState.shapes
                 .filter(s => s.pageNumber === currentPage)
@@ -323,6 +361,43 @@ const EditPDF: React.FC<EditPDFProps> = ({ tool, onBack }) => {
                     }
                 });
 
+            // Draw form fields
+            editorState.fields
+                .filter(f => f.pageNumber === currentPage)
+                .forEach(f => {
+                    ctx.fillStyle = 'rgba(37, 99, 235, 0.08)';
+                    ctx.strokeStyle = '#2563eb';
+                    ctx.lineWidth = 1;
+                    ctx.beginPath();
+                    if (f.type === 'radio') {
+                        ctx.ellipse(f.x + f.width / 2, f.y + f.height / 2, f.width / 2, f.height / 2, 0, 0, Math.PI * 2);
+                    } else {
+                        ctx.rect(f.x, f.y, f.width, f.height);
+                    }
+                    ctx.fill();
+                    ctx.stroke();
+
+                    const label = f.type === 'checkbox' ? (f.defaultValue ? '✓' : '')
+                        : f.type === 'radio' ? (f.defaultValue && f.defaultValue === f.option ? '●' : '')
+                        : f.defaultValue || (f.type === 'date' ? f.dateFormat ?? '' : f.name);
+                    const fontSize = Math.max(8, Math.min(f.height * 0.6, (f.fontSize || 12) * scale));
+                    ctx.save();
+                    ctx.beginPath();
+                    ctx.rect(f.x, f.y, f.width, f.height);
+                    ctx.clip();
+                    ctx.fillStyle = f.defaultValue ? '#111827' : '#1e40af';
+                    ctx.font = `${fontSize}px Helvetica`;
+                    ctx.textBaseline = f.type === 'multiline' ? 'top' : 'middle';
+                    ctx.textAlign = f.type === 'checkbox' || f.type === 'radio' ? 'center' : 'left';
+                    const textX = ctx.textAlign === 'center' ? f.x + f.width / 2 : f.x + 3;
+                    ctx.fillText(label, textX, f.type === 'multiline' ? f.y + 3 : f.y + f.height / 2);
+                    if (f.type === 'dropdown') {
+                        ctx.textAlign = 'right';
+                        ctx.fillText('▾', f.x + f.width - 3, f.y + f.height / 2);
+                    }
+                    ctx.restore();
+                });
+
             // Draw preview shape
             if (previewShape) {
                 ctx.setLineDash([5, 5]);
@@ -349,6 +424,18 @@ const EditPDF: React.FC<EditPDFProps> = ({ tool, onBack }) => {
                 } else if (toolMode === 'eraser') {
                     ctx.strokeStyle = '#9CA3AF';
                     ctx.strokeRect(previewShape.x, previewShape.y, previewShape.w, previewShape.h);
+                } else if (toolMode === 'redact') {
+                    ctx.fillStyle = redactSettings.fillColor;
+                    ctx.globalAlpha = 0.5;
+                    ctx.fillRect(previewShape.x, previewShape.y, previewShape.w, previewShape.h);
+                    ctx.globalAlpha = 1;
+                    ctx.strokeStyle = '#DC2626';
+                    ctx.lineWidth = 1;
+                    ctx.strokeRect(previewShape.x, previewShape.y, previewShape.w, previewShape.h);
+                } else if (toolMode === 'field') {
+                    ctx.strokeStyle = '#2563eb';
+                    ctx.lineWidth = 1;
+                    ctx.strokeRect(previewShape.x, previewShape.y, previewShape.w, previewShape.h);
                 }
                 ctx.setLineDash([]);
             }
@@ -360,7 +447,9 @@ const EditPDF: React.FC<EditPDFProps> = ({ tool, onBack }) => {
                     ...editorState.shapes.map(s => ({ ...s, _type: 'shape' })),
                     ...editorState.images.map(i => ({ ...i, _type: 'image' })),
                     ...editorState.whiteouts.map(w => ({ ...w, _type: 'whiteout' })),
+                    ...editorState.redactions.map(r => ({ ...r, _type: 'redaction' })),
                     ...editorState.annotations.map(a => ({ ...a, _type: 'annotation' })),
+                    ...editorState.fields.map(f => ({ ...f, _type: 'field' })),
                 ];
                 const el = allElements.find(e => e.id === selectedElementId);
                 if (el && 'x' in el && 'y' in el && 'width' in el && 'height' in el) {
@@ -389,7 +478,7 @@ const EditPDF: React.FC<EditPDFProps> = ({ tool, onBack }) => {
         } finally {
             setPageLoading(false);
         }
-    }, [selectedFile, currentPage, scale, editorState, previewShape, selectedElementId, toolMode, shapeSettings, highlightColor]);
+    }, [selectedFile, currentPage, scale, editorState, previewShape, selectedElementId, toolMode, shapeSettings, highlightColor, redactSettings]);
 
     // ──────────────────────────────────
     // Text detection
@@ -431,6 +520,8 @@ const EditPDF: React.FC<EditPDFProps> = ({ tool, onBack }) => {
             annotations: [...editorState.annotations],
             drawings: [...editorState.drawings],
             whiteouts: [...editorState.whiteouts],
+            redactions: [...editorState.redactions],
+            fields: [...editorState.fields],
         };
 
         pushCommand({
@@ -444,6 +535,8 @@ const EditPDF: React.FC<EditPDFProps> = ({ tool, onBack }) => {
                     annotations: s.annotations.filter(a => a.id !== id),
                     drawings: s.drawings.filter(d => d.id !== id),
                     whiteouts: s.whiteouts.filter(w => w.id !== id),
+                    redactions: s.redactions.filter(r => r.id !== id),
+                    fields: s.fields.filter(f => f.id !== id),
                 }));
                 setSelectedElementId(null);
             },
@@ -508,7 +601,7 @@ const EditPDF: React.FC<EditPDFProps> = ({ tool, onBack }) => {
             return;
         }
 
-        if (toolMode === 'shape' || toolMode === 'highlight' || toolMode === 'eraser') {
+        if (toolMode === 'shape' || toolMode === 'highlight' || toolMode === 'eraser' || toolMode === 'redact' || toolMode === 'field') {
             setIsInteracting(true);
             setInteractionStart(coords);
             return;
@@ -536,6 +629,8 @@ const EditPDF: React.FC<EditPDFProps> = ({ tool, onBack }) => {
                     shapes: update(s.shapes),
                     annotations: update(s.annotations),
                     whiteouts: update(s.whiteouts),
+                    redactions: update(s.redactions),
+                    fields: update(s.fields),
                 };
             });
             return;
@@ -559,7 +654,7 @@ const EditPDF: React.FC<EditPDFProps> = ({ tool, onBack }) => {
             return;
         }
 
-        if ((toolMode === 'shape' || toolMode === 'highlight' || toolMode === 'eraser') && interactionStart) {
+        if ((toolMode === 'shape' || toolMode === 'highlight' || toolMode === 'eraser' || toolMode === 'redact' || toolMode === 'field') && interactionStart) {
             setPreviewShape({
                 x: Math.min(interactionStart.x, coords.x),
                 y: Math.min(interactionStart.y, coords.y),
@@ -590,7 +685,7 @@ const EditPDF: React.FC<EditPDFProps> = ({ tool, onBack }) => {
                                 const update = (arr: any[]) => arr.map((el: any) =>
                                     el.id === id ? { ...el, x: newX, y: newY } : el
                                 );
-                                return { ...s, texts: update(s.texts), images: update(s.images), shapes: update(s.shapes), annotations: update(s.annotations), whiteouts: update(s.whiteouts) };
+                                return { ...s, texts: update(s.texts), images: update(s.images), shapes: update(s.shapes), annotations: update(s.annotations), whiteouts: update(s.whiteouts), redactions: update(s.redactions), fields: update(s.fields) };
                             });
                         },
                         undo: () => {
@@ -598,7 +693,7 @@ const EditPDF: React.FC<EditPDFProps> = ({ tool, onBack }) => {
                                 const update = (arr: any[]) => arr.map((el: any) =>
                                     el.id === id ? { ...el, x: origX, y: origY } : el
                                 );
-                                return { ...s, texts: update(s.texts), images: update(s.images), shapes: update(s.shapes), annotations: update(s.annotations), whiteouts: update(s.whiteouts) };
+                                return { ...s, texts: update(s.texts), images: update(s.images), shapes: update(s.shapes), annotations: update(s.annotations), whiteouts: update(s.whiteouts), redactions: update(s.redactions), fields: update(s.fields) };
                             });
                         },
                     };
@@ -694,16 +789,99 @@ const EditPDF: React.FC<EditPDFProps> = ({ tool, onBack }) => {
             }
         }
 
+        if (toolMode === 'redact' && interactionStart && coords) {
+            const x = Math.min(interactionStart.x, coords.x);
+            const y = Math.min(interactionStart.y, coords.y);
+            const w = Math.abs(coords.x - interactionStart.x);
+            const h = Math.abs(coords.y - interactionStart.y);
+            if (w > 5 && h > 5) {
+                const newRedaction: RedactionElement = {
+                    id: `redaction-${Date.now()}`,
+                    pageNumber: currentPage,
+                    x, y, width: w, height: h,
+                    fillColor: redactSettings.fillColor,
+                    label: redactSettings.label,
+                };
+                pushCommand({
+                    description: 'Add redaction',
+                    execute: () => setEditorState(s => ({ ...s, redactions: [...s.redactions, newRedaction] })),
+                    undo: () => setEditorState(s => ({ ...s, redactions: s.redactions.filter(r => r.id !== newRedaction.id) })),
+                });
+            }
+        }
+
+        if (toolMode === 'field' && interactionStart && coords) {
+            const x = Math.min(interactionStart.x, coords.x);
+            const y = Math.min(interactionStart.y, coords.y);
+            const w = Math.abs(coords.x - interactionStart.x);
+            const h = Math.abs(coords.y - interactionStart.y);
+            // A click places a field of the default size
+            if (w > 5 && h > 5) addFormField(x, y, w, h);
+            else addFormField(interactionStart.x, interactionStart.y, FIELD_KINDS[fieldSettings.type].width * scale, FIELD_KINDS[fieldSettings.type].height * scale);
+        }
+
         setIsInteracting(false);
         setInteractionStart(null);
         setCurrentDrawingPoints([]);
         setPreviewShape(null);
     };
 
+    // ──────────────────────────────────
+    // Form fields
+    // ──────────────────────────────────
+    const addFormField = (x: number, y: number, width: number, height: number) => {
+        const type = fieldSettings.type;
+        const fields = editorState.fields;
+        let name = fieldSettings.radioGroup.trim() || FIELD_KINDS.radio.prefix;
+        if (type !== 'radio') {
+            let n = 1;
+            while (fields.some(f => f.name === `${FIELD_KINDS[type].prefix}${n}`)) n++;
+            name = `${FIELD_KINDS[type].prefix}${n}`;
+        }
+        const group = fields.filter(f => f.type === 'radio' && f.name === name);
+
+        const newField: FormFieldElement = {
+            id: `field-${Date.now()}`,
+            pageNumber: currentPage,
+            type,
+            x, y, width, height,
+            name,
+            defaultValue: type === 'radio' ? group[0]?.defaultValue ?? '' : '',
+            required: group[0]?.required ?? false,
+            fontSize: 12,
+            tabOrder: fields.reduce((max, f) => Math.max(max, f.tabOrder), 0) + 1,
+            options: type === 'dropdown' ? ['Option 1', 'Option 2'] : [],
+            option: type === 'radio' ? `Option ${group.length + 1}` : undefined,
+            dateFormat: type === 'date' ? fieldSettings.dateFormat : undefined,
+        };
+        pushCommand({
+            description: 'Add form field',
+            execute: () => setEditorState(s => ({ ...s, fields: [...s.fields, newField] })),
+            undo: () => setEditorState(s => ({ ...s, fields: s.fields.filter(f => f.id !== newField.id) })),
+        });
+        setSelectedElementId(newField.id);
+    };
+
+    const updateFields = (ids: string[], changes: Partial<FormFieldElement> | ((f: FormFieldElement) => Partial<FormFieldElement>)) => {
+        const before = editorState.fields.filter(f => ids.includes(f.id));
+        const apply = (f: FormFieldElement) => ({ ...f, ...(typeof changes === 'function' ? changes(f) : changes) });
+        pushCommand({
+            description: 'Edit form field',
+            execute: () => setEditorState(s => ({ ...s, fields: s.fields.map(f => ids.includes(f.id) ? apply(f) : f) })),
+            undo: () => setEditorState(s => ({ ...s, fields: s.fields.map(f => before.find(b => b.id === f.id) ?? f) })),
+        });
+    };
+
     // ──────────────────────────────────
     // Hit detection for select mode
     // ──────────────────────────────────
     const findElementAtPoint = (px: number, py: number): { id: string; type: string; x: number; y: number } | null => {
+        // Check form fields
+        for (const f of editorState.fields.filter(f => f.pageNumber === currentPage)) {
+            if (px >= f.x && px <= f.x + f.width && py >= f.y && py <= f.y + f.height) {
+                return { id: f.id, type: 'field', x: f.x, y: f.y };
+            }
+        }
         // Check texts — use canvas measureText for accurate width
         for (const t of editorState.texts.filter(t => t.pageNumber === currentPage)) {
             const ctx = canvasRef.current?.getContext('2d');
@@ -758,6 +936,12 @@ const EditPDF: React.FC<EditPDFProps> = ({ tool, onBack }) => {
                 return { id: w.id, type: 'whiteout', x: w.x, y: w.y };
             }
         }
+        // Check redactions
+        for (const r of editorState.redactions.filter(r => r.pageNumber === currentPage)) {
+            if (px >= r.x && px <= r.x + r.width && py >= r.y && py <= r.y + r.height) {
+                return { id: r.id, type: 'redaction', x: r.x, y: r.y };
+            }
+        }
         return null;
     };
 
@@ -964,7 +1148,8 @@ const EditPDF: React.FC<EditPDFProps> = ({ tool, onBack }) => {
         if (!selectedFile) return;
         setSaving(true);
         try {
-            const pdfBytes = await saveEditedPDF(selectedFile, editorState, scale);
+            const flatten = Object.values(flattenOnSave).some(Boolean) ? flattenOnSave : undefined;
+            const pdfBytes = await saveEditedPDF(selectedFile, editorState, scale, flatten);
             const filename = selectedFile.name.replace('.pdf', '_edited.pdf');
             downloadPDF(pdfBytes, filename);
             toast.success('PDF saved successfully!');
@@ -982,7 +1167,7 @@ const EditPDF: React.FC<EditPDFProps> = ({ tool, onBack }) => {
         } finally {
             setSaving(false);
         }
-    }, [selectedFile, editorState, scale]);
+    }, [selectedFile, editorState, scale, flattenOnSave]);
 
     // ──────────────────────────────────
     // Keyboard shortcuts
@@ -995,7 +1180,9 @@ const EditPDF: React.FC<EditPDFProps> = ({ tool, onBack }) => {
                 if (e.key === 's') { e.preventDefault(); handleSave(); }
             }
             if (e.key === 'Delete' || e.key === 'Backspace') {
-                if (selectedElementId && !editingTextId && !newTextPos) {
+                // Typing in the side panel, e.g. a field name, must not delete the element
+                const typing = e.target instanceof HTMLElement && e.target.closest('input, textarea, select');
+                if (selectedElementId && !editingTextId && !newTextPos && !typing) {
                     e.preventDefault();
                     deleteSelectedElement();
                 }
@@ -1059,12 +1246,14 @@ const EditPDF: React.FC<EditPDFProps> = ({ tool, onBack }) => {
         shape: 'M5.25 7.5A2.25 2.25 0 017.5 5.25h9a2.25 2.25 0 012.25 2.25v9a2.25 2.25 0 01-2.25 2.25h-9a2.25 2.25 0 01-2.25-2.25v-9z',
         highlight: 'M9.53 16.122a3 3 0 00-5.78 1.128 2.25 2.25 0 01-2.4 2.245 4.5 4.5 0 008.4-2.245c0-.399-.078-.78-.22-1.128zm0 0a15.998 15.998 0 003.388-1.62m-5.043-.025a15.994 15.994 0 011.622-3.395m3.42 3.42a15.995 15.995 0 004.764-4.648l3.876-5.814a1.151 1.151 0 00-1.597-1.597L14.146 6.32a15.996 15.996 0 00-4.649 4.763m3.42 3.42a6.776 6.776 0 00-3.42-3.42',
         eraser: 'M5.25 7.5l7.5-7.5 7.5 7.5-7.5 7.5-7.5-7.5z',
+        redact: 'M3.98 8.223A10.477 10.477 0 001.934 12C3.226 16.338 7.244 19.5 12 19.5c.993 0 1.953-.138 2.863-.395M6.228 6.228A10.45 10.45 0 0112 4.5c4.756 0 8.773 3.162 10.065 7.498a10.523 10.523 0 01-4.293 5.774M6.228 6.228L3 3m3.228 3.228l3.65 3.65m7.894 7.894L21 21m-3.228-3.228l-3.65-3.65m0 0a3 3 0 10-4.243-4.243m4.242 4.242L9.88 9.88',
         image: 'M2.25 15.75l5.159-5.159a2.25 2.25 0 013.182 0l5.159 5.159m-1.5-1.5l1.409-1.409a2.25 2.25 0 013.182 0l2.909 2.909M3.75 21h16.5a1.5 1.5 0 001.5-1.5V6a1.5 1.5 0 00-1.5-1.5H3.75A1.5 1.5 0 002.25 6v12a1.5 1.5 0 001.5 1.5z',
+        field: 'M3.75 6A2.25 2.25 0 016 3.75h12A2.25 2.25 0 0120.25 6v3A2.25 2.25 0 0118 11.25H6A2.25 2.25 0 013.75 9V6zM7.5 7.5h4.5M3.75 15A2.25 2.25 0 016 12.75h12A2.25 2.25 0 0120.25 15v3A2.25 2.25 0 0118 20.25H6A2.25 2.25 0 013.75 18v-3zm3.75 1.5h4.5',
     };
 
     const toolLabels: Record<ToolType, string> = {
         select: 'Select', text: 'Text', draw: 'Draw', shape: 'Shape',
-        highlight: 'Highlight', eraser: 'Eraser', image: 'Image',
+        highlight: 'Highlight', eraser: 'Eraser', redact: 'Redact', image: 'Image', field: 'Field',
     };
 
     // ──────────────────────────────────
@@ -1156,6 +1345,7 @@ const EditPDF: React.FC<EditPDFProps> = ({ tool, onBack }) => {
     // EDITOR VIEW
     // ──────────────────────────────────
     const currentDetected = detectedTexts.get(currentPage) || [];
+    const selectedField = editorState.fields.find(f => f.id === selectedElementId);
 
     return (
         <div className="pdf-editor">
@@ -1303,7 +1493,7 @@ const EditPDF: React.FC<EditPDFProps> = ({ tool, onBack }) => {
 
                         {/* Text detection overlay */}
                         <div className="text-detection-layer" style={getOverlayStyle()} ref={editOverlayRef}>
-                            {toolMode !== 'draw' && toolMode !== 'eraser' && toolMode !== 'shape' && toolMode !== 'highlight' && currentDetected.map(item => {
+                            {toolMode !== 'draw' && toolMode !== 'eraser' && toolMode !== 'redact' && toolMode !== 'shape' && toolMode !== 'highlight' && currentDetected.map(item => {
                                 const canvas = canvasRef.current;
                                 if (!canvas) return null;
                                 const scaleX = canvas.clientWidth / canvas.width;
@@ -1640,6 +1830,227 @@ const EditPDF: React.FC<EditPDFProps> = ({ tool, onBack }) => {
                         </div>
                     )}
 
+                    {toolMode === 'redact' && (
+                        <div className="tool-panel-section">
+                            <div className="tool-panel-label">Redaction</div>
+                            <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                                <label style={{ fontSize: '0.75rem', color: 'var(--text-tertiary)' }}>Fill</label>
+                                <input
+                                    type="color"
+                                    value={redactSettings.fillColor}
+                                    onChange={e => setRedactSettings(s => ({ ...s, fillColor: e.target.value }))}
+                                    className="tool-color"
+                                />
+                            </div>
+                            <input
+                                type="text"
+                                value={redactSettings.label}
+                                onChange={e => setRedactSettings(s => ({ ...s, label: e.target.value }))}
+                                placeholder="Label (optional), e.g. REDACTED"
+                                className="tool-input"
+                                style={{ width: '100%', marginTop: '0.5rem' }}
+                            />
+                            <p style={{ fontSize: '0.8rem', color: 'var(--text-tertiary)', margin: '0.5rem 0 0' }}>
+                                Drag over text, images or drawings to remove them permanently. Unlike the eraser, the content is deleted from the file, not just covered.
+                            </p>
+                        </div>
+                    )}
+
+                    {toolMode === 'field' && (
+                        <div className="tool-panel-section">
+                            <div className="tool-panel-label">Field Settings</div>
+                            <select
+                                value={fieldSettings.type}
+                                onChange={e => setFieldSettings(s => ({ ...s, type: e.target.value as FormFieldKind }))}
+                                className="tool-select"
+                            >
+                                {(Object.keys(FIELD_KINDS) as FormFieldKind[]).map(kind => (
+                                    <option key={kind} value={kind}>{FIELD_KINDS[kind].label}</option>
+                                ))}
+                            </select>
+                            {fieldSettings.type === 'radio' && (
+                                <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem', alignItems: 'center' }}>
+                                    <label style={{ fontSize: '0.75rem', color: 'var(--text-tertiary)' }}>Group</label>
+                                    <input
+                                        type="text"
+                                        value={fieldSettings.radioGroup}
+                                        onChange={e => setFieldSettings(s => ({ ...s, radioGroup: e.target.value }))}
+                                        className="tool-input"
+                                        style={{ flex: 1 }}
+                                    />
+                                </div>
+                            )}
+                            {fieldSettings.type === 'date' && (
+                                <select
+                                    value={fieldSettings.dateFormat}
+                                    onChange={e => setFieldSettings(s => ({ ...s, dateFormat: e.target.value }))}
+                                    className="tool-select"
+                                    style={{ marginTop: '0.5rem' }}
+                                >
+                                    {DATE_FORMATS.map(format => <option key={format} value={format}>{format}</option>)}
+                                </select>
+                            )}
+                            <p style={{ fontSize: '0.8rem', color: 'var(--text-tertiary)', margin: '0.5rem 0 0' }}>
+                                Drag on the page to draw the field, or click to place it.
+                            </p>
+                        </div>
+                    )}
+
+                    {selectedField && (() => {
+                        const f = selectedField;
+                        const group = f.type === 'radio' ? editorState.fields.filter(g => g.type === 'radio' && g.name === f.name) : [f];
+                        const hasText = f.type === 'text' || f.type === 'multiline' || f.type === 'date' || f.type === 'dropdown';
+                        const labelStyle: React.CSSProperties = { fontSize: '0.75rem', color: 'var(--text-tertiary)', display: 'block', margin: '0.5rem 0 0.25rem' };
+                        const checkStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.8125rem', color: 'var(--text-secondary)', cursor: 'pointer', marginTop: '0.5rem' };
+                        return (
+                            <div className="tool-panel-section">
+                                <div className="tool-panel-label">{FIELD_KINDS[f.type].label}</div>
+                                <label style={labelStyle}>{f.type === 'radio' ? 'Group name' : 'Name'}</label>
+                                <input
+                                    key={`${f.id}-name-${f.name}`}
+                                    type="text"
+                                    defaultValue={f.name}
+                                    onBlur={e => { if (e.target.value !== f.name) updateFields(group.map(g => g.id), { name: e.target.value }); }}
+                                    className="tool-input"
+                                    style={{ width: '100%' }}
+                                />
+
+                                {f.type === 'radio' && (
+                                    <>
+                                        <label style={labelStyle}>Value</label>
+                                        <input
+                                            key={`${f.id}-option-${f.option}`}
+                                            type="text"
+                                            defaultValue={f.option}
+                                            onBlur={e => {
+                                                const option = e.target.value;
+                                                if (option === f.option) return;
+                                                // Keep the group's default pointing at this button
+                                                const isDefault = !!f.defaultValue && f.defaultValue === f.option;
+                                                updateFields(group.map(g => g.id), g => ({
+                                                    ...(g.id === f.id ? { option } : {}),
+                                                    ...(isDefault ? { defaultValue: option } : {}),
+                                                }));
+                                            }}
+                                            className="tool-input"
+                                            style={{ width: '100%' }}
+                                        />
+                                        <label style={checkStyle}>
+                                            <input
+                                                type="checkbox"
+                                                checked={!!f.defaultValue && f.defaultValue === f.option}
+                                                onChange={e => updateFields(group.map(g => g.id), { defaultValue: e.target.checked ? f.option ?? '' : '' })}
+                                            />
+                                            Selected by default
+                                        </label>
+                                    </>
+                                )}
+
+                                {f.type === 'checkbox' && (
+                                    <label style={checkStyle}>
+                                        <input
+                                            type="checkbox"
+                                            checked={!!f.defaultValue}
+                                            onChange={e => updateFields([f.id], { defaultValue: e.target.checked ? 'Yes' : '' })}
+                                        />
+                                        Checked by default
+                                    </label>
+                                )}
+
+                                {f.type === 'dropdown' && (
+                                    <>
+                                        <label style={labelStyle}>Choices (one per line)</label>
+                                        <textarea
+                                            key={`${f.id}-options-${f.options.join('|')}`}
+                                            defaultValue={f.options.join('\n')}
+                                            onBlur={e => {
+                                                const options = e.target.value.split('\n').map(o => o.trim()).filter(Boolean);
+                                                if (options.join('|') === f.options.join('|')) return;
+                                                updateFields([f.id], { options, defaultValue: options.includes(f.defaultValue) ? f.defaultValue : '' });
+                                            }}
+                                            className="tool-input"
+                                            rows={4}
+                                            style={{ width: '100%', resize: 'vertical' }}
+                                        />
+                                        <label style={labelStyle}>Default</label>
+                                        <select
+                                            value={f.defaultValue}
+                                            onChange={e => updateFields([f.id], { defaultValue: e.target.value })}
+                                            className="tool-select"
+                                        >
+                                            <option value="">None</option>
+                                            {f.options.map(o => <option key={o} value={o}>{o}</option>)}
+                                        </select>
+                                    </>
+                                )}
+
+                                {(f.type === 'text' || f.type === 'multiline' || f.type === 'date') && (
+                                    <>
+                                        <label style={labelStyle}>Default value</label>
+                                        <input
+                                            key={`${f.id}-default-${f.defaultValue}`}
+                                            type="text"
+                                            defaultValue={f.defaultValue}
+                                            placeholder={f.type === 'date' ? f.dateFormat : ''}
+                                            onBlur={e => { if (e.target.value !== f.defaultValue) updateFields([f.id], { defaultValue: e.target.value }); }}
+                                            className="tool-input"
+                                            style={{ width: '100%' }}
+                                        />
+                                    </>
+                                )}
+
+                                {f.type === 'date' && (
+                                    <>
+                                        <label style={labelStyle}>Format</label>
+                                        <select
+                                            value={f.dateFormat}
+                                            onChange={e => updateFields([f.id], { dateFormat: e.target.value })}
+                                            className="tool-select"
+                                        >
+                                            {DATE_FORMATS.map(format => <option key={format} value={format}>{format}</option>)}
+                                        </select>
+                                    </>
+                                )}
+
+                                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                                    {hasText && (
+                                        <div style={{ flex: 1 }}>
+                                            <label style={labelStyle} title="0 sizes the text to fit the field">Font size</label>
+                                            <input
+                                                type="number"
+                                                value={f.fontSize}
+                                                onChange={e => updateFields([f.id], { fontSize: Math.max(0, Math.min(72, parseInt(e.target.value) || 0)) })}
+                                                min={0} max={72}
+                                                className="tool-input"
+                                                style={{ width: '100%' }}
+                                            />
+                                        </div>
+                                    )}
+                                    <div style={{ flex: 1 }}>
+                                        <label style={labelStyle}>Tab order</label>
+                                        <input
+                                            type="number"
+                                            value={f.tabOrder}
+                                            onChange={e => updateFields([f.id], { tabOrder: Math.max(1, parseInt(e.target.value) || 1) })}
+                                            min={1}
+                                            className="tool-input"
+                                            style={{ width: '100%' }}
+                                        />
+                                    </div>
+                                </div>
+
+                                <label style={checkStyle}>
+                                    <input
+                                        type="checkbox"
+                                        checked={f.required}
+                                        onChange={e => updateFields(group.map(g => g.id), { required: e.target.checked })}
+                                    />
+                                    Required
+                                </label>
+                            </div>
+                        );
+                    })()}
+
                     {/* Page navigation */}
                     <div className="tool-panel-section">
                         <div className="tool-panel-label">Navigation</div>
@@ -1686,6 +2097,8 @@ const EditPDF: React.FC<EditPDFProps> = ({ tool, onBack }) => {
                         </div>
                     </div>
 
+                    <FlattenSaveOptions value={flattenOnSave} onChange={setFlattenOnSave} />
+
                     {/* Info tip */}
                     <div className="tool-panel-section" style={{ marginTop: 'auto' }}>
                         <div style={{
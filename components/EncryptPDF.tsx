@@ -4,8 +4,9 @@
  */
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Tool, ProcessState } from '../types';
+import { Tool, ProcessState, EncryptPdfConfig, EncryptionAlgorithm } from '../types';
 import { encryptPDF, downloadPDF, EncryptPermissions } from '../services/pdfService';
+import { configService } from '../services/configService';
 import { useWakeLock, usePageVisibility } from '../hooks/usePageVisibility';
 import { toast } from '../hooks/useToast';
 import { formatFileSize } from '../utils/formatFileSize';
@@ -47,6 +48,23 @@ const STRENGTH_CONFIG: Record<PasswordStrength, { label: string; color: string;
     strong: { label: 'Strong', color: 'var(--success)', width: '100%' },
 };
 
+const ALGORITHM_OPTIONS: Array<{ value: EncryptionAlgorithm; label: string; description: string }> = [
+    { value: 'AES-256', label: 'AES 256-bit', description: 'Strongest. Acrobat X / PDF 2.0 and newer readers' },
+    { value: 'AES-128', label: 'AES 128-bit', description: 'Acrobat 7 / PDF 1.6 and newer readers' },
+    { value: 'RC4-128', label: 'RC4 128-bit', description: 'Legacy. For very old readers only' },
+];
+
+const PERMISSION_OPTIONS: Array<{ key: keyof EncryptPermissions; label: string }> = [
+    { key: 'printing', label: 'Allow printing' },
+    { key: 'highQualityPrint', label: 'Allow high-quality printing' },
+    { key: 'copying', label: 'Allow copying text and images' },
+    { key: 'modifying', label: 'Allow modifying' },
+    { key: 'annotating', label: 'Allow comments and annotations' },
+    { key: 'fillingForms', label: 'Allow filling form fields' },
+    { key: 'documentAssembly', label: 'Allow inserting, deleting and rotating pages' },
+    { key: 'contentAccessibility', label: 'Allow screen readers to extract text' },
+];
+
 const EncryptPDF: React.FC<EncryptPDFProps> = ({ tool, onBack }) => {
     const [state, setState] = useState<ProcessState>(ProcessState.IDLE);
     const [file, setFile] = useState<File | null>(null);
@@ -56,11 +74,10 @@ const EncryptPDF: React.FC<EncryptPDFProps> = ({ tool, onBack }) => {
     const [errorMsg, setErrorMsg] = useState('');
     const [isDragging, setIsDragging] = useState(false);
     const [resultBlob, setResultBlob] = useState<Uint8Array | null>(null);
-    const [permissions, setPermissions] = useState<EncryptPermissions>({
-        printing: true,
-        copying: false,
-        modifying: false,
-    });
+    const [ownerPassword, setOwnerPassword] = useState('');
+    const [config, setConfig] = useState<EncryptPdfConfig>(() =>
+        configService.loadConfig<EncryptPdfConfig>('encrypt-pdf')
+    );
     const fileInputRef = useRef<HTMLInputElement>(null);
     const mountedRef = useRef(true);
 
@@ -177,7 +194,10 @@ const EncryptPDF: React.FC<EncryptPDFProps> = ({ tool, onBack }) => {
         setErrorMsg('');
 
         try {
-            const encryptedBytes = await encryptPDF(file, password, password, permissions);
+            const encryptedBytes = await encryptPDF(file, password, ownerPassword || password, config.permissions, {
+                algorithm: config.algorithm,
+                encryptMetadata: config.encryptMetadata,
+            });
             if (!mountedRef.current) return;
 
             setResultBlob(encryptedBytes);
@@ -192,7 +212,10 @@ const EncryptPDF: React.FC<EncryptPDFProps> = ({ tool, onBack }) => {
 
             let message = 'Failed to encrypt PDF';
             if (err instanceof Error) {
-                if (err.message.includes('encrypted') || err.message.includes('password')) {
+                if (err.message.includes('cannot be used')) {
+                    // A password character the chosen algorithm cannot store
+                    message = err.message;
+                } else if (err.message.includes('encrypted') || err.message.includes('password')) {
                     message = 'This PDF is already encrypted. Please unlock it first, then re-encrypt with a new password.';
                 } else {
                     message = err.message;
@@ -216,14 +239,21 @@ const EncryptPDF: React.FC<EncryptPDFProps> = ({ tool, onBack }) => {
         setFile(null);
         setPassword('');
         setConfirmPassword('');
+        setOwnerPassword('');
         setShowPassword(false);
         setErrorMsg('');
         setResultBlob(null);
-        setPermissions({ printing: true, copying: false, modifying: false });
+    };
+
+    // Passwords are never persisted — only the algorithm and permissions
+    const updateConfig = (updates: Partial<EncryptPdfConfig>) => {
+        const newConfig = { ...config, ...updates };
+        setConfig(newConfig);
+        configService.saveConfig('encrypt-pdf', newConfig);
     };
 
     const togglePermission = (key: keyof EncryptPermissions) => {
-        setPermissions(prev => ({ ...prev, [key]: !prev[key] }));
+        updateConfig({ permissions: { ...config.permissions, [key]: !config.permissions[key] } });
     };
 
     // ========================================
@@ -418,34 +448,105 @@ const EncryptPDF: React.FC<EncryptPDFProps> = ({ tool, onBack }) => {
                                     )}
                                 </div>
 
-                                {/* Permissions */}
+                                {/* Owner Password */}
+                                <div style={{ marginBottom: '1.5rem' }}>
+                                    <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: 600, marginBottom: '0.5rem', color: 'var(--text-primary)' }}>
+                                        Permissions Password <span style={{ fontWeight: 400, color: 'var(--text-tertiary)' }}>(optional)</span>
+                                    </label>
+                                    <input
+                                        type={showPassword ? 'text' : 'password'}
+                                        value={ownerPassword}
+                                        onChange={(e) => setOwnerPassword(e.target.value)}
+                                        placeholder="Required to change permissions"
+                                        style={{
+                                            width: '100%', padding: '0.75rem', fontSize: '0.9rem',
+                                            border: `2px solid ${ownerPassword && ownerPassword === password ? 'var(--warning)' : 'var(--border-color)'}`,
+                                            borderRadius: 'var(--radius-sm)', background: 'var(--surface-light)',
+                                            color: 'var(--text-primary)', outline: 'none', transition: 'border-color 0.2s',
+                                            boxSizing: 'border-box',
+                                        }}
+                                    />
+                                    <div style={{ fontSize: '0.75rem', color: 'var(--text-tertiary)', marginTop: '0.25rem' }}>
+                                        Restrictions below are only enforced when this differs from the open password.
+                                    </div>
+                                </div>
+
+                                {/* Encryption Algorithm */}
                                 <div style={{
                                     padding: '1rem', background: 'var(--surface-light)',
-                                    borderRadius: 'var(--radius-sm)', marginBottom: '1.5rem',
+                                    borderRadius: 'var(--radius-sm)', marginBottom: '1rem',
                                     border: '1px solid var(--border-color)',
                                 }}>
                                     <div style={{ fontSize: '0.875rem', fontWeight: 600, color: 'var(--text-primary)', marginBottom: '0.75rem' }}>
-                                        Document Permissions
+                                        Encryption
                                     </div>
-                                    {([
-                                        { key: 'printing' as const, label: 'Allow printing' },
-                                        { key: 'copying' as const, label: 'Allow copying text' },
-                                        { key: 'modifying' as const, label: 'Allow modifying' },
-                                    ]).map(({ key, label }) => (
-                                        <label key={key} style={{
-                                            display: 'flex', alignItems: 'center', gap: '0.5rem',
+                                    {ALGORITHM_OPTIONS.map(({ value, label, description }) => (
+                                        <label key={value} style={{
+                                            display: 'flex', alignItems: 'flex-start', gap: '0.5rem',
                                             padding: '0.5rem 0', cursor: 'pointer', fontSize: '0.875rem',
                                             color: 'var(--text-secondary)',
                                         }}>
                                             <input
-                                                type="checkbox"
-                                                checked={permissions[key] ?? false}
-                                                onChange={() => togglePermission(key)}
-                                                style={{ width: '16px', height: '16px', accentColor: 'var(--accent)' }}
+                                                type="radio"
+                                                name="encryption-algorithm"
+                                                checked={config.algorithm === value}
+                                                onChange={() => updateConfig({ algorithm: value })}
+                                                style={{ width: '16px', height: '16px', marginTop: '2px', accentColor: 'var(--accent)' }}
                                             />
-                                            {label}
+                                            <span>
+                                                <span style={{ fontWeight: 600, color: 'var(--text-primary)' }}>{label}</span>
+                                                <span style={{ display: 'block', fontSize: '0.75rem', color: 'var(--text-tertiary)' }}>{description}</span>
+                                            </span>
                                         </label>
                                     ))}
+                                    <label style={{
+                                        display: 'flex', alignItems: 'center', gap: '0.5rem',
+                                        padding: '0.5rem 0 0', fontSize: '0.875rem',
+                                        color: 'var(--text-secondary)',
+                                        cursor: config.algorithm === 'RC4-128' ? 'not-allowed' : 'pointer',
+                                        opacity: config.algorithm === 'RC4-128' ? 0.5 : 1,
+                                    }}>
+                                        <input
+                                            type="checkbox"
+                                            checked={config.algorithm === 'RC4-128' || config.encryptMetadata}
+                                            disabled={config.algorithm === 'RC4-128'}
+                                            onChange={() => updateConfig({ encryptMetadata: !config.encryptMetadata })}
+                                            style={{ width: '16px', height: '16px', accentColor: 'var(--accent)' }}
+                                        />
+                                        Encrypt document metadata (XMP)
+                                    </label>
+                                </div>
+
+                                {/* Permissions */}
+                                <div style={{
+                                    padding: '1rem', background: 'var(--surface-light)',
+                                    borderRadius: 'var(--radius-sm)', marginBottom: '1.5rem',
+                                    border: '1px solid var(--border-color)',
+                                }}>
+                                    <div style={{ fontSize: '0.875rem', fontWeight: 600, color: 'var(--text-primary)', marginBottom: '0.75rem' }}>
+                                        Document Permissions
+                                    </div>
+                                    {PERMISSION_OPTIONS.map(({ key, label }) => {
+                                        const disabled = key === 'highQualityPrint' && !config.permissions.printing;
+                                        return (
+                                            <label key={key} style={{
+                                                display: 'flex', alignItems: 'center', gap: '0.5rem',
+                                                padding: '0.5rem 0', fontSize: '0.875rem',
+                                                color: 'var(--text-secondary)',
+                                                cursor: disabled ? 'not-allowed' : 'pointer',
+                                                opacity: disabled ? 0.5 : 1,
+                                            }}>
+                                                <input
+                                                    type="checkbox"
+                                                    checked={!disabled && (config.permissions[key] ?? false)}
+                                                    disabled={disabled}
+                                                    onChange={() => togglePermission(key)}
+                                                    style={{ width: '16px', height: '16px', accentColor: 'var(--accent)' }}
+                                                />
+                                                {label}
+                                            </label>
+                                        );
+                                    })}
                                 </div>
 
                                 {/* Info Box */}
@@ -457,7 +558,7 @@ const EncryptPDF: React.FC<EncryptPDFProps> = ({ tool, onBack }) => {
                                     marginBottom: '1.5rem',
                                 }}>
                                     <div style={{ fontSize: '0.875rem', color: 'var(--text-primary)', lineHeight: 1.6 }}>
-                                        <strong>About encryption:</strong> Your PDF will be protected with standard PDF encryption (128-bit RC4/AES).
+                                        <strong>About encryption:</strong> Your PDF will be protected with standard PDF encryption ({ALGORITHM_OPTIONS.find(option => option.value === config.algorithm)?.label}).
                                         The password cannot be recovered — store it securely.
                                         All processing happens locally in your browser.
                                         <div style={{ marginTop: '0.5rem', fontSize: '0.8rem', opacity: 0.85 }}>
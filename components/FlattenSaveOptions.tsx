@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import type { FlattenPdfConfig } from '../types';
+import { FLATTEN_OPTIONS } from './config/FlattenPdfConfig';
+
+interface FlattenSaveOptionsProps {
+  value: FlattenPdfConfig;
+  onChange: (value: FlattenPdfConfig) => void;
+}
+
+export const NO_FLATTEN: FlattenPdfConfig = { forms: false, comments: false, links: false };
+
+/**
+ * Editor side-panel section choosing what to flatten into the saved file
+ */
+const FlattenSaveOptions: React.FC<FlattenSaveOptionsProps> = ({ value, onChange }) => (
+  <div className="tool-panel-section">
+    <div className="tool-panel-label">Flatten on save</div>
+    {FLATTEN_OPTIONS.map(option => (
+      <label
+        key={option.key}
+        title={option.hint}
+        style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.8125rem', color: 'var(--text-secondary)', cursor: 'pointer', marginBottom: '0.35rem' }}
+      >
+        <input
+          type="checkbox"
+          checked={value[option.key]}
+          onChange={(e) => onChange({ ...value, [option.key]: e.target.checked })}
+        />
+        {option.title}
+      </label>
+    ))}
+  </div>
+);
+
+export default FlattenSaveOptions;
@@ -0,0 +1,688 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { Tool, ProcessState, ConversionStep, PdfMetadata, PdfCustomMetadata } from '../types';
+import { downloadPDF } from '../services/pdfService';
+import { getPDFMetadata, setPDFMetadata, validateCustomMetadata } from '../services/pdfMetadataService';
+import { useWakeLock, usePageVisibility } from '../hooks/usePageVisibility';
+import { toast } from '../hooks/useToast';
+import { formatFileSize } from '../utils/formatFileSize';
+import { generateZip } from '../utils/zipGenerator';
+import BackButton from './BackButton';
+import StepProgress from './StepProgress';
+
+interface MetadataPDFProps {
+    tool: Tool;
+    onBack: () => void;
+}
+
+const STEPS = [
+    { label: 'Upload' },
+    { label: 'Edit' },
+    { label: 'Saving' },
+    { label: 'Complete' },
+];
+
+const MAX_FILE_SIZE = 150 * 1024 * 1024; // 150MB per file
+const MAX_FILE_COUNT = 100;
+
+type TextField = 'title' | 'author' | 'subject' | 'keywords' | 'creator' | 'producer';
+
+const TEXT_FIELDS: { field: TextField; label: string; placeholder?: string }[] = [
+    { field: 'title', label: 'Title' },
+    { field: 'author', label: 'Author' },
+    { field: 'subject', label: 'Subject' },
+    { field: 'keywords', label: 'Keywords', placeholder: 'Separate with commas' },
+    { field: 'creator', label: 'Creator', placeholder: 'Application the document was made with' },
+    { field: 'producer', label: 'Producer', placeholder: 'Application that produced the PDF' },
+];
+
+/** Date to the value of a datetime-local input, in local time */
+const toDateTimeInput = (date?: Date): string => {
+    if (!date) return '';
+    const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+    return local.toISOString().slice(0, 16);
+};
+
+const fromDateTimeInput = (value: string): Date | undefined => {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+};
+
+const MetadataPDF: React.FC<MetadataPDFProps> = ({ tool, onBack }) => {
+    const [state, setState] = useState<ProcessState>(ProcessState.IDLE);
+    const [conversionStep, setConversionStep] = useState<ConversionStep>('upload');
+    const [files, setFiles] = useState<File[]>([]);
+    const [metadata, setMetadata] = useState<PdfMetadata[]>([]);
+    const [hasXmp, setHasXmp] = useState<boolean[]>([]);
+    const [selected, setSelected] = useState<number>(0);
+    const [updateModified, setUpdateModified] = useState<boolean>(true);
+    const [errorMsg, setErrorMsg] = useState<string>('');
+    const [result, setResult] = useState<{ data: Uint8Array | Blob; name: string } | null>(null);
+    const [progress, setProgress] = useState<number>(0);
+    const [progressStatus, setProgressStatus] = useState<string>('');
+    const [isDragging, setIsDragging] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const abortRef = useRef<{ current: boolean }>({ current: false });
+    const mountedRef = useRef(true);
+
+    const isProcessing = state === ProcessState.CONVERTING;
+    useWakeLock(isProcessing);
+    usePageVisibility();
+
+    useEffect(() => {
+        return () => {
+            mountedRef.current = false;
+            abortRef.current.current = true;
+        };
+    }, []);
+
+    const currentStep = conversionStep === 'upload'
+        ? (files.length >= 1 ? 0 : -1)
+        : conversionStep === 'configure' ? 1
+        : state === ProcessState.CONVERTING ? 2
+        : 3;
+
+    const validateFile = useCallback((file: File): string | null => {
+        if (file.type !== 'application/pdf' && !file.name.toLowerCase().endsWith('.pdf')) {
+            return `"${file.name}" is not a PDF file.`;
+        }
+        if (file.size === 0) {
+            return `"${file.name}" is empty (0 bytes). Please select a valid PDF file.`;
+        }
+        if (file.size > MAX_FILE_SIZE) {
+            return `"${file.name}" is too large (${formatFileSize(file.size)}). Maximum is 150MB per file.`;
+        }
+        return null;
+    }, []);
+
+    const addFiles = useCallback((newFiles: File[]) => {
+        const errors: string[] = [];
+        const valid: File[] = [];
+
+        for (const f of newFiles) {
+            const err = validateFile(f);
+            if (err) {
+                errors.push(err);
+            } else {
+                valid.push(f);
+            }
+        }
+
+        setErrorMsg(errors.join(' '));
+
+        setFiles(prev => {
+            const combined = [...prev, ...valid];
+            if (combined.length > MAX_FILE_COUNT) {
+                setErrorMsg(`Maximum ${MAX_FILE_COUNT} files allowed. Only the first ${MAX_FILE_COUNT} were kept.`);
+                return combined.slice(0, MAX_FILE_COUNT);
+            }
+            return combined;
+        });
+    }, [validateFile]);
+
+    const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (e.target.files && e.target.files.length > 0) {
+            addFiles(Array.from(e.target.files));
+        }
+        // Reset input value so same files can be re-selected
+        if (fileInputRef.current) fileInputRef.current.value = '';
+    };
+
+    const handleDragOver = useCallback((e: React.DragEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setIsDragging(true);
+    }, []);
+
+    const handleDragLeave = useCallback((e: React.DragEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setIsDragging(false);
+    }, []);
+
+    const handleDrop = useCallback((e: React.DragEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setIsDragging(false);
+        if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+            addFiles(Array.from(e.dataTransfer.files));
+        }
+    }, [addFiles]);
+
+    const removeFile = (index: number) => {
+        setFiles(prev => prev.filter((_, i) => i !== index));
+    };
+
+    const handleProceedToEdit = async () => {
+        if (files.length === 0) {
+            setErrorMsg('Please select at least one PDF file');
+            return;
+        }
+        setErrorMsg('');
+        setState(ProcessState.UPLOADING);
+
+        try {
+            const loaded = [];
+            for (const file of files) {
+                try {
+                    loaded.push(await getPDFMetadata(file));
+                } catch (err) {
+                    const message = err instanceof Error ? err.message : 'Unknown error';
+                    throw new Error(message.includes('password')
+                        ? `"${file.name}" is password-protected. Please unlock it first using the Unlock PDF tool.`
+                        : `Failed to read "${file.name}": ${message}`);
+                }
+            }
+            if (!mountedRef.current) return;
+
+            setMetadata(loaded.map(l => l.metadata));
+            setHasXmp(loaded.map(l => l.hasXmp));
+            setSelected(0);
+            setConversionStep('configure');
+        } catch (err) {
+            if (!mountedRef.current) return;
+            setErrorMsg(err instanceof Error ? err.message : 'Failed to read metadata');
+        } finally {
+            if (mountedRef.current) setState(ProcessState.IDLE);
+        }
+    };
+
+    const updateSelected = (updates: Partial<PdfMetadata>) => {
+        setMetadata(prev => prev.map((m, i) => (i === selected ? { ...m, ...updates } : m)));
+    };
+
+    const applyToAll = (updates: Partial<PdfMetadata>) => {
+        setMetadata(prev => prev.map(m => ({ ...m, ...updates })));
+        toast.success(`Applied to ${files.length} files`);
+    };
+
+    const updateCustom = (index: number, updates: Partial<PdfCustomMetadata>) => {
+        const custom = metadata[selected].custom.map((entry, i) => (i === index ? { ...entry, ...updates } : entry));
+        updateSelected({ custom });
+    };
+
+    const handleSave = async () => {
+        try {
+            metadata.forEach(m => validateCustomMetadata(m.custom));
+        } catch (err) {
+            setErrorMsg(err instanceof Error ? err.message : 'Invalid custom fields');
+            return;
+        }
+
+        abortRef.current = { current: false };
+        setState(ProcessState.CONVERTING);
+        setConversionStep('processing');
+        setErrorMsg('');
+        setProgress(0);
+        setResult(null);
+
+        try {
+            const now = new Date();
+            const outputs: Array<{ data: Uint8Array; name: string }> = [];
+
+            for (let i = 0; i < files.length; i++) {
+                if (abortRef.current.current) throw new Error('Metadata update cancelled');
+
+                const file = files[i];
+                setProgress((i / files.length) * 100);
+                setProgressStatus(`Updating ${file.name}...`);
+
+                const fileMetadata = updateModified ? { ...metadata[i], modificationDate: now } : metadata[i];
+                outputs.push({ data: await setPDFMetadata(file, fileMetadata), name: file.name });
+            }
+
+            if (!mountedRef.current) return;
+
+            if (outputs.length === 1) {
+                setResult(outputs[0]);
+                downloadPDF(outputs[0].data, outputs[0].name);
+            } else {
+                setProgressStatus('Creating ZIP file...');
+                const zip = await generateZip(outputs, { zipFileName: 'metadata-updated', autoDownload: true });
+                if (!mountedRef.current) return;
+                setResult({ data: zip.blob, name: zip.fileName });
+            }
+
+            setProgress(100);
+            setState(ProcessState.COMPLETED);
+            setConversionStep('result');
+            toast.success(outputs.length === 1 ? 'Metadata updated!' : `${outputs.length} PDFs updated!`);
+        } catch (err) {
+            if (!mountedRef.current) return;
+            if (err instanceof Error && err.message.includes('cancelled')) {
+                setState(ProcessState.IDLE);
+                setConversionStep('configure');
+                setProgress(0);
+                setProgressStatus('');
+                toast.info('Metadata update cancelled');
+                return;
+            }
+
+            setErrorMsg(err instanceof Error ? err.message : 'An unknown error occurred');
+            toast.error('Metadata update failed');
+            setState(ProcessState.IDLE);
+            setConversionStep('configure'); // Keep the edits
+            setProgress(0);
+            setProgressStatus('');
+        }
+    };
+
+    const handleCancel = () => {
+        abortRef.current.current = true;
+        toast.info('Cancelling...');
+    };
+
+    const handleDownloadAgain = () => {
+        if (!result) return;
+        if (result.data instanceof Blob) {
+            const url = URL.createObjectURL(result.data);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = result.name;
+            link.click();
+            setTimeout(() => URL.revokeObjectURL(url), 100);
+        } else {
+            downloadPDF(result.data, result.name);
+        }
+        toast.success('Download started!');
+    };
+
+    const handleReset = () => {
+        setState(ProcessState.IDLE);
+        setConversionStep('upload');
+        setFiles([]);
+        setMetadata([]);
+        setHasXmp([]);
+        setSelected(0);
+        setErrorMsg('');
+        setResult(null);
+        setProgress(0);
+        setProgressStatus('');
+    };
+
+    const totalSize = files.reduce((sum, f) => sum + f.size, 0);
+    const resultSize = result ? (result.data instanceof Blob ? result.data.size : result.data.length) : 0;
+    const current = metadata[selected];
+    const isBatch = files.length > 1;
+
+    const inputStyle: React.CSSProperties = {
+        width: '100%',
+        padding: '0.6rem 0.75rem',
+        border: '1px solid var(--border-color)',
+        borderRadius: 'var(--radius-md)',
+        fontSize: '0.875rem',
+        color: 'var(--text-primary)',
+        background: 'var(--surface-white)',
+    };
+
+    const fieldLabelStyle: React.CSSProperties = {
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'baseline',
+        fontSize: '0.8rem',
+        fontWeight: 600,
+        color: 'var(--text-secondary)',
+        marginBottom: '0.35rem',
+    };
+
+    const linkButtonStyle: React.CSSProperties = {
+        background: 'none',
+        border: 'none',
+        padding: 0,
+        fontSize: '0.75rem',
+        color: 'var(--accent)',
+        cursor: 'pointer',
+    };
+
+    return (
+        <div className="detail-view animate-fade-in">
+            <div className="container">
+                <BackButton onBack={onBack} />
+
+                <div className="workspace-card">
+                    {/* Header */}
+                    <div className="workspace-header">
+                        <div className="workspace-icon-large">
+                            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="icon-lg">
+                                <path strokeLinecap="round" strokeLinejoin="round" d={tool.icon} />
+                            </svg>
+                        </div>
+                        <h1 className="workspace-title">{tool.name}</h1>
+                        <p className="workspace-desc">{tool.description}</p>
+                    </div>
+
+                    <div style={{ padding: '1.5rem 1.5rem 0' }}>
+                        <StepProgress steps={STEPS} currentStep={currentStep} />
+                    </div>
+
+                    {/* Functional Area */}
+                    <div className="workspace-body">
+                        {errorMsg && (
+                            <div className="error-msg">
+                                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="icon-sm" style={{ flexShrink: 0 }}>
+                                    <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m-9.303 3.376c-.866 1.5.217 3.374 1.948 3.374h14.71c1.73 0 2.813-1.874 1.948-3.374L13.949 3.378c-.866-1.5-3.032-1.5-3.898 0L2.697 16.126zM12 15.75h.007v.008H12v-.008z" />
+                                </svg>
+                                <div style={{ flex: 1, textAlign: 'left' }}>
+                                    {errorMsg}
+                                </div>
+                            </div>
+                        )}
+
+                        {conversionStep === 'configure' && current ? (
+                            <div style={{ display: 'grid', gridTemplateColumns: isBatch ? 'minmax(180px, 1fr) 3fr' : '1fr', gap: '1.5rem', textAlign: 'left' }}>
+                                {/* File list */}
+                                {isBatch && (
+                                    <div style={{ border: '1px solid var(--border-color)', borderRadius: 'var(--radius-md)', overflow: 'hidden', alignSelf: 'start' }}>
+                                        {files.map((file, index) => (
+                                            <button
+                                                key={`${file.name}-${file.size}-${file.lastModified}`}
+                                                onClick={() => setSelected(index)}
+                                                style={{
+                                                    display: 'block',
+                                                    width: '100%',
+                                                    padding: '0.75rem 1rem',
+                                                    border: 'none',
+                                                    borderBottom: index < files.length - 1 ? '1px solid var(--border-color)' : 'none',
+                                                    background: index === selected ? 'var(--success-bg)' : 'var(--surface-white)',
+                                                    textAlign: 'left',
+                                                    cursor: 'pointer',
+                                                    fontSize: '0.85rem',
+                                                    fontWeight: index === selected ? 600 : 400,
+                                                    color: 'var(--text-primary)',
+                                                    overflow: 'hidden',
+                                                    textOverflow: 'ellipsis',
+                                                    whiteSpace: 'nowrap',
+                                                }}
+                                                aria-pressed={index === selected}
+                                            >
+                                                {file.name}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+
+                                {/* Metadata form */}
+                                <div>
+                                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: '1rem' }}>
+                                        <h3 style={{ fontSize: '1rem', color: 'var(--text-primary)', margin: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                            {files[selected]?.name}
+                                        </h3>
+                                        <span className="file-size">
+                                            {hasXmp[selected] ? 'Info + XMP metadata' : 'Info metadata (XMP will be added)'}
+                                        </span>
+                                    </div>
+
+                                    <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
+                                        {TEXT_FIELDS.map(({ field, label, placeholder }) => (
+                                            <div key={field}>
+                                                <div style={fieldLabelStyle}>
+                                                    <label htmlFor={`metadata-${field}`}>{label}</label>
+                                                    {isBatch && (
+                                                        <button style={linkButtonStyle} onClick={() => applyToAll({ [field]: current[field] })}>
+                                                            Apply to all
+                                                        </button>
+                                                    )}
+                                                </div>
+                                                <input
+                                                    id={`metadata-${field}`}
+                                                    type="text"
+                                                    value={current[field]}
+                                                    placeholder={placeholder}
+                                                    onChange={(e) => updateSelected({ [field]: e.target.value })}
+                                                    style={inputStyle}
+                                                />
+                                            </div>
+                                        ))}
+
+                                        <div>
+                                            <div style={fieldLabelStyle}>
+                                                <label htmlFor="metadata-created">Created</label>
+                                                {isBatch && (
+                                                    <button style={linkButtonStyle} onClick={() => applyToAll({ creationDate: current.creationDate })}>
+                                                        Apply to all
+                                                    </button>
+                                                )}
+                                            </div>
+                                            <input
+                                                id="metadata-created"
+                                                type="datetime-local"
+                                                value={toDateTimeInput(current.creationDate)}
+                                                onChange={(e) => updateSelected({ creationDate: fromDateTimeInput(e.target.value) })}
+                                                style={inputStyle}
+                                            />
+                                        </div>
+                                        <div>
+                                            <div style={fieldLabelStyle}>
+                                                <label htmlFor="metadata-modified">Modified</label>
+                                            </div>
+                                            <input
+                                                id="metadata-modified"
+                                                type="datetime-local"
+                                                value={toDateTimeInput(current.modificationDate)}
+                                                onChange={(e) => updateSelected({ modificationDate: fromDateTimeInput(e.target.value) })}
+                                                disabled={updateModified}
+                                                style={{ ...inputStyle, opacity: updateModified ? 0.5 : 1 }}
+                                            />
+                                            <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginTop: '0.5rem', fontSize: '0.8rem', color: 'var(--text-secondary)', cursor: 'pointer' }}>
+                                                <input
+                                                    type="checkbox"
+                                                    checked={updateModified}
+                                                    onChange={(e) => setUpdateModified(e.target.checked)}
+                                                />
+                                                Set to the time of saving
+                                            </label>
+                                        </div>
+                                    </div>
+
+                                    {/* Custom fields */}
+                                    <div style={{ marginTop: '1.5rem' }}>
+                                        <div style={fieldLabelStyle}>
+                                            <span>Custom fields</span>
+                                            {isBatch && current.custom.length > 0 && (
+                                                <button style={linkButtonStyle} onClick={() => applyToAll({ custom: current.custom.map(entry => ({ ...entry })) })}>
+                                                    Apply to all
+                                                </button>
+                                            )}
+                                        </div>
+                                        {current.custom.map((entry, index) => (
+                                            <div key={index} style={{ display: 'grid', gridTemplateColumns: '1fr 2fr auto', gap: '0.5rem', marginBottom: '0.5rem' }}>
+                                                <input
+                                                    type="text"
+                                                    value={entry.key}
+                                                    placeholder="Name"
+                                                    onChange={(e) => updateCustom(index, { key: e.target.value })}
+                                                    style={inputStyle}
+                                                    aria-label="Custom field name"
+                                                />
+                                                <input
+                                                    type="text"
+                                                    value={entry.value}
+                                                    placeholder="Value"
+                                                    onChange={(e) => updateCustom(index, { value: e.target.value })}
+                                                    style={inputStyle}
+                                                    aria-label="Custom field value"
+                                                />
+                                                <button
+                                                    onClick={() => updateSelected({ custom: current.custom.filter((_, i) => i !== index) })}
+                                                    className="btn-secondary"
+                                                    style={{ padding: '0.4rem', color: 'var(--error)' }}
+                                                    title="Remove"
+                                                    aria-label={`Remove ${entry.key || 'custom field'}`}
+                                                >
+                                                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="icon-sm">
+                                                        <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                                                    </svg>
+                                                </button>
+                                            </div>
+                                        ))}
+                                        <button
+                                            onClick={() => updateSelected({ custom: [...current.custom, { key: '', value: '' }] })}
+                                            className="btn-secondary"
+                                            style={{ fontSize: '0.85rem' }}
+                                        >
+                                            + Add custom field
+                                        </button>
+                                    </div>
+
+                                    <div className="action-row" style={{ marginTop: '2rem' }}>
+                                        <button onClick={handleSave} className="btn-action">
+                                            Save {isBatch ? `${files.length} PDFs` : 'PDF'}
+                                        </button>
+                                        <button onClick={() => setConversionStep('upload')} className="btn-secondary">Back</button>
+                                    </div>
+                                </div>
+                            </div>
+                        ) : state === ProcessState.IDLE || state === ProcessState.UPLOADING ? (
+                            <>
+                                {/* File List */}
+                                {files.length > 0 && (
+                                    <div style={{ marginBottom: '2rem' }}>
+                                        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '1rem' }}>
+                                            <h3 style={{ fontSize: '1rem', color: 'var(--text-primary)', margin: 0 }}>
+                                                Selected Files ({files.length})
+                                            </h3>
+                                            <span className="file-size">{formatFileSize(totalSize)} total</span>
+                                        </div>
+                                        <div style={{ border: '1px solid var(--border-color)', borderRadius: 'var(--radius-md)', overflow: 'hidden' }}>
+                                            {files.map((file, index) => (
+                                                <div
+                                                    key={`${file.name}-${file.size}-${file.lastModified}`}
+                                                    style={{
+                                                        padding: '1rem',
+                                                        borderBottom: index < files.length - 1 ? '1px solid var(--border-color)' : 'none',
+                                                        display: 'flex',
+                                                        alignItems: 'center',
+                                                        justifyContent: 'space-between',
+                                                        background: 'var(--surface-white)',
+                                                    }}
+                                                >
+                                                    <div style={{ flex: 1, minWidth: 0 }}>
+                                                        <div style={{ fontSize: '0.875rem', color: 'var(--text-primary)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                                            {file.name}
+                                                        </div>
+                                                        <span className="file-size">{formatFileSize(file.size)}</span>
+                                                    </div>
+                                                    <button
+                                                        onClick={() => removeFile(index)}
+                                                        className="btn-secondary"
+                                                        style={{ padding: '0.4rem', color: 'var(--error)', flexShrink: 0 }}
+                                                        title="Remove"
+                                                        aria-label={`Remove ${file.name}`}
+                                                    >
+                                                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="icon-sm">
+                                                            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                                                        </svg>
+                                                    </button>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+
+                                {/* Upload Zone */}
+                                <div
+                                    className={`upload-zone${isDragging ? ' drag-over' : ''}`}
+                                    role="button"
+                                    tabIndex={0}
+                                    aria-label="Upload PDF files"
+                                    onClick={() => fileInputRef.current?.click()}
+                                    onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); fileInputRef.current?.click(); } }}
+                                    onDragOver={handleDragOver}
+                                    onDragEnter={handleDragOver}
+                                    onDragLeave={handleDragLeave}
+                                    onDrop={handleDrop}
+                                    style={{ minHeight: '200px' }}
+                                >
+                                    <input
+                                        type="file"
+                                        multiple
+                                        accept=".pdf,application/pdf"
+                                        ref={fileInputRef}
+                                        onChange={handleFileSelect}
+                                        style={{ display: 'none' }}
+                                    />
+                                    <div className="upload-icon-wrapper">
+                                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="icon-lg">
+                                            <path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" />
+                                        </svg>
+                                    </div>
+                                    <span style={{ fontSize: '1.125rem', fontWeight: 500, marginBottom: '0.5rem', color: 'var(--text-primary)' }}>
+                                        {isDragging ? 'Drop your PDFs here' : files.length === 0 ? 'Select PDF files' : 'Add more PDFs'}
+                                    </span>
+                                    <span style={{ color: 'var(--text-tertiary)', fontSize: '0.875rem' }}>
+                                        Click to browse or drag and drop
+                                    </span>
+                                </div>
+
+                                {files.length >= 1 && (
+                                    <div className="flex-center">
+                                        <button onClick={handleProceedToEdit} className="btn-action" disabled={state === ProcessState.UPLOADING}>
+                                            {state === ProcessState.UPLOADING ? 'Reading metadata...' : 'Edit Metadata'}
+                                        </button>
+                                    </div>
+                                )}
+                            </>
+                        ) : state === ProcessState.CONVERTING ? (
+                            <div className="result-area" style={{ padding: '3rem 0' }} aria-live="polite">
+                                <div style={{ maxWidth: '300px', margin: '0 auto 2rem' }}>
+                                    <div className="loader">
+                                        <div className="loader-bar" style={{ width: `${progress}%`, animation: progress > 0 ? 'none' : undefined }}></div>
+                                    </div>
+                                    <div style={{ textAlign: 'center', marginTop: '1rem', fontSize: '0.875rem', color: 'var(--text-secondary)' }}>
+                                        {Math.round(progress)}%
+                                    </div>
+                                </div>
+                                <h3 className="workspace-title" style={{ fontSize: '1.5rem' }}>Saving metadata...</h3>
+                                <p className="workspace-desc">{progressStatus}</p>
+                                <button onClick={handleCancel} className="btn-secondary" style={{ marginTop: '1rem' }}>Cancel</button>
+                            </div>
+                        ) : (
+                            <div className="result-area animate-fade-in">
+                                <div className="success-check-animated">
+                                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="#fff" width="28" height="28">
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M4.5 12.75l6 6 9-13.5" />
+                                    </svg>
+                                </div>
+                                <h3 className="workspace-title" style={{ fontSize: '1.5rem' }}>Metadata Updated!</h3>
+
+                                {result && (
+                                    <div style={{ padding: '1rem 1.5rem', background: 'var(--success-bg)', borderRadius: 'var(--radius-md)', margin: '1.5rem auto', maxWidth: '360px', fontSize: '0.875rem' }}>
+                                        <div style={{ fontWeight: 600, color: 'var(--text-primary)', marginBottom: '0.25rem' }}>
+                                            {result.name}
+                                        </div>
+                                        <div style={{ color: 'var(--text-tertiary)', fontSize: '0.8rem' }}>
+                                            {formatFileSize(resultSize)} &bull; {files.length} PDF{files.length === 1 ? '' : 's'} updated
+                                        </div>
+                                    </div>
+                                )}
+
+                                <p className="workspace-desc" style={{ marginBottom: '2rem' }}>
+                                    Your file has been downloaded. Check your downloads folder.
+                                </p>
+                                <div className="action-row">
+                                    <button onClick={handleDownloadAgain} className="btn-secondary btn-primary-alt">Download Again</button>
+                                    <button onClick={handleReset} className="btn-secondary">Edit More PDFs</button>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Footer */}
+                    <div className="workspace-footer">
+                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="icon-sm">
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 10.5V6.75a4.5 4.5 0 10-9 0v3.75m-.75 11.25h10.5a2.25 2.25 0 002.25-2.25v-6.75a2.25 2.25 0 00-2.25-2.25H6.75a2.25 2.25 0 00-2.25 2.25v6.75a2.25 2.25 0 002.25 2.25z" />
+                        </svg>
+                        All processing happens in your browser. Your files never leave your device.
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default MetadataPDF;
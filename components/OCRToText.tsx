@@ -6,6 +6,8 @@
 import React, { useState, useRef, useCallback } from 'react';
 import { Tool, ProcessState } from '../types';
 import { extractTextWithOCR } from '../services/pdfToWordService';
+import { makeSearchablePDF, type SearchablePdfResult } from '../services/pdfOcrService';
+import { downloadPDF } from '../services/pdfService';
 import { createConfiguredWorker } from '../services/tesseractConfig';
 import { useWakeLock } from '../hooks/usePageVisibility';
 import { toast } from '../hooks/useToast';
@@ -19,12 +21,24 @@ interface OCRToTextProps {
     onBack: () => void;
 }
 
+type OcrOutput = 'text' | 'pdf';
+
+const OUTPUT_OPTIONS: Array<{ value: OcrOutput; label: string; description: string }> = [
+    { value: 'text', label: 'Plain text', description: 'Show the recognized text to copy or download as TXT' },
+    { value: 'pdf', label: 'Searchable PDF', description: 'Keep the scanned pages and add an invisible text layer you can search and copy from' },
+];
+
 const STEPS = [
     { label: 'Upload' },
     { label: 'OCR' },
     { label: 'Complete' },
 ];
 
+/** Skipped OCR words listed by name; the rest are counted */
+const MAX_LISTED_WORDS = 12;
+
+const isPDFFile = (file: File) => file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
 const OCRToText: React.FC<OCRToTextProps> = ({ tool, onBack }) => {
     const [state, setState] = useState<ProcessState>(ProcessState.IDLE);
     const [file, setFile] = useState<File | null>(null);
@@ -34,6 +48,10 @@ const OCRToText: React.FC<OCRToTextProps> = ({ tool, onBack }) => {
     const [errorMsg, setErrorMsg] = useState<string>('');
     const [isDragging, setIsDragging] = useState(false);
     const [copied, setCopied] = useState(false);
+    const [output, setOutput] = useState<OcrOutput>('text');
+    const [pdfResult, setPdfResult] = useState<SearchablePdfResult | null>(null);
+    const [needsPassword, setNeedsPassword] = useState(false);
+    const [password, setPassword] = useState('');
     const fileInputRef = useRef<HTMLInputElement>(null);
 
     const isProcessing = state === ProcessState.CONVERTING;
@@ -44,7 +62,7 @@ const OCRToText: React.FC<OCRToTextProps> = ({ tool, onBack }) => {
         : state === ProcessState.CONVERTING ? 1 : 2;
 
     const validateAndSetFile = useCallback(async (selectedFile: File) => {
-        const isPDF = selectedFile.type === 'application/pdf' || selectedFile.name.toLowerCase().endsWith('.pdf');
+        const isPDF = isPDFFile(selectedFile);
         const isImage = selectedFile.type.startsWith('image/');
 
         if (!isPDF && !isImage) {
@@ -118,7 +136,8 @@ const OCRToText: React.FC<OCRToTextProps> = ({ tool, onBack }) => {
             }
         }
 
-        // 🔒 SECURITY FIX: Check if PDF is password-protected
+        // Check whether the PDF needs a password to open
+        let locked = false;
         if (isPDF) {
             try {
                 const arrayBuffer = await selectedFile.arrayBuffer();
@@ -132,27 +151,19 @@ const OCRToText: React.FC<OCRToTextProps> = ({ tool, onBack }) => {
                     )
                 ]);
 
-                // Check if password is required
-                if ((loadingTask as any).password) {
-                    setErrorMsg('❌ This PDF is password-protected. Please unlock it first using the Unlock PDF tool before performing OCR.');
-                    return;
-                }
-
                 pdf.destroy(); // Clean up
             } catch (err) {
-                if (err instanceof Error) {
-                    if (err.message.includes('password') || err.message.includes('encrypted')) {
-                        setErrorMsg('❌ This PDF is password-protected. Please unlock it first using the Unlock PDF tool.');
-                        return;
-                    }
-                    // Other errors are fine - we'll catch them during actual OCR processing
-                }
+                // Ask for the password before OCR; other errors are caught during actual OCR processing
+                locked = err instanceof Error && err.name === 'PasswordException';
             }
         }
 
         setFile(selectedFile);
+        setNeedsPassword(locked);
+        setPassword('');
         setState(ProcessState.IDLE);
         setResultText('');
+        setPdfResult(null);
         setErrorMsg('');
         setProgress(0);
         setProgressStatus('');
@@ -230,20 +241,38 @@ const OCRToText: React.FC<OCRToTextProps> = ({ tool, onBack }) => {
             return;
         }
 
+        if (needsPassword && !password) {
+            setErrorMsg('This PDF is password-protected. Please enter its password.');
+            return;
+        }
+
         setState(ProcessState.CONVERTING);
         setErrorMsg('');
         setProgress(0);
         setResultText('');
+        setPdfResult(null);
 
         try {
             let text: string;
-            const isPDF = file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+            const isPDF = isPDFFile(file);
+
+            if (isPDF && output === 'pdf') {
+                const result = await makeSearchablePDF(file, 'eng', password || undefined, (prog, status) => {
+                    setProgress(prog);
+                    setProgressStatus(status);
+                });
+                downloadPDF(result.data, `${file.name.replace(/\.pdf$/i, '')}_searchable.pdf`);
+                setPdfResult(result);
+                setState(ProcessState.COMPLETED);
+                toast.success('Searchable PDF created!');
+                return;
+            }
 
             if (isPDF) {
                 const result = await extractTextWithOCR(file, (prog, status) => {
                     setProgress(prog);
                     setProgressStatus(status);
-                });
+                }, undefined, password || undefined);
                 text = result.text;
             } else {
                 text = await ocrImage(file, (prog, status) => {
@@ -264,7 +293,9 @@ const OCRToText: React.FC<OCRToTextProps> = ({ tool, onBack }) => {
             let errorMessage = 'An unknown error occurred';
             if (err instanceof Error) {
                 errorMessage = err.message;
-                if (err.message.includes('OCR engine')) {
+                if (needsPassword && /password/i.test(err.message)) {
+                    errorMessage = 'Incorrect password. Please check it and try again.';
+                } else if (err.message.includes('OCR engine')) {
                     errorMessage = 'Failed to initialize OCR. Please check your internet connection.';
                 } else if (err.message.includes('OCR failed')) {
                     errorMessage = err.message + ' The document may be corrupted or have unusual formatting.';
@@ -279,6 +310,11 @@ const OCRToText: React.FC<OCRToTextProps> = ({ tool, onBack }) => {
     };
 
     const handleDownload = () => {
+        if (pdfResult && file) {
+            downloadPDF(pdfResult.data, `${file.name.replace(/\.pdf$/i, '')}_searchable.pdf`);
+            toast.success('Download started!');
+            return;
+        }
         if (!resultText) return;
         const blob = new Blob([resultText], { type: 'text/plain' });
         const url = URL.createObjectURL(blob);
@@ -313,9 +349,12 @@ const OCRToText: React.FC<OCRToTextProps> = ({ tool, onBack }) => {
     const handleReset = () => {
         setState(ProcessState.IDLE);
         setFile(null);
+        setNeedsPassword(false);
+        setPassword('');
         setProgress(0);
         setProgressStatus('');
         setResultText('');
+        setPdfResult(null);
         setErrorMsg('');
         setCopied(false);
     };
@@ -408,11 +447,65 @@ const OCRToText: React.FC<OCRToTextProps> = ({ tool, onBack }) => {
                                                     </div>
                                                 </div>
                                             </div>
+
+                                            {needsPassword && (
+                                                <div style={{ marginTop: '1rem' }}>
+                                                    <label htmlFor="ocr-password" style={{ display: 'block', fontSize: '0.875rem', fontWeight: 600, color: 'var(--text-primary)', marginBottom: '0.5rem' }}>
+                                                        PDF Password
+                                                    </label>
+                                                    <input
+                                                        id="ocr-password"
+                                                        type="password"
+                                                        value={password}
+                                                        onChange={(e) => setPassword(e.target.value)}
+                                                        placeholder="This PDF needs a password to open"
+                                                        autoComplete="off"
+                                                        style={{
+                                                            width: '100%', padding: '0.75rem', fontSize: '0.9rem',
+                                                            border: '2px solid var(--border-color)', borderRadius: 'var(--radius-sm)',
+                                                            background: 'var(--surface-white)', color: 'var(--text-primary)',
+                                                            outline: 'none', boxSizing: 'border-box',
+                                                        }}
+                                                    />
+                                                </div>
+                                            )}
+
+                                            {isPDFFile(file) && (
+                                                <div style={{ marginTop: '1rem' }}>
+                                                    <div style={{ fontSize: '0.875rem', fontWeight: 600, color: 'var(--text-primary)', marginBottom: '0.5rem' }}>
+                                                        Output
+                                                    </div>
+                                                    {OUTPUT_OPTIONS.map(({ value, label, description }) => (
+                                                        <label key={value} style={{
+                                                            display: 'flex', alignItems: 'flex-start', gap: '0.5rem',
+                                                            padding: '0.5rem 0', cursor: 'pointer', fontSize: '0.875rem',
+                                                            color: 'var(--text-secondary)',
+                                                        }}>
+                                                            <input
+                                                                type="radio"
+                                                                name="ocr-output"
+                                                                checked={output === value}
+                                                                onChange={() => setOutput(value)}
+                                                                style={{ width: '16px', height: '16px', marginTop: '2px', accentColor: 'var(--accent)' }}
+                                                            />
+                                                            <span>
+                                                                <span style={{ fontWeight: 600, color: 'var(--text-primary)' }}>{label}</span>
+                                                                <span style={{ display: 'block', fontSize: '0.75rem', color: 'var(--text-tertiary)' }}>{description}</span>
+                                                            </span>
+                                                        </label>
+                                                    ))}
+                                                    {output === 'pdf' && (
+                                                        <div style={{ fontSize: '0.75rem', color: 'var(--text-tertiary)', marginTop: '0.25rem' }}>
+                                                            Pages that already contain text are left as they are.
+                                                        </div>
+                                                    )}
+                                                </div>
+                                            )}
                                         </div>
 
                                         <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap' }}>
                                             <button onClick={handleConvert} className="btn-action" style={{ flex: 1, maxWidth: 'none', marginTop: 0 }}>
-                                                Extract Text (OCR)
+                                                {isPDFFile(file) && output === 'pdf' ? 'Create Searchable PDF' : 'Extract Text (OCR)'}
                                             </button>
                                             <button onClick={handleReset} className="btn-secondary" style={{ flex: 1, maxWidth: 'none' }}>
                                                 Select Different File
@@ -474,7 +567,39 @@ const OCRToText: React.FC<OCRToTextProps> = ({ tool, onBack }) => {
                                         <path strokeLinecap="round" strokeLinejoin="round" d="M4.5 12.75l6 6 9-13.5" />
                                     </svg>
                                 </div>
-                                <h3 className="workspace-title" style={{ fontSize: '1.5rem' }}>Text Extracted!</h3>
+                                <h3 className="workspace-title" style={{ fontSize: '1.5rem' }}>
+                                    {pdfResult ? 'Searchable PDF Created!' : 'Text Extracted!'}
+                                </h3>
+
+                                {pdfResult && (
+                                    <p className="workspace-desc" style={{ marginBottom: '2rem' }}>
+                                        Recognized {pdfResult.words} word{pdfResult.words !== 1 ? 's' : ''} on {pdfResult.pagesRecognized} page{pdfResult.pagesRecognized !== 1 ? 's' : ''}.
+                                        {pdfResult.pagesSkipped > 0 && (
+                                            <>
+                                                <br />
+                                                {pdfResult.pagesSkipped} page{pdfResult.pagesSkipped !== 1 ? 's' : ''} already had text and {pdfResult.pagesSkipped !== 1 ? 'were' : 'was'} kept as is.
+                                            </>
+                                        )}
+                                    </p>
+                                )}
+
+                                {pdfResult && pdfResult.skippedWords.length > 0 && (
+                                    <div style={{
+                                        padding: '1rem',
+                                        marginBottom: '2rem',
+                                        textAlign: 'left',
+                                        background: 'var(--warning-bg)',
+                                        border: '1px solid color-mix(in srgb, var(--warning) 40%, transparent)',
+                                        borderRadius: 'var(--radius-sm)',
+                                        fontSize: '0.875rem',
+                                        color: 'var(--text-primary)',
+                                        lineHeight: 1.6,
+                                    }}>
+                                        <strong>Not fully searchable:</strong> the text layer cannot hold accented or non-Latin letters, so search will not find these recognized words:
+                                        {' '}{pdfResult.skippedWords.slice(0, MAX_LISTED_WORDS).join(', ')}
+                                        {pdfResult.skippedWords.length > MAX_LISTED_WORDS && ` and ${pdfResult.skippedWords.length - MAX_LISTED_WORDS} more`}
+                                    </div>
+                                )}
 
                                 {resultText && (
                                     <div style={{ textAlign: 'left', marginBottom: '2rem', width: '100%' }}>
@@ -503,11 +628,13 @@ const OCRToText: React.FC<OCRToTextProps> = ({ tool, onBack }) => {
 
                                 <div className="action-row">
                                     <button onClick={handleDownload} className="btn-secondary btn-primary-alt">
-                                        Download as TXT
-                                    </button>
-                                    <button onClick={handleCopy} className="btn-secondary">
-                                        {copied ? 'Copied!' : 'Copy to Clipboard'}
+                                        {pdfResult ? 'Download PDF' : 'Download as TXT'}
                                     </button>
+                                    {!pdfResult && (
+                                        <button onClick={handleCopy} className="btn-secondary">
+                                            {copied ? 'Copied!' : 'Copy to Clipboard'}
+                                        </button>
+                                    )}
                                     <button onClick={handleReset} className="btn-secondary">
                                         OCR Another File
                                     </button>
@@ -4,8 +4,10 @@
  */
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Tool, ProcessState } from '../types';
-import { pdfToExcel, downloadExcel, AbortSignal as AbortRef } from '../services/pdfToExcelService';
+import { Tool, ProcessState, ConversionStep, PdfToExcelConfig, TableArea } from '../types';
+import { pdfToExcel, downloadTableFile, AbortSignal as AbortRef, type TableExportResult } from '../services/pdfToExcelService';
+import { generateZip } from '../utils/zipGenerator';
+import { PdfToXlsxConfig as PdfToXlsxConfigComponent } from './config/PdfToXlsxConfig';
 import { useWakeLock, usePageVisibility } from '../hooks/usePageVisibility';
 import { toast } from '../hooks/useToast';
 import { formatFileSize } from '../utils/formatFileSize';
@@ -19,20 +21,43 @@ interface PDFToExcelProps {
 
 const STEPS = [
     { label: 'Upload' },
+    { label: 'Configure' },
     { label: 'Extracting' },
     { label: 'Complete' },
 ];
 
 const MAX_FILE_SIZE = 150 * 1024 * 1024; // 150MB (increased from 50MB)
 
+const FORMAT_LABELS: Record<string, string> = {
+    xlsx: 'Excel Spreadsheet (.xlsx)',
+    ods: 'OpenDocument Spreadsheet (.ods)',
+    csv: 'CSV Table (.csv)',
+    json: 'JSON Tables (.json)',
+};
+
+/** Download a single output file directly, or several (one CSV per table) as a ZIP */
+const saveResult = async (result: TableExportResult, pdfName: string): Promise<void> => {
+    if (result.files.length === 1) {
+        downloadTableFile(result.files[0]);
+        return;
+    }
+    await generateZip(
+        result.files.map(({ name, data }) => ({ name, data })),
+        { zipFileName: `${pdfName.replace(/\.pdf$/i, '')}_tables`, autoDownload: true }
+    );
+};
+
 const PDFToExcel: React.FC<PDFToExcelProps> = ({ tool, onBack }) => {
     const [state, setState] = useState<ProcessState>(ProcessState.IDLE);
+    const [conversionStep, setConversionStep] = useState<ConversionStep>('upload');
     const [file, setFile] = useState<File | null>(null);
+    const [config, setConfig] = useState<PdfToExcelConfig | undefined>(undefined);
+    const [areas, setAreas] = useState<TableArea[]>([]);
     const [progress, setProgress] = useState<number>(0);
     const [progressStatus, setProgressStatus] = useState<string>('');
     const [errorMsg, setErrorMsg] = useState<string>('');
     const [isDragging, setIsDragging] = useState(false);
-    const [resultBlob, setResultBlob] = useState<Uint8Array | null>(null);
+    const [result, setResult] = useState<TableExportResult | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const abortRef = useRef<AbortRef>({ current: false });
     const mountedRef = useRef(true);
@@ -48,9 +73,11 @@ const PDFToExcel: React.FC<PDFToExcelProps> = ({ tool, onBack }) => {
         };
     }, []);
 
-    const currentStep = state === ProcessState.IDLE || state === ProcessState.UPLOADING
+    const currentStep = conversionStep === 'upload'
         ? (file ? 0 : -1)
-        : state === ProcessState.CONVERTING ? 1 : 2;
+        : conversionStep === 'configure' ? 1
+        : state === ProcessState.CONVERTING ? 2
+        : 3;
 
     const validateAndSetFile = useCallback((selectedFile: File) => {
         if (selectedFile.type !== 'application/pdf' && !selectedFile.name.toLowerCase().endsWith('.pdf')) {
@@ -71,7 +98,7 @@ const PDFToExcel: React.FC<PDFToExcelProps> = ({ tool, onBack }) => {
         setErrorMsg('');
         setProgress(0);
         setProgressStatus('');
-        setResultBlob(null);
+        setResult(null);
     }, []);
 
     const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -85,7 +112,7 @@ const PDFToExcel: React.FC<PDFToExcelProps> = ({ tool, onBack }) => {
         if (e.dataTransfer.files?.[0]) validateAndSetFile(e.dataTransfer.files[0]);
     }, [validateAndSetFile]);
 
-    const handleConvert = async () => {
+    const handleProceedToConfig = async () => {
         if (!file) { setErrorMsg('Please select a PDF file'); return; }
 
         // Magic byte validation
@@ -100,27 +127,43 @@ const PDFToExcel: React.FC<PDFToExcelProps> = ({ tool, onBack }) => {
             return;
         }
 
+        setErrorMsg('');
+        setConversionStep('configure');
+    };
+
+    const handleConfigChange = (newConfig: PdfToExcelConfig) => {
+        setConfig(newConfig);
+    };
+
+    const handleConvert = async (finalConfig: PdfToExcelConfig, tableAreas: TableArea[]) => {
+        if (!file) { setErrorMsg('Please select a PDF file'); return; }
+
         abortRef.current = { current: false };
+        setConfig(finalConfig);
+        setAreas(tableAreas);
         setState(ProcessState.CONVERTING);
+        setConversionStep('processing');
         setErrorMsg('');
         setProgress(0);
-        setResultBlob(null);
+        setResult(null);
 
         try {
-            const xlsxData = await pdfToExcel(file, (prog, status) => {
+            const output = await pdfToExcel(file, finalConfig, tableAreas, (prog, status) => {
                 if (mountedRef.current) { setProgress(prog); setProgressStatus(status); }
             }, abortRef.current);
 
             if (!mountedRef.current) return;
 
-            setResultBlob(xlsxData);
+            await saveResult(output, file.name);
+            setResult(output);
             setState(ProcessState.COMPLETED);
-            downloadExcel(xlsxData, file.name);
+            setConversionStep('result');
             toast.success('Tables extracted successfully!');
         } catch (err) {
             if (!mountedRef.current) return;
             if (err instanceof Error && err.message.includes('cancelled')) {
                 setState(ProcessState.IDLE);
+                setConversionStep('configure');
                 setProgress(0);
                 setProgressStatus('');
                 toast.info('Conversion cancelled');
@@ -139,6 +182,7 @@ const PDFToExcel: React.FC<PDFToExcelProps> = ({ tool, onBack }) => {
             setErrorMsg(errorMessage);
             toast.error('Extraction failed');
             setState(ProcessState.IDLE);
+            setConversionStep('configure'); // Keep file, go back to config
             setProgress(0);
             setProgressStatus('');
         }
@@ -146,19 +190,26 @@ const PDFToExcel: React.FC<PDFToExcelProps> = ({ tool, onBack }) => {
 
     const handleCancel = () => { abortRef.current.current = true; toast.info('Cancelling...'); };
 
-    const handleDownloadAgain = () => {
-        if (!resultBlob || !file) return;
-        downloadExcel(resultBlob, file.name);
+    const handleCancelConfig = () => {
+        setConversionStep('upload');
+    };
+
+    const handleDownloadAgain = async () => {
+        if (!result || !file) return;
+        await saveResult(result, file.name);
         toast.success('Download started!');
     };
 
     const handleReset = () => {
         setState(ProcessState.IDLE);
+        setConversionStep('upload');
         setFile(null);
+        setConfig(undefined);
+        setAreas([]);
         setProgress(0);
         setProgressStatus('');
         setErrorMsg('');
-        setResultBlob(null);
+        setResult(null);
     };
 
     return (
@@ -177,9 +228,11 @@ const PDFToExcel: React.FC<PDFToExcelProps> = ({ tool, onBack }) => {
                         <p className="workspace-desc">{tool.description}</p>
                     </div>
 
-                    <div style={{ padding: '1.5rem 1.5rem 0' }}>
-                        <StepProgress steps={STEPS} currentStep={currentStep} />
-                    </div>
+                    {conversionStep !== 'configure' && (
+                        <div style={{ padding: '1.5rem 1.5rem 0' }}>
+                            <StepProgress steps={STEPS} currentStep={currentStep} />
+                        </div>
+                    )}
 
                     <div className="workspace-body">
                         {errorMsg && (
@@ -189,14 +242,23 @@ const PDFToExcel: React.FC<PDFToExcelProps> = ({ tool, onBack }) => {
                                 </svg>
                                 <div style={{ flex: 1, textAlign: 'left' }}>
                                     {errorMsg}
-                                    <button onClick={handleConvert} style={{ display: 'block', marginTop: '0.5rem', fontSize: '0.8rem', fontWeight: 600, color: 'var(--accent)', textDecoration: 'underline', background: 'none', border: 'none', cursor: 'pointer', padding: 0 }}>
-                                        Try Again
-                                    </button>
+                                    {config && conversionStep === 'configure' && (
+                                        <button onClick={() => handleConvert(config, areas)} style={{ display: 'block', marginTop: '0.5rem', fontSize: '0.8rem', fontWeight: 600, color: 'var(--accent)', textDecoration: 'underline', background: 'none', border: 'none', cursor: 'pointer', padding: 0 }}>
+                                            Try Again
+                                        </button>
+                                    )}
                                 </div>
                             </div>
                         )}
 
-                        {state === ProcessState.IDLE || state === ProcessState.UPLOADING ? (
+                        {conversionStep === 'configure' && file ? (
+                            <PdfToXlsxConfigComponent
+                                file={file}
+                                onConfigChange={handleConfigChange}
+                                onConvert={handleConvert}
+                                onCancel={handleCancelConfig}
+                            />
+                        ) : state === ProcessState.IDLE || state === ProcessState.UPLOADING ? (
                             <>
                                 {file ? (
                                     <div>
@@ -218,9 +280,11 @@ const PDFToExcel: React.FC<PDFToExcelProps> = ({ tool, onBack }) => {
                                                 <div style={{ fontSize: '0.875rem', color: 'var(--text-primary)', lineHeight: 1.6 }}>
                                                     <strong>How it works:</strong>
                                                     <ul style={{ margin: '0.5rem 0 0 1.5rem', paddingLeft: 0 }}>
-                                                        <li>Tables are detected from text positions in the PDF</li>
-                                                        <li>Each page becomes a separate sheet</li>
-                                                        <li>Output is a real .xlsx Excel file</li>
+                                                        <li>Tables are detected from their borders and text positions</li>
+                                                        <li>Several tables per page, with merged cells kept</li>
+                                                        <li>Draw table areas yourself for pages that need it</li>
+                                                        <li>Numbers, currencies, percentages and dates become real typed cells</li>
+                                                        <li>Save as Excel (.xlsx), OpenDocument (.ods), CSV per table or JSON</li>
                                                         <li>All processing happens in your browser</li>
                                                     </ul>
                                                     <div style={{ marginTop: '0.5rem', fontSize: '0.75rem', color: 'var(--text-tertiary)' }}>
@@ -231,7 +295,7 @@ const PDFToExcel: React.FC<PDFToExcelProps> = ({ tool, onBack }) => {
                                         </div>
 
                                         <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap' }}>
-                                            <button onClick={handleConvert} className="btn-action" style={{ flex: 1, maxWidth: 'none', marginTop: 0 }}>Extract Tables to Excel</button>
+                                            <button onClick={handleProceedToConfig} className="btn-action" style={{ flex: 1, maxWidth: 'none', marginTop: 0 }}>Configure & Extract</button>
                                             <button onClick={handleReset} className="btn-secondary" style={{ flex: 1, maxWidth: 'none' }}>Select Different PDF</button>
                                         </div>
                                     </div>
@@ -277,13 +341,13 @@ const PDFToExcel: React.FC<PDFToExcelProps> = ({ tool, onBack }) => {
                                 </div>
                                 <h3 className="workspace-title" style={{ fontSize: '1.5rem' }}>Extraction Complete!</h3>
 
-                                {file && resultBlob && (
+                                {file && result && (
                                     <div style={{ padding: '1rem 1.5rem', background: 'var(--success-bg)', borderRadius: 'var(--radius-md)', margin: '1.5rem auto', maxWidth: '360px', fontSize: '0.875rem' }}>
                                         <div style={{ fontWeight: 600, color: 'var(--text-primary)', marginBottom: '0.25rem' }}>
-                                            {file.name.replace(/\.pdf$/i, '.xlsx')}
+                                            {result.files.length === 1 ? result.files[0].name : `${file.name.replace(/\.pdf$/i, '')}_tables.zip`}
                                         </div>
                                         <div style={{ color: 'var(--text-tertiary)', fontSize: '0.8rem' }}>
-                                            {formatFileSize(resultBlob.length)} &bull; Excel Spreadsheet (.xlsx)
+                                            {formatFileSize(result.files.reduce((sum, f) => sum + f.data.length, 0))} &bull; {result.tableCount} table{result.tableCount === 1 ? '' : 's'} &bull; {result.files.length === 1 ? FORMAT_LABELS[config?.format ?? 'xlsx'] : `${result.files.length} CSV files (ZIP)`}
                                         </div>
                                     </div>
                                 )}
@@ -6,6 +6,8 @@
 import React, { useState, useRef } from 'react';
 import { Tool, ProcessState, PdfToImageConfig, ConversionStep } from '../types';
 import { pdfToJPG, downloadImage } from '../services/pdfService';
+import { extractImagesFromPDF, type ImageExtractionResult } from '../services/pdfImageExtractionService';
+import { generateZip } from '../utils/zipGenerator';
 import { PdfToJpgConfig } from './config/PdfToJpgConfig';
 
 interface PDFToJPGProps {
@@ -20,6 +22,7 @@ const PDFToJPG: React.FC<PDFToJPGProps> = ({ tool, onBack }) => {
     const [config, setConfig] = useState<PdfToImageConfig | undefined>(undefined);
     const [quality, setQuality] = useState<number>(0.92);
     const [resultCount, setResultCount] = useState<number>(0);
+    const [extraction, setExtraction] = useState<ImageExtractionResult | null>(null);
     const [errorMsg, setErrorMsg] = useState<string>('');
     const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -68,8 +71,31 @@ const PDFToJPG: React.FC<PDFToJPGProps> = ({ tool, onBack }) => {
         setState(ProcessState.CONVERTING);
         setConversionStep('processing');
         setErrorMsg('');
+        setExtraction(null);
 
         try {
+            if (finalConfig.mode === 'extract') {
+                const result = await extractImagesFromPDF(file, {
+                    minSize: finalConfig.minImageSize ?? 100,
+                    pageRange: finalConfig.pageSelection === 'range' ? finalConfig.pageRange : undefined,
+                });
+                if (result.images.length === 0) {
+                    throw new Error(result.skippedSmall > 0
+                        ? `No images found at or above the minimum size (${result.skippedSmall} smaller image${result.skippedSmall !== 1 ? 's' : ''} skipped).`
+                        : 'No embedded images were found in this PDF.');
+                }
+
+                await generateZip(
+                    result.images.map(image => ({ name: image.name, data: image.data })),
+                    { zipFileName: `${file.name.replace(/\.pdf$/i, '')}_images`, autoDownload: true }
+                );
+                setExtraction(result);
+                setResultCount(result.images.length);
+                setState(ProcessState.COMPLETED);
+                setConversionStep('result');
+                return;
+            }
+
             const results = await pdfToJPG(file, finalConfig);
             setResultCount(results.length);
 
@@ -99,6 +125,7 @@ const PDFToJPG: React.FC<PDFToJPGProps> = ({ tool, onBack }) => {
         setConfig(undefined);
         setQuality(0.92);
         setResultCount(0);
+        setExtraction(null);
         setErrorMsg('');
     };
 
@@ -216,8 +243,12 @@ const PDFToJPG: React.FC<PDFToJPGProps> = ({ tool, onBack }) => {
                                         <div className="loader-bar"></div>
                                     </div>
                                 </div>
-                                <h3 className="workspace-title" style={{ fontSize: '1.5rem' }}>Converting PDF to JPG...</h3>
-                                <p className="workspace-desc">Rendering pages as images.</p>
+                                <h3 className="workspace-title" style={{ fontSize: '1.5rem' }}>
+                                    {config?.mode === 'extract' ? 'Extracting images...' : 'Converting PDF to JPG...'}
+                                </h3>
+                                <p className="workspace-desc">
+                                    {config?.mode === 'extract' ? 'Reading the images stored in your PDF.' : 'Rendering pages as images.'}
+                                </p>
                             </div>
                         ) : (
                             <div className="result-area animate-fade-in">
@@ -228,7 +259,23 @@ const PDFToJPG: React.FC<PDFToJPGProps> = ({ tool, onBack }) => {
                                 </div>
                                 <h3 className="workspace-title" style={{ fontSize: '1.5rem' }}>Success!</h3>
                                 <p className="workspace-desc" style={{ marginBottom: '2rem' }}>
-                                    Your PDF has been converted to {resultCount} JPG image{resultCount !== 1 ? 's' : ''}.
+                                    {extraction ? (
+                                        <>
+                                            Extracted {resultCount} image{resultCount !== 1 ? 's' : ''} into a ZIP file.
+                                            {(extraction.duplicates > 0 || extraction.skippedSmall > 0 || extraction.unsupported > 0) && (
+                                                <>
+                                                    <br />
+                                                    {[
+                                                        extraction.duplicates > 0 && `${extraction.duplicates} duplicate${extraction.duplicates !== 1 ? 's' : ''} removed`,
+                                                        extraction.skippedSmall > 0 && `${extraction.skippedSmall} small image${extraction.skippedSmall !== 1 ? 's' : ''} skipped`,
+                                                        extraction.unsupported > 0 && `${extraction.unsupported} in an unsupported format`,
+                                                    ].filter(Boolean).join(' · ')}
+                                                </>
+                                            )}
+                                        </>
+                                    ) : (
+                                        <>Your PDF has been converted to {resultCount} JPG image{resultCount !== 1 ? 's' : ''}.</>
+                                    )}
                                     <br />
                                     Check your downloads folder.
                                 </p>
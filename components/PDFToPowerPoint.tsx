@@ -4,8 +4,9 @@
  */
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Tool, ProcessState } from '../types';
+import { Tool, ProcessState, ConversionStep, PdfToPowerPointConfig } from '../types';
 import { pdfToPowerPoint, downloadPPTX, AbortSignal as AbortRef } from '../services/pdfToPowerPointService';
+import { PdfToPptConfig as PdfToPptConfigComponent } from './config/PdfToPptConfig';
 import { useWakeLock, usePageVisibility } from '../hooks/usePageVisibility';
 import { toast } from '../hooks/useToast';
 import { formatFileSize } from '../utils/formatFileSize';
@@ -19,6 +20,7 @@ interface PDFToPowerPointProps {
 
 const STEPS = [
     { label: 'Upload' },
+    { label: 'Configure' },
     { label: 'Converting' },
     { label: 'Complete' },
 ];
@@ -27,7 +29,9 @@ const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
 
 const PDFToPowerPoint: React.FC<PDFToPowerPointProps> = ({ tool, onBack }) => {
     const [state, setState] = useState<ProcessState>(ProcessState.IDLE);
+    const [conversionStep, setConversionStep] = useState<ConversionStep>('upload');
     const [file, setFile] = useState<File | null>(null);
+    const [config, setConfig] = useState<PdfToPowerPointConfig | undefined>(undefined);
     const [progress, setProgress] = useState<number>(0);
     const [progressStatus, setProgressStatus] = useState<string>('');
     const [errorMsg, setErrorMsg] = useState<string>('');
@@ -48,9 +52,11 @@ const PDFToPowerPoint: React.FC<PDFToPowerPointProps> = ({ tool, onBack }) => {
         };
     }, []);
 
-    const currentStep = state === ProcessState.IDLE || state === ProcessState.UPLOADING
+    const currentStep = conversionStep === 'upload'
         ? (file ? 0 : -1)
-        : state === ProcessState.CONVERTING ? 1 : 2;
+        : conversionStep === 'configure' ? 1
+        : state === ProcessState.CONVERTING ? 2
+        : 3;
 
     const validateAndSetFile = useCallback((selectedFile: File) => {
         if (selectedFile.type !== 'application/pdf' && !selectedFile.name.toLowerCase().endsWith('.pdf')) {
@@ -86,7 +92,7 @@ const PDFToPowerPoint: React.FC<PDFToPowerPointProps> = ({ tool, onBack }) => {
         if (e.dataTransfer.files?.[0]) validateAndSetFile(e.dataTransfer.files[0]);
     }, [validateAndSetFile]);
 
-    const handleConvert = async () => {
+    const handleProceedToConfig = async () => {
         if (!file) { setErrorMsg('Please select a PDF file'); return; }
 
         // Magic byte validation
@@ -101,14 +107,27 @@ const PDFToPowerPoint: React.FC<PDFToPowerPointProps> = ({ tool, onBack }) => {
             return;
         }
 
+        setErrorMsg('');
+        setConversionStep('configure');
+    };
+
+    const handleConfigChange = (newConfig: PdfToPowerPointConfig) => {
+        setConfig(newConfig);
+    };
+
+    const handleConvert = async (finalConfig: PdfToPowerPointConfig) => {
+        if (!file) { setErrorMsg('Please select a PDF file'); return; }
+
         abortRef.current = { current: false };
+        setConfig(finalConfig);
         setState(ProcessState.CONVERTING);
+        setConversionStep('processing');
         setErrorMsg('');
         setProgress(0);
         setResultBlob(null);
 
         try {
-            const pptxData = await pdfToPowerPoint(file, (prog, status) => {
+            const pptxData = await pdfToPowerPoint(file, finalConfig, (prog, status) => {
                 if (mountedRef.current) { setProgress(prog); setProgressStatus(status); }
             }, abortRef.current);
 
@@ -116,12 +135,14 @@ const PDFToPowerPoint: React.FC<PDFToPowerPointProps> = ({ tool, onBack }) => {
 
             setResultBlob(pptxData);
             setState(ProcessState.COMPLETED);
+            setConversionStep('result');
             downloadPPTX(pptxData, file.name);
             toast.success('PDF converted to PowerPoint successfully!');
         } catch (err) {
             if (!mountedRef.current) return;
             if (err instanceof Error && err.message.includes('cancelled')) {
                 setState(ProcessState.IDLE);
+                setConversionStep('configure');
                 setProgress(0);
                 setProgressStatus('');
                 toast.info('Conversion cancelled');
@@ -140,6 +161,7 @@ const PDFToPowerPoint: React.FC<PDFToPowerPointProps> = ({ tool, onBack }) => {
             setErrorMsg(errorMessage);
             toast.error('Conversion failed');
             setState(ProcessState.IDLE);
+            setConversionStep('configure'); // Keep file, go back to config
             setProgress(0);
             setProgressStatus('');
         }
@@ -147,6 +169,10 @@ const PDFToPowerPoint: React.FC<PDFToPowerPointProps> = ({ tool, onBack }) => {
 
     const handleCancel = () => { abortRef.current.current = true; toast.info('Cancelling...'); };
 
+    const handleCancelConfig = () => {
+        setConversionStep('upload');
+    };
+
     const handleDownloadAgain = () => {
         if (!resultBlob || !file) return;
         downloadPPTX(resultBlob, file.name);
@@ -155,7 +181,9 @@ const PDFToPowerPoint: React.FC<PDFToPowerPointProps> = ({ tool, onBack }) => {
 
     const handleReset = () => {
         setState(ProcessState.IDLE);
+        setConversionStep('upload');
         setFile(null);
+        setConfig(undefined);
         setProgress(0);
         setProgressStatus('');
         setErrorMsg('');
@@ -178,9 +206,11 @@ const PDFToPowerPoint: React.FC<PDFToPowerPointProps> = ({ tool, onBack }) => {
                         <p className="workspace-desc">{tool.description}</p>
                     </div>
 
-                    <div style={{ padding: '1.5rem 1.5rem 0' }}>
-                        <StepProgress steps={STEPS} currentStep={currentStep} />
-                    </div>
+                    {conversionStep !== 'configure' && (
+                        <div style={{ padding: '1.5rem 1.5rem 0' }}>
+                            <StepProgress steps={STEPS} currentStep={currentStep} />
+                        </div>
+                    )}
 
                     <div className="workspace-body">
                         {errorMsg && (
@@ -190,14 +220,23 @@ const PDFToPowerPoint: React.FC<PDFToPowerPointProps> = ({ tool, onBack }) => {
                                 </svg>
                                 <div style={{ flex: 1, textAlign: 'left' }}>
                                     {errorMsg}
-                                    <button onClick={handleConvert} style={{ display: 'block', marginTop: '0.5rem', fontSize: '0.8rem', fontWeight: 600, color: 'var(--accent)', textDecoration: 'underline', background: 'none', border: 'none', cursor: 'pointer', padding: 0 }}>
-                                        Try Again
-                                    </button>
+                                    {config && conversionStep === 'configure' && (
+                                        <button onClick={() => handleConvert(config)} style={{ display: 'block', marginTop: '0.5rem', fontSize: '0.8rem', fontWeight: 600, color: 'var(--accent)', textDecoration: 'underline', background: 'none', border: 'none', cursor: 'pointer', padding: 0 }}>
+                                            Try Again
+                                        </button>
+                                    )}
                                 </div>
                             </div>
                         )}
 
-                        {state === ProcessState.IDLE || state === ProcessState.UPLOADING ? (
+                        {conversionStep === 'configure' && file ? (
+                            <PdfToPptConfigComponent
+                                file={file}
+                                onConfigChange={handleConfigChange}
+                                onConvert={handleConvert}
+                                onCancel={handleCancelConfig}
+                            />
+                        ) : state === ProcessState.IDLE || state === ProcessState.UPLOADING ? (
                             <>
                                 {file ? (
                                     <div>
@@ -220,7 +259,8 @@ const PDFToPowerPoint: React.FC<PDFToPowerPointProps> = ({ tool, onBack }) => {
                                                     <strong>How it works:</strong>
                                                     <ul style={{ margin: '0.5rem 0 0 1.5rem', paddingLeft: 0 }}>
                                                         <li>Each PDF page becomes a PowerPoint slide</li>
-                                                        <li>Pages are rendered as high-quality images</li>
+                                                        <li>Choose picture slides, or editable slides with text boxes and separate images</li>
+                                                        <li>Pick the pages and the render resolution</li>
                                                         <li>Slide dimensions match the PDF page size</li>
                                                         <li>All processing happens in your browser</li>
                                                     </ul>
@@ -229,7 +269,7 @@ const PDFToPowerPoint: React.FC<PDFToPowerPointProps> = ({ tool, onBack }) => {
                                         </div>
 
                                         <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap' }}>
-                                            <button onClick={handleConvert} className="btn-action" style={{ flex: 1, maxWidth: 'none', marginTop: 0 }}>Convert to PowerPoint</button>
+                                            <button onClick={handleProceedToConfig} className="btn-action" style={{ flex: 1, maxWidth: 'none', marginTop: 0 }}>Configure & Convert</button>
                                             <button onClick={handleReset} className="btn-secondary" style={{ flex: 1, maxWidth: 'none' }}>Select Different PDF</button>
                                         </div>
                                     </div>
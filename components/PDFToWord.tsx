@@ -338,7 +338,7 @@ const PDFToWord: React.FC<PDFToWordProps> = ({ tool, onBack }) => {
                                                 <div style={{ fontSize: '0.875rem', color: 'var(--text-primary)', lineHeight: 1.6 }}>
                                                     {mode === 'non-ocr' ? (
                                                         <>
-                                                            <strong>Non-OCR Mode:</strong> Extracts existing text from your PDF. Best for:
+                                                            <strong>Non-OCR Mode:</strong> Extracts existing text from your PDF, keeping headings, bold and italic text, lists, simple tables and images. Best for:
                                                             <ul style={{ margin: '0.5rem 0 0 1.5rem', paddingLeft: 0 }}>
                                                                 <li>Digital PDFs created from Word/text editors</li>
                                                                 <li>PDFs with selectable text</li>
@@ -24,6 +24,18 @@ import SignPDF from './SignPDF';
 import PDFToExcel from './PDFToExcel';
 import ExcelToPDF from './ExcelToPDF';
 import PDFToPowerPoint from './PDFToPowerPoint';
+import WatermarkPDF from './WatermarkPDF';
+import PageNumbersPDF from './PageNumbersPDF';
+import MetadataPDF from './MetadataPDF';
+import OrganizePDF from './OrganizePDF';
+import CropPDF from './CropPDF';
+import NUpPDF from './NUpPDF';
+import ResizePDF from './ResizePDF';
+import FlattenPDF from './FlattenPDF';
+import FillFormPDF from './FillFormPDF';
+import RedactPDF from './RedactPDF';
+import ComparePDF from './ComparePDF';
+import AttachmentsPDF from './AttachmentsPDF';
 
 interface ToolDetailProps {
   tool: Tool;
@@ -77,6 +89,42 @@ const ProductDetail: React.FC<ToolDetailProps> = ({ tool, onBack }) => {
   if (tool.id === 'pdf-ppt') {
     return <PDFToPowerPoint tool={tool} onBack={onBack} />;
   }
+  if (tool.id === 'watermark-pdf') {
+    return <WatermarkPDF tool={tool} onBack={onBack} />;
+  }
+  if (tool.id === 'page-numbers-pdf') {
+    return <PageNumbersPDF tool={tool} onBack={onBack} />;
+  }
+  if (tool.id === 'metadata-pdf') {
+    return <MetadataPDF tool={tool} onBack={onBack} />;
+  }
+  if (tool.id === 'organize-pdf') {
+    return <OrganizePDF tool={tool} onBack={onBack} />;
+  }
+  if (tool.id === 'crop-pdf') {
+    return <CropPDF tool={tool} onBack={onBack} />;
+  }
+  if (tool.id === 'nup-pdf') {
+    return <NUpPDF tool={tool} onBack={onBack} />;
+  }
+  if (tool.id === 'resize-pdf') {
+    return <ResizePDF tool={tool} onBack={onBack} />;
+  }
+  if (tool.id === 'flatten-pdf') {
+    return <FlattenPDF tool={tool} onBack={onBack} />;
+  }
+  if (tool.id === 'fill-form-pdf') {
+    return <FillFormPDF tool={tool} onBack={onBack} />;
+  }
+  if (tool.id === 'redact-pdf') {
+    return <RedactPDF tool={tool} onBack={onBack} />;
+  }
+  if (tool.id === 'compare-pdf') {
+    return <ComparePDF tool={tool} onBack={onBack} />;
+  }
+  if (tool.id === 'attachments-pdf') {
+    return <AttachmentsPDF tool={tool} onBack={onBack} />;
+  }
 
   // Route to OCR tool (client-side, no API key needed)
   if (tool.id === 'ocr-text') {
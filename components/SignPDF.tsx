@@ -4,7 +4,7 @@
  */
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Tool, SignatureData, PlacedField } from '../types';
+import { Tool, SignatureData, PlacedField, FlattenPdfConfig } from '../types';
 import { downloadPDF } from '../services/pdfService';
 import { embedSignatures } from '../services/signPdfService';
 import { formatFileSize } from '../utils/formatFileSize';
@@ -12,6 +12,7 @@ import { useWakeLock, usePageVisibility } from '../hooks/usePageVisibility';
 import { toast } from '../hooks/useToast';
 import { validateImage } from '../utils/magicByteValidator';
 import BackButton from './BackButton';
+import FlattenSaveOptions, { NO_FLATTEN } from './FlattenSaveOptions';
 
 interface SignPDFProps {
   tool: Tool;
@@ -84,6 +85,7 @@ const SignPDF: React.FC<SignPDFProps> = ({ tool, onBack }) => {
 
   // Export
   const [saving, setSaving] = useState(false);
+  const [flattenOnSave, setFlattenOnSave] = useState<FlattenPdfConfig>(NO_FLATTEN);
   const [resultBlob, setResultBlob] = useState<Uint8Array | null>(null);
 
   // Refs
@@ -738,6 +740,7 @@ const SignPDF: React.FC<SignPDFProps> = ({ tool, onBack }) => {
         signatures,
         signerName,
         pageScales,
+        flatten: Object.values(flattenOnSave).some(Boolean) ? flattenOnSave : undefined,
       });
       if (!mountedRef.current) return;
       setResultBlob(result);
@@ -1474,6 +1477,8 @@ const SignPDF: React.FC<SignPDFProps> = ({ tool, onBack }) => {
               </div>
             )}
 
+            <FlattenSaveOptions value={flattenOnSave} onChange={setFlattenOnSave} />
+
             {/* Sign button at bottom of panel */}
             <div className="sign-panel-bottom">
               <button
@@ -5,7 +5,7 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Tool, ProcessState } from '../types';
-import { unlockPDF, downloadPDF, isPDFEncrypted } from '../services/pdfService';
+import { unlockPDF, downloadPDF, isPDFEncrypted, PDFEncryptionInfo } from '../services/pdfService';
 import { useWakeLock, usePageVisibility } from '../hooks/usePageVisibility';
 import { toast } from '../hooks/useToast';
 import { formatFileSize } from '../utils/formatFileSize';
@@ -26,6 +26,17 @@ const STEPS = [
 
 const MAX_FILE_SIZE = 150 * 1024 * 1024; // 150MB (increased from 50MB)
 
+const PERMISSION_LABELS: Array<{ key: keyof PDFEncryptionInfo['permissions']; label: string }> = [
+    { key: 'printing', label: 'Printing' },
+    { key: 'highQualityPrint', label: 'High-quality printing' },
+    { key: 'copying', label: 'Copying' },
+    { key: 'modifying', label: 'Modifying' },
+    { key: 'annotating', label: 'Annotating' },
+    { key: 'fillingForms', label: 'Form filling' },
+    { key: 'documentAssembly', label: 'Page assembly' },
+    { key: 'contentAccessibility', label: 'Accessibility' },
+];
+
 const UnlockPDF: React.FC<UnlockPDFProps> = ({ tool, onBack }) => {
     const [state, setState] = useState<ProcessState>(ProcessState.IDLE);
     const [file, setFile] = useState<File | null>(null);
@@ -34,6 +45,7 @@ const UnlockPDF: React.FC<UnlockPDFProps> = ({ tool, onBack }) => {
     const [errorMsg, setErrorMsg] = useState('');
     const [isDragging, setIsDragging] = useState(false);
     const [isEncrypted, setIsEncrypted] = useState<boolean | null>(null);
+    const [encryptionInfo, setEncryptionInfo] = useState<PDFEncryptionInfo | null>(null);
     const [isCheckingEncryption, setIsCheckingEncryption] = useState(false);
     const [resultBlob, setResultBlob] = useState<Uint8Array | null>(null);
 
@@ -85,6 +97,7 @@ const UnlockPDF: React.FC<UnlockPDFProps> = ({ tool, onBack }) => {
         setShowPassword(false);
         setResultBlob(null);
         setIsEncrypted(null);
+        setEncryptionInfo(null);
 
         checkEncryption(selectedFile);
     }, []);
@@ -103,11 +116,12 @@ const UnlockPDF: React.FC<UnlockPDFProps> = ({ tool, onBack }) => {
                 return;
             }
 
-            const encrypted = await isPDFEncrypted(pdfFile);
+            const info = await isPDFEncrypted(pdfFile);
             if (!mountedRef.current) return;
 
-            setIsEncrypted(encrypted);
-            if (!encrypted) {
+            setIsEncrypted(!!info);
+            setEncryptionInfo(info || null);
+            if (!info) {
                 setErrorMsg('This PDF is not encrypted. No password removal is needed.');
             }
         } catch {
@@ -189,7 +203,6 @@ const UnlockPDF: React.FC<UnlockPDFProps> = ({ tool, onBack }) => {
 
     const handleUnlock = async () => {
         if (!file) { setErrorMsg('Please select a PDF file'); return; }
-        if (!password || password.trim() === '') { setErrorMsg('Please enter the password'); return; }
 
         // 🔒 BRUTE FORCE PROTECTION: Check if locked out
         if (isLockedOut && lockoutUntil) {
@@ -273,12 +286,13 @@ const UnlockPDF: React.FC<UnlockPDFProps> = ({ tool, onBack }) => {
         setShowPassword(false);
         setErrorMsg('');
         setIsEncrypted(null);
+        setEncryptionInfo(null);
         setIsCheckingEncryption(false);
         setResultBlob(null);
     };
 
     const handlePasswordKeyDown = (e: React.KeyboardEvent) => {
-        if (e.key === 'Enter' && password.trim()) handleUnlock();
+        if (e.key === 'Enter') handleUnlock();
     };
 
     // ========================================
@@ -314,7 +328,7 @@ const UnlockPDF: React.FC<UnlockPDFProps> = ({ tool, onBack }) => {
                                 </svg>
                                 <div style={{ flex: 1, textAlign: 'left' }}>
                                     {errorMsg}
-                                    {state === ProcessState.IDLE && file && isEncrypted && password && (
+                                    {state === ProcessState.IDLE && file && isEncrypted && (
                                         <button onClick={handleUnlock} style={{ display: 'block', marginTop: '0.5rem', fontSize: '0.8rem', fontWeight: 600, color: 'var(--accent)', textDecoration: 'underline', background: 'none', border: 'none', cursor: 'pointer', padding: 0 }}>
                                             Try Again
                                         </button>
@@ -370,11 +384,32 @@ const UnlockPDF: React.FC<UnlockPDFProps> = ({ tool, onBack }) => {
                                             <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center' }}>
                                                 <span className="file-size">{formatFileSize(file.size)}</span>
                                                 <span style={{ fontSize: '0.8rem', fontWeight: 600, color: 'var(--warning)', background: 'var(--warning-bg)', padding: '0.15rem 0.5rem', borderRadius: '4px' }}>
-                                                    Encrypted
+                                                    {encryptionInfo ? `Encrypted · ${encryptionInfo.algorithm} (R${encryptionInfo.revision})` : 'Encrypted'}
                                                 </span>
                                             </div>
                                         </div>
                                     </div>
+                                    {encryptionInfo && (
+                                        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.375rem', marginTop: '1rem' }}>
+                                            {PERMISSION_LABELS.map(({ key, label }) => {
+                                                const allowed = encryptionInfo.permissions[key];
+                                                return (
+                                                    <span
+                                                        key={key}
+                                                        title={allowed ? `${label} allowed` : `${label} restricted`}
+                                                        style={{
+                                                            fontSize: '0.75rem', padding: '0.15rem 0.5rem', borderRadius: '4px',
+                                                            color: allowed ? 'var(--success)' : 'var(--text-tertiary)',
+                                                            background: allowed ? 'var(--success-bg)' : 'var(--surface-white)',
+                                                            textDecoration: allowed ? 'none' : 'line-through',
+                                                        }}
+                                                    >
+                                                        {label}
+                                                    </span>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
                                 </div>
 
                                 {/* Password Input */}
@@ -432,7 +467,7 @@ const UnlockPDF: React.FC<UnlockPDFProps> = ({ tool, onBack }) => {
                                     marginBottom: '1.5rem',
                                 }}>
                                     <div style={{ fontSize: '0.875rem', color: 'var(--text-primary)', lineHeight: 1.6 }}>
-                                        <strong>Note:</strong> The password is case-sensitive.
+                                        <strong>Note:</strong> The password is case-sensitive. Either the open password or the permissions (owner) password works. If the PDF opens without a password and only restricts editing or printing, leave the field empty.
                                         After unlocking, the PDF will be saved without password protection.
                                         All processing happens locally in your browser.
                                     </div>
@@ -443,8 +478,7 @@ const UnlockPDF: React.FC<UnlockPDFProps> = ({ tool, onBack }) => {
                                     <button
                                         onClick={handleUnlock}
                                         className="btn-action"
-                                        style={{ flex: 1, maxWidth: 'none', marginTop: 0, opacity: password.trim() ? 1 : 0.5 }}
-                                        disabled={!password.trim()}
+                                        style={{ flex: 1, maxWidth: 'none', marginTop: 0 }}
                                     >
                                         <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" width="18" height="18" style={{ marginRight: '0.5rem' }}>
                                             <path strokeLinecap="round" strokeLinejoin="round" d="M13.5 10.5V6.75a4.5 4.5 0 119 0v3.75M3.75 21.75h10.5a2.25 2.25 0 002.25-2.25v-6.75a2.25 2.25 0 00-2.25-2.25H3.75a2.25 2.25 0 00-2.25 2.25v6.75a2.25 2.25 0 002.25 2.25z" />
@@ -0,0 +1,469 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Attachments PDF Configuration Dashboard
+ * List and extract embedded files, read the e-invoice, and queue new attachments
+ */
+
+import React, { useState } from 'react';
+import { downloadBlob } from '../../services/imageService';
+import { generateZip } from '../../utils/zipGenerator';
+import { formatFileSize } from '../../utils/formatFileSize';
+import {
+  guessMimeType,
+  readInvoiceXml,
+  type AttachPdfRequest,
+  type AttachmentCorner,
+  type AttachmentRelationship,
+  type InvoiceSummary,
+  type NewAttachment,
+  type PdfAttachment,
+} from '../../services/pdfAttachmentService';
+
+interface AttachmentsPdfConfigProps {
+  file: File;
+  pageCount: number;
+  attachments: PdfAttachment[];
+  invoice?: { attachment: PdfAttachment; summary: InvoiceSummary };
+  onSave: (request: AttachPdfRequest) => void;
+  onCancel: () => void;
+}
+
+interface PendingAttachment extends NewAttachment {
+  key: number;
+}
+
+const RELATIONSHIPS: Array<{ value: AttachmentRelationship; label: string }> = [
+  { value: 'Supplement', label: 'Supplement' },
+  { value: 'Data', label: 'Data' },
+  { value: 'Source', label: 'Source' },
+  { value: 'Alternative', label: 'Alternative' },
+  { value: 'Unspecified', label: 'Unspecified' },
+];
+
+const CORNERS: Array<{ value: AttachmentCorner; label: string }> = [
+  { value: 'top-right', label: 'Top right' },
+  { value: 'top-left', label: 'Top left' },
+  { value: 'bottom-right', label: 'Bottom right' },
+  { value: 'bottom-left', label: 'Bottom left' },
+];
+
+const formatDate = (date: Date | undefined) => (date ? date.toLocaleString() : '');
+
+export const AttachmentsPdfConfig: React.FC<AttachmentsPdfConfigProps> = ({
+  file,
+  pageCount,
+  attachments,
+  invoice,
+  onSave,
+  onCancel,
+}) => {
+  const [pending, setPending] = useState<PendingAttachment[]>([]);
+  const [nextKey, setNextKey] = useState(0);
+  const [invoiceXml, setInvoiceXml] = useState<{ name: string; data: Uint8Array; summary: InvoiceSummary } | null>(null);
+  const [invoiceError, setInvoiceError] = useState('');
+  const [zipping, setZipping] = useState(false);
+  const [zipError, setZipError] = useState('');
+
+  const baseName = file.name.replace(/\.pdf$/i, '');
+
+  const handleDownload = (attachment: PdfAttachment) => {
+    downloadBlob(new Blob([attachment.data], { type: attachment.mimeType || 'application/octet-stream' }), attachment.name);
+  };
+
+  const handleDownloadAll = async () => {
+    setZipping(true);
+    setZipError('');
+    try {
+      await generateZip(
+        attachments.map(attachment => ({
+          name: attachment.name,
+          data: attachment.data,
+          folder: attachment.pageIndex === null ? undefined : `page-${attachment.pageIndex + 1}`,
+        })),
+        { zipFileName: `${baseName}_attachments`, autoDownload: true }
+      );
+    } catch {
+      setZipError('Failed to create the ZIP file');
+    } finally {
+      setZipping(false);
+    }
+  };
+
+  const handleAddFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const added: PendingAttachment[] = [];
+    let key = nextKey;
+    for (const selected of Array.from(files)) {
+      added.push({
+        key: key++,
+        name: selected.name,
+        data: new Uint8Array(await selected.arrayBuffer()),
+        mimeType: selected.type || guessMimeType(selected.name),
+        description: '',
+        relationship: 'Supplement',
+        pageIndex: null,
+        corner: 'top-right',
+      });
+    }
+    setNextKey(key);
+    setPending(prev => [...prev, ...added]);
+  };
+
+  const updatePending = (key: number, changes: Partial<NewAttachment>) => {
+    setPending(prev => prev.map(item => (item.key === key ? { ...item, ...changes } : item)));
+  };
+
+  const handleInvoiceFile = async (files: FileList | null) => {
+    const selected = files?.[0];
+    if (!selected) return;
+    const data = new Uint8Array(await selected.arrayBuffer());
+    try {
+      setInvoiceXml({ name: selected.name, data, summary: readInvoiceXml(data) });
+      setInvoiceError('');
+    } catch (err) {
+      setInvoiceXml(null);
+      setInvoiceError(err instanceof Error ? err.message : 'Could not read the invoice XML');
+    }
+  };
+
+  const handleSave = () => {
+    onSave({
+      attachments: pending.map(({ key: _key, ...attachment }) => attachment),
+      invoice: invoiceXml ? { data: invoiceXml.data } : undefined,
+    });
+  };
+
+  const newCount = pending.length + (invoiceXml ? 1 : 0);
+  const canSave = newCount > 0;
+
+  const containerStyle: React.CSSProperties = {
+    display: 'grid',
+    gridTemplateColumns: '60% 40%',
+    minHeight: '100vh',
+    backgroundColor: 'var(--config-bg)',
+  };
+
+  const listSectionStyle: React.CSSProperties = {
+    backgroundColor: 'var(--config-surface)',
+    padding: '40px',
+    display: 'flex',
+    flexDirection: 'column',
+  };
+
+  const configSectionStyle: React.CSSProperties = {
+    backgroundColor: 'var(--config-surface)',
+    padding: '40px 32px',
+    borderLeft: '1px solid var(--config-border)',
+    display: 'flex',
+    flexDirection: 'column',
+  };
+
+  const sectionStyle: React.CSSProperties = {
+    marginBottom: '28px',
+  };
+
+  const labelStyle: React.CSSProperties = {
+    fontSize: '14px',
+    fontWeight: '600',
+    color: 'var(--text-primary)',
+    marginBottom: '12px',
+    display: 'block',
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '8px 10px',
+    border: '1px solid var(--config-border)',
+    borderRadius: '6px',
+    fontSize: '13px',
+    backgroundColor: 'var(--config-surface)',
+    color: 'var(--text-primary)',
+    boxSizing: 'border-box',
+  };
+
+  const smallButtonStyle: React.CSSProperties = {
+    padding: '6px 12px',
+    backgroundColor: 'transparent',
+    color: 'var(--text-secondary)',
+    border: '1px solid var(--config-border)',
+    borderRadius: '6px',
+    fontSize: '13px',
+    cursor: 'pointer',
+  };
+
+  const cardStyle: React.CSSProperties = {
+    padding: '12px 14px',
+    border: '1px solid var(--config-border)',
+    borderRadius: '8px',
+    marginBottom: '8px',
+  };
+
+  const hintStyle: React.CSSProperties = {
+    marginTop: '8px',
+    fontSize: '12px',
+    color: 'var(--text-tertiary)',
+  };
+
+  const invoiceFacts = (summary: InvoiceSummary): Array<[string, string | undefined]> => [
+    ['Invoice', summary.number],
+    ['Date', summary.issueDate],
+    ['Seller', summary.seller],
+    ['Buyer', summary.buyer],
+    ['Total', summary.total && `${summary.total} ${summary.currency ?? ''}`.trim()],
+    ['Due', summary.duePayable && `${summary.duePayable} ${summary.currency ?? ''}`.trim()],
+    ['Profile', summary.profile ?? summary.guideline],
+  ];
+
+  return (
+    <div style={containerStyle}>
+      {/* LEFT: Files already in the PDF */}
+      <div style={listSectionStyle}>
+        <div style={{ marginBottom: '24px' }}>
+          <div style={{ fontSize: '16px', fontWeight: '600', color: 'var(--text-primary)', marginBottom: '8px' }}>
+            {attachments.length === 0
+              ? 'This PDF has no attachments'
+              : `${attachments.length} attachment${attachments.length !== 1 ? 's' : ''}`}
+          </div>
+          <div style={{ fontSize: '13px', color: 'var(--text-tertiary)' }}>
+            {file.name}
+          </div>
+        </div>
+
+        {invoice && (
+          <div style={{ ...cardStyle, marginBottom: '24px', borderColor: 'var(--config-active)' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px' }}>
+              <span style={{ fontSize: '14px', fontWeight: '600', color: 'var(--text-primary)' }}>
+                E-invoice ({invoice.summary.syntax}) · {invoice.attachment.name}
+              </span>
+              <button style={smallButtonStyle} onClick={() => handleDownload(invoice.attachment)}>Download XML</button>
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: 'auto 1fr', gap: '4px 16px', fontSize: '13px' }}>
+              {invoiceFacts(invoice.summary).filter(([, value]) => value).map(([label, value]) => (
+                <React.Fragment key={label}>
+                  <span style={{ color: 'var(--text-tertiary)' }}>{label}</span>
+                  <span style={{ color: 'var(--text-primary)', wordBreak: 'break-word' }}>{value}</span>
+                </React.Fragment>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {attachments.length > 0 && (
+          <>
+            <div>
+              {attachments.map(attachment => (
+                <div key={attachment.id} style={{ ...cardStyle, display: 'flex', gap: '12px', alignItems: 'center' }}>
+                  <div style={{ flex: 1, minWidth: 0 }}>
+                    <div style={{ fontSize: '14px', fontWeight: '600', color: 'var(--text-primary)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                      {attachment.name}
+                    </div>
+                    <div style={{ fontSize: '12px', color: 'var(--text-tertiary)', marginTop: '2px' }}>
+                      {[
+                        formatFileSize(attachment.size),
+                        attachment.mimeType,
+                        attachment.pageIndex === null ? 'Document' : `Page ${attachment.pageIndex + 1}`,
+                        attachment.relationship,
+                        formatDate(attachment.modificationDate ?? attachment.creationDate),
+                      ].filter(Boolean).join(' · ')}
+                    </div>
+                    {attachment.description && (
+                      <div style={{ fontSize: '12px', color: 'var(--text-secondary)', marginTop: '4px' }}>
+                        {attachment.description}
+                      </div>
+                    )}
+                  </div>
+                  <button style={smallButtonStyle} onClick={() => handleDownload(attachment)}>Download</button>
+                </div>
+              ))}
+            </div>
+            <button
+              style={{ ...smallButtonStyle, marginTop: '12px', alignSelf: 'flex-start', opacity: zipping ? 0.5 : 1 }}
+              onClick={handleDownloadAll}
+              disabled={zipping}
+            >
+              {zipping ? 'Creating ZIP...' : 'Download all (ZIP)'}
+            </button>
+            {zipError && (
+              <div style={{ marginTop: '8px', fontSize: '12px', color: 'var(--error)' }}>
+                {zipError}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* RIGHT: New attachments */}
+      <div style={configSectionStyle}>
+        <h2 style={{ fontSize: '20px', fontWeight: '700', color: 'var(--text-primary)', marginBottom: '32px' }}>
+          Add attachments
+        </h2>
+
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Files</label>
+          <input
+            type="file"
+            multiple
+            onChange={(e) => { handleAddFiles(e.target.files); e.target.value = ''; }}
+            style={{ fontSize: '13px', color: 'var(--text-secondary)' }}
+          />
+          {pending.map(item => (
+            <div key={item.key} style={{ ...cardStyle, marginTop: '12px' }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+                <span style={{ fontSize: '13px', fontWeight: '600', color: 'var(--text-primary)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {item.name} <span style={{ fontWeight: 400, color: 'var(--text-tertiary)' }}>({formatFileSize(item.data.length)})</span>
+                </span>
+                <button
+                  style={{ ...smallButtonStyle, padding: '2px 8px' }}
+                  onClick={() => setPending(prev => prev.filter(p => p.key !== item.key))}
+                  aria-label={`Remove ${item.name}`}
+                >
+                  ×
+                </button>
+              </div>
+              <input
+                type="text"
+                value={item.description}
+                onChange={(e) => updatePending(item.key, { description: e.target.value })}
+                placeholder="Description (optional)"
+                style={{ ...inputStyle, marginBottom: '8px' }}
+              />
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px', marginBottom: '8px' }}>
+                <input
+                  type="text"
+                  value={item.mimeType}
+                  onChange={(e) => updatePending(item.key, { mimeType: e.target.value.trim() })}
+                  placeholder="MIME type"
+                  aria-label="MIME type"
+                  style={inputStyle}
+                />
+                <select
+                  value={item.relationship}
+                  onChange={(e) => updatePending(item.key, { relationship: e.target.value as AttachmentRelationship })}
+                  aria-label="Relationship to the document"
+                  style={inputStyle}
+                >
+                  {RELATIONSHIPS.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                </select>
+              </div>
+              <div style={{ display: 'grid', gridTemplateColumns: item.pageIndex === null ? '1fr' : '1fr 80px 1fr', gap: '8px' }}>
+                <select
+                  value={item.pageIndex === null ? 'document' : 'page'}
+                  onChange={(e) => updatePending(item.key, { pageIndex: e.target.value === 'document' ? null : 0 })}
+                  aria-label="Attach to"
+                  style={inputStyle}
+                >
+                  <option value="document">Attach to document</option>
+                  <option value="page">Attach to page</option>
+                </select>
+                {item.pageIndex !== null && (
+                  <>
+                    <input
+                      type="number"
+                      min={1}
+                      max={pageCount}
+                      value={item.pageIndex + 1}
+                      onChange={(e) => updatePending(item.key, { pageIndex: Math.min(pageCount, Math.max(1, Number(e.target.value) || 1)) - 1 })}
+                      aria-label="Page number"
+                      style={inputStyle}
+                    />
+                    <select
+                      value={item.corner}
+                      onChange={(e) => updatePending(item.key, { corner: e.target.value as AttachmentCorner })}
+                      aria-label="Icon position"
+                      style={inputStyle}
+                    >
+                      {CORNERS.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                    </select>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+          <div style={hintStyle}>
+            Page attachments appear as a paperclip icon that opens the file in most viewers.
+          </div>
+        </div>
+
+        <div style={sectionStyle}>
+          <label style={labelStyle}>E-invoice XML (ZUGFeRD / Factur-X)</label>
+          <input
+            type="file"
+            accept=".xml,text/xml,application/xml"
+            onChange={(e) => { handleInvoiceFile(e.target.files); e.target.value = ''; }}
+            style={{ fontSize: '13px', color: 'var(--text-secondary)' }}
+          />
+          {invoiceError && (
+            <div style={{ marginTop: '8px', fontSize: '12px', color: 'var(--error)' }}>
+              {invoiceError}
+            </div>
+          )}
+          {invoiceXml && (
+            <div style={{ ...cardStyle, marginTop: '12px', fontSize: '13px', color: 'var(--text-secondary)' }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <span style={{ fontWeight: 600, color: 'var(--text-primary)' }}>{invoiceXml.name}</span>
+                <button style={{ ...smallButtonStyle, padding: '2px 8px' }} onClick={() => setInvoiceXml(null)} aria-label="Remove invoice XML">×</button>
+              </div>
+              <div style={{ marginTop: '4px' }}>
+                {[invoiceXml.summary.number, invoiceXml.summary.seller, invoiceXml.summary.profile ?? 'EN 16931'].filter(Boolean).join(' · ')}
+              </div>
+            </div>
+          )}
+          <div style={hintStyle}>
+            {invoice
+              ? `Replaces the existing ${invoice.attachment.name}. `
+              : ''}
+            The XML is embedded as factur-x.xml (xrechnung.xml for XRechnung) with the Factur-X metadata receivers look for.
+            The PDF is not converted to PDF/A-3, so receivers that require it need a PDF that already conforms.
+          </div>
+        </div>
+
+        <div style={{ flex: 1 }} />
+
+        <button
+          onClick={handleSave}
+          disabled={!canSave}
+          style={{
+            width: '100%',
+            padding: '16px',
+            backgroundColor: 'var(--config-active)',
+            color: '#fff',
+            border: 'none',
+            borderRadius: '8px',
+            fontSize: '16px',
+            fontWeight: '600',
+            cursor: canSave ? 'pointer' : 'not-allowed',
+            opacity: canSave ? 1 : 0.5,
+            transition: 'background-color 0.2s',
+            marginTop: 'auto',
+          }}
+          onMouseEnter={(e) => {
+            if (canSave) e.currentTarget.style.backgroundColor = 'var(--accent-hover)';
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = 'var(--config-active)';
+          }}
+        >
+          {newCount > 0 ? `Attach ${newCount} File${newCount !== 1 ? 's' : ''}` : 'Attach Files'}
+        </button>
+        <button
+          onClick={onCancel}
+          style={{
+            width: '100%',
+            padding: '12px',
+            marginTop: '12px',
+            backgroundColor: 'transparent',
+            color: 'var(--text-secondary)',
+            border: '1px solid var(--config-border)',
+            borderRadius: '8px',
+            fontSize: '14px',
+            cursor: 'pointer',
+          }}
+        >
+          Back
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -10,6 +10,7 @@
 import React, { useState, useMemo } from 'react';
 import type { CompressPdfConfig, CompressionLevel } from '../../types';
 import { configService } from '../../services/configService';
+import { COMPRESSION_PRESETS } from '../../services/pdfService';
 import { PagePreview } from './PagePreview';
 
 interface CompressPdfConfigProps {
@@ -37,12 +38,30 @@ export const CompressPdfConfig: React.FC<CompressPdfConfigProps> = ({
   };
 
   const compressionLevels: { value: CompressionLevel; label: string; description: string }[] = [
-    { value: 'low', label: 'Low compression', description: 'Best quality, ~20% smaller' },
-    { value: 'medium', label: 'Medium compression', description: 'Recommended, ~40% smaller' },
-    { value: 'high', label: 'High compression', description: 'Good balance, ~60% smaller' },
-    { value: 'extreme', label: 'Extreme compression', description: 'Maximum size reduction, ~80% smaller' },
+    { value: 'low', label: 'Low compression', description: 'Best quality, images kept at 220 DPI' },
+    { value: 'medium', label: 'Medium compression', description: 'Recommended, images at 150 DPI' },
+    { value: 'high', label: 'High compression', description: 'Good balance, images at 110 DPI' },
+    { value: 'extreme', label: 'Extreme compression', description: 'Maximum size reduction, images at 72 DPI' },
   ];
 
+  // Default JPEG quality (percent) used by each level when no custom quality is set
+  const levelQuality = (level: CompressionLevel) => Math.round(COMPRESSION_PRESETS[level].quality * 100);
+
+  // Target size as typed, in MB; converted to bytes only when compressing
+  const [targetSizeMB, setTargetSizeMB] = useState<string>(() =>
+    config.targetFileSize ? String(Number((config.targetFileSize / (1024 * 1024)).toFixed(2))) : ''
+  );
+
+  const handleCompress = () => {
+    const mb = parseFloat(targetSizeMB);
+    const finalConfig = {
+      ...config,
+      targetFileSize: !isNaN(mb) && mb > 0 ? Math.round(mb * 1024 * 1024) : undefined,
+    };
+    configService.saveConfig('compress-pdf', finalConfig);
+    onCompress(finalConfig);
+  };
+
   const fileSizeMB = (file.size / (1024 * 1024)).toFixed(2);
 
   // Calculate estimated compressed size in real-time
@@ -323,12 +342,97 @@ export const CompressPdfConfig: React.FC<CompressPdfConfigProps> = ({
           </div>
         </div>
 
+        {/* Image Settings */}
+        {config.optimizeImages && (
+          <div style={sectionStyle}>
+            <label style={labelStyle}>Image settings</label>
+            <div style={{
+              padding: '16px',
+              backgroundColor: 'var(--config-bg)',
+              borderRadius: '8px',
+            }}>
+              <label style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '10px',
+                marginBottom: '12px',
+                cursor: 'pointer',
+              }}>
+                <input
+                  type="checkbox"
+                  checked={config.qualityPercentage !== undefined}
+                  onChange={(e) => updateConfig({
+                    qualityPercentage: e.target.checked ? levelQuality(config.compressionLevel) : undefined,
+                  })}
+                  style={{
+                    width: '18px',
+                    height: '18px',
+                    accentColor: 'var(--config-active)',
+                    cursor: 'pointer',
+                  }}
+                />
+                <div style={{ fontSize: '14px', fontWeight: '600', color: 'var(--text-primary)' }}>
+                  Custom image quality
+                </div>
+              </label>
+
+              <div style={{ marginBottom: '16px', opacity: config.qualityPercentage !== undefined ? 1 : 0.5 }}>
+                <div style={{
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  fontSize: '13px',
+                  color: 'var(--text-secondary)',
+                  marginBottom: '6px',
+                }}>
+                  <span>JPEG quality</span>
+                  <strong>{config.qualityPercentage ?? levelQuality(config.compressionLevel)}%</strong>
+                </div>
+                <input
+                  type="range"
+                  min={10}
+                  max={95}
+                  step={5}
+                  disabled={config.qualityPercentage === undefined}
+                  value={config.qualityPercentage ?? levelQuality(config.compressionLevel)}
+                  onChange={(e) => updateConfig({ qualityPercentage: parseInt(e.target.value, 10) })}
+                  style={{ width: '100%', accentColor: 'var(--config-active)' }}
+                  aria-label="JPEG quality"
+                />
+              </div>
+
+              <label style={{ display: 'block', fontSize: '13px', color: 'var(--text-secondary)', marginBottom: '6px' }}>
+                Target file size (MB, optional)
+              </label>
+              <input
+                type="number"
+                min={0.1}
+                step={0.1}
+                placeholder="e.g. 10 for email attachments"
+                value={targetSizeMB}
+                onChange={(e) => setTargetSizeMB(e.target.value)}
+                style={{
+                  width: '100%',
+                  padding: '10px 12px',
+                  border: '1px solid var(--config-border)',
+                  borderRadius: '6px',
+                  fontSize: '14px',
+                  backgroundColor: 'var(--config-surface)',
+                  color: 'var(--text-primary)',
+                }}
+              />
+              <div style={{ fontSize: '12px', color: 'var(--text-tertiary)', marginTop: '6px' }}>
+                Images are re-encoded at lower quality until the file fits, if possible.
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Spacer to push button to bottom */}
         <div style={{ flex: 1 }} />
 
         {/* Compress Button */}
         <button
-          onClick={() => onCompress(config)}
+          onClick={handleCompress}
           style={{
             width: '100%',
             padding: '16px',
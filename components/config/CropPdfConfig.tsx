@@ -0,0 +1,469 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Crop PDF Configuration Dashboard
+ * Draw the area to keep on a rendered page, or preview whitespace auto-trim
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import type { CropPdfConfig, CropPageSelection, CropRect } from '../../types';
+import { configService } from '../../services/configService';
+import { renderPDFPageFromDoc } from '../../services/pdfEditorService';
+import { detectContentBounds } from '../../services/pdfPageAnalysis';
+
+interface CropPdfConfigProps {
+  file: File;
+  pageCount: number;
+  onConfigChange: (config: CropPdfConfig) => void;
+  onCrop: (config: CropPdfConfig, rect: CropRect | null, currentPage: number) => void;
+  onCancel: () => void;
+}
+
+const PAGE_SELECTIONS: { value: CropPageSelection; label: string }[] = [
+  { value: 'current', label: 'This page' },
+  { value: 'all', label: 'All pages' },
+  { value: 'odd', label: 'Odd pages' },
+  { value: 'even', label: 'Even pages' },
+];
+
+const PREVIEW_WIDTH = 400;
+const PREVIEW_HEIGHT = 520;
+
+/** Drags shorter than this (fraction of the page) are treated as clicks */
+export const MIN_DRAG = 0.01;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export const CropPdfConfig: React.FC<CropPdfConfigProps> = ({
+  file,
+  pageCount,
+  onConfigChange,
+  onCrop,
+  onCancel,
+}) => {
+  const [config, setConfig] = useState<CropPdfConfig>(() =>
+    configService.loadConfig<CropPdfConfig>('crop-pdf')
+  );
+  const [currentPage, setCurrentPage] = useState<number>(1);
+  const [pageSize, setPageSize] = useState<{ width: number; height: number } | null>(null);
+  const [renderError, setRenderError] = useState<string>('');
+  const [rect, setRect] = useState<CropRect | null>(null);
+  const [autoBounds, setAutoBounds] = useState<CropRect | null | undefined>(undefined);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pdfDocRef = useRef<any>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+
+  const updateConfig = (updates: Partial<CropPdfConfig>) => {
+    const newConfig = { ...config, ...updates };
+    setConfig(newConfig);
+    onConfigChange(newConfig);
+    configService.saveConfig('crop-pdf', newConfig);
+  };
+
+  // Load the document once for rendering
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const { pdfjsLib } = await import('../../services/pdfConfig');
+        const pdf = await pdfjsLib.getDocument({
+          data: await file.arrayBuffer(),
+          isEvalSupported: false,
+          useSystemFonts: false,
+        }).promise;
+        if (cancelled) {
+          pdf.destroy();
+          return;
+        }
+        pdfDocRef.current = pdf;
+        setCurrentPage(1);
+        renderPage(1);
+      } catch {
+        if (!cancelled) setRenderError('Failed to render the page preview.');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      if (pdfDocRef.current) {
+        pdfDocRef.current.destroy();
+        pdfDocRef.current = null;
+      }
+    };
+  }, [file]);
+
+  const renderPage = async (pageNumber: number) => {
+    const pdf = pdfDocRef.current;
+    if (!pdf || !canvasRef.current) return;
+
+    try {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      const scale = Math.min(PREVIEW_WIDTH / viewport.width, PREVIEW_HEIGHT / viewport.height);
+      const { canvas, width, height } = await renderPDFPageFromDoc(pdf, pageNumber, scale);
+
+      const target = canvasRef.current;
+      if (!target) return;
+      target.width = width;
+      target.height = height;
+      target.getContext('2d')?.drawImage(canvas, 0, 0);
+      canvas.width = 0;
+      canvas.height = 0;
+
+      setPageSize({ width: viewport.width, height: viewport.height });
+      setRenderError('');
+    } catch {
+      setRenderError('Failed to render the page preview.');
+    }
+  };
+
+  const goToPage = (pageNumber: number) => {
+    const next = Math.min(pageCount, Math.max(1, pageNumber));
+    setCurrentPage(next);
+    renderPage(next);
+  };
+
+  // Preview what auto-trim keeps on the current page
+  useEffect(() => {
+    if (config.mode !== 'auto') return;
+    let cancelled = false;
+    setAutoBounds(undefined);
+    (async () => {
+      try {
+        const bounds = await detectContentBounds(await file.arrayBuffer(), [currentPage - 1]);
+        if (!cancelled) setAutoBounds(bounds.get(currentPage - 1) ?? null);
+      } catch {
+        if (!cancelled) setAutoBounds(null);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [config.mode, currentPage, file]);
+
+  const pointerFraction = (e: React.PointerEvent<HTMLDivElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    return {
+      x: clamp01((e.clientX - bounds.left) / bounds.width),
+      y: clamp01((e.clientY - bounds.top) / bounds.height),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (config.mode !== 'manual') return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = pointerFraction(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStart.current;
+    if (!start) return;
+    const point = pointerFraction(e);
+    if (Math.abs(point.x - start.x) < MIN_DRAG || Math.abs(point.y - start.y) < MIN_DRAG) return;
+    setRect({
+      left: Math.min(start.x, point.x),
+      top: Math.min(start.y, point.y),
+      right: Math.max(start.x, point.x),
+      bottom: Math.max(start.y, point.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+  };
+
+  /** Auto-trim preview including the padding */
+  const paddedAutoBounds = autoBounds && pageSize ? {
+    left: clamp01(autoBounds.left - config.autoTrimPadding / pageSize.width),
+    top: clamp01(autoBounds.top - config.autoTrimPadding / pageSize.height),
+    right: clamp01(autoBounds.right + config.autoTrimPadding / pageSize.width),
+    bottom: clamp01(autoBounds.bottom + config.autoTrimPadding / pageSize.height),
+  } : null;
+
+  const shownRect = config.mode === 'manual' ? rect : paddedAutoBounds;
+  const canApply = config.mode === 'auto' || rect !== null;
+
+  const containerStyle: React.CSSProperties = {
+    display: 'grid',
+    gridTemplateColumns: '60% 40%',
+    minHeight: '100vh',
+    backgroundColor: 'var(--config-bg)',
+  };
+
+  const previewSectionStyle: React.CSSProperties = {
+    backgroundColor: 'var(--config-surface)',
+    padding: '40px',
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+  };
+
+  const configSectionStyle: React.CSSProperties = {
+    backgroundColor: 'var(--config-surface)',
+    padding: '40px 32px',
+    borderLeft: '1px solid var(--config-border)',
+    display: 'flex',
+    flexDirection: 'column',
+  };
+
+  const sectionStyle: React.CSSProperties = {
+    marginBottom: '28px',
+  };
+
+  const labelStyle: React.CSSProperties = {
+    fontSize: '14px',
+    fontWeight: '600',
+    color: 'var(--text-primary)',
+    marginBottom: '12px',
+    display: 'block',
+  };
+
+  const toggleButtonStyle = (isActive: boolean): React.CSSProperties => ({
+    flex: 1,
+    padding: '12px',
+    border: isActive ? '2px solid var(--config-active)' : '2px solid var(--config-border)',
+    borderRadius: '8px',
+    backgroundColor: isActive ? 'var(--config-active-bg)' : 'var(--config-surface)',
+    cursor: 'pointer',
+    transition: 'all 0.15s',
+    fontSize: '14px',
+    fontWeight: isActive ? '600' : '400',
+    color: isActive ? 'var(--config-active)' : 'var(--text-secondary)',
+    outline: 'none',
+  });
+
+  const navButtonStyle = (enabled: boolean): React.CSSProperties => ({
+    padding: '6px 12px',
+    border: '1px solid var(--config-border)',
+    borderRadius: '6px',
+    backgroundColor: 'var(--config-surface)',
+    color: 'var(--text-secondary)',
+    cursor: enabled ? 'pointer' : 'not-allowed',
+    opacity: enabled ? 1 : 0.5,
+  });
+
+  const checkboxStyle: React.CSSProperties = {
+    width: '18px',
+    height: '18px',
+    accentColor: 'var(--config-active)',
+    cursor: 'pointer',
+  };
+
+  const boxOptions: { key: 'setMediaBox' | 'setTrimBox' | 'setBleedBox'; title: string; hint: string }[] = [
+    { key: 'setMediaBox', title: 'MediaBox', hint: 'Cut the page itself, so no viewer or printer shows the cropped-off area' },
+    { key: 'setTrimBox', title: 'TrimBox', hint: 'Finished size for print production' },
+    { key: 'setBleedBox', title: 'BleedBox', hint: 'Area kept for bleed in print production' },
+  ];
+
+  return (
+    <div style={containerStyle}>
+      {/* LEFT: Page */}
+      <div style={previewSectionStyle}>
+        <div style={{ marginBottom: '24px', textAlign: 'center' }}>
+          <div style={{ fontSize: '16px', fontWeight: '600', color: 'var(--text-primary)', marginBottom: '8px' }}>
+            {config.mode === 'manual' ? 'Drag to select the area to keep' : 'Detected content'}
+          </div>
+          <div style={{ fontSize: '13px', color: 'var(--text-tertiary)' }}>
+            {file.name}
+          </div>
+        </div>
+
+        {renderError ? (
+          <div style={{ color: 'var(--error)', fontSize: '14px' }}>{renderError}</div>
+        ) : (
+          <div
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            style={{
+              position: 'relative',
+              overflow: 'hidden',
+              lineHeight: 0,
+              boxShadow: '0 2px 12px rgba(0, 0, 0, 0.12)',
+              cursor: config.mode === 'manual' ? 'crosshair' : 'default',
+              touchAction: 'none',
+              userSelect: 'none',
+            }}
+          >
+            <canvas ref={canvasRef} style={{ display: 'block' }} />
+            {shownRect && (
+              <div style={{
+                position: 'absolute',
+                left: `${shownRect.left * 100}%`,
+                top: `${shownRect.top * 100}%`,
+                width: `${(shownRect.right - shownRect.left) * 100}%`,
+                height: `${(shownRect.bottom - shownRect.top) * 100}%`,
+                border: `2px ${config.mode === 'manual' ? 'solid' : 'dashed'} var(--config-active)`,
+                boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.45)',
+                pointerEvents: 'none',
+              }} />
+            )}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginTop: '20px' }}>
+          <button style={navButtonStyle(currentPage > 1)} onClick={() => goToPage(currentPage - 1)} disabled={currentPage <= 1}>
+            ‹ Prev
+          </button>
+          <span style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>
+            Page {currentPage} of {pageCount}
+          </span>
+          <button style={navButtonStyle(currentPage < pageCount)} onClick={() => goToPage(currentPage + 1)} disabled={currentPage >= pageCount}>
+            Next ›
+          </button>
+        </div>
+
+        {config.mode === 'auto' && autoBounds === null && (
+          <div style={{ marginTop: '12px', fontSize: '13px', color: 'var(--text-tertiary)' }}>
+            No content found on this page; it will be left as it is.
+          </div>
+        )}
+      </div>
+
+      {/* RIGHT: Configuration Section */}
+      <div style={configSectionStyle}>
+        <h2 style={{ fontSize: '20px', fontWeight: '700', color: 'var(--text-primary)', marginBottom: '32px' }}>
+          Crop options
+        </h2>
+
+        {/* Mode */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Crop</label>
+          <div style={{ display: 'flex', gap: '12px' }}>
+            <button style={toggleButtonStyle(config.mode === 'manual')} onClick={() => updateConfig({ mode: 'manual' })}>
+              Draw area
+            </button>
+            <button style={toggleButtonStyle(config.mode === 'auto')} onClick={() => updateConfig({ mode: 'auto' })}>
+              Auto-trim margins
+            </button>
+          </div>
+
+          {config.mode === 'manual' ? (
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: '12px', fontSize: '13px', color: 'var(--text-tertiary)' }}>
+              <span>
+                {rect && pageSize
+                  ? `${Math.round((rect.right - rect.left) * pageSize.width)} × ${Math.round((rect.bottom - rect.top) * pageSize.height)} pt`
+                  : 'No area selected yet'}
+              </span>
+              {rect && (
+                <button
+                  onClick={() => setRect(null)}
+                  style={{ background: 'none', border: 'none', padding: 0, color: 'var(--config-active)', cursor: 'pointer', fontSize: '13px' }}
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+          ) : (
+            <div style={{ marginTop: '16px' }}>
+              <div style={{ fontSize: '13px', color: 'var(--text-secondary)', display: 'flex', justifyContent: 'space-between', marginBottom: '6px' }}>
+                <span>Padding around content</span>
+                <span>{config.autoTrimPadding} pt</span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={72}
+                value={config.autoTrimPadding}
+                onChange={(e) => updateConfig({ autoTrimPadding: Number(e.target.value) })}
+                style={{ width: '100%', accentColor: 'var(--config-active)' }}
+                aria-label="Padding around content"
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Pages */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Apply to</label>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+            {PAGE_SELECTIONS.map(selection => (
+              <button
+                key={selection.value}
+                style={toggleButtonStyle(config.pageSelection === selection.value)}
+                onClick={() => updateConfig({ pageSelection: selection.value })}
+              >
+                {selection.label}
+              </button>
+            ))}
+          </div>
+          {config.mode === 'auto' && config.pageSelection !== 'current' && (
+            <div style={{ marginTop: '8px', fontSize: '12px', color: 'var(--text-tertiary)' }}>
+              Each page is trimmed to its own content.
+            </div>
+          )}
+        </div>
+
+        {/* Page boxes */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Also set</label>
+          <div style={{ padding: '16px', backgroundColor: 'var(--config-bg)', borderRadius: '8px', display: 'flex', flexDirection: 'column', gap: '12px' }}>
+            {boxOptions.map(option => (
+              <label key={option.key} style={{ display: 'flex', alignItems: 'center', gap: '10px', cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={config[option.key]}
+                  onChange={(e) => updateConfig({ [option.key]: e.target.checked })}
+                  style={checkboxStyle}
+                />
+                <div>
+                  <div style={{ fontSize: '14px', fontWeight: '600', color: 'var(--text-primary)' }}>
+                    {option.title}
+                  </div>
+                  <div style={{ fontSize: '12px', color: 'var(--text-tertiary)' }}>
+                    {option.hint}
+                  </div>
+                </div>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div style={{ flex: 1 }} />
+
+        <button
+          onClick={() => onCrop(config, config.mode === 'manual' ? rect : null, currentPage - 1)}
+          disabled={!canApply}
+          style={{
+            width: '100%',
+            padding: '16px',
+            backgroundColor: 'var(--config-active)',
+            color: '#fff',
+            border: 'none',
+            borderRadius: '8px',
+            fontSize: '16px',
+            fontWeight: '600',
+            cursor: canApply ? 'pointer' : 'not-allowed',
+            opacity: canApply ? 1 : 0.5,
+            transition: 'background-color 0.2s',
+            marginTop: 'auto',
+          }}
+          onMouseEnter={(e) => {
+            if (canApply) e.currentTarget.style.backgroundColor = 'var(--accent-hover)';
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = 'var(--config-active)';
+          }}
+        >
+          Crop PDF
+        </button>
+        <button
+          onClick={onCancel}
+          style={{
+            width: '100%',
+            padding: '12px',
+            marginTop: '12px',
+            backgroundColor: 'transparent',
+            color: 'var(--text-secondary)',
+            border: '1px solid var(--config-border)',
+            borderRadius: '8px',
+            fontSize: '14px',
+            cursor: 'pointer',
+          }}
+        >
+          Back
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,212 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Flatten PDF Configuration Dashboard
+ * Shows the form fields, comments and links found in the file next to the flatten toggles
+ */
+
+import React, { useState, useEffect } from 'react';
+import { PDFDocument } from 'pdf-lib';
+import type { FlattenPdfConfig } from '../../types';
+import { configService } from '../../services/configService';
+import { countAnnotations, type FlattenCounts } from '../../services/pdfFlattenService';
+
+interface FlattenPdfConfigProps {
+  file: File;
+  onConfigChange: (config: FlattenPdfConfig) => void;
+  onFlatten: (config: FlattenPdfConfig) => void;
+  onCancel: () => void;
+}
+
+export const FLATTEN_OPTIONS: { key: keyof FlattenPdfConfig; title: string; hint: string }[] = [
+  { key: 'forms', title: 'Form fields', hint: 'Entered values become part of the page and can no longer be edited' },
+  { key: 'comments', title: 'Comments', hint: 'Notes, highlights, stamps and drawings are printed onto the page' },
+  { key: 'links', title: 'Links', hint: 'Links stop being clickable' },
+];
+
+export const FlattenPdfConfig: React.FC<FlattenPdfConfigProps> = ({
+  file,
+  onConfigChange,
+  onFlatten,
+  onCancel,
+}) => {
+  const [config, setConfig] = useState<FlattenPdfConfig>(() =>
+    configService.loadConfig<FlattenPdfConfig>('flatten-pdf')
+  );
+  const [found, setFound] = useState<FlattenCounts | null>(null);
+
+  const updateConfig = (updates: Partial<FlattenPdfConfig>) => {
+    const newConfig = { ...config, ...updates };
+    setConfig(newConfig);
+    onConfigChange(newConfig);
+    configService.saveConfig('flatten-pdf', newConfig);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const pdf = await PDFDocument.load(await file.arrayBuffer(), { ignoreEncryption: true, updateMetadata: false });
+        if (!cancelled) setFound(countAnnotations(pdf));
+      } catch {
+        // No summary; flattening reports unreadable files
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [file]);
+
+  const canApply = config.forms || config.comments || config.links;
+  const nothingFound = found !== null && found.forms + found.comments + found.links === 0;
+
+  const containerStyle: React.CSSProperties = {
+    display: 'grid',
+    gridTemplateColumns: '60% 40%',
+    minHeight: '100vh',
+    backgroundColor: 'var(--config-bg)',
+  };
+
+  const previewSectionStyle: React.CSSProperties = {
+    backgroundColor: 'var(--config-surface)',
+    padding: '40px',
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: '16px',
+  };
+
+  const configSectionStyle: React.CSSProperties = {
+    backgroundColor: 'var(--config-surface)',
+    padding: '40px 32px',
+    borderLeft: '1px solid var(--config-border)',
+    display: 'flex',
+    flexDirection: 'column',
+  };
+
+  const sectionStyle: React.CSSProperties = {
+    marginBottom: '28px',
+  };
+
+  const labelStyle: React.CSSProperties = {
+    fontSize: '14px',
+    fontWeight: '600',
+    color: 'var(--text-primary)',
+    marginBottom: '12px',
+    display: 'block',
+  };
+
+  const checkboxStyle: React.CSSProperties = {
+    width: '18px',
+    height: '18px',
+    accentColor: 'var(--config-active)',
+    cursor: 'pointer',
+  };
+
+  const statStyle = (active: boolean): React.CSSProperties => ({
+    width: '100%',
+    maxWidth: '360px',
+    padding: '16px 20px',
+    borderRadius: '8px',
+    border: active ? '2px solid var(--config-active)' : '2px solid var(--config-border)',
+    backgroundColor: active ? 'var(--config-active-bg)' : 'var(--config-surface)',
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    fontSize: '14px',
+    color: 'var(--text-secondary)',
+  });
+
+  return (
+    <div style={containerStyle}>
+      {/* LEFT: What the file contains */}
+      <div style={previewSectionStyle}>
+        <div style={{ fontSize: '14px', color: 'var(--text-secondary)', marginBottom: '8px' }}>
+          {found === null ? 'Reading the document...' : nothingFound ? 'No form fields, comments or links were found.' : 'Found in this document'}
+        </div>
+        {found && !nothingFound && FLATTEN_OPTIONS.map(option => (
+          <div key={option.key} style={statStyle(config[option.key] && found[option.key] > 0)}>
+            <span>{option.title}</span>
+            <span style={{ fontSize: '20px', fontWeight: '700', color: 'var(--text-primary)' }}>{found[option.key]}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* RIGHT: Configuration Section */}
+      <div style={configSectionStyle}>
+        <h2 style={{ fontSize: '20px', fontWeight: '700', color: 'var(--text-primary)', marginBottom: '32px' }}>
+          Flatten options
+        </h2>
+
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Flatten</label>
+          <div style={{ padding: '16px', backgroundColor: 'var(--config-bg)', borderRadius: '8px', display: 'flex', flexDirection: 'column', gap: '12px' }}>
+            {FLATTEN_OPTIONS.map(option => (
+              <label key={option.key} style={{ display: 'flex', alignItems: 'center', gap: '10px', cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={config[option.key]}
+                  onChange={(e) => updateConfig({ [option.key]: e.target.checked })}
+                  style={checkboxStyle}
+                />
+                <div>
+                  <div style={{ fontSize: '14px', fontWeight: '600', color: 'var(--text-primary)' }}>
+                    {option.title}
+                  </div>
+                  <div style={{ fontSize: '12px', color: 'var(--text-tertiary)' }}>
+                    {option.hint}
+                  </div>
+                </div>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div style={{ flex: 1 }} />
+
+        <button
+          onClick={() => onFlatten(config)}
+          disabled={!canApply}
+          style={{
+            width: '100%',
+            padding: '16px',
+            backgroundColor: 'var(--config-active)',
+            color: '#fff',
+            border: 'none',
+            borderRadius: '8px',
+            fontSize: '16px',
+            fontWeight: '600',
+            cursor: canApply ? 'pointer' : 'not-allowed',
+            opacity: canApply ? 1 : 0.5,
+            transition: 'background-color 0.2s',
+            marginTop: 'auto',
+          }}
+          onMouseEnter={(e) => {
+            if (canApply) e.currentTarget.style.backgroundColor = 'var(--accent-hover)';
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = 'var(--config-active)';
+          }}
+        >
+          Flatten PDF
+        </button>
+        <button
+          onClick={onCancel}
+          style={{
+            width: '100%',
+            padding: '12px',
+            marginTop: '12px',
+            backgroundColor: 'transparent',
+            color: 'var(--text-secondary)',
+            border: '1px solid var(--config-border)',
+            borderRadius: '8px',
+            fontSize: '14px',
+            cursor: 'pointer',
+          }}
+        >
+          Back
+        </button>
+      </div>
+    </div>
+  );
+};
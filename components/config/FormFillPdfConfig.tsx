@@ -0,0 +1,542 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Fill PDF Form Configuration Dashboard
+ * Edit field values in place over the rendered page, with FDF/XFDF/JSON import and export
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { PDFDocument } from 'pdf-lib';
+import { renderPDFPageFromDoc } from '../../services/pdfEditorService';
+import { downloadBlob } from '../../services/imageService';
+import {
+  readFormFields,
+  isFillable,
+  findMissingRequired,
+  exportFormData,
+  parseFormData,
+  matchImportedValues,
+  detectFormDataFormat,
+  type FormDataFormat,
+  type FormFieldInfo,
+  type FormFieldValue,
+  type FormValues,
+  type FormWidget,
+} from '../../services/pdfFormService';
+
+interface FormFillPdfConfigProps {
+  file: File;
+  pageCount: number;
+  onFill: (values: FormValues) => void;
+  onCancel: () => void;
+}
+
+const EXPORT_FORMATS: { value: FormDataFormat; label: string; mime: string }[] = [
+  { value: 'fdf', label: 'FDF', mime: 'application/vnd.fdf' },
+  { value: 'xfdf', label: 'XFDF', mime: 'application/vnd.adobe.xfdf' },
+  { value: 'json', label: 'JSON', mime: 'application/json' },
+];
+
+const PREVIEW_WIDTH = 480;
+const PREVIEW_HEIGHT = 620;
+
+const FIELD_TYPE_LABELS: Record<FormFieldInfo['type'], string> = {
+  text: 'Text',
+  checkbox: 'Check box',
+  radio: 'Choice',
+  dropdown: 'Dropdown',
+  list: 'List',
+  signature: 'Signature',
+  button: 'Button',
+};
+
+interface FieldControlProps {
+  field: FormFieldInfo;
+  value: FormFieldValue;
+  onChange: (value: FormFieldValue) => void;
+  onFocus: () => void;
+  /** Radio widget on the page: a single button for this option instead of a choice list */
+  option?: string;
+  style: React.CSSProperties;
+}
+
+/** The input for one field, used both on the page and in the field list */
+const FieldControl: React.FC<FieldControlProps> = ({ field, value, onChange, onFocus, option, style }) => {
+  const common = { disabled: field.readOnly, onFocus, title: field.name, 'aria-label': field.name };
+
+  switch (field.type) {
+    case 'text':
+      return field.multiline ? (
+        <textarea {...common} value={value as string} maxLength={field.maxLength} onChange={(e) => onChange(e.target.value)} style={{ ...style, resize: 'none' }} />
+      ) : (
+        <input {...common} type="text" value={value as string} maxLength={field.maxLength} onChange={(e) => onChange(e.target.value)} style={style} />
+      );
+    case 'checkbox':
+      return <input {...common} type="checkbox" checked={value === true} onChange={(e) => onChange(e.target.checked)} style={{ ...style, accentColor: 'var(--config-active)' }} />;
+    case 'radio':
+      if (option !== undefined) {
+        return (
+          <input
+            {...common}
+            type="radio"
+            name={`form-fill-${field.name}`}
+            checked={value === option}
+            onChange={() => onChange(option)}
+            onClick={() => { if (value === option) onChange(''); }}
+            style={{ ...style, accentColor: 'var(--config-active)' }}
+          />
+        );
+      }
+    // falls through: the field list shows a radio group as a choice list
+    case 'dropdown':
+      return (
+        <select {...common} value={value as string} onChange={(e) => onChange(e.target.value)} style={style}>
+          <option value="">—</option>
+          {field.options.map(choice => <option key={choice} value={choice}>{choice}</option>)}
+        </select>
+      );
+    case 'list':
+      return (
+        <select
+          {...common}
+          multiple={field.multiSelect}
+          size={field.multiSelect ? undefined : Math.min(4, Math.max(2, field.options.length))}
+          value={field.multiSelect ? (value as string[]) : (value as string[])[0] ?? ''}
+          onChange={(e) => onChange(Array.from(e.target.selectedOptions, (selected: HTMLOptionElement) => selected.value))}
+          style={style}
+        >
+          {field.options.map(choice => <option key={choice} value={choice}>{choice}</option>)}
+        </select>
+      );
+    default:
+      return (
+        <div title="Use the Sign PDF tool to sign" style={{ ...style, border: '1px dashed var(--config-border)', color: 'var(--text-tertiary)', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+          {FIELD_TYPE_LABELS[field.type]}
+        </div>
+      );
+  }
+};
+
+export const FormFillPdfConfig: React.FC<FormFillPdfConfigProps> = ({
+  file,
+  pageCount,
+  onFill,
+  onCancel,
+}) => {
+  const [fields, setFields] = useState<FormFieldInfo[] | null>(null);
+  const [values, setValues] = useState<FormValues>({});
+  const [missing, setMissing] = useState<string[]>([]);
+  const [importMessage, setImportMessage] = useState<string>('');
+  const [activeField, setActiveField] = useState<string>('');
+  const [currentPage, setCurrentPage] = useState<number>(1);
+  const [canvasSize, setCanvasSize] = useState<{ width: number; height: number } | null>(null);
+  const [renderError, setRenderError] = useState<string>('');
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pdfDocRef = useRef<any>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Read the form's fields and their current values
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const pdf = await PDFDocument.load(await file.arrayBuffer(), { ignoreEncryption: true, updateMetadata: false });
+        if (cancelled) return;
+        const found = readFormFields(pdf);
+        setFields(found);
+        setValues(Object.fromEntries(found.map(field => [field.name, field.value])));
+      } catch {
+        if (!cancelled) setFields([]);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [file]);
+
+  // Load the document once for rendering
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const { pdfjsLib } = await import('../../services/pdfConfig');
+        const pdf = await pdfjsLib.getDocument({
+          data: await file.arrayBuffer(),
+          isEvalSupported: false,
+          useSystemFonts: false,
+        }).promise;
+        if (cancelled) {
+          pdf.destroy();
+          return;
+        }
+        pdfDocRef.current = pdf;
+        setCurrentPage(1);
+        renderPage(1);
+      } catch {
+        if (!cancelled) setRenderError('Failed to render the page preview.');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      if (pdfDocRef.current) {
+        pdfDocRef.current.destroy();
+        pdfDocRef.current = null;
+      }
+    };
+  }, [file]);
+
+  const renderPage = async (pageNumber: number) => {
+    const pdf = pdfDocRef.current;
+    if (!pdf || !canvasRef.current) return;
+
+    try {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      const scale = Math.min(PREVIEW_WIDTH / viewport.width, PREVIEW_HEIGHT / viewport.height);
+      const { canvas, width, height } = await renderPDFPageFromDoc(pdf, pageNumber, scale);
+
+      const target = canvasRef.current;
+      if (!target) return;
+      target.width = width;
+      target.height = height;
+      target.getContext('2d')?.drawImage(canvas, 0, 0);
+      canvas.width = 0;
+      canvas.height = 0;
+
+      setCanvasSize({ width, height });
+      setRenderError('');
+    } catch {
+      setRenderError('Failed to render the page preview.');
+    }
+  };
+
+  const goToPage = (pageNumber: number) => {
+    const next = Math.min(pageCount, Math.max(1, pageNumber));
+    if (next === currentPage) return;
+    setCurrentPage(next);
+    renderPage(next);
+  };
+
+  const updateValue = (name: string, value: FormFieldValue) => {
+    setValues(previous => ({ ...previous, [name]: value }));
+    if (missing.includes(name)) setMissing(missing.filter(entry => entry !== name));
+  };
+
+  const showField = (field: FormFieldInfo) => {
+    setActiveField(field.name);
+    if (field.widgets.length > 0) goToPage(field.widgets[0].pageIndex + 1);
+  };
+
+  const handleFill = () => {
+    if (!fields) return;
+    const empty = findMissingRequired(fields, values);
+    setMissing(empty);
+    if (empty.length > 0) {
+      const first = fields.find(field => field.name === empty[0]);
+      if (first) showField(first);
+      return;
+    }
+    onFill(values);
+  };
+
+  const handleExport = (format: FormDataFormat) => {
+    if (!fields) return;
+    const { mime } = EXPORT_FORMATS.find(entry => entry.value === format)!;
+    const data = exportFormData(fields, values, format, file.name);
+    downloadBlob(new Blob([data], { type: mime }), `${file.name.replace(/\.pdf$/i, '')}_data.${format}`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const dataFile = e.target.files?.[0];
+    if (importInputRef.current) importInputRef.current.value = '';
+    if (!dataFile || !fields) return;
+
+    try {
+      const bytes = new Uint8Array(await dataFile.arrayBuffer());
+      const format = detectFormDataFormat(dataFile.name, bytes);
+      if (!format) throw new Error('Please choose an FDF, XFDF or JSON file.');
+
+      const imported = matchImportedValues(fields, await parseFormData(bytes, format));
+      const count = Object.keys(imported.values).length;
+      setValues(previous => ({ ...previous, ...imported.values }));
+      setMissing(missing.filter(name => !(name in imported.values)));
+      setImportMessage(
+        `Imported ${count} value${count !== 1 ? 's' : ''}.` +
+        (imported.unmatched.length > 0
+          ? ` Not in this form: ${imported.unmatched.slice(0, 5).join(', ')}${imported.unmatched.length > 5 ? '…' : ''}`
+          : '')
+      );
+    } catch (err) {
+      setImportMessage(err instanceof Error ? err.message : 'The file could not be imported.');
+    }
+  };
+
+  const fillable = fields?.filter(isFillable) ?? [];
+  const pageWidgets: Array<{ field: FormFieldInfo; widget: FormWidget }> = (fields ?? []).flatMap(field =>
+    field.widgets
+      .filter(widget => widget.pageIndex === currentPage - 1)
+      .map(widget => ({ field, widget }))
+  );
+
+  const containerStyle: React.CSSProperties = {
+    display: 'grid',
+    gridTemplateColumns: '60% 40%',
+    minHeight: '100vh',
+    backgroundColor: 'var(--config-bg)',
+  };
+
+  const previewSectionStyle: React.CSSProperties = {
+    backgroundColor: 'var(--config-surface)',
+    padding: '40px',
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    justifyContent: 'center',
+  };
+
+  const configSectionStyle: React.CSSProperties = {
+    backgroundColor: 'var(--config-surface)',
+    padding: '40px 32px',
+    borderLeft: '1px solid var(--config-border)',
+    display: 'flex',
+    flexDirection: 'column',
+  };
+
+  const sectionStyle: React.CSSProperties = {
+    marginBottom: '28px',
+  };
+
+  const labelStyle: React.CSSProperties = {
+    fontSize: '14px',
+    fontWeight: '600',
+    color: 'var(--text-primary)',
+    marginBottom: '12px',
+    display: 'block',
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '8px 10px',
+    border: '1px solid var(--config-border)',
+    borderRadius: '6px',
+    fontSize: '13px',
+    backgroundColor: 'var(--config-surface)',
+    color: 'var(--text-primary)',
+    boxSizing: 'border-box',
+  };
+
+  const smallButtonStyle: React.CSSProperties = {
+    flex: 1,
+    padding: '8px',
+    backgroundColor: 'transparent',
+    color: 'var(--text-secondary)',
+    border: '1px solid var(--config-border)',
+    borderRadius: '6px',
+    fontSize: '13px',
+    cursor: 'pointer',
+  };
+
+  const navButtonStyle = (enabled: boolean): React.CSSProperties => ({
+    padding: '6px 14px',
+    border: '1px solid var(--config-border)',
+    borderRadius: '6px',
+    backgroundColor: 'var(--config-surface)',
+    color: 'var(--text-secondary)',
+    fontSize: '13px',
+    cursor: enabled ? 'pointer' : 'not-allowed',
+    opacity: enabled ? 1 : 0.5,
+  });
+
+  const overlayStyle = (field: FormFieldInfo, widget: FormWidget): React.CSSProperties => {
+    const heightPx = canvasSize ? (widget.rect.bottom - widget.rect.top) * canvasSize.height : 16;
+    const invalid = missing.includes(field.name);
+    const active = activeField === field.name;
+    return {
+      position: 'absolute',
+      left: `${widget.rect.left * 100}%`,
+      top: `${widget.rect.top * 100}%`,
+      width: `${(widget.rect.right - widget.rect.left) * 100}%`,
+      height: `${(widget.rect.bottom - widget.rect.top) * 100}%`,
+      margin: 0,
+      padding: field.type === 'checkbox' || field.type === 'radio' ? 0 : '0 2px',
+      fontSize: `${Math.max(7, Math.min(14, heightPx * 0.65))}px`,
+      lineHeight: 1.2,
+      boxSizing: 'border-box',
+      backgroundColor: 'rgba(255, 255, 255, 0.92)',
+      color: '#000',
+      border: invalid ? '2px solid var(--error)' : active ? '2px solid var(--config-active)' : '1px solid rgba(59, 130, 246, 0.6)',
+      borderRadius: '2px',
+    };
+  };
+
+  const canFill = fillable.length > 0;
+
+  return (
+    <div style={containerStyle}>
+      {/* LEFT: Page with editable fields */}
+      <div style={previewSectionStyle}>
+        <div style={{ marginBottom: '24px', textAlign: 'center' }}>
+          <div style={{ fontSize: '16px', fontWeight: '600', color: 'var(--text-primary)', marginBottom: '8px' }}>
+            Fill in the fields on the page
+          </div>
+          <div style={{ fontSize: '13px', color: 'var(--text-tertiary)' }}>
+            {file.name}
+          </div>
+        </div>
+
+        {renderError ? (
+          <div style={{ color: 'var(--error)', fontSize: '14px' }}>{renderError}</div>
+        ) : (
+          <div style={{ position: 'relative', lineHeight: 0, boxShadow: '0 2px 12px rgba(0, 0, 0, 0.12)' }}>
+            <canvas ref={canvasRef} style={{ display: 'block' }} />
+            {canvasSize && pageWidgets.map(({ field, widget }, index) => (
+              <FieldControl
+                key={`${field.name}-${index}`}
+                field={field}
+                value={values[field.name] ?? field.value}
+                option={widget.option}
+                onChange={(value) => updateValue(field.name, value)}
+                onFocus={() => setActiveField(field.name)}
+                style={overlayStyle(field, widget)}
+              />
+            ))}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginTop: '20px' }}>
+          <button style={navButtonStyle(currentPage > 1)} onClick={() => goToPage(currentPage - 1)} disabled={currentPage <= 1}>
+            ‹ Prev
+          </button>
+          <span style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>
+            Page {currentPage} of {pageCount}
+          </span>
+          <button style={navButtonStyle(currentPage < pageCount)} onClick={() => goToPage(currentPage + 1)} disabled={currentPage >= pageCount}>
+            Next ›
+          </button>
+        </div>
+      </div>
+
+      {/* RIGHT: Field list, data exchange and save */}
+      <div style={configSectionStyle}>
+        <h2 style={{ fontSize: '20px', fontWeight: '700', color: 'var(--text-primary)', marginBottom: '32px' }}>
+          Form fields
+        </h2>
+
+        <div style={sectionStyle}>
+          <label style={labelStyle}>
+            {fields === null ? 'Reading the form...' : `${fillable.length} field${fillable.length !== 1 ? 's' : ''}`}
+          </label>
+          {fields !== null && fields.length === 0 && (
+            <div style={{ fontSize: '13px', color: 'var(--text-tertiary)' }}>
+              This PDF has no fillable form fields.
+            </div>
+          )}
+          {fields !== null && fields.length > 0 && (
+            <div style={{ maxHeight: '420px', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '12px', paddingRight: '4px' }}>
+              {fields.filter(field => field.type !== 'button').map(field => (
+                <div key={field.name} onClick={() => showField(field)} style={{ cursor: 'pointer' }}>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', marginBottom: '4px', color: missing.includes(field.name) ? 'var(--error)' : 'var(--text-secondary)' }}>
+                    <span style={{ fontWeight: activeField === field.name ? 700 : 500, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                      {field.name}{field.required && ' *'}
+                    </span>
+                    <span style={{ color: 'var(--text-tertiary)', flexShrink: 0, marginLeft: '8px' }}>
+                      {field.readOnly ? 'Read-only' : FIELD_TYPE_LABELS[field.type]}
+                      {field.widgets.length > 0 && ` · p.${field.widgets[0].pageIndex + 1}`}
+                    </span>
+                  </div>
+                  <FieldControl
+                    field={field}
+                    value={values[field.name] ?? field.value}
+                    onChange={(value) => updateValue(field.name, value)}
+                    onFocus={() => showField(field)}
+                    style={field.type === 'checkbox'
+                      ? { width: '18px', height: '18px', cursor: 'pointer' }
+                      : { ...inputStyle, borderColor: missing.includes(field.name) ? 'var(--error)' : 'var(--config-border)' }}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+          {missing.length > 0 && (
+            <div style={{ marginTop: '12px', fontSize: '13px', color: 'var(--error)' }}>
+              {missing.length} required field{missing.length !== 1 ? 's are' : ' is'} empty.
+            </div>
+          )}
+        </div>
+
+        {canFill && (
+          <div style={sectionStyle}>
+            <label style={labelStyle}>Form data</label>
+            <input
+              type="file"
+              accept=".fdf,.xfdf,.json,application/json"
+              ref={importInputRef}
+              onChange={handleImport}
+              style={{ display: 'none' }}
+            />
+            <button style={{ ...smallButtonStyle, width: '100%', marginBottom: '8px' }} onClick={() => importInputRef.current?.click()}>
+              Import FDF, XFDF or JSON...
+            </button>
+            <div style={{ display: 'flex', gap: '8px' }}>
+              {EXPORT_FORMATS.map(format => (
+                <button key={format.value} style={smallButtonStyle} onClick={() => handleExport(format.value)}>
+                  Export {format.label}
+                </button>
+              ))}
+            </div>
+            {importMessage && (
+              <div style={{ marginTop: '8px', fontSize: '12px', color: 'var(--text-tertiary)' }}>
+                {importMessage}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div style={{ flex: 1 }} />
+
+        <button
+          onClick={handleFill}
+          disabled={!canFill}
+          style={{
+            width: '100%',
+            padding: '16px',
+            backgroundColor: 'var(--config-active)',
+            color: '#fff',
+            border: 'none',
+            borderRadius: '8px',
+            fontSize: '16px',
+            fontWeight: '600',
+            cursor: canFill ? 'pointer' : 'not-allowed',
+            opacity: canFill ? 1 : 0.5,
+            transition: 'background-color 0.2s',
+            marginTop: 'auto',
+          }}
+          onMouseEnter={(e) => {
+            if (canFill) e.currentTarget.style.backgroundColor = 'var(--accent-hover)';
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = 'var(--config-active)';
+          }}
+        >
+          Save Filled PDF
+        </button>
+        <button
+          onClick={onCancel}
+          style={{
+            width: '100%',
+            padding: '12px',
+            marginTop: '12px',
+            backgroundColor: 'transparent',
+            color: 'var(--text-secondary)',
+            border: '1px solid var(--config-border)',
+            borderRadius: '8px',
+            fontSize: '14px',
+            cursor: 'pointer',
+          }}
+        >
+          Back
+        </button>
+      </div>
+    </div>
+  );
+};
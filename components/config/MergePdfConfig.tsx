@@ -351,6 +351,43 @@ export const MergePdfConfig: React.FC<MergePdfConfigProps> = ({
           />
         </div>
 
+        {/* Bookmarks */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Bookmarks</label>
+          <div style={{
+            padding: '16px',
+            backgroundColor: 'var(--config-bg)',
+            borderRadius: '8px',
+          }}>
+            <label style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '10px',
+              cursor: 'pointer',
+            }}>
+              <input
+                type="checkbox"
+                checked={config.addFileBookmarks ?? false}
+                onChange={(e) => updateConfig({ addFileBookmarks: e.target.checked })}
+                style={{
+                  width: '18px',
+                  height: '18px',
+                  accentColor: 'var(--config-active)',
+                  cursor: 'pointer',
+                }}
+              />
+              <div>
+                <div style={{ fontSize: '14px', fontWeight: '600', color: 'var(--text-primary)' }}>
+                  Add a bookmark for each file
+                </div>
+                <div style={{ fontSize: '12px', color: 'var(--text-tertiary)' }}>
+                  Groups each file's own bookmarks under an entry named after the file
+                </div>
+              </div>
+            </label>
+          </div>
+        </div>
+
         {/* Info Box */}
         <div style={{
           padding: '16px',
@@ -364,7 +401,7 @@ export const MergePdfConfig: React.FC<MergePdfConfigProps> = ({
             color: 'var(--info)',
             lineHeight: '1.5',
           }}>
-            All pages from each PDF will be included in the order shown above. The merged PDF will maintain the original quality and formatting.
+            All pages from each PDF will be included in the order shown above. The merged PDF will maintain the original quality and formatting, and keeps each file's bookmarks and internal links.
           </div>
         </div>
 
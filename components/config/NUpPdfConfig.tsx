@@ -0,0 +1,455 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * N-up & Booklet Configuration Dashboard
+ * Schematic of the first sheet sides with page numbers, updated live
+ */
+
+import React, { useState, useEffect } from 'react';
+import { PDFDocument } from 'pdf-lib';
+import type { NUpPdfConfig, NUpOrder, NUpPagesPerSheet, Orientation, PageSize, PageSizeDimensions } from '../../types';
+import { configService } from '../../services/configService';
+import { getPageSizeDimensions } from '../../services/pdfService';
+import { cellOrder, planSheetLayout, planSheetSides } from '../../services/pdfImpositionService';
+
+interface NUpPdfConfigProps {
+  file: File;
+  pageCount: number;
+  onConfigChange: (config: NUpPdfConfig) => void;
+  onImpose: (config: NUpPdfConfig) => void;
+  onCancel: () => void;
+}
+
+const PAGES_PER_SHEET: NUpPagesPerSheet[] = [2, 4, 6, 9, 16];
+
+const ORDERS: { value: NUpOrder; label: string }[] = [
+  { value: 'across', label: 'Across, then down' },
+  { value: 'down', label: 'Down, then across' },
+  { value: 'across-rtl', label: 'Across from the right' },
+  { value: 'down-rtl', label: 'Down from the right' },
+];
+
+const SHEET_SIZES: PageSize[] = ['A4', 'Letter', 'Legal', 'A3', 'A5', 'Custom'];
+
+const ORIENTATIONS: { value: Orientation | 'auto'; label: string }[] = [
+  { value: 'auto', label: 'Auto' },
+  { value: 'portrait', label: 'Portrait' },
+  { value: 'landscape', label: 'Landscape' },
+];
+
+/** Longest side of the schematic sheet, in pixels */
+const PREVIEW_SIZE = 340;
+
+/** Sheet sides shown in the preview */
+const PREVIEW_SIDES = 2;
+
+export const NUpPdfConfig: React.FC<NUpPdfConfigProps> = ({
+  file,
+  pageCount,
+  onConfigChange,
+  onImpose,
+  onCancel,
+}) => {
+  const [config, setConfig] = useState<NUpPdfConfig>(() =>
+    configService.loadConfig<NUpPdfConfig>('nup-pdf')
+  );
+  const [pageSize, setPageSize] = useState<PageSizeDimensions>({ width: 595, height: 842 });
+
+  const updateConfig = (updates: Partial<NUpPdfConfig>) => {
+    const newConfig = { ...config, ...updates };
+    setConfig(newConfig);
+    onConfigChange(newConfig);
+    configService.saveConfig('nup-pdf', newConfig);
+  };
+
+  // The layout is chosen to suit the first page, as displayed
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const pdf = await PDFDocument.load(await file.arrayBuffer(), { ignoreEncryption: true, updateMetadata: false });
+        const page = pdf.getPage(0);
+        const { width, height } = page.getCropBox();
+        if (!cancelled) {
+          setPageSize(page.getRotation().angle % 180 === 0 ? { width, height } : { width: height, height: width });
+        }
+      } catch {
+        // Keep the A4 placeholder; imposing reports unreadable files
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [file]);
+
+  const booklet = config.mode === 'booklet';
+  let layout: ReturnType<typeof planSheetLayout> | null = null;
+  let layoutError = '';
+  try {
+    layout = planSheetLayout(
+      getPageSizeDimensions(config.sheetSize, config.customSheetSize),
+      booklet ? 2 : config.pagesPerSheet,
+      booklet ? 'landscape' : config.orientation,
+      config.margin,
+      config.gutter,
+      pageSize
+    );
+  } catch (err) {
+    layoutError = err instanceof Error ? err.message : 'Invalid layout';
+  }
+
+  const sides = planSheetSides(pageCount, config);
+  const cells = layout ? cellOrder(layout.columns, layout.rows, booklet ? 'across' : config.order) : [];
+  const previewScale = layout ? PREVIEW_SIZE / Math.max(layout.width, layout.height) : 0;
+
+  const containerStyle: React.CSSProperties = {
+    display: 'grid',
+    gridTemplateColumns: '60% 40%',
+    minHeight: '100vh',
+    backgroundColor: 'var(--config-bg)',
+  };
+
+  const previewSectionStyle: React.CSSProperties = {
+    backgroundColor: 'var(--config-surface)',
+    padding: '40px',
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    gap: '24px',
+  };
+
+  const configSectionStyle: React.CSSProperties = {
+    backgroundColor: 'var(--config-surface)',
+    padding: '40px 32px',
+    borderLeft: '1px solid var(--config-border)',
+    display: 'flex',
+    flexDirection: 'column',
+  };
+
+  const sectionStyle: React.CSSProperties = {
+    marginBottom: '28px',
+  };
+
+  const labelStyle: React.CSSProperties = {
+    fontSize: '14px',
+    fontWeight: '600',
+    color: 'var(--text-primary)',
+    marginBottom: '12px',
+    display: 'block',
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '10px 12px',
+    border: '1px solid var(--config-border)',
+    borderRadius: '6px',
+    fontSize: '14px',
+    color: 'var(--text-secondary)',
+    backgroundColor: 'var(--config-surface)',
+    outline: 'none',
+  };
+
+  const toggleButtonStyle = (isActive: boolean): React.CSSProperties => ({
+    flex: 1,
+    padding: '12px',
+    border: isActive ? '2px solid var(--config-active)' : '2px solid var(--config-border)',
+    borderRadius: '8px',
+    backgroundColor: isActive ? 'var(--config-active-bg)' : 'var(--config-surface)',
+    cursor: 'pointer',
+    transition: 'all 0.15s',
+    fontSize: '14px',
+    fontWeight: isActive ? '600' : '400',
+    color: isActive ? 'var(--config-active)' : 'var(--text-secondary)',
+    outline: 'none',
+  });
+
+  const checkboxStyle: React.CSSProperties = {
+    width: '18px',
+    height: '18px',
+    accentColor: 'var(--config-active)',
+    cursor: 'pointer',
+  };
+
+  const renderSheetSide = (side: Array<number | null>, index: number) => {
+    const sheet = layout;
+    if (!sheet) return null;
+    const shown = Math.min(sheet.cellWidth / pageSize.width, sheet.cellHeight / pageSize.height);
+    const caption = booklet
+      ? `Sheet ${Math.floor(index / 2) + 1}, ${index % 2 === 0 ? 'front' : 'back'}`
+      : `Page ${index + 1}`;
+
+    return (
+      <div key={index} style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '8px' }}>
+        <div
+          style={{
+            position: 'relative',
+            width: `${sheet.width * previewScale}px`,
+            height: `${sheet.height * previewScale}px`,
+            backgroundColor: '#fff',
+            boxShadow: '0 2px 8px rgba(0, 0, 0, 0.15)',
+          }}
+        >
+          {side.map((pageIdx, slot) => {
+            const [column, row] = cells[slot];
+            return (
+              <div
+                key={slot}
+                style={{
+                  position: 'absolute',
+                  left: `${(config.margin + column * (sheet.cellWidth + config.gutter)) * previewScale}px`,
+                  top: `${(config.margin + row * (sheet.cellHeight + config.gutter)) * previewScale}px`,
+                  width: `${sheet.cellWidth * previewScale}px`,
+                  height: `${sheet.cellHeight * previewScale}px`,
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                }}
+              >
+                <div
+                  style={{
+                    width: `${pageSize.width * shown * previewScale}px`,
+                    height: `${pageSize.height * shown * previewScale}px`,
+                    border: pageIdx === null ? '1px dashed var(--config-border)' : config.border ? '1px solid #000' : '1px solid var(--config-border)',
+                    backgroundColor: pageIdx === null ? 'transparent' : 'var(--config-bg)',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    fontSize: '14px',
+                    fontWeight: '600',
+                    color: pageIdx === null ? 'var(--text-tertiary)' : 'var(--text-secondary)',
+                  }}
+                >
+                  {pageIdx === null ? 'blank' : pageIdx + 1}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <span style={{ fontSize: '12px', color: 'var(--text-tertiary)' }}>{caption}</span>
+      </div>
+    );
+  };
+
+  const canApply = layout !== null;
+
+  return (
+    <div style={containerStyle}>
+      {/* LEFT: Preview Section */}
+      <div style={previewSectionStyle}>
+        <div style={{ fontSize: '14px', color: 'var(--text-secondary)' }}>
+          {pageCount} page{pageCount !== 1 ? 's' : ''} → {sides.length} page{sides.length !== 1 ? 's' : ''}
+          {booklet && ` (${sides.length / 2} sheet${sides.length !== 2 ? 's' : ''}, print double-sided and fold)`}
+        </div>
+        {layoutError ? (
+          <div style={{ fontSize: '14px', color: 'var(--text-tertiary)', padding: '40px 0' }}>{layoutError}</div>
+        ) : (
+          sides.slice(0, PREVIEW_SIDES).map(renderSheetSide)
+        )}
+      </div>
+
+      {/* RIGHT: Configuration Section */}
+      <div style={configSectionStyle}>
+        <h2 style={{ fontSize: '20px', fontWeight: '700', color: 'var(--text-primary)', marginBottom: '32px' }}>
+          Layout options
+        </h2>
+
+        {/* Mode */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Layout</label>
+          <div style={{ display: 'flex', gap: '12px' }}>
+            <button style={toggleButtonStyle(!booklet)} onClick={() => updateConfig({ mode: 'n-up' })}>
+              Pages per sheet
+            </button>
+            <button style={toggleButtonStyle(booklet)} onClick={() => updateConfig({ mode: 'booklet' })}>
+              Booklet
+            </button>
+          </div>
+        </div>
+
+        {booklet ? (
+          <div style={sectionStyle}>
+            <label style={labelStyle}>Binding</label>
+            <div style={{ display: 'flex', gap: '12px' }}>
+              <button style={toggleButtonStyle(config.bookletBinding === 'left')} onClick={() => updateConfig({ bookletBinding: 'left' })}>
+                Left
+              </button>
+              <button style={toggleButtonStyle(config.bookletBinding === 'right')} onClick={() => updateConfig({ bookletBinding: 'right' })}>
+                Right
+              </button>
+            </div>
+            <div style={{ fontSize: '12px', color: 'var(--text-tertiary)', marginTop: '8px' }}>
+              Pages are reordered for folding and padded with blank pages to a multiple of 4.
+            </div>
+          </div>
+        ) : (
+          <>
+            <div style={sectionStyle}>
+              <label style={labelStyle}>Pages per sheet</label>
+              <div style={{ display: 'flex', gap: '8px' }}>
+                {PAGES_PER_SHEET.map(count => (
+                  <button
+                    key={count}
+                    style={toggleButtonStyle(config.pagesPerSheet === count)}
+                    onClick={() => updateConfig({ pagesPerSheet: count })}
+                  >
+                    {count}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div style={sectionStyle}>
+              <label style={labelStyle}>Page order</label>
+              <select
+                value={config.order}
+                onChange={(e) => updateConfig({ order: e.target.value as NUpOrder })}
+                style={inputStyle}
+                aria-label="Page order"
+              >
+                {ORDERS.map(order => (
+                  <option key={order.value} value={order.value}>{order.label}</option>
+                ))}
+              </select>
+            </div>
+          </>
+        )}
+
+        {/* Sheet */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Sheet</label>
+          <select
+            value={config.sheetSize}
+            onChange={(e) => updateConfig({ sheetSize: e.target.value as PageSize })}
+            style={inputStyle}
+            aria-label="Sheet size"
+          >
+            {SHEET_SIZES.map(size => (
+              <option key={size} value={size}>{size}</option>
+            ))}
+          </select>
+          {config.sheetSize === 'Custom' && (
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px', marginTop: '8px' }}>
+              <input
+                type="number"
+                min="72"
+                max="14400"
+                value={config.customSheetSize?.width ?? 595}
+                onChange={(e) => updateConfig({ customSheetSize: { width: Math.max(72, parseInt(e.target.value) || 595), height: config.customSheetSize?.height ?? 842 } })}
+                style={inputStyle}
+                aria-label="Sheet width in points"
+              />
+              <input
+                type="number"
+                min="72"
+                max="14400"
+                value={config.customSheetSize?.height ?? 842}
+                onChange={(e) => updateConfig({ customSheetSize: { width: config.customSheetSize?.width ?? 595, height: Math.max(72, parseInt(e.target.value) || 842) } })}
+                style={inputStyle}
+                aria-label="Sheet height in points"
+              />
+            </div>
+          )}
+          {!booklet && (
+            <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+              {ORIENTATIONS.map(orientation => (
+                <button
+                  key={orientation.value}
+                  style={toggleButtonStyle(config.orientation === orientation.value)}
+                  onClick={() => updateConfig({ orientation: orientation.value })}
+                >
+                  {orientation.label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Spacing */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Spacing</label>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px' }}>
+            <div>
+              <div style={{ fontSize: '13px', color: 'var(--text-secondary)', marginBottom: '6px' }}>Margin (pt)</div>
+              <input
+                type="number"
+                min="0"
+                max="144"
+                value={config.margin}
+                onChange={(e) => updateConfig({ margin: Math.min(144, Math.max(0, parseInt(e.target.value) || 0)) })}
+                style={inputStyle}
+                aria-label="Margin in points"
+              />
+            </div>
+            <div>
+              <div style={{ fontSize: '13px', color: 'var(--text-secondary)', marginBottom: '6px' }}>
+                {booklet ? 'Spine gap (pt)' : 'Gutter (pt)'}
+              </div>
+              <input
+                type="number"
+                min="0"
+                max="144"
+                value={config.gutter}
+                onChange={(e) => updateConfig({ gutter: Math.min(144, Math.max(0, parseInt(e.target.value) || 0)) })}
+                style={inputStyle}
+                aria-label="Gutter in points"
+              />
+            </div>
+          </div>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '10px', cursor: 'pointer', marginTop: '16px', fontSize: '14px', color: 'var(--text-secondary)' }}>
+            <input
+              type="checkbox"
+              checked={config.border}
+              onChange={(e) => updateConfig({ border: e.target.checked })}
+              style={checkboxStyle}
+            />
+            Draw a border around each page
+          </label>
+        </div>
+
+        <div style={{ flex: 1 }} />
+
+        <button
+          onClick={() => onImpose(config)}
+          disabled={!canApply}
+          style={{
+            width: '100%',
+            padding: '16px',
+            backgroundColor: 'var(--config-active)',
+            color: '#fff',
+            border: 'none',
+            borderRadius: '8px',
+            fontSize: '16px',
+            fontWeight: '600',
+            cursor: canApply ? 'pointer' : 'not-allowed',
+            opacity: canApply ? 1 : 0.5,
+            transition: 'background-color 0.2s',
+            marginTop: 'auto',
+          }}
+          onMouseEnter={(e) => {
+            if (canApply) e.currentTarget.style.backgroundColor = 'var(--accent-hover)';
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = 'var(--config-active)';
+          }}
+        >
+          {booklet ? 'Create Booklet' : 'Impose PDF'}
+        </button>
+        <button
+          onClick={onCancel}
+          style={{
+            width: '100%',
+            padding: '12px',
+            marginTop: '12px',
+            backgroundColor: 'transparent',
+            color: 'var(--text-secondary)',
+            border: '1px solid var(--config-border)',
+            borderRadius: '8px',
+            fontSize: '14px',
+            cursor: 'pointer',
+          }}
+        >
+          Back
+        </button>
+      </div>
+    </div>
+  );
+};
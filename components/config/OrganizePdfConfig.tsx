@@ -0,0 +1,529 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Organize PDF Dashboard
+ * Thumbnail grid for reordering, deleting, duplicating, rotating and inserting pages, with undo/redo
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import type { OrganizePdfConfig, OrganizerPage, BlankPageOptions, BlankPageSize, Orientation } from '../../types';
+import { configService } from '../../services/configService';
+import { getPDFInfo } from '../../services/pdfService';
+import { parsePageRange } from '../../utils/pageRange';
+import { DragDropReorder } from './DragDropReorder';
+import { PagePreview } from './PagePreview';
+
+export interface OrganizerDraft {
+  sources: File[];
+  pages: OrganizerPage[];
+}
+
+interface OrganizePdfConfigProps {
+  file: File;
+  pageCount: number;
+  draft?: OrganizerDraft; // Edits to resume, e.g. after a cancelled save
+  onOrganize: (sources: File[], pages: OrganizerPage[]) => void;
+  onCancel: () => void;
+}
+
+const BLANK_SIZES: { value: BlankPageSize; label: string }[] = [
+  { value: 'match', label: 'Same as neighbouring page' },
+  { value: 'A4', label: 'A4' },
+  { value: 'Letter', label: 'Letter' },
+  { value: 'Legal', label: 'Legal' },
+  { value: 'A3', label: 'A3' },
+  { value: 'A5', label: 'A5' },
+];
+
+/** Undo steps kept in memory */
+const MAX_HISTORY = 100;
+
+let pageIdCounter = 0;
+const newPageId = () => `page-${pageIdCounter++}`;
+
+const THUMB_WIDTH = 110;
+const THUMB_HEIGHT = 150;
+
+export const OrganizePdfConfig: React.FC<OrganizePdfConfigProps> = ({
+  file,
+  pageCount,
+  draft,
+  onOrganize,
+  onCancel,
+}) => {
+  const [config, setConfig] = useState<OrganizePdfConfig>(() =>
+    configService.loadConfig<OrganizePdfConfig>('organize-pdf')
+  );
+  const [sources, setSources] = useState<File[]>(() => draft?.sources ?? [file]);
+  const [pages, setPages] = useState<OrganizerPage[]>(() =>
+    draft?.pages ?? Array.from({ length: pageCount }, (_, pageIndex) => ({ id: newPageId(), source: 0, pageIndex, rotation: 0 }))
+  );
+  const [past, setPast] = useState<OrganizerPage[][]>([]);
+  const [future, setFuture] = useState<OrganizerPage[][]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const [insertFile, setInsertFile] = useState<{ file: File; pageCount: number } | null>(null);
+  const [insertRange, setInsertRange] = useState<string>('');
+  const [insertError, setInsertError] = useState<string>('');
+  const insertInputRef = useRef<HTMLInputElement>(null);
+
+  const updateBlankPage = (updates: Partial<BlankPageOptions>) => {
+    const newConfig = { ...config, blankPage: { ...config.blankPage, ...updates } };
+    setConfig(newConfig);
+    configService.saveConfig('organize-pdf', newConfig);
+  };
+
+  /** Replace the page list, recording the previous one for undo */
+  const commit = (next: OrganizerPage[]) => {
+    setPast(prev => [...prev, pages].slice(-MAX_HISTORY));
+    setFuture([]);
+    setPages(next);
+    setSelected(prev => new Set(next.filter(page => prev.has(page.id)).map(page => page.id)));
+  };
+
+  const undo = () => {
+    if (past.length === 0) return;
+    setFuture(prev => [pages, ...prev]);
+    setPages(past[past.length - 1]);
+    setPast(prev => prev.slice(0, -1));
+  };
+
+  const redo = () => {
+    if (future.length === 0) return;
+    setPast(prev => [...prev, pages]);
+    setPages(future[0]);
+    setFuture(prev => prev.slice(1));
+  };
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y), except while typing in a field
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA') return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  /** Pages are inserted after the last selected page, or at the end */
+  const insertPosition = (): number => {
+    const lastSelected = pages.reduce((last, page, index) => (selected.has(page.id) ? index : last), -1);
+    return lastSelected === -1 ? pages.length : lastSelected + 1;
+  };
+
+  const handleReorder = (newOrder: string[]) => {
+    const byId = new Map<string, OrganizerPage>(pages.map(page => [page.id, page]));
+    commit(newOrder.map(id => byId.get(id)!));
+  };
+
+  const rotateSelected = (delta: number) => {
+    commit(pages.map(page => (selected.has(page.id) ? { ...page, rotation: (page.rotation + delta + 360) % 360 } : page)));
+  };
+
+  const duplicateSelected = () => {
+    commit(pages.flatMap(page => (selected.has(page.id) ? [page, { ...page, id: newPageId() }] : [page])));
+  };
+
+  const deleteSelected = () => {
+    commit(pages.filter(page => !selected.has(page.id)));
+  };
+
+  const insertBlankPage = () => {
+    const position = insertPosition();
+    const blankPage: OrganizerPage = { id: newPageId(), pageIndex: 0, rotation: 0, blank: { ...config.blankPage } };
+    commit([...pages.slice(0, position), blankPage, ...pages.slice(position)]);
+  };
+
+  const handleInsertFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0];
+    if (insertInputRef.current) insertInputRef.current.value = '';
+    if (!selectedFile) return;
+
+    if (selectedFile.type !== 'application/pdf' && !selectedFile.name.toLowerCase().endsWith('.pdf')) {
+      setInsertError('Please choose a PDF file.');
+      return;
+    }
+    try {
+      const info = await getPDFInfo(selectedFile);
+      setInsertFile({ file: selectedFile, pageCount: info.pageCount });
+      setInsertRange('');
+      setInsertError('');
+    } catch {
+      setInsertError('Failed to read that PDF. It may be corrupted or password-protected.');
+    }
+  };
+
+  const insertFromFile = () => {
+    if (!insertFile) return;
+
+    let pageIndices: number[];
+    try {
+      pageIndices = insertRange.trim()
+        ? parsePageRange(insertRange, insertFile.pageCount)
+        : Array.from({ length: insertFile.pageCount }, (_, i) => i);
+    } catch (err) {
+      setInsertError(err instanceof Error ? err.message : 'Invalid page range');
+      return;
+    }
+
+    const source = sources.length;
+    setSources(prev => [...prev, insertFile.file]);
+
+    const position = insertPosition();
+    const inserted = pageIndices.map(pageIndex => ({ id: newPageId(), source, pageIndex, rotation: 0 }));
+    commit([...pages.slice(0, position), ...inserted, ...pages.slice(position)]);
+    setInsertFile(null);
+    setInsertRange('');
+    setInsertError('');
+  };
+
+  const hasSelection = selected.size > 0;
+  const canSave = pages.length > 0;
+
+  const containerStyle: React.CSSProperties = {
+    display: 'grid',
+    gridTemplateColumns: '60% 40%',
+    minHeight: '100vh',
+    backgroundColor: 'var(--config-bg)',
+  };
+
+  const previewSectionStyle: React.CSSProperties = {
+    backgroundColor: 'var(--config-surface)',
+    padding: '40px 24px',
+    overflowY: 'auto',
+  };
+
+  const configSectionStyle: React.CSSProperties = {
+    backgroundColor: 'var(--config-surface)',
+    padding: '40px 32px',
+    borderLeft: '1px solid var(--config-border)',
+    display: 'flex',
+    flexDirection: 'column',
+  };
+
+  const sectionStyle: React.CSSProperties = {
+    marginBottom: '28px',
+  };
+
+  const labelStyle: React.CSSProperties = {
+    fontSize: '14px',
+    fontWeight: '600',
+    color: 'var(--text-primary)',
+    marginBottom: '12px',
+    display: 'block',
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '10px 12px',
+    border: '1px solid var(--config-border)',
+    borderRadius: '6px',
+    fontSize: '14px',
+    color: 'var(--text-secondary)',
+    backgroundColor: 'var(--config-surface)',
+    outline: 'none',
+  };
+
+  const actionButtonStyle = (enabled: boolean): React.CSSProperties => ({
+    flex: 1,
+    padding: '10px 12px',
+    border: '2px solid var(--config-border)',
+    borderRadius: '8px',
+    backgroundColor: 'var(--config-surface)',
+    cursor: enabled ? 'pointer' : 'not-allowed',
+    opacity: enabled ? 1 : 0.5,
+    fontSize: '13px',
+    color: 'var(--text-secondary)',
+    outline: 'none',
+  });
+
+  const renderPage = (page: OrganizerPage, index: number) => {
+    const isSelected = selected.has(page.id);
+    const quarterTurn = page.rotation % 180 !== 0;
+    const sourceFile = page.source !== undefined ? sources[page.source] : undefined;
+
+    return (
+      <div
+        onClick={() => toggleSelected(page.id)}
+        style={{
+          padding: '36px 8px 8px',
+          textAlign: 'center',
+          borderRadius: '6px',
+          outline: isSelected ? '3px solid var(--config-active)' : 'none',
+          backgroundColor: isSelected ? 'var(--config-active-bg)' : 'transparent',
+          cursor: 'pointer',
+        }}
+        role="checkbox"
+        aria-checked={isSelected}
+        aria-label={`Page ${index + 1}`}
+      >
+        <div style={{
+          height: `${THUMB_HEIGHT}px`,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          overflow: 'hidden',
+        }}>
+          <div style={{
+            transform: `rotate(${page.rotation}deg) scale(${quarterTurn ? THUMB_WIDTH / THUMB_HEIGHT : 1})`,
+            transition: 'transform 0.2s ease',
+          }}>
+            {sourceFile ? (
+              <PagePreview
+                file={sourceFile}
+                pageNumber={page.pageIndex + 1}
+                width={THUMB_WIDTH}
+                height={THUMB_HEIGHT}
+                showFileName={false}
+              />
+            ) : (
+              <div style={{
+                width: `${THUMB_WIDTH}px`,
+                height: `${THUMB_HEIGHT}px`,
+                border: '1px dashed var(--config-border)',
+                borderRadius: '8px',
+                backgroundColor: '#fff',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                fontSize: '12px',
+                color: 'var(--text-tertiary)',
+              }}>
+                Blank
+              </div>
+            )}
+          </div>
+        </div>
+        <div style={{
+          marginTop: '8px',
+          fontSize: '12px',
+          color: 'var(--text-secondary)',
+          overflow: 'hidden',
+          textOverflow: 'ellipsis',
+          whiteSpace: 'nowrap',
+        }}>
+          {index + 1}
+          {page.source !== undefined && page.source > 0 && ` · ${sourceFile?.name}`}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div style={containerStyle}>
+      {/* LEFT: Pages */}
+      <div style={previewSectionStyle}>
+        <div style={{ marginBottom: '8px', textAlign: 'center' }}>
+          <div style={{ fontSize: '16px', fontWeight: '600', color: 'var(--text-primary)', marginBottom: '8px' }}>
+            {file.name}
+          </div>
+          <div style={{ fontSize: '13px', color: 'var(--text-tertiary)' }}>
+            {pages.length} page{pages.length !== 1 ? 's' : ''} · Click pages to select them, drag to reorder
+          </div>
+        </div>
+
+        {pages.length > 0 ? (
+          <DragDropReorder
+            items={pages.map(page => ({ id: page.id, name: page.id }))}
+            onReorder={handleReorder}
+            renderItem={(item, index) => renderPage(pages.find(page => page.id === item.id)!, index)}
+          />
+        ) : (
+          <div style={{ padding: '48px', textAlign: 'center', color: 'var(--text-tertiary)', fontSize: '14px' }}>
+            Every page has been removed. Undo or insert pages to continue.
+          </div>
+        )}
+      </div>
+
+      {/* RIGHT: Actions */}
+      <div style={configSectionStyle}>
+        <h2 style={{ fontSize: '20px', fontWeight: '700', color: 'var(--text-primary)', marginBottom: '32px' }}>
+          Organize pages
+        </h2>
+
+        {/* History */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>History</label>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <button style={actionButtonStyle(past.length > 0)} onClick={undo} disabled={past.length === 0} title="Ctrl+Z">
+              ↶ Undo
+            </button>
+            <button style={actionButtonStyle(future.length > 0)} onClick={redo} disabled={future.length === 0} title="Ctrl+Shift+Z">
+              ↷ Redo
+            </button>
+          </div>
+        </div>
+
+        {/* Selected pages */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>
+            Selected pages {hasSelection && `(${selected.size})`}
+          </label>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px', marginBottom: '8px' }}>
+            <button style={actionButtonStyle(hasSelection)} onClick={() => rotateSelected(-90)} disabled={!hasSelection}>
+              ⟲ Rotate left
+            </button>
+            <button style={actionButtonStyle(hasSelection)} onClick={() => rotateSelected(90)} disabled={!hasSelection}>
+              ⟳ Rotate right
+            </button>
+            <button style={actionButtonStyle(hasSelection)} onClick={duplicateSelected} disabled={!hasSelection}>
+              Duplicate
+            </button>
+            <button
+              style={{ ...actionButtonStyle(hasSelection), color: hasSelection ? 'var(--error)' : 'var(--text-secondary)' }}
+              onClick={deleteSelected}
+              disabled={!hasSelection}
+            >
+              Delete
+            </button>
+          </div>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <button style={actionButtonStyle(pages.length > 0)} onClick={() => setSelected(new Set(pages.map(page => page.id)))}>
+              Select all
+            </button>
+            <button style={actionButtonStyle(hasSelection)} onClick={() => setSelected(new Set())} disabled={!hasSelection}>
+              Clear selection
+            </button>
+          </div>
+        </div>
+
+        {/* Blank page */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Insert blank page</label>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 130px', gap: '8px', marginBottom: '8px' }}>
+            <select
+              value={config.blankPage.size}
+              onChange={(e) => updateBlankPage({ size: e.target.value as BlankPageSize })}
+              style={inputStyle}
+              aria-label="Blank page size"
+            >
+              {BLANK_SIZES.map(size => (
+                <option key={size.value} value={size.value}>{size.label}</option>
+              ))}
+            </select>
+            <select
+              value={config.blankPage.orientation}
+              onChange={(e) => updateBlankPage({ orientation: e.target.value as Orientation })}
+              disabled={config.blankPage.size === 'match'}
+              style={inputStyle}
+              aria-label="Blank page orientation"
+            >
+              <option value="portrait">Portrait</option>
+              <option value="landscape">Landscape</option>
+            </select>
+          </div>
+          <button style={{ ...actionButtonStyle(true), width: '100%' }} onClick={insertBlankPage}>
+            + Insert {hasSelection ? 'after selection' : 'at end'}
+          </button>
+        </div>
+
+        {/* Pages from another PDF */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Insert pages from another PDF</label>
+          <input
+            type="file"
+            accept=".pdf,application/pdf"
+            ref={insertInputRef}
+            onChange={handleInsertFileSelect}
+            style={{ display: 'none' }}
+          />
+          {insertFile ? (
+            <div style={{ padding: '16px', backgroundColor: 'var(--config-bg)', borderRadius: '8px' }}>
+              <div style={{ fontSize: '13px', fontWeight: '600', color: 'var(--text-primary)', marginBottom: '8px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {insertFile.file.name} ({insertFile.pageCount} page{insertFile.pageCount !== 1 ? 's' : ''})
+              </div>
+              <input
+                type="text"
+                value={insertRange}
+                placeholder="All pages, or e.g. 1-3, 5"
+                onChange={(e) => setInsertRange(e.target.value)}
+                style={{ ...inputStyle, marginBottom: '8px' }}
+                aria-label="Pages to insert"
+              />
+              <div style={{ display: 'flex', gap: '8px' }}>
+                <button style={actionButtonStyle(true)} onClick={insertFromFile}>
+                  Insert {hasSelection ? 'after selection' : 'at end'}
+                </button>
+                <button style={actionButtonStyle(true)} onClick={() => { setInsertFile(null); setInsertError(''); }}>
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button style={{ ...actionButtonStyle(true), width: '100%' }} onClick={() => insertInputRef.current?.click()}>
+              Choose PDF...
+            </button>
+          )}
+          {insertError && (
+            <div style={{ fontSize: '12px', color: 'var(--error)', marginTop: '8px' }}>{insertError}</div>
+          )}
+        </div>
+
+        <div style={{ flex: 1 }} />
+
+        <button
+          onClick={() => onOrganize(sources, pages)}
+          disabled={!canSave}
+          style={{
+            width: '100%',
+            padding: '16px',
+            backgroundColor: 'var(--config-active)',
+            color: '#fff',
+            border: 'none',
+            borderRadius: '8px',
+            fontSize: '16px',
+            fontWeight: '600',
+            cursor: canSave ? 'pointer' : 'not-allowed',
+            opacity: canSave ? 1 : 0.5,
+            transition: 'background-color 0.2s',
+            marginTop: 'auto',
+          }}
+          onMouseEnter={(e) => {
+            if (canSave) e.currentTarget.style.backgroundColor = 'var(--accent-hover)';
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = 'var(--config-active)';
+          }}
+        >
+          Save PDF
+        </button>
+        <button
+          onClick={onCancel}
+          style={{
+            width: '100%',
+            padding: '12px',
+            marginTop: '12px',
+            backgroundColor: 'transparent',
+            color: 'var(--text-secondary)',
+            border: '1px solid var(--config-border)',
+            borderRadius: '8px',
+            fontSize: '14px',
+            cursor: 'pointer',
+          }}
+        >
+          Back
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,466 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Page Numbers PDF Configuration Dashboard
+ * Header/footer slot templates, Bates numbering and live preview
+ */
+
+import React, { useState } from 'react';
+import type { PageNumbersPdfConfig, HeaderFooterSlots, BatesNumbering, StandardFontName } from '../../types';
+import { configService } from '../../services/configService';
+import { PAGE_TOKENS, formatBatesNumber, resolvePageTokens, usesBatesNumbers } from '../../services/pdfPageNumberService';
+import { PagePreview } from './PagePreview';
+
+interface PageNumbersPdfConfigProps {
+  files: File[];
+  onConfigChange: (config: PageNumbersPdfConfig) => void;
+  onApply: (config: PageNumbersPdfConfig) => void;
+  onCancel: () => void;
+}
+
+type Row = 'header' | 'footer';
+type Align = keyof HeaderFooterSlots;
+
+const ALIGNS: { value: Align; label: string }[] = [
+  { value: 'left', label: 'Left' },
+  { value: 'center', label: 'Center' },
+  { value: 'right', label: 'Right' },
+];
+
+const FONTS: { value: StandardFontName; label: string; css: string }[] = [
+  { value: 'Helvetica', label: 'Helvetica', css: 'Helvetica, Arial, sans-serif' },
+  { value: 'Helvetica-Bold', label: 'Helvetica Bold', css: 'Helvetica, Arial, sans-serif' },
+  { value: 'Times-Roman', label: 'Times', css: '"Times New Roman", Times, serif' },
+  { value: 'Times-Bold', label: 'Times Bold', css: '"Times New Roman", Times, serif' },
+  { value: 'Courier', label: 'Courier', css: '"Courier New", Courier, monospace' },
+  { value: 'Courier-Bold', label: 'Courier Bold', css: '"Courier New", Courier, monospace' },
+];
+
+const PRESETS: { label: string; footer: HeaderFooterSlots }[] = [
+  { label: 'Page X of Y', footer: { left: '', center: 'Page {page} of {total}', right: '' } },
+  { label: 'Page number', footer: { left: '', center: '{page}', right: '' } },
+  { label: 'Bates number', footer: { left: '', center: '', right: '{bates}' } },
+];
+
+const PREVIEW_WIDTH = 400;
+const PREVIEW_HEIGHT = 500;
+const A4_WIDTH_PT = 595;
+
+export const PageNumbersPdfConfig: React.FC<PageNumbersPdfConfigProps> = ({
+  files,
+  onConfigChange,
+  onApply,
+  onCancel,
+}) => {
+  const [config, setConfig] = useState<PageNumbersPdfConfig>(() =>
+    configService.loadConfig<PageNumbersPdfConfig>('page-numbers-pdf')
+  );
+  const [activeSlot, setActiveSlot] = useState<{ row: Row; align: Align }>({ row: 'footer', align: 'center' });
+
+  const updateConfig = (updates: Partial<PageNumbersPdfConfig>) => {
+    const newConfig = { ...config, ...updates };
+    setConfig(newConfig);
+    onConfigChange(newConfig);
+    configService.saveConfig('page-numbers-pdf', newConfig);
+  };
+
+  const updateSlot = (row: Row, align: Align, value: string) => {
+    updateConfig({ [row]: { ...config[row], [align]: value } });
+  };
+
+  const updateBates = (updates: Partial<BatesNumbering>) => {
+    updateConfig({ bates: { ...config.bates, ...updates } });
+  };
+
+  const insertToken = (token: string) => {
+    const { row, align } = activeSlot;
+    updateSlot(row, align, config[row][align] + token);
+  };
+
+  const hasText = [config.header, config.footer].some(slots => ALIGNS.some(({ value }) => slots[value].trim()));
+  const withBates = usesBatesNumbers(config);
+  const previewFont = FONTS.find(f => f.value === config.font) ?? FONTS[0];
+  const previewScale = PREVIEW_WIDTH / A4_WIDTH_PT;
+
+  const sampleValues = {
+    page: 1,
+    total: '?',
+    filename: files[0]?.name.replace(/\.pdf$/i, '') ?? 'document',
+    date: new Date().toLocaleDateString(),
+    bates: formatBatesNumber(config.bates.startNumber, config.bates),
+  };
+
+  const containerStyle: React.CSSProperties = {
+    display: 'grid',
+    gridTemplateColumns: '60% 40%',
+    minHeight: '100vh',
+    backgroundColor: 'var(--config-bg)',
+  };
+
+  const previewSectionStyle: React.CSSProperties = {
+    backgroundColor: 'var(--config-surface)',
+    padding: '40px',
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+  };
+
+  const configSectionStyle: React.CSSProperties = {
+    backgroundColor: 'var(--config-surface)',
+    padding: '40px 32px',
+    borderLeft: '1px solid var(--config-border)',
+    display: 'flex',
+    flexDirection: 'column',
+  };
+
+  const sectionStyle: React.CSSProperties = {
+    marginBottom: '28px',
+  };
+
+  const labelStyle: React.CSSProperties = {
+    fontSize: '14px',
+    fontWeight: '600',
+    color: 'var(--text-primary)',
+    marginBottom: '12px',
+    display: 'block',
+  };
+
+  const smallLabelStyle: React.CSSProperties = {
+    fontSize: '12px',
+    color: 'var(--text-tertiary)',
+    marginBottom: '4px',
+    display: 'block',
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '10px 12px',
+    border: '1px solid var(--config-border)',
+    borderRadius: '6px',
+    fontSize: '14px',
+    color: 'var(--text-secondary)',
+    backgroundColor: 'var(--config-surface)',
+    outline: 'none',
+  };
+
+  const chipStyle: React.CSSProperties = {
+    padding: '4px 10px',
+    border: '1px solid var(--config-border)',
+    borderRadius: '999px',
+    backgroundColor: 'var(--config-surface)',
+    fontSize: '12px',
+    fontFamily: 'monospace',
+    color: 'var(--text-secondary)',
+    cursor: 'pointer',
+  };
+
+  const renderSlots = (row: Row) => (
+    <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '8px' }}>
+      {ALIGNS.map(({ value, label }) => (
+        <div key={value}>
+          <span style={smallLabelStyle}>{label}</span>
+          <input
+            type="text"
+            value={config[row][value]}
+            onChange={(e) => updateSlot(row, value, e.target.value)}
+            onFocus={() => setActiveSlot({ row, align: value })}
+            maxLength={200}
+            style={{
+              ...inputStyle,
+              borderColor: activeSlot.row === row && activeSlot.align === value ? 'var(--config-active)' : 'var(--config-border)',
+            }}
+            aria-label={`${row} ${label.toLowerCase()}`}
+          />
+        </div>
+      ))}
+    </div>
+  );
+
+  // Approximate on-screen header/footer, assuming an A4-width page
+  const renderPreviewRow = (row: Row) => (
+    <div style={{
+      position: 'absolute',
+      left: `${config.marginX * previewScale}px`,
+      right: `${config.marginX * previewScale}px`,
+      [row === 'header' ? 'top' : 'bottom']: `${config.marginY * previewScale}px`,
+      display: 'grid',
+      gridTemplateColumns: '1fr auto 1fr',
+      fontFamily: previewFont.css,
+      fontWeight: config.font.endsWith('Bold') ? 700 : 400,
+      fontSize: `${Math.max(6, config.fontSize * previewScale)}px`,
+      color: config.color,
+      whiteSpace: 'nowrap',
+      pointerEvents: 'none',
+    }}>
+      <span style={{ textAlign: 'left' }}>{resolvePageTokens(config[row].left, sampleValues)}</span>
+      <span style={{ textAlign: 'center' }}>{resolvePageTokens(config[row].center, sampleValues)}</span>
+      <span style={{ textAlign: 'right' }}>{resolvePageTokens(config[row].right, sampleValues)}</span>
+    </div>
+  );
+
+  return (
+    <div style={containerStyle}>
+      {/* LEFT: Preview Section */}
+      <div style={previewSectionStyle}>
+        <div style={{ maxWidth: '450px', width: '100%' }}>
+          <div style={{ marginBottom: '24px', textAlign: 'center' }}>
+            <div style={{ fontSize: '16px', fontWeight: '600', color: 'var(--text-primary)', marginBottom: '8px' }}>
+              Preview
+            </div>
+            <div style={{ fontSize: '13px', color: 'var(--text-tertiary)' }}>
+              {config.skipFirstPages > 0
+                ? `First numbered page (page ${config.skipFirstPages + 1})`
+                : 'First page'}
+            </div>
+          </div>
+
+          <div style={{
+            padding: '24px',
+            backgroundColor: 'var(--config-bg)',
+            borderRadius: '8px',
+            display: 'flex',
+            justifyContent: 'center',
+          }}>
+            <div style={{ position: 'relative', width: `${PREVIEW_WIDTH}px`, height: `${PREVIEW_HEIGHT}px`, overflow: 'hidden' }}>
+              {files[0] && (
+                <PagePreview
+                  file={files[0]}
+                  pageNumber={config.skipFirstPages + 1}
+                  width={PREVIEW_WIDTH}
+                  height={PREVIEW_HEIGHT}
+                  showFileName={false}
+                />
+              )}
+              {renderPreviewRow('header')}
+              {renderPreviewRow('footer')}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* RIGHT: Configuration Section */}
+      <div style={configSectionStyle}>
+        <h2 style={{ fontSize: '20px', fontWeight: '700', color: 'var(--text-primary)', marginBottom: '32px' }}>
+          Page number options
+        </h2>
+
+        {/* Presets */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Quick start</label>
+          <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+            {PRESETS.map(preset => (
+              <button
+                key={preset.label}
+                onClick={() => updateConfig({ footer: { ...preset.footer } })}
+                style={{ ...chipStyle, fontFamily: 'inherit', fontSize: '13px', padding: '6px 12px' }}
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Header & footer */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Header</label>
+          {renderSlots('header')}
+        </div>
+
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Footer</label>
+          {renderSlots('footer')}
+
+          <div style={{ marginTop: '12px', padding: '12px', backgroundColor: 'var(--config-bg)', borderRadius: '8px' }}>
+            <div style={{ fontSize: '12px', color: 'var(--text-tertiary)', marginBottom: '8px' }}>
+              Insert into the {activeSlot.row} {activeSlot.align} field:
+            </div>
+            <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap' }}>
+              {PAGE_TOKENS.map(token => (
+                <button key={token} onClick={() => insertToken(token)} style={chipStyle}>
+                  {token}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Text */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Text</label>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 90px 56px', gap: '8px' }}>
+            <select
+              value={config.font}
+              onChange={(e) => updateConfig({ font: e.target.value as StandardFontName })}
+              style={inputStyle}
+              aria-label="Font"
+            >
+              {FONTS.map(font => (
+                <option key={font.value} value={font.value}>{font.label}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min="4"
+              max="72"
+              value={config.fontSize}
+              onChange={(e) => updateConfig({ fontSize: Math.min(72, Math.max(4, parseInt(e.target.value) || 10)) })}
+              style={inputStyle}
+              aria-label="Font size in points"
+            />
+            <input
+              type="color"
+              value={config.color}
+              onChange={(e) => updateConfig({ color: e.target.value })}
+              style={{ ...inputStyle, padding: '2px', height: '40px', cursor: 'pointer' }}
+              aria-label="Text colour"
+            />
+          </div>
+        </div>
+
+        {/* Margins & pages */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Position</label>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '8px' }}>
+            <div>
+              <span style={smallLabelStyle}>Side margin (pt)</span>
+              <input
+                type="number"
+                min="0"
+                max="300"
+                value={config.marginX}
+                onChange={(e) => updateConfig({ marginX: Math.min(300, Math.max(0, parseInt(e.target.value) || 0)) })}
+                style={inputStyle}
+              />
+            </div>
+            <div>
+              <span style={smallLabelStyle}>Edge margin (pt)</span>
+              <input
+                type="number"
+                min="0"
+                max="300"
+                value={config.marginY}
+                onChange={(e) => updateConfig({ marginY: Math.min(300, Math.max(0, parseInt(e.target.value) || 0)) })}
+                style={inputStyle}
+              />
+            </div>
+            <div>
+              <span style={smallLabelStyle}>Skip first pages</span>
+              <input
+                type="number"
+                min="0"
+                value={config.skipFirstPages}
+                onChange={(e) => updateConfig({ skipFirstPages: Math.max(0, parseInt(e.target.value) || 0) })}
+                style={inputStyle}
+              />
+            </div>
+          </div>
+          <div style={{ fontSize: '12px', color: 'var(--text-tertiary)', marginTop: '8px' }}>
+            Skipped pages get no header or footer and are not counted in {'{page}'} or {'{total}'}.
+          </div>
+        </div>
+
+        {/* Bates */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Bates numbering</label>
+          <div style={{ padding: '16px', backgroundColor: 'var(--config-bg)', borderRadius: '8px' }}>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px', marginBottom: '8px' }}>
+              <div>
+                <span style={smallLabelStyle}>Prefix</span>
+                <input
+                  type="text"
+                  value={config.bates.prefix}
+                  placeholder="e.g., ACME"
+                  maxLength={40}
+                  onChange={(e) => updateBates({ prefix: e.target.value })}
+                  style={inputStyle}
+                />
+              </div>
+              <div>
+                <span style={smallLabelStyle}>Suffix</span>
+                <input
+                  type="text"
+                  value={config.bates.suffix}
+                  maxLength={40}
+                  onChange={(e) => updateBates({ suffix: e.target.value })}
+                  style={inputStyle}
+                />
+              </div>
+              <div>
+                <span style={smallLabelStyle}>Start number</span>
+                <input
+                  type="number"
+                  min="0"
+                  value={config.bates.startNumber}
+                  onChange={(e) => updateBates({ startNumber: Math.max(0, parseInt(e.target.value) || 0) })}
+                  style={inputStyle}
+                />
+              </div>
+              <div>
+                <span style={smallLabelStyle}>Digits</span>
+                <input
+                  type="number"
+                  min="1"
+                  max="12"
+                  value={config.bates.digits}
+                  onChange={(e) => updateBates({ digits: Math.min(12, Math.max(1, parseInt(e.target.value) || 6)) })}
+                  style={inputStyle}
+                />
+              </div>
+            </div>
+            <div style={{ fontSize: '12px', color: 'var(--text-tertiary)' }}>
+              {withBates
+                ? <>First number: <strong style={{ fontFamily: 'monospace' }}>{sampleValues.bates}</strong>. Numbers continue across files in the order listed, and a CSV log of each file's range is included.</>
+                : <>Add {'{bates}'} to a header or footer field to stamp Bates numbers.</>}
+            </div>
+          </div>
+        </div>
+
+        <div style={{ flex: 1 }} />
+
+        <button
+          onClick={() => onApply(config)}
+          disabled={!hasText}
+          style={{
+            width: '100%',
+            padding: '16px',
+            backgroundColor: 'var(--config-active)',
+            color: '#fff',
+            border: 'none',
+            borderRadius: '8px',
+            fontSize: '16px',
+            fontWeight: '600',
+            cursor: hasText ? 'pointer' : 'not-allowed',
+            opacity: hasText ? 1 : 0.5,
+            transition: 'background-color 0.2s',
+            marginTop: 'auto',
+          }}
+          onMouseEnter={(e) => {
+            if (hasText) e.currentTarget.style.backgroundColor = 'var(--accent-hover)';
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = 'var(--config-active)';
+          }}
+        >
+          Add page numbers{files.length > 1 ? ` to ${files.length} PDFs` : ''}
+        </button>
+        <button
+          onClick={onCancel}
+          style={{
+            width: '100%',
+            padding: '12px',
+            marginTop: '12px',
+            backgroundColor: 'transparent',
+            color: 'var(--text-secondary)',
+            border: '1px solid var(--config-border)',
+            borderRadius: '8px',
+            fontSize: '14px',
+            cursor: 'pointer',
+          }}
+        >
+          Back
+        </button>
+      </div>
+    </div>
+  );
+};
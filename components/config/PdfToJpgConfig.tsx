@@ -56,6 +56,16 @@ export const PdfToJpgConfig: React.FC<PdfToJpgConfigProps> = ({
     { value: 'blackwhite', label: 'Black & White' },
   ];
 
+  const minImageSizes: { value: number; label: string }[] = [
+    { value: 0, label: 'All' },
+    { value: 32, label: '32 px' },
+    { value: 100, label: '100 px' },
+    { value: 300, label: '300 px' },
+  ];
+
+  const extract = config.mode === 'extract';
+  const minImageSize = config.minImageSize ?? 100;
+
   const fileSizeMB = (file.size / (1024 * 1024)).toFixed(2);
 
   // Dynamic preview styles based on config
@@ -172,39 +182,67 @@ export const PdfToJpgConfig: React.FC<PdfToJpgConfigProps> = ({
             borderRadius: '8px',
             border: '1px solid var(--config-border)',
           }}>
-            <div style={{
-              display: 'flex',
-              justifyContent: 'space-between',
-              alignItems: 'center',
-              marginBottom: '8px',
-            }}>
-              <span style={{ fontSize: '13px', color: 'var(--text-tertiary)' }}>Format:</span>
-              <span style={{ fontSize: '14px', fontWeight: '600', color: 'var(--config-active)' }}>
-                {config.format.toUpperCase()}
-              </span>
-            </div>
-            <div style={{
-              display: 'flex',
-              justifyContent: 'space-between',
-              alignItems: 'center',
-              marginBottom: '8px',
-            }}>
-              <span style={{ fontSize: '13px', color: 'var(--text-tertiary)' }}>DPI Quality:</span>
-              <span style={{ fontSize: '14px', fontWeight: '600', color: 'var(--config-active)' }}>
-                {config.dpi} DPI
-              </span>
-            </div>
-            <div style={{
-              display: 'flex',
-              justifyContent: 'space-between',
-              alignItems: 'center',
-            }}>
-              <span style={{ fontSize: '13px', color: 'var(--text-tertiary)' }}>Color Mode:</span>
-              <span style={{ fontSize: '14px', fontWeight: '600', color: 'var(--config-active)' }}>
-                {config.colorSpace === 'rgb' ? 'Color (RGB)' :
-                 config.colorSpace === 'grayscale' ? 'Grayscale' : 'Black & White'}
-              </span>
-            </div>
+            {extract ? (
+              <>
+                <div style={{
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  alignItems: 'center',
+                  marginBottom: '8px',
+                }}>
+                  <span style={{ fontSize: '13px', color: 'var(--text-tertiary)' }}>Output:</span>
+                  <span style={{ fontSize: '14px', fontWeight: '600', color: 'var(--config-active)' }}>
+                    Original images (ZIP)
+                  </span>
+                </div>
+                <div style={{
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  alignItems: 'center',
+                }}>
+                  <span style={{ fontSize: '13px', color: 'var(--text-tertiary)' }}>Minimum size:</span>
+                  <span style={{ fontSize: '14px', fontWeight: '600', color: 'var(--config-active)' }}>
+                    {minImageSize > 0 ? `${minImageSize} px` : 'Any'}
+                  </span>
+                </div>
+              </>
+            ) : (
+              <>
+                <div style={{
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  alignItems: 'center',
+                  marginBottom: '8px',
+                }}>
+                  <span style={{ fontSize: '13px', color: 'var(--text-tertiary)' }}>Format:</span>
+                  <span style={{ fontSize: '14px', fontWeight: '600', color: 'var(--config-active)' }}>
+                    {config.format.toUpperCase()}
+                  </span>
+                </div>
+                <div style={{
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  alignItems: 'center',
+                  marginBottom: '8px',
+                }}>
+                  <span style={{ fontSize: '13px', color: 'var(--text-tertiary)' }}>DPI Quality:</span>
+                  <span style={{ fontSize: '14px', fontWeight: '600', color: 'var(--config-active)' }}>
+                    {config.dpi} DPI
+                  </span>
+                </div>
+                <div style={{
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  alignItems: 'center',
+                }}>
+                  <span style={{ fontSize: '13px', color: 'var(--text-tertiary)' }}>Color Mode:</span>
+                  <span style={{ fontSize: '14px', fontWeight: '600', color: 'var(--config-active)' }}>
+                    {config.colorSpace === 'rgb' ? 'Color (RGB)' :
+                     config.colorSpace === 'grayscale' ? 'Grayscale' : 'Black & White'}
+                  </span>
+                </div>
+              </>
+            )}
           </div>
         </div>
       </div>
@@ -216,53 +254,98 @@ export const PdfToJpgConfig: React.FC<PdfToJpgConfigProps> = ({
           PDF to Images options
         </h2>
 
-        {/* Image Format */}
+        {/* Mode */}
         <div style={sectionStyle}>
-          <label style={labelStyle}>Image format</label>
+          <label style={labelStyle}>Mode</label>
           <div style={buttonGroupStyle}>
-            {formats.map(({ value, label }) => (
-              <button
-                key={value}
-                style={buttonStyle(config.format === value)}
-                onClick={() => updateConfig({ format: value })}
-              >
-                {label}
-              </button>
-            ))}
+            <button style={buttonStyle(!extract)} onClick={() => updateConfig({ mode: 'render' })}>
+              Convert pages
+            </button>
+            <button style={buttonStyle(extract)} onClick={() => updateConfig({ mode: 'extract' })}>
+              Extract images
+            </button>
           </div>
+          {extract && (
+            <div style={{ marginTop: '10px', fontSize: '12px', color: 'var(--text-tertiary)', lineHeight: 1.5 }}>
+              Saves the photos and graphics inside the PDF at their original resolution: JPEGs exactly as stored, everything else as PNG with transparency. Repeated images are saved once.
+            </div>
+          )}
         </div>
 
+        {/* Minimum image size (extract) */}
+        {extract && (
+          <div style={sectionStyle}>
+            <label style={labelStyle}>Skip images smaller than</label>
+            <div style={buttonGroupStyle}>
+              {minImageSizes.map(({ value, label }) => (
+                <button
+                  key={value}
+                  style={buttonStyle(minImageSize === value)}
+                  onClick={() => updateConfig({ minImageSize: value })}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Image Format */}
+        {!extract && (
+          <div style={sectionStyle}>
+            <label style={labelStyle}>Image format</label>
+            <div style={buttonGroupStyle}>
+              {formats.map(({ value, label }) => (
+                <button
+                  key={value}
+                  style={buttonStyle(config.format === value)}
+                  onClick={() => updateConfig({ format: value })}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+        )}
+
         {/* Resolution (DPI) */}
-        <div style={sectionStyle}>
-          <label style={labelStyle}>Resolution</label>
-          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px' }}>
-            {dpiLevels.map(({ value, label }) => (
-              <button
-                key={value}
-                style={buttonStyle(config.dpi === value)}
-                onClick={() => updateConfig({ dpi: value })}
-              >
-                {label}
-              </button>
-            ))}
+        {!extract && (
+          <div style={sectionStyle}>
+            <label style={labelStyle}>Resolution</label>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px' }}>
+              {dpiLevels.map(({ value, label }) => (
+                <button
+                  key={value}
+                  style={buttonStyle(config.dpi === value)}
+                  onClick={() => updateConfig({ dpi: value })}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
           </div>
-        </div>
+
+        )}
 
         {/* Color Space */}
-        <div style={sectionStyle}>
-          <label style={labelStyle}>Color mode</label>
-          <div style={buttonGroupStyle}>
-            {colorSpaces.map(({ value, label }) => (
-              <button
-                key={value}
-                style={buttonStyle(config.colorSpace === value)}
-                onClick={() => updateConfig({ colorSpace: value })}
-              >
-                {label}
-              </button>
-            ))}
+        {!extract && (
+          <div style={sectionStyle}>
+            <label style={labelStyle}>Color mode</label>
+            <div style={buttonGroupStyle}>
+              {colorSpaces.map(({ value, label }) => (
+                <button
+                  key={value}
+                  style={buttonStyle(config.colorSpace === value)}
+                  onClick={() => updateConfig({ colorSpace: value })}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
           </div>
-        </div>
+
+        )}
 
         {/* Page Selection */}
         <div style={sectionStyle}>
@@ -338,7 +421,7 @@ export const PdfToJpgConfig: React.FC<PdfToJpgConfigProps> = ({
         </div>
 
         {/* Quality Slider (for JPG) */}
-        {config.format === 'jpg' && (
+        {!extract && config.format === 'jpg' && (
           <div style={sectionStyle}>
             <label style={labelStyle}>
               Quality: {Math.round(config.quality * 100)}%
@@ -389,7 +472,7 @@ export const PdfToJpgConfig: React.FC<PdfToJpgConfigProps> = ({
             e.currentTarget.style.backgroundColor = 'var(--config-active)';
           }}
         >
-          Convert to Images
+          {extract ? 'Extract Images' : 'Convert to Images'}
           <svg width="20" height="20" viewBox="0 0 20 20" fill="none" style={{ marginLeft: '4px' }}>
             <circle cx="10" cy="10" r="9" stroke="white" strokeWidth="2" fill="none"/>
             <path d="M8 10L12 10M12 10L10 8M12 10L10 12" stroke="white" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
@@ -0,0 +1,282 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * PDF to PowerPoint Configuration Dashboard
+ * Chooses between picture slides and editable text boxes, the pages and the render resolution
+ */
+
+import React, { useState } from 'react';
+import type { PdfToPowerPointConfig } from '../../types';
+import { configService } from '../../services/configService';
+import { PagePreview } from './PagePreview';
+
+interface PdfToPptConfigProps {
+  file: File;
+  onConfigChange: (config: PdfToPowerPointConfig) => void;
+  onConvert: (config: PdfToPowerPointConfig) => void;
+  onCancel: () => void;
+}
+
+const MODES: { value: PdfToPowerPointConfig['mode']; title: string; hint: string }[] = [
+  { value: 'image', title: 'Pictures', hint: 'Each slide is an exact picture of the page. Nothing can be edited.' },
+  { value: 'editable', title: 'Editable', hint: 'Text becomes text boxes in its original position, font and colour; images become separate pictures.' },
+];
+
+const DPI_LEVELS: { value: number; label: string }[] = [
+  { value: 72, label: '72 DPI' },
+  { value: 108, label: '108 DPI' },
+  { value: 150, label: '150 DPI' },
+  { value: 220, label: '220 DPI' },
+];
+
+export const PdfToPptConfig: React.FC<PdfToPptConfigProps> = ({
+  file,
+  onConfigChange,
+  onConvert,
+  onCancel,
+}) => {
+  const [config, setConfig] = useState<PdfToPowerPointConfig>(() =>
+    configService.loadConfig<PdfToPowerPointConfig>('pdf-ppt')
+  );
+
+  const updateConfig = (updates: Partial<PdfToPowerPointConfig>) => {
+    const newConfig = { ...config, ...updates };
+    setConfig(newConfig);
+    onConfigChange(newConfig);
+    configService.saveConfig('pdf-ppt', newConfig);
+  };
+
+  const editable = config.mode === 'editable';
+  const background = config.background ?? true;
+  const canConvert = config.pageSelection !== 'range' || !!config.pageRange?.trim();
+
+  const containerStyle: React.CSSProperties = {
+    display: 'grid',
+    gridTemplateColumns: '60% 40%',
+    minHeight: '100vh',
+    backgroundColor: 'var(--config-bg)',
+  };
+
+  const previewSectionStyle: React.CSSProperties = {
+    backgroundColor: 'var(--config-surface)',
+    padding: '40px',
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    justifyContent: 'center',
+  };
+
+  const configSectionStyle: React.CSSProperties = {
+    backgroundColor: 'var(--config-surface)',
+    padding: '40px 32px',
+    borderLeft: '1px solid var(--config-border)',
+    display: 'flex',
+    flexDirection: 'column',
+  };
+
+  const sectionStyle: React.CSSProperties = {
+    marginBottom: '28px',
+  };
+
+  const labelStyle: React.CSSProperties = {
+    fontSize: '14px',
+    fontWeight: '600',
+    color: 'var(--text-primary)',
+    marginBottom: '12px',
+    display: 'block',
+  };
+
+  const buttonStyle = (isActive: boolean): React.CSSProperties => ({
+    flex: 1,
+    padding: '12px 16px',
+    border: isActive ? '2px solid var(--config-active)' : '2px solid var(--config-border)',
+    borderRadius: '8px',
+    backgroundColor: isActive ? 'var(--config-active-bg)' : 'var(--config-surface)',
+    cursor: 'pointer',
+    transition: 'all 0.15s',
+    fontSize: '14px',
+    color: isActive ? 'var(--config-active)' : 'var(--text-secondary)',
+    fontWeight: isActive ? '600' : '400',
+    outline: 'none',
+  });
+
+  const radioStyle: React.CSSProperties = {
+    width: '18px',
+    height: '18px',
+    accentColor: 'var(--config-active)',
+    cursor: 'pointer',
+  };
+
+  return (
+    <div style={containerStyle}>
+      {/* LEFT: Preview Section */}
+      <div style={previewSectionStyle}>
+        <div style={{ maxWidth: '450px', width: '100%' }}>
+          <div style={{ marginBottom: '24px', textAlign: 'center' }}>
+            <div style={{ fontSize: '13px', color: 'var(--text-tertiary)', marginBottom: '8px' }}>
+              {file.name}
+            </div>
+            <div style={{ fontSize: '12px', color: 'var(--text-tertiary)' }}>
+              {(file.size / (1024 * 1024)).toFixed(2)} MB
+            </div>
+          </div>
+
+          <div style={{
+            padding: '24px',
+            backgroundColor: 'var(--config-bg)',
+            borderRadius: '8px',
+            textAlign: 'center',
+          }}>
+            <PagePreview file={file} pageNumber={1} width={400} height={500} />
+          </div>
+        </div>
+      </div>
+
+      {/* RIGHT: Configuration Section */}
+      <div style={configSectionStyle}>
+        <h2 style={{ fontSize: '20px', fontWeight: '700', color: 'var(--text-primary)', marginBottom: '32px' }}>
+          PowerPoint options
+        </h2>
+
+        {/* Mode */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Slides</label>
+          <div style={{ display: 'flex', gap: '12px' }}>
+            {MODES.map(({ value, title }) => (
+              <button key={value} style={buttonStyle(config.mode === value)} onClick={() => updateConfig({ mode: value })}>
+                {title}
+              </button>
+            ))}
+          </div>
+          <div style={{ marginTop: '10px', fontSize: '12px', color: 'var(--text-tertiary)', lineHeight: 1.5 }}>
+            {MODES.find(mode => mode.value === config.mode)?.hint}
+          </div>
+        </div>
+
+        {/* Background render (editable) */}
+        {editable && (
+          <div style={sectionStyle}>
+            <label style={{ display: 'flex', alignItems: 'flex-start', gap: '10px', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={background}
+                onChange={(e) => updateConfig({ background: e.target.checked })}
+                style={{ ...radioStyle, marginTop: '2px' }}
+              />
+              <div>
+                <div style={{ fontSize: '14px', fontWeight: '600', color: 'var(--text-primary)' }}>
+                  Faint page background
+                </div>
+                <div style={{ fontSize: '12px', color: 'var(--text-tertiary)' }}>
+                  Keeps shapes, lines and charts visible as a see-through picture behind the editable content
+                </div>
+              </div>
+            </label>
+          </div>
+        )}
+
+        {/* Resolution (DPI) */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>{editable ? 'Background resolution' : 'Resolution'}</label>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px' }}>
+            {DPI_LEVELS.map(({ value, label }) => (
+              <button key={value} style={buttonStyle(config.dpi === value)} onClick={() => updateConfig({ dpi: value })}>
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Page Selection */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Pages to convert</label>
+          <div style={{ padding: '16px', backgroundColor: 'var(--config-bg)', borderRadius: '8px' }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '10px', marginBottom: '12px', cursor: 'pointer' }}>
+              <input
+                type="radio"
+                checked={config.pageSelection === 'all'}
+                onChange={() => updateConfig({ pageSelection: 'all', pageRange: '' })}
+                style={radioStyle}
+              />
+              <span style={{ fontSize: '14px', color: 'var(--text-secondary)' }}>All pages</span>
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '10px', cursor: 'pointer' }}>
+              <input
+                type="radio"
+                checked={config.pageSelection === 'range'}
+                onChange={() => updateConfig({ pageSelection: 'range' })}
+                style={radioStyle}
+              />
+              <span style={{ fontSize: '14px', color: 'var(--text-secondary)' }}>Specific pages</span>
+            </label>
+            {config.pageSelection === 'range' && (
+              <input
+                type="text"
+                placeholder="e.g., 1-5, 7, 9-12"
+                defaultValue={config.pageRange}
+                onChange={(e) => updateConfig({ pageRange: e.target.value })}
+                style={{
+                  width: '100%',
+                  marginTop: '12px',
+                  padding: '10px 12px',
+                  border: '1px solid var(--config-border)',
+                  borderRadius: '6px',
+                  fontSize: '14px',
+                  color: 'var(--text-secondary)',
+                  backgroundColor: 'var(--config-surface)',
+                  outline: 'none',
+                }}
+              />
+            )}
+          </div>
+        </div>
+
+        <div style={{ flex: 1 }} />
+
+        <button
+          onClick={() => onConvert(config)}
+          disabled={!canConvert}
+          style={{
+            width: '100%',
+            padding: '16px',
+            backgroundColor: 'var(--config-active)',
+            color: '#fff',
+            border: 'none',
+            borderRadius: '8px',
+            fontSize: '16px',
+            fontWeight: '600',
+            cursor: canConvert ? 'pointer' : 'not-allowed',
+            opacity: canConvert ? 1 : 0.5,
+            transition: 'background-color 0.2s',
+            marginTop: 'auto',
+          }}
+          onMouseEnter={(e) => {
+            if (canConvert) e.currentTarget.style.backgroundColor = 'var(--accent-hover)';
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = 'var(--config-active)';
+          }}
+        >
+          Convert to PowerPoint
+        </button>
+        <button
+          onClick={onCancel}
+          style={{
+            width: '100%',
+            padding: '12px',
+            marginTop: '12px',
+            backgroundColor: 'transparent',
+            color: 'var(--text-secondary)',
+            border: '1px solid var(--config-border)',
+            borderRadius: '8px',
+            fontSize: '14px',
+            cursor: 'pointer',
+          }}
+        >
+          Back
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,503 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * PDF to Excel Configuration Dashboard
+ * Output format, sheet layout, line detection and number recognition,
+ * plus table areas drawn on the page for tables the detection misses
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import type { CropRect, ExcelTableLayout, PdfToExcelConfig, TableArea, TableOutputFormat } from '../../types';
+import { configService } from '../../services/configService';
+import { renderPDFPageFromDoc } from '../../services/pdfEditorService';
+import { MIN_DRAG } from './CropPdfConfig';
+
+interface PdfToXlsxConfigProps {
+  file: File;
+  onConfigChange: (config: PdfToExcelConfig) => void;
+  onConvert: (config: PdfToExcelConfig, areas: TableArea[]) => void;
+  onCancel: () => void;
+}
+
+const TABLE_LAYOUTS: { value: ExcelTableLayout; title: string; hint: string }[] = [
+  { value: 'sheets', title: 'Sheet per table', hint: 'Every table found gets its own sheet' },
+  { value: 'page', title: 'Sheet per page', hint: 'The tables of a page are placed one below the other' },
+];
+
+const OUTPUT_FORMATS: { value: TableOutputFormat; title: string; hint: string }[] = [
+  { value: 'xlsx', title: 'Excel', hint: 'An .xlsx workbook' },
+  { value: 'ods', title: 'ODS', hint: 'An OpenDocument spreadsheet for LibreOffice and Google Sheets' },
+  { value: 'csv', title: 'CSV', hint: 'One .csv file per table, zipped when there are several' },
+  { value: 'json', title: 'JSON', hint: 'Every table with its page, bounding box (in points) and rows' },
+];
+
+// 'auto' follows the browser's language, settled by the numbers and dates in the document
+const NUMBER_LOCALES: { value: string; label: string }[] = [
+  { value: 'auto', label: 'Detect automatically' },
+  { value: 'en-US', label: '1,234.56 and 01/31/2024' },
+  { value: 'en-GB', label: '1,234.56 and 31/01/2024' },
+  { value: 'de-DE', label: '1.234,56 and 31.01.2024' },
+  { value: 'fr-FR', label: '1 234,56 and 31/01/2024' },
+];
+
+const PREVIEW_WIDTH = 400;
+const PREVIEW_HEIGHT = 520;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export const PdfToXlsxConfig: React.FC<PdfToXlsxConfigProps> = ({
+  file,
+  onConfigChange,
+  onConvert,
+  onCancel,
+}) => {
+  const [config, setConfig] = useState<PdfToExcelConfig>(() =>
+    configService.loadConfig<PdfToExcelConfig>('pdf-excel')
+  );
+  const [pageCount, setPageCount] = useState<number>(0);
+  const [currentPage, setCurrentPage] = useState<number>(1);
+  const [renderError, setRenderError] = useState<string>('');
+  const [areas, setAreas] = useState<TableArea[]>([]);
+  const [draft, setDraft] = useState<CropRect | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pdfDocRef = useRef<any>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+
+  const updateConfig = (updates: Partial<PdfToExcelConfig>) => {
+    const newConfig = { ...config, ...updates };
+    setConfig(newConfig);
+    onConfigChange(newConfig);
+    configService.saveConfig('pdf-excel', newConfig);
+  };
+
+  const tableLayout = config.tableLayout ?? 'sheets';
+  const detectLines = config.detectLines ?? true;
+  const format = config.format ?? 'xlsx';
+  const detectTypes = config.detectTypes ?? true;
+  const numberLocale = config.numberLocale ?? 'auto';
+  const isSpreadsheet = format === 'xlsx' || format === 'ods';
+
+  // Load the document once for rendering
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const { pdfjsLib } = await import('../../services/pdfConfig');
+        const pdf = await pdfjsLib.getDocument({
+          data: await file.arrayBuffer(),
+          isEvalSupported: false,
+          useSystemFonts: false,
+        }).promise;
+        if (cancelled) {
+          pdf.destroy();
+          return;
+        }
+        pdfDocRef.current = pdf;
+        setPageCount(pdf.numPages);
+        setCurrentPage(1);
+        renderPage(1);
+      } catch {
+        if (!cancelled) setRenderError('Failed to render the page preview.');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      if (pdfDocRef.current) {
+        pdfDocRef.current.destroy();
+        pdfDocRef.current = null;
+      }
+    };
+  }, [file]);
+
+  const renderPage = async (pageNumber: number) => {
+    const pdf = pdfDocRef.current;
+    if (!pdf || !canvasRef.current) return;
+
+    try {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      const scale = Math.min(PREVIEW_WIDTH / viewport.width, PREVIEW_HEIGHT / viewport.height);
+      const { canvas, width, height } = await renderPDFPageFromDoc(pdf, pageNumber, scale);
+
+      const target = canvasRef.current;
+      if (!target) return;
+      target.width = width;
+      target.height = height;
+      target.getContext('2d')?.drawImage(canvas, 0, 0);
+      canvas.width = 0;
+      canvas.height = 0;
+      setRenderError('');
+    } catch {
+      setRenderError('Failed to render the page preview.');
+    }
+  };
+
+  const goToPage = (pageNumber: number) => {
+    const next = Math.min(pageCount, Math.max(1, pageNumber));
+    setCurrentPage(next);
+    renderPage(next);
+  };
+
+  const pointerFraction = (e: React.PointerEvent<HTMLDivElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    return {
+      x: clamp01((e.clientX - bounds.left) / bounds.width),
+      y: clamp01((e.clientY - bounds.top) / bounds.height),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = pointerFraction(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStart.current;
+    if (!start) return;
+    const point = pointerFraction(e);
+    if (Math.abs(point.x - start.x) < MIN_DRAG || Math.abs(point.y - start.y) < MIN_DRAG) return;
+    setDraft({
+      left: Math.min(start.x, point.x),
+      top: Math.min(start.y, point.y),
+      right: Math.max(start.x, point.x),
+      bottom: Math.max(start.y, point.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+    if (draft) setAreas([...areas, { pageIndex: currentPage - 1, ...draft }]);
+    setDraft(null);
+  };
+
+  const removeArea = (area: TableArea) => {
+    setAreas(areas.filter(entry => entry !== area));
+  };
+
+  const pageAreas = areas.filter(area => area.pageIndex === currentPage - 1);
+
+  const containerStyle: React.CSSProperties = {
+    display: 'grid',
+    gridTemplateColumns: '60% 40%',
+    minHeight: '100vh',
+    backgroundColor: 'var(--config-bg)',
+  };
+
+  const previewSectionStyle: React.CSSProperties = {
+    backgroundColor: 'var(--config-surface)',
+    padding: '40px',
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+  };
+
+  const configSectionStyle: React.CSSProperties = {
+    backgroundColor: 'var(--config-surface)',
+    padding: '40px 32px',
+    borderLeft: '1px solid var(--config-border)',
+    display: 'flex',
+    flexDirection: 'column',
+  };
+
+  const sectionStyle: React.CSSProperties = {
+    marginBottom: '28px',
+  };
+
+  const labelStyle: React.CSSProperties = {
+    fontSize: '14px',
+    fontWeight: '600',
+    color: 'var(--text-primary)',
+    marginBottom: '12px',
+    display: 'block',
+  };
+
+  const toggleButtonStyle = (isActive: boolean): React.CSSProperties => ({
+    flex: 1,
+    padding: '12px',
+    border: isActive ? '2px solid var(--config-active)' : '2px solid var(--config-border)',
+    borderRadius: '8px',
+    backgroundColor: isActive ? 'var(--config-active-bg)' : 'var(--config-surface)',
+    cursor: 'pointer',
+    transition: 'all 0.15s',
+    fontSize: '14px',
+    fontWeight: isActive ? '600' : '400',
+    color: isActive ? 'var(--config-active)' : 'var(--text-secondary)',
+    outline: 'none',
+  });
+
+  const navButtonStyle = (enabled: boolean): React.CSSProperties => ({
+    padding: '6px 12px',
+    border: '1px solid var(--config-border)',
+    borderRadius: '6px',
+    backgroundColor: 'var(--config-surface)',
+    color: 'var(--text-secondary)',
+    cursor: enabled ? 'pointer' : 'not-allowed',
+    opacity: enabled ? 1 : 0.5,
+  });
+
+  const areaBoxStyle = (rect: CropRect): React.CSSProperties => ({
+    position: 'absolute',
+    left: `${rect.left * 100}%`,
+    top: `${rect.top * 100}%`,
+    width: `${(rect.right - rect.left) * 100}%`,
+    height: `${(rect.bottom - rect.top) * 100}%`,
+    border: '2px solid var(--config-active)',
+    backgroundColor: 'color-mix(in srgb, var(--config-active) 12%, transparent)',
+    pointerEvents: 'none',
+  });
+
+  return (
+    <div style={containerStyle}>
+      {/* LEFT: Page */}
+      <div style={previewSectionStyle}>
+        <div style={{ marginBottom: '24px', textAlign: 'center' }}>
+          <div style={{ fontSize: '16px', fontWeight: '600', color: 'var(--text-primary)', marginBottom: '8px' }}>
+            Drag around a table to mark its area (optional)
+          </div>
+          <div style={{ fontSize: '13px', color: 'var(--text-tertiary)' }}>
+            {file.name}
+          </div>
+        </div>
+
+        {renderError ? (
+          <div style={{ color: 'var(--error)', fontSize: '14px' }}>{renderError}</div>
+        ) : (
+          <div
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            style={{
+              position: 'relative',
+              overflow: 'hidden',
+              lineHeight: 0,
+              boxShadow: '0 2px 12px rgba(0, 0, 0, 0.12)',
+              cursor: 'crosshair',
+              touchAction: 'none',
+              userSelect: 'none',
+            }}
+          >
+            <canvas ref={canvasRef} style={{ display: 'block' }} />
+            {pageAreas.map((area, index) => (
+              <div key={index} style={areaBoxStyle(area)}>
+                <span style={{
+                  position: 'absolute',
+                  top: 0,
+                  left: 0,
+                  padding: '2px 6px',
+                  fontSize: '11px',
+                  lineHeight: 1.4,
+                  color: '#fff',
+                  backgroundColor: 'var(--config-active)',
+                }}>
+                  {index + 1}
+                </span>
+              </div>
+            ))}
+            {draft && <div style={{ ...areaBoxStyle(draft), borderStyle: 'dashed' }} />}
+          </div>
+        )}
+
+        {pageCount > 1 && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginTop: '20px' }}>
+            <button style={navButtonStyle(currentPage > 1)} onClick={() => goToPage(currentPage - 1)} disabled={currentPage <= 1}>
+              ‹ Prev
+            </button>
+            <span style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>
+              Page {currentPage} of {pageCount}
+            </span>
+            <button style={navButtonStyle(currentPage < pageCount)} onClick={() => goToPage(currentPage + 1)} disabled={currentPage >= pageCount}>
+              Next ›
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* RIGHT: Configuration Section */}
+      <div style={configSectionStyle}>
+        <h2 style={{ fontSize: '20px', fontWeight: '700', color: 'var(--text-primary)', marginBottom: '32px' }}>
+          Excel options
+        </h2>
+
+        {/* Output format */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Save as</label>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            {OUTPUT_FORMATS.map(({ value, title }) => (
+              <button key={value} style={toggleButtonStyle(format === value)} onClick={() => updateConfig({ format: value })}>
+                {title}
+              </button>
+            ))}
+          </div>
+          <div style={{ marginTop: '10px', fontSize: '12px', color: 'var(--text-tertiary)' }}>
+            {OUTPUT_FORMATS.find(entry => entry.value === format)?.hint}
+          </div>
+        </div>
+
+        {/* Sheet layout */}
+        {isSpreadsheet && (
+          <div style={sectionStyle}>
+            <label style={labelStyle}>Sheets</label>
+            <div style={{ display: 'flex', gap: '12px' }}>
+              {TABLE_LAYOUTS.map(({ value, title }) => (
+                <button key={value} style={toggleButtonStyle(tableLayout === value)} onClick={() => updateConfig({ tableLayout: value })}>
+                  {title}
+                </button>
+              ))}
+            </div>
+            <div style={{ marginTop: '10px', fontSize: '12px', color: 'var(--text-tertiary)' }}>
+              {TABLE_LAYOUTS.find(layout => layout.value === tableLayout)?.hint}
+            </div>
+          </div>
+        )}
+
+        {/* Line detection */}
+        <div style={sectionStyle}>
+          <label style={{ display: 'flex', alignItems: 'flex-start', gap: '10px', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={detectLines}
+              onChange={(e) => updateConfig({ detectLines: e.target.checked })}
+              style={{ width: '18px', height: '18px', marginTop: '2px', accentColor: 'var(--config-active)', cursor: 'pointer' }}
+            />
+            <div>
+              <div style={{ fontSize: '14px', fontWeight: '600', color: 'var(--text-primary)' }}>
+                Use table borders
+              </div>
+              <div style={{ fontSize: '12px', color: 'var(--text-tertiary)' }}>
+                Finds cells from drawn lines and keeps merged cells merged. Turn off if borders split cells wrongly.
+              </div>
+            </div>
+          </label>
+        </div>
+
+        {/* Number and date recognition */}
+        <div style={sectionStyle}>
+          <label style={{ display: 'flex', alignItems: 'flex-start', gap: '10px', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={detectTypes}
+              onChange={(e) => updateConfig({ detectTypes: e.target.checked })}
+              style={{ width: '18px', height: '18px', marginTop: '2px', accentColor: 'var(--config-active)', cursor: 'pointer' }}
+            />
+            <div>
+              <div style={{ fontSize: '14px', fontWeight: '600', color: 'var(--text-primary)' }}>
+                Recognise numbers and dates
+              </div>
+              <div style={{ fontSize: '12px', color: 'var(--text-tertiary)' }}>
+                Amounts, currencies, percentages, (negatives) and dates become real values you can calculate with.
+              </div>
+            </div>
+          </label>
+          {detectTypes && (
+            <select
+              value={numberLocale}
+              onChange={(e) => updateConfig({ numberLocale: e.target.value })}
+              aria-label="Number and date style"
+              style={{
+                width: '100%',
+                marginTop: '12px',
+                padding: '8px 10px',
+                border: '1px solid var(--config-border)',
+                borderRadius: '6px',
+                backgroundColor: 'var(--config-surface)',
+                color: 'var(--text-primary)',
+                fontSize: '13px',
+              }}
+            >
+              {NUMBER_LOCALES.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+            </select>
+          )}
+        </div>
+
+        {/* Table areas */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Table areas</label>
+          {areas.length === 0 ? (
+            <div style={{ fontSize: '12px', color: 'var(--text-tertiary)', lineHeight: 1.5 }}>
+              Tables are found automatically. If a page comes out wrong, drag a box around each table on it;
+              that page is then only read inside the boxes.
+            </div>
+          ) : (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+              {areas.map((area, index) => (
+                <div
+                  key={index}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'space-between',
+                    padding: '8px 12px',
+                    backgroundColor: 'var(--config-bg)',
+                    borderRadius: '6px',
+                    fontSize: '13px',
+                    color: 'var(--text-secondary)',
+                  }}
+                >
+                  <button
+                    onClick={() => goToPage(area.pageIndex + 1)}
+                    style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer', color: 'inherit', fontSize: 'inherit' }}
+                  >
+                    Page {area.pageIndex + 1}, area {areas.filter(entry => entry.pageIndex === area.pageIndex).indexOf(area) + 1}
+                  </button>
+                  <button
+                    onClick={() => removeArea(area)}
+                    aria-label="Remove area"
+                    style={{ background: 'none', border: 'none', cursor: 'pointer', color: 'var(--text-tertiary)', fontSize: '16px', lineHeight: 1 }}
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div style={{ flex: 1 }} />
+
+        <button
+          onClick={() => onConvert(config, areas)}
+          style={{
+            width: '100%',
+            padding: '16px',
+            backgroundColor: 'var(--config-active)',
+            color: '#fff',
+            border: 'none',
+            borderRadius: '8px',
+            fontSize: '16px',
+            fontWeight: '600',
+            cursor: 'pointer',
+            transition: 'background-color 0.2s',
+            marginTop: 'auto',
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = 'var(--accent-hover)';
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = 'var(--config-active)';
+          }}
+        >
+          {format === 'xlsx' ? 'Extract Tables to Excel' : `Extract Tables to ${format.toUpperCase()}`}
+        </button>
+        <button
+          onClick={onCancel}
+          style={{
+            width: '100%',
+            padding: '12px',
+            marginTop: '12px',
+            backgroundColor: 'transparent',
+            color: 'var(--text-secondary)',
+            border: '1px solid var(--config-border)',
+            borderRadius: '8px',
+            fontSize: '14px',
+            cursor: 'pointer',
+          }}
+        >
+          Back
+        </button>
+      </div>
+    </div>
+  );
+};
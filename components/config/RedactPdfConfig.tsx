@@ -0,0 +1,515 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Redact PDF Configuration Dashboard
+ * Search for patterns, words and expressions, review each hit on the page, then redact the accepted ones
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { renderPDFPageFromDoc } from '../../services/pdfEditorService';
+import { downloadBlob } from '../../services/imageService';
+import {
+  REDACTION_PATTERNS,
+  findRedactionHits,
+  redactionLogToCSV,
+  type HitRect,
+  type RedactionHit,
+  type RedactionPatternId,
+} from '../../services/pdfRedactionSearchService';
+
+export interface RedactionStyle {
+  fillColor: string;
+  label: string;
+}
+
+interface RedactPdfConfigProps {
+  file: File;
+  pageCount: number;
+  onRedact: (hits: RedactionHit[], style: RedactionStyle) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_WIDTH = 480;
+const PREVIEW_HEIGHT = 620;
+
+const DEFAULT_PATTERNS: RedactionPatternId[] = ['email', 'phone', 'creditCard', 'iban', 'ssn'];
+
+/** Split a textarea into its non-empty lines */
+const lines = (text: string): string[] => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+export const RedactPdfConfig: React.FC<RedactPdfConfigProps> = ({
+  file,
+  pageCount,
+  onRedact,
+  onCancel,
+}) => {
+  const [patterns, setPatterns] = useState<RedactionPatternId[]>(DEFAULT_PATTERNS);
+  const [expressions, setExpressions] = useState<string>('');
+  const [words, setWords] = useState<string>('');
+  const [matchCase, setMatchCase] = useState<boolean>(false);
+  const [hits, setHits] = useState<RedactionHit[] | null>(null);
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+  const [activeHit, setActiveHit] = useState<string>('');
+  const [searching, setSearching] = useState<boolean>(false);
+  const [searchStatus, setSearchStatus] = useState<string>('');
+  const [searchError, setSearchError] = useState<string>('');
+  const [fillColor, setFillColor] = useState<string>('#000000');
+  const [label, setLabel] = useState<string>('');
+  const [currentPage, setCurrentPage] = useState<number>(1);
+  const [canvasSize, setCanvasSize] = useState<{ width: number; height: number } | null>(null);
+  const [renderError, setRenderError] = useState<string>('');
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pdfDocRef = useRef<any>(null);
+  const viewportRef = useRef<any>(null);
+  const abortRef = useRef<{ current: boolean }>({ current: false });
+
+  // Load the document once for rendering and searching
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const { pdfjsLib } = await import('../../services/pdfConfig');
+        const pdf = await pdfjsLib.getDocument({
+          data: await file.arrayBuffer(),
+          isEvalSupported: false,
+          useSystemFonts: false,
+        }).promise;
+        if (cancelled) {
+          pdf.destroy();
+          return;
+        }
+        pdfDocRef.current = pdf;
+        setCurrentPage(1);
+        renderPage(1);
+      } catch {
+        if (!cancelled) setRenderError('Failed to render the page preview.');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      abortRef.current.current = true;
+      if (pdfDocRef.current) {
+        pdfDocRef.current.destroy();
+        pdfDocRef.current = null;
+      }
+    };
+  }, [file]);
+
+  const renderPage = async (pageNumber: number) => {
+    const pdf = pdfDocRef.current;
+    if (!pdf || !canvasRef.current) return;
+
+    try {
+      const page = await pdf.getPage(pageNumber);
+      const unscaled = page.getViewport({ scale: 1 });
+      const scale = Math.min(PREVIEW_WIDTH / unscaled.width, PREVIEW_HEIGHT / unscaled.height);
+      const { canvas, width, height } = await renderPDFPageFromDoc(pdf, pageNumber, scale);
+
+      const target = canvasRef.current;
+      if (!target) return;
+      target.width = width;
+      target.height = height;
+      target.getContext('2d')?.drawImage(canvas, 0, 0);
+      canvas.width = 0;
+      canvas.height = 0;
+
+      viewportRef.current = page.getViewport({ scale });
+      setCanvasSize({ width, height });
+      setRenderError('');
+    } catch {
+      setRenderError('Failed to render the page preview.');
+    }
+  };
+
+  const goToPage = (pageNumber: number) => {
+    const next = Math.min(pageCount, Math.max(1, pageNumber));
+    if (next === currentPage) return;
+    setCurrentPage(next);
+    renderPage(next);
+  };
+
+  const togglePattern = (id: RedactionPatternId) => {
+    setPatterns(patterns.includes(id) ? patterns.filter(entry => entry !== id) : [...patterns, id]);
+  };
+
+  const handleSearch = async () => {
+    if (!pdfDocRef.current) return;
+    abortRef.current = { current: false };
+    setSearching(true);
+    setSearchError('');
+
+    try {
+      const found = await findRedactionHits(
+        pdfDocRef.current,
+        { patterns, expressions: lines(expressions), words: lines(words), matchCase },
+        (_, status) => setSearchStatus(status),
+        abortRef.current
+      );
+      if (abortRef.current.current) return;
+      setHits(found);
+      setRejected(new Set());
+      setActiveHit('');
+      if (found.length > 0) goToPage(found[0].pageIndex + 1);
+    } catch (err) {
+      if (!abortRef.current.current) setSearchError(err instanceof Error ? err.message : 'The search failed.');
+    } finally {
+      if (!abortRef.current.current) setSearching(false);
+    }
+  };
+
+  const toggleHit = (id: string) => {
+    const next = new Set(rejected);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setRejected(next);
+  };
+
+  const showHit = (hit: RedactionHit) => {
+    setActiveHit(hit.id);
+    goToPage(hit.pageIndex + 1);
+  };
+
+  const accepted = (hits ?? []).filter(hit => !rejected.has(hit.id));
+
+  const handleExportLog = () => {
+    downloadBlob(new Blob([redactionLogToCSV(accepted)], { type: 'text/csv;charset=utf-8' }), `${file.name.replace(/\.pdf$/i, '')}_redaction_log.csv`);
+  };
+
+  const handleRedact = () => {
+    if (accepted.length === 0) return;
+    onRedact(accepted, { fillColor, label: label.trim() });
+  };
+
+  /** A user-space rectangle as a percentage box over the preview */
+  const rectStyle = (rect: HitRect): React.CSSProperties => {
+    const viewport = viewportRef.current;
+    if (!viewport || !canvasSize) return { display: 'none' };
+    const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([rect.x, rect.y, rect.x + rect.width, rect.y + rect.height]);
+    return {
+      position: 'absolute',
+      left: `${(Math.min(x1, x2) / canvasSize.width) * 100}%`,
+      top: `${(Math.min(y1, y2) / canvasSize.height) * 100}%`,
+      width: `${(Math.abs(x2 - x1) / canvasSize.width) * 100}%`,
+      height: `${(Math.abs(y2 - y1) / canvasSize.height) * 100}%`,
+      boxSizing: 'border-box',
+      cursor: 'pointer',
+    };
+  };
+
+  const pageHits = (hits ?? []).filter(hit => hit.pageIndex === currentPage - 1);
+  const canSearch = !searching && (patterns.length > 0 || lines(expressions).length > 0 || lines(words).length > 0);
+  const canRedact = accepted.length > 0 && !searching;
+
+  const containerStyle: React.CSSProperties = {
+    display: 'grid',
+    gridTemplateColumns: '60% 40%',
+    minHeight: '100vh',
+    backgroundColor: 'var(--config-bg)',
+  };
+
+  const previewSectionStyle: React.CSSProperties = {
+    backgroundColor: 'var(--config-surface)',
+    padding: '40px',
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    justifyContent: 'center',
+  };
+
+  const configSectionStyle: React.CSSProperties = {
+    backgroundColor: 'var(--config-surface)',
+    padding: '40px 32px',
+    borderLeft: '1px solid var(--config-border)',
+    display: 'flex',
+    flexDirection: 'column',
+  };
+
+  const sectionStyle: React.CSSProperties = {
+    marginBottom: '28px',
+  };
+
+  const labelStyle: React.CSSProperties = {
+    fontSize: '14px',
+    fontWeight: '600',
+    color: 'var(--text-primary)',
+    marginBottom: '12px',
+    display: 'block',
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '8px 10px',
+    border: '1px solid var(--config-border)',
+    borderRadius: '6px',
+    fontSize: '13px',
+    backgroundColor: 'var(--config-surface)',
+    color: 'var(--text-primary)',
+    boxSizing: 'border-box',
+  };
+
+  const checkboxRowStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    fontSize: '13px',
+    color: 'var(--text-secondary)',
+    cursor: 'pointer',
+  };
+
+  const smallButtonStyle: React.CSSProperties = {
+    flex: 1,
+    padding: '8px',
+    backgroundColor: 'transparent',
+    color: 'var(--text-secondary)',
+    border: '1px solid var(--config-border)',
+    borderRadius: '6px',
+    fontSize: '13px',
+    cursor: 'pointer',
+  };
+
+  const navButtonStyle = (enabled: boolean): React.CSSProperties => ({
+    padding: '6px 14px',
+    border: '1px solid var(--config-border)',
+    borderRadius: '6px',
+    backgroundColor: 'var(--config-surface)',
+    color: 'var(--text-secondary)',
+    fontSize: '13px',
+    cursor: enabled ? 'pointer' : 'not-allowed',
+    opacity: enabled ? 1 : 0.5,
+  });
+
+  return (
+    <div style={containerStyle}>
+      {/* LEFT: Page with the hits marked */}
+      <div style={previewSectionStyle}>
+        <div style={{ marginBottom: '24px', textAlign: 'center' }}>
+          <div style={{ fontSize: '16px', fontWeight: '600', color: 'var(--text-primary)', marginBottom: '8px' }}>
+            {hits === null ? 'Search the document to find text to redact' : 'Click a match to accept or reject it'}
+          </div>
+          <div style={{ fontSize: '13px', color: 'var(--text-tertiary)' }}>
+            {file.name}
+          </div>
+        </div>
+
+        {renderError ? (
+          <div style={{ color: 'var(--error)', fontSize: '14px' }}>{renderError}</div>
+        ) : (
+          <div style={{ position: 'relative', lineHeight: 0, boxShadow: '0 2px 12px rgba(0, 0, 0, 0.12)' }}>
+            <canvas ref={canvasRef} style={{ display: 'block' }} />
+            {canvasSize && pageHits.flatMap(hit => hit.rects.map((rect, index) => (
+              <div
+                key={`${hit.id}-${index}`}
+                title={`${hit.pattern}: ${rejected.has(hit.id) ? 'rejected' : 'will be redacted'}`}
+                onClick={() => { setActiveHit(hit.id); toggleHit(hit.id); }}
+                style={{
+                  ...rectStyle(rect),
+                  backgroundColor: rejected.has(hit.id) ? 'transparent' : `${fillColor}b3`,
+                  border: activeHit === hit.id
+                    ? '2px solid var(--config-active)'
+                    : rejected.has(hit.id) ? '1px dashed var(--text-tertiary)' : '1px solid var(--error)',
+                }}
+              />
+            )))}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginTop: '20px' }}>
+          <button style={navButtonStyle(currentPage > 1)} onClick={() => goToPage(currentPage - 1)} disabled={currentPage <= 1}>
+            ‹ Prev
+          </button>
+          <span style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>
+            Page {currentPage} of {pageCount}
+            {pageHits.length > 0 && ` · ${pageHits.length} match${pageHits.length !== 1 ? 'es' : ''}`}
+          </span>
+          <button style={navButtonStyle(currentPage < pageCount)} onClick={() => goToPage(currentPage + 1)} disabled={currentPage >= pageCount}>
+            Next ›
+          </button>
+        </div>
+      </div>
+
+      {/* RIGHT: Search, review and redact */}
+      <div style={configSectionStyle}>
+        <h2 style={{ fontSize: '20px', fontWeight: '700', color: 'var(--text-primary)', marginBottom: '32px' }}>
+          Find and redact
+        </h2>
+
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Patterns</label>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+            {REDACTION_PATTERNS.map(pattern => (
+              <label key={pattern.id} style={checkboxRowStyle}>
+                <input
+                  type="checkbox"
+                  checked={patterns.includes(pattern.id)}
+                  onChange={() => togglePattern(pattern.id)}
+                  style={{ accentColor: 'var(--config-active)' }}
+                />
+                {pattern.label}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Words and phrases</label>
+          <textarea
+            value={words}
+            onChange={(e) => setWords(e.target.value)}
+            placeholder="One per line, e.g. a name or project code"
+            rows={3}
+            style={{ ...inputStyle, resize: 'vertical', marginBottom: '12px' }}
+          />
+          <label style={labelStyle}>Regular expressions</label>
+          <textarea
+            value={expressions}
+            onChange={(e) => setExpressions(e.target.value)}
+            placeholder={'One per line, e.g. CASE-\\d{6}'}
+            rows={2}
+            style={{ ...inputStyle, resize: 'vertical', fontFamily: 'monospace', marginBottom: '12px' }}
+          />
+          <label style={checkboxRowStyle}>
+            <input type="checkbox" checked={matchCase} onChange={(e) => setMatchCase(e.target.checked)} style={{ accentColor: 'var(--config-active)' }} />
+            Match case in words and expressions
+          </label>
+          <button style={{ ...smallButtonStyle, width: '100%', marginTop: '12px', opacity: canSearch ? 1 : 0.5, cursor: canSearch ? 'pointer' : 'not-allowed' }} onClick={handleSearch} disabled={!canSearch}>
+            {searching ? searchStatus || 'Searching...' : hits === null ? 'Find Matches' : 'Search Again'}
+          </button>
+          {searchError && (
+            <div style={{ marginTop: '8px', fontSize: '12px', color: 'var(--error)' }}>
+              {searchError}
+            </div>
+          )}
+        </div>
+
+        {hits !== null && (
+          <div style={sectionStyle}>
+            <label style={labelStyle}>
+              {hits.length === 0
+                ? 'No matches found'
+                : `${accepted.length} of ${hits.length} match${hits.length !== 1 ? 'es' : ''} accepted`}
+            </label>
+            {hits.length > 0 && (
+              <>
+                <div style={{ display: 'flex', gap: '8px', marginBottom: '12px' }}>
+                  <button style={smallButtonStyle} onClick={() => setRejected(new Set())}>Accept all</button>
+                  <button style={smallButtonStyle} onClick={() => setRejected(new Set(hits.map(hit => hit.id)))}>Reject all</button>
+                  <button style={smallButtonStyle} onClick={handleExportLog} disabled={accepted.length === 0}>Export log (CSV)</button>
+                </div>
+                <div style={{ maxHeight: '320px', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '6px', paddingRight: '4px' }}>
+                  {hits.map(hit => (
+                    <div
+                      key={hit.id}
+                      onClick={() => showHit(hit)}
+                      style={{
+                        display: 'flex',
+                        gap: '8px',
+                        alignItems: 'flex-start',
+                        padding: '6px 8px',
+                        borderRadius: '6px',
+                        border: activeHit === hit.id ? '1px solid var(--config-active)' : '1px solid var(--config-border)',
+                        cursor: 'pointer',
+                        opacity: rejected.has(hit.id) ? 0.55 : 1,
+                      }}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={!rejected.has(hit.id)}
+                        onChange={() => toggleHit(hit.id)}
+                        onClick={(e) => e.stopPropagation()}
+                        aria-label={`Redact "${hit.text}"`}
+                        style={{ accentColor: 'var(--config-active)', marginTop: '2px' }}
+                      />
+                      <div style={{ flex: 1, minWidth: 0 }}>
+                        <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: 'var(--text-tertiary)', marginBottom: '2px' }}>
+                          <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{hit.pattern}</span>
+                          <span style={{ flexShrink: 0, marginLeft: '8px' }}>p.{hit.pageIndex + 1}</span>
+                        </div>
+                        <div style={{ fontSize: '12px', color: 'var(--text-secondary)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                          {hit.before}
+                          <strong style={{ color: 'var(--text-primary)' }}>{hit.text}</strong>
+                          {hit.after}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {hits !== null && hits.length > 0 && (
+          <div style={sectionStyle}>
+            <label style={labelStyle}>Appearance</label>
+            <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+              <input
+                type="color"
+                value={fillColor}
+                onChange={(e) => setFillColor(e.target.value)}
+                aria-label="Fill colour"
+                style={{ width: '40px', height: '34px', padding: '2px', border: '1px solid var(--config-border)', borderRadius: '6px', backgroundColor: 'var(--config-surface)', cursor: 'pointer' }}
+              />
+              <input
+                type="text"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="Label, e.g. REDACTED (optional)"
+                style={inputStyle}
+              />
+            </div>
+            <div style={{ marginTop: '8px', fontSize: '12px', color: 'var(--text-tertiary)' }}>
+              The text, graphics and image pixels under each accepted match are removed from the file, not just covered.
+            </div>
+          </div>
+        )}
+
+        <div style={{ flex: 1 }} />
+
+        <button
+          onClick={handleRedact}
+          disabled={!canRedact}
+          style={{
+            width: '100%',
+            padding: '16px',
+            backgroundColor: 'var(--config-active)',
+            color: '#fff',
+            border: 'none',
+            borderRadius: '8px',
+            fontSize: '16px',
+            fontWeight: '600',
+            cursor: canRedact ? 'pointer' : 'not-allowed',
+            opacity: canRedact ? 1 : 0.5,
+            transition: 'background-color 0.2s',
+            marginTop: 'auto',
+          }}
+          onMouseEnter={(e) => {
+            if (canRedact) e.currentTarget.style.backgroundColor = 'var(--accent-hover)';
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = 'var(--config-active)';
+          }}
+        >
+          {accepted.length > 0 ? `Redact ${accepted.length} Match${accepted.length !== 1 ? 'es' : ''}` : 'Redact'}
+        </button>
+        <button
+          onClick={onCancel}
+          style={{
+            width: '100%',
+            padding: '12px',
+            marginTop: '12px',
+            backgroundColor: 'transparent',
+            color: 'var(--text-secondary)',
+            border: '1px solid var(--config-border)',
+            borderRadius: '8px',
+            fontSize: '14px',
+            cursor: 'pointer',
+          }}
+        >
+          Back
+        </button>
+      </div>
+    </div>
+  );
+};
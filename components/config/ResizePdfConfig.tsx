@@ -0,0 +1,382 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Resize PDF Configuration Dashboard
+ * Shows how each distinct page size in the document lands on the target size
+ */
+
+import React, { useState, useEffect } from 'react';
+import { PDFDocument } from 'pdf-lib';
+import type { ResizePdfConfig, ResizeMode, MarginSize, Orientation, PageSize, PageSizeDimensions } from '../../types';
+import { configService } from '../../services/configService';
+import { planPageResize, type ResizePlan } from '../../services/pdfResizeService';
+import { getPageFrame } from '../../services/pdfGeometry';
+
+interface ResizePdfConfigProps {
+  file: File;
+  pageCount: number;
+  onConfigChange: (config: ResizePdfConfig) => void;
+  onResize: (config: ResizePdfConfig) => void;
+  onCancel: () => void;
+}
+
+/** Pages of one displayed size */
+interface SourceSize extends PageSizeDimensions {
+  firstPage: number;
+  count: number;
+}
+
+const PAGE_SIZES: PageSize[] = ['A4', 'Letter', 'Legal', 'A3', 'A5', 'Custom'];
+
+const ORIENTATIONS: { value: Orientation | 'auto'; label: string }[] = [
+  { value: 'auto', label: 'Match page' },
+  { value: 'portrait', label: 'Portrait' },
+  { value: 'landscape', label: 'Landscape' },
+];
+
+const MODES: { value: ResizeMode; label: string; description: string }[] = [
+  { value: 'fit', label: 'Fit', description: 'Scale to fit, adding white space' },
+  { value: 'fill', label: 'Fill', description: 'Scale to cover, trimming the overflow' },
+  { value: 'actual', label: 'Actual size', description: 'Keep the scale and center' },
+];
+
+const MARGINS: { value: MarginSize; label: string }[] = [
+  { value: 'none', label: 'No margin' },
+  { value: 'small', label: 'Small (10mm)' },
+  { value: 'medium', label: 'Medium (20mm)' },
+  { value: 'large', label: 'Large (30mm)' },
+];
+
+/** Longest side of each preview page, in pixels */
+const PREVIEW_SIZE = 220;
+
+/** Distinct page sizes shown in the preview */
+const MAX_PREVIEWS = 3;
+
+export const ResizePdfConfig: React.FC<ResizePdfConfigProps> = ({
+  file,
+  pageCount,
+  onConfigChange,
+  onResize,
+  onCancel,
+}) => {
+  const [config, setConfig] = useState<ResizePdfConfig>(() =>
+    configService.loadConfig<ResizePdfConfig>('resize-pdf')
+  );
+  const [sourceSizes, setSourceSizes] = useState<SourceSize[]>([]);
+
+  const updateConfig = (updates: Partial<ResizePdfConfig>) => {
+    const newConfig = { ...config, ...updates };
+    setConfig(newConfig);
+    onConfigChange(newConfig);
+    configService.saveConfig('resize-pdf', newConfig);
+  };
+
+  // Group the pages by their size as displayed
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const pdf = await PDFDocument.load(await file.arrayBuffer(), { ignoreEncryption: true, updateMetadata: false });
+        const sizes = new Map<string, SourceSize>();
+        pdf.getPages().forEach((page, index) => {
+          const frame = getPageFrame(page);
+          const key = `${Math.round(frame.width)}x${Math.round(frame.height)}`;
+          const existing = sizes.get(key);
+          if (existing) existing.count++;
+          else sizes.set(key, { width: frame.width, height: frame.height, firstPage: index + 1, count: 1 });
+        });
+        if (!cancelled) setSourceSizes([...sizes.values()].sort((a, b) => b.count - a.count));
+      } catch {
+        // No preview; resizing reports unreadable files
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [file]);
+
+  let plans: Array<{ source: SourceSize; plan: ResizePlan }> = [];
+  let planError = '';
+  try {
+    plans = sourceSizes.slice(0, MAX_PREVIEWS).map(source => ({ source, plan: planPageResize(source, config) }));
+  } catch (err) {
+    planError = err instanceof Error ? err.message : 'Invalid page size';
+  }
+
+  const containerStyle: React.CSSProperties = {
+    display: 'grid',
+    gridTemplateColumns: '60% 40%',
+    minHeight: '100vh',
+    backgroundColor: 'var(--config-bg)',
+  };
+
+  const previewSectionStyle: React.CSSProperties = {
+    backgroundColor: 'var(--config-surface)',
+    padding: '40px',
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    gap: '24px',
+  };
+
+  const configSectionStyle: React.CSSProperties = {
+    backgroundColor: 'var(--config-surface)',
+    padding: '40px 32px',
+    borderLeft: '1px solid var(--config-border)',
+    display: 'flex',
+    flexDirection: 'column',
+  };
+
+  const sectionStyle: React.CSSProperties = {
+    marginBottom: '28px',
+  };
+
+  const labelStyle: React.CSSProperties = {
+    fontSize: '14px',
+    fontWeight: '600',
+    color: 'var(--text-primary)',
+    marginBottom: '12px',
+    display: 'block',
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '10px 12px',
+    border: '1px solid var(--config-border)',
+    borderRadius: '6px',
+    fontSize: '14px',
+    color: 'var(--text-secondary)',
+    backgroundColor: 'var(--config-surface)',
+    outline: 'none',
+  };
+
+  const toggleButtonStyle = (isActive: boolean): React.CSSProperties => ({
+    flex: 1,
+    padding: '12px',
+    border: isActive ? '2px solid var(--config-active)' : '2px solid var(--config-border)',
+    borderRadius: '8px',
+    backgroundColor: isActive ? 'var(--config-active-bg)' : 'var(--config-surface)',
+    cursor: 'pointer',
+    transition: 'all 0.15s',
+    fontSize: '14px',
+    fontWeight: isActive ? '600' : '400',
+    color: isActive ? 'var(--config-active)' : 'var(--text-secondary)',
+    outline: 'none',
+  });
+
+  const renderPreview = ({ source, plan }: { source: SourceSize; plan: ResizePlan }) => {
+    const scale = PREVIEW_SIZE / Math.max(plan.width, plan.height);
+    const px = (value: number) => `${value * scale}px`;
+
+    return (
+      <div key={source.firstPage} style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '8px' }}>
+        <div
+          style={{
+            position: 'relative',
+            width: px(plan.width),
+            height: px(plan.height),
+            backgroundColor: '#fff',
+            boxShadow: '0 2px 8px rgba(0, 0, 0, 0.15)',
+          }}
+        >
+          {/* Printable area; the page is clipped to it */}
+          <div
+            style={{
+              position: 'absolute',
+              left: px(plan.area.x),
+              bottom: px(plan.area.y),
+              width: px(plan.area.width),
+              height: px(plan.area.height),
+              overflow: 'hidden',
+              outline: config.margin !== 'none' ? '1px dashed var(--config-border)' : 'none',
+            }}
+          >
+            <div
+              style={{
+                position: 'absolute',
+                left: px(plan.placement.x - plan.area.x),
+                bottom: px(plan.placement.y - plan.area.y),
+                width: px(plan.placement.width),
+                height: px(plan.placement.height),
+                backgroundColor: 'var(--config-active-bg)',
+                border: '1px solid var(--config-active)',
+                boxSizing: 'border-box',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                fontSize: '12px',
+                color: 'var(--config-active)',
+              }}
+            >
+              {Math.round(plan.scale * 100)}%
+            </div>
+          </div>
+        </div>
+        <span style={{ fontSize: '12px', color: 'var(--text-tertiary)', textAlign: 'center' }}>
+          {Math.round(source.width)} × {Math.round(source.height)} pt &bull; {source.count} page{source.count !== 1 ? 's' : ''}
+        </span>
+      </div>
+    );
+  };
+
+  const canApply = !planError;
+
+  return (
+    <div style={containerStyle}>
+      {/* LEFT: Preview Section */}
+      <div style={previewSectionStyle}>
+        <div style={{ fontSize: '14px', color: 'var(--text-secondary)' }}>
+          {pageCount} page{pageCount !== 1 ? 's' : ''} in {sourceSizes.length} size{sourceSizes.length !== 1 ? 's' : ''}
+          {sourceSizes.length > MAX_PREVIEWS && ` (showing the ${MAX_PREVIEWS} most common)`}
+        </div>
+        {planError ? (
+          <div style={{ fontSize: '14px', color: 'var(--text-tertiary)', padding: '40px 0' }}>{planError}</div>
+        ) : (
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '24px', justifyContent: 'center', alignItems: 'flex-end' }}>
+            {plans.map(renderPreview)}
+          </div>
+        )}
+      </div>
+
+      {/* RIGHT: Configuration Section */}
+      <div style={configSectionStyle}>
+        <h2 style={{ fontSize: '20px', fontWeight: '700', color: 'var(--text-primary)', marginBottom: '32px' }}>
+          Resize options
+        </h2>
+
+        {/* Page size */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Page size</label>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '8px' }}>
+            {PAGE_SIZES.map(size => (
+              <button
+                key={size}
+                style={toggleButtonStyle(config.pageSize === size)}
+                onClick={() => updateConfig({ pageSize: size })}
+              >
+                {size}
+              </button>
+            ))}
+          </div>
+          {config.pageSize === 'Custom' && (
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px', marginTop: '8px' }}>
+              <input
+                type="number"
+                min="72"
+                max="14400"
+                value={config.customPageSize?.width ?? 595}
+                onChange={(e) => updateConfig({ customPageSize: { width: Math.max(72, parseInt(e.target.value) || 595), height: config.customPageSize?.height ?? 842 } })}
+                style={inputStyle}
+                aria-label="Page width in points"
+              />
+              <input
+                type="number"
+                min="72"
+                max="14400"
+                value={config.customPageSize?.height ?? 842}
+                onChange={(e) => updateConfig({ customPageSize: { width: config.customPageSize?.width ?? 595, height: Math.max(72, parseInt(e.target.value) || 842) } })}
+                style={inputStyle}
+                aria-label="Page height in points"
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Orientation */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Orientation</label>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            {ORIENTATIONS.map(orientation => (
+              <button
+                key={orientation.value}
+                style={toggleButtonStyle(config.orientation === orientation.value)}
+                onClick={() => updateConfig({ orientation: orientation.value })}
+              >
+                {orientation.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Scaling */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Scaling</label>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            {MODES.map(mode => (
+              <button
+                key={mode.value}
+                style={toggleButtonStyle(config.mode === mode.value)}
+                onClick={() => updateConfig({ mode: mode.value })}
+              >
+                {mode.label}
+              </button>
+            ))}
+          </div>
+          <div style={{ fontSize: '12px', color: 'var(--text-tertiary)', marginTop: '8px' }}>
+            {MODES.find(mode => mode.value === config.mode)?.description}
+          </div>
+        </div>
+
+        {/* Margins */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Margins</label>
+          <select
+            value={config.margin}
+            onChange={(e) => updateConfig({ margin: e.target.value as MarginSize })}
+            style={inputStyle}
+            aria-label="Margins"
+          >
+            {MARGINS.map(margin => (
+              <option key={margin.value} value={margin.value}>{margin.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div style={{ flex: 1 }} />
+
+        <button
+          onClick={() => onResize(config)}
+          disabled={!canApply}
+          style={{
+            width: '100%',
+            padding: '16px',
+            backgroundColor: 'var(--config-active)',
+            color: '#fff',
+            border: 'none',
+            borderRadius: '8px',
+            fontSize: '16px',
+            fontWeight: '600',
+            cursor: canApply ? 'pointer' : 'not-allowed',
+            opacity: canApply ? 1 : 0.5,
+            transition: 'background-color 0.2s',
+            marginTop: 'auto',
+          }}
+          onMouseEnter={(e) => {
+            if (canApply) e.currentTarget.style.backgroundColor = 'var(--accent-hover)';
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = 'var(--config-active)';
+          }}
+        >
+          Resize PDF
+        </button>
+        <button
+          onClick={onCancel}
+          style={{
+            width: '100%',
+            padding: '12px',
+            marginTop: '12px',
+            backgroundColor: 'transparent',
+            color: 'var(--text-secondary)',
+            border: '1px solid var(--config-border)',
+            borderRadius: '8px',
+            fontSize: '14px',
+            cursor: 'pointer',
+          }}
+        >
+          Back
+        </button>
+      </div>
+    </div>
+  );
+};
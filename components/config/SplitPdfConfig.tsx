@@ -32,6 +32,7 @@ export const SplitPdfConfig: React.FC<SplitPdfConfigProps> = ({
   );
   const [pageCount, setPageCount] = useState<number>(externalPageCount || 0);
   const [selectedPages, setSelectedPages] = useState<Set<number>>(new Set());
+  const [bookmarkCounts, setBookmarkCounts] = useState<number[] | null>(null);
 
   useEffect(() => {
     // Skip loading if page count already provided by parent
@@ -97,6 +98,34 @@ export const SplitPdfConfig: React.FC<SplitPdfConfigProps> = ({
     setSelectedPages(pages);
   }, [config.mode, config.pageRanges, config.extractPages, config.splitEvery, pageCount]);
 
+  // Count bookmarks per outline level so the level picker can show what a split will produce
+  useEffect(() => {
+    if (config.mode !== 'bookmarks' || bookmarkCounts) return;
+    let destroyed = false;
+    const loadOutline = async () => {
+      try {
+        const { pdfjsLib } = await import('../../services/pdfConfig');
+        const arrayBuffer = await file.arrayBuffer();
+        const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+        const outline = await pdf.getOutline();
+        const counts: number[] = [];
+        const countLevel = (items: Array<{ items: any[] }>, depth: number) => {
+          items.forEach(item => {
+            counts[depth] = (counts[depth] ?? 0) + 1;
+            countLevel(item.items, depth + 1);
+          });
+        };
+        countLevel(outline ?? [], 0);
+        if (!destroyed) setBookmarkCounts(counts);
+        pdf.destroy();
+      } catch {
+        // Outline loading failed silently — the split itself reports missing bookmarks
+      }
+    };
+    loadOutline();
+    return () => { destroyed = true; };
+  }, [config.mode, file]);
+
   const updateConfig = (updates: Partial<SplitPdfConfig>) => {
     const newConfig = { ...config, ...updates };
     setConfig(newConfig);
@@ -120,6 +149,21 @@ export const SplitPdfConfig: React.FC<SplitPdfConfigProps> = ({
       label: 'Split every N pages',
       description: 'Split into equal chunks of N pages each',
     },
+    {
+      value: 'bookmarks' as const,
+      label: 'By bookmarks',
+      description: 'Start a new PDF at each bookmark, named after its title',
+    },
+    {
+      value: 'file-size' as const,
+      label: 'By file size',
+      description: 'Keep each PDF under a size limit, e.g. for email attachments',
+    },
+    {
+      value: 'blank-pages' as const,
+      label: 'At blank pages',
+      description: 'Split wherever a blank separator sheet appears and drop it',
+    },
   ];
 
   const containerStyle: React.CSSProperties = {
@@ -482,6 +526,126 @@ export const SplitPdfConfig: React.FC<SplitPdfConfigProps> = ({
                 </div>
               </div>
             )}
+
+            {config.mode === 'bookmarks' && (
+              <div>
+                <label style={{
+                  fontSize: '14px',
+                  fontWeight: '600',
+                  color: 'var(--text-primary)',
+                  display: 'block',
+                  marginBottom: '8px',
+                }}>
+                  Bookmark level
+                </label>
+                <select
+                  value={config.bookmarkLevel || 1}
+                  onChange={(e) => updateConfig({ bookmarkLevel: parseInt(e.target.value) || 1 })}
+                  style={{
+                    width: '100%',
+                    padding: '10px 12px',
+                    border: '1px solid var(--config-border)',
+                    borderRadius: '6px',
+                    fontSize: '14px',
+                    color: 'var(--text-secondary)',
+                    backgroundColor: 'var(--config-surface)',
+                    outline: 'none',
+                  }}
+                >
+                  {Array.from({ length: Math.max(3, bookmarkCounts?.length ?? 0) }, (_, i) => i + 1).map(level => (
+                    <option key={level} value={level}>
+                      {level === 1 ? 'Top-level bookmarks only' : `Bookmarks down to level ${level}`}
+                    </option>
+                  ))}
+                </select>
+                <div style={{
+                  fontSize: '12px',
+                  color: bookmarkCounts && bookmarkCounts.length === 0 ? 'var(--warning)' : 'var(--text-tertiary)',
+                  marginTop: '8px',
+                }}>
+                  {bookmarkCounts && bookmarkCounts.length === 0
+                    ? 'This PDF has no bookmarks.'
+                    : bookmarkCounts
+                      ? `${bookmarkCounts.slice(0, config.bookmarkLevel || 1).reduce((sum, n) => sum + n, 0)} bookmarks found. Each one starts a new PDF named after its title.`
+                      : 'Each bookmark starts a new PDF named after its title.'}
+                </div>
+              </div>
+            )}
+
+            {config.mode === 'file-size' && (
+              <div>
+                <label style={{
+                  fontSize: '14px',
+                  fontWeight: '600',
+                  color: 'var(--text-primary)',
+                  display: 'block',
+                  marginBottom: '8px',
+                }}>
+                  Maximum size per file (MB)
+                </label>
+                <input
+                  type="number"
+                  min="0.1"
+                  step="0.5"
+                  placeholder="e.g., 10"
+                  defaultValue={config.maxFileSizeMB || 10}
+                  onChange={(e) => updateConfig({ maxFileSizeMB: parseFloat(e.target.value) || 10 })}
+                  style={{
+                    width: '150px',
+                    padding: '10px 12px',
+                    border: '1px solid var(--config-border)',
+                    borderRadius: '6px',
+                    fontSize: '14px',
+                    color: 'var(--text-secondary)',
+                    backgroundColor: 'var(--config-surface)',
+                    outline: 'none',
+                  }}
+                />
+                <div style={{
+                  fontSize: '12px',
+                  color: 'var(--text-tertiary)',
+                  marginTop: '8px',
+                }}>
+                  Consecutive pages are grouped so each PDF stays under this size. Most email providers limit attachments to 20–25 MB.
+                </div>
+              </div>
+            )}
+
+            {config.mode === 'blank-pages' && (
+              <div>
+                <label style={{
+                  fontSize: '14px',
+                  fontWeight: '600',
+                  color: 'var(--text-primary)',
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  marginBottom: '8px',
+                }}>
+                  <span>Blank page tolerance</span>
+                  <span style={{ color: 'var(--config-active)' }}>{(config.blankInkThreshold ?? 0.5).toFixed(1)}%</span>
+                </label>
+                <input
+                  type="range"
+                  min="0.1"
+                  max="5"
+                  step="0.1"
+                  value={config.blankInkThreshold ?? 0.5}
+                  onChange={(e) => updateConfig({ blankInkThreshold: parseFloat(e.target.value) })}
+                  style={{
+                    width: '100%',
+                    accentColor: 'var(--config-active)',
+                    cursor: 'pointer',
+                  }}
+                />
+                <div style={{
+                  fontSize: '12px',
+                  color: 'var(--text-tertiary)',
+                  marginTop: '8px',
+                }}>
+                  Pages with less ink than this are treated as separators and removed. Raise it if scanned blank sheets have specks or smudges.
+                </div>
+              </div>
+            )}
           </div>
         </div>
 
@@ -0,0 +1,562 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Watermark PDF Configuration Dashboard
+ * Text or image stamps with live preview, persisted between sessions
+ */
+
+import React, { useState } from 'react';
+import type { WatermarkPdfConfig, WatermarkPosition, StandardFontName } from '../../types';
+import { configService } from '../../services/configService';
+import { PagePreview } from './PagePreview';
+
+interface WatermarkPdfConfigProps {
+  files: File[];
+  onConfigChange: (config: WatermarkPdfConfig) => void;
+  onWatermark: (config: WatermarkPdfConfig) => void;
+  onCancel: () => void;
+}
+
+const POSITIONS: WatermarkPosition[] = [
+  'top-left', 'top-center', 'top-right',
+  'middle-left', 'center', 'middle-right',
+  'bottom-left', 'bottom-center', 'bottom-right',
+];
+
+const FONTS: { value: StandardFontName; label: string; css: string }[] = [
+  { value: 'Helvetica', label: 'Helvetica', css: 'Helvetica, Arial, sans-serif' },
+  { value: 'Helvetica-Bold', label: 'Helvetica Bold', css: 'Helvetica, Arial, sans-serif' },
+  { value: 'Times-Roman', label: 'Times', css: '"Times New Roman", Times, serif' },
+  { value: 'Times-Bold', label: 'Times Bold', css: '"Times New Roman", Times, serif' },
+  { value: 'Courier', label: 'Courier', css: '"Courier New", Courier, monospace' },
+  { value: 'Courier-Bold', label: 'Courier Bold', css: '"Courier New", Courier, monospace' },
+];
+
+/** Images above this size (as a data URL) are used for the session but not persisted */
+const MAX_PERSISTED_IMAGE_LENGTH = 1024 * 1024;
+
+const PREVIEW_WIDTH = 400;
+const PREVIEW_HEIGHT = 500;
+const A4_WIDTH_PT = 595;
+
+export const WatermarkPdfConfig: React.FC<WatermarkPdfConfigProps> = ({
+  files,
+  onConfigChange,
+  onWatermark,
+  onCancel,
+}) => {
+  const [config, setConfig] = useState<WatermarkPdfConfig>(() =>
+    configService.loadConfig<WatermarkPdfConfig>('watermark-pdf')
+  );
+  const [imageError, setImageError] = useState<string>('');
+
+  const updateConfig = (updates: Partial<WatermarkPdfConfig>) => {
+    const newConfig = { ...config, ...updates };
+    setConfig(newConfig);
+    onConfigChange(newConfig);
+    // localStorage is small; keep large logos out of it rather than lose the whole config
+    const persistImage = (newConfig.imageData?.length ?? 0) <= MAX_PERSISTED_IMAGE_LENGTH;
+    configService.saveConfig('watermark-pdf', persistImage ? newConfig : { ...newConfig, imageData: undefined });
+  };
+
+  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const imageFile = e.target.files?.[0];
+    if (!imageFile) return;
+    if (imageFile.type !== 'image/png' && imageFile.type !== 'image/jpeg') {
+      setImageError('Please choose a PNG or JPEG image.');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => {
+      setImageError('');
+      updateConfig({ imageData: reader.result as string });
+    };
+    reader.onerror = () => setImageError('Failed to read the image. Please try again.');
+    reader.readAsDataURL(imageFile);
+  };
+
+  const canApply = config.type === 'text' ? config.text.trim().length > 0 : !!config.imageData;
+  const previewFont = FONTS.find(f => f.value === config.font) ?? FONTS[0];
+  const previewScale = PREVIEW_WIDTH / A4_WIDTH_PT;
+
+  const containerStyle: React.CSSProperties = {
+    display: 'grid',
+    gridTemplateColumns: '60% 40%',
+    minHeight: '100vh',
+    backgroundColor: 'var(--config-bg)',
+  };
+
+  const previewSectionStyle: React.CSSProperties = {
+    backgroundColor: 'var(--config-surface)',
+    padding: '40px',
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+  };
+
+  const configSectionStyle: React.CSSProperties = {
+    backgroundColor: 'var(--config-surface)',
+    padding: '40px 32px',
+    borderLeft: '1px solid var(--config-border)',
+    display: 'flex',
+    flexDirection: 'column',
+  };
+
+  const sectionStyle: React.CSSProperties = {
+    marginBottom: '28px',
+  };
+
+  const labelStyle: React.CSSProperties = {
+    fontSize: '14px',
+    fontWeight: '600',
+    color: 'var(--text-primary)',
+    marginBottom: '12px',
+    display: 'block',
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '10px 12px',
+    border: '1px solid var(--config-border)',
+    borderRadius: '6px',
+    fontSize: '14px',
+    color: 'var(--text-secondary)',
+    backgroundColor: 'var(--config-surface)',
+    outline: 'none',
+  };
+
+  const toggleButtonStyle = (isActive: boolean): React.CSSProperties => ({
+    flex: 1,
+    padding: '12px',
+    border: isActive ? '2px solid var(--config-active)' : '2px solid var(--config-border)',
+    borderRadius: '8px',
+    backgroundColor: isActive ? 'var(--config-active-bg)' : 'var(--config-surface)',
+    cursor: 'pointer',
+    transition: 'all 0.15s',
+    fontSize: '14px',
+    fontWeight: isActive ? '600' : '400',
+    color: isActive ? 'var(--config-active)' : 'var(--text-secondary)',
+    outline: 'none',
+  });
+
+  const radioStyle: React.CSSProperties = {
+    width: '18px',
+    height: '18px',
+    accentColor: 'var(--config-active)',
+    cursor: 'pointer',
+  };
+
+  const sliderLabelStyle: React.CSSProperties = {
+    fontSize: '13px',
+    color: 'var(--text-secondary)',
+    display: 'flex',
+    justifyContent: 'space-between',
+    marginBottom: '6px',
+  };
+
+  // Approximate on-screen stamp, assuming an A4-width page
+  const stamp = config.type === 'text' ? (
+    <span style={{
+      fontFamily: previewFont.css,
+      fontWeight: config.font.endsWith('Bold') ? 700 : 400,
+      fontSize: `${config.fontSize * previewScale}px`,
+      color: config.color,
+      whiteSpace: 'nowrap',
+    }}>
+      {config.text || ' '}
+    </span>
+  ) : config.imageData ? (
+    <img
+      src={config.imageData}
+      alt="Watermark"
+      style={{ width: `${PREVIEW_WIDTH * config.imageScale / 100}px`, display: 'block' }}
+    />
+  ) : null;
+
+  const stampStyle: React.CSSProperties = {
+    opacity: config.opacity,
+    transform: `rotate(${-config.rotation}deg)`,
+  };
+
+  const positionIndex = POSITIONS.indexOf(config.position);
+  const justify = ['flex-start', 'center', 'flex-end'];
+
+  return (
+    <div style={containerStyle}>
+      {/* LEFT: Preview Section */}
+      <div style={previewSectionStyle}>
+        <div style={{ maxWidth: '450px', width: '100%' }}>
+          <div style={{ marginBottom: '24px', textAlign: 'center' }}>
+            <div style={{ fontSize: '16px', fontWeight: '600', color: 'var(--text-primary)', marginBottom: '8px' }}>
+              Preview
+            </div>
+            <div style={{ fontSize: '13px', color: 'var(--text-tertiary)' }}>
+              {files[0]?.name}{files.length > 1 ? ` and ${files.length - 1} more` : ''}
+            </div>
+          </div>
+
+          <div style={{
+            padding: '24px',
+            backgroundColor: 'var(--config-bg)',
+            borderRadius: '8px',
+            display: 'flex',
+            justifyContent: 'center',
+          }}>
+            <div style={{ position: 'relative', width: `${PREVIEW_WIDTH}px`, height: `${PREVIEW_HEIGHT}px`, overflow: 'hidden' }}>
+              {files[0] && (
+                <PagePreview file={files[0]} pageNumber={1} width={PREVIEW_WIDTH} height={PREVIEW_HEIGHT} showFileName={false} />
+              )}
+              {stamp && config.layout === 'single' && (
+                <div style={{
+                  position: 'absolute',
+                  inset: `${36 * previewScale}px`,
+                  display: 'flex',
+                  flexDirection: 'column',
+                  justifyContent: justify[Math.floor(positionIndex / 3)],
+                  alignItems: justify[positionIndex % 3],
+                  pointerEvents: 'none',
+                }}>
+                  <div style={stampStyle}>{stamp}</div>
+                </div>
+              )}
+              {stamp && config.layout === 'tiled' && (
+                <div style={{
+                  position: 'absolute',
+                  inset: '-50%',
+                  display: 'flex',
+                  flexWrap: 'wrap',
+                  alignContent: 'center',
+                  justifyContent: 'center',
+                  gap: `${config.tileSpacing * previewScale}px`,
+                  pointerEvents: 'none',
+                }}>
+                  {Array.from({ length: 40 }, (_, i) => (
+                    <div key={i} style={stampStyle}>{stamp}</div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* RIGHT: Configuration Section */}
+      <div style={configSectionStyle}>
+        <h2 style={{ fontSize: '20px', fontWeight: '700', color: 'var(--text-primary)', marginBottom: '32px' }}>
+          Watermark options
+        </h2>
+
+        {/* Watermark type */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Watermark</label>
+          <div style={{ display: 'flex', gap: '12px', marginBottom: '16px' }}>
+            <button style={toggleButtonStyle(config.type === 'text')} onClick={() => updateConfig({ type: 'text' })}>
+              Text
+            </button>
+            <button style={toggleButtonStyle(config.type === 'image')} onClick={() => updateConfig({ type: 'image' })}>
+              Image
+            </button>
+          </div>
+
+          <div style={{ padding: '16px', backgroundColor: 'var(--config-bg)', borderRadius: '8px' }}>
+            {config.type === 'text' ? (
+              <>
+                <input
+                  type="text"
+                  value={config.text}
+                  placeholder="e.g., CONFIDENTIAL"
+                  maxLength={200}
+                  onChange={(e) => updateConfig({ text: e.target.value })}
+                  style={{ ...inputStyle, marginBottom: '12px' }}
+                />
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 90px 56px', gap: '8px' }}>
+                  <select
+                    value={config.font}
+                    onChange={(e) => updateConfig({ font: e.target.value as StandardFontName })}
+                    style={inputStyle}
+                    aria-label="Font"
+                  >
+                    {FONTS.map(font => (
+                      <option key={font.value} value={font.value}>{font.label}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min="6"
+                    max="300"
+                    value={config.fontSize}
+                    onChange={(e) => updateConfig({ fontSize: Math.min(300, Math.max(6, parseInt(e.target.value) || 60)) })}
+                    style={inputStyle}
+                    aria-label="Font size in points"
+                  />
+                  <input
+                    type="color"
+                    value={config.color}
+                    onChange={(e) => updateConfig({ color: e.target.value })}
+                    style={{ ...inputStyle, padding: '2px', height: '40px', cursor: 'pointer' }}
+                    aria-label="Text colour"
+                  />
+                </div>
+                <div style={{ fontSize: '12px', color: 'var(--text-tertiary)', marginTop: '8px' }}>
+                  Standard PDF fonts support Latin characters only.
+                </div>
+              </>
+            ) : (
+              <>
+                <label style={{
+                  display: 'block',
+                  padding: '16px',
+                  border: '2px dashed var(--config-border)',
+                  borderRadius: '8px',
+                  textAlign: 'center',
+                  cursor: 'pointer',
+                  fontSize: '13px',
+                  color: 'var(--text-secondary)',
+                  marginBottom: '12px',
+                }}>
+                  <input type="file" accept="image/png,image/jpeg" onChange={handleImageSelect} style={{ display: 'none' }} />
+                  {config.imageData ? 'Choose a different image' : 'Choose a PNG or JPEG image'}
+                </label>
+                {imageError && (
+                  <div style={{ fontSize: '12px', color: 'var(--error)', marginBottom: '12px' }}>{imageError}</div>
+                )}
+                <div style={sliderLabelStyle}>
+                  <span>Image width</span>
+                  <span>{config.imageScale}% of page</span>
+                </div>
+                <input
+                  type="range"
+                  min="5"
+                  max="100"
+                  value={config.imageScale}
+                  onChange={(e) => updateConfig({ imageScale: parseInt(e.target.value) })}
+                  style={{ width: '100%', accentColor: 'var(--config-active)' }}
+                />
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* Appearance */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Appearance</label>
+          <div style={{ padding: '16px', backgroundColor: 'var(--config-bg)', borderRadius: '8px' }}>
+            <div style={sliderLabelStyle}>
+              <span>Opacity</span>
+              <span>{Math.round(config.opacity * 100)}%</span>
+            </div>
+            <input
+              type="range"
+              min="5"
+              max="100"
+              value={Math.round(config.opacity * 100)}
+              onChange={(e) => updateConfig({ opacity: parseInt(e.target.value) / 100 })}
+              style={{ width: '100%', accentColor: 'var(--config-active)', marginBottom: '16px' }}
+            />
+            <div style={sliderLabelStyle}>
+              <span>Rotation</span>
+              <span>{config.rotation}°</span>
+            </div>
+            <input
+              type="range"
+              min="-180"
+              max="180"
+              step="5"
+              value={config.rotation}
+              onChange={(e) => updateConfig({ rotation: parseInt(e.target.value) })}
+              style={{ width: '100%', accentColor: 'var(--config-active)' }}
+            />
+          </div>
+        </div>
+
+        {/* Placement */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Placement</label>
+          <div style={{ display: 'flex', gap: '12px', marginBottom: '16px' }}>
+            <button style={toggleButtonStyle(config.layout === 'single')} onClick={() => updateConfig({ layout: 'single' })}>
+              Single
+            </button>
+            <button style={toggleButtonStyle(config.layout === 'tiled')} onClick={() => updateConfig({ layout: 'tiled' })}>
+              Tiled
+            </button>
+          </div>
+
+          {config.layout === 'single' ? (
+            <div
+              role="radiogroup"
+              aria-label="Watermark position"
+              style={{
+                display: 'grid',
+                gridTemplateColumns: 'repeat(3, 40px)',
+                gap: '6px',
+                padding: '12px',
+                backgroundColor: 'var(--config-bg)',
+                borderRadius: '8px',
+                width: 'fit-content',
+              }}
+            >
+              {POSITIONS.map(position => (
+                <button
+                  key={position}
+                  role="radio"
+                  aria-checked={config.position === position}
+                  aria-label={position.replace('-', ' ')}
+                  title={position.replace('-', ' ')}
+                  onClick={() => updateConfig({ position })}
+                  style={{
+                    width: '40px',
+                    height: '40px',
+                    borderRadius: '6px',
+                    border: config.position === position ? '2px solid var(--config-active)' : '1px solid var(--config-border)',
+                    backgroundColor: config.position === position ? 'var(--config-active)' : 'var(--config-surface)',
+                    cursor: 'pointer',
+                  }}
+                />
+              ))}
+            </div>
+          ) : (
+            <div style={{ padding: '16px', backgroundColor: 'var(--config-bg)', borderRadius: '8px' }}>
+              <div style={sliderLabelStyle}>
+                <span>Spacing between tiles</span>
+                <span>{config.tileSpacing} pt</span>
+              </div>
+              <input
+                type="range"
+                min="10"
+                max="300"
+                step="10"
+                value={config.tileSpacing}
+                onChange={(e) => updateConfig({ tileSpacing: parseInt(e.target.value) })}
+                style={{ width: '100%', accentColor: 'var(--config-active)' }}
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Pages */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Pages</label>
+          <div style={{ padding: '16px', backgroundColor: 'var(--config-bg)', borderRadius: '8px' }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '10px', marginBottom: '12px', cursor: 'pointer' }}>
+              <input
+                type="radio"
+                checked={config.pageSelection === 'all'}
+                onChange={() => updateConfig({ pageSelection: 'all' })}
+                style={radioStyle}
+              />
+              <span style={{ fontSize: '14px', color: 'var(--text-secondary)' }}>All pages</span>
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '10px', cursor: 'pointer' }}>
+              <input
+                type="radio"
+                checked={config.pageSelection === 'range'}
+                onChange={() => updateConfig({ pageSelection: 'range' })}
+                style={radioStyle}
+              />
+              <span style={{ fontSize: '14px', color: 'var(--text-secondary)' }}>Specific pages</span>
+            </label>
+            {config.pageSelection === 'range' && (
+              <>
+                <input
+                  type="text"
+                  placeholder="e.g., 1, 3-5, 8-"
+                  value={config.pageRange ?? ''}
+                  onChange={(e) => updateConfig({ pageRange: e.target.value })}
+                  style={{ ...inputStyle, marginTop: '12px' }}
+                />
+                <div style={{ fontSize: '12px', color: 'var(--text-tertiary)', marginTop: '8px' }}>
+                  Applied to every file. "8-" means page 8 to the end.
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* Layer */}
+        <div style={sectionStyle}>
+          <label style={labelStyle}>Layer</label>
+          <div style={{ padding: '16px', backgroundColor: 'var(--config-bg)', borderRadius: '8px' }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '10px', marginBottom: '12px', cursor: 'pointer' }}>
+              <input
+                type="radio"
+                checked={config.layer === 'over'}
+                onChange={() => updateConfig({ layer: 'over' })}
+                style={radioStyle}
+              />
+              <div>
+                <div style={{ fontSize: '14px', fontWeight: '600', color: 'var(--text-primary)' }}>
+                  Over content
+                </div>
+                <div style={{ fontSize: '12px', color: 'var(--text-tertiary)' }}>
+                  Always visible, drawn on top of the page
+                </div>
+              </div>
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '10px', cursor: 'pointer' }}>
+              <input
+                type="radio"
+                checked={config.layer === 'under'}
+                onChange={() => updateConfig({ layer: 'under' })}
+                style={radioStyle}
+              />
+              <div>
+                <div style={{ fontSize: '14px', fontWeight: '600', color: 'var(--text-primary)' }}>
+                  Behind content
+                </div>
+                <div style={{ fontSize: '12px', color: 'var(--text-tertiary)' }}>
+                  Keeps text readable; hidden by full-page images such as scans
+                </div>
+              </div>
+            </label>
+          </div>
+        </div>
+
+        <div style={{ flex: 1 }} />
+
+        <button
+          onClick={() => onWatermark(config)}
+          disabled={!canApply}
+          style={{
+            width: '100%',
+            padding: '16px',
+            backgroundColor: 'var(--config-active)',
+            color: '#fff',
+            border: 'none',
+            borderRadius: '8px',
+            fontSize: '16px',
+            fontWeight: '600',
+            cursor: canApply ? 'pointer' : 'not-allowed',
+            opacity: canApply ? 1 : 0.5,
+            transition: 'background-color 0.2s',
+            marginTop: 'auto',
+          }}
+          onMouseEnter={(e) => {
+            if (canApply) e.currentTarget.style.backgroundColor = 'var(--accent-hover)';
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = 'var(--config-active)';
+          }}
+        >
+          Add watermark{files.length > 1 ? ` to ${files.length} PDFs` : ''}
+        </button>
+        <button
+          onClick={onCancel}
+          style={{
+            width: '100%',
+            padding: '12px',
+            marginTop: '12px',
+            backgroundColor: 'transparent',
+            color: 'var(--text-secondary)',
+            border: '1px solid var(--config-border)',
+            borderRadius: '8px',
+            fontSize: '14px',
+            cursor: 'pointer',
+          }}
+        >
+          Back
+        </button>
+      </div>
+    </div>
+  );
+};
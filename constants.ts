@@ -80,6 +80,90 @@ export const TOOLS: Tool[] = [
     category: 'PDF',
     icon: '✏️'
   },
+  {
+    id: 'organize-pdf',
+    name: 'Organize PDF',
+    description: 'Reorder, delete, duplicate, rotate and insert pages.',
+    category: 'PDF',
+    icon: 'M3.75 6A2.25 2.25 0 016 3.75h2.25A2.25 2.25 0 0110.5 6v2.25a2.25 2.25 0 01-2.25 2.25H6a2.25 2.25 0 01-2.25-2.25V6zM3.75 15.75A2.25 2.25 0 016 13.5h2.25a2.25 2.25 0 012.25 2.25V18a2.25 2.25 0 01-2.25 2.25H6A2.25 2.25 0 013.75 18v-2.25zM13.5 6a2.25 2.25 0 012.25-2.25H18A2.25 2.25 0 0120.25 6v2.25A2.25 2.25 0 0118 10.5h-2.25a2.25 2.25 0 01-2.25-2.25V6zM13.5 15.75a2.25 2.25 0 012.25-2.25H18a2.25 2.25 0 012.25 2.25V18A2.25 2.25 0 0118 20.25h-2.25A2.25 2.25 0 0113.5 18v-2.25z'
+  },
+  {
+    id: 'crop-pdf',
+    name: 'Crop PDF',
+    description: 'Crop margins or trim whitespace from PDF pages.',
+    category: 'PDF',
+    icon: 'M7.848 8.25l1.536.887M7.848 8.25a3 3 0 11-5.196-3 3 3 0 015.196 3zm1.536.887a2.165 2.165 0 011.083 1.839c.005.351.054.695.14 1.024M9.384 9.137l2.077 1.199M7.848 15.75l1.536-.887m-1.536.887a3 3 0 11-5.196 3 3 3 0 015.196-3zm1.536-.887a2.165 2.165 0 001.083-1.838c.005-.352.054-.695.14-1.025m-1.223 2.863l2.077-1.199m0-3.328a4.323 4.323 0 012.068-1.379l5.325-1.628a4.5 4.5 0 012.48-.044l.803.215-7.794 4.5m-2.882-1.664A4.331 4.331 0 0010.607 12m3.736 0l7.794 4.5-.802.215a4.5 4.5 0 01-2.48-.043l-5.326-1.629a4.324 4.324 0 01-2.068-1.379M14.343 12l-2.882 1.664'
+  },
+  {
+    id: 'nup-pdf',
+    name: 'N-up & Booklet',
+    description: 'Print several pages per sheet or lay out a folded booklet.',
+    category: 'PDF',
+    icon: 'M3.75 3.75v16.5h16.5V3.75H3.75zM12 3.75v16.5M3.75 12h16.5'
+  },
+  {
+    id: 'resize-pdf',
+    name: 'Resize Pages',
+    description: 'Bring every page to one paper size, scaled or letterboxed.',
+    category: 'PDF',
+    icon: 'M3.75 3.75v4.5m0-4.5h4.5m-4.5 0L9 9M3.75 20.25v-4.5m0 4.5h4.5m-4.5 0L9 15M20.25 3.75h-4.5m4.5 0v4.5m0-4.5L15 9m5.25 11.25h-4.5m4.5 0v-4.5m0 4.5L15 15'
+  },
+  {
+    id: 'flatten-pdf',
+    name: 'Flatten PDF',
+    description: 'Lock form fields, comments and links into the page content.',
+    category: 'PDF',
+    icon: 'M6.429 9.75L2.25 12l4.179 2.25m0-4.5l5.571 3 5.571-3m-11.142 0L2.25 7.5 12 2.25l9.75 5.25-4.179 2.25m0 0L21.75 12l-4.179 2.25m0 0l4.179 2.25L12 21.75 2.25 16.5l4.179-2.25m11.142 0l-5.571 3-5.571-3'
+  },
+  {
+    id: 'fill-form-pdf',
+    name: 'Fill PDF Form',
+    description: 'Fill in form fields on the page and import or export the data as FDF, XFDF or JSON.',
+    category: 'PDF',
+    icon: 'M9 12h3.75M9 15h3.75M9 18h3.75m3 .75H18a2.25 2.25 0 002.25-2.25V6.108c0-1.135-.845-2.098-1.976-2.192a48.424 48.424 0 00-1.123-.08m-5.801 0c-.065.21-.1.433-.1.664 0 .414.336.75.75.75h4.5a.75.75 0 00.75-.75 2.25 2.25 0 00-.1-.664m-5.8 0A2.251 2.251 0 0113.5 2.25H15c1.012 0 1.867.668 2.15 1.586m-5.8 0c-.376.023-.75.05-1.124.08C9.095 4.01 8.25 4.973 8.25 6.108V8.25m0 0H4.875c-.621 0-1.125.504-1.125 1.125v11.25c0 .621.504 1.125 1.125 1.125h9.75c.621 0 1.125-.504 1.125-1.125V9.375c0-.621-.504-1.125-1.125-1.125H8.25zM6.75 12h.008v.008H6.75V12zm0 3h.008v.008H6.75V15zm0 3h.008v.008H6.75V18z'
+  },
+  {
+    id: 'redact-pdf',
+    name: 'Redact PDF',
+    description: 'Find emails, phone numbers, card numbers and your own words or patterns, review each match and remove them for good.',
+    category: 'PDF',
+    icon: 'M3.98 8.223A10.477 10.477 0 001.934 12C3.226 16.338 7.244 19.5 12 19.5c.993 0 1.953-.138 2.863-.395M6.228 6.228A10.45 10.45 0 0112 4.5c4.756 0 8.773 3.162 10.065 7.498a10.523 10.523 0 01-4.293 5.774M6.228 6.228L3 3m3.228 3.228l3.65 3.65m7.894 7.894L21 21m-3.228-3.228l-3.65-3.65m0 0a3 3 0 10-4.243-4.243m4.242 4.242L9.88 9.88'
+  },
+  {
+    id: 'compare-pdf',
+    name: 'Compare PDF',
+    description: 'Compare two versions of a PDF side by side, with changed words and areas highlighted and a PDF report to share.',
+    category: 'PDF',
+    icon: 'M7.5 21L3 16.5m0 0L7.5 12M3 16.5h13.5m0-13.5L21 7.5m0 0L16.5 12M21 7.5H7.5'
+  },
+  {
+    id: 'attachments-pdf',
+    name: 'PDF Attachments',
+    description: 'List, extract and add files embedded in a PDF, including ZUGFeRD / Factur-X e-invoice XML.',
+    category: 'PDF',
+    icon: 'M18.375 12.739l-7.693 7.693a4.5 4.5 0 01-6.364-6.364l10.94-10.94A3 3 0 1119.5 7.372L8.552 18.32m.009-.01l-.01.01m5.699-9.941l-7.81 7.81a1.5 1.5 0 002.112 2.13'
+  },
+  {
+    id: 'watermark-pdf',
+    name: 'Watermark PDF',
+    description: 'Stamp text or an image over your PDF pages.',
+    category: 'PDF',
+    icon: 'M9.53 16.122a3 3 0 00-5.78 1.128 2.25 2.25 0 01-2.4 2.245 4.5 4.5 0 008.4-2.245c0-.399-.078-.78-.22-1.128zm0 0a15.998 15.998 0 003.388-1.62m-5.043-.025a15.994 15.994 0 011.622-3.395m3.42 3.42a15.995 15.995 0 004.764-4.648l3.876-5.814a1.151 1.151 0 00-1.597-1.597L14.146 6.32a15.996 15.996 0 00-4.649 4.763m3.42 3.42a6.776 6.776 0 00-3.42-3.42'
+  },
+  {
+    id: 'page-numbers-pdf',
+    name: 'Page Numbers',
+    description: 'Add page numbers, headers, footers and Bates numbers.',
+    category: 'PDF',
+    icon: 'M5.25 8.25h15m-16.5 7.5h15m-1.8-13.5l-3.9 19.5m-2.1-19.5l-3.9 19.5'
+  },
+  {
+    id: 'metadata-pdf',
+    name: 'Edit Metadata',
+    description: 'View and edit PDF title, author, keywords and more.',
+    category: 'PDF',
+    icon: 'M9.568 3H5.25A2.25 2.25 0 003 5.25v4.318c0 .597.237 1.17.659 1.591l9.581 9.581c.699.699 1.78.872 2.607.33a18.095 18.095 0 005.223-5.223c.542-.827.369-1.908-.33-2.607L11.16 3.66A2.25 2.25 0 009.568 3z M6 6h.008v.008H6V6z'
+  },
   {
     id: 'pdf-jpg',
     name: 'PDF to JPG',
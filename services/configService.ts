@@ -13,12 +13,32 @@ import {
   SplitPdfConfig,
   CompressPdfConfig,
   RotatePdfConfig,
+  EncryptPdfConfig,
+  WatermarkPdfConfig,
+  PageNumbersPdfConfig,
+  OrganizePdfConfig,
+  CropPdfConfig,
+  NUpPdfConfig,
+  ResizePdfConfig,
+  FlattenPdfConfig,
+  PdfToPowerPointConfig,
+  PdfToExcelConfig,
   DEFAULT_IMAGE_TO_PDF_CONFIG,
   DEFAULT_PDF_TO_IMAGE_CONFIG,
   DEFAULT_MERGE_PDF_CONFIG,
   DEFAULT_SPLIT_PDF_CONFIG,
   DEFAULT_COMPRESS_PDF_CONFIG,
   DEFAULT_ROTATE_PDF_CONFIG,
+  DEFAULT_ENCRYPT_PDF_CONFIG,
+  DEFAULT_WATERMARK_PDF_CONFIG,
+  DEFAULT_PAGE_NUMBERS_PDF_CONFIG,
+  DEFAULT_ORGANIZE_PDF_CONFIG,
+  DEFAULT_CROP_PDF_CONFIG,
+  DEFAULT_NUP_PDF_CONFIG,
+  DEFAULT_RESIZE_PDF_CONFIG,
+  DEFAULT_FLATTEN_PDF_CONFIG,
+  DEFAULT_PDF_TO_POWERPOINT_CONFIG,
+  DEFAULT_PDF_TO_EXCEL_CONFIG,
 } from '../types';
 
 const CONFIG_STORAGE_PREFIX = 'sola_config_';
@@ -30,7 +50,17 @@ type ToolConfig =
   | MergePdfConfig
   | SplitPdfConfig
   | CompressPdfConfig
-  | RotatePdfConfig;
+  | RotatePdfConfig
+  | EncryptPdfConfig
+  | WatermarkPdfConfig
+  | PageNumbersPdfConfig
+  | OrganizePdfConfig
+  | CropPdfConfig
+  | NUpPdfConfig
+  | ResizePdfConfig
+  | FlattenPdfConfig
+  | PdfToPowerPointConfig
+  | PdfToExcelConfig;
 
 interface StoredConfig {
   version: string;
@@ -122,6 +152,44 @@ class ConfigService {
       case 'rotate-pdf':
         return { ...DEFAULT_ROTATE_PDF_CONFIG };
 
+      case 'encrypt-pdf':
+        return {
+          ...DEFAULT_ENCRYPT_PDF_CONFIG,
+          permissions: { ...DEFAULT_ENCRYPT_PDF_CONFIG.permissions },
+        };
+
+      case 'watermark-pdf':
+        return { ...DEFAULT_WATERMARK_PDF_CONFIG };
+
+      case 'page-numbers-pdf':
+        return {
+          ...DEFAULT_PAGE_NUMBERS_PDF_CONFIG,
+          header: { ...DEFAULT_PAGE_NUMBERS_PDF_CONFIG.header },
+          footer: { ...DEFAULT_PAGE_NUMBERS_PDF_CONFIG.footer },
+          bates: { ...DEFAULT_PAGE_NUMBERS_PDF_CONFIG.bates },
+        };
+
+      case 'organize-pdf':
+        return { blankPage: { ...DEFAULT_ORGANIZE_PDF_CONFIG.blankPage } };
+
+      case 'crop-pdf':
+        return { ...DEFAULT_CROP_PDF_CONFIG };
+
+      case 'nup-pdf':
+        return { ...DEFAULT_NUP_PDF_CONFIG };
+
+      case 'resize-pdf':
+        return { ...DEFAULT_RESIZE_PDF_CONFIG };
+
+      case 'flatten-pdf':
+        return { ...DEFAULT_FLATTEN_PDF_CONFIG };
+
+      case 'pdf-ppt':
+        return { ...DEFAULT_PDF_TO_POWERPOINT_CONFIG };
+
+      case 'pdf-excel':
+        return { ...DEFAULT_PDF_TO_EXCEL_CONFIG };
+
       default:
         console.warn(`Unknown tool ID: ${toolId}, returning empty config`);
         return {} as ToolConfig;
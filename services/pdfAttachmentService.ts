@@ -0,0 +1,663 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * PDF file attachments — 100% client-side
+ * 1. List embedded files from the EmbeddedFiles name tree, the catalog's /AF array
+ *    and FileAttachment annotations, decoding each file's stream
+ * 2. Attach files at document level (name tree + /AF) or as page-level
+ *    FileAttachment annotations, with description, MIME type and relationship
+ * 3. Read ZUGFeRD / Factur-X / XRechnung invoice XML (CII or UBL syntax)
+ * 4. Attach invoice XML the way Factur-X expects: factur-x.xml in /AF plus the fx: XMP schema
+ */
+
+import {
+    PDFArray,
+    PDFDict,
+    PDFDocument,
+    PDFHexString,
+    PDFName,
+    PDFNumber,
+    PDFObject,
+    PDFRef,
+    PDFStream,
+    PDFString,
+} from 'pdf-lib';
+import { loadPDFDocument } from './pdfService';
+import { decodeStreamContents } from './pdfContentStream';
+import { editXmpPacket } from './pdfMetadataService';
+import { getPageFrame, toUserSpace } from './pdfGeometry';
+
+// ── Types ─────────────────────────────────────────
+
+/** How an attached file relates to the document (PDF 2.0 / PDF/A-3 AFRelationship) */
+export type AttachmentRelationship = 'Source' | 'Data' | 'Alternative' | 'Supplement' | 'Unspecified';
+
+export type AttachmentCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface PdfAttachment {
+    id: string;
+    name: string;
+    description: string;
+    mimeType: string;
+    size: number;
+    creationDate?: Date;
+    modificationDate?: Date;
+    relationship?: AttachmentRelationship;
+    pageIndex: number | null; // Null for document-level attachments
+    data: Uint8Array;
+}
+
+export interface NewAttachment {
+    name: string;
+    data: Uint8Array;
+    mimeType: string;
+    description: string;
+    relationship: AttachmentRelationship;
+    pageIndex: number | null; // Null attaches to the document, otherwise adds an annotation on this page
+    corner: AttachmentCorner; // Where the annotation icon goes on the displayed page
+}
+
+/** Factur-X / ZUGFeRD 2 profiles, as written to fx:ConformanceLevel */
+export type FacturXLevel = 'MINIMUM' | 'BASIC WL' | 'BASIC' | 'EN 16931' | 'EXTENDED' | 'XRECHNUNG';
+
+export interface InvoiceSummary {
+    syntax: 'CII' | 'UBL';
+    guideline?: string; // The specification identifier from the XML
+    profile?: FacturXLevel;
+    number?: string;
+    issueDate?: string; // YYYY-MM-DD
+    seller?: string;
+    buyer?: string;
+    currency?: string;
+    total?: string;
+    duePayable?: string;
+}
+
+export interface AttachPdfRequest {
+    attachments: NewAttachment[];
+    invoice?: {
+        data: Uint8Array;
+    };
+}
+
+// ── Constants ─────────────────────────────────────────
+
+/** File names receivers look for, in order of preference */
+export const INVOICE_FILE_NAMES = ['factur-x.xml', 'zugferd-invoice.xml', 'xrechnung.xml', 'order-x.xml'];
+
+const FX_NS = 'urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#';
+
+const XMP_NS = {
+    rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+    pdfaExtension: 'http://www.aiim.org/pdfa/ns/extension/',
+    pdfaSchema: 'http://www.aiim.org/pdfa/ns/schema#',
+    pdfaProperty: 'http://www.aiim.org/pdfa/ns/property#',
+    xmlns: 'http://www.w3.org/2000/xmlns/',
+} as const;
+
+/** Properties of the fx: schema; PDF/A requires custom schemas to describe themselves */
+const FX_PROPERTIES: Array<[string, string]> = [
+    ['DocumentFileName', 'The name of the embedded XML document'],
+    ['DocumentType', 'The type of the hybrid document in capital letters, e.g. INVOICE or ORDER'],
+    ['Version', 'The actual version of the standard applying to the embedded XML document'],
+    ['ConformanceLevel', 'The conformance level of the embedded XML document'],
+];
+
+const ICON_SIZE = 20; // Points
+const ICON_MARGIN = 24;
+
+const MIME_TYPES: Record<string, string> = {
+    pdf: 'application/pdf',
+    xml: 'text/xml',
+    json: 'application/json',
+    csv: 'text/csv',
+    txt: 'text/plain',
+    html: 'text/html',
+    htm: 'text/html',
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    zip: 'application/zip',
+    doc: 'application/msword',
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    xls: 'application/vnd.ms-excel',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    eml: 'message/rfc822',
+};
+
+/** A MIME type for a file name, for browsers that report none */
+export const guessMimeType = (name: string): string => {
+    const extension = name.toLowerCase().split('.').pop() ?? '';
+    return MIME_TYPES[extension] ?? 'application/octet-stream';
+};
+
+// ── Reading ─────────────────────────────────────────
+
+const decodeText = (value: PDFObject | undefined): string | undefined => {
+    if (value instanceof PDFString || value instanceof PDFHexString) return value.decodeText();
+    return undefined;
+};
+
+const decodeDate = (value: PDFObject | undefined): Date | undefined => {
+    if (!(value instanceof PDFString || value instanceof PDFHexString)) return undefined;
+    try {
+        const date = value.decodeDate();
+        return Number.isNaN(date.getTime()) ? undefined : date;
+    } catch {
+        return undefined;
+    }
+};
+
+const getEmbeddedFilesTree = (pdf: PDFDocument, create: boolean): PDFDict | undefined => {
+    let names = pdf.catalog.lookup(PDFName.of('Names'));
+    if (!(names instanceof PDFDict)) {
+        if (!create) return undefined;
+        names = pdf.context.obj({});
+        pdf.catalog.set(PDFName.of('Names'), pdf.context.register(names as PDFDict));
+    }
+    const namesDict = names as PDFDict;
+    let tree = namesDict.lookup(PDFName.of('EmbeddedFiles'));
+    if (!(tree instanceof PDFDict)) {
+        if (!create) return undefined;
+        tree = pdf.context.obj({});
+        namesDict.set(PDFName.of('EmbeddedFiles'), pdf.context.register(tree as PDFDict));
+    }
+    return tree as PDFDict;
+};
+
+/** Every key/value pair of a name tree, following Kids */
+const readNameTree = (node: PDFDict, entries: Array<{ key: string; value: PDFObject }> = [], depth = 0) => {
+    if (depth > 32) return entries; // Guard against reference cycles
+    const names = node.lookup(PDFName.of('Names'));
+    if (names instanceof PDFArray) {
+        for (let i = 0; i + 1 < names.size(); i += 2) {
+            entries.push({ key: decodeText(names.lookup(i)) ?? '', value: names.get(i + 1) });
+        }
+    }
+    const kids = node.lookup(PDFName.of('Kids'));
+    if (kids instanceof PDFArray) {
+        for (let i = 0; i < kids.size(); i++) {
+            const kid = kids.lookup(i);
+            if (kid instanceof PDFDict) readNameTree(kid, entries, depth + 1);
+        }
+    }
+    return entries;
+};
+
+/** The embedded file of a file specification, or undefined for references to external files */
+const readFileSpec = (spec: PDFDict, fallbackName: string): Omit<PdfAttachment, 'id' | 'pageIndex'> | undefined => {
+    const ef = spec.lookup(PDFName.of('EF'));
+    if (!(ef instanceof PDFDict)) return undefined;
+    const stream = ef.lookup(PDFName.of('UF')) ?? ef.lookup(PDFName.of('F'));
+    if (!(stream instanceof PDFStream)) return undefined;
+
+    let data: Uint8Array;
+    try {
+        data = decodeStreamContents(stream);
+    } catch {
+        return undefined; // Unsupported filter
+    }
+
+    const rawName = decodeText(spec.lookup(PDFName.of('UF'))) || decodeText(spec.lookup(PDFName.of('F'))) || fallbackName;
+    const subtype = stream.dict.lookup(PDFName.of('Subtype'));
+    const params = stream.dict.lookup(PDFName.of('Params'));
+    const relationship = spec.lookup(PDFName.of('AFRelationship'));
+
+    return {
+        name: rawName.split(/[\\/]/).pop() || 'attachment',
+        description: decodeText(spec.lookup(PDFName.of('Desc'))) ?? '',
+        mimeType: subtype instanceof PDFName ? subtype.decodeText() : '',
+        size: data.length,
+        creationDate: params instanceof PDFDict ? decodeDate(params.lookup(PDFName.of('CreationDate'))) : undefined,
+        modificationDate: params instanceof PDFDict ? decodeDate(params.lookup(PDFName.of('ModDate'))) : undefined,
+        relationship: relationship instanceof PDFName ? relationship.decodeText() as AttachmentRelationship : undefined,
+        data,
+    };
+};
+
+/**
+ * All embedded files: document-level ones first, then those attached to pages.
+ * A file reachable from several places (name tree and /AF) is listed once.
+ */
+export const listAttachments = (pdf: PDFDocument): PdfAttachment[] => {
+    const attachments: PdfAttachment[] = [];
+    const seen = new Set<PDFDict>();
+
+    const add = (spec: PDFObject | undefined, fallbackName: string, pageIndex: number | null) => {
+        const dict = spec instanceof PDFRef ? pdf.context.lookup(spec) : spec;
+        if (!(dict instanceof PDFDict) || seen.has(dict)) return;
+        seen.add(dict);
+        const file = readFileSpec(dict, fallbackName);
+        if (file) attachments.push({ ...file, id: `attachment-${attachments.length}`, pageIndex });
+    };
+
+    const tree = getEmbeddedFilesTree(pdf, false);
+    if (tree) {
+        for (const { key, value } of readNameTree(tree)) add(value, key, null);
+    }
+
+    const af = pdf.catalog.lookup(PDFName.of('AF'));
+    if (af instanceof PDFArray) {
+        for (let i = 0; i < af.size(); i++) add(af.get(i), 'attachment', null);
+    }
+
+    pdf.getPages().forEach((page, pageIndex) => {
+        const annots = page.node.Annots();
+        if (!annots) return;
+        for (let i = 0; i < annots.size(); i++) {
+            const annot = annots.lookup(i);
+            if (!(annot instanceof PDFDict)) continue;
+            if (annot.lookup(PDFName.of('Subtype')) !== PDFName.of('FileAttachment')) continue;
+            add(annot.get(PDFName.of('FS')), 'attachment', pageIndex);
+        }
+    });
+
+    return attachments;
+};
+
+// ── Writing ─────────────────────────────────────────
+
+/** A byte string for the legacy /F entry: printable ASCII only */
+const asciiString = (text: string): PDFHexString =>
+    PDFHexString.of(Array.from(text.replace(/[^\x20-\x7e]/g, '_'), c => c.charCodeAt(0).toString(16).padStart(2, '0')).join(''));
+
+/** Embed the file's bytes and return a reference to its file specification */
+const embedFileSpec = (pdf: PDFDocument, attachment: NewAttachment, now: Date): PDFRef => {
+    const streamDict: Record<string, PDFObject> = {
+        Type: PDFName.of('EmbeddedFile'),
+        Params: pdf.context.obj({
+            Size: PDFNumber.of(attachment.data.length),
+            CreationDate: PDFString.fromDate(now),
+            ModDate: PDFString.fromDate(now),
+        }),
+    };
+    // The MIME type is a name, so "/" is written as #2F
+    if (attachment.mimeType) streamDict.Subtype = PDFName.of(attachment.mimeType);
+    // Copied into a plain Uint8Array: pdf-lib checks the type with instanceof
+    const streamRef = pdf.context.register(pdf.context.flateStream(new Uint8Array(attachment.data), streamDict));
+
+    const spec = pdf.context.obj({
+        Type: 'Filespec',
+        F: asciiString(attachment.name),
+        UF: PDFHexString.fromText(attachment.name),
+        EF: { F: streamRef, UF: streamRef },
+        AFRelationship: attachment.relationship,
+    });
+    if (attachment.description) spec.set(PDFName.of('Desc'), PDFHexString.fromText(attachment.description));
+    return pdf.context.register(spec);
+};
+
+/** Rewrite the EmbeddedFiles tree as a single sorted Names array, as readers binary-search it */
+const writeNameTree = (tree: PDFDict, entries: Array<{ key: string; value: PDFObject }>) => {
+    const sorted = [...entries].sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+    const names = PDFArray.withContext(tree.context);
+    for (const { key, value } of sorted) {
+        names.push(PDFHexString.fromText(key));
+        names.push(value);
+    }
+    tree.set(PDFName.of('Names'), names);
+    tree.delete(PDFName.of('Kids'));
+    tree.delete(PDFName.of('Limits'));
+};
+
+const getAFArray = (pdf: PDFDocument): PDFArray => {
+    const existing = pdf.catalog.lookup(PDFName.of('AF'));
+    if (existing instanceof PDFArray) return existing;
+    const af = pdf.context.obj([]);
+    pdf.catalog.set(PDFName.of('AF'), af);
+    return af;
+};
+
+const fileSpecName = (pdf: PDFDocument, value: PDFObject): string => {
+    const spec = value instanceof PDFRef ? pdf.context.lookup(value) : value;
+    if (!(spec instanceof PDFDict)) return '';
+    return decodeText(spec.lookup(PDFName.of('UF'))) || decodeText(spec.lookup(PDFName.of('F'))) || '';
+};
+
+/**
+ * Remove document-level attachments whose file name matches, from both the name tree and /AF
+ * @returns The number of attachments removed
+ */
+export const removeDocumentAttachments = (pdf: PDFDocument, matches: (name: string) => boolean): number => {
+    let removed = 0;
+    const tree = getEmbeddedFilesTree(pdf, false);
+    if (tree) {
+        const entries = readNameTree(tree);
+        const kept = entries.filter(entry => !matches(fileSpecName(pdf, entry.value) || entry.key));
+        removed = entries.length - kept.length;
+        if (removed > 0) writeNameTree(tree, kept);
+    }
+
+    const af = pdf.catalog.lookup(PDFName.of('AF'));
+    if (af instanceof PDFArray) {
+        for (let i = af.size() - 1; i >= 0; i--) {
+            if (matches(fileSpecName(pdf, af.get(i)))) af.remove(i);
+        }
+    }
+    return removed;
+};
+
+/** Add a FileAttachment annotation showing a paperclip in a corner of the page */
+const addAttachmentAnnotation = (pdf: PDFDocument, specRef: PDFRef, attachment: NewAttachment, now: Date) => {
+    const page = pdf.getPage(attachment.pageIndex!);
+    const frame = getPageFrame(page);
+    const left = attachment.corner.endsWith('left') ? ICON_MARGIN : frame.width - ICON_MARGIN - ICON_SIZE;
+    const bottom = attachment.corner.startsWith('top') ? frame.height - ICON_MARGIN - ICON_SIZE : ICON_MARGIN;
+    const a = toUserSpace(frame, left, bottom);
+    const b = toUserSpace(frame, left + ICON_SIZE, bottom + ICON_SIZE);
+
+    const annot = pdf.context.obj({
+        Type: 'Annot',
+        Subtype: 'FileAttachment',
+        Rect: [Math.min(a.x, b.x), Math.min(a.y, b.y), Math.max(a.x, b.x), Math.max(a.y, b.y)],
+        FS: specRef,
+        Contents: PDFHexString.fromText(attachment.description || attachment.name),
+        Name: 'Paperclip',
+        F: 4, // Print
+        M: PDFString.fromDate(now),
+        P: page.ref,
+    });
+    page.node.addAnnot(pdf.context.register(annot));
+};
+
+/**
+ * Attach a file to the document or to one of its pages.
+ * Document-level files go into the EmbeddedFiles name tree and the catalog's /AF array;
+ * names already in use get a numbered key so nothing is overwritten.
+ */
+export const attachFile = (pdf: PDFDocument, attachment: NewAttachment, now: Date = new Date()): void => {
+    if (!attachment.name.trim()) {
+        throw new Error('Attachment needs a file name');
+    }
+    if (attachment.pageIndex !== null && (attachment.pageIndex < 0 || attachment.pageIndex >= pdf.getPageCount())) {
+        throw new Error(`Page ${attachment.pageIndex + 1} does not exist`);
+    }
+
+    const specRef = embedFileSpec(pdf, attachment, now);
+
+    if (attachment.pageIndex !== null) {
+        addAttachmentAnnotation(pdf, specRef, attachment, now);
+        return;
+    }
+
+    const tree = getEmbeddedFilesTree(pdf, true)!;
+    const entries = readNameTree(tree);
+    const keys = new Set(entries.map(entry => entry.key));
+    let key = attachment.name;
+    for (let n = 2; keys.has(key); n++) key = `${attachment.name} (${n})`;
+    writeNameTree(tree, [...entries, { key, value: specRef }]);
+    getAFArray(pdf).push(specRef);
+};
+
+// ── E-invoices ─────────────────────────────────────────
+
+export const isInvoiceFileName = (name: string): boolean =>
+    INVOICE_FILE_NAMES.includes(name.toLowerCase());
+
+/** The attachment carrying the invoice data, preferring the standard file names */
+export const findInvoiceAttachment = (attachments: PdfAttachment[]): PdfAttachment | undefined => {
+    for (const name of INVOICE_FILE_NAMES) {
+        const match = attachments.find(a => a.pageIndex === null && a.name.toLowerCase() === name);
+        if (match) return match;
+    }
+    return undefined;
+};
+
+/** Map a CII guideline or UBL customization identifier to a profile */
+const detectProfile = (guideline: string | undefined): FacturXLevel | undefined => {
+    const id = guideline?.toLowerCase() ?? '';
+    // More specific identifiers first: extended and basic ids also mention en16931
+    if (id.includes('xrechnung')) return 'XRECHNUNG';
+    if (id.includes('extended')) return 'EXTENDED';
+    if (id.includes('minimum')) return 'MINIMUM';
+    if (id.includes('basicwl')) return 'BASIC WL';
+    if (id.includes('basic')) return 'BASIC';
+    if (id.includes('en16931') || id.includes('comfort')) return 'EN 16931';
+    return undefined;
+};
+
+/** Text of the first element reached through the local names, each searched among descendants */
+const findText = (root: Element, ...path: string[]): string | undefined => {
+    let nodes: Element[] = [root];
+    for (const name of path) {
+        nodes = nodes.flatMap(node => Array.from(node.getElementsByTagNameNS('*', name)));
+        if (nodes.length === 0) return undefined;
+    }
+    return nodes[0].textContent?.trim() || undefined;
+};
+
+/** CII dates use format 102 (YYYYMMDD) */
+const formatInvoiceDate = (value: string | undefined): string | undefined => {
+    const match = value?.match(/^(\d{4})(\d{2})(\d{2})$/);
+    return match ? `${match[1]}-${match[2]}-${match[3]}` : value;
+};
+
+/**
+ * Read the key facts of a ZUGFeRD / Factur-X (CII) or XRechnung (CII or UBL) invoice
+ */
+export const readInvoiceXml = (xml: string | Uint8Array): InvoiceSummary => {
+    const text = typeof xml === 'string' ? xml : new TextDecoder('utf-8').decode(xml);
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('The invoice is not well-formed XML');
+    }
+    const root = doc.documentElement;
+
+    if (root.localName === 'CrossIndustryInvoice' || root.localName === 'CrossIndustryDocument') {
+        const guideline = findText(root, 'GuidelineSpecifiedDocumentContextParameter', 'ID');
+        return {
+            syntax: 'CII',
+            guideline,
+            profile: detectProfile(guideline),
+            // ZUGFeRD 1 used HeaderExchangedDocument and SpecifiedTradeSettlementMonetarySummation
+            number: findText(root, 'ExchangedDocument', 'ID') ?? findText(root, 'HeaderExchangedDocument', 'ID'),
+            issueDate: formatInvoiceDate(
+                findText(root, 'ExchangedDocument', 'IssueDateTime', 'DateTimeString')
+                ?? findText(root, 'HeaderExchangedDocument', 'IssueDateTime', 'DateTimeString')),
+            seller: findText(root, 'SellerTradeParty', 'Name'),
+            buyer: findText(root, 'BuyerTradeParty', 'Name'),
+            currency: findText(root, 'InvoiceCurrencyCode'),
+            total: findText(root, 'GrandTotalAmount'),
+            duePayable: findText(root, 'DuePayableAmount'),
+        };
+    }
+
+    if (root.localName === 'Invoice' || root.localName === 'CreditNote') {
+        const guideline = findText(root, 'CustomizationID');
+        return {
+            syntax: 'UBL',
+            guideline,
+            profile: detectProfile(guideline),
+            number: findText(root, 'ID'),
+            issueDate: findText(root, 'IssueDate'),
+            seller: findText(root, 'AccountingSupplierParty', 'RegistrationName') ?? findText(root, 'AccountingSupplierParty', 'Name'),
+            buyer: findText(root, 'AccountingCustomerParty', 'RegistrationName') ?? findText(root, 'AccountingCustomerParty', 'Name'),
+            currency: findText(root, 'DocumentCurrencyCode'),
+            total: findText(root, 'LegalMonetaryTotal', 'TaxInclusiveAmount'),
+            duePayable: findText(root, 'LegalMonetaryTotal', 'PayableAmount'),
+        };
+    }
+
+    throw new Error('The XML is not a ZUGFeRD, Factur-X or XRechnung invoice');
+};
+
+/** Remove every attribute and child of the namespace from all rdf:Description elements */
+const removeXmpNamespace = (doc: Document, ns: string) => {
+    for (const description of Array.from(doc.getElementsByTagNameNS(XMP_NS.rdf, 'Description'))) {
+        for (const attribute of Array.from(description.attributes)) {
+            if (attribute.namespaceURI === ns) {
+                description.removeAttributeNode(attribute);
+            }
+        }
+        for (const child of Array.from(description.children)) {
+            if (child.namespaceURI === ns) {
+                description.removeChild(child);
+            }
+        }
+    }
+};
+
+const appendDescription = (doc: Document, rdf: Element, prefixes: Array<keyof typeof XMP_NS | 'fx'>): Element => {
+    const description = doc.createElementNS(XMP_NS.rdf, 'rdf:Description');
+    description.setAttributeNS(XMP_NS.rdf, 'rdf:about', '');
+    for (const prefix of prefixes) {
+        description.setAttributeNS(XMP_NS.xmlns, `xmlns:${prefix}`, prefix === 'fx' ? FX_NS : XMP_NS[prefix]);
+    }
+    rdf.appendChild(description);
+    return description;
+};
+
+const appendElement = (doc: Document, parent: Element, ns: string, qualifiedName: string, text?: string): Element => {
+    const element = doc.createElementNS(ns, qualifiedName);
+    if (text !== undefined) element.textContent = text;
+    parent.appendChild(element);
+    return element;
+};
+
+/** The PDF/A extension schema entry describing the fx: properties */
+const buildFxSchema = (doc: Document): Element => {
+    const li = doc.createElementNS(XMP_NS.rdf, 'rdf:li');
+    li.setAttributeNS(XMP_NS.rdf, 'rdf:parseType', 'Resource');
+    appendElement(doc, li, XMP_NS.pdfaSchema, 'pdfaSchema:schema', 'Factur-X PDFA Extension Schema');
+    appendElement(doc, li, XMP_NS.pdfaSchema, 'pdfaSchema:namespaceURI', FX_NS);
+    appendElement(doc, li, XMP_NS.pdfaSchema, 'pdfaSchema:prefix', 'fx');
+    const seq = appendElement(doc, appendElement(doc, li, XMP_NS.pdfaSchema, 'pdfaSchema:property'), XMP_NS.rdf, 'rdf:Seq');
+    for (const [name, description] of FX_PROPERTIES) {
+        const property = appendElement(doc, seq, XMP_NS.rdf, 'rdf:li');
+        property.setAttributeNS(XMP_NS.rdf, 'rdf:parseType', 'Resource');
+        appendElement(doc, property, XMP_NS.pdfaProperty, 'pdfaProperty:name', name);
+        appendElement(doc, property, XMP_NS.pdfaProperty, 'pdfaProperty:valueType', 'Text');
+        appendElement(doc, property, XMP_NS.pdfaProperty, 'pdfaProperty:category', 'external');
+        appendElement(doc, property, XMP_NS.pdfaProperty, 'pdfaProperty:description', description);
+    }
+    return li;
+};
+
+/** Write the fx: properties receivers use to find the invoice, replacing earlier ones */
+const writeFacturXXmp = (pdf: PDFDocument, fileName: string, level: FacturXLevel) => {
+    editXmpPacket(pdf, (doc, rdf) => {
+        removeXmpNamespace(doc, FX_NS);
+
+        const fx = appendDescription(doc, rdf, ['fx']);
+        appendElement(doc, fx, FX_NS, 'fx:DocumentType', 'INVOICE');
+        appendElement(doc, fx, FX_NS, 'fx:DocumentFileName', fileName);
+        appendElement(doc, fx, FX_NS, 'fx:Version', '1.0');
+        appendElement(doc, fx, FX_NS, 'fx:ConformanceLevel', level);
+
+        // Keep other extension schemas, replacing only an earlier fx: description
+        let bag = Array.from(doc.getElementsByTagNameNS(XMP_NS.pdfaExtension, 'schemas'))[0]
+            ?.getElementsByTagNameNS(XMP_NS.rdf, 'Bag')[0];
+        if (bag) {
+            for (const li of Array.from(bag.children)) {
+                if (findText(li, 'namespaceURI') === FX_NS) bag.removeChild(li);
+            }
+        } else {
+            const extension = appendDescription(doc, rdf, ['pdfaExtension', 'pdfaSchema', 'pdfaProperty']);
+            bag = appendElement(doc, appendElement(doc, extension, XMP_NS.pdfaExtension, 'pdfaExtension:schemas'), XMP_NS.rdf, 'rdf:Bag');
+        }
+        bag.appendChild(buildFxSchema(doc));
+    });
+};
+
+/**
+ * Attach invoice XML as Factur-X / ZUGFeRD 2 expects, replacing an earlier invoice:
+ * a document-level factur-x.xml (xrechnung.xml for XRechnung) listed in /AF, and fx: XMP metadata
+ */
+export const attachInvoiceXml = (
+    pdf: PDFDocument,
+    xml: Uint8Array,
+    options: { level?: FacturXLevel } = {},
+    now: Date = new Date()
+): InvoiceSummary => {
+    const summary = readInvoiceXml(xml);
+    const level = options.level ?? summary.profile ?? 'EN 16931';
+    const name = level === 'XRECHNUNG' ? 'xrechnung.xml' : 'factur-x.xml';
+
+    removeDocumentAttachments(pdf, isInvoiceFileName);
+    attachFile(pdf, {
+        name,
+        data: xml,
+        mimeType: 'text/xml',
+        description: level === 'XRECHNUNG' ? 'XRechnung invoice' : 'Factur-X/ZUGFeRD invoice',
+        // Factur-X: the XML only carries data for the lighter profiles, otherwise it is the invoice
+        relationship: level === 'MINIMUM' || level === 'BASIC WL' ? 'Data' : 'Alternative',
+        pageIndex: null,
+        corner: 'top-right',
+    }, now);
+    writeFacturXXmp(pdf, name, level);
+    return summary;
+};
+
+// ── Main entry points ─────────────────────────────────────────
+
+/**
+ * Load a PDF's attachments, and the e-invoice it carries if any
+ */
+export const getPDFAttachments = async (
+    file: File,
+    password?: string
+): Promise<{ attachments: PdfAttachment[]; pageCount: number; invoice?: { attachment: PdfAttachment; summary: InvoiceSummary } }> => {
+    if (!file.type.includes('pdf') && !file.name.toLowerCase().endsWith('.pdf')) {
+        throw new Error('File is not a PDF');
+    }
+
+    const pdf = await loadPDFDocument(await file.arrayBuffer(), password, { updateMetadata: false });
+    const attachments = listAttachments(pdf);
+
+    const invoiceAttachment = findInvoiceAttachment(attachments);
+    let invoice: { attachment: PdfAttachment; summary: InvoiceSummary } | undefined;
+    if (invoiceAttachment) {
+        try {
+            invoice = { attachment: invoiceAttachment, summary: readInvoiceXml(invoiceAttachment.data) };
+        } catch {
+            invoice = undefined; // Named like an invoice but unreadable; still listed as a plain attachment
+        }
+    }
+
+    return { attachments, pageCount: pdf.getPageCount(), invoice };
+};
+
+/**
+ * Add attachments (and optionally invoice XML) to a PDF
+ * @returns Promise<Uint8Array> - The updated PDF
+ */
+export const addPDFAttachments = async (
+    file: File,
+    request: AttachPdfRequest,
+    password?: string,
+    onProgress?: (progress: number, status: string) => void,
+    abortSignal?: { current: boolean }
+): Promise<Uint8Array> => {
+    if (!file.type.includes('pdf') && !file.name.toLowerCase().endsWith('.pdf')) {
+        throw new Error('File is not a PDF');
+    }
+    if (request.attachments.length === 0 && !request.invoice) {
+        throw new Error('Nothing to attach');
+    }
+
+    onProgress?.(5, 'Loading PDF...');
+    const pdf = await loadPDFDocument(await file.arrayBuffer(), password);
+    if (abortSignal?.current) throw new Error('Attaching cancelled');
+
+    const now = new Date();
+    if (request.invoice) {
+        onProgress?.(15, 'Attaching invoice XML...');
+        attachInvoiceXml(pdf, request.invoice.data, {}, now);
+    }
+
+    for (let i = 0; i < request.attachments.length; i++) {
+        if (abortSignal?.current) throw new Error('Attaching cancelled');
+        const attachment = request.attachments[i];
+        onProgress?.(20 + (i / request.attachments.length) * 60, `Attaching ${attachment.name}...`);
+        attachFile(pdf, attachment, now);
+    }
+
+    onProgress?.(85, 'Saving PDF...');
+    const data = await pdf.save();
+
+    onProgress?.(100, 'Attachments added!');
+    return data;
+};
@@ -0,0 +1,787 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * PDF comparison — 100% client-side
+ * 1. Extract the words of every page of both documents with pdf.js
+ * 2. Align the pages, so an inserted or removed page does not shift every later comparison
+ * 3. Diff the words of each page pair, and render both pages to find the pixels that changed
+ * 4. Export a report with each page pair side by side and the insertions and deletions marked
+ */
+
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import { extractTextItemsFromDoc, renderPDFPageFromDoc, type DetectedTextItem } from './pdfEditorService';
+import { canvasToJpegBytes } from './pdfImageCodec';
+import { toFontCharacters } from './pdfGeometry';
+
+// ── Types ─────────────────────────────────────────
+
+/** A box on a page as displayed, in points from its top-left corner */
+export interface CompareRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface CompareWord extends CompareRect {
+    text: string;
+}
+
+export interface CompareOptions {
+    ignoreCase: boolean;
+    /** Render both pages and find the areas whose pixels differ */
+    compareVisual: boolean;
+    /** Smallest difference in any colour channel (0–255) that counts as a change */
+    pixelThreshold: number;
+}
+
+export interface DiffRun {
+    type: 'equal' | 'delete' | 'insert';
+    /** Word range in the original; empty for insertions */
+    aStart: number;
+    aEnd: number;
+    /** Word range in the revision; empty for deletions */
+    bStart: number;
+    bEnd: number;
+}
+
+export interface TextChange {
+    type: 'insert' | 'delete';
+    text: string;
+    /** Boxes of the changed words: on the original page for deletions, on the revised page for insertions */
+    rects: CompareRect[];
+}
+
+export interface PageComparison {
+    /** 0-based page index in the original; null for a page only in the revision */
+    left: number | null;
+    /** 0-based page index in the revision; null for a page only in the original */
+    right: number | null;
+    leftSize: { width: number; height: number } | null;
+    rightSize: { width: number; height: number } | null;
+    changes: TextChange[];
+    /** Areas whose pixels differ, with both pages laid top-left corner to top-left corner */
+    regions: CompareRect[];
+    /** Share of the pixels that differ, 0–1 */
+    pixelDifference: number;
+}
+
+export interface ComparisonResult {
+    pages: PageComparison[];
+    insertions: number;
+    deletions: number;
+    changedPages: number;
+}
+
+/** RGBA pixels, as in ImageData */
+export interface PixelBuffer {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+}
+
+interface PageWords {
+    words: CompareWord[];
+    width: number;
+    height: number;
+}
+
+// ── Constants ─────────────────────────────────────
+
+export const DEFAULT_COMPARE_OPTIONS: CompareOptions = {
+    ignoreCase: false,
+    compareVisual: true,
+    pixelThreshold: 48,
+};
+
+/** Pages less alike than this (share of common words) are only paired when nothing better fits */
+const MIN_PAGE_SIMILARITY = 0.25;
+
+/** Word diffs larger than this many table cells are reported as a whole-page replacement */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/** Items whose tops differ by less than this (in line heights) are on the same line */
+const SAME_LINE = 0.5;
+
+/** Items on a line closer than this (in line heights) are parts of one word */
+const WORD_GAP = 0.15;
+
+/** Pages are rendered at 72 dpi for the pixel comparison */
+const COMPARE_SCALE = 1;
+
+/** Changed pixels are grouped into cells of this many pixels before being merged into regions */
+const REGION_CELL = 8;
+
+/** Mask values from diffPixels */
+const PIXEL_REMOVED = 1;
+const PIXEL_ADDED = 2;
+const PIXEL_CHANGED = 3;
+
+const REPORT_PAGE = { width: 842, height: 595 };
+const REPORT_MARGIN = 24;
+const REPORT_HEADER = 40;
+const REPORT_SCALE = 1.5;
+const SUMMARY_ROWS_PER_PAGE = 28;
+
+const DELETION_COLOR = rgb(0.86, 0.15, 0.15);
+const INSERTION_COLOR = rgb(0.09, 0.64, 0.29);
+const REGION_COLOR = rgb(0.96, 0.62, 0.04);
+
+// ── Words ─────────────────────────────────────────
+
+/**
+ * Split text items into words with estimated boxes. Items that pdf.js split
+ * inside a word (for kerning, say) are joined back up.
+ */
+export const splitIntoWords = (items: DetectedTextItem[]): CompareWord[] => {
+    const words: CompareWord[] = [];
+    let previous: DetectedTextItem | null = null;
+    let previousEndsWord = false;
+
+    for (const item of items) {
+        const step = item.width / item.text.length;
+        const joins = previous !== null && previousEndsWord && !/^\s/.test(item.text) &&
+            Math.abs(item.y - previous.y) < SAME_LINE * item.height &&
+            Math.abs(item.x - (previous.x + previous.width)) < WORD_GAP * item.height;
+
+        for (const match of item.text.matchAll(/\S+/g)) {
+            const start = match.index ?? 0;
+            const word: CompareWord = {
+                text: match[0],
+                x: item.x + start * step,
+                y: item.y,
+                width: match[0].length * step,
+                height: item.height,
+            };
+
+            const last = words[words.length - 1];
+            if (joins && start === 0 && last) {
+                const right = word.x + word.width;
+                const bottom = Math.max(last.y + last.height, word.y + word.height);
+                last.text += word.text;
+                last.y = Math.min(last.y, word.y);
+                last.width = right - last.x;
+                last.height = bottom - last.y;
+            } else {
+                words.push(word);
+            }
+        }
+
+        previous = item;
+        previousEndsWord = !/\s$/.test(item.text);
+    }
+
+    return words;
+};
+
+const normalize = (text: string, options: CompareOptions): string =>
+    options.ignoreCase ? text.toLocaleLowerCase() : text;
+
+// ── Page alignment ────────────────────────────────
+
+/** Share of words two pages have in common (Dice coefficient over word counts) */
+const pageSimilarity = (a: string[], b: string[]): number => {
+    if (a.length === 0 && b.length === 0) return 1;
+
+    const counts = new Map<string, number>();
+    for (const word of a) counts.set(word, (counts.get(word) ?? 0) + 1);
+    let shared = 0;
+    for (const word of b) {
+        const count = counts.get(word) ?? 0;
+        if (count > 0) {
+            shared++;
+            counts.set(word, count - 1);
+        }
+    }
+    return (2 * shared) / (a.length + b.length);
+};
+
+/**
+ * Pair the pages of two documents by their words. Pages that match well anchor
+ * the alignment; pages between the same anchors are paired in order, and any
+ * left over are reported as removed (right null) or inserted (left null).
+ */
+export const alignPages = (left: string[][], right: string[][]): Array<{ left: number | null; right: number | null }> => {
+    const n = left.length;
+    const m = right.length;
+    const gain = (i: number, j: number) => pageSimilarity(left[i], right[j]) - MIN_PAGE_SIMILARITY;
+
+    // score[i][j]: best total gain aligning the first i original and j revised pages
+    const score = Array.from({ length: n + 1 }, () => new Float64Array(m + 1));
+    for (let i = 1; i <= n; i++) {
+        for (let j = 1; j <= m; j++) {
+            score[i][j] = Math.max(score[i - 1][j], score[i][j - 1], score[i - 1][j - 1] + gain(i - 1, j - 1));
+        }
+    }
+
+    const anchors: Array<[number, number]> = [];
+    for (let i = n, j = m; i > 0 && j > 0;) {
+        const diagonal = score[i - 1][j - 1] + gain(i - 1, j - 1);
+        if (diagonal > 0 && Math.abs(score[i][j] - diagonal) < 1e-9) {
+            anchors.unshift([i - 1, j - 1]);
+            i--;
+            j--;
+        } else if (score[i - 1][j] >= score[i][j - 1]) {
+            i--;
+        } else {
+            j--;
+        }
+    }
+
+    const pairs: Array<{ left: number | null; right: number | null }> = [];
+    let i = 0;
+    let j = 0;
+    for (const [anchorLeft, anchorRight] of [...anchors, [n, m] as [number, number]]) {
+        while (i < anchorLeft && j < anchorRight) pairs.push({ left: i++, right: j++ });
+        while (i < anchorLeft) pairs.push({ left: i++, right: null });
+        while (j < anchorRight) pairs.push({ left: null, right: j++ });
+        if (anchorLeft < n) pairs.push({ left: i++, right: j++ });
+    }
+    return pairs;
+};
+
+// ── Word diff ─────────────────────────────────────
+
+/**
+ * Word-level diff as runs of equal, deleted and inserted words. Where both
+ * happen at one place the deletion comes first.
+ */
+export const diffWords = (a: string[], b: string[]): DiffRun[] => {
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+    const n = a.length - prefix - suffix;
+    const m = b.length - prefix - suffix;
+    const steps: Array<DiffRun['type']> = new Array(prefix).fill('equal');
+
+    if (n * m > MAX_DIFF_CELLS) {
+        steps.push(...new Array(n).fill('delete'), ...new Array(m).fill('insert'));
+    } else {
+        // lcs[i * (m + 1) + j]: longest common subsequence of the middle parts from i and j on
+        const lcs = new Uint32Array((n + 1) * (m + 1));
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = m - 1; j >= 0; j--) {
+                lcs[i * (m + 1) + j] = a[prefix + i] === b[prefix + j]
+                    ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+                    : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+            }
+        }
+
+        let i = 0;
+        let j = 0;
+        while (i < n || j < m) {
+            if (i < n && j < m && a[prefix + i] === b[prefix + j]) {
+                steps.push('equal');
+                i++;
+                j++;
+            } else if (j === m || (i < n && lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+                steps.push('delete');
+                i++;
+            } else {
+                steps.push('insert');
+                j++;
+            }
+        }
+    }
+    steps.push(...new Array(suffix).fill('equal'));
+
+    const runs: DiffRun[] = [];
+    let aIndex = 0;
+    let bIndex = 0;
+    for (const type of steps) {
+        const last = runs[runs.length - 1];
+        if (!last || last.type !== type) {
+            runs.push({ type, aStart: aIndex, aEnd: aIndex, bStart: bIndex, bEnd: bIndex });
+        }
+        const run = runs[runs.length - 1];
+        if (type !== 'insert') run.aEnd = ++aIndex;
+        if (type !== 'delete') run.bEnd = ++bIndex;
+    }
+    return runs;
+};
+
+/** The changes between two pages' words; a page on one side only is a single change */
+const compareWords = (left: CompareWord[] | null, right: CompareWord[] | null, options: CompareOptions): TextChange[] => {
+    const change = (type: TextChange['type'], words: CompareWord[]): TextChange => ({
+        type,
+        text: words.map(word => word.text).join(' '),
+        rects: words.map(({ x, y, width, height }) => ({ x, y, width, height })),
+    });
+
+    if (!left || !right) {
+        const words = left ?? right ?? [];
+        return words.length > 0 ? [change(left ? 'delete' : 'insert', words)] : [];
+    }
+
+    return diffWords(
+        left.map(word => normalize(word.text, options)),
+        right.map(word => normalize(word.text, options))
+    )
+        .filter(run => run.type !== 'equal')
+        .map(run => run.type === 'delete'
+            ? change('delete', left.slice(run.aStart, run.aEnd))
+            : change('insert', right.slice(run.bStart, run.bEnd)));
+};
+
+// ── Pixel diff ────────────────────────────────────
+
+const luminance = (data: Uint8ClampedArray, offset: number): number =>
+    0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+
+/**
+ * Compare two renders of the same size pixel by pixel. The mask marks pixels
+ * only darker in the original as removed and only darker in the revision as added.
+ */
+export const diffPixels = (a: PixelBuffer, b: PixelBuffer, threshold: number): { mask: Uint8Array; changed: number } => {
+    const mask = new Uint8Array(a.width * a.height);
+    let changed = 0;
+
+    for (let p = 0; p < mask.length; p++) {
+        const o = p * 4;
+        const delta = Math.max(
+            Math.abs(a.data[o] - b.data[o]),
+            Math.abs(a.data[o + 1] - b.data[o + 1]),
+            Math.abs(a.data[o + 2] - b.data[o + 2])
+        );
+        if (delta <= threshold) continue;
+
+        const shift = luminance(b.data, o) - luminance(a.data, o);
+        mask[p] = shift > threshold ? PIXEL_REMOVED : shift < -threshold ? PIXEL_ADDED : PIXEL_CHANGED;
+        changed++;
+    }
+
+    return { mask, changed };
+};
+
+/** Bounding boxes, in pixels, of the groups of changed pixels; groups a cell apart are merged */
+export const findChangedRegions = (mask: Uint8Array, width: number, height: number, cellSize: number = REGION_CELL): CompareRect[] => {
+    const columns = Math.ceil(width / cellSize);
+    const rows = Math.ceil(height / cellSize);
+    const cells = new Uint8Array(columns * rows);
+    for (let p = 0; p < mask.length; p++) {
+        if (mask[p]) cells[Math.floor(Math.floor(p / width) / cellSize) * columns + Math.floor((p % width) / cellSize)] = 1;
+    }
+
+    const regions: CompareRect[] = [];
+    const seen = new Uint8Array(cells.length);
+    for (let start = 0; start < cells.length; start++) {
+        if (!cells[start] || seen[start]) continue;
+
+        let [left, top, right, bottom] = [columns, rows, 0, 0];
+        const stack = [start];
+        seen[start] = 1;
+        while (stack.length > 0) {
+            const cell = stack.pop()!;
+            const cx = cell % columns;
+            const cy = Math.floor(cell / columns);
+            left = Math.min(left, cx);
+            top = Math.min(top, cy);
+            right = Math.max(right, cx + 1);
+            bottom = Math.max(bottom, cy + 1);
+
+            // Neighbours up to two cells away, so changes a cell apart join one region
+            for (let dy = -2; dy <= 2; dy++) {
+                for (let dx = -2; dx <= 2; dx++) {
+                    const nx = cx + dx;
+                    const ny = cy + dy;
+                    if (nx < 0 || ny < 0 || nx >= columns || ny >= rows) continue;
+                    const next = ny * columns + nx;
+                    if (cells[next] && !seen[next]) {
+                        seen[next] = 1;
+                        stack.push(next);
+                    }
+                }
+            }
+        }
+
+        regions.push({
+            x: left * cellSize,
+            y: top * cellSize,
+            width: Math.min(width, right * cellSize) - left * cellSize,
+            height: Math.min(height, bottom * cellSize) - top * cellSize,
+        });
+    }
+
+    return regions;
+};
+
+/**
+ * Overlay of two renders: unchanged content faded, removed pixels red and
+ * added pixels green
+ */
+export const renderDiffOverlay = (a: PixelBuffer, b: PixelBuffer, mask: Uint8Array): Uint8ClampedArray => {
+    const out = new Uint8ClampedArray(mask.length * 4);
+
+    for (let p = 0; p < mask.length; p++) {
+        const o = p * 4;
+        const faded = 255 - (255 - luminance(b.data, o)) * 0.3;
+        const [r, g, bl] = mask[p] === PIXEL_REMOVED ? [220, 38, 38]
+            : mask[p] === PIXEL_ADDED ? [22, 163, 74]
+            : mask[p] === PIXEL_CHANGED ? [245, 158, 11]
+            : [faded, faded, faded];
+        out[o] = r;
+        out[o + 1] = g;
+        out[o + 2] = bl;
+        out[o + 3] = 255;
+    }
+
+    return out;
+};
+
+// ── Rendering ─────────────────────────────────────
+
+/** Render a page onto a white canvas of the given size, top-left aligned */
+const renderPixels = async (doc: any, pageIndex: number | null, width: number, height: number, scale: number): Promise<PixelBuffer> => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Failed to get canvas context');
+
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, width, height);
+    if (pageIndex !== null) {
+        const rendered = await renderPDFPageFromDoc(doc, pageIndex + 1, scale);
+        context.drawImage(rendered.canvas, 0, 0);
+        rendered.canvas.width = 0;
+        rendered.canvas.height = 0;
+    }
+
+    const { data } = context.getImageData(0, 0, width, height);
+    canvas.width = 0;
+    canvas.height = 0;
+    return { data, width, height };
+};
+
+/** Size in pixels of the frame both pages of a pair are compared in */
+const pairFrame = (page: PageComparison, scale: number): { width: number; height: number } => ({
+    width: Math.ceil(Math.max(page.leftSize?.width ?? 0, page.rightSize?.width ?? 0) * scale),
+    height: Math.ceil(Math.max(page.leftSize?.height ?? 0, page.rightSize?.height ?? 0) * scale),
+});
+
+/**
+ * Render the pixel-diff overlay of a page pair for display
+ * @param originalDoc - The original, loaded with pdf.js
+ * @param revisedDoc - The revision, loaded with pdf.js
+ */
+export const renderComparisonOverlay = async (
+    originalDoc: any,
+    revisedDoc: any,
+    page: PageComparison,
+    scale: number,
+    threshold: number = DEFAULT_COMPARE_OPTIONS.pixelThreshold
+): Promise<HTMLCanvasElement> => {
+    const { width, height } = pairFrame(page, scale);
+    const a = await renderPixels(originalDoc, page.left, width, height, scale);
+    const b = await renderPixels(revisedDoc, page.right, width, height, scale);
+    const { mask } = diffPixels(a, b, threshold);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Failed to get canvas context');
+    context.putImageData(new ImageData(renderDiffOverlay(a, b, mask), width, height), 0, 0);
+    return canvas;
+};
+
+const loadPageWords = async (doc: any, pageIndex: number): Promise<PageWords> => {
+    const page = await doc.getPage(pageIndex + 1);
+    const viewport = page.getViewport({ scale: 1 });
+    const items: DetectedTextItem[] = await extractTextItemsFromDoc(doc, pageIndex + 1, 1);
+    return { words: splitIntoWords(items), width: viewport.width, height: viewport.height };
+};
+
+const openDocument = async (file: File): Promise<any> => {
+    const { pdfjsLib } = await import('./pdfConfig');
+    try {
+        return await pdfjsLib.getDocument({ data: await file.arrayBuffer(), isEvalSupported: false }).promise;
+    } catch (err) {
+        // pdf.js only says "No password given"; name the file so the user knows which one to unlock
+        if (err instanceof Error && err.name === 'PasswordException') {
+            throw new Error(`${file.name} is password-protected. Please unlock it first using the Unlock PDF tool.`);
+        }
+        throw new Error(`Could not open ${file.name}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+};
+
+// ── Main entry point ──────────────────────────────
+
+/**
+ * Compare two PDFs page by page: aligned pages, word changes and changed areas
+ */
+export const comparePDFs = async (
+    original: File,
+    revised: File,
+    options: CompareOptions = DEFAULT_COMPARE_OPTIONS,
+    onProgress?: (progress: number, status: string) => void,
+    abortSignal?: { current: boolean }
+): Promise<ComparisonResult> => {
+    onProgress?.(2, 'Loading PDFs...');
+    const originalDoc = await openDocument(original);
+    let revisedDoc: any = null;
+
+    try {
+        revisedDoc = await openDocument(revised);
+        const total = originalDoc.numPages + revisedDoc.numPages;
+
+        const readAll = async (doc: any, offset: number): Promise<PageWords[]> => {
+            const pages: PageWords[] = [];
+            for (let i = 0; i < doc.numPages; i++) {
+                if (abortSignal?.current) throw new Error('Comparison cancelled');
+                onProgress?.(5 + ((offset + i) / total) * 35, `Reading page ${offset + i + 1} of ${total}...`);
+                pages.push(await loadPageWords(doc, i));
+            }
+            return pages;
+        };
+        const leftPages = await readAll(originalDoc, 0);
+        const rightPages = await readAll(revisedDoc, originalDoc.numPages);
+
+        onProgress?.(40, 'Aligning pages...');
+        const key = (page: PageWords) => page.words.map(word => normalize(word.text, options));
+        const pairs = alignPages(leftPages.map(key), rightPages.map(key));
+
+        const pages: PageComparison[] = [];
+        for (const [index, pair] of pairs.entries()) {
+            if (abortSignal?.current) throw new Error('Comparison cancelled');
+            onProgress?.(40 + (index / pairs.length) * 58, `Comparing page ${index + 1} of ${pairs.length}...`);
+
+            const left = pair.left !== null ? leftPages[pair.left] : null;
+            const right = pair.right !== null ? rightPages[pair.right] : null;
+            const page: PageComparison = {
+                left: pair.left,
+                right: pair.right,
+                leftSize: left && { width: left.width, height: left.height },
+                rightSize: right && { width: right.width, height: right.height },
+                changes: compareWords(left?.words ?? null, right?.words ?? null, options),
+                regions: [],
+                pixelDifference: 0,
+            };
+
+            if (options.compareVisual && left && right) {
+                const { width, height } = pairFrame(page, COMPARE_SCALE);
+                const a = await renderPixels(originalDoc, pair.left, width, height, COMPARE_SCALE);
+                const b = await renderPixels(revisedDoc, pair.right, width, height, COMPARE_SCALE);
+                const { mask, changed } = diffPixels(a, b, options.pixelThreshold);
+                page.pixelDifference = changed / mask.length;
+                page.regions = findChangedRegions(mask, width, height).map(rect => ({
+                    x: rect.x / COMPARE_SCALE,
+                    y: rect.y / COMPARE_SCALE,
+                    width: rect.width / COMPARE_SCALE,
+                    height: rect.height / COMPARE_SCALE,
+                }));
+            }
+            pages.push(page);
+        }
+
+        onProgress?.(100, 'Comparison complete!');
+        return summarize(pages);
+    } finally {
+        originalDoc.destroy();
+        revisedDoc?.destroy();
+    }
+};
+
+const summarize = (pages: PageComparison[]): ComparisonResult => ({
+    pages,
+    insertions: pages.reduce((sum, page) => sum + page.changes.filter(change => change.type === 'insert').length, 0),
+    deletions: pages.reduce((sum, page) => sum + page.changes.filter(change => change.type === 'delete').length, 0),
+    changedPages: pages.filter(page =>
+        page.left === null || page.right === null || page.changes.length > 0 || page.regions.length > 0
+    ).length,
+});
+
+// ── Report ────────────────────────────────────────
+
+export interface ReportPageImage {
+    /** JPEG bytes of the page as displayed */
+    jpeg: Uint8Array;
+}
+
+const pageLabel = (page: PageComparison): string => {
+    if (page.left === null) return `Revised page ${page.right! + 1} (inserted)`;
+    if (page.right === null) return `Original page ${page.left + 1} (removed)`;
+    return `Original page ${page.left + 1} / revised page ${page.right + 1}`;
+};
+
+const countLabel = (page: PageComparison): string => {
+    const insertions = page.changes.filter(change => change.type === 'insert').length;
+    const deletions = page.changes.length - insertions;
+    const parts = [`${insertions} insertion${insertions !== 1 ? 's' : ''}`, `${deletions} deletion${deletions !== 1 ? 's' : ''}`];
+    if (page.regions.length > 0) parts.push(`${page.regions.length} changed area${page.regions.length !== 1 ? 's' : ''}`);
+    return parts.join(', ');
+};
+
+/** Draw one side of a page pair into a column of a report page, with its marks */
+const drawReportColumn = async (
+    report: PDFDocument,
+    target: PDFPage,
+    font: PDFFont,
+    column: { x: number; y: number; width: number; height: number },
+    size: { width: number; height: number } | null,
+    image: ReportPageImage | undefined,
+    changes: TextChange[],
+    regions: CompareRect[]
+): Promise<void> => {
+    if (!size) {
+        target.drawRectangle({ ...column, borderColor: rgb(0.8, 0.8, 0.8), borderWidth: 1, borderDashArray: [4, 4] });
+        const text = 'No matching page';
+        target.drawText(text, {
+            x: column.x + (column.width - font.widthOfTextAtSize(text, 11)) / 2,
+            y: column.y + column.height / 2,
+            size: 11,
+            font,
+            color: rgb(0.6, 0.6, 0.6),
+        });
+        return;
+    }
+
+    const k = Math.min(column.width / size.width, column.height / size.height);
+    const origin = { x: column.x + (column.width - size.width * k) / 2, y: column.y + column.height - size.height * k };
+    const place = (rect: CompareRect) => {
+        const right = Math.min(rect.x + rect.width, size.width);
+        const bottom = Math.min(rect.y + rect.height, size.height);
+        return {
+            x: origin.x + rect.x * k,
+            y: origin.y + (size.height - bottom) * k,
+            width: Math.max(0, right - rect.x) * k,
+            height: Math.max(0, bottom - rect.y) * k,
+        };
+    };
+
+    if (image) {
+        const embedded = await report.embedJpg(image.jpeg);
+        target.drawImage(embedded, { x: origin.x, y: origin.y, width: size.width * k, height: size.height * k });
+    }
+    target.drawRectangle({ x: origin.x, y: origin.y, width: size.width * k, height: size.height * k, borderColor: rgb(0.75, 0.75, 0.75), borderWidth: 0.5 });
+
+    for (const region of regions) {
+        if (region.x >= size.width || region.y >= size.height) continue;
+        target.drawRectangle({ ...place(region), borderColor: REGION_COLOR, borderWidth: 1, borderDashArray: [3, 2] });
+    }
+    for (const change of changes) {
+        const color = change.type === 'insert' ? INSERTION_COLOR : DELETION_COLOR;
+        for (const rect of change.rects) {
+            target.drawRectangle({ ...place(rect), color, opacity: 0.3, borderColor: color, borderWidth: 0.5 });
+        }
+    }
+};
+
+/**
+ * Build the comparison report: a summary, then each page pair side by side with
+ * deletions marked on the original and insertions on the revision
+ * @param images - Renders of the pages by pair index, if available
+ */
+export const buildComparisonReport = async (
+    result: ComparisonResult,
+    names: { original: string; revised: string },
+    images: Array<{ left?: ReportPageImage; right?: ReportPageImage }> = []
+): Promise<Uint8Array> => {
+    const report = await PDFDocument.create();
+    const font = await report.embedFont(StandardFonts.Helvetica);
+    const bold = await report.embedFont(StandardFonts.HelveticaBold);
+    const charset = new Set(font.getCharacterSet());
+    const text = (value: string) => toFontCharacters(charset, value);
+    const { width, height } = REPORT_PAGE;
+
+    // Summary, continued over as many pages as the page list needs
+    for (let start = 0; start === 0 || start < result.pages.length; start += SUMMARY_ROWS_PER_PAGE) {
+        const summary = report.addPage([width, height]);
+        let y = height - REPORT_MARGIN - 18;
+        if (start === 0) {
+            summary.drawText('PDF comparison report', { x: REPORT_MARGIN, y, size: 18, font: bold });
+            y -= 26;
+            for (const line of [
+                `Original: ${text(names.original)}`,
+                `Revised: ${text(names.revised)}`,
+                `${result.changedPages} of ${result.pages.length} page${result.pages.length !== 1 ? 's' : ''} changed; ` +
+                    `${result.insertions} insertion${result.insertions !== 1 ? 's' : ''}, ${result.deletions} deletion${result.deletions !== 1 ? 's' : ''}`,
+            ]) {
+                summary.drawText(line, { x: REPORT_MARGIN, y, size: 11, font });
+                y -= 16;
+            }
+            y -= 10;
+        }
+        for (const page of result.pages.slice(start, start + SUMMARY_ROWS_PER_PAGE)) {
+            summary.drawText(pageLabel(page), { x: REPORT_MARGIN, y, size: 10, font });
+            summary.drawText(countLabel(page), { x: REPORT_MARGIN + 300, y, size: 10, font, color: rgb(0.35, 0.35, 0.35) });
+            y -= 15;
+        }
+    }
+
+    const columnWidth = (width - 3 * REPORT_MARGIN) / 2;
+    const columnHeight = height - 2 * REPORT_MARGIN - REPORT_HEADER;
+    for (const [index, page] of result.pages.entries()) {
+        const target = report.addPage([width, height]);
+        const top = height - REPORT_MARGIN - 14;
+        target.drawText(pageLabel(page), { x: REPORT_MARGIN, y: top, size: 12, font: bold });
+        target.drawText(countLabel(page), { x: REPORT_MARGIN, y: top - 16, size: 9, font, color: rgb(0.35, 0.35, 0.35) });
+
+        // Legend
+        let legendX = width - REPORT_MARGIN - 250;
+        for (const [label, color] of [['Deleted', DELETION_COLOR], ['Inserted', INSERTION_COLOR], ['Changed area', REGION_COLOR]] as const) {
+            target.drawRectangle({ x: legendX, y: top - 1, width: 10, height: 10, color, opacity: 0.5 });
+            target.drawText(label, { x: legendX + 14, y: top, size: 9, font });
+            legendX += 24 + font.widthOfTextAtSize(label, 9) + 10;
+        }
+
+        const column = { y: REPORT_MARGIN, width: columnWidth, height: columnHeight };
+        await drawReportColumn(
+            report, target, font, { ...column, x: REPORT_MARGIN }, page.leftSize, images[index]?.left,
+            page.changes.filter(change => change.type === 'delete'), page.regions
+        );
+        await drawReportColumn(
+            report, target, font, { ...column, x: 2 * REPORT_MARGIN + columnWidth }, page.rightSize, images[index]?.right,
+            page.changes.filter(change => change.type === 'insert'), page.regions
+        );
+    }
+
+    report.setTitle(text(`Comparison of ${names.original} and ${names.revised}`));
+    return report.save();
+};
+
+/**
+ * Render both documents' pages and build the comparison report
+ */
+export const exportComparisonReport = async (
+    original: File,
+    revised: File,
+    result: ComparisonResult,
+    onProgress?: (progress: number, status: string) => void,
+    abortSignal?: { current: boolean }
+): Promise<Uint8Array> => {
+    const originalDoc = await openDocument(original);
+    let revisedDoc: any = null;
+
+    try {
+        revisedDoc = await openDocument(revised);
+        const render = async (doc: any, pageIndex: number | null): Promise<ReportPageImage | undefined> => {
+            if (pageIndex === null) return undefined;
+            const { canvas } = await renderPDFPageFromDoc(doc, pageIndex + 1, REPORT_SCALE);
+            try {
+                return { jpeg: await canvasToJpegBytes(canvas, 0.85) };
+            } finally {
+                canvas.width = 0;
+                canvas.height = 0;
+            }
+        };
+
+        const images: Array<{ left?: ReportPageImage; right?: ReportPageImage }> = [];
+        for (const [index, page] of result.pages.entries()) {
+            if (abortSignal?.current) throw new Error('Report cancelled');
+            onProgress?.((index / result.pages.length) * 90, `Rendering page ${index + 1} of ${result.pages.length}...`);
+            images.push({ left: await render(originalDoc, page.left), right: await render(revisedDoc, page.right) });
+        }
+
+        onProgress?.(92, 'Building report...');
+        const data = await buildComparisonReport(result, { original: original.name, revised: revised.name }, images);
+        onProgress?.(100, 'Report ready!');
+        return data;
+    } finally {
+        originalDoc.destroy();
+        revisedDoc?.destroy();
+    }
+};
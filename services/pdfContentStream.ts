@@ -0,0 +1,475 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * PDF content stream parser — 100% client-side
+ * Tokenizes page and form XObject content streams into operator/operand
+ * lists so services can inspect drawing state without rendering the page,
+ * and writes edited operation lists back out.
+ */
+
+import {
+    PDFArray,
+    PDFDict,
+    PDFName,
+    PDFPage,
+    PDFRawStream,
+    PDFRef,
+    PDFStream,
+    decodePDFRawStream,
+} from 'pdf-lib';
+
+// ── Types ─────────────────────────────────────────
+
+export type ContentOperand =
+    | { type: 'number'; value: number }
+    | { type: 'name'; value: string }
+    | { type: 'string'; value: Uint8Array; hex: boolean }
+    | { type: 'array'; items: ContentOperand[] }
+    | { type: 'dict'; entries: Record<string, ContentOperand> }
+    | { type: 'boolean'; value: boolean }
+    | { type: 'null' };
+
+export interface ContentOperation {
+    operator: string;
+    operands: ContentOperand[];
+    /** Raw image bytes between ID and EI for inline images (operator 'BI') */
+    inlineImageData?: Uint8Array;
+}
+
+/** Affine transform [a b c d e f] as used by the cm operator */
+export type Matrix = [number, number, number, number, number, number];
+
+export const IDENTITY_MATRIX: Matrix = [1, 0, 0, 1, 0, 0];
+
+// ── Character Classes ─────────────────────────────
+
+const isWhitespace = (b: number): boolean =>
+    b === 0x00 || b === 0x09 || b === 0x0a || b === 0x0c || b === 0x0d || b === 0x20;
+
+const isDelimiter = (b: number): boolean =>
+    b === 0x28 || b === 0x29 || b === 0x3c || b === 0x3e || b === 0x5b ||
+    b === 0x5d || b === 0x7b || b === 0x7d || b === 0x2f || b === 0x25;
+
+const isRegular = (b: number): boolean => !isWhitespace(b) && !isDelimiter(b);
+
+const hexValue = (b: number): number => {
+    if (b >= 0x30 && b <= 0x39) return b - 0x30;
+    if (b >= 0x41 && b <= 0x46) return b - 0x37;
+    if (b >= 0x61 && b <= 0x66) return b - 0x57;
+    return -1;
+};
+
+// ── Tokenizer ─────────────────────────────────────
+
+const END_ARRAY = Symbol('end-array');
+const END_DICT = Symbol('end-dict');
+
+type Token = ContentOperand | { type: 'operator'; value: string } | typeof END_ARRAY | typeof END_DICT | null;
+
+class ContentLexer {
+    pos = 0;
+
+    constructor(private readonly bytes: Uint8Array) {}
+
+    get done(): boolean {
+        return this.pos >= this.bytes.length;
+    }
+
+    skipWhitespaceAndComments(): void {
+        const { bytes } = this;
+        while (this.pos < bytes.length) {
+            const b = bytes[this.pos];
+            if (isWhitespace(b)) {
+                this.pos++;
+            } else if (b === 0x25) {
+                // % comment runs to end of line
+                while (this.pos < bytes.length && bytes[this.pos] !== 0x0a && bytes[this.pos] !== 0x0d) this.pos++;
+            } else {
+                break;
+            }
+        }
+    }
+
+    readRegular(): string {
+        const start = this.pos;
+        while (this.pos < this.bytes.length && isRegular(this.bytes[this.pos])) this.pos++;
+        let out = '';
+        for (let i = start; i < this.pos; i++) out += String.fromCharCode(this.bytes[i]);
+        return out;
+    }
+
+    readName(): string {
+        this.pos++; // skip '/'
+        const raw = this.readRegular();
+        return raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+    }
+
+    readLiteralString(): Uint8Array {
+        const { bytes } = this;
+        const out: number[] = [];
+        let depth = 1;
+        this.pos++; // skip '('
+
+        while (this.pos < bytes.length) {
+            const b = bytes[this.pos++];
+            if (b === 0x5c) {
+                const next = bytes[this.pos++];
+                switch (next) {
+                    case 0x6e: out.push(0x0a); break; // \n
+                    case 0x72: out.push(0x0d); break; // \r
+                    case 0x74: out.push(0x09); break; // \t
+                    case 0x62: out.push(0x08); break; // \b
+                    case 0x66: out.push(0x0c); break; // \f
+                    case 0x0d:
+                        // Line continuation (\r or \r\n)
+                        if (bytes[this.pos] === 0x0a) this.pos++;
+                        break;
+                    case 0x0a:
+                        break;
+                    default:
+                        if (next >= 0x30 && next <= 0x37) {
+                            let octal = next - 0x30;
+                            for (let i = 0; i < 2 && bytes[this.pos] >= 0x30 && bytes[this.pos] <= 0x37; i++) {
+                                octal = octal * 8 + (bytes[this.pos++] - 0x30);
+                            }
+                            out.push(octal & 0xff);
+                        } else if (next !== undefined) {
+                            out.push(next);
+                        }
+                }
+            } else if (b === 0x28) {
+                depth++;
+                out.push(b);
+            } else if (b === 0x29) {
+                depth--;
+                if (depth === 0) break;
+                out.push(b);
+            } else {
+                out.push(b);
+            }
+        }
+
+        return new Uint8Array(out);
+    }
+
+    readHexString(): Uint8Array {
+        const { bytes } = this;
+        const out: number[] = [];
+        let high = -1;
+        this.pos++; // skip '<'
+
+        while (this.pos < bytes.length) {
+            const b = bytes[this.pos++];
+            if (b === 0x3e) break;
+            const v = hexValue(b);
+            if (v < 0) continue;
+            if (high < 0) {
+                high = v;
+            } else {
+                out.push((high << 4) | v);
+                high = -1;
+            }
+        }
+        if (high >= 0) out.push(high << 4);
+
+        return new Uint8Array(out);
+    }
+
+    nextToken(): Token {
+        this.skipWhitespaceAndComments();
+        if (this.done) return null;
+
+        const { bytes } = this;
+        const b = bytes[this.pos];
+
+        if (b === 0x2f) return { type: 'name', value: this.readName() };
+        if (b === 0x28) return { type: 'string', value: this.readLiteralString(), hex: false };
+        if (b === 0x3c) {
+            if (bytes[this.pos + 1] === 0x3c) {
+                this.pos += 2;
+                return this.readDict();
+            }
+            return { type: 'string', value: this.readHexString(), hex: true };
+        }
+        if (b === 0x3e && bytes[this.pos + 1] === 0x3e) {
+            this.pos += 2;
+            return END_DICT;
+        }
+        if (b === 0x5b) {
+            this.pos++;
+            return this.readArray();
+        }
+        if (b === 0x5d) {
+            this.pos++;
+            return END_ARRAY;
+        }
+        if (isDelimiter(b)) {
+            // Stray delimiter ('{', '}', lone '>') — skip it
+            this.pos++;
+            return this.nextToken();
+        }
+
+        const word = this.readRegular();
+        if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+            return { type: 'number', value: parseFloat(word) };
+        }
+        if (word === 'true' || word === 'false') return { type: 'boolean', value: word === 'true' };
+        if (word === 'null') return { type: 'null' };
+        return { type: 'operator', value: word };
+    }
+
+    readArray(): ContentOperand {
+        const items: ContentOperand[] = [];
+        for (;;) {
+            const token = this.nextToken();
+            if (token === null || token === END_ARRAY) break;
+            if (token === END_DICT || token.type === 'operator') continue;
+            items.push(token);
+        }
+        return { type: 'array', items };
+    }
+
+    readDict(): ContentOperand {
+        const entries: Record<string, ContentOperand> = {};
+        for (;;) {
+            const key = this.nextToken();
+            if (key === null || key === END_DICT) break;
+            if (key === END_ARRAY || key.type !== 'name') continue;
+            const value = this.nextToken();
+            if (value === null || value === END_DICT) break;
+            if (value === END_ARRAY || value.type === 'operator') continue;
+            entries[key.value] = value;
+        }
+        return { type: 'dict', entries };
+    }
+
+    /** Read an inline image dictionary and its binary data (after the BI operator) */
+    readInlineImage(): { dict: ContentOperand; data: Uint8Array } {
+        const entries: Record<string, ContentOperand> = {};
+        for (;;) {
+            const key = this.nextToken();
+            if (key === null) break;
+            if (key !== END_ARRAY && key !== END_DICT && key.type === 'operator' && key.value === 'ID') break;
+            if (key === END_ARRAY || key === END_DICT || key.type !== 'name') continue;
+            const value = this.nextToken();
+            if (value === null) break;
+            if (value === END_ARRAY || value === END_DICT || value.type === 'operator') continue;
+            entries[key.value] = value;
+        }
+
+        // Exactly one whitespace byte separates ID from the data
+        const { bytes } = this;
+        if (isWhitespace(bytes[this.pos])) this.pos++;
+        const start = this.pos;
+
+        // Data ends at whitespace + "EI" + (whitespace | EOF)
+        let end = bytes.length;
+        for (let i = start; i < bytes.length - 1; i++) {
+            if (
+                bytes[i] === 0x45 && bytes[i + 1] === 0x49 &&
+                (i === start || isWhitespace(bytes[i - 1])) &&
+                (i + 2 >= bytes.length || isWhitespace(bytes[i + 2]) || isDelimiter(bytes[i + 2]))
+            ) {
+                end = i > start && isWhitespace(bytes[i - 1]) ? i - 1 : i;
+                this.pos = i + 2;
+                break;
+            }
+        }
+        if (end === bytes.length) this.pos = bytes.length;
+
+        return { dict: { type: 'dict', entries }, data: bytes.slice(start, end) };
+    }
+}
+
+// ── Public API ────────────────────────────────────
+
+/**
+ * Parse a decoded content stream into a flat list of operations.
+ * Malformed tokens are skipped rather than thrown so that damaged
+ * streams still yield every operation that can be recovered.
+ */
+export const parseContentStream = (bytes: Uint8Array): ContentOperation[] => {
+    const lexer = new ContentLexer(bytes);
+    const operations: ContentOperation[] = [];
+    let operands: ContentOperand[] = [];
+
+    for (;;) {
+        const token = lexer.nextToken();
+        if (token === null) break;
+        if (token === END_ARRAY || token === END_DICT) continue;
+
+        if (token.type !== 'operator') {
+            operands.push(token);
+            continue;
+        }
+
+        if (token.value === 'BI') {
+            const { dict, data } = lexer.readInlineImage();
+            operations.push({ operator: 'BI', operands: [dict], inlineImageData: data });
+        } else {
+            operations.push({ operator: token.value, operands });
+        }
+        operands = [];
+    }
+
+    return operations;
+};
+
+/**
+ * Concatenate two matrices: returns m × base (the effect of applying
+ * `m` inside a coordinate system already transformed by `base`)
+ */
+export const multiplyMatrix = (m: Matrix, base: Matrix): Matrix => [
+    m[0] * base[0] + m[1] * base[2],
+    m[0] * base[1] + m[1] * base[3],
+    m[2] * base[0] + m[3] * base[2],
+    m[2] * base[1] + m[3] * base[3],
+    m[4] * base[0] + m[5] * base[2] + base[4],
+    m[4] * base[1] + m[5] * base[3] + base[5],
+];
+
+/** Numeric value of an operand (0 for non-numbers) */
+export const operandNumber = (operand: ContentOperand | undefined): number =>
+    operand && operand.type === 'number' ? operand.value : 0;
+
+/** Decode the bytes of a PDF stream, applying its filters */
+export const decodeStreamContents = (stream: PDFStream): Uint8Array => {
+    if (stream instanceof PDFRawStream) {
+        return decodePDFRawStream(stream).decode();
+    }
+    return stream.getContents();
+};
+
+/** Concatenate and decode all content streams of a page */
+export const getPageContentBytes = (page: PDFPage): Uint8Array => {
+    const contents = page.node.Contents();
+    if (!contents) return new Uint8Array(0);
+
+    const streams: PDFStream[] = [];
+    if (contents instanceof PDFArray) {
+        for (let i = 0; i < contents.size(); i++) {
+            const stream = contents.lookup(i);
+            if (stream instanceof PDFStream) streams.push(stream);
+        }
+    } else {
+        streams.push(contents);
+    }
+
+    const parts = streams.map(decodeStreamContents);
+    // Separate streams with a newline so tokens never run together
+    const total = parts.reduce((sum, p) => sum + p.length + 1, 0);
+    const out = new Uint8Array(total);
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+        out[offset++] = 0x0a;
+    }
+    return out;
+};
+
+/** Look up a named XObject in a resource dictionary */
+export const lookupXObject = (
+    resources: PDFDict | undefined,
+    name: string
+): { ref?: PDFRef; stream: PDFStream } | null => {
+    if (!resources) return null;
+    const xObjects = resources.lookupMaybe(PDFName.of('XObject'), PDFDict);
+    if (!xObjects) return null;
+
+    const raw = xObjects.get(PDFName.of(name));
+    const stream = xObjects.lookupMaybe(PDFName.of(name), PDFStream);
+    if (!stream) return null;
+
+    return { ref: raw instanceof PDFRef ? raw : undefined, stream };
+};
+
+// ── Serializer ────────────────────────────────────
+
+/** Format a number without exponents, trimming trailing zeros */
+const formatNumber = (value: number): string => {
+    if (!Number.isFinite(value)) return '0';
+    if (Number.isInteger(value)) return String(value);
+    const fixed = value.toFixed(6).replace(/0+$/, '').replace(/\.$/, '');
+    return fixed === '-0' ? '0' : fixed;
+};
+
+const formatName = (name: string): string =>
+    '/' + Array.from(name, ch => {
+        const code = ch.charCodeAt(0) & 0xff;
+        return code < 0x21 || code > 0x7e || code === 0x23 || isDelimiter(code)
+            ? '#' + code.toString(16).padStart(2, '0')
+            : ch;
+    }).join('');
+
+const formatString = (bytes: Uint8Array, hex: boolean): string => {
+    if (hex) {
+        return '<' + Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('') + '>';
+    }
+    let out = '(';
+    for (const b of bytes) {
+        if (b === 0x28 || b === 0x29 || b === 0x5c) out += '\\' + String.fromCharCode(b);
+        else if (b === 0x0a) out += '\\n';
+        else if (b === 0x0d) out += '\\r';
+        else if (b < 0x20 || b > 0x7e) out += '\\' + b.toString(8).padStart(3, '0');
+        else out += String.fromCharCode(b);
+    }
+    return out + ')';
+};
+
+const formatOperand = (operand: ContentOperand): string => {
+    switch (operand.type) {
+        case 'number': return formatNumber(operand.value);
+        case 'name': return formatName(operand.value);
+        case 'string': return formatString(operand.value, operand.hex);
+        case 'array': return '[' + operand.items.map(formatOperand).join(' ') + ']';
+        case 'dict':
+            return '<<' + Object.entries(operand.entries)
+                .map(([key, value]) => `${formatName(key)} ${formatOperand(value)}`)
+                .join(' ') + '>>';
+        case 'boolean': return operand.value ? 'true' : 'false';
+        case 'null': return 'null';
+    }
+};
+
+/**
+ * Write operations back out as content stream bytes.
+ * The inverse of parseContentStream, one operation per line.
+ */
+export const serializeContentStream = (operations: ContentOperation[]): Uint8Array => {
+    const chunks: Uint8Array[] = [];
+    let text = '';
+    const flush = () => {
+        chunks.push(Uint8Array.from(text, ch => ch.charCodeAt(0) & 0xff));
+        text = '';
+    };
+
+    for (const op of operations) {
+        if (op.operator === 'BI') {
+            const dict = op.operands[0];
+            text += 'BI';
+            if (dict && dict.type === 'dict') {
+                for (const [key, value] of Object.entries(dict.entries)) {
+                    text += ` ${formatName(key)} ${formatOperand(value)}`;
+                }
+            }
+            text += ' ID ';
+            flush();
+            chunks.push(op.inlineImageData ?? new Uint8Array(0));
+            text += '\nEI\n';
+            continue;
+        }
+        for (const operand of op.operands) text += formatOperand(operand) + ' ';
+        text += op.operator + '\n';
+    }
+    flush();
+
+    const out = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        out.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return out;
+};
@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * PDF cropping — 100% client-side
+ * 1. Take a rectangle drawn on the page as displayed, or detect each page's content by rendering it
+ * 2. Map it through /Rotate into PDF user space, inside the current CropBox
+ * 3. Write the CropBox, and optionally the MediaBox, TrimBox and BleedBox
+ */
+
+import { PDFPage } from 'pdf-lib';
+import { loadPDFDocument } from './pdfService';
+import { getPageFrame, toUserSpace } from './pdfGeometry';
+import { detectContentBounds } from './pdfPageAnalysis';
+import type { CropPdfConfig, CropPageSelection, CropRect } from '../types';
+
+// ── Constants ─────────────────────────────────────────
+
+/** Smallest page side a crop may leave, in points */
+const MIN_CROP_SIZE = 18;
+
+// ── Geometry ─────────────────────────────────────────
+
+export interface PageBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** Boxes are written to 1/100 pt, which keeps float noise out of the file */
+const roundPoints = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Convert a rectangle on the displayed page (fractions, top-left origin) to a PDF box
+ */
+export const displayRectToPageBox = (page: PDFPage, rect: CropRect): PageBox => {
+    const frame = getPageFrame(page);
+    const a = toUserSpace(frame, rect.left * frame.width, (1 - rect.top) * frame.height);
+    const b = toUserSpace(frame, rect.right * frame.width, (1 - rect.bottom) * frame.height);
+    return {
+        x: roundPoints(Math.min(a.x, b.x)),
+        y: roundPoints(Math.min(a.y, b.y)),
+        width: roundPoints(Math.abs(a.x - b.x)),
+        height: roundPoints(Math.abs(a.y - b.y)),
+    };
+};
+
+/** Grow a box by `padding` points on every side without leaving `bounds` */
+export const padPageBox = (box: PageBox, padding: number, bounds: PageBox): PageBox => {
+    const left = Math.max(bounds.x, box.x - padding);
+    const bottom = Math.max(bounds.y, box.y - padding);
+    const right = Math.min(bounds.x + bounds.width, box.x + box.width + padding);
+    const top = Math.min(bounds.y + bounds.height, box.y + box.height + padding);
+    return { x: left, y: bottom, width: right - left, height: top - bottom };
+};
+
+/**
+ * 0-based indices of the pages a crop applies to
+ * @param currentPage - 0-based page shown in the editor, used for 'current'
+ */
+export const selectCropPages = (selection: CropPageSelection, pageCount: number, currentPage: number): number[] => {
+    if (selection === 'current') return [currentPage];
+    const all = Array.from({ length: pageCount }, (_, i) => i);
+    if (selection === 'odd') return all.filter(i => i % 2 === 0);
+    if (selection === 'even') return all.filter(i => i % 2 === 1);
+    return all;
+};
+
+const applyPageBox = (page: PDFPage, box: PageBox, config: CropPdfConfig): void => {
+    const { x, y, width, height } = box;
+    page.setCropBox(x, y, width, height);
+    if (config.setMediaBox) page.setMediaBox(x, y, width, height);
+    if (config.setTrimBox) page.setTrimBox(x, y, width, height);
+    if (config.setBleedBox) page.setBleedBox(x, y, width, height);
+};
+
+// ── Cropping ─────────────────────────────────────────
+
+/**
+ * Crop the selected pages of a PDF
+ * @param file - The PDF to crop
+ * @param config - Mode, page selection and which boxes to write
+ * @param rect - Crop rectangle on the displayed page; required in manual mode
+ * @param currentPage - 0-based page the rectangle was drawn on
+ * @param password - Optional password if the PDF is encrypted
+ * @returns The cropped PDF and how many pages were cropped
+ *
+ * In auto mode pages without any content are left as they are.
+ */
+export const cropPDF = async (
+    file: File,
+    config: CropPdfConfig,
+    rect: CropRect | null,
+    currentPage: number,
+    password?: string,
+    onProgress?: (progress: number, status: string) => void,
+    abortSignal?: { current: boolean }
+): Promise<{ data: Uint8Array; croppedPages: number }> => {
+    if (!file.type.includes('pdf') && !file.name.toLowerCase().endsWith('.pdf')) {
+        throw new Error('File is not a PDF');
+    }
+    if (config.mode === 'manual' && !rect) {
+        throw new Error('Please draw the area to keep on the page');
+    }
+
+    onProgress?.(5, 'Loading PDF...');
+    const arrayBuffer = await file.arrayBuffer();
+    const pdf = await loadPDFDocument(arrayBuffer, password);
+    const pages = pdf.getPages();
+    const pageIndices = selectCropPages(config.pageSelection, pages.length, currentPage);
+
+    for (const pageIdx of pageIndices) {
+        if (pageIdx < 0 || pageIdx >= pages.length) {
+            throw new Error(`Page ${pageIdx + 1} does not exist. PDF has ${pages.length} pages.`);
+        }
+    }
+
+    // Auto-trim: find the content on each page first
+    let contentBounds: Map<number, CropRect | null> | undefined;
+    if (config.mode === 'auto') {
+        contentBounds = await detectContentBounds(arrayBuffer, pageIndices, password, (progress, status) => {
+            onProgress?.(10 + progress * 0.75, status);
+        }, abortSignal);
+    }
+
+    let croppedPages = 0;
+    for (const pageIdx of pageIndices) {
+        if (abortSignal?.current) throw new Error('Crop cancelled');
+
+        const page = pages[pageIdx];
+        const pageRect = contentBounds ? contentBounds.get(pageIdx) : rect;
+        if (!pageRect) continue;
+
+        let box = displayRectToPageBox(page, pageRect);
+        if (contentBounds) box = padPageBox(box, config.autoTrimPadding, page.getCropBox());
+
+        if (box.width < MIN_CROP_SIZE || box.height < MIN_CROP_SIZE) {
+            if (contentBounds) continue;
+            throw new Error('The crop area is too small. Please draw a larger rectangle.');
+        }
+
+        applyPageBox(page, box, config);
+        croppedPages++;
+    }
+
+    onProgress?.(95, 'Saving PDF...');
+    const data = await pdf.save();
+    onProgress?.(100, 'Crop complete!');
+    return { data, croppedPages };
+};
@@ -0,0 +1,222 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Cryptographic primitives for the PDF Standard Security Handler — 100% client-side
+ * 1. MD5 and RC4 in plain JS (legacy algorithms not exposed by Web Crypto)
+ * 2. AES-CBC and SHA-2 via crypto.subtle, with helpers for the unpadded
+ *    AES blocks the R6 key derivation needs
+ */
+
+// ── MD5 ─────────────────────────────────────────
+
+const MD5_SHIFTS = [
+    7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+    5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+    4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+    6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) =>
+    Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) >>> 0
+);
+
+/**
+ * Compute the MD5 digest of a byte array (RFC 1321)
+ */
+export const md5 = (data: Uint8Array): Uint8Array => {
+    const bitLength = data.length * 8;
+    const paddedLength = (((data.length + 8) >> 6) + 1) << 6;
+    const padded = new Uint8Array(paddedLength);
+    padded.set(data);
+    padded[data.length] = 0x80;
+
+    const view = new DataView(padded.buffer);
+    view.setUint32(paddedLength - 8, bitLength >>> 0, true);
+    view.setUint32(paddedLength - 4, Math.floor(bitLength / 0x100000000), true);
+
+    let a0 = 0x67452301;
+    let b0 = 0xefcdab89;
+    let c0 = 0x98badcfe;
+    let d0 = 0x10325476;
+    const words = new Uint32Array(16);
+
+    for (let offset = 0; offset < paddedLength; offset += 64) {
+        for (let i = 0; i < 16; i++) {
+            words[i] = view.getUint32(offset + i * 4, true);
+        }
+
+        let a = a0;
+        let b = b0;
+        let c = c0;
+        let d = d0;
+
+        for (let i = 0; i < 64; i++) {
+            let f: number;
+            let g: number;
+            if (i < 16) {
+                f = (b & c) | (~b & d);
+                g = i;
+            } else if (i < 32) {
+                f = (d & b) | (~d & c);
+                g = (5 * i + 1) % 16;
+            } else if (i < 48) {
+                f = b ^ c ^ d;
+                g = (3 * i + 5) % 16;
+            } else {
+                f = c ^ (b | ~d);
+                g = (7 * i) % 16;
+            }
+
+            const sum = (a + f + MD5_CONSTANTS[i] + words[g]) >>> 0;
+            a = d;
+            d = c;
+            c = b;
+            b = (b + ((sum << MD5_SHIFTS[i]) | (sum >>> (32 - MD5_SHIFTS[i])))) >>> 0;
+        }
+
+        a0 = (a0 + a) >>> 0;
+        b0 = (b0 + b) >>> 0;
+        c0 = (c0 + c) >>> 0;
+        d0 = (d0 + d) >>> 0;
+    }
+
+    const digest = new Uint8Array(16);
+    const digestView = new DataView(digest.buffer);
+    digestView.setUint32(0, a0, true);
+    digestView.setUint32(4, b0, true);
+    digestView.setUint32(8, c0, true);
+    digestView.setUint32(12, d0, true);
+    return digest;
+};
+
+// ── RC4 ─────────────────────────────────────────
+
+/**
+ * Encrypt or decrypt with RC4 (the operation is symmetric)
+ */
+export const rc4 = (key: Uint8Array, data: Uint8Array): Uint8Array => {
+    const s = new Uint8Array(256);
+    for (let i = 0; i < 256; i++) s[i] = i;
+
+    for (let i = 0, j = 0; i < 256; i++) {
+        j = (j + s[i] + key[i % key.length]) & 0xff;
+        const tmp = s[i];
+        s[i] = s[j];
+        s[j] = tmp;
+    }
+
+    const output = new Uint8Array(data.length);
+    for (let n = 0, i = 0, j = 0; n < data.length; n++) {
+        i = (i + 1) & 0xff;
+        j = (j + s[i]) & 0xff;
+        const tmp = s[i];
+        s[i] = s[j];
+        s[j] = tmp;
+        output[n] = data[n] ^ s[(s[i] + s[j]) & 0xff];
+    }
+    return output;
+};
+
+// ── Web Crypto helpers ─────────────────────────────────────────
+
+const AES_BLOCK_SIZE = 16;
+
+const getSubtle = (): SubtleCrypto => {
+    const subtle = globalThis.crypto?.subtle;
+    if (!subtle) {
+        throw new Error('Web Crypto is not available in this browser');
+    }
+    return subtle;
+};
+
+const importAesKey = (key: Uint8Array, usage: KeyUsage): Promise<CryptoKey> =>
+    getSubtle().importKey('raw', key, { name: 'AES-CBC' }, false, [usage]);
+
+export const randomBytes = (length: number): Uint8Array => {
+    const bytes = new Uint8Array(length);
+    globalThis.crypto.getRandomValues(bytes);
+    return bytes;
+};
+
+export const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+    const total = parts.reduce((sum, part) => sum + part.length, 0);
+    const result = new Uint8Array(total);
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+};
+
+export const sha2 = async (
+    bits: 256 | 384 | 512,
+    data: Uint8Array
+): Promise<Uint8Array> => new Uint8Array(await getSubtle().digest(`SHA-${bits}`, data));
+
+/**
+ * AES-CBC encrypt. With `padding` off, `data` must be a whole number of
+ * blocks and the PKCS#7 block Web Crypto always appends is dropped.
+ */
+export const aesCbcEncrypt = async (
+    key: Uint8Array,
+    iv: Uint8Array,
+    data: Uint8Array,
+    padding: boolean = true
+): Promise<Uint8Array> => {
+    if (!padding && data.length % AES_BLOCK_SIZE !== 0) {
+        throw new Error('Unpadded AES input must be a multiple of 16 bytes');
+    }
+    const cryptoKey = await importAesKey(key, 'encrypt');
+    const encrypted = new Uint8Array(await getSubtle().encrypt({ name: 'AES-CBC', iv }, cryptoKey, data));
+    return padding ? encrypted : encrypted.subarray(0, data.length);
+};
+
+/**
+ * AES-CBC decrypt. With `padding` off, a synthetic padding block is
+ * appended first so Web Crypto's mandatory PKCS#7 check succeeds.
+ */
+export const aesCbcDecrypt = async (
+    key: Uint8Array,
+    iv: Uint8Array,
+    data: Uint8Array,
+    padding: boolean = true
+): Promise<Uint8Array> => {
+    if (data.length === 0 || data.length % AES_BLOCK_SIZE !== 0) {
+        throw new Error('AES ciphertext must be a non-empty multiple of 16 bytes');
+    }
+
+    let input = data;
+    if (!padding) {
+        // Encrypting nothing with the last ciphertext block as IV yields
+        // exactly the block that decrypts to a full 0x10 padding block.
+        const lastBlock = data.subarray(data.length - AES_BLOCK_SIZE);
+        const paddingBlock = await aesCbcEncrypt(key, lastBlock, new Uint8Array(0));
+        input = concatBytes(data, paddingBlock);
+    }
+
+    const cryptoKey = await importAesKey(key, 'decrypt');
+    return new Uint8Array(await getSubtle().decrypt({ name: 'AES-CBC', iv }, cryptoKey, input));
+};
+
+/**
+ * AES-ECB on whole blocks, built from CBC with a zero IV one block at a time
+ */
+export const aesEcbEncrypt = async (key: Uint8Array, data: Uint8Array): Promise<Uint8Array> => {
+    const zeroIv = new Uint8Array(AES_BLOCK_SIZE);
+    const output = new Uint8Array(data.length);
+    for (let offset = 0; offset < data.length; offset += AES_BLOCK_SIZE) {
+        output.set(await aesCbcEncrypt(key, zeroIv, data.subarray(offset, offset + AES_BLOCK_SIZE), false), offset);
+    }
+    return output;
+};
+
+export const aesEcbDecrypt = async (key: Uint8Array, data: Uint8Array): Promise<Uint8Array> => {
+    const zeroIv = new Uint8Array(AES_BLOCK_SIZE);
+    const output = new Uint8Array(data.length);
+    for (let offset = 0; offset < data.length; offset += AES_BLOCK_SIZE) {
+        output.set(await aesCbcDecrypt(key, zeroIv, data.subarray(offset, offset + AES_BLOCK_SIZE), false), offset);
+    }
+    return output;
+};
@@ -3,7 +3,23 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { PDFDocument, rgb, StandardFonts, degrees, PDFPage } from 'pdf-lib';
+import {
+    PDFDocument,
+    rgb,
+    StandardFonts,
+    degrees,
+    PDFPage,
+    PDFField,
+    PDFName,
+    PDFHexString,
+    PDFString,
+    PDFRadioGroup,
+} from 'pdf-lib';
+import { flattenDocument } from './pdfFlattenService';
+import { describeRedactionLeak, redactDocument, verifyRedaction, type RedactionArea } from './pdfRedactionService';
+import { getPageFrame, toUserSpace, type PageFrame } from './pdfGeometry';
+import { loadPDFDocument } from './pdfService';
+import type { FlattenPdfConfig } from '../types';
 
 export interface TextElement {
     id: string;
@@ -74,6 +90,43 @@ export interface WhiteoutElement {
     height: number;
 }
 
+/** An area whose content is removed from the PDF, not just covered */
+export interface RedactionElement {
+    id: string;
+    pageNumber: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    fillColor: string;
+    label: string;
+}
+
+export type FormFieldKind = 'text' | 'multiline' | 'checkbox' | 'radio' | 'dropdown' | 'date';
+
+export interface FormFieldElement {
+    id: string;
+    pageNumber: number;
+    type: FormFieldKind;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    /** Field name; radio buttons sharing a name form one group */
+    name: string;
+    /** Initial text or choice; 'Yes' for a checked box; the group's selected option for radio buttons */
+    defaultValue: string;
+    required: boolean;
+    fontSize: number; // PDF points, 0 = auto-size
+    tabOrder: number;
+    /** Dropdown choices */
+    options: string[];
+    /** Radio buttons: the value this button selects */
+    option?: string;
+    /** Date fields: Acrobat date format, e.g. 'yyyy-mm-dd' */
+    dateFormat?: string;
+}
+
 export interface DetectedTextItem {
     id: string;
     text: string;
@@ -95,6 +148,8 @@ export interface EditorState {
     annotations: AnnotationElement[];
     drawings: DrawingPath[];
     whiteouts: WhiteoutElement[];
+    redactions: RedactionElement[];
+    fields: FormFieldElement[];
 }
 
 /**
@@ -183,16 +238,45 @@ export const applyWhiteoutElements = async (
     }
 };
 
+/**
+ * Convert redaction elements to areas in PDF user space.
+ * Canvas coordinates follow the page as displayed, so crop box offsets and /Rotate are undone here.
+ */
+export const getRedactionAreas = (
+    pdfDoc: PDFDocument,
+    redactions: RedactionElement[],
+    scale: number = 1.5
+): RedactionArea[] => {
+    const pages = pdfDoc.getPages();
+
+    return redactions.map(rd => {
+        const frame = getPageFrame(pages[rd.pageNumber - 1]);
+        const a = toUserSpace(frame, rd.x / scale, frame.height - rd.y / scale);
+        const b = toUserSpace(frame, (rd.x + rd.width) / scale, frame.height - (rd.y + rd.height) / scale);
+
+        return {
+            pageIndex: rd.pageNumber - 1,
+            x: Math.min(a.x, b.x),
+            y: Math.min(a.y, b.y),
+            width: Math.abs(b.x - a.x),
+            height: Math.abs(b.y - a.y),
+            fillColor: rd.fillColor,
+            label: rd.label,
+        };
+    });
+};
+
 /**
  * Load PDF and get page information
+ * @param password - Password for an encrypted file
  */
-export const loadPDFForEditing = async (file: File): Promise<{
+export const loadPDFForEditing = async (file: File, password?: string): Promise<{
     pdfDoc: PDFDocument;
     pageCount: number;
     pages: PDFPage[];
 }> => {
     const arrayBuffer = await file.arrayBuffer();
-    const pdfDoc = await PDFDocument.load(arrayBuffer);
+    const pdfDoc = await loadPDFDocument(arrayBuffer, password);
     const pages = pdfDoc.getPages();
 
     return {
@@ -219,11 +303,13 @@ export const renderPDFPage = async (
 
 /**
  * Render PDF page to canvas from a cached PDFDocumentProxy
+ * @param operationsFilter - Called with each operator list index; operations it returns false for are not drawn
  */
 export const renderPDFPageFromDoc = async (
     doc: any,
     pageNumber: number,
-    scale: number = 1.5
+    scale: number = 1.5,
+    operationsFilter?: (index: number) => boolean
 ): Promise<{ canvas: HTMLCanvasElement; width: number; height: number }> => {
     const page = await doc.getPage(pageNumber);
     const viewport = page.getViewport({ scale });
@@ -241,6 +327,7 @@ export const renderPDFPageFromDoc = async (
     await page.render({
         canvasContext: context,
         viewport: viewport,
+        operationsFilter,
     }).promise;
 
     return {
@@ -447,18 +534,170 @@ export const applyDrawingPaths = async (
 };
 
 /**
- * Save edited PDF — whiteouts applied first, then all other elements
+ * Check form field names before anything is written
+ */
+const validateFormFieldNames = (pdfDoc: PDFDocument, fields: FormFieldElement[]): void => {
+    const kinds = new Map<string, FormFieldKind>();
+    for (const field of fields) {
+        const name = field.name.trim();
+        if (!name) throw new Error('Every form field needs a name');
+        const existing = kinds.get(name);
+        if (existing && (existing !== 'radio' || field.type !== 'radio')) {
+            throw new Error(`Two form fields are named "${name}"`);
+        }
+        kinds.set(name, field.type);
+    }
+
+    if (!pdfDoc.catalog.getAcroForm()) return;
+    const form = pdfDoc.getForm();
+    for (const name of kinds.keys()) {
+        if (form.getFieldMaybe(name)) throw new Error(`The PDF already has a form field named "${name}"`);
+    }
+};
+
+/** Acrobat's date format and keystroke actions, so readers validate and format entered dates */
+const addDateActions = (pdfDoc: PDFDocument, field: PDFField, format: string): void => {
+    const action = (script: string) => pdfDoc.context.obj({ S: 'JavaScript', JS: PDFString.of(script) });
+    field.acroField.dict.set(PDFName.of('AA'), pdfDoc.context.obj({
+        F: action(`AFDate_FormatEx("${format}");`),
+        K: action(`AFDate_KeystrokeEx("${format}");`),
+    }));
+};
+
+/**
+ * Where pdf-lib should put a field's widget, from its rectangle on the canvas.
+ * The canvas shows the crop box upright, so the widget turns with the page's /Rotate
+ * and pdf-lib is given the corner it rotates about, with the size as displayed.
+ */
+const widgetPlacement = (frame: PageFrame, fieldEl: FormFieldElement, scale: number) => {
+    const a = toUserSpace(frame, fieldEl.x / scale, frame.height - fieldEl.y / scale);
+    const b = toUserSpace(frame, (fieldEl.x + fieldEl.width) / scale, frame.height - (fieldEl.y + fieldEl.height) / scale);
+    const left = Math.min(a.x, b.x);
+    const right = Math.max(a.x, b.x);
+    const bottom = Math.min(a.y, b.y);
+    const top = Math.max(a.y, b.y);
+    const anchor = {
+        0: { x: left, y: bottom },
+        90: { x: right, y: bottom },
+        180: { x: right, y: top },
+        270: { x: left, y: top },
+    }[frame.rotation];
+
+    return {
+        ...anchor,
+        width: fieldEl.width / scale,
+        height: fieldEl.height / scale,
+        rotate: degrees(frame.rotation),
+    };
+};
+
+/**
+ * Add form field elements to PDF as AcroForm fields with widgets
+ * All coordinates stored in canvas space — divided by scale for PDF embedding
+ *
+ * Widgets are added to each page's annotations in tab order, and the page's /Tabs entry is
+ * removed so readers follow that order.
+ */
+export const applyFormFieldElements = async (
+    pdfDoc: PDFDocument,
+    fields: FormFieldElement[],
+    scale: number = 1.5
+): Promise<void> => {
+    if (fields.length === 0) return;
+    validateFormFieldNames(pdfDoc, fields);
+
+    const pages = pdfDoc.getPages();
+    const form = pdfDoc.getForm();
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const radioGroups = new Map<string, PDFRadioGroup>();
+    const ordered = [...fields].sort((a, b) => a.pageNumber - b.pageNumber || a.tabOrder - b.tabOrder);
+
+    for (const pageNumber of new Set(fields.map(f => f.pageNumber))) {
+        pages[pageNumber - 1].node.delete(PDFName.of('Tabs'));
+    }
+
+    for (const fieldEl of ordered) {
+        const page = pages[fieldEl.pageNumber - 1];
+        const name = fieldEl.name.trim();
+        const appearance = { ...widgetPlacement(getPageFrame(page), fieldEl, scale), font };
+
+        let field: PDFField;
+        if (fieldEl.type === 'checkbox') {
+            const checkBox = form.createCheckBox(name);
+            checkBox.addToPage(page, appearance);
+            if (fieldEl.defaultValue) {
+                checkBox.check();
+                checkBox.acroField.dict.set(PDFName.of('DV'), PDFName.of('Yes'));
+            }
+            field = checkBox;
+        } else if (fieldEl.type === 'radio') {
+            let group = radioGroups.get(name);
+            if (!group) {
+                group = form.createRadioGroup(name);
+                radioGroups.set(name, group);
+            }
+            group.addOptionToPage(fieldEl.option || `Option ${group.getOptions().length + 1}`, page, appearance);
+            field = group;
+        } else if (fieldEl.type === 'dropdown') {
+            const dropdown = form.createDropdown(name);
+            dropdown.addOptions(fieldEl.options);
+            if (fieldEl.options.includes(fieldEl.defaultValue)) {
+                dropdown.select(fieldEl.defaultValue);
+                dropdown.acroField.dict.set(PDFName.of('DV'), PDFHexString.fromText(fieldEl.defaultValue));
+            }
+            dropdown.addToPage(page, appearance);
+            dropdown.setFontSize(fieldEl.fontSize);
+            field = dropdown;
+        } else {
+            const textField = form.createTextField(name);
+            if (fieldEl.type === 'multiline') textField.enableMultiline();
+            if (fieldEl.type === 'date') addDateActions(pdfDoc, textField, fieldEl.dateFormat || 'yyyy-mm-dd');
+            if (fieldEl.defaultValue) {
+                textField.setText(fieldEl.defaultValue);
+                textField.acroField.dict.set(PDFName.of('DV'), PDFHexString.fromText(fieldEl.defaultValue));
+            }
+            textField.addToPage(page, appearance);
+            textField.setFontSize(fieldEl.fontSize);
+            field = textField;
+        }
+
+        if (fieldEl.required) field.enableRequired();
+    }
+
+    // Radio defaults are chosen once every button of the group exists
+    for (const [name, group] of radioGroups) {
+        const selected = fields.find(f => f.type === 'radio' && f.name.trim() === name)?.defaultValue;
+        if (selected && group.getOptions().includes(selected)) {
+            group.select(selected);
+            group.acroField.dict.set(PDFName.of('DV'), PDFName.of(selected));
+        }
+    }
+
+    form.updateFieldAppearances(font);
+};
+
+/**
+ * Save edited PDF — redactions applied first, then whiteouts, then all other elements
  * All element coordinates are in canvas space and will be converted to PDF space
+ * @param flatten - Optionally bake form fields, comments and/or links into the pages
+ * @param password - Password for an encrypted file
+ * @throws Error if text can still be extracted from a redacted area of the saved file
  */
 export const saveEditedPDF = async (
     file: File,
     editorState: EditorState,
-    scale: number = 1.5
+    scale: number = 1.5,
+    flatten?: FlattenPdfConfig,
+    password?: string
 ): Promise<Uint8Array> => {
     const arrayBuffer = await file.arrayBuffer();
-    const pdfDoc = await PDFDocument.load(arrayBuffer);
+    const pdfDoc = await loadPDFDocument(arrayBuffer, password);
 
-    // Apply whiteouts FIRST (covers original content)
+    // Remove redacted content before anything is drawn over it
+    const redactionAreas = getRedactionAreas(pdfDoc, editorState.redactions, scale);
+    const redaction = redactionAreas.length > 0 ? await redactDocument(pdfDoc, redactionAreas) : undefined;
+
+    // Apply whiteouts next (covers original content)
     if (editorState.whiteouts.length > 0) {
         await applyWhiteoutElements(pdfDoc, editorState.whiteouts, scale);
     }
@@ -470,16 +709,32 @@ export const saveEditedPDF = async (
         await applyShapeElements(pdfDoc, editorState.shapes, scale);
         await applyAnnotationElements(pdfDoc, editorState.annotations, scale);
         await applyDrawingPaths(pdfDoc, editorState.drawings, scale);
+        await applyFormFieldElements(pdfDoc, editorState.fields, scale);
     } catch (err) {
         throw new Error(`Failed to apply edits to PDF: ${err instanceof Error ? err.message : 'Unknown error'}`);
     }
 
+    if (flatten) flattenDocument(pdfDoc, flatten);
+
     const pdfBytes = await pdfDoc.save();
+
+    if (redaction) {
+        // Text added in the editor may sit over a redacted area on purpose
+        const addedText = [
+            ...editorState.texts.flatMap(t => t.text.split('\n')),
+            ...editorState.fields.map(f => f.defaultValue),
+        ];
+        const leaks = await verifyRedaction(pdfBytes, redactionAreas, redaction.removedText, addedText);
+        if (leaks.length > 0) {
+            throw new Error(`Redaction could not be verified: ${describeRedactionLeak(leaks[0])}`);
+        }
+    }
+
     return pdfBytes;
 };
 
 // Helper functions
-function hexToRgb(hex: string): { r: number; g: number; b: number } {
+export function hexToRgb(hex: string): { r: number; g: number; b: number } {
     // Remove # if present
     const cleanHex = hex.replace(/^#/, '');
 
@@ -496,7 +751,7 @@ function hexToRgb(hex: string): { r: number; g: number; b: number } {
     } : { r: 0, g: 0, b: 0 };
 }
 
-function base64ToArrayBuffer(base64: string): Uint8Array {
+export function base64ToArrayBuffer(base64: string): Uint8Array {
     try {
         const binaryString = atob(base64);
         const bytes = new Uint8Array(binaryString.length);
@@ -0,0 +1,795 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * PDF Standard Security Handler — 100% client-side
+ * 1. Derive the file key from the user/owner password (R2–R4 MD5/RC4, R5/R6 SHA-2)
+ * 2. Write or read the /Encrypt dictionary and the permission flags
+ * 3. Encrypt or decrypt every string and stream, unpacking encrypted object streams
+ */
+
+import {
+    PDFArray,
+    PDFBool,
+    PDFContext,
+    PDFDict,
+    PDFDocument,
+    PDFHexString,
+    PDFInvalidObject,
+    PDFName,
+    PDFNumber,
+    PDFObject,
+    PDFObjectParser,
+    PDFObjectStreamParser,
+    PDFParser,
+    PDFRawStream,
+    PDFRef,
+    PDFStream,
+    PDFString,
+    PDFWriter,
+    pdfDocEncodingDecode,
+} from 'pdf-lib';
+import {
+    md5,
+    rc4,
+    sha2,
+    aesCbcEncrypt,
+    aesCbcDecrypt,
+    aesEcbEncrypt,
+    randomBytes,
+    concatBytes,
+} from './pdfCrypto';
+import type { EncryptionAlgorithm, EncryptPermissions } from '../types';
+
+// ── Types ─────────────────────────────────────────
+
+/** How strings or streams are encrypted (the CFM of a crypt filter) */
+type CryptMethod = 'None' | 'V2' | 'AESV2' | 'AESV3';
+
+interface SecurityHandler {
+    version: number;
+    revision: number;
+    key: Uint8Array;
+    stringMethod: CryptMethod;
+    streamMethod: CryptMethod;
+    encryptMetadata: boolean;
+}
+
+export interface PDFEncryptionInfo {
+    filter: string;
+    version: number;
+    revision: number;
+    keyLength: number; // In bits
+    algorithm: string; // e.g. 'RC4-40', 'AES-128', 'AES-256'
+    permissionFlags: number; // Raw signed /P value
+    permissions: Required<EncryptPermissions>;
+    encryptMetadata: boolean;
+}
+
+export interface EncryptDocumentOptions {
+    userPassword: string;
+    ownerPassword: string;
+    permissions: EncryptPermissions;
+    algorithm: EncryptionAlgorithm;
+    encryptMetadata: boolean;
+}
+
+// ── Constants ─────────────────────────────────────────
+
+/** Padding string from the PDF spec (Algorithm 2, step a) */
+const PASSWORD_PADDING = new Uint8Array([
+    0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08,
+    0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a,
+]);
+
+/** Unicode characters and the PDFDocEncoding bytes they are written as (R2–R4 passwords) */
+const PDF_DOC_ENCODING = new Map<string, number>(
+    Array.from({ length: 256 }, (_, byte): [string, number] => [pdfDocEncodingDecode(Uint8Array.of(byte)), byte])
+        .filter(([ch]) => ch !== '\ufffd')
+);
+
+/** SASLprep (RFC 4013) maps these spaces to U+0020 and removes the rest */
+const SASL_SPACES = /[\u00a0\u1680\u2000-\u200a\u202f\u205f\u3000]/g;
+const SASL_MAPPED_TO_NOTHING = /[\u00ad\u034f\u1806\u180b-\u180d\u200b-\u200d\u2060\ufe00-\ufe0f\ufeff]/g;
+/** Characters SASLprep prohibits: controls, private use, surrogates, non-characters and display properties */
+const SASL_PROHIBITED = /[\u0000-\u001f\u007f-\u009f\u06dd\u070f\u180e\u200e\u200f\u2028-\u202e\u2061-\u2063\u206a-\u206f\ue000-\uf8ff\ufdd0-\ufdef\ufff9-\ufffd\ud800-\udfff]|[\u{f0000}-\u{10ffff}]|[\u{1d173}-\u{1d17a}\u{e0001}\u{e0020}-\u{e007f}]/u;
+
+const AES_SALT = new Uint8Array([0x73, 0x41, 0x6c, 0x54]); // "sAlT"
+
+/** Bits 7–8 and 13–32 of /P are reserved and must be set */
+const PERMISSION_RESERVED_BITS = 0xfffff0c0;
+
+const PERMISSION_BITS: Record<keyof EncryptPermissions, number> = {
+    printing: 1 << 2,
+    modifying: 1 << 3,
+    copying: 1 << 4,
+    annotating: 1 << 5,
+    fillingForms: 1 << 8,
+    contentAccessibility: 1 << 9,
+    documentAssembly: 1 << 10,
+    highQualityPrint: 1 << 11,
+};
+
+const ALGORITHM_SETTINGS: Record<EncryptionAlgorithm, {
+    version: number;
+    revision: number;
+    keyBytes: number;
+    method: CryptMethod;
+}> = {
+    'RC4-128': { version: 2, revision: 3, keyBytes: 16, method: 'V2' },
+    'AES-128': { version: 4, revision: 4, keyBytes: 16, method: 'AESV2' },
+    'AES-256': { version: 5, revision: 6, keyBytes: 32, method: 'AESV3' },
+};
+
+// ── Byte helpers ─────────────────────────────────────────
+
+const bytesEqual = (a: Uint8Array, b: Uint8Array): boolean =>
+    a.length === b.length && a.every((value, i) => value === b[i]);
+
+const toHex = (bytes: Uint8Array): string =>
+    Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+const int32LE = (value: number): Uint8Array => {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setInt32(0, value, true);
+    return bytes;
+};
+
+const xorKey = (key: Uint8Array, value: number): Uint8Array => key.map(b => b ^ value);
+
+const readStringBytes = (value: PDFObject | undefined): Uint8Array => {
+    if (value instanceof PDFString || value instanceof PDFHexString) return value.asBytes();
+    return new Uint8Array(0);
+};
+
+// ── Permission flags ─────────────────────────────────────────
+
+/**
+ * Build the signed 32-bit /P value for a permission set
+ */
+export const computePermissionFlags = (permissions: EncryptPermissions): number => {
+    let flags = PERMISSION_RESERVED_BITS;
+    for (const key of Object.keys(PERMISSION_BITS) as Array<keyof EncryptPermissions>) {
+        if (!permissions[key]) continue;
+        // High-quality printing is meaningless when printing is disallowed
+        if (key === 'highQualityPrint' && !permissions.printing) continue;
+        flags |= PERMISSION_BITS[key];
+    }
+    return flags | 0;
+};
+
+/**
+ * Expand a /P value into permission toggles. Revision 2 has no separate
+ * bits for forms, accessibility, assembly or print quality — they follow
+ * the modify, copy and print bits.
+ */
+export const decodePermissionFlags = (flags: number, revision: number = 3): Required<EncryptPermissions> => {
+    const has = (key: keyof EncryptPermissions) => (flags & PERMISSION_BITS[key]) !== 0;
+
+    if (revision === 2) {
+        return {
+            printing: has('printing'),
+            highQualityPrint: has('printing'),
+            copying: has('copying'),
+            modifying: has('modifying'),
+            annotating: has('annotating'),
+            fillingForms: has('annotating'),
+            contentAccessibility: has('copying'),
+            documentAssembly: has('modifying'),
+        };
+    }
+
+    return {
+        printing: has('printing'),
+        highQualityPrint: has('printing') && has('highQualityPrint'),
+        copying: has('copying'),
+        modifying: has('modifying'),
+        annotating: has('annotating'),
+        fillingForms: has('fillingForms'),
+        contentAccessibility: has('contentAccessibility'),
+        documentAssembly: has('documentAssembly'),
+    };
+};
+
+// ── Key derivation: R2–R4 ─────────────────────────────────────────
+
+/**
+ * Encode a password in PDFDocEncoding, then truncate or pad it to the 32 bytes Algorithm 2 expects.
+ * Throws for characters PDFDocEncoding cannot represent, rather than matching a different password.
+ */
+const padPassword = (password: string): Uint8Array => {
+    const bytes = Uint8Array.from(Array.from(password).slice(0, 32), ch => {
+        const byte = PDF_DOC_ENCODING.get(ch);
+        if (byte === undefined) {
+            throw new Error(`The password character "${ch}" cannot be used with RC4 or AES-128 encryption. Use AES-256 or a different password.`);
+        }
+        return byte;
+    });
+    return concatBytes(bytes, PASSWORD_PADDING.subarray(0, 32 - bytes.length));
+};
+
+/** Algorithm 2: compute the file key from a padded user password */
+const computeLegacyFileKey = (
+    paddedPassword: Uint8Array,
+    ownerEntry: Uint8Array,
+    permissions: number,
+    fileId: Uint8Array,
+    revision: number,
+    keyBytes: number,
+    encryptMetadata: boolean
+): Uint8Array => {
+    const parts = [paddedPassword, ownerEntry, int32LE(permissions), fileId];
+    if (revision >= 4 && !encryptMetadata) {
+        parts.push(new Uint8Array([0xff, 0xff, 0xff, 0xff]));
+    }
+
+    let hash = md5(concatBytes(...parts));
+    if (revision >= 3) {
+        for (let i = 0; i < 50; i++) {
+            hash = md5(hash.subarray(0, keyBytes));
+        }
+    }
+    return hash.slice(0, revision >= 3 ? keyBytes : 5);
+};
+
+/** Algorithm 3 steps a–d: the RC4 key that protects the /O entry */
+const computeOwnerKey = (ownerPassword: string, revision: number, keyBytes: number): Uint8Array => {
+    let hash = md5(padPassword(ownerPassword));
+    if (revision >= 3) {
+        for (let i = 0; i < 50; i++) {
+            hash = md5(hash);
+        }
+    }
+    return hash.slice(0, revision >= 3 ? keyBytes : 5);
+};
+
+/** Algorithm 3: compute the /O entry */
+const computeOwnerEntry = (
+    ownerPassword: string,
+    userPassword: string,
+    revision: number,
+    keyBytes: number
+): Uint8Array => {
+    const ownerKey = computeOwnerKey(ownerPassword, revision, keyBytes);
+    let result = rc4(ownerKey, padPassword(userPassword));
+    if (revision >= 3) {
+        for (let i = 1; i <= 19; i++) {
+            result = rc4(xorKey(ownerKey, i), result);
+        }
+    }
+    return result;
+};
+
+/** Algorithms 4 and 5: compute the /U entry from the file key */
+const computeUserEntry = (fileKey: Uint8Array, fileId: Uint8Array, revision: number): Uint8Array => {
+    if (revision === 2) {
+        return rc4(fileKey, PASSWORD_PADDING);
+    }
+
+    let result = rc4(fileKey, md5(concatBytes(PASSWORD_PADDING, fileId)));
+    for (let i = 1; i <= 19; i++) {
+        result = rc4(xorKey(fileKey, i), result);
+    }
+    // The remaining 16 bytes are arbitrary padding
+    return concatBytes(result, new Uint8Array(16));
+};
+
+/** Algorithm 7: recover the padded user password from the /O entry */
+const recoverUserPassword = (
+    ownerPassword: string,
+    ownerEntry: Uint8Array,
+    revision: number,
+    keyBytes: number
+): Uint8Array => {
+    const ownerKey = computeOwnerKey(ownerPassword, revision, keyBytes);
+    if (revision === 2) {
+        return rc4(ownerKey, ownerEntry);
+    }
+
+    let result = ownerEntry;
+    for (let i = 19; i >= 0; i--) {
+        result = rc4(xorKey(ownerKey, i), result);
+    }
+    return result;
+};
+
+// ── Key derivation: R5/R6 ─────────────────────────────────────────
+
+/** Passwords for AES-256 are prepared with SASLprep, then UTF-8 encoded and cut to 127 bytes */
+const encodeUnicodePassword = (password: string): Uint8Array => {
+    const prepared = password
+        .replace(SASL_SPACES, ' ')
+        .replace(SASL_MAPPED_TO_NOTHING, '')
+        .normalize('NFKC');
+    const prohibited = SASL_PROHIBITED.exec(prepared);
+    if (prohibited) {
+        const code = prohibited[0].codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0');
+        throw new Error(`The password contains a character that cannot be used in PDF passwords (U+${code})`);
+    }
+    return new TextEncoder().encode(prepared).slice(0, 127);
+};
+
+/**
+ * Algorithm 2.B: the iterated SHA-2/AES hash used by revision 6.
+ * Revision 5 (the deprecated Adobe extension) used a single SHA-256.
+ */
+const computeHardenedHash = async (
+    password: Uint8Array,
+    salt: Uint8Array,
+    userEntry: Uint8Array,
+    revision: number
+): Promise<Uint8Array> => {
+    let k = await sha2(256, concatBytes(password, salt, userEntry));
+    if (revision < 6) return k;
+
+    let round = 0;
+    for (;;) {
+        const block = concatBytes(password, k, userEntry);
+        const k1 = new Uint8Array(block.length * 64);
+        for (let i = 0; i < 64; i++) k1.set(block, i * block.length);
+
+        const e = await aesCbcEncrypt(k.subarray(0, 16), k.subarray(16, 32), k1, false);
+
+        let sum = 0;
+        for (let i = 0; i < 16; i++) sum += e[i];
+        const bits = ([256, 384, 512] as const)[sum % 3];
+        k = await sha2(bits, e);
+
+        round++;
+        if (round >= 64 && e[e.length - 1] <= round - 32) break;
+    }
+    return k.slice(0, 32);
+};
+
+// ── Object encryption ─────────────────────────────────────────
+
+const getObjectKey = (handler: SecurityHandler, method: CryptMethod, ref: PDFRef): Uint8Array => {
+    if (method === 'AESV3') return handler.key;
+
+    const parts = [
+        handler.key,
+        new Uint8Array([
+            ref.objectNumber & 0xff,
+            (ref.objectNumber >> 8) & 0xff,
+            (ref.objectNumber >> 16) & 0xff,
+            ref.generationNumber & 0xff,
+            (ref.generationNumber >> 8) & 0xff,
+        ]),
+    ];
+    if (method === 'AESV2') parts.push(AES_SALT);
+
+    return md5(concatBytes(...parts)).slice(0, Math.min(handler.key.length + 5, 16));
+};
+
+const cryptBytes = async (
+    handler: SecurityHandler,
+    method: CryptMethod,
+    ref: PDFRef,
+    data: Uint8Array,
+    decrypt: boolean
+): Promise<Uint8Array> => {
+    if (method === 'None') return data;
+
+    const key = getObjectKey(handler, method, ref);
+    if (method === 'V2') return rc4(key, data);
+
+    if (!decrypt) {
+        // AES output is a random 16-byte IV followed by the CBC ciphertext
+        const iv = randomBytes(16);
+        return concatBytes(iv, await aesCbcEncrypt(key, iv, data));
+    }
+
+    if (data.length < 32 || data.length % 16 !== 0) {
+        // An empty string or stream is stored as a bare IV
+        if (data.length === 16) return new Uint8Array(0);
+        throw new Error('Invalid AES-encrypted data length');
+    }
+    return aesCbcDecrypt(key, data.subarray(0, 16), data.subarray(16));
+};
+
+const isMetadataStream = (stream: PDFStream): boolean =>
+    stream.dict.get(PDFName.of('Type')) === PDFName.of('Metadata');
+
+/**
+ * Encrypt or decrypt every string nested in an object, in place where
+ * possible. Returns the replacement for a top-level string.
+ */
+const cryptStrings = async (
+    handler: SecurityHandler,
+    ref: PDFRef,
+    object: PDFObject,
+    decrypt: boolean
+): Promise<PDFObject> => {
+    if (object instanceof PDFString || object instanceof PDFHexString) {
+        try {
+            const bytes = await cryptBytes(handler, handler.stringMethod, ref, object.asBytes(), decrypt);
+            return PDFHexString.of(toHex(bytes));
+        } catch {
+            // Leave malformed strings as they are rather than failing the document
+            return object;
+        }
+    }
+
+    if (object instanceof PDFDict) {
+        // Signature byte ranges cover the raw /Contents, which is never encrypted
+        const isSignature = object.get(PDFName.of('Type')) === PDFName.of('Sig');
+        for (const [key, value] of object.entries()) {
+            if (isSignature && key === PDFName.of('Contents')) continue;
+            const replaced = await cryptStrings(handler, ref, value, decrypt);
+            if (replaced !== value) object.set(key, replaced);
+        }
+        return object;
+    }
+
+    if (object instanceof PDFArray) {
+        for (let i = 0; i < object.size(); i++) {
+            const value = object.get(i);
+            const replaced = await cryptStrings(handler, ref, value, decrypt);
+            if (replaced !== value) object.set(i, replaced);
+        }
+        return object;
+    }
+
+    return object;
+};
+
+const cryptContextObjects = async (
+    context: PDFContext,
+    handler: SecurityHandler,
+    skipRef: PDFRef | undefined,
+    decrypt: boolean
+): Promise<void> => {
+    for (const [ref, object] of context.enumerateIndirectObjects()) {
+        if (skipRef && ref === skipRef) continue;
+
+        if (object instanceof PDFStream) {
+            await cryptStrings(handler, ref, object.dict, decrypt);
+            if (!handler.encryptMetadata && isMetadataStream(object)) continue;
+
+            const contents = await cryptBytes(handler, handler.streamMethod, ref, object.getContents(), decrypt);
+            context.assign(ref, PDFRawStream.of(object.dict, contents));
+            continue;
+        }
+
+        const replaced = await cryptStrings(handler, ref, object, decrypt);
+        if (replaced !== object) context.assign(ref, replaced);
+    }
+};
+
+// ── Encryption ─────────────────────────────────────────
+
+const getFileId = (pdf: PDFDocument): Uint8Array => {
+    const id = pdf.context.trailerInfo.ID;
+    if (id instanceof PDFArray && id.size() > 0) {
+        const first = readStringBytes(id.get(0));
+        if (first.length > 0) return first;
+    }
+
+    const generated = PDFHexString.of(toHex(randomBytes(16)));
+    pdf.context.trailerInfo.ID = pdf.context.obj([generated, generated]);
+    return generated.asBytes();
+};
+
+/**
+ * Encrypt a document in place with the Standard Security Handler.
+ * Save the result with `useObjectStreams: false` — object streams would
+ * otherwise be written with plain-text strings inside encrypted containers.
+ */
+export const encryptDocument = async (
+    pdf: PDFDocument,
+    options: EncryptDocumentOptions
+): Promise<void> => {
+    if (pdf.context.trailerInfo.Encrypt) {
+        throw new Error('PDF is already encrypted');
+    }
+
+    const settings = ALGORITHM_SETTINGS[options.algorithm];
+    const { revision, keyBytes } = settings;
+    const ownerPassword = options.ownerPassword || options.userPassword;
+    const permissions = computePermissionFlags(options.permissions);
+    const fileId = getFileId(pdf);
+
+    const entries: Record<string, PDFObject> = {
+        Filter: PDFName.of('Standard'),
+        V: PDFNumber.of(settings.version),
+        R: PDFNumber.of(revision),
+        Length: PDFNumber.of(keyBytes * 8),
+        P: PDFNumber.of(permissions),
+    };
+
+    let key: Uint8Array;
+    if (revision === 6) {
+        key = randomBytes(32);
+        const userPassword = encodeUnicodePassword(options.userPassword);
+        const ownerBytes = encodeUnicodePassword(ownerPassword);
+        const zeroIv = new Uint8Array(16);
+
+        const userSalts = randomBytes(16);
+        const userHash = await computeHardenedHash(userPassword, userSalts.subarray(0, 8), new Uint8Array(0), revision);
+        const userEntry = concatBytes(userHash, userSalts);
+        const userKeyHash = await computeHardenedHash(userPassword, userSalts.subarray(8), new Uint8Array(0), revision);
+        const userKeyEntry = await aesCbcEncrypt(userKeyHash, zeroIv, key, false);
+
+        const ownerSalts = randomBytes(16);
+        const ownerHash = await computeHardenedHash(ownerBytes, ownerSalts.subarray(0, 8), userEntry, revision);
+        const ownerEntry = concatBytes(ownerHash, ownerSalts);
+        const ownerKeyHash = await computeHardenedHash(ownerBytes, ownerSalts.subarray(8), userEntry, revision);
+        const ownerKeyEntry = await aesCbcEncrypt(ownerKeyHash, zeroIv, key, false);
+
+        const perms = concatBytes(
+            int32LE(permissions),
+            new Uint8Array([0xff, 0xff, 0xff, 0xff]),
+            new Uint8Array([options.encryptMetadata ? 0x54 : 0x46, 0x61, 0x64, 0x62]), // "T"/"F" + "adb"
+            randomBytes(4)
+        );
+
+        entries.U = PDFHexString.of(toHex(userEntry));
+        entries.UE = PDFHexString.of(toHex(userKeyEntry));
+        entries.O = PDFHexString.of(toHex(ownerEntry));
+        entries.OE = PDFHexString.of(toHex(ownerKeyEntry));
+        entries.Perms = PDFHexString.of(toHex(await aesEcbEncrypt(key, perms)));
+    } else {
+        const ownerEntry = computeOwnerEntry(ownerPassword, options.userPassword, revision, keyBytes);
+        key = computeLegacyFileKey(
+            padPassword(options.userPassword),
+            ownerEntry,
+            permissions,
+            fileId,
+            revision,
+            keyBytes,
+            options.encryptMetadata
+        );
+        entries.O = PDFHexString.of(toHex(ownerEntry));
+        entries.U = PDFHexString.of(toHex(computeUserEntry(key, fileId, revision)));
+    }
+
+    if (settings.version >= 4) {
+        entries.CF = pdf.context.obj({
+            StdCF: {
+                CFM: settings.method,
+                AuthEvent: 'DocOpen',
+                Length: keyBytes,
+            },
+        });
+        entries.StmF = PDFName.of('StdCF');
+        entries.StrF = PDFName.of('StdCF');
+        if (!options.encryptMetadata) {
+            entries.EncryptMetadata = PDFBool.False;
+        }
+    }
+
+    const handler: SecurityHandler = {
+        version: settings.version,
+        revision,
+        key,
+        stringMethod: settings.method,
+        streamMethod: settings.method,
+        encryptMetadata: options.encryptMetadata || settings.version < 4,
+    };
+
+    await cryptContextObjects(pdf.context, handler, undefined, false);
+
+    const encryptRef = pdf.context.register(pdf.context.obj(entries));
+    pdf.context.trailerInfo.Encrypt = encryptRef;
+};
+
+// ── Decryption ─────────────────────────────────────────
+
+const resolveCryptMethod = (encrypt: PDFDict, filterKey: string): CryptMethod => {
+    // A missing StmF/StrF defaults to the Identity filter
+    const filterName = encrypt.lookup(PDFName.of(filterKey));
+    if (!(filterName instanceof PDFName) || filterName === PDFName.of('Identity')) {
+        return 'None';
+    }
+
+    const filters = encrypt.lookup(PDFName.of('CF'));
+    const filter = filters instanceof PDFDict ? filters.lookup(filterName) : undefined;
+    const method = filter instanceof PDFDict ? filter.lookup(PDFName.of('CFM')) : undefined;
+
+    if (method === PDFName.of('AESV2')) return 'AESV2';
+    if (method === PDFName.of('AESV3')) return 'AESV3';
+    if (method === PDFName.of('V2')) return 'V2';
+    return 'None';
+};
+
+const readHandlerParameters = (encrypt: PDFDict) => {
+    const numberEntry = (key: string, fallback: number): number => {
+        const value = encrypt.lookup(PDFName.of(key));
+        return value instanceof PDFNumber ? value.asNumber() : fallback;
+    };
+
+    const filter = encrypt.lookup(PDFName.of('Filter'));
+    const version = numberEntry('V', 0);
+    const revision = numberEntry('R', 2);
+    const metadataFlag = encrypt.lookup(PDFName.of('EncryptMetadata'));
+
+    // V1 is always 40-bit; /Length is only meaningful for V2 and V3
+    let keyBits = 40;
+    if (version >= 5) keyBits = 256;
+    else if (version === 4) keyBits = 128;
+    else if (version >= 2) keyBits = numberEntry('Length', 40);
+
+    return {
+        filter: filter instanceof PDFName ? filter.decodeText() : 'unknown',
+        version,
+        revision,
+        keyBits,
+        permissions: numberEntry('P', 0) | 0,
+        encryptMetadata: !(metadataFlag instanceof PDFBool) || metadataFlag.asBoolean(),
+        stringMethod: version >= 4 ? resolveCryptMethod(encrypt, 'StrF') : 'V2' as CryptMethod,
+        streamMethod: version >= 4 ? resolveCryptMethod(encrypt, 'StmF') : 'V2' as CryptMethod,
+    };
+};
+
+/**
+ * Authenticate against the /Encrypt dictionary and return the handler,
+ * trying the password first as the owner password and then as the user's.
+ */
+const openSecurityHandler = async (
+    encrypt: PDFDict,
+    fileId: Uint8Array,
+    password: string
+): Promise<SecurityHandler> => {
+    const params = readHandlerParameters(encrypt);
+    const { version, revision, permissions, encryptMetadata } = params;
+
+    if (params.filter !== 'Standard') {
+        throw new Error(`Unsupported security handler: ${params.filter}`);
+    }
+    if (version < 1 || version > 5 || version === 3) {
+        throw new Error(`Unsupported encryption version: V${version}`);
+    }
+
+    const ownerEntry = readStringBytes(encrypt.lookup(PDFName.of('O')));
+    const userEntry = readStringBytes(encrypt.lookup(PDFName.of('U')));
+    let key: Uint8Array | null = null;
+
+    if (revision >= 5) {
+        const passwordBytes = encodeUnicodePassword(password);
+        const zeroIv = new Uint8Array(16);
+        const userData = userEntry.subarray(0, 48);
+
+        const ownerHash = await computeHardenedHash(passwordBytes, ownerEntry.subarray(32, 40), userData, revision);
+        if (bytesEqual(ownerHash, ownerEntry.subarray(0, 32))) {
+            const keyHash = await computeHardenedHash(passwordBytes, ownerEntry.subarray(40, 48), userData, revision);
+            key = await aesCbcDecrypt(keyHash, zeroIv, readStringBytes(encrypt.lookup(PDFName.of('OE'))), false);
+        } else {
+            const userHash = await computeHardenedHash(passwordBytes, userEntry.subarray(32, 40), new Uint8Array(0), revision);
+            if (bytesEqual(userHash, userEntry.subarray(0, 32))) {
+                const keyHash = await computeHardenedHash(passwordBytes, userEntry.subarray(40, 48), new Uint8Array(0), revision);
+                key = await aesCbcDecrypt(keyHash, zeroIv, readStringBytes(encrypt.lookup(PDFName.of('UE'))), false);
+            }
+        }
+    } else {
+        const keyBytes = params.keyBits / 8;
+        const tryUserPassword = (padded: Uint8Array): Uint8Array | null => {
+            const candidate = computeLegacyFileKey(padded, ownerEntry, permissions, fileId, revision, keyBytes, encryptMetadata);
+            const expected = computeUserEntry(candidate, fileId, revision);
+            const compareLength = revision === 2 ? 32 : 16;
+            return bytesEqual(expected.subarray(0, compareLength), userEntry.subarray(0, compareLength))
+                ? candidate
+                : null;
+        };
+
+        key = tryUserPassword(recoverUserPassword(password, ownerEntry, revision, keyBytes))
+            ?? tryUserPassword(padPassword(password));
+    }
+
+    if (!key) {
+        throw new Error('Incorrect password');
+    }
+
+    return {
+        version,
+        revision,
+        key,
+        stringMethod: params.stringMethod,
+        streamMethod: params.streamMethod,
+        encryptMetadata,
+    };
+};
+
+const getEncryptDict = (context: PDFContext): PDFDict | undefined => {
+    const encrypt = context.lookup(context.trailerInfo.Encrypt);
+    return encrypt instanceof PDFDict ? encrypt : undefined;
+};
+
+/**
+ * Object streams are encrypted as a whole, so pdf-lib's parser cannot read
+ * them and keeps them as invalid objects. Decrypt and unpack them here; the
+ * objects inside carry plain strings and need no further decryption.
+ */
+const unpackEncryptedObjectStreams = async (
+    context: PDFContext,
+    handler: SecurityHandler
+): Promise<void> => {
+    for (const [ref, object] of context.enumerateIndirectObjects()) {
+        if (!(object instanceof PDFInvalidObject)) continue;
+
+        const bytes = new Uint8Array(object.sizeInBytes());
+        object.copyBytesInto(bytes, 0);
+
+        let stream: PDFObject;
+        try {
+            stream = PDFObjectParser.forBytes(bytes, context).parseObject();
+        } catch {
+            continue;
+        }
+        if (!(stream instanceof PDFRawStream) || stream.dict.get(PDFName.of('Type')) !== PDFName.of('ObjStm')) {
+            continue;
+        }
+
+        const contents = await cryptBytes(handler, handler.streamMethod, ref, stream.getContents(), true);
+
+        // Objects rewritten by later incremental updates take precedence
+        const existing = new Map(context.enumerateIndirectObjects());
+        await PDFObjectStreamParser.forStream(PDFRawStream.of(stream.dict, contents)).parseIntoContext();
+        for (const [existingRef, existingObject] of existing) {
+            context.assign(existingRef, existingObject);
+        }
+        context.delete(ref);
+    }
+};
+
+/**
+ * Describe how a parsed document is encrypted, or null if it is not
+ */
+export const readEncryptionInfo = (context: PDFContext): PDFEncryptionInfo | null => {
+    const encrypt = getEncryptDict(context);
+    if (!encrypt) return null;
+
+    const params = readHandlerParameters(encrypt);
+    const method = params.streamMethod === 'None' ? params.stringMethod : params.streamMethod;
+
+    let algorithm: string;
+    if (method === 'AESV2' || method === 'AESV3') algorithm = `AES-${params.keyBits}`;
+    else if (method === 'V2') algorithm = `RC4-${params.keyBits}`;
+    else algorithm = 'None';
+
+    return {
+        filter: params.filter,
+        version: params.version,
+        revision: params.revision,
+        keyLength: params.keyBits,
+        algorithm,
+        permissionFlags: params.permissions,
+        permissions: decodePermissionFlags(params.permissions, params.revision),
+        encryptMetadata: params.encryptMetadata,
+    };
+};
+
+/**
+ * Decrypt a password-protected PDF and return an equivalent unencrypted
+ * file. Unencrypted input is returned unchanged. Either the user or the
+ * owner password is accepted; owner-only files open with an empty one.
+ */
+export const decryptPDFBytes = async (bytes: Uint8Array, password: string): Promise<Uint8Array> => {
+    const context = await PDFParser.forBytesWithOptions(bytes).parseDocument();
+    const encrypt = getEncryptDict(context);
+    if (!encrypt) return bytes;
+
+    const id = context.lookup(context.trailerInfo.ID);
+    const fileId = id instanceof PDFArray && id.size() > 0
+        ? readStringBytes(context.lookup(id.get(0)))
+        : new Uint8Array(0);
+
+    const handler = await openSecurityHandler(encrypt, fileId, password);
+    const encryptRef = context.trailerInfo.Encrypt instanceof PDFRef ? context.trailerInfo.Encrypt : undefined;
+
+    await cryptContextObjects(context, handler, encryptRef, true);
+    await unpackEncryptedObjectStreams(context, handler);
+
+    if (encryptRef) context.delete(encryptRef);
+    delete context.trailerInfo.Encrypt;
+
+    // The catalog may only have become readable once object streams were unpacked
+    const root = context.lookup(context.trailerInfo.Root);
+    if (!(root instanceof PDFDict)) {
+        const catalog = context.enumerateIndirectObjects().find(([, object]) =>
+            object instanceof PDFDict && object.get(PDFName.of('Type')) === PDFName.of('Catalog')
+        );
+        if (catalog) context.trailerInfo.Root = catalog[0];
+    }
+
+    return PDFWriter.forContext(context, 50).serializeToBuffer();
+};
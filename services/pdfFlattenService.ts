@@ -0,0 +1,251 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Flattening forms and annotations — 100% client-side
+ * 1. Regenerate missing form field appearances so filled-in values are not lost
+ * 2. Draw each chosen annotation's normal appearance stream into the page content, mapped onto its /Rect
+ * 3. Remove the flattened widgets and annotations, and the form itself once its fields are gone
+ */
+
+import {
+    PDFArray,
+    PDFBool,
+    PDFDict,
+    PDFDocument,
+    PDFName,
+    PDFNumber,
+    PDFOperator,
+    PDFPage,
+    PDFRef,
+    PDFStream,
+    concatTransformationMatrix,
+    drawObject,
+    popGraphicsState,
+    pushGraphicsState,
+} from 'pdf-lib';
+import { loadPDFDocument } from './pdfService';
+import { isolateExistingContent } from './pdfGeometry';
+import type { FlattenPdfConfig } from '../types';
+
+// ── Constants ─────────────────────────────────────────
+
+/** Annotation flag bit 2: never displayed or printed */
+export const HIDDEN_FLAG = 1 << 1;
+
+/** Annotation subtypes that are not comments: handled separately or left alone */
+const NON_COMMENT_SUBTYPES = new Set([
+    'Widget', 'Link', 'Popup',
+    'Movie', 'Screen', 'Sound', 'PrinterMark', 'TrapNet', 'Watermark', '3D', 'RichMedia', 'Projection',
+]);
+
+export type AnnotationCategory = 'forms' | 'comments' | 'links';
+
+export type FlattenCounts = Record<AnnotationCategory, number>;
+
+// ── Classification ─────────────────────────────────────────
+
+const getSubtype = (annot: PDFDict): string | undefined =>
+    annot.lookup(PDFName.of('Subtype'))?.toString().slice(1);
+
+/**
+ * Which toggle an annotation falls under; Popups go with their parent comment
+ */
+export const categorizeAnnotation = (annot: PDFDict): AnnotationCategory | 'popup' | null => {
+    const subtype = getSubtype(annot);
+    if (!subtype) return null;
+    if (subtype === 'Widget') return 'forms';
+    if (subtype === 'Link') return 'links';
+    if (subtype === 'Popup') return 'popup';
+    return NON_COMMENT_SUBTYPES.has(subtype) ? null : 'comments';
+};
+
+/**
+ * Count the form fields (widgets), comments and links on every page
+ */
+export const countAnnotations = (pdf: PDFDocument): FlattenCounts => {
+    const counts: FlattenCounts = { forms: 0, comments: 0, links: 0 };
+    for (const page of pdf.getPages()) {
+        const annots = page.node.Annots();
+        if (!annots) continue;
+        for (let i = 0; i < annots.size(); i++) {
+            const annot = annots.lookup(i);
+            if (!(annot instanceof PDFDict)) continue;
+            const category = categorizeAnnotation(annot);
+            if (category && category !== 'popup') counts[category]++;
+        }
+    }
+    return counts;
+};
+
+// ── Appearances ─────────────────────────────────────────
+
+const numbers = (array: PDFArray | undefined, fallback: number[]): number[] => {
+    if (!array) return fallback;
+    const values = array.asArray().map(value => (value instanceof PDFNumber ? value.asNumber() : NaN));
+    return values.length === fallback.length && values.every(Number.isFinite) ? values : fallback;
+};
+
+/**
+ * The normal appearance to draw: /AP /N, or the entry of /N named by the /AS state
+ */
+const getNormalAppearance = (pdf: PDFDocument, annot: PDFDict): { ref: PDFRef; stream: PDFStream } | null => {
+    const ap = annot.lookup(PDFName.of('AP'));
+    if (!(ap instanceof PDFDict)) return null;
+
+    let ref = ap.get(PDFName.of('N'));
+    const normal = pdf.context.lookup(ref);
+    if (normal instanceof PDFDict && !(normal instanceof PDFStream)) {
+        const state = annot.lookup(PDFName.of('AS'));
+        if (!(state instanceof PDFName)) return null;
+        ref = normal.get(state);
+    }
+
+    const stream = pdf.context.lookup(ref);
+    return ref instanceof PDFRef && stream instanceof PDFStream ? { ref, stream } : null;
+};
+
+/**
+ * Operators that draw an appearance so its transformed /BBox fills the annotation /Rect (PDF 32000 §12.5.5)
+ */
+const appearanceOperators = (annot: PDFDict, stream: PDFStream, name: PDFName): PDFOperator[] | null => {
+    const [x1, y1, x2, y2] = numbers(annot.lookupMaybe(PDFName.of('Rect'), PDFArray), [0, 0, 0, 0]);
+    const [bx1, by1, bx2, by2] = numbers(stream.dict.lookupMaybe(PDFName.of('BBox'), PDFArray), [0, 0, 0, 0]);
+    const [a, b, c, d, e, f] = numbers(stream.dict.lookupMaybe(PDFName.of('Matrix'), PDFArray), [1, 0, 0, 1, 0, 0]);
+
+    const corners = [[bx1, by1], [bx2, by1], [bx1, by2], [bx2, by2]].map(([x, y]) => [a * x + c * y + e, b * x + d * y + f]);
+    const minX = Math.min(...corners.map(p => p[0]));
+    const minY = Math.min(...corners.map(p => p[1]));
+    const width = Math.max(...corners.map(p => p[0])) - minX;
+    const height = Math.max(...corners.map(p => p[1])) - minY;
+
+    const rectWidth = Math.abs(x2 - x1);
+    const rectHeight = Math.abs(y2 - y1);
+    if (width <= 0 || height <= 0 || rectWidth <= 0 || rectHeight <= 0) return null;
+
+    const sx = rectWidth / width;
+    const sy = rectHeight / height;
+    return [
+        pushGraphicsState(),
+        concatTransformationMatrix(sx, 0, 0, sy, Math.min(x1, x2) - minX * sx, Math.min(y1, y2) - minY * sy),
+        drawObject(name),
+        popGraphicsState(),
+    ];
+};
+
+/**
+ * Regenerate appearances for fields that have none or were changed, so flattening keeps their values
+ */
+const refreshFieldAppearances = (pdf: PDFDocument): void => {
+    const acroForm = pdf.catalog.getAcroForm();
+    if (!acroForm) return;
+
+    try {
+        const form = pdf.getForm();
+        if (acroForm.dict.lookup(PDFName.of('NeedAppearances')) === PDFBool.True) {
+            for (const field of form.getFields()) form.markFieldAsDirty(field.ref);
+        }
+        form.updateFieldAppearances();
+    } catch {
+        // Fields pdf-lib cannot lay out keep the appearance the file came with
+    }
+};
+
+// ── Flattening ─────────────────────────────────────────
+
+const flattenPage = (pdf: PDFDocument, page: PDFPage, config: FlattenPdfConfig, counts: FlattenCounts): void => {
+    const annots = page.node.Annots();
+    if (!annots) return;
+
+    const kept: Array<PDFRef | PDFDict> = [];
+    const operators: PDFOperator[] = [];
+
+    for (let i = 0; i < annots.size(); i++) {
+        const entry = annots.get(i);
+        const annot = annots.lookup(i);
+        if (!(annot instanceof PDFDict)) continue;
+
+        const category = categorizeAnnotation(annot);
+        if (category === null || !config[category === 'popup' ? 'comments' : category]) {
+            kept.push(entry as PDFRef | PDFDict);
+            continue;
+        }
+        if (category === 'popup') continue;
+        counts[category]++;
+
+        const flags = annot.lookup(PDFName.of('F'));
+        if (flags instanceof PDFNumber && (flags.asNumber() & HIDDEN_FLAG)) continue;
+
+        const appearance = getNormalAppearance(pdf, annot);
+        if (!appearance) continue;
+        if (!appearance.stream.dict.has(PDFName.of('Subtype'))) {
+            appearance.stream.dict.set(PDFName.of('Type'), PDFName.of('XObject'));
+            appearance.stream.dict.set(PDFName.of('Subtype'), PDFName.of('Form'));
+        }
+
+        const drawn = appearanceOperators(annot, appearance.stream, page.node.newXObject('FlatAnnot', appearance.ref));
+        if (drawn) operators.push(...drawn);
+    }
+
+    if (operators.length > 0) {
+        isolateExistingContent(pdf, page);
+        page.node.addContentStream(pdf.context.register(pdf.context.contentStream(operators)));
+    }
+
+    if (kept.length === 0) page.node.delete(PDFName.of('Annots'));
+    else page.node.set(PDFName.of('Annots'), pdf.context.obj(kept));
+};
+
+/**
+ * Bake the chosen kinds of annotations into the page content of a loaded document
+ * @returns How many form fields (widgets), comments and links were flattened
+ *
+ * Annotations without an appearance stream have nothing to draw and are only removed.
+ */
+export const flattenDocument = (pdf: PDFDocument, config: FlattenPdfConfig): FlattenCounts => {
+    const counts: FlattenCounts = { forms: 0, comments: 0, links: 0 };
+    if (config.forms) refreshFieldAppearances(pdf);
+
+    for (const page of pdf.getPages()) {
+        flattenPage(pdf, page, config, counts);
+    }
+
+    // Every widget is gone, so the fields no longer have anything to show
+    if (config.forms) pdf.catalog.delete(PDFName.of('AcroForm'));
+    return counts;
+};
+
+/**
+ * Flatten forms, comments and/or links of a PDF
+ * @param file - The PDF to flatten
+ * @param config - Which kinds of annotations to flatten
+ * @param password - Optional password if the PDF is encrypted
+ * @returns The flattened PDF and what was flattened
+ */
+export const flattenPDF = async (
+    file: File,
+    config: FlattenPdfConfig,
+    password?: string,
+    onProgress?: (progress: number, status: string) => void,
+    abortSignal?: { current: boolean }
+): Promise<{ data: Uint8Array; flattened: FlattenCounts }> => {
+    if (!file.type.includes('pdf') && !file.name.toLowerCase().endsWith('.pdf')) {
+        throw new Error('File is not a PDF');
+    }
+    if (!config.forms && !config.comments && !config.links) {
+        throw new Error('Please choose at least one thing to flatten');
+    }
+
+    onProgress?.(10, 'Loading PDF...');
+    const pdf = await loadPDFDocument(await file.arrayBuffer(), password);
+    if (abortSignal?.current) throw new Error('Flatten cancelled');
+
+    onProgress?.(40, 'Flattening...');
+    const flattened = flattenDocument(pdf, config);
+    if (abortSignal?.current) throw new Error('Flatten cancelled');
+
+    onProgress?.(90, 'Saving PDF...');
+    const data = await pdf.save();
+    onProgress?.(100, 'Flatten complete!');
+    return { data, flattened };
+};
@@ -0,0 +1,529 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Filling AcroForms — 100% client-side
+ * 1. List the form's fields with their current values and where their widgets sit on the displayed pages
+ * 2. Write the entered values back through pdf-lib's form API and regenerate the field appearances
+ * 3. Exchange field values as FDF, XFDF or JSON, matched by fully qualified field name
+ */
+
+import {
+    PDFArray,
+    PDFBool,
+    PDFCheckBox,
+    PDFDict,
+    PDFDocument,
+    PDFDropdown,
+    PDFField,
+    PDFHexString,
+    PDFName,
+    PDFNumber,
+    PDFOptionList,
+    PDFParser,
+    PDFRadioGroup,
+    PDFSignature,
+    PDFString,
+    PDFTextField,
+} from 'pdf-lib';
+import { loadPDFDocument } from './pdfService';
+import { getPageFrame, toDisplaySpace } from './pdfGeometry';
+import { HIDDEN_FLAG } from './pdfFlattenService';
+import { escapeXml } from '../utils/escape';
+import type { CropRect } from '../types';
+
+// ── Constants ─────────────────────────────────────────
+
+/** Check box and radio button value meaning "not selected" */
+const OFF_STATE = 'Off';
+
+const XFDF_NAMESPACE = 'http://ns.adobe.com/xfdf/';
+
+export type FormFieldType = 'text' | 'checkbox' | 'radio' | 'dropdown' | 'list' | 'signature' | 'button';
+
+/** Text for text fields, dropdowns and radio groups ('' when empty), checked state, or a list's selection */
+export type FormFieldValue = string | boolean | string[];
+
+export type FormValues = Record<string, FormFieldValue>;
+
+export type FormDataFormat = 'fdf' | 'xfdf' | 'json';
+
+/** Where a field's widget is shown: a rectangle on the displayed page (fractions, top-left origin) */
+export interface FormWidget {
+    pageIndex: number;
+    rect: CropRect;
+    /** Radio buttons: the option this widget selects */
+    option?: string;
+}
+
+export interface FormFieldInfo {
+    name: string;
+    type: FormFieldType;
+    value: FormFieldValue;
+    options: string[];
+    required: boolean;
+    readOnly: boolean;
+    multiline: boolean;
+    multiSelect: boolean;
+    maxLength?: number;
+    /** Check boxes: the export value written when checked */
+    onValue?: string;
+    widgets: FormWidget[];
+}
+
+// ── Reading ─────────────────────────────────────────
+
+const getFieldType = (field: PDFField): FormFieldType => {
+    if (field instanceof PDFTextField) return 'text';
+    if (field instanceof PDFCheckBox) return 'checkbox';
+    if (field instanceof PDFRadioGroup) return 'radio';
+    if (field instanceof PDFDropdown) return 'dropdown';
+    if (field instanceof PDFOptionList) return 'list';
+    if (field instanceof PDFSignature) return 'signature';
+    return 'button';
+};
+
+/** The value a field holds, in the shape the UI and the exports use for its type */
+const getFieldValue = (field: PDFField): FormFieldValue => {
+    if (field instanceof PDFTextField) return field.getText() ?? '';
+    if (field instanceof PDFCheckBox) return field.isChecked();
+    if (field instanceof PDFRadioGroup) return field.getSelected() ?? '';
+    if (field instanceof PDFDropdown) return field.getSelected()[0] ?? '';
+    if (field instanceof PDFOptionList) return field.getSelected();
+    return '';
+};
+
+/** Page index of every annotation dictionary, for widgets that do not name their page */
+const mapAnnotationPages = (pdf: PDFDocument): Map<PDFDict, number> => {
+    const pages = new Map<PDFDict, number>();
+    pdf.getPages().forEach((page, pageIndex) => {
+        const annots = page.node.Annots();
+        if (!annots) return;
+        for (let i = 0; i < annots.size(); i++) {
+            const annot = annots.lookup(i);
+            if (annot instanceof PDFDict) pages.set(annot, pageIndex);
+        }
+    });
+    return pages;
+};
+
+const getWidgets = (pdf: PDFDocument, field: PDFField, annotationPages: Map<PDFDict, number>, options: string[]): FormWidget[] => {
+    const pages = pdf.getPages();
+    const widgets: FormWidget[] = [];
+
+    field.acroField.getWidgets().forEach((widget, index) => {
+        const pageIndex = annotationPages.get(widget.dict);
+        if (pageIndex === undefined) return;
+        const flags = widget.dict.lookup(PDFName.of('F'));
+        if (flags instanceof PDFNumber && (flags.asNumber() & HIDDEN_FLAG)) return;
+
+        const frame = getPageFrame(pages[pageIndex]);
+        const { x, y, width, height } = widget.getRectangle();
+        const a = toDisplaySpace(frame, x, y);
+        const b = toDisplaySpace(frame, x + width, y + height);
+        widgets.push({
+            pageIndex,
+            rect: {
+                left: Math.min(a.x, b.x) / frame.width,
+                top: 1 - Math.max(a.y, b.y) / frame.height,
+                right: Math.max(a.x, b.x) / frame.width,
+                bottom: 1 - Math.min(a.y, b.y) / frame.height,
+            },
+            // Radio options follow the widget order (see PDFRadioGroup.getOptions)
+            option: field instanceof PDFRadioGroup ? options[index] : undefined,
+        });
+    });
+    return widgets;
+};
+
+/**
+ * List every field of a loaded document's form, in the order the form declares them
+ */
+export const readFormFields = (pdf: PDFDocument): FormFieldInfo[] => {
+    if (!pdf.catalog.getAcroForm()) return [];
+
+    const annotationPages = mapAnnotationPages(pdf);
+    return pdf.getForm().getFields().map(field => {
+        const options = field instanceof PDFRadioGroup || field instanceof PDFDropdown || field instanceof PDFOptionList
+            ? field.getOptions()
+            : [];
+        return {
+            name: field.getName(),
+            type: getFieldType(field),
+            value: getFieldValue(field),
+            options,
+            required: field.isRequired(),
+            readOnly: field.isReadOnly(),
+            multiline: field instanceof PDFTextField && field.isMultiline(),
+            multiSelect: field instanceof PDFOptionList && field.isMultiselect(),
+            maxLength: field instanceof PDFTextField ? field.getMaxLength() : undefined,
+            onValue: field instanceof PDFCheckBox ? field.acroField.getOnValue()?.decodeText() : undefined,
+            widgets: getWidgets(pdf, field, annotationPages, options),
+        };
+    });
+};
+
+/** Whether a field holds data a user can enter, export and import */
+export const isFillable = (field: FormFieldInfo): boolean =>
+    field.type !== 'signature' && field.type !== 'button';
+
+const isEmpty = (value: FormFieldValue | undefined): boolean =>
+    value === undefined || value === false || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Names of the required fields that have no value
+ */
+export const findMissingRequired = (fields: FormFieldInfo[], values: FormValues): string[] =>
+    fields
+        .filter(field => field.required && !field.readOnly && isFillable(field) && isEmpty(values[field.name] ?? field.value))
+        .map(field => field.name);
+
+// ── Filling ─────────────────────────────────────────
+
+const asText = (value: FormFieldValue): string =>
+    Array.isArray(value) ? value.join(', ') : typeof value === 'boolean' ? (value ? 'Yes' : '') : value;
+
+const applyValue = (field: PDFField, value: FormFieldValue): void => {
+    if (field instanceof PDFTextField) {
+        const maxLength = field.getMaxLength();
+        const text = asText(value);
+        field.setText(maxLength !== undefined ? text.slice(0, maxLength) : text);
+    } else if (field instanceof PDFCheckBox) {
+        if (value === true) field.check();
+        else field.uncheck();
+    } else if (field instanceof PDFRadioGroup) {
+        const option = asText(value);
+        if (field.getOptions().includes(option)) field.select(option);
+        else field.clear();
+    } else if (field instanceof PDFDropdown) {
+        const option = asText(value);
+        if (option && (field.isEditable() || field.getOptions().includes(option))) field.select(option);
+        else field.clear();
+    } else if (field instanceof PDFOptionList) {
+        const options = field.getOptions();
+        const selected = (Array.isArray(value) ? value : [asText(value)]).filter(option => options.includes(option));
+        if (selected.length > 0) field.select(field.isMultiselect() ? selected : selected[0]);
+        else field.clear();
+    }
+};
+
+/**
+ * Fill a PDF form
+ * @param file - The PDF with the form
+ * @param values - Field values by fully qualified name; fields not listed keep their value
+ * @param password - Optional password if the PDF is encrypted
+ * @returns The filled PDF
+ *
+ * Appearances are regenerated with Helvetica. When a value has characters Helvetica cannot
+ * encode, the file asks the viewer to draw the appearances instead (/NeedAppearances).
+ */
+export const fillForm = async (
+    file: File,
+    values: FormValues,
+    password?: string,
+    onProgress?: (progress: number, status: string) => void,
+    abortSignal?: { current: boolean }
+): Promise<Uint8Array> => {
+    if (!file.type.includes('pdf') && !file.name.toLowerCase().endsWith('.pdf')) {
+        throw new Error('File is not a PDF');
+    }
+
+    onProgress?.(10, 'Loading PDF...');
+    const pdf = await loadPDFDocument(await file.arrayBuffer(), password);
+    if (!pdf.catalog.getAcroForm()) {
+        throw new Error('This PDF has no form fields to fill');
+    }
+    if (abortSignal?.current) throw new Error('Form filling cancelled');
+
+    onProgress?.(30, 'Filling fields...');
+    const form = pdf.getForm();
+    for (const field of form.getFields()) {
+        const value = values[field.getName()];
+        if (value === undefined || field.isReadOnly()) continue;
+        applyValue(field, value);
+    }
+    if (abortSignal?.current) throw new Error('Form filling cancelled');
+
+    onProgress?.(60, 'Updating field appearances...');
+    try {
+        form.updateFieldAppearances();
+    } catch {
+        form.acroForm.dict.set(PDFName.of('NeedAppearances'), PDFBool.True);
+    }
+    if (abortSignal?.current) throw new Error('Form filling cancelled');
+
+    onProgress?.(90, 'Saving PDF...');
+    const data = await pdf.save({ updateFieldAppearances: false });
+    onProgress?.(100, 'Form filled!');
+    return data;
+};
+
+// ── Export ─────────────────────────────────────────
+
+interface FieldNode {
+    name: string;
+    value?: string | string[];
+    kids: FieldNode[];
+}
+
+/** The value as FDF and XFDF write it: check boxes and empty radio groups use state names */
+const toExchangeValue = (field: FormFieldInfo, value: FormFieldValue): string | string[] => {
+    if (field.type === 'checkbox') return value === true ? field.onValue ?? 'Yes' : OFF_STATE;
+    if (field.type === 'radio') return asText(value) || OFF_STATE;
+    return Array.isArray(value) ? value : asText(value);
+};
+
+/** Nest fully qualified names ("a.b.c") the way FDF /Kids and XFDF <field> elements do */
+const buildFieldTree = (fields: FormFieldInfo[], values: FormValues): FieldNode[] => {
+    const roots: FieldNode[] = [];
+    for (const field of fields.filter(isFillable)) {
+        let level = roots;
+        let node: FieldNode | undefined;
+        for (const part of field.name.split('.')) {
+            node = level.find(existing => existing.name === part);
+            if (!node) {
+                node = { name: part, kids: [] };
+                level.push(node);
+            }
+            level = node.kids;
+        }
+        node!.value = toExchangeValue(field, values[field.name] ?? field.value);
+    }
+    return roots;
+};
+
+const xfdfField = (node: FieldNode, indent: string): string => {
+    const lines = [`${indent}<field name="${escapeXml(node.name)}">`];
+    if (node.value !== undefined) {
+        for (const value of Array.isArray(node.value) ? node.value : [node.value]) {
+            lines.push(`${indent}  <value>${escapeXml(value)}</value>`);
+        }
+    }
+    for (const kid of node.kids) lines.push(xfdfField(kid, `${indent}  `));
+    lines.push(`${indent}</field>`);
+    return lines.join('\n');
+};
+
+/** Literal strings for plain ASCII, UTF-16BE hex strings for everything else */
+const fdfString = (text: string): string =>
+    /^[\x20-\x7e]*$/.test(text)
+        ? `(${text.replace(/[\\()]/g, match => `\\${match}`)})`
+        : PDFHexString.fromText(text).toString();
+
+const fdfField = (node: FieldNode, field: FormFieldInfo | undefined): string => {
+    const entries = [`/T ${fdfString(node.name)}`];
+    if (node.value !== undefined) {
+        const value = node.value;
+        if (Array.isArray(value)) entries.push(`/V [${value.map(fdfString).join(' ')}]`);
+        else if (field?.type === 'checkbox' || field?.type === 'radio') entries.push(`/V ${PDFName.of(value).toString()}`);
+        else entries.push(`/V ${fdfString(value)}`);
+    }
+    return entries.join(' ');
+};
+
+const fdfFields = (nodes: FieldNode[], fieldsByName: Map<string, FormFieldInfo>, prefix: string): string =>
+    nodes.map(node => {
+        const name = prefix ? `${prefix}.${node.name}` : node.name;
+        const kids = node.kids.length > 0 ? ` /Kids [${fdfFields(node.kids, fieldsByName, name)}]` : '';
+        return `<< ${fdfField(node, fieldsByName.get(name))}${kids} >>`;
+    }).join(' ');
+
+/**
+ * Serialize the form's values as FDF, XFDF or JSON
+ * @param fields - The form's fields, from readFormFields
+ * @param values - Entered values; fields without one export their current value
+ * @param sourceName - The PDF's file name, recorded so viewers can find the form
+ */
+export const exportFormData = (
+    fields: FormFieldInfo[],
+    values: FormValues,
+    format: FormDataFormat,
+    sourceName: string
+): string => {
+    if (format === 'json') {
+        const data: FormValues = {};
+        for (const field of fields.filter(isFillable)) data[field.name] = values[field.name] ?? field.value;
+        return JSON.stringify({ form: sourceName, fields: data }, null, 2);
+    }
+
+    const tree = buildFieldTree(fields, values);
+
+    if (format === 'xfdf') {
+        return [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            `<xfdf xmlns="${XFDF_NAMESPACE}" xml:space="preserve">`,
+            `  <f href="${escapeXml(sourceName)}"/>`,
+            '  <fields>',
+            ...tree.map(node => xfdfField(node, '    ')),
+            '  </fields>',
+            '</xfdf>',
+            '',
+        ].join('\n');
+    }
+
+    const fieldsByName = new Map(fields.map(field => [field.name, field]));
+    return [
+        '%FDF-1.2',
+        '1 0 obj',
+        `<< /FDF << /F ${fdfString(sourceName)} /Fields [${fdfFields(tree, fieldsByName, '')}] >> >>`,
+        'endobj',
+        'trailer',
+        '<< /Root 1 0 R >>',
+        '%%EOF',
+        '',
+    ].join('\n');
+};
+
+// ── Import ─────────────────────────────────────────
+
+/** Values as read from a data file, before they are matched to the form's fields */
+export type ImportedValues = Record<string, FormFieldValue>;
+
+const parseJSON = (text: string): ImportedValues => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('The JSON file could not be read');
+    }
+    if (data && typeof data === 'object' && 'fields' in data) data = (data as { fields: unknown }).fields;
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw new Error('The JSON file does not contain field values');
+    }
+
+    const values: ImportedValues = {};
+    for (const [name, value] of Object.entries(data as Record<string, unknown>)) {
+        if (typeof value === 'string' || typeof value === 'boolean') values[name] = value;
+        else if (typeof value === 'number') values[name] = String(value);
+        else if (Array.isArray(value)) values[name] = value.map(String);
+    }
+    return values;
+};
+
+const parseXFDF = (text: string): ImportedValues => {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.localName !== 'xfdf') {
+        throw new Error('The XFDF file could not be read');
+    }
+
+    const values: ImportedValues = {};
+    const visit = (element: Element, prefix: string) => {
+        for (const child of Array.from(element.children)) {
+            if (child.localName !== 'field') continue;
+            const name = prefix ? `${prefix}.${child.getAttribute('name') ?? ''}` : child.getAttribute('name') ?? '';
+            const entries = Array.from(child.children)
+                .filter(node => node.localName === 'value')
+                .map(node => node.textContent ?? '');
+            if (entries.length > 0) values[name] = entries.length === 1 ? entries[0] : entries;
+            visit(child, name);
+        }
+    };
+    for (const fields of Array.from(doc.documentElement.children).filter(node => node.localName === 'fields')) {
+        visit(fields, '');
+    }
+    return values;
+};
+
+const decodeFdfValue = (value: unknown): FormFieldValue | undefined => {
+    if (value instanceof PDFString || value instanceof PDFHexString || value instanceof PDFName) return value.decodeText();
+    if (value instanceof PDFArray) {
+        return value.asArray()
+            .filter((item): item is PDFString | PDFHexString => item instanceof PDFString || item instanceof PDFHexString)
+            .map(item => item.decodeText());
+    }
+    return undefined;
+};
+
+const parseFDF = async (bytes: Uint8Array): Promise<ImportedValues> => {
+    // FDF shares PDF's object syntax; only the header differs
+    const pdfBytes = bytes.slice();
+    const header = new TextDecoder('latin1').decode(pdfBytes.subarray(0, 1024)).indexOf('%FDF-');
+    if (header === -1) throw new Error('The FDF file could not be read');
+    pdfBytes.set([0x25, 0x50, 0x44, 0x46], header); // %PDF
+
+    let fields: PDFArray | undefined;
+    try {
+        const context = await PDFParser.forBytesWithOptions(pdfBytes).parseDocument();
+        const root = context.lookup(context.trailerInfo.Root);
+        const fdf = root instanceof PDFDict ? root.lookup(PDFName.of('FDF')) : undefined;
+        fields = fdf instanceof PDFDict ? fdf.lookupMaybe(PDFName.of('Fields'), PDFArray) : undefined;
+    } catch {
+        throw new Error('The FDF file could not be read');
+    }
+    if (!fields) throw new Error('The FDF file does not contain field values');
+
+    const values: ImportedValues = {};
+    const visit = (array: PDFArray, prefix: string) => {
+        for (let i = 0; i < array.size(); i++) {
+            const field = array.lookup(i);
+            if (!(field instanceof PDFDict)) continue;
+            const title = decodeFdfValue(field.lookup(PDFName.of('T')));
+            const name = typeof title === 'string' ? (prefix ? `${prefix}.${title}` : title) : prefix;
+            const value = decodeFdfValue(field.lookup(PDFName.of('V')));
+            if (value !== undefined) values[name] = value;
+            const kids = field.lookupMaybe(PDFName.of('Kids'), PDFArray);
+            if (kids) visit(kids, name);
+        }
+    };
+    visit(fields, '');
+    return values;
+};
+
+/** Tell the format from the file name, falling back to the content */
+export const detectFormDataFormat = (fileName: string, bytes: Uint8Array): FormDataFormat | null => {
+    const extension = fileName.toLowerCase().split('.').pop();
+    if (extension === 'fdf' || extension === 'xfdf' || extension === 'json') return extension;
+
+    const start = new TextDecoder('latin1').decode(bytes.subarray(0, 256)).trimStart();
+    if (start.startsWith('%FDF-')) return 'fdf';
+    if (start.startsWith('{')) return 'json';
+    if (start.includes('<xfdf')) return 'xfdf';
+    return null;
+};
+
+/**
+ * Read field values from an FDF, XFDF or JSON file
+ * @returns Values by fully qualified field name, as written in the file
+ */
+export const parseFormData = async (bytes: Uint8Array, format: FormDataFormat): Promise<ImportedValues> => {
+    if (format === 'fdf') return parseFDF(bytes);
+    const text = new TextDecoder().decode(bytes);
+    return format === 'xfdf' ? parseXFDF(text) : parseJSON(text);
+};
+
+const coerceValue = (field: FormFieldInfo, value: FormFieldValue): FormFieldValue => {
+    const first = Array.isArray(value) ? value[0] ?? '' : value;
+    switch (field.type) {
+        case 'checkbox':
+            return typeof first === 'boolean' ? first : first !== '' && first !== OFF_STATE && first.toLowerCase() !== 'false';
+        case 'radio':
+            return first === OFF_STATE || typeof first === 'boolean' ? '' : first;
+        case 'list':
+            return Array.isArray(value) ? value : typeof value === 'string' && value !== '' ? [value] : [];
+        default:
+            return asText(value);
+    }
+};
+
+/**
+ * Match imported values to the form's fields by name
+ * @returns The values for this form, and the names in the file the form does not have
+ */
+export const matchImportedValues = (
+    fields: FormFieldInfo[],
+    imported: ImportedValues
+): { values: FormValues; unmatched: string[] } => {
+    const fieldsByName = new Map(fields.filter(isFillable).map(field => [field.name, field]));
+    const values: FormValues = {};
+    const unmatched: string[] = [];
+
+    for (const [name, value] of Object.entries(imported)) {
+        const field = fieldsByName.get(name);
+        if (!field) {
+            unmatched.push(name);
+            continue;
+        }
+        if (!field.readOnly) values[name] = coerceValue(field, value);
+    }
+    return { values, unmatched };
+};
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Shared page geometry and drawing helpers — 100% client-side
+ * 1. Map points between the displayed page (after /Rotate) and PDF user space
+ * 2. Isolate existing page content before drawing over it
+ * 3. Name the standard fonts offered across tools and keep text within their character set
+ */
+
+import { PDFDocument, PDFPage, StandardFonts } from 'pdf-lib';
+import type { StandardFontName } from '../types';
+
+// ── Fonts ─────────────────────────────────────────
+
+export const STANDARD_FONTS: Record<StandardFontName, StandardFonts> = {
+    'Helvetica': StandardFonts.Helvetica,
+    'Helvetica-Bold': StandardFonts.HelveticaBold,
+    'Times-Roman': StandardFonts.TimesRoman,
+    'Times-Bold': StandardFonts.TimesRomanBold,
+    'Courier': StandardFonts.Courier,
+    'Courier-Bold': StandardFonts.CourierBold,
+};
+
+/** Standard fonts only cover WinAnsi; swap anything else (e.g. in file names) for "?" */
+export const toFontCharacters = (charset: Set<number>, text: string): string =>
+    Array.from(text, char => (charset.has(char.codePointAt(0)!) ? char : '?')).join('');
+
+// ── Page geometry ─────────────────────────────────────────
+
+/** The visible page area and its size as displayed after /Rotate */
+export interface PageFrame {
+    box: { x: number; y: number; width: number; height: number };
+    rotation: 0 | 90 | 180 | 270;
+    width: number;
+    height: number;
+}
+
+export const getPageFrame = (page: PDFPage): PageFrame => {
+    const box = page.getCropBox();
+    const rotation = (((page.getRotation().angle % 360) + 360) % 360) as PageFrame['rotation'];
+    const quarterTurn = rotation === 90 || rotation === 270;
+    return {
+        box,
+        rotation,
+        width: quarterTurn ? box.height : box.width,
+        height: quarterTurn ? box.width : box.height,
+    };
+};
+
+/**
+ * Map a point from the upright, displayed page (origin bottom-left) to PDF user space
+ */
+export const toUserSpace = (frame: PageFrame, vx: number, vy: number): { x: number; y: number } => {
+    const { x, y, width, height } = frame.box;
+    switch (frame.rotation) {
+        case 90: return { x: x + width - vy, y: y + vx };
+        case 180: return { x: x + width - vx, y: y + height - vy };
+        case 270: return { x: x + vy, y: y + height - vx };
+        default: return { x: x + vx, y: y + vy };
+    }
+};
+
+/**
+ * Map a point from PDF user space to the upright, displayed page (origin bottom-left)
+ */
+export const toDisplaySpace = (frame: PageFrame, ux: number, uy: number): { x: number; y: number } => {
+    const { x, y, width, height } = frame.box;
+    switch (frame.rotation) {
+        case 90: return { x: uy - y, y: x + width - ux };
+        case 180: return { x: x + width - ux, y: y + height - uy };
+        case 270: return { x: y + height - uy, y: ux - x };
+        default: return { x: ux - x, y: uy - y };
+    }
+};
+
+// ── Layering ─────────────────────────────────────────
+
+/**
+ * Wrap the existing content in q/Q so a transform it leaves behind
+ * does not displace the stamp drawn after it
+ */
+export const isolateExistingContent = (pdf: PDFDocument, page: PDFPage): void => {
+    page.node.normalize();
+    page.node.wrapContentStreams(
+        pdf.context.register(pdf.context.stream('q')),
+        pdf.context.register(pdf.context.stream('Q'))
+    );
+};
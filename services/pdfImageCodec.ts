@@ -0,0 +1,700 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * PDF image XObject codec — 100% client-side
+ * 1. Locate image XObjects and resolve their colour spaces
+ * 2. Decode DCT streams via the browser and Flate/LZW/RLE streams in JS
+ * 3. Encode decoded pixels as PNG without a canvas
+ * 4. Measure how large each image is drawn so it can be resampled to a DPI
+ */
+
+import {
+    PDFArray,
+    PDFBool,
+    PDFContext,
+    PDFDict,
+    PDFDocument,
+    PDFHexString,
+    PDFName,
+    PDFNumber,
+    PDFPage,
+    PDFRawStream,
+    PDFRef,
+    PDFStream,
+    PDFString,
+    decodePDFRawStream,
+} from 'pdf-lib';
+import {
+    parseContentStream,
+    getPageContentBytes,
+    decodeStreamContents,
+    lookupXObject,
+    multiplyMatrix,
+    operandNumber,
+    IDENTITY_MATRIX,
+    type ContentOperation,
+    type Matrix,
+} from './pdfContentStream';
+
+// ── Types ─────────────────────────────────────────
+
+export interface ResolvedColorSpace {
+    family: 'DeviceGray' | 'DeviceRGB' | 'DeviceCMYK' | 'Indexed' | 'Unsupported';
+    /** Components per sample as stored in the stream (1 for Indexed) */
+    components: number;
+    base?: ResolvedColorSpace;
+    hival?: number;
+    lookup?: Uint8Array;
+}
+
+export interface PdfImageXObject {
+    ref: PDFRef;
+    stream: PDFRawStream;
+    width: number;
+    height: number;
+    bitsPerComponent: number;
+    filters: string[];
+    colorSpace: ResolvedColorSpace;
+    smaskRef?: PDFRef;
+    isImageMask: boolean;
+    hasColorKeyMask: boolean;
+    hasDecodeArray: boolean;
+}
+
+export interface RawImage {
+    width: number;
+    height: number;
+    /** RGBA pixels, 4 bytes per pixel */
+    data: Uint8ClampedArray;
+}
+
+/** Drawn size of an image in PDF points (largest placement wins) */
+export interface ImagePlacement {
+    width: number;
+    height: number;
+}
+
+/** Filters that decodePDFRawStream can undo in JavaScript */
+const JS_DECODABLE_FILTERS = new Set(['FlateDecode', 'LZWDecode', 'ASCII85Decode', 'ASCIIHexDecode', 'RunLengthDecode']);
+
+/** Maximum nesting of form XObjects followed while measuring placements */
+const MAX_FORM_DEPTH = 8;
+
+// ── Colour Spaces ─────────────────────────────────
+
+const UNSUPPORTED: ResolvedColorSpace = { family: 'Unsupported', components: 0 };
+
+const bytesOfLookup = (obj: unknown): Uint8Array | undefined => {
+    if (obj instanceof PDFString || obj instanceof PDFHexString) return obj.asBytes();
+    if (obj instanceof PDFStream) {
+        try {
+            return decodeStreamContents(obj);
+        } catch {
+            return undefined;
+        }
+    }
+    return undefined;
+};
+
+/** Resolve an image ColorSpace entry to something we can convert to RGB */
+export const resolveColorSpace = (context: PDFContext, raw: unknown, depth = 0): ResolvedColorSpace => {
+    const obj = raw instanceof PDFRef ? context.lookup(raw) : raw;
+    if (depth > 4 || !obj) return UNSUPPORTED;
+
+    if (obj instanceof PDFName) {
+        switch (obj.decodeText()) {
+            case 'DeviceGray': case 'G': case 'CalGray':
+                return { family: 'DeviceGray', components: 1 };
+            case 'DeviceRGB': case 'RGB': case 'CalRGB':
+                return { family: 'DeviceRGB', components: 3 };
+            case 'DeviceCMYK': case 'CMYK':
+                return { family: 'DeviceCMYK', components: 4 };
+            default:
+                return UNSUPPORTED;
+        }
+    }
+
+    if (obj instanceof PDFArray && obj.size() > 0) {
+        const kind = obj.lookup(0);
+        if (!(kind instanceof PDFName)) return UNSUPPORTED;
+
+        switch (kind.decodeText()) {
+            case 'CalGray':
+                return { family: 'DeviceGray', components: 1 };
+            case 'CalRGB':
+                return { family: 'DeviceRGB', components: 3 };
+            case 'ICCBased': {
+                const profile = obj.lookup(1);
+                const n = profile instanceof PDFStream ? profile.dict.lookupMaybe(PDFName.of('N'), PDFNumber)?.asNumber() : undefined;
+                if (n === 1) return { family: 'DeviceGray', components: 1 };
+                if (n === 3) return { family: 'DeviceRGB', components: 3 };
+                if (n === 4) return { family: 'DeviceCMYK', components: 4 };
+                return UNSUPPORTED;
+            }
+            case 'Indexed': case 'I': {
+                const base = resolveColorSpace(context, obj.get(1), depth + 1);
+                const hival = obj.lookup(2);
+                const lookup = bytesOfLookup(obj.lookup(3));
+                if (base.family === 'Unsupported' || base.family === 'Indexed' || !(hival instanceof PDFNumber) || !lookup) {
+                    return UNSUPPORTED;
+                }
+                return { family: 'Indexed', components: 1, base, hival: hival.asNumber(), lookup };
+            }
+            default:
+                return UNSUPPORTED;
+        }
+    }
+
+    return UNSUPPORTED;
+};
+
+// ── Image Discovery ───────────────────────────────
+
+const filterNames = (dict: PDFDict): string[] => {
+    const filter = dict.lookup(PDFName.of('Filter'));
+    if (filter instanceof PDFName) return [filter.decodeText()];
+    if (filter instanceof PDFArray) {
+        const names: string[] = [];
+        for (let i = 0; i < filter.size(); i++) {
+            const f = filter.lookup(i);
+            if (f instanceof PDFName) names.push(f.decodeText());
+        }
+        return names;
+    }
+    return [];
+};
+
+const isDefaultDecodeArray = (decode: PDFArray): boolean => {
+    for (let i = 0; i < decode.size(); i++) {
+        const v = decode.lookup(i);
+        if (!(v instanceof PDFNumber) || v.asNumber() !== (i % 2 === 0 ? 0 : 1)) return false;
+    }
+    return true;
+};
+
+/** Read the dictionary of an image XObject; returns null for non-images */
+export const readImageXObject = (context: PDFContext, ref: PDFRef, stream: PDFRawStream): PdfImageXObject | null => {
+    const { dict } = stream;
+    const subtype = dict.lookup(PDFName.of('Subtype'));
+    if (subtype !== PDFName.of('Image')) return null;
+
+    const width = dict.lookupMaybe(PDFName.of('Width'), PDFNumber)?.asNumber() ?? 0;
+    const height = dict.lookupMaybe(PDFName.of('Height'), PDFNumber)?.asNumber() ?? 0;
+    if (width <= 0 || height <= 0) return null;
+
+    const imageMask = dict.lookup(PDFName.of('ImageMask'));
+    const isImageMask = imageMask instanceof PDFBool && imageMask.asBoolean();
+    const smask = dict.get(PDFName.of('SMask'));
+    const decode = dict.lookupMaybe(PDFName.of('Decode'), PDFArray);
+
+    return {
+        ref,
+        stream,
+        width,
+        height,
+        bitsPerComponent: dict.lookupMaybe(PDFName.of('BitsPerComponent'), PDFNumber)?.asNumber() ?? (isImageMask ? 1 : 8),
+        filters: filterNames(dict),
+        colorSpace: isImageMask ? UNSUPPORTED : resolveColorSpace(context, dict.get(PDFName.of('ColorSpace'))),
+        smaskRef: smask instanceof PDFRef ? smask : undefined,
+        isImageMask,
+        hasColorKeyMask: dict.lookup(PDFName.of('Mask')) instanceof PDFArray,
+        hasDecodeArray: decode !== undefined && !isDefaultDecodeArray(decode),
+    };
+};
+
+/** List every image XObject stored in the document */
+export const listImageXObjects = (pdf: PDFDocument): PdfImageXObject[] => {
+    const images: PdfImageXObject[] = [];
+    for (const [ref, obj] of pdf.context.enumerateIndirectObjects()) {
+        if (!(obj instanceof PDFRawStream)) continue;
+        const image = readImageXObject(pdf.context, ref, obj);
+        if (image) images.push(image);
+    }
+    return images;
+};
+
+/**
+ * Images that can be re-encoded as a DeviceRGB JPEG. Stencil masks, colour-key masked images,
+ * images with a Decode array and images used as another image's /SMask or /Mask are left out:
+ * masks must keep their own colour space, and the images they mask keep pointing at them.
+ */
+export const listRecompressibleImages = (pdf: PDFDocument): PdfImageXObject[] => {
+    const images = listImageXObjects(pdf);
+    const maskRefs = new Set<string>();
+    for (const image of images) {
+        for (const key of ['SMask', 'Mask']) {
+            const mask = image.stream.dict.get(PDFName.of(key));
+            if (mask instanceof PDFRef) maskRefs.add(mask.toString());
+        }
+    }
+
+    return images.filter(img =>
+        !maskRefs.has(img.ref.toString()) &&
+        !img.isImageMask &&
+        !img.hasColorKeyMask &&
+        !img.hasDecodeArray &&
+        (img.colorSpace.family === 'DeviceGray' ||
+            img.colorSpace.family === 'DeviceRGB' ||
+            img.colorSpace.family === 'Indexed')
+    );
+};
+
+// ── Decoding ──────────────────────────────────────
+
+/** JPEG bytes of a DCT-encoded image, or null if the stream is not a plain JPEG */
+export const getEncodedJpeg = (image: PdfImageXObject): Uint8Array | null => {
+    if (image.filters.length !== 1 || image.filters[0] !== 'DCTDecode') return null;
+    return image.stream.getContents();
+};
+
+const predictorParams = (image: PdfImageXObject): PDFDict | undefined => {
+    const parms = image.stream.dict.lookup(PDFName.of('DecodeParms'));
+    if (parms instanceof PDFDict) return parms;
+    if (parms instanceof PDFArray) {
+        // Predictors only apply to Flate/LZW; use the params of that filter
+        const idx = image.filters.findIndex(f => f === 'FlateDecode' || f === 'LZWDecode');
+        const entry = idx >= 0 ? parms.lookup(idx) : undefined;
+        return entry instanceof PDFDict ? entry : undefined;
+    }
+    return undefined;
+};
+
+/** Reverse PNG (10–15) and TIFF (2) predictors, which pdf-lib does not apply */
+const undoPredictor = (data: Uint8Array, parms: PDFDict | undefined): Uint8Array => {
+    const predictor = parms?.lookupMaybe(PDFName.of('Predictor'), PDFNumber)?.asNumber() ?? 1;
+    if (!parms || predictor <= 1) return data;
+
+    const colors = parms.lookupMaybe(PDFName.of('Colors'), PDFNumber)?.asNumber() ?? 1;
+    const bpc = parms.lookupMaybe(PDFName.of('BitsPerComponent'), PDFNumber)?.asNumber() ?? 8;
+    const columns = parms.lookupMaybe(PDFName.of('Columns'), PDFNumber)?.asNumber() ?? 1;
+    const rowBytes = Math.ceil((colors * bpc * columns) / 8);
+    const bpp = Math.max(1, Math.ceil((colors * bpc) / 8));
+
+    if (predictor === 2) {
+        if (bpc !== 8) return data;
+        const out = data.slice();
+        for (let row = 0; row * rowBytes < out.length; row++) {
+            const start = row * rowBytes;
+            for (let i = colors; i < rowBytes && start + i < out.length; i++) {
+                out[start + i] = (out[start + i] + out[start + i - colors]) & 0xff;
+            }
+        }
+        return out;
+    }
+
+    const rows = Math.floor(data.length / (rowBytes + 1));
+    const out = new Uint8Array(rows * rowBytes);
+    const prev = new Uint8Array(rowBytes);
+
+    for (let row = 0; row < rows; row++) {
+        const inStart = row * (rowBytes + 1);
+        const filter = data[inStart];
+        const outStart = row * rowBytes;
+
+        for (let i = 0; i < rowBytes; i++) {
+            const raw = data[inStart + 1 + i];
+            const left = i >= bpp ? out[outStart + i - bpp] : 0;
+            const up = prev[i];
+            const upLeft = i >= bpp ? prev[i - bpp] : 0;
+            let value: number;
+
+            switch (filter) {
+                case 1: value = raw + left; break;
+                case 2: value = raw + up; break;
+                case 3: value = raw + ((left + up) >> 1); break;
+                case 4: {
+                    const p = left + up - upLeft;
+                    const pa = Math.abs(p - left);
+                    const pb = Math.abs(p - up);
+                    const pc = Math.abs(p - upLeft);
+                    value = raw + (pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft);
+                    break;
+                }
+                default: value = raw;
+            }
+            out[outStart + i] = value & 0xff;
+        }
+        prev.set(out.subarray(outStart, outStart + rowBytes));
+    }
+
+    return out;
+};
+
+const toRgb = (cs: ResolvedColorSpace, samples: number[], out: Uint8ClampedArray, o: number): void => {
+    switch (cs.family) {
+        case 'DeviceGray':
+            out[o] = out[o + 1] = out[o + 2] = samples[0];
+            break;
+        case 'DeviceRGB':
+            out[o] = samples[0]; out[o + 1] = samples[1]; out[o + 2] = samples[2];
+            break;
+        case 'DeviceCMYK': {
+            // Naive CMYK → RGB; good enough for previews and extraction
+            const k = 255 - samples[3];
+            out[o] = ((255 - samples[0]) * k) / 255;
+            out[o + 1] = ((255 - samples[1]) * k) / 255;
+            out[o + 2] = ((255 - samples[2]) * k) / 255;
+            break;
+        }
+        default:
+            out[o] = out[o + 1] = out[o + 2] = 0;
+    }
+};
+
+/**
+ * Decode a non-DCT image into RGBA pixels.
+ * Returns null for encodings we cannot handle in JS (JPX, JBIG2, CCITT),
+ * unsupported colour spaces, or streams that are shorter than declared.
+ */
+export const decodeImagePixels = (image: PdfImageXObject): RawImage | null => {
+    const { width, height, bitsPerComponent: bpc, colorSpace: cs } = image;
+    if (cs.family === 'Unsupported' || image.hasDecodeArray || ![1, 2, 4, 8, 16].includes(bpc)) return null;
+    if (!image.filters.every(f => JS_DECODABLE_FILTERS.has(f))) return null;
+
+    let samples: Uint8Array;
+    try {
+        samples = undoPredictor(decodePDFRawStream(image.stream).decode(), predictorParams(image));
+    } catch {
+        return null;
+    }
+
+    const comps = cs.components;
+    const stride = Math.ceil((width * comps * bpc) / 8);
+    if (samples.length < stride * height) return null;
+
+    const maxValue = (1 << Math.min(bpc, 8)) - 1;
+    const out = new Uint8ClampedArray(width * height * 4);
+    const pixel: number[] = new Array(4).fill(0);
+    const base = cs.base;
+    const baseComps = base?.components ?? 0;
+
+    for (let y = 0; y < height; y++) {
+        const rowStart = y * stride;
+        let bitPos = 0;
+
+        for (let x = 0; x < width; x++) {
+            for (let c = 0; c < comps; c++) {
+                let v: number;
+                if (bpc === 8) {
+                    v = samples[rowStart + x * comps + c];
+                } else if (bpc === 16) {
+                    v = samples[rowStart + (x * comps + c) * 2];
+                } else {
+                    const byte = samples[rowStart + (bitPos >> 3)];
+                    v = (byte >> (8 - bpc - (bitPos & 7))) & maxValue;
+                    bitPos += bpc;
+                }
+                pixel[c] = v;
+            }
+
+            const o = (y * width + x) * 4;
+            if (cs.family === 'Indexed' && base && cs.lookup) {
+                const idx = Math.min(pixel[0], cs.hival ?? 0) * baseComps;
+                const entry = [0, 0, 0, 0].map((_, k) => (k < baseComps ? cs.lookup![idx + k] ?? 0 : 0));
+                toRgb(base, entry, out, o);
+            } else {
+                if (bpc < 8) {
+                    for (let c = 0; c < comps; c++) pixel[c] = Math.round((pixel[c] * 255) / maxValue);
+                }
+                toRgb(cs, pixel, out, o);
+            }
+            out[o + 3] = 255;
+        }
+    }
+
+    return { width, height, data: out };
+};
+
+// ── Rasterizing & Encoding ────────────────────────
+
+/**
+ * Draw an image XObject onto a canvas of the requested size.
+ * Resolves to null when the browser cannot decode the image or no canvas is available.
+ */
+export const rasterizeImage = async (
+    image: PdfImageXObject,
+    targetWidth: number,
+    targetHeight: number
+): Promise<HTMLCanvasElement | null> => {
+    if (typeof document === 'undefined') return null;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(targetWidth));
+    canvas.height = Math.max(1, Math.round(targetHeight));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    let source: CanvasImageSource | null = null;
+    const jpeg = getEncodedJpeg(image);
+
+    if (jpeg) {
+        if (typeof createImageBitmap !== 'function') return null;
+        try {
+            source = await createImageBitmap(new Blob([jpeg], { type: 'image/jpeg' }));
+        } catch {
+            return null;
+        }
+    } else {
+        const raw = decodeImagePixels(image);
+        if (!raw) return null;
+        const full = document.createElement('canvas');
+        full.width = raw.width;
+        full.height = raw.height;
+        const fullCtx = full.getContext('2d');
+        if (!fullCtx) return null;
+        fullCtx.putImageData(new ImageData(raw.data, raw.width, raw.height), 0, 0);
+        source = full;
+    }
+
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+    if (typeof ImageBitmap !== 'undefined' && source instanceof ImageBitmap) source.close();
+    return canvas;
+};
+
+/** Encode a canvas as JPEG bytes */
+export const canvasToJpegBytes = async (canvas: HTMLCanvasElement, quality: number): Promise<Uint8Array> => {
+    const blob = await new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(
+            (b) => (b ? resolve(b) : reject(new Error('Failed to encode image'))),
+            'image/jpeg',
+            quality
+        );
+    });
+    return new Uint8Array(await blob.arrayBuffer());
+};
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+};
+
+/** Filter each scanline with whichever PNG filter gives the smallest absolute sum (the libpng heuristic) */
+const filterScanlines = (pixels: Uint8Array, rowBytes: number, bpp: number, height: number): Uint8Array => {
+    const out = new Uint8Array(height * (rowBytes + 1));
+    const candidate = new Uint8Array(rowBytes);
+    const best = new Uint8Array(rowBytes);
+
+    for (let y = 0; y < height; y++) {
+        const row = pixels.subarray(y * rowBytes, (y + 1) * rowBytes);
+        const prev = y > 0 ? pixels.subarray((y - 1) * rowBytes, y * rowBytes) : null;
+        let bestType = 0;
+        let bestSum = Infinity;
+
+        for (let type = 0; type <= 4; type++) {
+            let sum = 0;
+            for (let i = 0; i < rowBytes; i++) {
+                const left = i >= bpp ? row[i - bpp] : 0;
+                const up = prev ? prev[i] : 0;
+                const upLeft = prev && i >= bpp ? prev[i - bpp] : 0;
+                let predicted = 0;
+                if (type === 1) predicted = left;
+                else if (type === 2) predicted = up;
+                else if (type === 3) predicted = (left + up) >> 1;
+                else if (type === 4) {
+                    const p = left + up - upLeft;
+                    const pa = Math.abs(p - left);
+                    const pb = Math.abs(p - up);
+                    const pc = Math.abs(p - upLeft);
+                    predicted = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+                }
+                const value = (row[i] - predicted) & 0xff;
+                candidate[i] = value;
+                sum += value < 128 ? value : 256 - value;
+            }
+            if (sum < bestSum) {
+                bestSum = sum;
+                bestType = type;
+                best.set(candidate);
+            }
+        }
+
+        out[y * (rowBytes + 1)] = bestType;
+        out.set(best, y * (rowBytes + 1) + 1);
+    }
+    return out;
+};
+
+/**
+ * Encode RGBA pixels as a lossless PNG (RGB when every pixel is opaque).
+ * Uses the browser's CompressionStream for the zlib data, so no canvas is needed.
+ */
+export const encodePng = async (image: RawImage): Promise<Uint8Array> => {
+    const { width, height, data } = image;
+    let opaque = true;
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] !== 255) { opaque = false; break; }
+    }
+
+    const bpp = opaque ? 3 : 4;
+    let pixels: Uint8Array;
+    if (opaque) {
+        pixels = new Uint8Array(width * height * 3);
+        for (let i = 0, o = 0; i < data.length; i += 4, o += 3) {
+            pixels[o] = data[i]; pixels[o + 1] = data[i + 1]; pixels[o + 2] = data[i + 2];
+        }
+    } else {
+        pixels = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    }
+
+    const filtered = filterScanlines(pixels, width * bpp, bpp, height);
+    const compressed = new Uint8Array(await new Response(
+        new Response(filtered).body!.pipeThrough(new CompressionStream('deflate'))
+    ).arrayBuffer());
+
+    const header = new Uint8Array(13);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, width);
+    view.setUint32(4, height);
+    header[8] = 8; // Bit depth
+    header[9] = opaque ? 2 : 6; // Truecolour, with or without alpha
+
+    const parts = [
+        new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        pngChunk('IHDR', header),
+        pngChunk('IDAT', compressed),
+        pngChunk('IEND', new Uint8Array(0)),
+    ];
+    const png = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        png.set(part, offset);
+        offset += part.length;
+    }
+    return png;
+};
+
+// ── Placement Measurement ─────────────────────────
+
+/**
+ * Walk a page's content (and nested form XObjects) tracking the CTM,
+ * calling `visit` for each image XObject in the order it is painted
+ */
+const walkImageDraws = (
+    page: PDFPage,
+    parsedForms: Map<PDFStream, ContentOperation[]>,
+    visit: (ref: PDFRef, stream: PDFStream, ctm: Matrix) => void
+): void => {
+    const walk = (ops: ContentOperation[], resources: PDFDict | undefined, startCtm: Matrix, depth: number) => {
+        const stack: Matrix[] = [];
+        let ctm = startCtm;
+
+        for (const op of ops) {
+            switch (op.operator) {
+                case 'q':
+                    stack.push(ctm);
+                    break;
+                case 'Q':
+                    ctm = stack.pop() ?? ctm;
+                    break;
+                case 'cm':
+                    if (op.operands.length === 6) {
+                        ctm = multiplyMatrix(op.operands.map(operandNumber) as Matrix, ctm);
+                    }
+                    break;
+                case 'Do': {
+                    const nameOp = op.operands[0];
+                    if (!nameOp || nameOp.type !== 'name') break;
+                    const xobj = lookupXObject(resources, nameOp.value);
+                    if (!xobj) break;
+
+                    const subtype = xobj.stream.dict.lookup(PDFName.of('Subtype'));
+                    if (subtype === PDFName.of('Image') && xobj.ref) {
+                        visit(xobj.ref, xobj.stream, ctm);
+                    } else if (subtype === PDFName.of('Form') && depth < MAX_FORM_DEPTH) {
+                        let formOps = parsedForms.get(xobj.stream);
+                        if (!formOps) {
+                            try {
+                                formOps = parseContentStream(decodeStreamContents(xobj.stream));
+                            } catch {
+                                formOps = [];
+                            }
+                            parsedForms.set(xobj.stream, formOps);
+                        }
+                        const matrixArr = xobj.stream.dict.lookupMaybe(PDFName.of('Matrix'), PDFArray);
+                        const matrix = matrixArr && matrixArr.size() === 6
+                            ? (matrixArr.asArray().map(v => (v instanceof PDFNumber ? v.asNumber() : 0)) as Matrix)
+                            : IDENTITY_MATRIX;
+                        const formResources = xobj.stream.dict.lookupMaybe(PDFName.of('Resources'), PDFDict) ?? resources;
+                        walk(formOps, formResources, multiplyMatrix(matrix, ctm), depth + 1);
+                    }
+                    break;
+                }
+            }
+        }
+    };
+
+    walk(parseContentStream(getPageContentBytes(page)), page.node.Resources(), IDENTITY_MATRIX, 0);
+};
+
+/**
+ * Walk every page (and nested form XObjects) tracking the CTM to find
+ * the largest size at which each image XObject is drawn, in points.
+ * Keys are PDFRef strings, e.g. "12 0 R".
+ */
+export const measureImagePlacements = (pdf: PDFDocument): Map<string, ImagePlacement> => {
+    const placements = new Map<string, ImagePlacement>();
+    const parsedForms = new Map<PDFStream, ContentOperation[]>();
+
+    const record = (ref: PDFRef, _stream: PDFStream, ctm: Matrix) => {
+        const width = Math.hypot(ctm[0], ctm[1]);
+        const height = Math.hypot(ctm[2], ctm[3]);
+        const key = ref.toString();
+        const prev = placements.get(key);
+        placements.set(key, {
+            width: Math.max(width, prev?.width ?? 0),
+            height: Math.max(height, prev?.height ?? 0),
+        });
+    };
+
+    for (const page of pdf.getPages()) {
+        try {
+            walkImageDraws(page, parsedForms, record);
+        } catch {
+            // Undecodable content stream — images on this page fall back to page-size bounds
+        }
+    }
+
+    return placements;
+};
+
+/**
+ * The image XObjects a page paints, in painting order (the order pdf.js reports them in),
+ * leaving out stencil masks, which pdf.js paints as masks rather than images
+ */
+export const listPaintedImages = (pdf: PDFDocument, page: PDFPage): PdfImageXObject[] => {
+    const images: PdfImageXObject[] = [];
+    try {
+        walkImageDraws(page, new Map(), (ref, stream) => {
+            const image = stream instanceof PDFRawStream ? readImageXObject(pdf.context, ref, stream) : null;
+            if (image && !image.isImageMask) images.push(image);
+        });
+    } catch {
+        // Undecodable content stream — no images to match
+    }
+    return images;
+};
@@ -0,0 +1,223 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Embedded image extraction — 100% client-side
+ * 1. Walk each page's image XObjects, following nested form XObjects
+ * 2. Export DCT (JPEG) and JPX (JPEG 2000) streams byte for byte
+ * 3. Decode everything else to RGBA, apply the soft mask as alpha and encode as PNG
+ * 4. Skip small images and drop duplicates by object and by SHA-256 of the output
+ */
+
+import { PDFDict, PDFDocument, PDFName, PDFRawStream, PDFRef } from 'pdf-lib';
+import { loadPDFDocument } from './pdfService';
+import { parsePageRange } from '../utils/pageRange';
+import {
+    decodeImagePixels,
+    encodePng,
+    getEncodedJpeg,
+    readImageXObject,
+    type PdfImageXObject,
+    type RawImage,
+} from './pdfImageCodec';
+
+// ── Types ─────────────────────────────────────────
+
+export interface ExtractImagesOptions {
+    minSize: number; // Pixels; images narrower or shorter than this are skipped
+    pageRange?: string; // e.g. "1-3, 5"; all pages when empty
+}
+
+export interface ExtractedImage {
+    name: string;
+    data: Uint8Array;
+    mimeType: 'image/jpeg' | 'image/jp2' | 'image/png';
+    width: number;
+    height: number;
+    pageIndex: number; // First page the image appears on
+}
+
+export interface ImageExtractionResult {
+    images: ExtractedImage[];
+    skippedSmall: number;
+    duplicates: number;
+    unsupported: number; // Encodings we cannot decode here, e.g. JBIG2, CCITT or stencil masks
+}
+
+// ── Constants ─────────────────────────────────────────
+
+/** Maximum nesting of form XObjects followed when collecting images */
+const MAX_FORM_DEPTH = 8;
+
+const EXTENSIONS: Record<ExtractedImage['mimeType'], string> = {
+    'image/jpeg': 'jpg',
+    'image/jp2': 'jp2',
+    'image/png': 'png',
+};
+
+// ── Discovery ─────────────────────────────────────────
+
+/**
+ * Image XObjects in a page's resources, including those of nested forms, in resource order
+ */
+export const collectPageImages = (pdf: PDFDocument, pageIndex: number): Array<{ ref: PDFRef; stream: PDFRawStream }> => {
+    const images: Array<{ ref: PDFRef; stream: PDFRawStream }> = [];
+    const visited = new Set<PDFDict>();
+
+    const walk = (resources: PDFDict | undefined, depth: number) => {
+        if (!resources || visited.has(resources) || depth > MAX_FORM_DEPTH) return;
+        visited.add(resources);
+
+        const xObjects = resources.lookupMaybe(PDFName.of('XObject'), PDFDict);
+        if (!xObjects) return;
+
+        for (const [name, value] of xObjects.entries()) {
+            const stream = xObjects.lookup(name);
+            if (!(stream instanceof PDFRawStream)) continue;
+            const subtype = stream.dict.lookup(PDFName.of('Subtype'));
+            if (subtype === PDFName.of('Image') && value instanceof PDFRef) {
+                images.push({ ref: value, stream });
+            } else if (subtype === PDFName.of('Form')) {
+                walk(stream.dict.lookupMaybe(PDFName.of('Resources'), PDFDict), depth + 1);
+            }
+        }
+    };
+
+    walk(pdf.getPage(pageIndex).node.Resources(), 0);
+    return images;
+};
+
+// ── Decoding ─────────────────────────────────────────
+
+/** Give the image the soft mask's gray levels as alpha, scaling the mask if its size differs */
+const applySoftMask = (image: RawImage, mask: RawImage): void => {
+    const { width, height, data } = image;
+    for (let y = 0; y < height; y++) {
+        const my = Math.min(mask.height - 1, Math.floor((y * mask.height) / height));
+        for (let x = 0; x < width; x++) {
+            const mx = Math.min(mask.width - 1, Math.floor((x * mask.width) / width));
+            data[(y * width + x) * 4 + 3] = mask.data[(my * mask.width + mx) * 4];
+        }
+    }
+};
+
+/**
+ * The image as a file: native bytes for JPEG and JPEG 2000, otherwise a PNG.
+ * DCT images keep their encoding even when a soft mask exists, since JPEG has no alpha.
+ */
+const exportImage = async (pdf: PDFDocument, image: PdfImageXObject): Promise<{ data: Uint8Array; mimeType: ExtractedImage['mimeType'] } | null> => {
+    const jpeg = getEncodedJpeg(image);
+    if (jpeg) return { data: jpeg, mimeType: 'image/jpeg' };
+    if (image.filters.length === 1 && image.filters[0] === 'JPXDecode') {
+        return { data: image.stream.getContents(), mimeType: 'image/jp2' };
+    }
+
+    const pixels = decodeImagePixels(image);
+    if (!pixels) return null;
+
+    if (image.smaskRef) {
+        const smaskStream = pdf.context.lookup(image.smaskRef);
+        const smask = smaskStream instanceof PDFRawStream ? readImageXObject(pdf.context, image.smaskRef, smaskStream) : null;
+        const mask = smask ? decodeImagePixels(smask) : null;
+        if (mask) applySoftMask(pixels, mask); // An undecodable mask leaves the image opaque
+    }
+
+    return { data: await encodePng(pixels), mimeType: 'image/png' };
+};
+
+const sha256Hex = async (data: Uint8Array): Promise<string> => {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new Uint8Array(data)));
+    return Array.from(digest, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// ── Main entry points ─────────────────────────────────────────
+
+/**
+ * Extract the embedded images of a loaded document
+ * @param baseName - Prefix of the output file names
+ */
+export const extractImagesFromDocument = async (
+    pdf: PDFDocument,
+    baseName: string,
+    options: ExtractImagesOptions,
+    onProgress?: (progress: number, status: string) => void,
+    abortSignal?: { current: boolean }
+): Promise<ImageExtractionResult> => {
+    const pageIndices = options.pageRange?.trim()
+        ? parsePageRange(options.pageRange, pdf.getPageCount())
+        : pdf.getPages().map((_, i) => i);
+    const result: ImageExtractionResult = { images: [], skippedSmall: 0, duplicates: 0, unsupported: 0 };
+    const seenRefs = new Set<string>();
+    const seenHashes = new Set<string>();
+
+    for (let p = 0; p < pageIndices.length; p++) {
+        const pageIndex = pageIndices[p];
+        onProgress?.((p / pageIndices.length) * 100, `Extracting images from page ${pageIndex + 1}...`);
+        let number = 0;
+
+        for (const { ref, stream } of collectPageImages(pdf, pageIndex)) {
+            if (abortSignal?.current) throw new Error('Image extraction cancelled');
+
+            // The same object drawn on several pages is one image
+            if (seenRefs.has(ref.toString())) {
+                result.duplicates++;
+                continue;
+            }
+            seenRefs.add(ref.toString());
+
+            const image = readImageXObject(pdf.context, ref, stream);
+            if (!image) continue;
+            if (image.width < options.minSize || image.height < options.minSize) {
+                result.skippedSmall++;
+                continue;
+            }
+
+            const exported = image.isImageMask ? null : await exportImage(pdf, image);
+            if (!exported) {
+                result.unsupported++;
+                continue;
+            }
+
+            // Identical images stored as separate objects
+            const hash = await sha256Hex(exported.data);
+            if (seenHashes.has(hash)) {
+                result.duplicates++;
+                continue;
+            }
+            seenHashes.add(hash);
+
+            number++;
+            result.images.push({
+                name: `${baseName}_page_${pageIndex + 1}_image_${number}.${EXTENSIONS[exported.mimeType]}`,
+                data: exported.data,
+                mimeType: exported.mimeType,
+                width: image.width,
+                height: image.height,
+                pageIndex,
+            });
+        }
+    }
+
+    onProgress?.(100, 'Extraction complete!');
+    return result;
+};
+
+/**
+ * Extract the embedded images of a PDF file at their original resolution
+ */
+export const extractImagesFromPDF = async (
+    file: File,
+    options: ExtractImagesOptions,
+    password?: string,
+    onProgress?: (progress: number, status: string) => void,
+    abortSignal?: { current: boolean }
+): Promise<ImageExtractionResult> => {
+    if (!file.type.includes('pdf') && !file.name.toLowerCase().endsWith('.pdf')) {
+        throw new Error('File is not a PDF');
+    }
+
+    const pdf = await loadPDFDocument(await file.arrayBuffer(), password, { updateMetadata: false });
+    if (abortSignal?.current) throw new Error('Image extraction cancelled');
+
+    return extractImagesFromDocument(pdf, file.name.replace(/\.pdf$/i, ''), options, onProgress, abortSignal);
+};
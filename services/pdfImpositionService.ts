@@ -0,0 +1,260 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * N-up imposition and booklets — 100% client-side
+ * 1. Embed every source page once as a form XObject (pdf-lib embedPages)
+ * 2. Split the pages into sheet sides: in order for N-up, or folded-booklet order padded to a multiple of 4
+ * 3. Lay each side out on a grid of cells and draw the pages scaled to fit, honoring /Rotate
+ */
+
+import { PDFDocument, PDFEmbeddedPage, PDFPage, degrees, rgb } from 'pdf-lib';
+import { loadPDFDocument, getPageSizeDimensions } from './pdfService';
+import type { NUpPdfConfig, NUpOrder, NUpPagesPerSheet, Orientation, PageSizeDimensions } from '../types';
+
+// ── Constants ─────────────────────────────────────────
+
+/** Grid shapes (columns × rows) each page count can be laid out in */
+const GRID_SHAPES: Record<NUpPagesPerSheet, Array<[number, number]>> = {
+    2: [[2, 1], [1, 2]],
+    4: [[2, 2]],
+    6: [[3, 2], [2, 3]],
+    9: [[3, 3]],
+    16: [[4, 4]],
+};
+
+const BORDER_WIDTH = 0.5;
+
+// ── Ordering ─────────────────────────────────────────
+
+/**
+ * Grid cells ([column, row], row 0 at the top) in the order pages fill them
+ */
+export const cellOrder = (columns: number, rows: number, order: NUpOrder): Array<[number, number]> => {
+    const rtl = order.endsWith('-rtl');
+    const cells: Array<[number, number]> = [];
+    const column = (c: number) => (rtl ? columns - 1 - c : c);
+
+    if (order.startsWith('across')) {
+        for (let r = 0; r < rows; r++) {
+            for (let c = 0; c < columns; c++) cells.push([column(c), r]);
+        }
+    } else {
+        for (let c = 0; c < columns; c++) {
+            for (let r = 0; r < rows; r++) cells.push([column(c), r]);
+        }
+    }
+    return cells;
+};
+
+/**
+ * Sheet sides for a saddle-stitched booklet, each as [left, right] 0-based page indices.
+ * Sides alternate front/back for duplex printing; null marks a blank padding page.
+ */
+export const bookletSides = (pageCount: number, binding: 'left' | 'right' = 'left'): Array<[number | null, number | null]> => {
+    const padded = Math.ceil(pageCount / 4) * 4;
+    const page = (index: number) => (index < pageCount ? index : null);
+    const sides: Array<[number | null, number | null]> = [];
+
+    for (let sheet = 0; sheet < padded / 4; sheet++) {
+        const outer = padded - 1 - 2 * sheet;
+        const inner = 2 * sheet;
+        sides.push([page(outer), page(inner)]);          // Front
+        sides.push([page(inner + 1), page(outer - 1)]);  // Back
+    }
+
+    return binding === 'right' ? sides.map(([left, right]) => [right, left]) : sides;
+};
+
+/**
+ * Page indices on each output page (sheet side), in cell order; null cells stay blank
+ */
+export const planSheetSides = (pageCount: number, config: NUpPdfConfig): Array<Array<number | null>> => {
+    if (config.mode === 'booklet') return bookletSides(pageCount, config.bookletBinding);
+
+    const perSheet = config.pagesPerSheet;
+    return Array.from({ length: Math.ceil(pageCount / perSheet) }, (_, side) =>
+        Array.from({ length: Math.min(perSheet, pageCount - side * perSheet) }, (_, i) => side * perSheet + i));
+};
+
+// ── Layout ─────────────────────────────────────────
+
+export interface SheetLayout {
+    width: number;
+    height: number;
+    columns: number;
+    rows: number;
+    cellWidth: number;
+    cellHeight: number;
+}
+
+const orientSheet = (size: PageSizeDimensions, orientation: Orientation): PageSizeDimensions => {
+    const short = Math.min(size.width, size.height);
+    const long = Math.max(size.width, size.height);
+    return orientation === 'portrait' ? { width: short, height: long } : { width: long, height: short };
+};
+
+/**
+ * Pick the sheet orientation and grid shape that shows pages of `pageSize` largest
+ */
+export const planSheetLayout = (
+    sheetSize: PageSizeDimensions,
+    pagesPerSheet: NUpPagesPerSheet,
+    orientation: Orientation | 'auto',
+    margin: number,
+    gutter: number,
+    pageSize: PageSizeDimensions
+): SheetLayout => {
+    const orientations: Orientation[] = orientation === 'auto' ? ['portrait', 'landscape'] : [orientation];
+    let best: SheetLayout | null = null;
+    let bestScale = 0;
+
+    for (const candidate of orientations) {
+        const sheet = orientSheet(sheetSize, candidate);
+        for (const [columns, rows] of GRID_SHAPES[pagesPerSheet]) {
+            const cellWidth = (sheet.width - 2 * margin - (columns - 1) * gutter) / columns;
+            const cellHeight = (sheet.height - 2 * margin - (rows - 1) * gutter) / rows;
+            if (cellWidth <= 0 || cellHeight <= 0) continue;
+
+            const scale = Math.min(cellWidth / pageSize.width, cellHeight / pageSize.height);
+            if (scale > bestScale) {
+                bestScale = scale;
+                best = { ...sheet, columns, rows, cellWidth, cellHeight };
+            }
+        }
+    }
+
+    if (!best) {
+        throw new Error('The margin and gutter leave no room for the pages. Please reduce them.');
+    }
+    return best;
+};
+
+// ── Drawing ─────────────────────────────────────────
+
+/** Size of a source page as displayed, after /Rotate */
+const displayedSize = (page: PDFPage): PageSizeDimensions => {
+    const { width, height } = page.getCropBox();
+    return page.getRotation().angle % 180 === 0 ? { width, height } : { width: height, height: width };
+};
+
+/**
+ * Draw an embedded page upright and centered in a cell, scaled to fit
+ */
+const drawInCell = (
+    sheet: PDFPage,
+    embedded: PDFEmbeddedPage,
+    rotation: number,
+    cell: { x: number; y: number; width: number; height: number },
+    border: boolean
+): void => {
+    const quarterTurn = rotation % 180 !== 0;
+    const shownWidth = quarterTurn ? embedded.height : embedded.width;
+    const shownHeight = quarterTurn ? embedded.width : embedded.height;
+    const scale = Math.min(cell.width / shownWidth, cell.height / shownHeight);
+
+    const width = embedded.width * scale;
+    const height = embedded.height * scale;
+    const x = cell.x + (cell.width - shownWidth * scale) / 2;
+    const y = cell.y + (cell.height - shownHeight * scale) / 2;
+
+    // Rotating clockwise by /Rotate swings the page around its origin; shift it back into the cell
+    const origin = {
+        0: { x, y },
+        90: { x, y: y + width },
+        180: { x: x + width, y: y + height },
+        270: { x: x + height, y },
+    }[rotation as 0 | 90 | 180 | 270];
+
+    sheet.drawPage(embedded, { ...origin, width, height, rotate: degrees(-rotation) });
+
+    if (border) {
+        sheet.drawRectangle({
+            x,
+            y,
+            width: shownWidth * scale,
+            height: shownHeight * scale,
+            borderColor: rgb(0, 0, 0),
+            borderWidth: BORDER_WIDTH,
+        });
+    }
+};
+
+// ── Imposition ─────────────────────────────────────────
+
+/**
+ * Lay out several pages per sheet, or as a folded booklet
+ * @param file - The PDF to impose
+ * @param config - Mode, pages per sheet, order, sheet size and spacing
+ * @param password - Optional password if the PDF is encrypted
+ * @returns Promise<Uint8Array> - The imposed PDF
+ */
+export const imposePDF = async (
+    file: File,
+    config: NUpPdfConfig,
+    password?: string,
+    onProgress?: (progress: number, status: string) => void,
+    abortSignal?: { current: boolean }
+): Promise<Uint8Array> => {
+    if (!file.type.includes('pdf') && !file.name.toLowerCase().endsWith('.pdf')) {
+        throw new Error('File is not a PDF');
+    }
+
+    onProgress?.(5, 'Loading PDF...');
+    const source = await loadPDFDocument(await file.arrayBuffer(), password);
+    const sourcePages = source.getPages();
+    if (sourcePages.length === 0) {
+        throw new Error('PDF has no pages');
+    }
+
+    const booklet = config.mode === 'booklet';
+    const pagesPerSheet: NUpPagesPerSheet = booklet ? 2 : config.pagesPerSheet;
+    const layout = planSheetLayout(
+        getPageSizeDimensions(config.sheetSize, config.customSheetSize),
+        pagesPerSheet,
+        booklet ? 'landscape' : config.orientation,
+        config.margin,
+        config.gutter,
+        displayedSize(sourcePages[0])
+    );
+
+    // Booklets always read across; the binding decides which side comes first
+    const cells = cellOrder(layout.columns, layout.rows, booklet ? 'across' : config.order);
+    const sides = planSheetSides(sourcePages.length, config);
+
+    onProgress?.(15, 'Embedding pages...');
+    const output = await PDFDocument.create();
+    // pdf-lib cannot embed a page without a content stream; such pages are blank anyway
+    const drawable = sourcePages.filter(page => page.node.Contents() !== undefined);
+    const embeddedPages = await output.embedPages(drawable, drawable.map(page => {
+        const box = page.getCropBox();
+        return { left: box.x, bottom: box.y, right: box.x + box.width, top: box.y + box.height };
+    }));
+    const embedded = new Map<PDFPage, PDFEmbeddedPage>(drawable.map((page, i) => [page, embeddedPages[i]]));
+
+    for (let s = 0; s < sides.length; s++) {
+        if (abortSignal?.current) throw new Error('Imposition cancelled');
+        onProgress?.(20 + (s / sides.length) * 70, `Laying out sheet side ${s + 1} of ${sides.length}...`);
+
+        const sheet = output.addPage([layout.width, layout.height]);
+        sides[s].forEach((pageIdx, slot) => {
+            if (pageIdx === null) return;
+            const source = sourcePages[pageIdx];
+            const page = embedded.get(source);
+            if (!page) return;
+            const [column, row] = cells[slot];
+            const rotation = ((source.getRotation().angle % 360) + 360) % 360;
+            drawInCell(sheet, page, rotation, {
+                x: config.margin + column * (layout.cellWidth + config.gutter),
+                y: layout.height - config.margin - (row + 1) * layout.cellHeight - row * config.gutter,
+                width: layout.cellWidth,
+                height: layout.cellHeight,
+            }, config.border);
+        });
+    }
+
+    onProgress?.(95, 'Saving PDF...');
+    const data = await output.save();
+    onProgress?.(100, 'Imposition complete!');
+    return data;
+};
@@ -0,0 +1,419 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * PDF metadata editing — 100% client-side
+ * 1. Read the document Info dictionary, falling back to the XMP packet for missing fields
+ * 2. Write the Info dictionary, including custom keys
+ * 3. Update the XMP packet to match, keeping any properties we don't manage (e.g. PDF/A ids)
+ */
+
+import {
+    PDFDict,
+    PDFDocument,
+    PDFHexString,
+    PDFName,
+    PDFNumber,
+    PDFObject,
+    PDFRawStream,
+    PDFRef,
+    PDFStream,
+    PDFString,
+    decodePDFRawStream,
+} from 'pdf-lib';
+import { loadPDFDocument } from './pdfService';
+import type { PdfMetadata, PdfCustomMetadata } from '../types';
+
+// ── Constants ─────────────────────────────────────────
+
+type TextField = 'title' | 'author' | 'subject' | 'keywords' | 'creator' | 'producer';
+
+const INFO_KEYS: Record<TextField, string> = {
+    title: 'Title',
+    author: 'Author',
+    subject: 'Subject',
+    keywords: 'Keywords',
+    creator: 'Creator',
+    producer: 'Producer',
+};
+
+/** Info keys with a defined meaning; everything else is a custom key */
+const STANDARD_INFO_KEYS = new Set([...Object.values(INFO_KEYS), 'CreationDate', 'ModDate', 'Trapped']);
+
+const NS = {
+    x: 'adobe:ns:meta/',
+    rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+    dc: 'http://purl.org/dc/elements/1.1/',
+    pdf: 'http://ns.adobe.com/pdf/1.3/',
+    xmp: 'http://ns.adobe.com/xap/1.0/',
+    pdfx: 'http://ns.adobe.com/pdfx/1.3/',
+} as const;
+
+/** Custom Info keys are mirrored as pdfx: properties when they are valid XML names */
+const XML_NAME = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+
+export const emptyMetadata = (): PdfMetadata => ({
+    title: '',
+    author: '',
+    subject: '',
+    keywords: '',
+    creator: '',
+    producer: '',
+    custom: [],
+});
+
+// ── Info dictionary ─────────────────────────────────────────
+
+const getInfoDict = (pdf: PDFDocument): PDFDict => {
+    const existing = pdf.context.trailerInfo.Info;
+    const info = existing ? pdf.context.lookup(existing) : undefined;
+    if (info instanceof PDFDict) return info;
+
+    const created = pdf.context.obj({});
+    pdf.context.trailerInfo.Info = pdf.context.register(created);
+    return created;
+};
+
+const decodeInfoText = (value: PDFObject | undefined): string | undefined => {
+    if (value instanceof PDFString || value instanceof PDFHexString || value instanceof PDFName) return value.decodeText();
+    if (value instanceof PDFNumber) return String(value.asNumber());
+    return undefined;
+};
+
+const decodeInfoDate = (value: PDFObject | undefined): Date | undefined => {
+    if (!(value instanceof PDFString) && !(value instanceof PDFHexString)) return undefined;
+    try {
+        const date = value.decodeDate();
+        return isNaN(date.getTime()) ? undefined : date;
+    } catch {
+        return undefined; // Malformed dates are common; treat them as unset
+    }
+};
+
+const readInfo = (pdf: PDFDocument): PdfMetadata => {
+    const metadata = emptyMetadata();
+    const ref = pdf.context.trailerInfo.Info;
+    const info = ref ? pdf.context.lookup(ref) : undefined;
+    if (!(info instanceof PDFDict)) return metadata;
+
+    const lookup = (key: string) => {
+        const value = info.get(PDFName.of(key));
+        return value instanceof PDFRef ? pdf.context.lookup(value) : value;
+    };
+
+    for (const field of Object.keys(INFO_KEYS) as TextField[]) {
+        metadata[field] = decodeInfoText(lookup(INFO_KEYS[field])) ?? '';
+    }
+    metadata.creationDate = decodeInfoDate(lookup('CreationDate'));
+    metadata.modificationDate = decodeInfoDate(lookup('ModDate'));
+
+    for (const [name] of info.entries()) {
+        const key = name.decodeText();
+        if (STANDARD_INFO_KEYS.has(key)) continue;
+        const value = decodeInfoText(lookup(key));
+        if (value !== undefined) metadata.custom.push({ key, value });
+    }
+
+    return metadata;
+};
+
+const writeInfo = (pdf: PDFDocument, metadata: PdfMetadata): void => {
+    const info = getInfoDict(pdf);
+
+    for (const field of Object.keys(INFO_KEYS) as TextField[]) {
+        const key = PDFName.of(INFO_KEYS[field]);
+        const value = metadata[field].trim();
+        if (value) info.set(key, PDFHexString.fromText(value));
+        else info.delete(key);
+    }
+
+    const setDate = (key: string, date?: Date) => {
+        if (date && !isNaN(date.getTime())) info.set(PDFName.of(key), PDFString.fromDate(date));
+        else info.delete(PDFName.of(key));
+    };
+    setDate('CreationDate', metadata.creationDate);
+    setDate('ModDate', metadata.modificationDate);
+
+    for (const [name] of info.entries()) {
+        if (!STANDARD_INFO_KEYS.has(name.decodeText())) info.delete(name);
+    }
+    for (const { key, value } of validateCustomMetadata(metadata.custom)) {
+        info.set(PDFName.of(key), PDFHexString.fromText(value));
+    }
+};
+
+/**
+ * Trim custom entries, drop empty rows and reject keys that clash
+ * @throws Error naming the offending key
+ */
+export const validateCustomMetadata = (custom: PdfCustomMetadata[]): PdfCustomMetadata[] => {
+    const seen = new Set<string>();
+    const valid: PdfCustomMetadata[] = [];
+
+    for (const entry of custom) {
+        const key = entry.key.trim();
+        if (!key && !entry.value.trim()) continue;
+        if (!key) {
+            throw new Error('Every custom field needs a name');
+        }
+        if (STANDARD_INFO_KEYS.has(key)) {
+            throw new Error(`"${key}" is a standard field; edit it above instead`);
+        }
+        if (seen.has(key)) {
+            throw new Error(`The custom field "${key}" appears more than once`);
+        }
+        seen.add(key);
+        valid.push({ key, value: entry.value });
+    }
+    return valid;
+};
+
+// ── XMP ─────────────────────────────────────────
+
+const getXmpStream = (pdf: PDFDocument): { ref?: PDFRef; stream?: PDFStream } => {
+    const value = pdf.catalog.get(PDFName.of('Metadata'));
+    const ref = value instanceof PDFRef ? value : undefined;
+    const stream = ref ? pdf.context.lookup(ref) : value;
+    return { ref, stream: stream instanceof PDFStream ? stream : undefined };
+};
+
+/** The XMP packet as text, or undefined when the document has none */
+export const readXmpPacket = (pdf: PDFDocument): string | undefined => {
+    const { stream } = getXmpStream(pdf);
+    if (!stream) return undefined;
+    try {
+        const bytes = stream instanceof PDFRawStream ? decodePDFRawStream(stream).decode() : stream.getContents();
+        return new TextDecoder('utf-8').decode(bytes);
+    } catch {
+        return undefined; // Unsupported filter
+    }
+};
+
+const parseXmp = (xml: string): Document | undefined => {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) return undefined;
+    return doc.getElementsByTagNameNS(NS.rdf, 'RDF').length > 0 ? doc : undefined;
+};
+
+/** Text of a simple property, or the items of an rdf:Alt/Seq/Bag, from any rdf:Description */
+const readXmpProperty = (doc: Document, ns: string, name: string): string | undefined => {
+    for (const description of Array.from(doc.getElementsByTagNameNS(NS.rdf, 'Description'))) {
+        if (description.hasAttributeNS(ns, name)) return description.getAttributeNS(ns, name) ?? undefined;
+
+        const element = Array.from(description.children).find(child => child.namespaceURI === ns && child.localName === name);
+        if (!element) continue;
+
+        const items = Array.from(element.getElementsByTagNameNS(NS.rdf, 'li'));
+        if (items.length === 0) return element.textContent?.trim() ?? undefined;
+        if (name === 'creator') return items.map(li => li.textContent?.trim() ?? '').filter(Boolean).join('; ');
+
+        const preferred = items.find(li => li.getAttribute('xml:lang') === 'x-default') ?? items[0];
+        return preferred.textContent?.trim() ?? undefined;
+    }
+    return undefined;
+};
+
+const parseXmpDate = (value: string | undefined): Date | undefined => {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+};
+
+/** Metadata recorded in the XMP packet */
+export const readXmpMetadata = (xml: string): PdfMetadata | undefined => {
+    const doc = parseXmp(xml);
+    if (!doc) return undefined;
+
+    const custom: PdfCustomMetadata[] = [];
+    for (const description of Array.from(doc.getElementsByTagNameNS(NS.rdf, 'Description'))) {
+        for (const attribute of Array.from(description.attributes)) {
+            if (attribute.namespaceURI === NS.pdfx) custom.push({ key: attribute.localName, value: attribute.value });
+        }
+        for (const child of Array.from(description.children)) {
+            if (child.namespaceURI === NS.pdfx) custom.push({ key: child.localName, value: child.textContent?.trim() ?? '' });
+        }
+    }
+
+    return {
+        title: readXmpProperty(doc, NS.dc, 'title') ?? '',
+        author: readXmpProperty(doc, NS.dc, 'creator') ?? '',
+        subject: readXmpProperty(doc, NS.dc, 'description') ?? '',
+        keywords: readXmpProperty(doc, NS.pdf, 'Keywords') ?? '',
+        creator: readXmpProperty(doc, NS.xmp, 'CreatorTool') ?? '',
+        producer: readXmpProperty(doc, NS.pdf, 'Producer') ?? '',
+        creationDate: parseXmpDate(readXmpProperty(doc, NS.xmp, 'CreateDate')),
+        modificationDate: parseXmpDate(readXmpProperty(doc, NS.xmp, 'ModifyDate')),
+        custom,
+    };
+};
+
+const EMPTY_XMP = `<x:xmpmeta xmlns:x="${NS.x}"><rdf:RDF xmlns:rdf="${NS.rdf}"><rdf:Description rdf:about=""/></rdf:RDF></x:xmpmeta>`;
+
+/** Properties this editor owns; they are removed and rewritten on every save */
+const MANAGED_PROPERTIES: Array<[string, string]> = [
+    [NS.dc, 'title'], [NS.dc, 'creator'], [NS.dc, 'description'], [NS.dc, 'subject'],
+    [NS.pdf, 'Keywords'], [NS.pdf, 'Producer'],
+    [NS.xmp, 'CreatorTool'], [NS.xmp, 'CreateDate'], [NS.xmp, 'ModifyDate'], [NS.xmp, 'MetadataDate'],
+];
+
+/**
+ * Build an XMP packet describing the metadata.
+ * Properties of an existing packet that the editor doesn't manage are kept.
+ */
+export const buildXmpPacket = (metadata: PdfMetadata, existingXml?: string, now: Date = new Date()): string => {
+    const doc = (existingXml && parseXmp(existingXml)) || parseXmp(EMPTY_XMP)!;
+    const rdf = doc.getElementsByTagNameNS(NS.rdf, 'RDF')[0];
+    const descriptions = Array.from(doc.getElementsByTagNameNS(NS.rdf, 'Description'));
+
+    // Strip the managed properties (and every pdfx: custom property) wherever they are
+    for (const description of descriptions) {
+        for (const attribute of Array.from(description.attributes)) {
+            const managed = MANAGED_PROPERTIES.some(([ns, name]) => attribute.namespaceURI === ns && attribute.localName === name);
+            if (managed || attribute.namespaceURI === NS.pdfx) description.removeAttributeNode(attribute);
+        }
+        for (const child of Array.from(description.children)) {
+            const managed = MANAGED_PROPERTIES.some(([ns, name]) => child.namespaceURI === ns && child.localName === name);
+            if (managed || child.namespaceURI === NS.pdfx) description.removeChild(child);
+        }
+    }
+
+    let description = descriptions[0];
+    if (!description) {
+        description = doc.createElementNS(NS.rdf, 'rdf:Description');
+        description.setAttributeNS(NS.rdf, 'rdf:about', '');
+        rdf.appendChild(description);
+    }
+    for (const prefix of ['dc', 'pdf', 'xmp', 'pdfx'] as const) {
+        description.setAttributeNS('http://www.w3.org/2000/xmlns/', `xmlns:${prefix}`, NS[prefix]);
+    }
+
+    const addSimple = (ns: string, qualifiedName: string, value: string) => {
+        const element = doc.createElementNS(ns, qualifiedName);
+        element.textContent = value;
+        description.appendChild(element);
+    };
+    const addList = (qualifiedName: string, container: 'Alt' | 'Seq' | 'Bag', values: string[]) => {
+        const element = doc.createElementNS(NS.dc, qualifiedName);
+        const list = doc.createElementNS(NS.rdf, `rdf:${container}`);
+        for (const value of values) {
+            const li = doc.createElementNS(NS.rdf, 'rdf:li');
+            if (container === 'Alt') li.setAttribute('xml:lang', 'x-default');
+            li.textContent = value;
+            list.appendChild(li);
+        }
+        element.appendChild(list);
+        description.appendChild(element);
+    };
+
+    const keywords = metadata.keywords.split(/[,;]/).map(k => k.trim()).filter(Boolean);
+
+    if (metadata.title.trim()) addList('dc:title', 'Alt', [metadata.title.trim()]);
+    if (metadata.author.trim()) addList('dc:creator', 'Seq', [metadata.author.trim()]);
+    if (metadata.subject.trim()) addList('dc:description', 'Alt', [metadata.subject.trim()]);
+    if (keywords.length > 0) addList('dc:subject', 'Bag', keywords);
+    if (metadata.keywords.trim()) addSimple(NS.pdf, 'pdf:Keywords', metadata.keywords.trim());
+    if (metadata.producer.trim()) addSimple(NS.pdf, 'pdf:Producer', metadata.producer.trim());
+    if (metadata.creator.trim()) addSimple(NS.xmp, 'xmp:CreatorTool', metadata.creator.trim());
+    if (metadata.creationDate) addSimple(NS.xmp, 'xmp:CreateDate', metadata.creationDate.toISOString());
+    if (metadata.modificationDate) addSimple(NS.xmp, 'xmp:ModifyDate', metadata.modificationDate.toISOString());
+    addSimple(NS.xmp, 'xmp:MetadataDate', now.toISOString());
+
+    for (const { key, value } of validateCustomMetadata(metadata.custom)) {
+        if (XML_NAME.test(key)) addSimple(NS.pdfx, `pdfx:${key}`, value);
+    }
+
+    return serializeXmp(doc);
+};
+
+const serializeXmp = (doc: Document): string => {
+    const root = doc.getElementsByTagNameNS(NS.x, 'xmpmeta')[0] ?? doc.getElementsByTagNameNS(NS.rdf, 'RDF')[0];
+    const body = new XMLSerializer().serializeToString(root);
+    // Whitespace padding lets other tools edit the packet in place
+    return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>\n${body}\n${' '.repeat(2048)}\n<?xpacket end="w"?>`;
+};
+
+const storeXmp = (pdf: PDFDocument, packet: string): void => {
+    const { ref } = getXmpStream(pdf);
+    // XMP must stay uncompressed UTF-8 so other tools can find it.
+    // Copied into a plain Uint8Array: pdf-lib checks the type with instanceof.
+    const stream = pdf.context.stream(new Uint8Array(new TextEncoder().encode(packet)), {
+        Type: 'Metadata',
+        Subtype: 'XML',
+    });
+
+    if (ref) {
+        pdf.context.assign(ref, stream);
+    } else {
+        pdf.catalog.set(PDFName.of('Metadata'), pdf.context.register(stream));
+    }
+};
+
+const writeXmp = (pdf: PDFDocument, metadata: PdfMetadata): void => {
+    storeXmp(pdf, buildXmpPacket(metadata, readXmpPacket(pdf)));
+};
+
+/**
+ * Change the XMP packet in place, creating an empty one first if needed.
+ * Used by tools that own their own XMP schemas (e.g. Factur-X invoices).
+ */
+export const editXmpPacket = (pdf: PDFDocument, edit: (doc: Document, rdf: Element) => void): void => {
+    const existing = readXmpPacket(pdf);
+    const doc = (existing && parseXmp(existing)) || parseXmp(EMPTY_XMP)!;
+    edit(doc, doc.getElementsByTagNameNS(NS.rdf, 'RDF')[0]);
+    storeXmp(pdf, serializeXmp(doc));
+};
+
+// ── Public API ─────────────────────────────────────────
+
+/**
+ * Read a document's metadata. The Info dictionary wins; XMP fills in fields it lacks.
+ */
+export const readPDFMetadata = (pdf: PDFDocument): PdfMetadata => {
+    const info = readInfo(pdf);
+    const xmpPacket = readXmpPacket(pdf);
+    const xmp = xmpPacket ? readXmpMetadata(xmpPacket) : undefined;
+    if (!xmp) return info;
+
+    const merged: PdfMetadata = { ...info };
+    for (const field of Object.keys(INFO_KEYS) as TextField[]) {
+        if (!merged[field]) merged[field] = xmp[field];
+    }
+    merged.creationDate = merged.creationDate ?? xmp.creationDate;
+    merged.modificationDate = merged.modificationDate ?? xmp.modificationDate;
+
+    const customKeys = new Set(info.custom.map(entry => entry.key));
+    merged.custom = [...info.custom, ...xmp.custom.filter(entry => !customKeys.has(entry.key))];
+    return merged;
+};
+
+/** Write metadata to both the Info dictionary and the XMP packet */
+export const applyPDFMetadata = (pdf: PDFDocument, metadata: PdfMetadata): void => {
+    writeInfo(pdf, metadata);
+    writeXmp(pdf, metadata);
+};
+
+/**
+ * Load a PDF's metadata without letting pdf-lib touch Producer or ModDate
+ */
+export const getPDFMetadata = async (file: File, password?: string): Promise<{ metadata: PdfMetadata; hasXmp: boolean; pageCount: number }> => {
+    if (!file.type.includes('pdf') && !file.name.toLowerCase().endsWith('.pdf')) {
+        throw new Error('File is not a PDF');
+    }
+
+    const pdf = await loadPDFDocument(await file.arrayBuffer(), password, { updateMetadata: false });
+    return {
+        metadata: readPDFMetadata(pdf),
+        hasXmp: readXmpPacket(pdf) !== undefined,
+        pageCount: pdf.getPageCount(),
+    };
+};
+
+/**
+ * Save a PDF with new metadata
+ * @returns Promise<Uint8Array> - The updated PDF
+ */
+export const setPDFMetadata = async (file: File, metadata: PdfMetadata, password?: string): Promise<Uint8Array> => {
+    const pdf = await loadPDFDocument(await file.arrayBuffer(), password, { updateMetadata: false });
+    applyPDFMetadata(pdf, metadata);
+    return pdf.save();
+};
@@ -0,0 +1,605 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * PDF navigation structures — 100% client-side
+ * 1. Read outlines (bookmarks) and named destinations as page indices
+ * 2. Write them back against another document's pages
+ * 3. Detach and re-attach internal link destinations around page copies
+ * 4. Give duplicated pages their own copies of shared annotations
+ */
+
+import {
+    PDFArray,
+    PDFContext,
+    PDFDict,
+    PDFDocument,
+    PDFHexString,
+    PDFName,
+    PDFNull,
+    PDFNumber,
+    PDFObject,
+    PDFPage,
+    PDFRef,
+    PDFString,
+} from 'pdf-lib';
+
+// ── Types ─────────────────────────────────────────
+
+/** A destination resolved to a page index and its view, e.g. ['XYZ', 72, 720, null] */
+export interface PageDestination {
+    pageIndex: number;
+    view: Array<string | number | null>;
+}
+
+export interface OutlineItem {
+    title: string;
+    destination: PageDestination | null;
+    uri?: string;
+    children: OutlineItem[];
+    open: boolean;
+    color?: [number, number, number];
+    flags?: number; // 1 = italic, 2 = bold
+}
+
+// ── Constants ─────────────────────────────────────────
+
+/** Guards against cyclic outline or name trees in malformed files */
+const MAX_TREE_DEPTH = 64;
+
+const DEFAULT_VIEW: PageDestination['view'] = ['Fit'];
+
+// ── Helpers ─────────────────────────────────────────
+
+const decodeString = (value: PDFObject | undefined): string | undefined => {
+    if (value instanceof PDFString || value instanceof PDFHexString) return value.decodeText();
+    if (value instanceof PDFName) return value.decodeText();
+    return undefined;
+};
+
+const encodeString = (text: string): PDFString | PDFHexString =>
+    /^[\x20-\x7e]*$/.test(text) ? PDFString.of(text.replace(/([\\()])/g, '\\$1')) : PDFHexString.fromText(text);
+
+/** URIs are 7-bit ASCII strings: percent-encode anything else, then escape the literal string */
+const encodeUri = (uri: string): PDFString =>
+    PDFString.of(uri
+        .replace(/[^\x20-\x7e]/gu, char => encodeURIComponent(char))
+        .replace(/([\\()])/g, '\\$1'));
+
+const getPageIndexByRef = (pdf: PDFDocument): Map<string, number> =>
+    new Map(pdf.getPages().map((page, index) => [page.ref.toString(), index]));
+
+const readView = (dest: PDFArray): PageDestination['view'] => {
+    const view: PageDestination['view'] = [];
+    for (let i = 1; i < dest.size(); i++) {
+        const value = dest.get(i);
+        if (value instanceof PDFName) view.push(value.decodeText());
+        else if (value instanceof PDFNumber) view.push(value.asNumber());
+        else view.push(null);
+    }
+    return typeof view[0] === 'string' ? view : DEFAULT_VIEW;
+};
+
+const buildDestArray = (pdf: PDFDocument, pageRef: PDFRef, view: PageDestination['view']): PDFArray =>
+    pdf.context.obj([
+        pageRef,
+        ...view.map(value =>
+            typeof value === 'string' ? PDFName.of(value)
+                : typeof value === 'number' ? PDFNumber.of(value)
+                    : PDFNull
+        ),
+    ]);
+
+/** Destination arrays may be wrapped in a dictionary's /D entry */
+const unwrapDestination = (pdf: PDFDocument, value: PDFObject | undefined): PDFObject | undefined => {
+    const resolved = value instanceof PDFRef ? pdf.context.lookup(value) : value;
+    return resolved instanceof PDFDict ? resolved.lookup(PDFName.of('D')) : resolved;
+};
+
+// ── Named destinations ─────────────────────────────────────────
+
+const collectNameTree = (
+    node: PDFDict,
+    visit: (key: string, value: PDFObject) => void,
+    depth: number = 0
+): void => {
+    if (depth > MAX_TREE_DEPTH) return;
+
+    const names = node.lookup(PDFName.of('Names'));
+    if (names instanceof PDFArray) {
+        for (let i = 0; i + 1 < names.size(); i += 2) {
+            const key = decodeString(names.lookup(i));
+            if (key !== undefined) visit(key, names.get(i + 1));
+        }
+    }
+
+    const kids = node.lookup(PDFName.of('Kids'));
+    if (kids instanceof PDFArray) {
+        for (let i = 0; i < kids.size(); i++) {
+            const kid = kids.lookup(i);
+            if (kid instanceof PDFDict) collectNameTree(kid, visit, depth + 1);
+        }
+    }
+};
+
+/** Raw named destination values from both /Dests (PDF 1.1) and the /Names tree */
+const readRawNamedDestinations = (pdf: PDFDocument): Map<string, PDFObject> => {
+    const raw = new Map<string, PDFObject>();
+
+    const legacyDests = pdf.catalog.lookup(PDFName.of('Dests'));
+    if (legacyDests instanceof PDFDict) {
+        for (const [key, value] of legacyDests.entries()) {
+            raw.set(key.decodeText(), value);
+        }
+    }
+
+    const names = pdf.catalog.lookup(PDFName.of('Names'));
+    const destTree = names instanceof PDFDict ? names.lookup(PDFName.of('Dests')) : undefined;
+    if (destTree instanceof PDFDict) {
+        collectNameTree(destTree, (key, value) => raw.set(key, value));
+    }
+
+    return raw;
+};
+
+const resolveDestination = (
+    pdf: PDFDocument,
+    value: PDFObject | undefined,
+    pageIndexByRef: Map<string, number>,
+    namedDestinations: Map<string, PDFObject>,
+    depth: number = 0
+): PageDestination | null => {
+    if (depth > 4) return null;
+
+    const dest = unwrapDestination(pdf, value);
+    if (dest instanceof PDFArray && dest.size() > 0) {
+        const target = dest.get(0);
+        const pageIndex = target instanceof PDFRef ? pageIndexByRef.get(target.toString())
+            : target instanceof PDFNumber ? target.asNumber()
+                : undefined;
+        return pageIndex === undefined ? null : { pageIndex, view: readView(dest) };
+    }
+
+    const name = decodeString(dest);
+    if (name !== undefined && namedDestinations.has(name)) {
+        return resolveDestination(pdf, namedDestinations.get(name), pageIndexByRef, namedDestinations, depth + 1);
+    }
+
+    return null;
+};
+
+/**
+ * Read every named destination that resolves to a page of the document
+ */
+export const readNamedDestinations = (pdf: PDFDocument): Map<string, PageDestination> => {
+    const pageIndexByRef = getPageIndexByRef(pdf);
+    const raw = readRawNamedDestinations(pdf);
+    const resolved = new Map<string, PageDestination>();
+
+    for (const [name, value] of raw) {
+        const destination = resolveDestination(pdf, value, pageIndexByRef, raw);
+        if (destination) resolved.set(name, destination);
+    }
+    return resolved;
+};
+
+/**
+ * Replace the document's named destinations with a single flat name tree
+ * @param pageRefs - Target page for each destination page index
+ */
+export const writeNamedDestinations = (
+    pdf: PDFDocument,
+    destinations: Map<string, PageDestination>,
+    pageRefs: PDFRef[]
+): void => {
+    const entries: PDFObject[] = [];
+    const sortedNames = [...destinations.keys()].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+    for (const name of sortedNames) {
+        const destination = destinations.get(name)!;
+        const pageRef = pageRefs[destination.pageIndex];
+        if (!pageRef) continue;
+        entries.push(encodeString(name), buildDestArray(pdf, pageRef, destination.view));
+    }
+
+    if (entries.length === 0) return;
+
+    let names = pdf.catalog.lookup(PDFName.of('Names'));
+    if (!(names instanceof PDFDict)) {
+        names = pdf.context.obj({});
+        pdf.catalog.set(PDFName.of('Names'), names);
+    }
+    (names as PDFDict).set(PDFName.of('Dests'), pdf.context.obj({ Names: entries }));
+    pdf.catalog.delete(PDFName.of('Dests'));
+};
+
+// ── Outlines ─────────────────────────────────────────
+
+const readOutlineLevel = (
+    pdf: PDFDocument,
+    first: PDFObject | undefined,
+    pageIndexByRef: Map<string, number>,
+    namedDestinations: Map<string, PDFObject>,
+    visited: Set<PDFDict>,
+    depth: number
+): OutlineItem[] => {
+    const items: OutlineItem[] = [];
+    if (depth > MAX_TREE_DEPTH) return items;
+
+    let node = first instanceof PDFRef ? pdf.context.lookup(first) : first;
+    while (node instanceof PDFDict && !visited.has(node)) {
+        visited.add(node);
+
+        let destination = resolveDestination(pdf, node.get(PDFName.of('Dest')), pageIndexByRef, namedDestinations);
+        let uri: string | undefined;
+
+        const action = node.lookup(PDFName.of('A'));
+        if (!destination && action instanceof PDFDict) {
+            const type = action.lookup(PDFName.of('S'));
+            if (type === PDFName.of('GoTo')) {
+                destination = resolveDestination(pdf, action.get(PDFName.of('D')), pageIndexByRef, namedDestinations);
+            } else if (type === PDFName.of('URI')) {
+                uri = decodeString(action.lookup(PDFName.of('URI')));
+            }
+        }
+
+        const count = node.lookup(PDFName.of('Count'));
+        const color = node.lookup(PDFName.of('C'));
+        const flags = node.lookup(PDFName.of('F'));
+
+        items.push({
+            title: decodeString(node.lookup(PDFName.of('Title'))) ?? '',
+            destination,
+            uri,
+            children: readOutlineLevel(pdf, node.get(PDFName.of('First')), pageIndexByRef, namedDestinations, visited, depth + 1),
+            open: count instanceof PDFNumber && count.asNumber() > 0,
+            color: color instanceof PDFArray && color.size() === 3
+                ? color.asArray().map(c => (c instanceof PDFNumber ? c.asNumber() : 0)) as [number, number, number]
+                : undefined,
+            flags: flags instanceof PDFNumber ? flags.asNumber() : undefined,
+        });
+
+        const next = node.get(PDFName.of('Next'));
+        node = next instanceof PDFRef ? pdf.context.lookup(next) : next;
+    }
+
+    return items;
+};
+
+/**
+ * Read the document outline (bookmarks) with destinations resolved to page indices
+ */
+export const readOutline = (pdf: PDFDocument): OutlineItem[] => {
+    const outlines = pdf.catalog.lookup(PDFName.of('Outlines'));
+    if (!(outlines instanceof PDFDict)) return [];
+
+    return readOutlineLevel(
+        pdf,
+        outlines.get(PDFName.of('First')),
+        getPageIndexByRef(pdf),
+        readRawNamedDestinations(pdf),
+        new Set(),
+        0
+    );
+};
+
+/** Number of descendants shown when every open ancestor is expanded */
+const countVisibleDescendants = (item: OutlineItem): number =>
+    item.children.reduce((sum, child) => sum + 1 + (child.open ? countVisibleDescendants(child) : 0), 0);
+
+const writeOutlineLevel = (
+    pdf: PDFDocument,
+    items: OutlineItem[],
+    parentRef: PDFRef,
+    pageRefs: PDFRef[]
+): { first: PDFRef; last: PDFRef } => {
+    const refs = items.map(() => pdf.context.nextRef());
+
+    items.forEach((item, index) => {
+        const entries: Record<string, PDFObject> = {
+            Title: PDFHexString.fromText(item.title),
+            Parent: parentRef,
+        };
+        if (index > 0) entries.Prev = refs[index - 1];
+        if (index < items.length - 1) entries.Next = refs[index + 1];
+
+        const pageRef = item.destination ? pageRefs[item.destination.pageIndex] : undefined;
+        if (item.destination && pageRef) {
+            entries.Dest = buildDestArray(pdf, pageRef, item.destination.view);
+        } else if (item.uri) {
+            entries.A = pdf.context.obj({ S: 'URI', URI: encodeUri(item.uri) });
+        }
+
+        if (item.children.length > 0) {
+            const { first, last } = writeOutlineLevel(pdf, item.children, refs[index], pageRefs);
+            entries.First = first;
+            entries.Last = last;
+            const visible = countVisibleDescendants(item);
+            entries.Count = PDFNumber.of(item.open ? visible : -visible);
+        }
+
+        if (item.color) entries.C = pdf.context.obj(item.color);
+        if (item.flags) entries.F = PDFNumber.of(item.flags);
+
+        pdf.context.assign(refs[index], pdf.context.obj(entries));
+    });
+
+    return { first: refs[0], last: refs[refs.length - 1] };
+};
+
+/**
+ * Replace the document outline
+ * @param pageRefs - Target page for each destination page index
+ */
+export const writeOutline = (pdf: PDFDocument, items: OutlineItem[], pageRefs: PDFRef[]): void => {
+    if (items.length === 0) {
+        pdf.catalog.delete(PDFName.of('Outlines'));
+        return;
+    }
+
+    const outlinesRef = pdf.context.nextRef();
+    const { first, last } = writeOutlineLevel(pdf, items, outlinesRef, pageRefs);
+    const visible = items.reduce((sum, item) => sum + 1 + (item.open ? countVisibleDescendants(item) : 0), 0);
+
+    pdf.context.assign(outlinesRef, pdf.context.obj({
+        Type: 'Outlines',
+        First: first,
+        Last: last,
+        Count: visible,
+    }));
+    pdf.catalog.set(PDFName.of('Outlines'), outlinesRef);
+    pdf.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+};
+
+/**
+ * Map outline destinations through a page index table, keeping items whose
+ * target page is gone only when they still have children or a URI
+ */
+export const remapOutline = (items: OutlineItem[], pageMap: Map<number, number>): OutlineItem[] =>
+    items.flatMap(item => {
+        const children = remapOutline(item.children, pageMap);
+        const mappedIndex = item.destination ? pageMap.get(item.destination.pageIndex) : undefined;
+        const destination = item.destination && mappedIndex !== undefined
+            ? { ...item.destination, pageIndex: mappedIndex }
+            : null;
+
+        if (!destination && !item.uri && children.length === 0) return [];
+        return [{ ...item, destination, children }];
+    });
+
+// ── Link annotations ─────────────────────────────────────────
+
+type LinkTarget = { holder: PDFDict; key: PDFName };
+
+/** Where a link annotation keeps its destination: /Dest or a GoTo action's /D */
+const findLinkTarget = (annot: PDFDict): LinkTarget | null => {
+    if (annot.lookup(PDFName.of('Subtype')) !== PDFName.of('Link')) return null;
+
+    if (annot.has(PDFName.of('Dest'))) {
+        return { holder: annot, key: PDFName.of('Dest') };
+    }
+
+    const action = annot.lookup(PDFName.of('A'));
+    if (action instanceof PDFDict && action.lookup(PDFName.of('S')) === PDFName.of('GoTo')) {
+        return { holder: action, key: PDFName.of('D') };
+    }
+    return null;
+};
+
+const forEachLink = (page: PDFPage, callback: (annot: PDFDict, target: LinkTarget, index: number) => void): void => {
+    const annots = page.node.lookup(PDFName.of('Annots'));
+    if (!(annots instanceof PDFArray)) return;
+
+    // Iterate backwards so callbacks may remove the current entry
+    for (let i = annots.size() - 1; i >= 0; i--) {
+        const annot = annots.lookup(i);
+        if (!(annot instanceof PDFDict)) continue;
+        const target = findLinkTarget(annot);
+        if (target) callback(annot, target, i);
+    }
+};
+
+/**
+ * Rewrite explicit link destinations on the given pages to page indices.
+ * Copying a page with pdf-lib follows every reference, so a link to another
+ * page would otherwise drag a detached duplicate of that page along.
+ */
+export const detachLinkDestinations = (pdf: PDFDocument, pageIndices: number[]): void => {
+    const pages = pdf.getPages();
+    const pageIndexByRef = getPageIndexByRef(pdf);
+
+    for (const index of new Set(pageIndices)) {
+        const page = pages[index];
+        if (!page) continue;
+
+        forEachLink(page, (annot, { holder, key }) => {
+            // /P points back at the page and would be copied the same way
+            annot.delete(PDFName.of('P'));
+
+            const dest = unwrapDestination(pdf, holder.get(key));
+            if (!(dest instanceof PDFArray) || dest.size() === 0) return;
+
+            const target = dest.get(0);
+            const targetIndex = target instanceof PDFRef ? pageIndexByRef.get(target.toString()) : undefined;
+            holder.set(key, pdf.context.obj([
+                targetIndex !== undefined ? PDFNumber.of(targetIndex) : PDFNull,
+                ...dest.asArray().slice(1),
+            ]));
+        });
+    }
+};
+
+/**
+ * Point links detached by `detachLinkDestinations` at copied pages. Links to
+ * pages (or named destinations) that were not copied are removed.
+ * @param pageRefs - Copied page for each source page index
+ * @param renamedDestinations - Source name → name used in the target document
+ */
+export const attachLinkDestinations = (
+    pages: PDFPage[],
+    pageRefs: Map<number, PDFRef>,
+    renamedDestinations: Map<string, string>
+): void => {
+    // Pages copied from the same source page share their annotations; resolving a link
+    // rewrites it, so each page gets its own before any link is resolved
+    const seen = new Set<PDFObject>();
+    for (const page of new Set(pages)) {
+        const annots = page.node.lookup(PDFName.of('Annots'));
+        if (!(annots instanceof PDFArray)) continue;
+        if (isShared(annots, seen)) copyPageAnnotations(page);
+        else markSeen(annots, seen);
+    }
+
+    for (const page of new Set(pages)) {
+        const annots = page.node.lookup(PDFName.of('Annots'));
+        if (!(annots instanceof PDFArray)) continue;
+
+        forEachLink(page, (_annot, { holder, key }, index) => {
+            const dest = holder.lookup(key);
+
+            if (dest instanceof PDFArray && dest.size() > 0) {
+                const target = dest.get(0);
+                const pageRef = target instanceof PDFNumber ? pageRefs.get(target.asNumber()) : undefined;
+                if (pageRef) {
+                    dest.set(0, pageRef);
+                    return;
+                }
+            } else {
+                const name = decodeString(dest);
+                const renamed = name !== undefined ? renamedDestinations.get(name) : undefined;
+                if (renamed !== undefined) {
+                    holder.set(key, encodeString(renamed));
+                    return;
+                }
+            }
+
+            annots.remove(index);
+        });
+    }
+};
+
+// ── Copying between documents ─────────────────────────────────────────
+
+export interface SourceNavigation {
+    outline: OutlineItem[];
+    destinations: Map<string, PageDestination>;
+}
+
+/**
+ * Read a document's outline and named destinations, then detach the links on the
+ * pages about to be copied. Call before `copyPages`.
+ */
+export const detachNavigation = (pdf: PDFDocument, pageIndices: number[]): SourceNavigation => {
+    const navigation = { outline: readOutline(pdf), destinations: readNamedDestinations(pdf) };
+    detachLinkDestinations(pdf, pageIndices);
+    return navigation;
+};
+
+/**
+ * Carry a source's navigation over to its copied pages: named destinations join
+ * `targetDestinations` (renamed when they collide with earlier ones), links are
+ * re-attached and the outline is remapped
+ * @param pageMap - Source page index → target page index
+ * @param pageRefs - Source page index → copied page
+ * @returns The source outline against target page indices
+ */
+export const attachNavigation = (
+    navigation: SourceNavigation,
+    copiedPages: PDFPage[],
+    pageMap: Map<number, number>,
+    pageRefs: Map<number, PDFRef>,
+    targetDestinations: Map<string, PageDestination>
+): OutlineItem[] => {
+    const renamedDestinations = new Map<string, string>();
+    for (const [name, destination] of navigation.destinations) {
+        const pageIndex = pageMap.get(destination.pageIndex);
+        if (pageIndex === undefined) continue;
+
+        let uniqueName = name;
+        for (let n = 2; targetDestinations.has(uniqueName); n++) uniqueName = `${name}_${n}`;
+        targetDestinations.set(uniqueName, { ...destination, pageIndex });
+        renamedDestinations.set(name, uniqueName);
+    }
+    attachLinkDestinations(copiedPages, pageRefs, renamedDestinations);
+
+    return remapOutline(navigation.outline, pageMap);
+};
+
+// ── Annotation copies ─────────────────────────────────────────
+
+const markSeen = (annots: PDFArray, seen: Set<PDFObject>): void => {
+    seen.add(annots);
+    for (const entry of annots.asArray()) seen.add(entry);
+};
+
+const isShared = (annots: PDFArray, seen: Set<PDFObject>): boolean =>
+    seen.has(annots) || annots.asArray().some(entry => entry instanceof PDFRef && seen.has(entry));
+
+/** Copy nested direct dictionaries and arrays; indirect references stay shared */
+const copyDirect = (context: PDFContext, value: PDFObject): PDFObject => {
+    if (value instanceof PDFArray) {
+        const copy = PDFArray.withContext(context);
+        for (const entry of value.asArray()) copy.push(copyDirect(context, entry));
+        return copy;
+    }
+    if (value instanceof PDFDict) {
+        const copy = PDFDict.withContext(context);
+        for (const [key, entry] of value.entries()) copy.set(key, copyDirect(context, entry));
+        return copy;
+    }
+    return value;
+};
+
+/** A direct copy of what a key holds, following an indirect reference */
+const copyEntry = (context: PDFContext, holder: PDFDict, key: string): void => {
+    const value = holder.lookup(PDFName.of(key));
+    if (value instanceof PDFDict || value instanceof PDFArray) holder.set(PDFName.of(key), copyDirect(context, value));
+};
+
+/**
+ * Give a page its own /Annots array and its own copy of each annotation, with link
+ * actions and destinations copied too. Pages duplicated with `node.clone()` (or copied
+ * twice in one `copyPages` call) share them, so changing a link on one copy would
+ * change the other. Widgets of a field gain the copy as another kid; widgets that are
+ * their own field stay shared, as copying them would create a field outside the form.
+ */
+export const copyPageAnnotations = (page: PDFPage): void => {
+    const { context } = page.doc;
+    const annots = page.node.lookup(PDFName.of('Annots'));
+    if (!(annots instanceof PDFArray)) return;
+
+    const copies = new Map<string, PDFRef>();
+    const entries = annots.asArray().map(entry => {
+        const annot = context.lookup(entry);
+        if (!(annot instanceof PDFDict)) return entry;
+
+        const isWidget = annot.lookup(PDFName.of('Subtype')) === PDFName.of('Widget');
+        const parentKids = isWidget ? annot.lookupMaybe(PDFName.of('Parent'), PDFDict)?.lookup(PDFName.of('Kids')) : undefined;
+        if (isWidget && !(parentKids instanceof PDFArray)) return entry;
+
+        const copy = copyDirect(context, annot) as PDFDict;
+        copyEntry(context, copy, 'A');
+        copyEntry(context, copy, 'Dest');
+        const action = copy.lookup(PDFName.of('A'));
+        if (action instanceof PDFDict) copyEntry(context, action, 'D');
+        if (annot.has(PDFName.of('P'))) copy.set(PDFName.of('P'), page.ref);
+
+        const copyRef = context.register(copy);
+        if (parentKids instanceof PDFArray) parentKids.push(copyRef);
+        if (entry instanceof PDFRef) copies.set(entry.toString(), copyRef);
+        return copyRef;
+    });
+
+    // Markup annotations and their popups point at each other; point them at the copies
+    for (const entry of entries) {
+        const annot = context.lookup(entry);
+        if (!(annot instanceof PDFDict) || annot.lookup(PDFName.of('Subtype')) === PDFName.of('Widget')) continue;
+        for (const key of ['Popup', 'Parent', 'IRT']) {
+            const target = annot.get(PDFName.of(key));
+            const copy = target instanceof PDFRef ? copies.get(target.toString()) : undefined;
+            if (copy) annot.set(PDFName.of(key), copy);
+        }
+    }
+
+    page.node.set(PDFName.of('Annots'), context.obj(entries));
+};
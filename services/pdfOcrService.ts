@@ -0,0 +1,261 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Searchable PDF from OCR — 100% client-side
+ * 1. Skip pages that already have a text layer
+ * 2. Render the remaining pages with pdf.js and recognize them with Tesseract, keeping word boxes
+ * 3. Write each word as invisible text (render mode 3) stretched over its box on the original page,
+ *    reporting words with characters the text layer's font cannot encode
+ */
+
+import {
+    PDFFont,
+    PDFPage,
+    StandardFonts,
+    TextRenderingMode,
+    beginText,
+    endText,
+    popGraphicsState,
+    pushGraphicsState,
+    setCharacterSqueeze,
+    setFontAndSize,
+    setTextMatrix,
+    setTextRenderingMode,
+    showText,
+} from 'pdf-lib';
+import type { Block } from 'tesseract.js';
+import { loadPDFDocument } from './pdfService';
+import { renderPDFPageFromDoc } from './pdfEditorService';
+import { createConfiguredWorker } from './tesseractConfig';
+import { MAX_OCR_PAGES } from './pdfToWordService';
+import { isolateExistingContent } from './pdfGeometry';
+
+// ── Types ─────────────────────────────────────────
+
+/** A box in rendered-page pixels, top-left origin */
+export interface OcrBox {
+    x0: number;
+    y0: number;
+    x1: number;
+    y1: number;
+}
+
+export interface OcrLine {
+    bbox: OcrBox;
+    baseline?: { x0: number; y0: number; x1: number; y1: number };
+    words: Array<{ text: string; bbox: OcrBox }>;
+}
+
+/** Maps a rendered-page pixel to PDF user space */
+export type ToPdfPoint = (x: number, y: number) => [number, number];
+
+export interface TextLayerResult {
+    words: number;
+    /** Words left out or shortened because the font cannot encode some of their characters */
+    skippedWords: string[];
+}
+
+export interface SearchablePdfResult {
+    data: Uint8Array;
+    pagesRecognized: number;
+    pagesSkipped: number; // Pages that already contained text
+    words: number;
+    /** Distinct words search will not find as recognized, e.g. accented or non-Latin words */
+    skippedWords: string[];
+}
+
+// ── Constants ─────────────────────────────────────────
+
+/** Render scale for recognition (216 DPI) */
+const OCR_SCALE = 3;
+
+/** Helvetica's ascender and descender as fractions of the font size */
+const ASCENT = 0.718;
+const DESCENT = 0.207;
+
+// ── Text layer ─────────────────────────────────────────
+
+/** Code points each font can encode, built once per font rather than once per word */
+const characterSets = new WeakMap<PDFFont, Set<number>>();
+
+/** The word with characters the font cannot encode removed */
+const encodable = (font: PDFFont, text: string): string => {
+    let supported = characterSets.get(font);
+    if (!supported) {
+        supported = new Set(font.getCharacterSet());
+        characterSets.set(font, supported);
+    }
+    return Array.from(text).filter(char => supported.has(char.codePointAt(0)!)).join('');
+};
+
+/** Baseline height in pixels at x, interpolated along the line's baseline or estimated from its box */
+const baselineAt = (line: OcrLine, x: number): number => {
+    const { baseline, bbox } = line;
+    if (!baseline || baseline.x1 === baseline.x0) {
+        return bbox.y1 - ((bbox.y1 - bbox.y0) * DESCENT) / (ASCENT + DESCENT);
+    }
+    return baseline.y0 + ((x - baseline.x0) * (baseline.y1 - baseline.y0)) / (baseline.x1 - baseline.x0);
+};
+
+/**
+ * Add recognized words to a page as invisible text.
+ * Each word is placed on its line's baseline, sized to the line height and squeezed
+ * horizontally to its box, so selection and search highlights match the scanned words.
+ * @returns The number of words written, and the words the font could not encode in full
+ */
+export const addInvisibleTextLayer = (page: PDFPage, font: PDFFont, lines: OcrLine[], toPdfPoint: ToPdfPoint): TextLayerResult => {
+    const fontKey = page.node.newFontDictionary('OcrText', font.ref);
+    const operators = [pushGraphicsState(), beginText(), setTextRenderingMode(TextRenderingMode.Invisible)];
+    const skippedWords: string[] = [];
+    let written = 0;
+
+    for (const line of lines) {
+        for (let i = 0; i < line.words.length; i++) {
+            const word = line.words[i];
+            const recognized = word.text.trim();
+            const text = encodable(font, recognized);
+            if (text !== recognized) skippedWords.push(recognized);
+            if (!text) continue;
+
+            // Start and end of the word on the baseline, and the top of the line above the start
+            const [x0, y0] = toPdfPoint(word.bbox.x0, baselineAt(line, word.bbox.x0));
+            const [x1, y1] = toPdfPoint(word.bbox.x1, baselineAt(line, word.bbox.x1));
+            const [tx, ty] = toPdfPoint(word.bbox.x0, line.bbox.y0);
+            const width = Math.hypot(x1 - x0, y1 - y0);
+            const fontSize = Math.hypot(tx - x0, ty - y0) / ASCENT;
+            if (width <= 0 || fontSize <= 0) continue;
+
+            const cos = (x1 - x0) / width;
+            const sin = (y1 - y0) / width;
+            const natural = font.widthOfTextAtSize(text, fontSize);
+
+            // A trailing space keeps words apart when the text is copied
+            const shown = i < line.words.length - 1 ? `${text} ` : text;
+            operators.push(
+                setFontAndSize(fontKey, fontSize),
+                setCharacterSqueeze((width / natural) * 100),
+                setTextMatrix(cos, sin, -sin, cos, x0, y0),
+                showText(font.encodeText(shown))
+            );
+            written++;
+        }
+    }
+
+    operators.push(endText(), popGraphicsState());
+    if (written > 0) page.pushOperators(...operators);
+    return { words: written, skippedWords };
+};
+
+// ── Recognition ─────────────────────────────────────────
+
+/** Flatten Tesseract's block tree into lines of words */
+const linesFromBlocks = (blocks: Block[] | null): OcrLine[] =>
+    (blocks ?? []).flatMap(block => block.paragraphs.flatMap(paragraph => paragraph.lines.map(line => ({
+        bbox: line.bbox,
+        baseline: line.baseline?.has_baseline ? line.baseline : undefined,
+        words: line.words.map(word => ({ text: word.text, bbox: word.bbox })),
+    }))));
+
+// ── Main entry point ─────────────────────────────────────────
+
+/**
+ * Run OCR on the pages of a PDF that have no text and add an invisible text layer,
+ * leaving the page content untouched
+ */
+export const makeSearchablePDF = async (
+    file: File,
+    language: string = 'eng',
+    password?: string,
+    onProgress?: (progress: number, status: string) => void,
+    abortSignal?: { current: boolean }
+): Promise<SearchablePdfResult> => {
+    if (!file.type.includes('pdf') && !file.name.toLowerCase().endsWith('.pdf')) {
+        throw new Error('File is not a PDF');
+    }
+
+    onProgress?.(2, 'Loading PDF...');
+    const bytes = await file.arrayBuffer();
+    const pdf = await loadPDFDocument(bytes, password);
+    const { pdfjsLib } = await import('./pdfConfig');
+    const rendered = await pdfjsLib.getDocument({ data: bytes.slice(0), password }).promise;
+    let worker: Awaited<ReturnType<typeof createConfiguredWorker>> | null = null;
+
+    try {
+        if (rendered.numPages > MAX_OCR_PAGES) {
+            throw new Error(
+                `This PDF has ${rendered.numPages} pages. OCR is limited to ${MAX_OCR_PAGES} pages ` +
+                `to prevent browser freezes. Split the document and process the parts separately.`
+            );
+        }
+
+        const result: SearchablePdfResult = { data: new Uint8Array(), pagesRecognized: 0, pagesSkipped: 0, words: 0, skippedWords: [] };
+        const skippedWords = new Set<string>();
+        const font = await pdf.embedFont(StandardFonts.Helvetica);
+        const pages = pdf.getPages();
+
+        for (let pageNum = 1; pageNum <= rendered.numPages; pageNum++) {
+            if (abortSignal?.current) throw new Error('OCR cancelled');
+            onProgress?.(5 + ((pageNum - 1) / rendered.numPages) * 85, `Processing page ${pageNum} of ${rendered.numPages}...`);
+
+            const page = await rendered.getPage(pageNum);
+            const content = await page.getTextContent();
+            if (content.items.some(item => 'str' in item && item.str.trim())) {
+                result.pagesSkipped++;
+                page.cleanup();
+                continue;
+            }
+
+            if (!worker) {
+                onProgress?.(5 + ((pageNum - 1) / rendered.numPages) * 85, 'Initializing OCR engine...');
+                worker = await createConfiguredWorker(language);
+            }
+
+            const viewport = page.getViewport({ scale: OCR_SCALE });
+            let canvas: HTMLCanvasElement;
+            try {
+                ({ canvas } = await renderPDFPageFromDoc(rendered, pageNum, OCR_SCALE));
+            } catch {
+                throw new Error(`Failed to render PDF page ${pageNum}. The PDF may be corrupted.`);
+            }
+
+            let lines: OcrLine[];
+            try {
+                const { data } = await worker.recognize(canvas, {}, { blocks: true });
+                lines = linesFromBlocks(data.blocks);
+            } catch {
+                throw new Error(`OCR failed on page ${pageNum}. Please try with a different PDF or check your connection.`);
+            } finally {
+                canvas.width = 0;
+                canvas.height = 0;
+                page.cleanup();
+            }
+
+            const target = pages[pageNum - 1];
+            if (lines.some(line => line.words.length > 0)) {
+                isolateExistingContent(pdf, target);
+            }
+            const layer = addInvisibleTextLayer(target, font, lines, (x, y) => viewport.convertToPdfPoint(x, y) as [number, number]);
+            result.words += layer.words;
+            layer.skippedWords.forEach(word => skippedWords.add(word));
+            result.pagesRecognized++;
+        }
+
+        if (result.pagesRecognized === 0) {
+            throw new Error('Every page of this PDF already contains text, so there is nothing to OCR.');
+        }
+        result.skippedWords = [...skippedWords];
+
+        if (abortSignal?.current) throw new Error('OCR cancelled');
+        onProgress?.(92, 'Saving PDF...');
+        result.data = await pdf.save();
+
+        onProgress?.(100, 'Searchable PDF created!');
+        return result;
+    } finally {
+        if (worker) {
+            try { await worker.terminate(); } catch { /* ignore */ }
+        }
+        rendered.destroy();
+    }
+};
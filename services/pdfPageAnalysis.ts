@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Rendered page analysis — 100% client-side
+ * 1. Render pages at low resolution with pdf.js
+ * 2. Measure how much of each page is covered by ink, and where
+ * 3. Flag pages whose coverage is below a threshold as blank, or report their content bounds
+ */
+
+import { renderPDFPageFromDoc } from './pdfEditorService';
+import type { CropRect } from '../types';
+
+// ── Constants ─────────────────────────────────────────
+
+/** Resolution used for analysis; enough to see text, small enough to be fast */
+const ANALYSIS_DPI = 50;
+
+/** Pixels darker than this luminance count as ink */
+const INK_LUMINANCE = 200;
+
+/** Share of each edge ignored, so scanner shadows and punch holes don't count */
+const EDGE_MARGIN = 0.05;
+
+// ── Pixel analysis ─────────────────────────────────────────
+
+/**
+ * Fraction (0-1) of pixels inside the page margins that are ink.
+ * Transparent pixels count as paper.
+ */
+export const measureInkCoverage = (
+    image: { data: Uint8ClampedArray; width: number; height: number },
+    edgeMargin: number = EDGE_MARGIN
+): number => {
+    const { data, width, height } = image;
+    const left = Math.floor(width * edgeMargin);
+    const top = Math.floor(height * edgeMargin);
+    const right = width - left;
+    const bottom = height - top;
+
+    let ink = 0;
+    let total = 0;
+    for (let y = top; y < bottom; y++) {
+        for (let x = left; x < right; x++) {
+            const i = (y * width + x) * 4;
+            total++;
+            if (data[i + 3] === 0) continue;
+            const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+            if (luminance < INK_LUMINANCE) ink++;
+        }
+    }
+    return total === 0 ? 0 : ink / total;
+};
+
+/**
+ * Smallest rectangle containing every ink pixel, as fractions of the image
+ * measured from its top-left corner. Transparent pixels count as paper.
+ * @returns null when the image has no ink
+ */
+export const findInkBounds = (
+    image: { data: Uint8ClampedArray; width: number; height: number }
+): CropRect | null => {
+    const { data, width, height } = image;
+    let minX = width;
+    let minY = height;
+    let maxX = -1;
+    let maxY = -1;
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            if (data[i + 3] === 0) continue;
+            const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+            if (luminance >= INK_LUMINANCE) continue;
+            if (x < minX) minX = x;
+            if (x > maxX) maxX = x;
+            if (y < minY) minY = y;
+            if (y > maxY) maxY = y;
+        }
+    }
+
+    if (maxX < 0) return null;
+    return {
+        left: minX / width,
+        top: minY / height,
+        right: (maxX + 1) / width,
+        bottom: (maxY + 1) / height,
+    };
+};
+
+// ── Blank page detection ─────────────────────────────────────────
+
+/**
+ * Find blank pages by rendering each one and measuring its ink coverage
+ * @param data - PDF bytes (copied before handing them to pdf.js)
+ * @param inkThreshold - Maximum ink coverage in percent for a page to count as blank
+ * @returns 0-based indices of blank pages
+ */
+export const detectBlankPages = async (
+    data: ArrayBuffer,
+    inkThreshold: number,
+    password?: string,
+    onProgress?: (progress: number, status: string) => void,
+    abortSignal?: { current: boolean }
+): Promise<number[]> => {
+    const { pdfjsLib } = await import('./pdfConfig');
+    const pdf = await pdfjsLib.getDocument({ data: data.slice(0), password }).promise;
+    const blankPages: number[] = [];
+
+    try {
+        for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+            if (abortSignal?.current) throw new Error('Blank page detection cancelled');
+            onProgress?.((pageNum - 1) / pdf.numPages * 100, `Analyzing page ${pageNum} of ${pdf.numPages}...`);
+
+            const { canvas } = await renderPDFPageFromDoc(pdf, pageNum, ANALYSIS_DPI / 72);
+            const context = canvas.getContext('2d');
+            if (!context) {
+                throw new Error('Failed to get canvas context');
+            }
+
+            const coverage = measureInkCoverage(context.getImageData(0, 0, canvas.width, canvas.height));
+            if (coverage * 100 <= inkThreshold) blankPages.push(pageNum - 1);
+
+            // Release the bitmap straight away; large documents render hundreds of pages
+            canvas.width = 0;
+            canvas.height = 0;
+        }
+    } finally {
+        pdf.destroy();
+    }
+
+    return blankPages;
+};
+
+// ── Content bounds ─────────────────────────────────────────
+
+/**
+ * Find where each page's content sits by rendering it and locating its ink
+ * @param data - PDF bytes (copied before handing them to pdf.js)
+ * @param pageIndices - 0-based pages to analyze
+ * @returns Content bounds per analyzed page, as fractions of the page as displayed; null for blank pages
+ */
+export const detectContentBounds = async (
+    data: ArrayBuffer,
+    pageIndices: number[],
+    password?: string,
+    onProgress?: (progress: number, status: string) => void,
+    abortSignal?: { current: boolean }
+): Promise<Map<number, CropRect | null>> => {
+    const { pdfjsLib } = await import('./pdfConfig');
+    const pdf = await pdfjsLib.getDocument({ data: data.slice(0), password }).promise;
+    const bounds = new Map<number, CropRect | null>();
+
+    try {
+        for (let i = 0; i < pageIndices.length; i++) {
+            if (abortSignal?.current) throw new Error('Content detection cancelled');
+            const pageNum = pageIndices[i] + 1;
+            onProgress?.(i / pageIndices.length * 100, `Analyzing page ${pageNum} of ${pdf.numPages}...`);
+
+            const { canvas } = await renderPDFPageFromDoc(pdf, pageNum, ANALYSIS_DPI / 72);
+            const context = canvas.getContext('2d');
+            if (!context) {
+                throw new Error('Failed to get canvas context');
+            }
+
+            bounds.set(pageIndices[i], findInkBounds(context.getImageData(0, 0, canvas.width, canvas.height)));
+
+            canvas.width = 0;
+            canvas.height = 0;
+        }
+    } finally {
+        pdf.destroy();
+    }
+
+    return bounds;
+};
@@ -0,0 +1,203 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Page numbers, headers/footers and Bates numbering — 100% client-side
+ * 1. Resolve each slot template ({page}, {total}, {filename}, {date}, {bates}) per page
+ * 2. Draw the left/center/right slots in the header and footer of the page as displayed
+ * 3. Carry the Bates counter from file to file and log the range each file received
+ */
+
+import { PDFDocument, StandardFonts, degrees, rgb } from 'pdf-lib';
+import { loadPDFDocument } from './pdfService';
+import { hexToRgb } from './pdfEditorService';
+import { STANDARD_FONTS, getPageFrame, isolateExistingContent, toFontCharacters, toUserSpace } from './pdfGeometry';
+import { csvField } from '../utils/csv';
+import type { BatesNumbering, HeaderFooterSlots, PageNumbersPdfConfig } from '../types';
+
+// ── Tokens ─────────────────────────────────────────
+
+export const PAGE_TOKENS = ['{page}', '{total}', '{filename}', '{date}', '{bates}'] as const;
+
+export interface PageTokenValues {
+    page: number | string;
+    total: number | string;
+    filename: string;
+    date: string;
+    bates: string;
+}
+
+export const formatBatesNumber = (value: number, bates: BatesNumbering): string =>
+    `${bates.prefix}${String(value).padStart(Math.max(1, bates.digits), '0')}${bates.suffix}`;
+
+/** Replace every token in a slot template; unknown braces are left as typed */
+export const resolvePageTokens = (template: string, values: PageTokenValues): string =>
+    template.replace(/\{(page|total|filename|date|bates)\}/g, (_, token: keyof PageTokenValues) => String(values[token]));
+
+const slotsOf = (config: PageNumbersPdfConfig): string[] => [
+    config.header.left, config.header.center, config.header.right,
+    config.footer.left, config.footer.center, config.footer.right,
+];
+
+export const usesBatesNumbers = (config: PageNumbersPdfConfig): boolean =>
+    slotsOf(config).some(slot => slot.includes('{bates}'));
+
+// ── Stamping ─────────────────────────────────────────
+
+export interface PageNumberingResult {
+    stampedPages: number;
+    firstBates?: number; // Undefined when no page was stamped
+    lastBates?: number;
+}
+
+/**
+ * Stamp headers and footers on a loaded document
+ * @param batesStart - Bates number of the first stamped page
+ * @returns How many pages were stamped and the Bates numbers they used
+ */
+export const applyPageNumbers = async (
+    pdf: PDFDocument,
+    config: PageNumbersPdfConfig,
+    context: { filename: string; date: string; batesStart: number },
+    onProgress?: (progress: number, status: string) => void
+): Promise<PageNumberingResult> => {
+    const pages = pdf.getPages();
+    const skip = Math.max(0, Math.floor(config.skipFirstPages));
+    const stamped = pages.slice(skip);
+    if (stamped.length === 0) return { stampedPages: 0 };
+
+    const font = await pdf.embedFont(STANDARD_FONTS[config.font] ?? StandardFonts.Helvetica);
+    const charset = new Set(font.getCharacterSet());
+    const color = hexToRgb(config.color);
+    const ascent = font.heightAtSize(config.fontSize, { descender: false });
+
+    const rows: Array<{ slots: HeaderFooterSlots; isHeader: boolean }> = [
+        { slots: config.header, isHeader: true },
+        { slots: config.footer, isHeader: false },
+    ];
+
+    stamped.forEach((page, i) => {
+        onProgress?.((i / stamped.length) * 100, `Numbering page ${skip + i + 1}...`);
+
+        const values: PageTokenValues = {
+            page: i + 1,
+            total: stamped.length,
+            filename: context.filename,
+            date: context.date,
+            bates: formatBatesNumber(context.batesStart + i, config.bates),
+        };
+        const frame = getPageFrame(page);
+
+        isolateExistingContent(pdf, page);
+        // Start a stream of our own; pdf-lib otherwise appends to the one it last drew into
+        page.resetPosition();
+
+        for (const { slots, isHeader } of rows) {
+            const baseline = isHeader ? frame.height - config.marginY - ascent : config.marginY;
+
+            for (const align of ['left', 'center', 'right'] as const) {
+                const text = toFontCharacters(charset, resolvePageTokens(slots[align], values));
+                if (!text.trim()) continue;
+
+                const width = font.widthOfTextAtSize(text, config.fontSize);
+                const vx = align === 'left' ? config.marginX
+                    : align === 'right' ? frame.width - config.marginX - width
+                        : (frame.width - width) / 2;
+
+                page.drawText(text, {
+                    ...toUserSpace(frame, vx, baseline),
+                    rotate: degrees(frame.rotation),
+                    size: config.fontSize,
+                    font,
+                    color: rgb(color.r, color.g, color.b),
+                });
+            }
+        }
+    });
+
+    return {
+        stampedPages: stamped.length,
+        firstBates: context.batesStart,
+        lastBates: context.batesStart + stamped.length - 1,
+    };
+};
+
+// ── Batch ─────────────────────────────────────────
+
+export interface BatesLogEntry {
+    fileName: string;
+    firstBates: string;
+    lastBates: string;
+    pageCount: number;
+}
+
+export interface PageNumbersBatchResult {
+    files: Array<{ data: Uint8Array; name: string }>;
+    batesLog: BatesLogEntry[];
+}
+
+/**
+ * Add page numbers, headers and footers to a batch of PDFs.
+ * Bates numbers run on from one file to the next in the order given.
+ * @param date - Value of the {date} token; defaults to today in the user's locale
+ * @param password - Password for encrypted files, tried on each file of the batch
+ */
+export const addPageNumbersToPDFs = async (
+    files: File[],
+    config: PageNumbersPdfConfig,
+    onProgress?: (progress: number, status: string) => void,
+    abortSignal?: { current: boolean },
+    date: string = new Date().toLocaleDateString(),
+    password?: string
+): Promise<PageNumbersBatchResult> => {
+    if (slotsOf(config).every(slot => !slot.trim())) {
+        throw new Error('Please enter text for at least one header or footer position');
+    }
+
+    const results: PageNumbersBatchResult = { files: [], batesLog: [] };
+    let nextBates = Math.max(0, Math.floor(config.bates.startNumber));
+
+    for (let f = 0; f < files.length; f++) {
+        if (abortSignal?.current) throw new Error('Page numbering cancelled');
+
+        const file = files[f];
+        const baseName = file.name.replace(/\.pdf$/i, '');
+        const fileProgress = (progress: number, status: string) =>
+            onProgress?.(((f + progress / 100) / files.length) * 100, files.length > 1 ? `${file.name}: ${status}` : status);
+
+        fileProgress(0, 'Loading PDF...');
+        const pdf = await loadPDFDocument(await file.arrayBuffer(), password);
+
+        const numbering = await applyPageNumbers(
+            pdf,
+            config,
+            { filename: baseName, date, batesStart: nextBates },
+            (progress, status) => fileProgress(10 + progress * 0.8, status)
+        );
+
+        fileProgress(90, 'Saving PDF...');
+        results.files.push({ data: await pdf.save(), name: `${baseName}_numbered.pdf` });
+
+        if (numbering.firstBates !== undefined && numbering.lastBates !== undefined) {
+            results.batesLog.push({
+                fileName: file.name,
+                firstBates: formatBatesNumber(numbering.firstBates, config.bates),
+                lastBates: formatBatesNumber(numbering.lastBates, config.bates),
+                pageCount: numbering.stampedPages,
+            });
+            nextBates = numbering.lastBates + 1;
+        }
+    }
+
+    onProgress?.(100, 'Page numbers added!');
+    return results;
+};
+
+/** CSV log of the Bates range stamped on each file, one row per file */
+export const batesLogToCSV = (log: BatesLogEntry[]): string => {
+    const rows = [
+        ['File', 'First Bates', 'Last Bates', 'Pages'],
+        ...log.map(entry => [entry.fileName, entry.firstBates, entry.lastBates, entry.pageCount]),
+    ];
+    return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,340 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Page content reader for the Office converters
+ * 1. Read text items from pdf.js with their position, size, font family and style
+ * 2. Follow the operator list's transforms to find where each image is painted
+ * 3. Keep painted JPEG images as they are stored, and decode the others to PNG
+ * 4. Collect the straight lines and rectangle edges that are painted, for table borders
+ */
+
+import { PDFName, type PDFDocument, type PDFPage } from 'pdf-lib';
+import { loadPDFDocument } from './pdfService';
+import { encodePng, getEncodedJpeg, listPaintedImages, type PdfImageXObject, type RawImage } from './pdfImageCodec';
+import type { PageImage, TextFragment } from './pdfTextLayout';
+import { rectangleToLines, type RulingLine } from './pdfTableDetection';
+
+// ── Types ─────────────────────────────────────────
+
+/** The same page loaded with pdf-lib, to read images as they are stored */
+export interface PageSource {
+    pdf: PDFDocument;
+    page: PDFPage;
+}
+
+export interface PageContent {
+    fragments: TextFragment[];
+    images: PageImage[];
+    imageOperations: number[]; // Operator list indexes that paint the images, to leave them out of a render
+    width: number; // Page size in points, as displayed
+    height: number;
+}
+
+// ── Constants ─────────────────────────────────────────
+
+/** Images smaller than this (in points) are rules and decorations, not content */
+const MIN_IMAGE_SIZE = 12;
+
+/** Drawing commands in a pdf.js path buffer (its DrawOPS, which pdf.js does not export) */
+const PATH_MOVE_TO = 0;
+const PATH_LINE_TO = 1;
+const PATH_CURVE_TO = 2;
+const PATH_QUADRATIC_CURVE_TO = 3;
+const PATH_CLOSE = 4;
+
+// ── Reading ─────────────────────────────────────────
+
+type Matrix = [number, number, number, number, number, number];
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+];
+
+/**
+ * Family name, bold and italic of the font pdf.js loaded for a text item,
+ * e.g. "ABCDEF+TimesNewRomanPS-BoldMT" → Times New Roman, bold
+ */
+const fontInfo = (page: any, fontName: string): { fontFamily?: string; bold: boolean; italic: boolean } => {
+    const font = page.commonObjs.has(fontName) ? page.commonObjs.get(fontName) : null;
+    const name: string = font?.name ?? '';
+    const family = name
+        .replace(/^[A-Z]{6}\+/, '') // Subset prefix
+        .split(/[-,]/)[0]
+        .replace(/(PS)?MT$|PS$/, '')
+        .replace(/([a-z])([A-Z])/g, '$1 $2')
+        .trim();
+    return {
+        fontFamily: family || undefined,
+        bold: !!(font?.bold || font?.black) || /bold|black|heavy|semibold|demi/i.test(name),
+        italic: !!font?.italic || /italic|oblique/i.test(name),
+    };
+};
+
+/** RGBA pixels of a decoded pdf.js image object */
+const imageObjectPixels = (image: any): RawImage | null => {
+    const { width, height } = image;
+    if (!width || !height) return null;
+
+    if (image.bitmap) {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const context = canvas.getContext('2d');
+        if (!context) return null;
+        context.drawImage(image.bitmap, 0, 0);
+        const { data } = context.getImageData(0, 0, width, height);
+        canvas.width = 0;
+        canvas.height = 0;
+        return { width, height, data };
+    }
+
+    if (!image.data) return null;
+    const source: Uint8Array = image.data;
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let i = 0; i < width * height; i++) {
+        if (image.kind === 3) { // RGBA_32BPP
+            data.set(source.subarray(i * 4, i * 4 + 4), i * 4);
+            continue;
+        }
+        if (image.kind === 2) { // RGB_24BPP
+            data.set(source.subarray(i * 3, i * 3 + 3), i * 4);
+        } else { // GRAYSCALE_1BPP, rows padded to whole bytes
+            const rowBytes = (width + 7) >> 3;
+            const x = i % width;
+            const bit = (source[Math.floor(i / width) * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1;
+            data.fill(bit ? 255 : 0, i * 4, i * 4 + 3);
+        }
+        data[i * 4 + 3] = 255;
+    }
+    return { width, height, data };
+};
+
+/** JPEG bytes Word and PowerPoint can show as they are: no mask to apply and no CMYK or Decode inversion */
+const storedJpeg = (image: PdfImageXObject): Uint8Array | null => {
+    const { dict } = image.stream;
+    if (dict.has(PDFName.of('SMask')) || dict.has(PDFName.of('Mask')) || image.hasDecodeArray) return null;
+    if (image.colorSpace.family !== 'DeviceGray' && image.colorSpace.family !== 'DeviceRGB') return null;
+    return getEncodedJpeg(image);
+};
+
+/**
+ * Images painted on a page, found by following the transforms in its operator list.
+ * With the pdf-lib page, JPEG images keep their stored bytes instead of growing into PNGs.
+ */
+const readPageImages = async (
+    page: any,
+    operatorList: any,
+    viewport: any,
+    source?: PageSource
+): Promise<{ images: PageImage[]; operations: number[] }> => {
+    const { pdfjsLib } = await import('./pdfConfig');
+    const { OPS } = pdfjsLib;
+    const images: PageImage[] = [];
+    const operations: number[] = [];
+    const stack: Matrix[] = [];
+    // pdf.js reports image XObjects in the order the content stream paints them
+    const stored = source ? listPaintedImages(source.pdf, source.page) : [];
+    let storedIndex = 0;
+    let ctm: Matrix = [1, 0, 0, 1, 0, 0];
+
+    for (let i = 0; i < operatorList.fnArray.length; i++) {
+        const fn = operatorList.fnArray[i];
+        const args = operatorList.argsArray[i];
+
+        if (fn === OPS.save) {
+            stack.push(ctm);
+        } else if (fn === OPS.restore) {
+            ctm = stack.pop() ?? ctm;
+        } else if (fn === OPS.transform) {
+            ctm = multiply(ctm, Array.from(args) as Matrix);
+        } else if (fn === OPS.paintFormXObjectBegin) {
+            stack.push(ctm);
+            if (args[0]) ctm = multiply(ctm, Array.from(args[0]) as Matrix);
+        } else if (fn === OPS.paintFormXObjectEnd) {
+            ctm = stack.pop() ?? ctm;
+        } else if (fn === OPS.paintImageXObject || fn === OPS.paintInlineImageXObject) {
+            // The image fills the unit square of the current transform
+            const corners = [[0, 0], [1, 0], [0, 1], [1, 1]].map(([u, v]) =>
+                viewport.convertToViewportPoint(ctm[0] * u + ctm[2] * v + ctm[4], ctm[1] * u + ctm[3] * v + ctm[5]) as number[]
+            );
+            const xs = corners.map(point => point[0]);
+            const ys = corners.map(point => point[1]);
+            const box = { x: Math.min(...xs), y: Math.min(...ys), width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) };
+            // Only trust the match when the sizes agree, in case pdf.js skipped an image
+            const match = fn === OPS.paintImageXObject ? stored[storedIndex++] : undefined;
+            if (box.width < MIN_IMAGE_SIZE || box.height < MIN_IMAGE_SIZE) continue;
+
+            const jpeg = match && match.width === args[1] && match.height === args[2] ? storedJpeg(match) : null;
+            if (jpeg) {
+                images.push({ data: jpeg, type: 'jpg', ...box });
+                operations.push(i);
+                continue;
+            }
+
+            const object = fn === OPS.paintInlineImageXObject
+                ? args[0]
+                : await new Promise<any>(resolve => {
+                    const objs = String(args[0]).startsWith('g_') ? page.commonObjs : page.objs;
+                    objs.get(args[0], resolve);
+                });
+            const pixels = object ? imageObjectPixels(object) : null;
+            if (!pixels) continue;
+            images.push({ data: await encodePng(pixels), type: 'png', ...box });
+            operations.push(i);
+        }
+    }
+
+    return { images, operations };
+};
+
+/**
+ * The document loaded with pdf-lib to pass to readPageContent, or null when pdf-lib cannot open it
+ * and images fall back to PNG. Call before pdf.js takes the buffer.
+ */
+export const loadPageSources = async (data: ArrayBuffer): Promise<PDFDocument | null> => {
+    try {
+        return await loadPDFDocument(data.slice(0), undefined, { updateMetadata: false });
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Positioned, styled text and the images of a page, in points from its top-left corner as displayed
+ * @param source - The page loaded with pdf-lib, so JPEG images are kept as JPEG
+ */
+export const readPageContent = async (page: any, source?: PageSource): Promise<PageContent> => {
+    const viewport = page.getViewport({ scale: 1 });
+    // Also loads the page's fonts into commonObjs, which fontInfo reads
+    const operatorList = await page.getOperatorList();
+    const textContent = await page.getTextContent();
+
+    const fragments: TextFragment[] = [];
+    for (const item of textContent.items as any[]) {
+        if (!item.str || !item.transform) continue;
+        const [, , c, d, e, f] = item.transform;
+        const [x, y] = viewport.convertToViewportPoint(e, f);
+        fragments.push({
+            text: item.str,
+            x,
+            y,
+            width: item.width,
+            fontSize: Math.hypot(c, d) || 12,
+            ...fontInfo(page, item.fontName),
+        });
+    }
+
+    const { images, operations } = await readPageImages(page, operatorList, viewport, source);
+    return {
+        fragments,
+        images,
+        imageOperations: operations,
+        width: viewport.width,
+        height: viewport.height,
+    };
+};
+
+// ── Ruling lines ─────────────────────────────────────────
+
+interface Subpath {
+    segments: Array<[number, number, number, number]>; // Straight segments as x0, y0, x1, y1
+    curved: boolean;
+}
+
+/** Split a pdf.js path buffer into subpaths of straight segments */
+const readSubpaths = (buffer: ArrayLike<number>): Subpath[] => {
+    const subpaths: Subpath[] = [];
+    let current: Subpath | null = null;
+    let start = [0, 0];
+    let point = [0, 0];
+
+    for (let k = 0; k < buffer.length;) {
+        const command = buffer[k++];
+        if (command === PATH_MOVE_TO) {
+            point = start = [buffer[k], buffer[k + 1]];
+            current = { segments: [], curved: false };
+            subpaths.push(current);
+            k += 2;
+        } else if (command === PATH_LINE_TO) {
+            const next = [buffer[k], buffer[k + 1]];
+            current?.segments.push([point[0], point[1], next[0], next[1]]);
+            point = next;
+            k += 2;
+        } else if (command === PATH_CURVE_TO || command === PATH_QUADRATIC_CURVE_TO) {
+            const size = command === PATH_CURVE_TO ? 6 : 4;
+            point = [buffer[k + size - 2], buffer[k + size - 1]];
+            if (current) current.curved = true;
+            k += size;
+        } else if (command === PATH_CLOSE) {
+            if (point[0] !== start[0] || point[1] !== start[1]) current?.segments.push([point[0], point[1], start[0], start[1]]);
+            point = start;
+        } else {
+            break; // Unknown command: the rest of the buffer cannot be read
+        }
+    }
+
+    return subpaths;
+};
+
+/**
+ * Straight lines painted on a page: stroked segments, and thin or outlined filled rectangles,
+ * in points from its top-left corner as displayed
+ */
+export const readRulingLines = async (page: any): Promise<RulingLine[]> => {
+    const { pdfjsLib } = await import('./pdfConfig');
+    const { OPS } = pdfjsLib;
+    const viewport = page.getViewport({ scale: 1 });
+    const operatorList = await page.getOperatorList();
+    const fillOnly = new Set([OPS.fill, OPS.eoFill]);
+    const painting = new Set([
+        OPS.stroke, OPS.closeStroke, OPS.fill, OPS.eoFill,
+        OPS.fillStroke, OPS.eoFillStroke, OPS.closeFillStroke, OPS.closeEOFillStroke,
+    ]);
+    const lines: RulingLine[] = [];
+    const stack: Matrix[] = [];
+    let ctm: Matrix = [1, 0, 0, 1, 0, 0];
+
+    const toPage = (x: number, y: number): number[] =>
+        viewport.convertToViewportPoint(ctm[0] * x + ctm[2] * y + ctm[4], ctm[1] * x + ctm[3] * y + ctm[5]);
+
+    for (let i = 0; i < operatorList.fnArray.length; i++) {
+        const fn = operatorList.fnArray[i];
+        const args = operatorList.argsArray[i];
+
+        if (fn === OPS.save) {
+            stack.push(ctm);
+        } else if (fn === OPS.restore) {
+            ctm = stack.pop() ?? ctm;
+        } else if (fn === OPS.transform) {
+            ctm = multiply(ctm, Array.from(args) as Matrix);
+        } else if (fn === OPS.paintFormXObjectBegin) {
+            stack.push(ctm);
+            if (args[0]) ctm = multiply(ctm, Array.from(args[0]) as Matrix);
+        } else if (fn === OPS.paintFormXObjectEnd) {
+            ctm = stack.pop() ?? ctm;
+        } else if (fn === OPS.constructPath && painting.has(args[0]) && args[1]?.[0]) {
+            for (const subpath of readSubpaths(args[1][0])) {
+                const segments = subpath.segments.map(([x0, y0, x1, y1]) => [...toPage(x0, y0), ...toPage(x1, y1)]);
+                if (!fillOnly.has(args[0])) {
+                    lines.push(...segments.map(([x0, y0, x1, y1]) => ({ x0, y0, x1, y1 })));
+                    continue;
+                }
+
+                // A filled area is a border only when it is an upright rectangle
+                const upright = segments.every(([x0, y0, x1, y1]) => Math.abs(x1 - x0) < 0.5 || Math.abs(y1 - y0) < 0.5);
+                if (subpath.curved || segments.length < 3 || !upright) continue;
+                const xs = segments.flatMap(([x0, , x1]) => [x0, x1]);
+                const ys = segments.flatMap(([, y0, , y1]) => [y0, y1]);
+                lines.push(...rectangleToLines(Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)));
+            }
+        }
+    }
+
+    return lines;
+};
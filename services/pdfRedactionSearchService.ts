@@ -0,0 +1,372 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Search and redact — 100% client-side
+ * 1. Join each page's text items into lines, remembering which item every character came from
+ * 2. Find built-in patterns (emails, phone numbers, card numbers, IBANs, SSNs, dates),
+ *    custom regular expressions and word lists in the joined text
+ * 3. Turn each hit into rectangles in PDF user space, one per text item it spans,
+ *    ready for redactPDF
+ * 4. Write a CSV log of the page, pattern and bounding box of each redaction
+ */
+
+import { extractTextItemsFromDoc, type DetectedTextItem } from './pdfEditorService';
+import type { RedactionArea } from './pdfRedactionService';
+import { csvField } from '../utils/csv';
+import { escapeRegExp } from '../utils/escape';
+
+// ── Types ─────────────────────────────────────────
+
+export type RedactionPatternId = 'email' | 'phone' | 'creditCard' | 'iban' | 'ssn' | 'date';
+
+export interface RedactionSearchOptions {
+    patterns: RedactionPatternId[];
+    /** Regular expressions, one per entry */
+    expressions: string[];
+    /** Words or phrases, matched as whole words */
+    words: string[];
+    /** Match expressions and words case-sensitively */
+    matchCase: boolean;
+}
+
+export interface RedactionMatcher {
+    label: string;
+    regex: RegExp;
+    /** Extra check on the matched text, e.g. a checksum */
+    validate?: (text: string) => boolean;
+}
+
+/** A match in a page's joined text */
+export interface TextMatch {
+    start: number;
+    end: number;
+    pattern: string;
+}
+
+/** A rectangle in PDF user space (origin bottom-left of the MediaBox) */
+export interface HitRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface RedactionHit {
+    id: string;
+    pageIndex: number;
+    /** Label of the pattern that found the hit */
+    pattern: string;
+    text: string;
+    /** Text just before and after the hit, for review */
+    before: string;
+    after: string;
+    /** One rectangle per text item the hit spans */
+    rects: HitRect[];
+}
+
+interface PageText {
+    text: string;
+    /** The item and character index behind each character; null for inserted spaces and line breaks */
+    sources: Array<{ item: number; index: number } | null>;
+}
+
+// ── Constants ─────────────────────────────────────
+
+/**
+ * Extent of a hit below and above the baseline, in units of the font size:
+ * covers the glyphs without reaching into the lines above and below
+ */
+const HIT_DESCENT = -0.2;
+const HIT_ASCENT = 0.8;
+
+/** Items whose baselines differ by less than this (in font sizes) are on the same line */
+const SAME_LINE = 0.5;
+
+/** Items on a line closer than this (in font sizes) are parts of one word */
+const WORD_GAP = 0.15;
+
+/** Characters of context kept on each side of a hit */
+const CONTEXT_LENGTH = 24;
+
+const MONTHS = 'January|February|March|April|May|June|July|August|September|October|November|December|Jan|Feb|Mar|Apr|Jun|Jul|Aug|Sept?|Oct|Nov|Dec';
+
+// ── Checks ────────────────────────────────────────
+
+const digitsOf = (text: string): string => text.replace(/\D/g, '');
+
+/** Luhn checksum used by payment card numbers */
+export const luhnCheck = (digits: string): boolean => {
+    if (!/^\d+$/.test(digits)) return false;
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) digit -= 9;
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+};
+
+/** ISO 13616 check: move the country code and check digits to the end and take mod 97 */
+export const ibanCheck = (value: string): boolean => {
+    const iban = value.replace(/\s+/g, '').toUpperCase();
+    if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+
+    let remainder = 0;
+    for (const ch of iban.slice(4) + iban.slice(0, 4)) {
+        const code = ch >= 'A' ? ch.charCodeAt(0) - 55 : Number(ch);
+        remainder = (remainder * (code > 9 ? 100 : 10) + code) % 97;
+    }
+    return remainder === 1;
+};
+
+/** Reject digit groups that cannot be a day and month, e.g. 45/13/2020 */
+const plausibleDate = (text: string): boolean => {
+    const numbers = (text.match(/\d+/g) ?? []).map(Number);
+    if (/[a-z]/i.test(text)) return numbers[0] >= 1 && numbers[0] <= 31;
+
+    const [a, b, c] = numbers;
+    const dayMonth = (day: number, month: number) => day >= 1 && day <= 31 && month >= 1 && month <= 12;
+    if (String(a).length === 4 && /^\d{4}/.test(text)) return dayMonth(c, b);
+    return dayMonth(a, b) || dayMonth(b, a);
+};
+
+/** Phone numbers have 7 to 15 digits; undivided runs of digits need 10 to tell them from other numbers */
+const plausiblePhone = (text: string): boolean => {
+    const count = digitsOf(text).length;
+    return count >= 7 && count <= 15 && (count >= 10 || /[\s().+-]/.test(text));
+};
+
+// ── Patterns ──────────────────────────────────────
+
+/** Built-in patterns, in the order they claim text when several match the same characters */
+const BUILT_IN_PATTERNS: Record<RedactionPatternId, RedactionMatcher> = {
+    email: {
+        label: 'Email address',
+        regex: /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu,
+    },
+    iban: {
+        label: 'IBAN',
+        regex: /(?<![A-Z0-9])[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?(?![A-Z0-9])/g,
+        validate: ibanCheck,
+    },
+    creditCard: {
+        label: 'Credit card number',
+        regex: /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g,
+        validate: text => luhnCheck(digitsOf(text)),
+    },
+    ssn: {
+        label: 'US Social Security number',
+        regex: /(?<!\d)(?!000|666|9\d\d)\d{3}([- ])(?!00)\d{2}\1(?!0000)\d{4}(?!\d)/g,
+    },
+    date: {
+        label: 'Date',
+        regex: new RegExp(
+            '(?<![\\d./-])(?:\\d{4}[-./]\\d{1,2}[-./]\\d{1,2}|\\d{1,2}[-./]\\d{1,2}[-./](?:\\d{4}|\\d{2}))(?![-./]?\\d)' +
+            `|\\b\\d{1,2}(?:st|nd|rd|th)?\\.?\\s+(?:${MONTHS})\\.?,?\\s+\\d{4}\\b` +
+            `|\\b(?:${MONTHS})\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}\\b`,
+            'gi'
+        ),
+        validate: plausibleDate,
+    },
+    phone: {
+        label: 'Phone number',
+        regex: /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]?\d{2,4}){1,4}(?!\w)/g,
+        validate: plausiblePhone,
+    },
+};
+
+/** Built-in patterns for the options panel, in matching order */
+export const REDACTION_PATTERNS: Array<{ id: RedactionPatternId; label: string }> =
+    (Object.keys(BUILT_IN_PATTERNS) as RedactionPatternId[]).map(id => ({ id, label: BUILT_IN_PATTERNS[id].label }));
+
+/**
+ * Build the matchers for a search: the chosen built-in patterns, then each
+ * expression, then the word list
+ * @throws Error naming the first expression that is not a valid regular expression
+ */
+export const compileMatchers = (options: RedactionSearchOptions): RedactionMatcher[] => {
+    const matchers = (Object.keys(BUILT_IN_PATTERNS) as RedactionPatternId[])
+        .filter(id => options.patterns.includes(id))
+        .map(id => BUILT_IN_PATTERNS[id]);
+
+    for (const source of options.expressions.map(entry => entry.trim()).filter(Boolean)) {
+        try {
+            matchers.push({ label: `/${source}/`, regex: new RegExp(source, options.matchCase ? 'g' : 'gi') });
+        } catch (err) {
+            throw new Error(`"${source}" is not a valid regular expression: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        }
+    }
+
+    // Longest first, so a phrase wins over a word it starts with
+    const words = [...new Set(options.words.map(entry => entry.trim()).filter(Boolean))]
+        .sort((a, b) => b.length - a.length)
+        .map(word => word.split(/\s+/).map(escapeRegExp).join('\\s+'));
+    if (words.length > 0) {
+        matchers.push({
+            label: 'Word list',
+            regex: new RegExp(`(?<![\\p{L}\\p{N}])(?:${words.join('|')})(?![\\p{L}\\p{N}])`, options.matchCase ? 'gu' : 'giu'),
+        });
+    }
+
+    return matchers;
+};
+
+// ── Matching ──────────────────────────────────────
+
+/**
+ * Find every match in a text. Matchers are tried in order and a match that
+ * overlaps one found earlier is dropped, so each character is claimed once.
+ */
+export const findMatches = (text: string, matchers: RedactionMatcher[]): TextMatch[] => {
+    const matches: TextMatch[] = [];
+
+    for (const matcher of matchers) {
+        for (const match of text.matchAll(matcher.regex)) {
+            let start = match.index ?? 0;
+            let end = start + match[0].length;
+            while (start < end && /\s/.test(text[start])) start++;
+            while (end > start && /\s/.test(text[end - 1])) end--;
+            if (start === end) continue;
+            if (matcher.validate && !matcher.validate(text.slice(start, end))) continue;
+            if (matches.some(other => start < other.end && end > other.start)) continue;
+            matches.push({ start, end, pattern: matcher.label });
+        }
+    }
+
+    return matches.sort((a, b) => a.start - b.start);
+};
+
+/** Join a page's items in reading order, with spaces between words and line breaks between lines */
+const joinPageText = (items: DetectedTextItem[]): PageText => {
+    let text = '';
+    const sources: PageText['sources'] = [];
+
+    items.forEach((item, itemIndex) => {
+        const previous = items[itemIndex - 1];
+        if (previous && !/\s$/.test(previous.text)) {
+            const [a, b, , , e, f] = previous.transform;
+            const size = Math.hypot(a, b) || 1;
+            const [ux, uy] = [a / size, b / size];
+            const [dx, dy] = [item.transform[4] - e, item.transform[5] - f];
+            const gap = dx * ux + dy * uy - previous.width;
+            const sameLine = Math.abs(dy * ux - dx * uy) < SAME_LINE * size && gap > -SAME_LINE * size;
+            const separator = !sameLine ? '\n' : gap > WORD_GAP * size && !/^\s/.test(item.text) ? ' ' : '';
+            if (separator) {
+                text += separator;
+                sources.push(null);
+            }
+        }
+
+        for (let index = 0; index < item.text.length; index++) {
+            sources.push({ item: itemIndex, index });
+        }
+        text += item.text;
+    });
+
+    return { text, sources };
+};
+
+/** The box around characters [from, to) of an item, estimating equal character widths */
+const itemRect = (item: DetectedTextItem, from: number, to: number): HitRect => {
+    const [a, b, c, d, e, f] = item.transform;
+    const length = Math.hypot(a, b) || 1;
+    const step = item.width / item.text.length;
+
+    const corners = [from * step, to * step].flatMap(along => [HIT_DESCENT, HIT_ASCENT].map(up => ({
+        x: e + (a / length) * along + c * up,
+        y: f + (b / length) * along + d * up,
+    })));
+    const xs = corners.map(p => p.x);
+    const ys = corners.map(p => p.y);
+    return {
+        x: Math.min(...xs),
+        y: Math.min(...ys),
+        width: Math.max(...xs) - Math.min(...xs),
+        height: Math.max(...ys) - Math.min(...ys),
+    };
+};
+
+/** Rectangles covering a match, one per item it touches */
+const matchRects = (page: PageText, items: DetectedTextItem[], match: TextMatch): HitRect[] => {
+    const spans = new Map<number, { from: number; to: number }>();
+    for (const source of page.sources.slice(match.start, match.end)) {
+        if (!source) continue;
+        const span = spans.get(source.item);
+        spans.set(source.item, {
+            from: Math.min(span?.from ?? source.index, source.index),
+            to: Math.max(span?.to ?? 0, source.index + 1),
+        });
+    }
+    return [...spans].map(([item, span]) => itemRect(items[item], span.from, span.to));
+};
+
+const contextText = (text: string): string => text.replace(/\s+/g, ' ');
+
+/**
+ * Find the hits of a search on every page of a document loaded with pdf.js
+ * @throws Error if an expression is invalid or the search is cancelled
+ */
+export const findRedactionHits = async (
+    doc: any,
+    options: RedactionSearchOptions,
+    onProgress?: (progress: number, status: string) => void,
+    abortSignal?: { current: boolean }
+): Promise<RedactionHit[]> => {
+    const matchers = compileMatchers(options);
+    if (matchers.length === 0) return [];
+
+    const hits: RedactionHit[] = [];
+    for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+        if (abortSignal?.current) throw new Error('Search cancelled');
+        onProgress?.(((pageNumber - 1) / doc.numPages) * 100, `Searching page ${pageNumber} of ${doc.numPages}...`);
+
+        // Scale 1 keeps item widths in PDF units
+        const items: DetectedTextItem[] = await extractTextItemsFromDoc(doc, pageNumber, 1);
+        const page = joinPageText(items);
+
+        findMatches(page.text, matchers).forEach((match, index) => {
+            hits.push({
+                id: `hit-${pageNumber}-${index}`,
+                pageIndex: pageNumber - 1,
+                pattern: match.pattern,
+                text: page.text.slice(match.start, match.end),
+                before: contextText(page.text.slice(Math.max(0, match.start - CONTEXT_LENGTH), match.start)),
+                after: contextText(page.text.slice(match.end, match.end + CONTEXT_LENGTH)),
+                rects: matchRects(page, items, match),
+            });
+        });
+    }
+
+    onProgress?.(100, `Found ${hits.length} match${hits.length !== 1 ? 'es' : ''}`);
+    return hits;
+};
+
+// ── Output ────────────────────────────────────────
+
+/** The areas to redact for the accepted hits */
+export const hitsToRedactionAreas = (hits: RedactionHit[], fillColor: string, label: string): RedactionArea[] =>
+    hits.flatMap(hit => hit.rects.map(rect => ({ pageIndex: hit.pageIndex, ...rect, fillColor, label })));
+
+/**
+ * CSV log of redacted hits: page, pattern and bounding box in PDF points.
+ * The matched text is left out so the log does not repeat what was removed.
+ */
+export const redactionLogToCSV = (hits: RedactionHit[]): string => {
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const rows: Array<Array<string | number>> = [['Page', 'Pattern', 'X', 'Y', 'Width', 'Height']];
+
+    for (const hit of hits) {
+        if (hit.rects.length === 0) continue;
+        const left = Math.min(...hit.rects.map(rect => rect.x));
+        const bottom = Math.min(...hit.rects.map(rect => rect.y));
+        const right = Math.max(...hit.rects.map(rect => rect.x + rect.width));
+        const top = Math.max(...hit.rects.map(rect => rect.y + rect.height));
+        rows.push([hit.pageIndex + 1, hit.pattern, round(left), round(bottom), round(right - left), round(top - bottom)]);
+    }
+
+    return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,1647 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * PDF redaction — 100% client-side
+ * 1. Rewrite each page's content streams, dropping glyphs, vector paths and
+ *    image pixels that fall inside the redaction areas (form XObjects included)
+ * 2. Remove annotations over the areas and scrub the redacted words from the
+ *    remaining annotations, bookmark titles, form field values and the document metadata
+ * 3. Paint the areas with a fill and optional label, then drop every object
+ *    nothing refers to any more, so the original content is not saved
+ * 4. Re-extract the text of the saved file to prove nothing is left behind
+ */
+
+import {
+    PDFArray,
+    PDFBool,
+    PDFContext,
+    PDFDict,
+    PDFDocument,
+    PDFHexString,
+    PDFName,
+    PDFNumber,
+    PDFObject,
+    PDFPage,
+    PDFRawStream,
+    PDFRef,
+    PDFStream,
+    PDFString,
+    StandardFontEmbedder,
+    StandardFonts,
+    degrees,
+    rgb,
+} from 'pdf-lib';
+import {
+    ContentOperand,
+    ContentOperation,
+    IDENTITY_MATRIX,
+    Matrix,
+    decodeStreamContents,
+    getPageContentBytes,
+    lookupXObject,
+    multiplyMatrix,
+    operandNumber,
+    parseContentStream,
+    serializeContentStream,
+} from './pdfContentStream';
+import { decodeImagePixels, rasterizeImage, readImageXObject, RawImage } from './pdfImageCodec';
+import { getPageFrame, isolateExistingContent, toDisplaySpace, toUserSpace } from './pdfGeometry';
+import { readXmpPacket } from './pdfMetadataService';
+import { hexToRgb } from './pdfEditorService';
+import { loadPDFDocument } from './pdfService';
+import { escapeRegExp, escapeXml } from '../utils/escape';
+
+// ── Types ─────────────────────────────────────────
+
+/** An area to redact, in PDF user space (origin bottom-left of the MediaBox) */
+export interface RedactionArea {
+    pageIndex: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    /** Hex colour painted over the area */
+    fillColor: string;
+    /** Text printed on the fill, e.g. "REDACTED"; empty for none */
+    label: string;
+}
+
+export interface RedactionResult {
+    /** Text removed from the pages, one entry per run of adjacent glyphs */
+    removedText: string[];
+    removedPaths: number;
+    /** Images dropped entirely (inside an area, or in an encoding we cannot edit) */
+    removedImages: number;
+    /** Images kept with the pixels under an area painted over */
+    editedImages: number;
+    removedAnnotations: number;
+}
+
+export interface RedactionLeak {
+    pageNumber: number;
+    where: 'page' | 'annotation' | 'outline' | 'form' | 'structure' | 'metadata';
+    text: string;
+}
+
+interface Box {
+    left: number;
+    bottom: number;
+    right: number;
+    top: number;
+}
+
+// ── Constants ─────────────────────────────────────
+
+/** Glyph extent below and above the baseline, in units of the font size */
+const GLYPH_DESCENT = -0.25;
+const GLYPH_ASCENT = 0.9;
+
+/** Zero-width glyphs (accents, spaces in some fonts) still get a sliver of area */
+const MIN_GLYPH_WIDTH = 0.05;
+
+/** Overlaps thinner than this (in points) are glyphs that merely touch an area */
+const OVERLAP_EPSILON = 0.01;
+
+/** Shorter words are too common to scrub from annotations, bookmarks, form fields and metadata */
+const MIN_TERM_LENGTH = 3;
+
+const MAX_FORM_DEPTH = 8;
+/** Guards against cyclic outline, field and structure trees in malformed files */
+const MAX_TREE_DEPTH = 64;
+/** Title left on a bookmark whose whole title was redacted */
+const REDACTED_TITLE = 'Redacted';
+
+const PATH_OPERATORS = new Set(['m', 'l', 'c', 'v', 'y', 'h', 're']);
+const PAINT_OPERATORS = new Set(['S', 's', 'f', 'F', 'f*', 'B', 'B*', 'b', 'b*', 'n']);
+const STROKE_OPERATORS = new Set(['S', 's', 'B', 'B*', 'b', 'b*']);
+
+/** Marked-content properties that carry a replacement text for what they enclose */
+const MARKED_TEXT_KEYS = ['ActualText', 'Alt', 'E'];
+/** Structure element entries that can be read out, as alternate text or by a screen reader */
+const STRUCTURE_TEXT_KEYS = [...MARKED_TEXT_KEYS, 'T'];
+/** Extent of a shading that is neither clipped nor bounded; it fills the page */
+const UNBOUNDED_BOX: Box = { left: -1e5, bottom: -1e5, right: 1e5, top: 1e5 };
+
+const STANDARD_14 = new Set<string>(Object.values(StandardFonts));
+
+/** WinAnsiEncoding code points that differ from Latin-1 */
+const WIN_ANSI_HIGH: Record<number, number> = {
+    0x80: 0x20ac, 0x82: 0x201a, 0x83: 0x0192, 0x84: 0x201e, 0x85: 0x2026, 0x86: 0x2020, 0x87: 0x2021,
+    0x88: 0x02c6, 0x89: 0x2030, 0x8a: 0x0160, 0x8b: 0x2039, 0x8c: 0x0152, 0x8e: 0x017d, 0x91: 0x2018,
+    0x92: 0x2019, 0x93: 0x201c, 0x94: 0x201d, 0x95: 0x2022, 0x96: 0x2013, 0x97: 0x2014, 0x98: 0x02dc,
+    0x99: 0x2122, 0x9a: 0x0161, 0x9b: 0x203a, 0x9c: 0x0153, 0x9e: 0x017e, 0x9f: 0x0178,
+};
+
+// ── Geometry ──────────────────────────────────────
+
+const transformPoint = (m: Matrix, x: number, y: number): { x: number; y: number } => ({
+    x: m[0] * x + m[2] * y + m[4],
+    y: m[1] * x + m[3] * y + m[5],
+});
+
+const boxOfPoints = (points: Array<{ x: number; y: number }>): Box => ({
+    left: Math.min(...points.map(p => p.x)),
+    bottom: Math.min(...points.map(p => p.y)),
+    right: Math.max(...points.map(p => p.x)),
+    top: Math.max(...points.map(p => p.y)),
+});
+
+/** Bounds of the rectangle (x0,y0)-(x1,y1) after transforming it by m */
+const transformBox = (m: Matrix, x0: number, y0: number, x1: number, y1: number): Box =>
+    boxOfPoints([transformPoint(m, x0, y0), transformPoint(m, x1, y0), transformPoint(m, x0, y1), transformPoint(m, x1, y1)]);
+
+const overlaps = (a: Box, b: Box): boolean =>
+    Math.min(a.right, b.right) - Math.max(a.left, b.left) > OVERLAP_EPSILON &&
+    Math.min(a.top, b.top) - Math.max(a.bottom, b.bottom) > OVERLAP_EPSILON;
+
+const contains = (outer: Box, inner: Box): boolean =>
+    outer.left <= inner.left && outer.bottom <= inner.bottom && outer.right >= inner.right && outer.top >= inner.top;
+
+/** The common part of two boxes; a null box is unbounded */
+const intersectBoxes = (a: Box | null, b: Box): Box => a ? {
+    left: Math.max(a.left, b.left),
+    bottom: Math.max(a.bottom, b.bottom),
+    right: Math.min(a.right, b.right),
+    top: Math.min(a.top, b.top),
+} : b;
+
+const unionBoxes = (a: Box, b: Box): Box => ({
+    left: Math.min(a.left, b.left),
+    bottom: Math.min(a.bottom, b.bottom),
+    right: Math.max(a.right, b.right),
+    top: Math.max(a.top, b.top),
+});
+
+const padBox = (box: Box, pad: number): Box =>
+    ({ left: box.left - pad, bottom: box.bottom - pad, right: box.right + pad, top: box.top + pad });
+
+const invertMatrix = (m: Matrix): Matrix | null => {
+    const det = m[0] * m[3] - m[1] * m[2];
+    if (Math.abs(det) < 1e-12) return null;
+    return [
+        m[3] / det, -m[1] / det, -m[2] / det, m[0] / det,
+        (m[2] * m[5] - m[3] * m[4]) / det, (m[1] * m[4] - m[0] * m[5]) / det,
+    ];
+};
+
+const readMatrix = (array: PDFArray | undefined): Matrix =>
+    array && array.size() === 6
+        ? (array.asArray().map(v => (v instanceof PDFNumber ? v.asNumber() : 0)) as Matrix)
+        : IDENTITY_MATRIX;
+
+const readRectangle = (array: PDFArray | undefined): Box | null => {
+    if (!array || array.size() !== 4) return null;
+    const [x0, y0, x1, y1] = array.asArray().map(v => (v instanceof PDFNumber ? v.asNumber() : 0));
+    return { left: Math.min(x0, x1), bottom: Math.min(y0, y1), right: Math.max(x0, x1), top: Math.max(y0, y1) };
+};
+
+const areaBox = (area: RedactionArea): Box => ({
+    left: Math.min(area.x, area.x + area.width),
+    bottom: Math.min(area.y, area.y + area.height),
+    right: Math.max(area.x, area.x + area.width),
+    top: Math.max(area.y, area.y + area.height),
+});
+
+// ── Fonts ─────────────────────────────────────────
+
+/** What we need to know about a font to place and read its glyphs */
+interface FontInfo {
+    bytesPerCode: 1 | 2;
+    /** Horizontal advance of a glyph, in units of the font size */
+    width: (code: number) => number;
+    toText: (code: number) => string;
+}
+
+const DEFAULT_FONT: FontInfo = {
+    bytesPerCode: 1,
+    width: () => 0.5,
+    toText: code => String.fromCharCode(code),
+};
+
+const numberOf = (obj: PDFObject | undefined): number | undefined =>
+    obj instanceof PDFNumber ? obj.asNumber() : undefined;
+
+const utf16BEToString = (bytes: Uint8Array): string => {
+    let out = '';
+    for (let i = 0; i + 1 < bytes.length; i += 2) out += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+    return out;
+};
+
+const bytesToCode = (bytes: Uint8Array): number => bytes.reduce((code, b) => code * 256 + b, 0);
+
+/** Read the bfchar and bfrange mappings of a ToUnicode CMap */
+const parseToUnicode = (stream: PDFStream): Map<number, string> => {
+    const map = new Map<number, string>();
+    let ops: ContentOperation[];
+    try {
+        ops = parseContentStream(decodeStreamContents(stream));
+    } catch {
+        return map;
+    }
+
+    for (const op of ops) {
+        const args = op.operands;
+        if (op.operator === 'endbfchar') {
+            for (let i = 0; i + 1 < args.length; i += 2) {
+                const src = args[i];
+                const dst = args[i + 1];
+                if (src.type === 'string' && dst.type === 'string') {
+                    map.set(bytesToCode(src.value), utf16BEToString(dst.value));
+                }
+            }
+        } else if (op.operator === 'endbfrange') {
+            for (let i = 0; i + 2 < args.length; i += 3) {
+                const lo = args[i];
+                const hi = args[i + 1];
+                const dst = args[i + 2];
+                if (lo.type !== 'string' || hi.type !== 'string') continue;
+                const first = bytesToCode(lo.value);
+                const last = Math.min(bytesToCode(hi.value), first + 0xffff);
+
+                if (dst.type === 'array') {
+                    dst.items.forEach((item, k) => {
+                        if (item.type === 'string' && first + k <= last) map.set(first + k, utf16BEToString(item.value));
+                    });
+                } else if (dst.type === 'string' && dst.value.length >= 2) {
+                    const base = utf16BEToString(dst.value);
+                    const lastUnit = base.charCodeAt(base.length - 1);
+                    for (let code = first; code <= last; code++) {
+                        map.set(code, base.slice(0, -1) + String.fromCharCode(lastUnit + code - first));
+                    }
+                }
+            }
+        }
+    }
+    return map;
+};
+
+/** Width lookup for a standard 14 font that has no /Widths array */
+const standardFontWidth = (baseFont: string): ((code: number) => number) | undefined => {
+    const name = baseFont.replace(/^[A-Z]{6}\+/, '');
+    if (!STANDARD_14.has(name)) return undefined;
+    const embedder = StandardFontEmbedder.for(name as Parameters<typeof StandardFontEmbedder.for>[0]);
+    return (code: number) => {
+        try {
+            return embedder.widthOfTextAtSize(winAnsiToText(code), 1);
+        } catch {
+            return 0.5;
+        }
+    };
+};
+
+const winAnsiToText = (code: number): string => String.fromCharCode(WIN_ANSI_HIGH[code] ?? code);
+
+const loadFontInfo = (font: PDFDict): FontInfo => {
+    const subtype = font.lookup(PDFName.of('Subtype'));
+    const toUnicodeStream = font.lookup(PDFName.of('ToUnicode'));
+    const toUnicode = toUnicodeStream instanceof PDFStream ? parseToUnicode(toUnicodeStream) : undefined;
+
+    if (subtype === PDFName.of('Type0')) {
+        const descendant = font.lookupMaybe(PDFName.of('DescendantFonts'), PDFArray)?.lookup(0);
+        const widths = new Map<number, number>();
+        let defaultWidth = 1000;
+
+        if (descendant instanceof PDFDict) {
+            defaultWidth = numberOf(descendant.lookup(PDFName.of('DW'))) ?? 1000;
+            const w = descendant.lookupMaybe(PDFName.of('W'), PDFArray);
+            // [first [w1 w2 ...]] or [first last w]
+            for (let i = 0; w && i < w.size();) {
+                const first = numberOf(w.lookup(i)) ?? 0;
+                const next = w.lookup(i + 1);
+                if (next instanceof PDFArray) {
+                    next.asArray().forEach((value, k) => widths.set(first + k, numberOf(value) ?? defaultWidth));
+                    i += 2;
+                } else {
+                    const last = Math.min(numberOf(next) ?? first, first + 0xffff);
+                    const value = numberOf(w.lookup(i + 2)) ?? defaultWidth;
+                    for (let code = first; code <= last; code++) widths.set(code, value);
+                    i += 3;
+                }
+            }
+        }
+
+        return {
+            bytesPerCode: 2,
+            width: code => (widths.get(code) ?? defaultWidth) / 1000,
+            toText: code => toUnicode?.get(code) ?? '',
+        };
+    }
+
+    const firstChar = numberOf(font.lookup(PDFName.of('FirstChar'))) ?? 0;
+    const widthsArray = font.lookupMaybe(PDFName.of('Widths'), PDFArray);
+    const descriptor = font.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict);
+    const missingWidth = numberOf(descriptor?.lookup(PDFName.of('MissingWidth')));
+    // Type 3 glyph widths are in glyph space, scaled by the font matrix rather than 1/1000
+    const unitsPerEm = subtype === PDFName.of('Type3')
+        ? readMatrix(font.lookupMaybe(PDFName.of('FontMatrix'), PDFArray))[0]
+        : 0.001;
+    const baseFont = font.lookup(PDFName.of('BaseFont'));
+    const standardWidth = !widthsArray && baseFont instanceof PDFName ? standardFontWidth(baseFont.decodeText()) : undefined;
+
+    return {
+        bytesPerCode: 1,
+        width: code => {
+            const width = numberOf(widthsArray?.lookup(code - firstChar));
+            if (width !== undefined) return width * unitsPerEm;
+            if (standardWidth) return standardWidth(code);
+            return missingWidth !== undefined ? missingWidth * unitsPerEm : 0.5;
+        },
+        toText: code => toUnicode?.get(code) ?? winAnsiToText(code),
+    };
+};
+
+// ── Content Rewriting ─────────────────────────────
+
+interface TextState {
+    font: FontInfo;
+    fontSize: number;
+    charSpacing: number;
+    wordSpacing: number;
+    horizontalScale: number;
+    leading: number;
+    rise: number;
+}
+
+interface GraphicsState {
+    ctm: Matrix;
+    /** Device-space bounds of the clipping path, or null while unclipped */
+    clip: Box | null;
+    lineWidth: number;
+    text: TextState;
+}
+
+/** A run of removed glyphs, with where it ended so the next glyph can join it */
+interface RemovedRun {
+    text: string;
+    end: { x: number; y: number };
+    size: number;
+}
+
+/** Shared state for one redaction pass over a document */
+interface RedactionContext {
+    pdf: PDFDocument;
+    fill: { r: number; g: number; b: number };
+    fonts: Map<PDFDict, FontInfo>;
+    runs: RemovedRun[];
+    /** Marked-content sequences that lost content, by the StructParents of the page or form drawing them */
+    markedContent: Array<{ structParents: number; mcid: number }>;
+    result: RedactionResult;
+}
+
+/** A resource dictionary whose XObjects we may change, cloned on first write so shared dictionaries stay intact */
+interface ResourceHolder {
+    dict: PDFDict | undefined;
+    addXObject: (ref: PDFRef, prefix: string) => string;
+    removeXObject: (name: string) => void;
+}
+
+const createResourceHolder = (context: PDFContext, dict: PDFDict | undefined, attach: (dict: PDFDict) => void): ResourceHolder => {
+    let own: PDFDict | undefined;
+    const ownXObjects = (): PDFDict => {
+        if (!own) {
+            own = dict ? dict.clone(context) : context.obj({});
+            const xObjects = own.lookupMaybe(PDFName.of('XObject'), PDFDict);
+            own.set(PDFName.of('XObject'), xObjects ? xObjects.clone(context) : context.obj({}));
+            holder.dict = own;
+            attach(own);
+        }
+        return own.lookup(PDFName.of('XObject'), PDFDict);
+    };
+    const holder: ResourceHolder = {
+        dict,
+        addXObject: (ref, prefix) => {
+            const xObjects = ownXObjects();
+            let n = 1;
+            while (xObjects.has(PDFName.of(`${prefix}${n}`))) n++;
+            xObjects.set(PDFName.of(`${prefix}${n}`), ref);
+            return `${prefix}${n}`;
+        },
+        removeXObject: name => {
+            ownXObjects().delete(PDFName.of(name));
+        },
+    };
+    return holder;
+};
+
+const fontInfoFor = (ctx: RedactionContext, resources: PDFDict | undefined, name: string): FontInfo => {
+    const fonts = resources?.lookupMaybe(PDFName.of('Font'), PDFDict);
+    const font = fonts?.lookupMaybe(PDFName.of(name), PDFDict);
+    if (!font) return DEFAULT_FONT;
+
+    let info = ctx.fonts.get(font);
+    if (!info) {
+        info = loadFontInfo(font);
+        ctx.fonts.set(font, info);
+    }
+    return info;
+};
+
+/** Note a removed glyph, joining it to the previous run when it directly follows it */
+const recordRemovedGlyph = (ctx: RedactionContext, text: string, trm: Matrix, width: number): void => {
+    const start = transformPoint(trm, 0, 0);
+    const end = transformPoint(trm, width, 0);
+    const size = Math.hypot(trm[2], trm[3]);
+    const last = ctx.runs[ctx.runs.length - 1];
+
+    if (last) {
+        const gap = Math.hypot(start.x - last.end.x, start.y - last.end.y);
+        if (gap < 0.15 * last.size) {
+            last.text += text;
+            last.end = end;
+            return;
+        }
+        if (gap < last.size) {
+            last.text += ' ' + text;
+            last.end = end;
+            return;
+        }
+    }
+    ctx.runs.push({ text, end, size });
+};
+
+/** Pixel bounds of an image covered by the areas, for an image drawn with the given CTM */
+const coveredPixels = (ctm: Matrix, areas: Box[], width: number, height: number): Box[] => {
+    const inverse = invertMatrix(ctm);
+    if (!inverse) return [];
+    return areas.map(area => {
+        const unit = transformBox(inverse, area.left, area.bottom, area.right, area.top);
+        // Image space has its origin at the bottom-left; pixel rows start at the top
+        return {
+            left: Math.max(0, Math.floor(unit.left * width)),
+            right: Math.min(width, Math.ceil(unit.right * width)),
+            bottom: Math.max(0, Math.floor((1 - unit.top) * height)),
+            top: Math.min(height, Math.ceil((1 - unit.bottom) * height)),
+        };
+    });
+};
+
+const paintPixels = (raw: RawImage, regions: Box[], color: [number, number, number, number]): void => {
+    for (const region of regions) {
+        for (let y = region.bottom; y < region.top; y++) {
+            for (let x = region.left; x < region.right; x++) {
+                raw.data.set(color, (y * raw.width + x) * 4);
+            }
+        }
+    }
+};
+
+const decodeOrRasterize = async (context: PDFContext, ref: PDFRef, stream: PDFRawStream): Promise<RawImage | null> => {
+    const image = readImageXObject(context, ref, stream);
+    if (!image) return null;
+
+    const raw = decodeImagePixels(image);
+    if (raw) return raw;
+
+    const canvas = await rasterizeImage(image, image.width, image.height);
+    const canvasContext = canvas?.getContext('2d');
+    if (!canvas || !canvasContext) return null;
+    const { data } = canvasContext.getImageData(0, 0, canvas.width, canvas.height);
+    canvas.width = 0;
+    canvas.height = 0;
+    return { width: image.width, height: image.height, data };
+};
+
+const pixelsToStream = (context: PDFContext, raw: RawImage, components: 1 | 3): PDFRawStream => {
+    const samples = new Uint8Array(raw.width * raw.height * components);
+    for (let i = 0, o = 0; i < raw.data.length; i += 4) {
+        samples[o++] = raw.data[i];
+        if (components === 3) {
+            samples[o++] = raw.data[i + 1];
+            samples[o++] = raw.data[i + 2];
+        }
+    }
+    return context.flateStream(samples, {
+        Type: 'XObject',
+        Subtype: 'Image',
+        Width: raw.width,
+        Height: raw.height,
+        ColorSpace: components === 3 ? 'DeviceRGB' : 'DeviceGray',
+        BitsPerComponent: 8,
+    });
+};
+
+/** Decode an explicit stencil mask into opaque white where the image is painted and black where it is masked out */
+const decodeStencilMask = (stream: PDFRawStream): RawImage | null => {
+    const { dict } = stream;
+    const width = numberOf(dict.lookup(PDFName.of('Width'))) ?? 0;
+    const height = numberOf(dict.lookup(PDFName.of('Height'))) ?? 0;
+    if (width <= 0 || height <= 0) return null;
+
+    let bits: Uint8Array;
+    try {
+        bits = decodeStreamContents(stream);
+    } catch {
+        return null;
+    }
+    const stride = Math.ceil(width / 8);
+    if (bits.length < stride * height) return null;
+
+    // 0 marks a painted sample, unless a Decode of [1 0] swaps them
+    const decode = dict.lookupMaybe(PDFName.of('Decode'), PDFArray);
+    const paintedBit = numberOf(decode?.lookup(0)) === 1 ? 1 : 0;
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const bit = (bits[y * stride + (x >> 3)] >> (7 - (x & 7))) & 1;
+            const value = bit === paintedBit ? 255 : 0;
+            data.set([value, value, value, 255], (y * width + x) * 4);
+        }
+    }
+    return { width, height, data };
+};
+
+/**
+ * Copy an image with the pixels under the areas painted in the fill colour.
+ * Its mask is made opaque there too, so the mask cannot trace the outline of what was removed.
+ * @returns The new image, or null if the image or its mask cannot be edited here
+ */
+const paintOverImage = async (ctx: RedactionContext, ref: PDFRef, stream: PDFRawStream, ctm: Matrix, areas: Box[]): Promise<PDFRef | null> => {
+    const { context } = ctx.pdf;
+    const { dict } = stream;
+    // A stencil mask has no pixels of its own to paint, only a shape
+    const imageMask = dict.lookup(PDFName.of('ImageMask'));
+    if (imageMask instanceof PDFBool && imageMask.asBoolean()) return null;
+
+    const raw = await decodeOrRasterize(context, ref, stream);
+    if (!raw) return null;
+
+    const fill: [number, number, number, number] = [Math.round(ctx.fill.r * 255), Math.round(ctx.fill.g * 255), Math.round(ctx.fill.b * 255), 255];
+    paintPixels(raw, coveredPixels(ctm, areas, raw.width, raw.height), fill);
+    const replacement = pixelsToStream(context, raw, 3);
+
+    const interpolate = dict.get(PDFName.of('Interpolate'));
+    if (interpolate) replacement.dict.set(PDFName.of('Interpolate'), interpolate);
+
+    const smaskRef = dict.get(PDFName.of('SMask'));
+    const smask = dict.lookup(PDFName.of('SMask'));
+    const mask = dict.lookup(PDFName.of('Mask'));
+    if (smaskRef instanceof PDFRef && smask instanceof PDFRawStream) {
+        // A soft mask overrides /Mask
+        const alpha = await decodeOrRasterize(context, smaskRef, smask);
+        if (alpha) {
+            paintPixels(alpha, coveredPixels(ctm, areas, alpha.width, alpha.height), [255, 255, 255, 255]);
+            replacement.dict.set(PDFName.of('SMask'), context.register(pixelsToStream(context, alpha, 1)));
+        }
+        // An undecodable mask is dropped; the image is then drawn opaque
+    } else if (mask instanceof PDFArray) {
+        // Colour-key ranges are in the original sample values, which only an 8-bit RGB image keeps as they are
+        const rgb8 = dict.lookup(PDFName.of('ColorSpace')) === PDFName.of('DeviceRGB') &&
+            numberOf(dict.lookup(PDFName.of('BitsPerComponent'))) === 8;
+        const fillKeyed = fill.slice(0, 3).every((value, c) =>
+            value >= (numberOf(mask.lookup(c * 2)) ?? 0) && value <= (numberOf(mask.lookup(c * 2 + 1)) ?? -1));
+        if (!rgb8 || fillKeyed) return null;
+        replacement.dict.set(PDFName.of('Mask'), mask.clone());
+    } else if (mask instanceof PDFRawStream) {
+        const stencil = decodeStencilMask(mask);
+        if (!stencil) return null;
+        paintPixels(stencil, coveredPixels(ctm, areas, stencil.width, stencil.height), [255, 255, 255, 255]);
+        replacement.dict.set(PDFName.of('SMask'), context.register(pixelsToStream(context, stencil, 1)));
+    }
+
+    return context.register(replacement);
+};
+
+/** Redact a show-text operation; returns the replacement TJ operand, or null if nothing was removed */
+const redactShownText = (
+    ctx: RedactionContext,
+    items: ContentOperand[],
+    gs: GraphicsState,
+    tm: { current: Matrix },
+    areas: Box[]
+): ContentOperand | null => {
+    const { font, fontSize: fs, charSpacing: tc, wordSpacing: tw, horizontalScale: th, rise } = gs.text;
+    const glyphMatrix: Matrix = [fs * th, 0, 0, fs, 0, rise];
+    const out: ContentOperand[] = [];
+    let removed = false;
+
+    const pushNumber = (value: number) => {
+        const last = out[out.length - 1];
+        if (last && last.type === 'number') last.value += value;
+        else out.push({ type: 'number', value });
+    };
+    const pushBytes = (bytes: Uint8Array, hex: boolean) => {
+        const last = out[out.length - 1];
+        if (last && last.type === 'string' && last.hex === hex) {
+            const joined = new Uint8Array(last.value.length + bytes.length);
+            joined.set(last.value);
+            joined.set(bytes, last.value.length);
+            last.value = joined;
+        } else {
+            out.push({ type: 'string', value: bytes, hex });
+        }
+    };
+
+    for (const item of items) {
+        if (item.type === 'number') {
+            tm.current = multiplyMatrix([1, 0, 0, 1, (-item.value / 1000) * fs * th, 0], tm.current);
+            pushNumber(item.value);
+            continue;
+        }
+        if (item.type !== 'string') continue;
+
+        const { value: bytes } = item;
+        for (let i = 0; i + font.bytesPerCode <= bytes.length; i += font.bytesPerCode) {
+            const codeBytes = bytes.subarray(i, i + font.bytesPerCode);
+            const code = bytesToCode(codeBytes);
+            const width = font.width(code);
+            const trm = multiplyMatrix(glyphMatrix, multiplyMatrix(tm.current, gs.ctm));
+            const box = transformBox(trm, 0, GLYPH_DESCENT, Math.max(width, MIN_GLYPH_WIDTH), GLYPH_ASCENT);
+            const advance = (width * fs + tc + (font.bytesPerCode === 1 && code === 32 ? tw : 0)) * th;
+
+            if (areas.some(area => overlaps(box, area))) {
+                removed = true;
+                recordRemovedGlyph(ctx, font.toText(code), trm, width);
+                // Keep the following glyphs where they were by moving on by the removed glyph's advance
+                if (fs * th !== 0) pushNumber((-advance * 1000) / (fs * th));
+            } else {
+                pushBytes(codeBytes, item.hex);
+            }
+            tm.current = multiplyMatrix([1, 0, 0, 1, advance, 0], tm.current);
+        }
+    }
+
+    return removed ? { type: 'array', items: out } : null;
+};
+
+const lookupShading = (resources: PDFDict | undefined, name: string): PDFDict | undefined => {
+    const shading = resources?.lookupMaybe(PDFName.of('Shading'), PDFDict)?.lookup(PDFName.of(name));
+    // Mesh shadings (types 4-7) are streams
+    if (shading instanceof PDFStream) return shading.dict;
+    return shading instanceof PDFDict ? shading : undefined;
+};
+
+/** The MCID of a BDC operation, from its inline properties or the named property list they refer to */
+const markedContentId = (properties: ContentOperand | undefined, resources: PDFDict | undefined): number | undefined => {
+    if (properties?.type === 'dict') {
+        const mcid = properties.entries.MCID;
+        return mcid?.type === 'number' ? mcid.value : undefined;
+    }
+    if (properties?.type !== 'name') return undefined;
+    const list = resources?.lookupMaybe(PDFName.of('Properties'), PDFDict)?.lookup(PDFName.of(properties.value));
+    return list instanceof PDFDict ? numberOf(list.lookup(PDFName.of('MCID'))) : undefined;
+};
+
+/**
+ * Operations that clip the areas out of whatever is painted next, in the user space of the CTM
+ * @param extent - Device-space bounds of what is painted
+ * @returns The operations, which open a q to be closed after painting; null if the CTM is degenerate
+ */
+const clipOutAreas = (ctm: Matrix, areas: Box[], extent: Box): ContentOperation[] | null => {
+    const inverse = invertMatrix(ctm);
+    if (!inverse) return null;
+
+    // Overlapping areas would cancel each other out of an even-odd clip; merge them first
+    const holes: Box[] = [];
+    for (let box of areas) {
+        for (let i = holes.length - 1; i >= 0; i--) {
+            if (!overlaps(holes[i], box)) continue;
+            box = unionBoxes(holes[i], box);
+            holes.splice(i, 1);
+            i = holes.length;
+        }
+        holes.push(box);
+    }
+
+    const num = (value: number): ContentOperand => ({ type: 'number', value });
+    const outline = (box: Box): ContentOperation[] => {
+        const [first, ...rest] = [
+            transformPoint(inverse, box.left, box.bottom),
+            transformPoint(inverse, box.right, box.bottom),
+            transformPoint(inverse, box.right, box.top),
+            transformPoint(inverse, box.left, box.top),
+        ];
+        return [
+            { operator: 'm', operands: [num(first.x), num(first.y)] },
+            ...rest.map(point => ({ operator: 'l', operands: [num(point.x), num(point.y)] })),
+            { operator: 'h', operands: [] },
+        ];
+    };
+    return [
+        { operator: 'q', operands: [] },
+        ...outline(padBox(unionBoxes(extent, holes.reduce(unionBoxes)), 1)),
+        ...holes.flatMap(outline),
+        { operator: 'W*', operands: [] },
+        { operator: 'n', operands: [] },
+    ];
+};
+
+/**
+ * Rewrite a content stream without the content that falls inside the areas
+ * @param structParents - The StructParents of the page or form the stream belongs to, to find its tagged elements
+ * @returns The new operations, or null if nothing was removed
+ */
+const redactOperations = async (
+    ctx: RedactionContext,
+    ops: ContentOperation[],
+    resources: ResourceHolder,
+    startCtm: Matrix,
+    areas: Box[],
+    depth: number,
+    structParents: number | undefined
+): Promise<ContentOperation[] | null> => {
+    const out: ContentOperation[] = [];
+    const stack: GraphicsState[] = [];
+    const markedContent: Array<{ properties: ContentOperand | null; mcid: number | undefined }> = [];
+    let gs: GraphicsState = {
+        ctm: startCtm,
+        clip: null,
+        lineWidth: 1,
+        text: { font: DEFAULT_FONT, fontSize: 0, charSpacing: 0, wordSpacing: 0, horizontalScale: 1, leading: 0, rise: 0 },
+    };
+    const tm = { current: IDENTITY_MATRIX };
+    let tlm: Matrix = IDENTITY_MATRIX;
+    let path: ContentOperation[] = [];
+    let pathPoints: Array<{ x: number; y: number }> = [];
+    let clip: ContentOperation | null = null;
+    let changed = false;
+    const replacedXObjects = new Set<string>();
+
+    const moveText = (tx: number, ty: number) => {
+        tlm = multiplyMatrix([1, 0, 0, 1, tx, ty], tlm);
+        tm.current = tlm;
+    };
+    const flushPath = () => {
+        out.push(...path);
+        if (clip) out.push(clip);
+        path = [];
+        pathPoints = [];
+        clip = null;
+    };
+    const noteRemoval = () => {
+        // Replacement text of an enclosing marked-content sequence would repeat what was removed
+        for (const { properties, mcid } of markedContent) {
+            if (properties?.type === 'dict') MARKED_TEXT_KEYS.forEach(key => delete properties.entries[key]);
+            if (mcid !== undefined && structParents !== undefined) ctx.markedContent.push({ structParents, mcid });
+        }
+    };
+    const showText = (items: ContentOperand[], prefix: ContentOperation[], original: ContentOperation) => {
+        const replaced = redactShownText(ctx, items, gs, tm, areas);
+        if (!replaced) {
+            out.push(original);
+            return;
+        }
+        changed = true;
+        noteRemoval();
+        out.push(...prefix, { operator: 'TJ', operands: [replaced] });
+    };
+
+    for (const op of ops) {
+        const args = op.operands;
+
+        if (PATH_OPERATORS.has(op.operator)) {
+            const n = args.map(operandNumber);
+            path.push(op);
+            if (op.operator === 're') {
+                pathPoints.push(
+                    transformPoint(gs.ctm, n[0], n[1]),
+                    transformPoint(gs.ctm, n[0] + n[2], n[1]),
+                    transformPoint(gs.ctm, n[0], n[1] + n[3]),
+                    transformPoint(gs.ctm, n[0] + n[2], n[1] + n[3])
+                );
+            } else {
+                for (let i = 0; i + 1 < n.length; i += 2) pathPoints.push(transformPoint(gs.ctm, n[i], n[i + 1]));
+            }
+            continue;
+        }
+        if (op.operator === 'W' || op.operator === 'W*') {
+            clip = op;
+            continue;
+        }
+        if (PAINT_OPERATORS.has(op.operator)) {
+            if (clip && pathPoints.length > 0) gs = { ...gs, clip: intersectBoxes(gs.clip, boxOfPoints(pathPoints)) };
+            let hidden = false;
+            if (op.operator !== 'n' && pathPoints.length > 0) {
+                const stroke = STROKE_OPERATORS.has(op.operator) ? (gs.lineWidth * Math.hypot(gs.ctm[0], gs.ctm[1])) / 2 : 0;
+                const box = padBox(boxOfPoints(pathPoints), stroke);
+                const hits = areas.filter(area => overlaps(box, area));
+                // A plain rectangle that spans an area whole gives nothing away; keep backgrounds and table shading
+                const harmless = stroke === 0 && path.length === 1 && path[0].operator === 're' && hits.every(area => contains(box, area));
+                hidden = hits.length > 0 && !harmless;
+            }
+            if (hidden) {
+                changed = true;
+                noteRemoval();
+                ctx.result.removedPaths++;
+                // Keep any clip the path sets; only its painting goes
+                if (clip) out.push(...path, clip, { operator: 'n', operands: [] });
+                path = [];
+                pathPoints = [];
+                clip = null;
+            } else {
+                flushPath();
+                out.push(op);
+            }
+            continue;
+        }
+        if (path.length > 0 || clip) flushPath();
+
+        switch (op.operator) {
+            case 'q':
+                stack.push(gs);
+                break;
+            case 'Q':
+                gs = stack.pop() ?? gs;
+                break;
+            case 'cm':
+                if (args.length === 6) gs = { ...gs, ctm: multiplyMatrix(args.map(operandNumber) as Matrix, gs.ctm) };
+                break;
+            case 'w':
+                gs = { ...gs, lineWidth: operandNumber(args[0]) };
+                break;
+            case 'BT':
+                tlm = IDENTITY_MATRIX;
+                tm.current = IDENTITY_MATRIX;
+                break;
+            case 'Tf': {
+                const name = args[0];
+                gs = { ...gs, text: { ...gs.text, font: name?.type === 'name' ? fontInfoFor(ctx, resources.dict, name.value) : DEFAULT_FONT, fontSize: operandNumber(args[1]) } };
+                break;
+            }
+            case 'Tc':
+                gs = { ...gs, text: { ...gs.text, charSpacing: operandNumber(args[0]) } };
+                break;
+            case 'Tw':
+                gs = { ...gs, text: { ...gs.text, wordSpacing: operandNumber(args[0]) } };
+                break;
+            case 'Tz':
+                gs = { ...gs, text: { ...gs.text, horizontalScale: operandNumber(args[0]) / 100 } };
+                break;
+            case 'TL':
+                gs = { ...gs, text: { ...gs.text, leading: operandNumber(args[0]) } };
+                break;
+            case 'Ts':
+                gs = { ...gs, text: { ...gs.text, rise: operandNumber(args[0]) } };
+                break;
+            case 'Td':
+                moveText(operandNumber(args[0]), operandNumber(args[1]));
+                break;
+            case 'TD':
+                gs = { ...gs, text: { ...gs.text, leading: -operandNumber(args[1]) } };
+                moveText(operandNumber(args[0]), operandNumber(args[1]));
+                break;
+            case 'Tm':
+                if (args.length === 6) {
+                    tlm = args.map(operandNumber) as Matrix;
+                    tm.current = tlm;
+                }
+                break;
+            case 'T*':
+                moveText(0, -gs.text.leading);
+                break;
+            case 'BMC':
+                markedContent.push({ properties: null, mcid: undefined });
+                break;
+            case 'BDC':
+                markedContent.push({
+                    properties: args[1]?.type === 'dict' ? args[1] : null,
+                    mcid: markedContentId(args[1], resources.dict),
+                });
+                break;
+            case 'EMC':
+                markedContent.pop();
+                break;
+        }
+
+        switch (op.operator) {
+            case 'Tj':
+                if (args[0]?.type === 'string') showText([args[0]], [], op);
+                else out.push(op);
+                continue;
+            case 'TJ':
+                if (args[0]?.type === 'array') showText(args[0].items, [], op);
+                else out.push(op);
+                continue;
+            case "'":
+                moveText(0, -gs.text.leading);
+                if (args[0]?.type === 'string') showText([args[0]], [{ operator: 'T*', operands: [] }], op);
+                else out.push(op);
+                continue;
+            case '"': {
+                const [aw, ac, text] = args;
+                gs = { ...gs, text: { ...gs.text, wordSpacing: operandNumber(aw), charSpacing: operandNumber(ac) } };
+                moveText(0, -gs.text.leading);
+                if (text?.type === 'string') {
+                    showText([text], [
+                        { operator: 'Tw', operands: [aw] },
+                        { operator: 'Tc', operands: [ac] },
+                        { operator: 'T*', operands: [] },
+                    ], op);
+                } else {
+                    out.push(op);
+                }
+                continue;
+            }
+            case 'BI': {
+                const box = transformBox(gs.ctm, 0, 0, 1, 1);
+                if (areas.some(area => overlaps(box, area))) {
+                    changed = true;
+                    noteRemoval();
+                    ctx.result.removedImages++;
+                    continue;
+                }
+                break;
+            }
+            case 'sh': {
+                const name = args[0];
+                const shading = name?.type === 'name' ? lookupShading(resources.dict, name.value) : undefined;
+                const bbox = readRectangle(shading?.lookupMaybe(PDFName.of('BBox'), PDFArray));
+                const extent = bbox
+                    ? intersectBoxes(gs.clip, transformBox(gs.ctm, bbox.left, bbox.bottom, bbox.right, bbox.top))
+                    : gs.clip ?? UNBOUNDED_BOX;
+                const hits = areas.filter(area => overlaps(extent, area));
+                if (hits.length === 0) break;
+
+                changed = true;
+                noteRemoval();
+                // Function-based, axial and radial shadings are clipped around the areas; a mesh could be anything, so it goes
+                const type = numberOf(shading?.lookup(PDFName.of('ShadingType')));
+                const clipped = type !== undefined && type <= 3 ? clipOutAreas(gs.ctm, hits, extent) : null;
+                if (clipped) {
+                    out.push(...clipped, op, { operator: 'Q', operands: [] });
+                } else {
+                    ctx.result.removedPaths++;
+                }
+                continue;
+            }
+            case 'Do': {
+                const replacement = await redactXObject(ctx, op, resources, gs.ctm, areas, depth);
+                if (replacement !== undefined) {
+                    changed = true;
+                    noteRemoval();
+                    if (args[0]?.type === 'name') replacedXObjects.add(args[0].value);
+                    if (replacement) out.push(replacement);
+                    continue;
+                }
+                break;
+            }
+        }
+        out.push(op);
+    }
+    if (path.length > 0 || clip) flushPath();
+
+    // Unlist what is no longer drawn here, so the original can be dropped from the file
+    for (const op of out) {
+        const name = op.operands[0];
+        if (op.operator === 'Do' && name?.type === 'name') replacedXObjects.delete(name.value);
+    }
+    replacedXObjects.forEach(name => resources.removeXObject(name));
+
+    return changed ? out : null;
+};
+
+/**
+ * Redact an image or form XObject drawn by a Do operation
+ * @returns undefined to keep the operation, null to drop it, or a Do of a redacted copy
+ */
+const redactXObject = async (
+    ctx: RedactionContext,
+    op: ContentOperation,
+    resources: ResourceHolder,
+    ctm: Matrix,
+    areas: Box[],
+    depth: number
+): Promise<ContentOperation | null | undefined> => {
+    const name = op.operands[0];
+    if (name?.type !== 'name') return undefined;
+    const xobj = lookupXObject(resources.dict, name.value);
+    if (!xobj) return undefined;
+
+    const { context } = ctx.pdf;
+    const { dict } = xobj.stream;
+    const subtype = dict.lookup(PDFName.of('Subtype'));
+
+    if (subtype === PDFName.of('Image')) {
+        const box = transformBox(ctm, 0, 0, 1, 1);
+        const hits = areas.filter(area => overlaps(box, area));
+        if (hits.length === 0) return undefined;
+
+        const partlyCovered = !hits.some(area => contains(area, box));
+        const copy = partlyCovered && xobj.ref && xobj.stream instanceof PDFRawStream
+            ? await paintOverImage(ctx, xobj.ref, xobj.stream, ctm, hits)
+            : null;
+        if (!copy) {
+            ctx.result.removedImages++;
+            return null;
+        }
+        ctx.result.editedImages++;
+        return { operator: 'Do', operands: [{ type: 'name', value: resources.addXObject(copy, 'Redacted') }] };
+    }
+
+    if (subtype !== PDFName.of('Form')) return undefined;
+
+    const matrix = multiplyMatrix(readMatrix(dict.lookupMaybe(PDFName.of('Matrix'), PDFArray)), ctm);
+    const bbox = readRectangle(dict.lookupMaybe(PDFName.of('BBox'), PDFArray));
+    if (bbox && !areas.some(area => overlaps(transformBox(matrix, bbox.left, bbox.bottom, bbox.right, bbox.top), area))) {
+        return undefined;
+    }
+    // Too deeply nested to follow; leave it out rather than risk keeping what it draws
+    if (depth >= MAX_FORM_DEPTH) return null;
+
+    let formOps: ContentOperation[];
+    try {
+        formOps = parseContentStream(decodeStreamContents(xobj.stream));
+    } catch {
+        // Content we cannot read could hold anything; leave the form out
+        return null;
+    }
+
+    const formResources = createResourceHolder(context, dict.lookupMaybe(PDFName.of('Resources'), PDFDict) ?? resources.dict, () => {});
+    const structParents = numberOf(dict.lookup(PDFName.of('StructParents')));
+    const redacted = await redactOperations(ctx, formOps, formResources, matrix, areas, depth + 1, structParents);
+    if (!redacted) return undefined;
+
+    const copy = context.flateStream(serializeContentStream(redacted));
+    for (const [key, value] of dict.entries()) {
+        if (key !== PDFName.of('Filter') && key !== PDFName.of('DecodeParms') && key !== PDFName.of('Length')) {
+            copy.dict.set(key, value);
+        }
+    }
+    if (formResources.dict) copy.dict.set(PDFName.of('Resources'), formResources.dict);
+    return { operator: 'Do', operands: [{ type: 'name', value: resources.addXObject(context.register(copy), 'RedactedForm') }] };
+};
+
+const redactPageContent = async (ctx: RedactionContext, page: PDFPage, areas: Box[]): Promise<void> => {
+    const { context } = ctx.pdf;
+    let bytes: Uint8Array;
+    try {
+        bytes = getPageContentBytes(page);
+    } catch {
+        throw new Error('This page uses a content encoding that cannot be redacted');
+    }
+
+    const resources = createResourceHolder(context, page.node.Resources(), own => page.node.set(PDFName.of('Resources'), own));
+    const structParents = numberOf(page.node.lookup(PDFName.of('StructParents')));
+    const redacted = await redactOperations(ctx, parseContentStream(bytes), resources, IDENTITY_MATRIX, areas, 0, structParents);
+
+    // A thumbnail would still show the original page
+    page.node.delete(PDFName.of('Thumb'));
+    if (!redacted) return;
+
+    // An array, as pdf-lib appends its own drawing to it
+    page.node.set(PDFName.of('Contents'), context.obj([context.register(context.flateStream(serializeContentStream(redacted)))]));
+};
+
+// ── Annotations, Bookmarks, Fields & Metadata ─────
+
+const removeFromArray = (array: PDFArray | undefined, ref: PDFRef | PDFDict): void => {
+    if (!array) return;
+    for (let i = array.size() - 1; i >= 0; i--) {
+        const item = array.get(i);
+        if (item === ref || array.lookup(i) === ref) array.remove(i);
+    }
+};
+
+/** Detach a form field (or widget) from its parent, removing parents left without kids */
+const detachFromForm = (pdf: PDFDocument, node: PDFDict, ref: PDFRef | PDFDict): void => {
+    const parent = node.lookupMaybe(PDFName.of('Parent'), PDFDict);
+    if (!parent) {
+        removeFromArray(pdf.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict)?.lookupMaybe(PDFName.of('Fields'), PDFArray), ref);
+        return;
+    }
+    const kids = parent.lookupMaybe(PDFName.of('Kids'), PDFArray);
+    removeFromArray(kids, ref);
+    if (!kids || kids.size() === 0) {
+        const parentRef = node.get(PDFName.of('Parent'));
+        detachFromForm(pdf, parent, parentRef instanceof PDFRef ? parentRef : parent);
+    }
+};
+
+/** Remove annotations (and their pop-ups and form fields) that overlap an area */
+const removeAnnotations = (pdf: PDFDocument, page: PDFPage, areas: Box[]): number => {
+    const annots = page.node.Annots();
+    if (!annots) return 0;
+
+    const doomed = new Set<PDFObject>();
+    for (let i = 0; i < annots.size(); i++) {
+        const annot = annots.lookup(i);
+        if (!(annot instanceof PDFDict)) continue;
+        const rect = readRectangle(annot.lookupMaybe(PDFName.of('Rect'), PDFArray));
+        if (!rect || !areas.some(area => overlaps(rect, area))) continue;
+
+        const ref = annots.get(i);
+        doomed.add(ref);
+        const popup = annot.get(PDFName.of('Popup'));
+        if (popup) doomed.add(popup);
+        if (annot.lookup(PDFName.of('Subtype')) === PDFName.of('Widget')) {
+            detachFromForm(pdf, annot, ref instanceof PDFRef ? ref : annot);
+        }
+    }
+
+    let removed = 0;
+    for (let i = annots.size() - 1; i >= 0; i--) {
+        if (doomed.has(annots.get(i))) {
+            annots.remove(i);
+            removed++;
+        }
+    }
+    return removed;
+};
+
+/** Whole phrases and their longer words, longest first */
+const redactedTerms = (removedText: string[]): string[] => {
+    const terms = new Set<string>();
+    for (const text of removedText) {
+        const phrase = text.replace(/\s+/g, ' ').trim();
+        if (phrase.length >= MIN_TERM_LENGTH) terms.add(phrase);
+        for (const word of phrase.split(' ')) {
+            const trimmed = word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+            if (trimmed.length >= MIN_TERM_LENGTH) terms.add(trimmed);
+        }
+    }
+    return [...terms].sort((a, b) => b.length - a.length);
+};
+
+const termPattern = (terms: string[]): RegExp | null =>
+    terms.length === 0
+        ? null
+        : new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`, 'gu');
+
+const scrubText = (text: string, pattern: RegExp): string =>
+    text.replace(pattern, '').replace(/[ \t]{2,}/g, ' ').trim();
+
+/** Replace a text entry of a dictionary if it mentions a redacted term */
+const scrubEntry = (dict: PDFDict, key: string, pattern: RegExp): boolean => {
+    const value = dict.lookup(PDFName.of(key));
+    if (!(value instanceof PDFString || value instanceof PDFHexString)) return false;
+    const text = value.decodeText();
+    const scrubbed = scrubText(text, pattern);
+    if (scrubbed === text) return false;
+    dict.set(PDFName.of(key), PDFHexString.fromText(scrubbed));
+    return true;
+};
+
+const scrubAnnotations = (pdf: PDFDocument, pattern: RegExp): void => {
+    for (const page of pdf.getPages()) {
+        const annots = page.node.Annots();
+        if (!annots) continue;
+        for (let i = 0; i < annots.size(); i++) {
+            const annot = annots.lookup(i);
+            if (!(annot instanceof PDFDict)) continue;
+            const isWidget = annot.lookup(PDFName.of('Subtype')) === PDFName.of('Widget');
+            // A widget's /T is its field name, not an author
+            const keys = isWidget ? ['Contents'] : ['Contents', 'RC', 'Subj', 'T'];
+            const changed = keys.map(key => scrubEntry(annot, key, pattern)).some(Boolean);
+            if (changed && annot.lookup(PDFName.of('Subtype')) === PDFName.of('FreeText')) {
+                // The appearance still draws the old text; let the viewer rebuild it
+                annot.delete(PDFName.of('AP'));
+            }
+        }
+    }
+};
+
+/** Scrub bookmark titles in place, so the outline keeps its structure and destinations */
+const scrubOutline = (pdf: PDFDocument, pattern: RegExp): void => {
+    const seen = new Set<PDFDict>();
+    const visit = (first: PDFObject | undefined, depth: number): void => {
+        let item = first ? pdf.context.lookup(first) : undefined;
+        while (item instanceof PDFDict && !seen.has(item) && depth < MAX_TREE_DEPTH) {
+            seen.add(item);
+            // A bookmark that was nothing but the redacted words still needs a label
+            if (scrubEntry(item, 'Title', pattern) && !item.lookup(PDFName.of('Title'), PDFHexString).decodeText()) {
+                item.set(PDFName.of('Title'), PDFHexString.fromText(REDACTED_TITLE));
+            }
+            visit(item.get(PDFName.of('First')), depth + 1);
+            const next = item.get(PDFName.of('Next'));
+            item = next ? pdf.context.lookup(next) : undefined;
+        }
+    };
+
+    const outlines = pdf.catalog.lookup(PDFName.of('Outlines'));
+    if (outlines instanceof PDFDict) visit(outlines.get(PDFName.of('First')), 0);
+};
+
+/** Scrub a text value, or each text of a multiple-choice value */
+const scrubValue = (dict: PDFDict, key: string, pattern: RegExp): boolean => {
+    const value = dict.lookup(PDFName.of(key));
+    if (!(value instanceof PDFArray)) return scrubEntry(dict, key, pattern);
+
+    let changed = false;
+    for (let i = 0; i < value.size(); i++) {
+        const item = value.lookup(i);
+        if (!(item instanceof PDFString || item instanceof PDFHexString)) continue;
+        const text = item.decodeText();
+        const scrubbed = scrubText(text, pattern);
+        if (scrubbed === text) continue;
+        value.set(i, PDFHexString.fromText(scrubbed));
+        changed = true;
+    }
+    return changed;
+};
+
+/** Scrub field values and defaults, dropping the appearances that still draw the old values */
+const scrubFormFields = (pdf: PDFDocument, pattern: RegExp): void => {
+    const acroForm = pdf.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+    if (!acroForm) return;
+
+    const seen = new Set<PDFDict>();
+    let changed = false;
+    const dropAppearances = (field: PDFDict): void => {
+        field.delete(PDFName.of('AP'));
+        const kids = field.lookupMaybe(PDFName.of('Kids'), PDFArray);
+        for (let i = 0; i < (kids?.size() ?? 0); i++) {
+            const kid = kids!.lookup(i);
+            // Widgets have no /T of their own; fields below this one keep their own appearances
+            if (kid instanceof PDFDict && !kid.has(PDFName.of('T'))) kid.delete(PDFName.of('AP'));
+        }
+    };
+    const visit = (fields: PDFArray | undefined, depth: number): void => {
+        if (!fields || depth >= MAX_TREE_DEPTH) return;
+        for (let i = 0; i < fields.size(); i++) {
+            const field = fields.lookup(i);
+            if (!(field instanceof PDFDict) || seen.has(field)) continue;
+            seen.add(field);
+            const scrubbed = ['V', 'DV'].map(key => scrubValue(field, key, pattern)).some(Boolean);
+            if (scrubbed) {
+                dropAppearances(field);
+                changed = true;
+            }
+            visit(field.lookupMaybe(PDFName.of('Kids'), PDFArray), depth + 1);
+        }
+    };
+
+    visit(acroForm.lookupMaybe(PDFName.of('Fields'), PDFArray), 0);
+    if (changed) acroForm.set(PDFName.of('NeedAppearances'), PDFBool.True);
+};
+
+/** Call visit for every element of the document's structure tree */
+const forEachStructElem = (pdf: PDFDocument, visit: (element: PDFDict) => void): void => {
+    const seen = new Set<PDFDict>();
+    const walk = (kids: PDFObject | undefined, depth: number): void => {
+        if (!kids || depth >= MAX_TREE_DEPTH) return;
+        const node = pdf.context.lookup(kids);
+        if (node instanceof PDFArray) {
+            for (let i = 0; i < node.size(); i++) walk(node.get(i), depth + 1);
+        } else if (node instanceof PDFDict && !seen.has(node) && node.has(PDFName.of('S'))) {
+            // Marked-content and object references have no /S and nothing below them
+            seen.add(node);
+            visit(node);
+            walk(node.get(PDFName.of('K')), depth + 1);
+        }
+    };
+
+    const root = pdf.catalog.lookupMaybe(PDFName.of('StructTreeRoot'), PDFDict);
+    if (root) walk(root.get(PDFName.of('K')), 0);
+};
+
+/** The entries of a number tree, such as the structure tree's ParentTree */
+const readNumberTree = (node: PDFDict | undefined, entries = new Map<number, PDFObject>(), depth = 0): Map<number, PDFObject> => {
+    if (!node || depth >= MAX_TREE_DEPTH) return entries;
+    const nums = node.lookupMaybe(PDFName.of('Nums'), PDFArray);
+    for (let i = 0; i + 1 < (nums?.size() ?? 0); i += 2) {
+        const key = numberOf(nums!.lookup(i));
+        const value = nums!.lookup(i + 1);
+        if (key !== undefined && value) entries.set(key, value);
+    }
+    const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+    for (let i = 0; i < (kids?.size() ?? 0); i++) {
+        const kid = kids!.lookup(i);
+        if (kid instanceof PDFDict) readNumberTree(kid, entries, depth + 1);
+    }
+    return entries;
+};
+
+/**
+ * Drop the replacement texts of the tagged elements whose content was removed, and of the elements
+ * containing them, which describe it too; then scrub the redacted words from the rest of the tree
+ */
+const scrubStructureTree = (pdf: PDFDocument, removed: RedactionContext['markedContent'], pattern: RegExp | null): void => {
+    const root = pdf.catalog.lookupMaybe(PDFName.of('StructTreeRoot'), PDFDict);
+    if (!root) return;
+
+    const parentTree = readNumberTree(root.lookupMaybe(PDFName.of('ParentTree'), PDFDict));
+    for (const { structParents, mcid } of removed) {
+        // A page's or form's ParentTree entry lists the element owning each of its MCIDs
+        const owners = parentTree.get(structParents);
+        let element = owners instanceof PDFArray && mcid < owners.size() ? owners.lookup(mcid) : undefined;
+        for (let depth = 0; element instanceof PDFDict && element !== root && depth < MAX_TREE_DEPTH; depth++) {
+            const current: PDFDict = element;
+            MARKED_TEXT_KEYS.forEach(key => current.delete(PDFName.of(key)));
+            element = current.lookup(PDFName.of('P'));
+        }
+    }
+
+    if (pattern) forEachStructElem(pdf, element => STRUCTURE_TEXT_KEYS.forEach(key => scrubEntry(element, key, pattern)));
+};
+
+const scrubMetadata = (pdf: PDFDocument, terms: string[], pattern: RegExp): void => {
+    const info = pdf.context.lookup(pdf.context.trailerInfo.Info);
+    if (info instanceof PDFDict) {
+        for (const key of info.keys()) scrubEntry(info, key.decodeText(), pattern);
+    }
+
+    const xml = readXmpPacket(pdf);
+    const xmlPattern = termPattern(terms.map(escapeXml));
+    if (!xml || !xmlPattern) return;
+    const scrubbed = xml.replace(xmlPattern, '');
+    if (scrubbed === xml) return;
+
+    const stream = pdf.context.stream(new TextEncoder().encode(scrubbed), { Type: 'Metadata', Subtype: 'XML' });
+    const ref = pdf.catalog.get(PDFName.of('Metadata'));
+    if (ref instanceof PDFRef) pdf.context.assign(ref, stream);
+    else pdf.catalog.set(PDFName.of('Metadata'), pdf.context.register(stream));
+};
+
+/**
+ * Delete every indirect object that can no longer be reached from the trailer.
+ * pdf-lib saves all objects it holds, so replaced content streams and images
+ * would otherwise still be in the file.
+ */
+export const removeUnreferencedObjects = (pdf: PDFDocument): number => {
+    const { context } = pdf;
+    const reachable = new Set<string>();
+    const pending: PDFObject[] = [];
+    const { Root, Info, Encrypt } = context.trailerInfo;
+    for (const entry of [Root, Info, Encrypt]) if (entry) pending.push(entry);
+
+    while (pending.length > 0) {
+        const obj = pending.pop()!;
+        if (obj instanceof PDFRef) {
+            const key = obj.toString();
+            if (reachable.has(key)) continue;
+            reachable.add(key);
+            const target = context.lookup(obj);
+            if (target) pending.push(target);
+        } else if (obj instanceof PDFDict) {
+            pending.push(...obj.values());
+        } else if (obj instanceof PDFArray) {
+            pending.push(...obj.asArray());
+        } else if (obj instanceof PDFStream) {
+            pending.push(obj.dict);
+        }
+    }
+
+    let removed = 0;
+    for (const [ref] of context.enumerateIndirectObjects()) {
+        if (!reachable.has(ref.toString())) {
+            context.delete(ref);
+            removed++;
+        }
+    }
+    return removed;
+};
+
+// ── Redaction ─────────────────────────────────────
+
+/** Paint the fill and label over each area, upright as the page is displayed */
+const drawRedactionMarks = async (pdf: PDFDocument, page: PDFPage, areas: RedactionArea[]): Promise<void> => {
+    const frame = getPageFrame(page);
+    const labelFont = areas.some(area => area.label.trim()) ? await pdf.embedFont(StandardFonts.HelveticaBold) : undefined;
+
+    isolateExistingContent(pdf, page);
+    page.resetPosition();
+
+    for (const area of areas) {
+        const fill = hexToRgb(area.fillColor);
+        page.drawRectangle({ x: area.x, y: area.y, width: area.width, height: area.height, color: rgb(fill.r, fill.g, fill.b) });
+
+        const label = area.label.trim();
+        if (!label || !labelFont) continue;
+
+        let textWidth: number;
+        try {
+            textWidth = labelFont.widthOfTextAtSize(label, 1);
+        } catch {
+            throw new Error('The redaction label contains characters the label font cannot display');
+        }
+
+        const box = areaBox(area);
+        const a = toDisplaySpace(frame, box.left, box.bottom);
+        const b = toDisplaySpace(frame, box.right, box.top);
+        const width = Math.abs(b.x - a.x);
+        const height = Math.abs(b.y - a.y);
+        const size = Math.min(height * 0.6, 14, (width * 0.9) / textWidth);
+        if (size < 4) continue;
+
+        const cx = (a.x + b.x) / 2;
+        const cy = (a.y + b.y) / 2;
+        const origin = toUserSpace(frame, cx - (textWidth * size) / 2, cy - size * 0.35);
+        // Light text on dark fills, dark text on light ones
+        const luminance = 0.299 * fill.r + 0.587 * fill.g + 0.114 * fill.b;
+        const ink = luminance < 0.5 ? rgb(1, 1, 1) : rgb(0, 0, 0);
+        page.drawText(label, { x: origin.x, y: origin.y, size, font: labelFont, color: ink, rotate: degrees(frame.rotation) });
+    }
+};
+
+/**
+ * Remove everything under the areas from a loaded document and mark the areas.
+ * Save the document with verifyRedaction afterwards to confirm no text remains.
+ */
+export const redactDocument = async (
+    pdf: PDFDocument,
+    areas: RedactionArea[],
+    onProgress?: (progress: number, status: string) => void
+): Promise<RedactionResult> => {
+    const pages = pdf.getPages();
+    const ctx: RedactionContext = {
+        pdf,
+        fill: { r: 0, g: 0, b: 0 },
+        fonts: new Map(),
+        runs: [],
+        markedContent: [],
+        result: { removedText: [], removedPaths: 0, removedImages: 0, editedImages: 0, removedAnnotations: 0 },
+    };
+
+    const byPage = new Map<number, RedactionArea[]>();
+    for (const area of areas) {
+        if (area.pageIndex < 0 || area.pageIndex >= pages.length) continue;
+        byPage.set(area.pageIndex, [...(byPage.get(area.pageIndex) ?? []), area]);
+    }
+
+    let done = 0;
+    for (const [pageIndex, pageAreas] of byPage) {
+        onProgress?.((done++ / byPage.size) * 100, `Redacting page ${pageIndex + 1}...`);
+        const page = pages[pageIndex];
+        const boxes = pageAreas.map(areaBox);
+
+        // Images are painted in the first area's colour so they match the fill drawn over them
+        ctx.fill = hexToRgb(pageAreas[0].fillColor);
+        try {
+            await redactPageContent(ctx, page, boxes);
+        } catch (err) {
+            throw new Error(`Could not redact page ${pageIndex + 1}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        }
+        ctx.result.removedAnnotations += removeAnnotations(pdf, page, boxes);
+    }
+
+    ctx.result.removedText = ctx.runs.map(run => run.text.replace(/\s+/g, ' ').trim()).filter(Boolean);
+    const terms = redactedTerms(ctx.result.removedText);
+    const pattern = termPattern(terms);
+    if (pattern) {
+        scrubAnnotations(pdf, pattern);
+        scrubOutline(pdf, pattern);
+        scrubFormFields(pdf, pattern);
+        scrubMetadata(pdf, terms, pattern);
+    }
+    scrubStructureTree(pdf, ctx.markedContent, pattern);
+
+    for (const [pageIndex, pageAreas] of byPage) {
+        await drawRedactionMarks(pdf, pages[pageIndex], pageAreas);
+    }
+
+    removeUnreferencedObjects(pdf);
+    onProgress?.(100, 'Redaction applied');
+    return ctx.result;
+};
+
+// ── Verification ──────────────────────────────────
+
+/**
+ * Re-extract the text of a saved PDF with pdf.js and report anything readable
+ * inside a redaction area, or redacted words left in annotations, bookmarks,
+ * form fields, the tagged structure and metadata
+ * @param data - The saved PDF
+ * @param areas - The areas that were redacted
+ * @param removedText - RedactionResult.removedText
+ * @param allowedText - Text deliberately drawn over the areas afterwards (labels, new text)
+ */
+export const verifyRedaction = async (
+    data: Uint8Array,
+    areas: RedactionArea[],
+    removedText: string[],
+    allowedText: string[] = []
+): Promise<RedactionLeak[]> => {
+    const { pdfjsLib } = await import('./pdfConfig');
+    const pdf = await pdfjsLib.getDocument({ data: data.slice(0) }).promise;
+    const leaks: RedactionLeak[] = [];
+    const allowed = [...allowedText, ...areas.map(area => area.label)].map(text => text.trim()).filter(Boolean);
+    const pattern = termPattern(redactedTerms(removedText));
+
+    try {
+        for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+            const page = await pdf.getPage(pageNum);
+            const boxes = areas.filter(area => area.pageIndex === pageNum - 1).map(areaBox);
+
+            if (boxes.length > 0) {
+                const content = await page.getTextContent();
+                for (const item of content.items) {
+                    if (!('str' in item) || !item.str.trim()) continue;
+                    const text = item.str.trim();
+                    if (allowed.some(ok => ok.includes(text))) continue;
+
+                    // Test the estimated centre of each character
+                    const [a, b, c, d, e, f] = item.transform as number[];
+                    const length = Math.hypot(a, b) || 1;
+                    const step = item.width / item.str.length;
+                    let inside = false;
+                    for (let i = 0; i < item.str.length && !inside; i++) {
+                        // Halfway along the glyph, a third of the way up from the baseline
+                        const along = (i + 0.5) * step;
+                        const x = e + (a / length) * along + c * 0.35;
+                        const y = f + (b / length) * along + d * 0.35;
+                        inside = boxes.some(box => x > box.left && x < box.right && y > box.bottom && y < box.top);
+                    }
+                    if (inside) leaks.push({ pageNumber: pageNum, where: 'page', text });
+                }
+            }
+
+            if (!pattern) continue;
+            for (const annotation of await page.getAnnotations()) {
+                for (const text of [annotation.contentsObj?.str, annotation.titleObj?.str]) {
+                    if (typeof text === 'string' && text.match(pattern)) {
+                        leaks.push({ pageNumber: pageNum, where: 'annotation', text });
+                    }
+                }
+            }
+        }
+
+        if (pattern) {
+            const titles: string[] = [];
+            const collectTitles = (items: Array<{ title: string; items: unknown[] }> | null, depth: number): void => {
+                if (!items || depth >= MAX_TREE_DEPTH) return;
+                for (const item of items) {
+                    titles.push(item.title);
+                    collectTitles(item.items as typeof items, depth + 1);
+                }
+            };
+            collectTitles(await pdf.getOutline(), 0);
+            for (const title of titles) {
+                if (title.match(pattern)) leaks.push({ pageNumber: 0, where: 'outline', text: title });
+            }
+
+            const fields = ((await pdf.getFieldObjects()) ?? {}) as Record<string, Array<{ value?: unknown; defaultValue?: unknown }>>;
+            for (const widgets of Object.values(fields)) {
+                const values = widgets.flatMap(widget => [widget.value, widget.defaultValue]).flat();
+                for (const value of new Set(values)) {
+                    if (typeof value === 'string' && value.match(pattern)) {
+                        leaks.push({ pageNumber: 0, where: 'form', text: value });
+                    }
+                }
+            }
+
+            // pdf.js exposes only part of the structure tree; read its texts from the file
+            const tagged = await PDFDocument.load(data, { ignoreEncryption: true, updateMetadata: false });
+            forEachStructElem(tagged, element => {
+                for (const key of STRUCTURE_TEXT_KEYS) {
+                    const value = element.lookup(PDFName.of(key));
+                    const text = value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : '';
+                    if (text.match(pattern)) leaks.push({ pageNumber: 0, where: 'structure', text });
+                }
+            });
+
+            const { info } = await pdf.getMetadata();
+            for (const value of Object.values((info ?? {}) as Record<string, unknown>)) {
+                if (typeof value === 'string' && value.match(pattern)) {
+                    leaks.push({ pageNumber: 0, where: 'metadata', text: value });
+                }
+            }
+        }
+    } finally {
+        pdf.destroy();
+    }
+
+    return leaks;
+};
+
+/** Where a leak was found, for error messages */
+export const describeRedactionLeak = (leak: RedactionLeak): string => {
+    const places: Record<RedactionLeak['where'], string> = {
+        page: `page ${leak.pageNumber}`,
+        annotation: `an annotation on page ${leak.pageNumber}`,
+        outline: 'a bookmark',
+        form: 'a form field value',
+        structure: 'the alternate text of a tagged element',
+        metadata: 'the document metadata',
+    };
+    return `"${leak.text}" can still be read from ${places[leak.where]}`;
+};
+
+// ── Main entry point ──────────────────────────────
+
+/**
+ * Redact areas of a PDF file and verify the saved result
+ * @throws Error if text can still be extracted from a redacted area of the saved file
+ */
+export const redactPDF = async (
+    file: File,
+    areas: RedactionArea[],
+    password?: string,
+    onProgress?: (progress: number, status: string) => void,
+    abortSignal?: { current: boolean }
+): Promise<{ data: Uint8Array; result: RedactionResult }> => {
+    if (!file.type.includes('pdf') && !file.name.toLowerCase().endsWith('.pdf')) {
+        throw new Error('File is not a PDF');
+    }
+    if (areas.length === 0) {
+        throw new Error('Nothing to redact');
+    }
+
+    onProgress?.(5, 'Loading PDF...');
+    const pdf = await loadPDFDocument(await file.arrayBuffer(), password);
+    if (abortSignal?.current) throw new Error('Redaction cancelled');
+
+    const result = await redactDocument(pdf, areas, (progress, status) => onProgress?.(10 + progress * 0.7, status));
+    if (abortSignal?.current) throw new Error('Redaction cancelled');
+
+    onProgress?.(85, 'Saving PDF...');
+    const data = await pdf.save();
+
+    onProgress?.(92, 'Verifying redaction...');
+    const leaks = await verifyRedaction(data, areas, result.removedText);
+    if (leaks.length > 0) {
+        throw new Error(`Redaction could not be verified: ${describeRedactionLeak(leaks[0])}`);
+    }
+
+    onProgress?.(100, 'Redaction complete!');
+    return { data, result };
+};
@@ -0,0 +1,295 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Page size normalization — 100% client-side
+ * 1. Work out each page's target size, orienting it to match the page when set to auto
+ * 2. Scale and center the page as displayed inside the target minus margins (fit, fill or actual size)
+ * 3. Rewrite the page boxes in place and transform the content and annotations to match,
+ *    so links, form fields and bookmarks keep working
+ * 4. Move the coordinates of /XYZ, /FitR, /FitH and /FitV destinations with their page
+ */
+
+import {
+    PDFArray,
+    PDFDict,
+    PDFDocument,
+    PDFName,
+    PDFNumber,
+    PDFObject,
+    PDFPage,
+    PDFRef,
+    clip,
+    concatTransformationMatrix,
+    endPath,
+    popGraphicsState,
+    pushGraphicsState,
+    rectangle,
+} from 'pdf-lib';
+import { loadPDFDocument, getPageSizeDimensions, getMarginDimensions } from './pdfService';
+import { getPageFrame, toUserSpace, type PageFrame } from './pdfGeometry';
+import type { PageSizeDimensions, ResizePdfConfig } from '../types';
+
+// ── Planning ─────────────────────────────────────────
+
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** Where a page ends up on its new size, as displayed (origin bottom-left) */
+export interface ResizePlan {
+    width: number;
+    height: number;
+    area: Rect; // Target minus margins
+    placement: Rect; // The old page, scaled and centered in the area; may overflow it
+    scale: number;
+}
+
+/**
+ * Plan the resize of a page with the given displayed size
+ */
+export const planPageResize = (page: PageSizeDimensions, config: ResizePdfConfig): ResizePlan => {
+    const size = getPageSizeDimensions(config.pageSize, config.customPageSize);
+    const orientation = config.orientation === 'auto'
+        ? (page.width > page.height ? 'landscape' : 'portrait')
+        : config.orientation;
+    const short = Math.min(size.width, size.height);
+    const long = Math.max(size.width, size.height);
+    const width = orientation === 'landscape' ? long : short;
+    const height = orientation === 'landscape' ? short : long;
+
+    const margins = getMarginDimensions(config.margin, config.customMargin);
+    const area = {
+        x: margins.left,
+        y: margins.bottom,
+        width: width - margins.left - margins.right,
+        height: height - margins.top - margins.bottom,
+    };
+    if (area.width <= 0 || area.height <= 0) {
+        throw new Error('The margins leave no room on the page. Please choose smaller margins.');
+    }
+
+    const fitX = area.width / page.width;
+    const fitY = area.height / page.height;
+    const scale = config.mode === 'fit' ? Math.min(fitX, fitY)
+        : config.mode === 'fill' ? Math.max(fitX, fitY)
+            : 1;
+
+    return {
+        width,
+        height,
+        area,
+        placement: {
+            x: area.x + (area.width - page.width * scale) / 2,
+            y: area.y + (area.height - page.height * scale) / 2,
+            width: page.width * scale,
+            height: page.height * scale,
+        },
+        scale,
+    };
+};
+
+// ── Page rewriting ─────────────────────────────────────────
+
+const intersect = (a: Rect, b: Rect): Rect => {
+    const x = Math.max(a.x, b.x);
+    const y = Math.max(a.y, b.y);
+    return {
+        x,
+        y,
+        width: Math.max(0, Math.min(a.x + a.width, b.x + b.width) - x),
+        height: Math.max(0, Math.min(a.y + a.height, b.y + b.height) - y),
+    };
+};
+
+/** Map a displayed rectangle on the new page back to its unrotated user space */
+const toUnrotatedRect = (frame: PageFrame, rect: Rect): Rect => {
+    const a = toUserSpace(frame, rect.x, rect.y);
+    const b = toUserSpace(frame, rect.x + rect.width, rect.y + rect.height);
+    return {
+        x: Math.min(a.x, b.x),
+        y: Math.min(a.y, b.y),
+        width: Math.abs(a.x - b.x),
+        height: Math.abs(a.y - b.y),
+    };
+};
+
+/** Coordinate pairs in annotation arrays that move with the page content */
+const ANNOTATION_POINT_KEYS = ['Rect', 'QuadPoints', 'Vertices', 'L', 'CL'];
+
+/** How a page's old user space maps onto the resized page */
+interface PageTransform {
+    scale: number;
+    tx: number;
+    ty: number;
+}
+
+const transformPoints = (points: PDFArray, { scale, tx, ty }: PageTransform): void => {
+    for (let i = 0; i < points.size(); i++) {
+        const value = points.lookup(i);
+        if (value instanceof PDFNumber) {
+            points.set(i, PDFNumber.of(value.asNumber() * scale + (i % 2 === 0 ? tx : ty)));
+        }
+    }
+};
+
+/**
+ * @param handled - Annotations already transformed; an annotation array (or an
+ *                  annotation) shared between pages must only move once
+ */
+const transformAnnotations = (page: PDFPage, transform: PageTransform, handled: Set<PDFDict>): void => {
+    const annots = page.node.Annots();
+    if (!annots) return;
+
+    for (let i = 0; i < annots.size(); i++) {
+        const annot = annots.lookup(i);
+        if (!(annot instanceof PDFDict) || handled.has(annot)) continue;
+        handled.add(annot);
+
+        for (const key of ANNOTATION_POINT_KEYS) {
+            const points = annot.lookup(PDFName.of(key));
+            if (points instanceof PDFArray) transformPoints(points, transform);
+        }
+        const inkList = annot.lookup(PDFName.of('InkList'));
+        if (inkList instanceof PDFArray) {
+            for (let j = 0; j < inkList.size(); j++) {
+                const stroke = inkList.lookup(j);
+                if (stroke instanceof PDFArray) transformPoints(stroke, transform);
+            }
+        }
+    }
+};
+
+/** Destination views and which of their operands are x (0) or y (1) coordinates */
+const DESTINATION_AXES: Record<string, Array<0 | 1>> = {
+    XYZ: [0, 1], // left top zoom
+    FitR: [0, 1, 0, 1], // left bottom right top
+    FitH: [1],
+    FitBH: [1],
+    FitV: [0],
+    FitBV: [0],
+};
+
+const transformDestination = (dest: PDFArray, transform: PageTransform): void => {
+    const view = dest.lookup(1);
+    const axes = view instanceof PDFName ? DESTINATION_AXES[view.decodeText()] : undefined;
+    axes?.forEach((axis, i) => {
+        const value = dest.lookup(i + 2);
+        if (value instanceof PDFNumber) {
+            dest.set(i + 2, PDFNumber.of(value.asNumber() * transform.scale + (axis === 0 ? transform.tx : transform.ty)));
+        }
+    });
+};
+
+/**
+ * Move every explicit destination onto its resized page: outline items, link
+ * annotations, GoTo actions and named destinations all hold [page /View ...] arrays
+ * @param transforms - Transform by page reference
+ */
+const transformDestinations = (pdf: PDFDocument, transforms: Map<string, PageTransform>): void => {
+    const visit = (object: PDFObject | undefined, depth: number): void => {
+        if (depth > 32) return;
+        if (object instanceof PDFArray) {
+            const target = object.get(0);
+            const transform = target instanceof PDFRef ? transforms.get(target.toString()) : undefined;
+            if (transform && object.lookup(1) instanceof PDFName) {
+                transformDestination(object, transform);
+                return;
+            }
+            // Direct children only; indirect objects are visited on their own
+            for (const entry of object.asArray()) visit(entry, depth + 1);
+        } else if (object instanceof PDFDict) {
+            for (const [, entry] of object.entries()) visit(entry, depth + 1);
+        }
+    };
+
+    for (const [, object] of pdf.context.enumerateIndirectObjects()) visit(object, 0);
+};
+
+/**
+ * Give a page its planned size, keeping its /Rotate
+ * @returns How the page's old user space maps onto the new page
+ */
+const applyResizePlan = (pdf: PDFDocument, page: PDFPage, plan: ResizePlan, handled: Set<PDFDict>): PageTransform => {
+    const old = getPageFrame(page);
+    const quarterTurn = old.rotation === 90 || old.rotation === 270;
+    const frame: PageFrame = {
+        box: { x: 0, y: 0, width: quarterTurn ? plan.height : plan.width, height: quarterTurn ? plan.width : plan.height },
+        rotation: old.rotation,
+        width: plan.width,
+        height: plan.height,
+    };
+
+    // The old crop box lands on the placement; anything outside it or the margins stays hidden
+    const placement = toUnrotatedRect(frame, plan.placement);
+    const visible = intersect(placement, toUnrotatedRect(frame, plan.area));
+    const tx = placement.x - old.box.x * plan.scale;
+    const ty = placement.y - old.box.y * plan.scale;
+
+    page.node.normalize();
+    page.node.wrapContentStreams(
+        pdf.context.register(pdf.context.contentStream([
+            pushGraphicsState(),
+            rectangle(visible.x, visible.y, visible.width, visible.height),
+            clip(),
+            endPath(),
+            concatTransformationMatrix(plan.scale, 0, 0, plan.scale, tx, ty),
+        ])),
+        pdf.context.register(pdf.context.contentStream([popGraphicsState()]))
+    );
+    const transform = { scale: plan.scale, tx, ty };
+    transformAnnotations(page, transform, handled);
+
+    page.setMediaBox(0, 0, frame.box.width, frame.box.height);
+    page.setCropBox(0, 0, frame.box.width, frame.box.height);
+    // Print boxes no longer describe the new page
+    for (const key of ['TrimBox', 'BleedBox', 'ArtBox']) {
+        page.node.delete(PDFName.of(key));
+    }
+    return transform;
+};
+
+// ── Resizing ─────────────────────────────────────────
+
+/**
+ * Bring every page of a PDF to one page size
+ * @param file - The PDF to resize
+ * @param config - Target size, orientation, scaling mode and margins
+ * @param password - Optional password if the PDF is encrypted
+ * @returns Promise<Uint8Array> - The resized PDF
+ */
+export const resizePDF = async (
+    file: File,
+    config: ResizePdfConfig,
+    password?: string,
+    onProgress?: (progress: number, status: string) => void,
+    abortSignal?: { current: boolean }
+): Promise<Uint8Array> => {
+    if (!file.type.includes('pdf') && !file.name.toLowerCase().endsWith('.pdf')) {
+        throw new Error('File is not a PDF');
+    }
+
+    onProgress?.(5, 'Loading PDF...');
+    const pdf = await loadPDFDocument(await file.arrayBuffer(), password);
+    const pages = pdf.getPages();
+    const transforms = new Map<string, PageTransform>();
+    const handledAnnotations = new Set<PDFDict>();
+
+    for (let i = 0; i < pages.length; i++) {
+        if (abortSignal?.current) throw new Error('Resize cancelled');
+        onProgress?.(10 + (i / pages.length) * 80, `Resizing page ${i + 1} of ${pages.length}...`);
+
+        const frame = getPageFrame(pages[i]);
+        const plan = planPageResize({ width: frame.width, height: frame.height }, config);
+        transforms.set(pages[i].ref.toString(), applyResizePlan(pdf, pages[i], plan, handledAnnotations));
+    }
+    transformDestinations(pdf, transforms);
+
+    onProgress?.(95, 'Saving PDF...');
+    const data = await pdf.save();
+    onProgress?.(100, 'Resize complete!');
+    return data;
+};
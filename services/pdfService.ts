@@ -3,31 +3,82 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { PDFDocument, degrees, PDFPage, rgb } from 'pdf-lib';
+import { PDFDocument, PDFName, PDFRef, degrees, PDFPage, rgb, type LoadOptions } from 'pdf-lib';
+import { listRecompressibleImages, measureImagePlacements, rasterizeImage, canvasToJpegBytes } from './pdfImageCodec';
+import { encryptDocument, decryptPDFBytes, readEncryptionInfo, type PDFEncryptionInfo } from './pdfEncryption';
+import {
+    readOutline,
+    writeOutline,
+    writeNamedDestinations,
+    detachNavigation,
+    attachNavigation,
+    copyPageAnnotations,
+    type OutlineItem,
+    type PageDestination,
+} from './pdfNavigation';
+import { detectBlankPages } from './pdfPageAnalysis';
+import { DEFAULT_ENCRYPT_PDF_CONFIG } from '../types';
 import type {
     ImageToPdfConfig,
     MergePdfConfig,
     SplitPdfConfig,
     CompressPdfConfig,
+    CompressionLevel,
     RotatePdfConfig,
+    EncryptPdfConfig,
+    EncryptPermissions,
     PdfToImageConfig,
     PageSize,
     MarginSize,
     PageSizeDimensions,
-    MarginDimensions
+    MarginDimensions,
+    BlankPageOptions,
+    OrganizerPage
 } from '../types';
 
+export type { EncryptPermissions } from '../types';
+export type { PDFEncryptionInfo } from './pdfEncryption';
+
+/**
+ * Load a PDF, decrypting it first when it is password-protected.
+ * Files restricted only by an owner password open without one.
+ * @param options - pdf-lib load options, e.g. `updateMetadata: false` to keep Producer/ModDate as they are
+ */
+export const loadPDFDocument = async (
+    data: ArrayBuffer,
+    password?: string,
+    options: Omit<LoadOptions, 'ignoreEncryption'> = {}
+): Promise<PDFDocument> => {
+    const pdf = await PDFDocument.load(data, { ...options, ignoreEncryption: true });
+    if (!pdf.isEncrypted) return pdf;
+
+    try {
+        return await PDFDocument.load(await decryptPDFBytes(new Uint8Array(data), password ?? ''), options);
+    } catch (error) {
+        if (error instanceof Error && error.message === 'Incorrect password') {
+            throw new Error(password
+                ? 'Incorrect password'
+                : 'This PDF is password-protected. Please provide its password.');
+        }
+        throw error;
+    }
+};
+
 /**
  * Merge multiple PDF files into a single PDF
  * @param files - Array of PDF File objects to merge
  * @param config - Optional configuration for page ordering and selection
+ *                 Bookmarks, named destinations and internal links of every
+ *                 input are carried over and remapped to the merged pages.
+ * @param passwords - Optional passwords for encrypted inputs, keyed by file name
  * @returns Promise<Uint8Array> - The merged PDF as a byte array
  */
 export const mergePDFs = async (
     files: File[],
     config?: MergePdfConfig,
     onProgress?: (progress: number, status: string) => void,
-    abortSignal?: { current: boolean }
+    abortSignal?: { current: boolean },
+    passwords?: Record<string, string>
 ): Promise<Uint8Array> => {
     if (files.length === 0) {
         throw new Error('No files provided for merging');
@@ -62,6 +113,10 @@ export const mergePDFs = async (
         processOrder = files.map(file => ({ file, pageIndices: undefined }));
     }
 
+    // Bookmarks and named destinations collected against merged page indices
+    const mergedOutline: OutlineItem[] = [];
+    const mergedDestinations = new Map<string, PageDestination>();
+
     // Process each file according to order
     const total = processOrder.length;
     for (let idx = 0; idx < total; idx++) {
@@ -81,7 +136,7 @@ export const mergePDFs = async (
             const arrayBuffer = await file.arrayBuffer();
 
             // Load the PDF
-            const pdf = await PDFDocument.load(arrayBuffer);
+            const pdf = await loadPDFDocument(arrayBuffer, passwords?.[file.name]);
 
             // Determine which pages to copy
             const pagesToCopy = pageIndices || pdf.getPageIndices();
@@ -94,13 +149,37 @@ export const mergePDFs = async (
                 }
             }
 
+            const navigation = detachNavigation(pdf, pagesToCopy);
+
             // Copy specified pages from this PDF to the merged PDF
+            const pageOffset = mergedPdf.getPageCount();
             const copiedPages = await mergedPdf.copyPages(pdf, pagesToCopy);
 
             // Add each copied page to the merged document
             copiedPages.forEach((page) => {
                 mergedPdf.addPage(page);
             });
+
+            // Map source page indices to merged pages (first copy wins for duplicates)
+            const pageMap = new Map<number, number>();
+            const pageRefs = new Map<number, PDFRef>();
+            pagesToCopy.forEach((sourceIdx, i) => {
+                if (pageMap.has(sourceIdx)) return;
+                pageMap.set(sourceIdx, pageOffset + i);
+                pageRefs.set(sourceIdx, copiedPages[i].ref);
+            });
+
+            const fileOutline = attachNavigation(navigation, copiedPages, pageMap, pageRefs, mergedDestinations);
+            if (config?.addFileBookmarks && copiedPages.length > 0) {
+                mergedOutline.push({
+                    title: file.name.replace(/\.pdf$/i, ''),
+                    destination: { pageIndex: pageOffset, view: ['Fit'] },
+                    children: fileOutline,
+                    open: false,
+                });
+            } else {
+                mergedOutline.push(...fileOutline);
+            }
         } catch (error) {
             if (error instanceof Error && error.message === 'Merge cancelled') throw error;
             throw new Error(`Failed to process "${file.name}": ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -108,6 +187,11 @@ export const mergePDFs = async (
     }
 
     if (abortSignal?.current) throw new Error('Merge cancelled');
+
+    const mergedPageRefs = mergedPdf.getPages().map(page => page.ref);
+    if (mergedOutline.length > 0) writeOutline(mergedPdf, mergedOutline, mergedPageRefs);
+    writeNamedDestinations(mergedPdf, mergedDestinations, mergedPageRefs);
+
     onProgress?.(95, 'Saving merged PDF...');
 
     // Save the merged PDF
@@ -116,17 +200,82 @@ export const mergePDFs = async (
     return mergedPdfBytes;
 };
 
+/** 0-based page indices from start (inclusive) to end (exclusive) */
+const pageSpan = (start: number, end: number): number[] =>
+    Array.from({ length: end - start }, (_, k) => start + k);
+
+/** Make a bookmark title safe to use in a file name */
+const sanitizeFileName = (title: string): string =>
+    title.replace(/[\\/:*?"<>|\x00-\x1f]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 80);
+
+/**
+ * Group consecutive pages into parts that each save under `maxBytes`.
+ * Fonts and images shared between pages are stored once per part, so
+ * sizes are measured by saving candidate parts rather than summed per page.
+ * A single page larger than the limit becomes a part of its own.
+ */
+const planPartsBySize = async (
+    sourcePdf: PDFDocument,
+    maxBytes: number,
+    onPagesPlanned?: (pagesDone: number) => void,
+    abortSignal?: { current: boolean }
+): Promise<number[][]> => {
+    const totalPages = sourcePdf.getPageCount();
+
+    const fits = async (start: number, end: number): Promise<boolean> => {
+        if (abortSignal?.current) throw new Error('Split cancelled');
+        const partPdf = await PDFDocument.create();
+        const copiedPages = await partPdf.copyPages(sourcePdf, pageSpan(start, end));
+        copiedPages.forEach(page => partPdf.addPage(page));
+        return (await partPdf.save()).length <= maxBytes;
+    };
+
+    const parts: number[][] = [];
+    let start = 0;
+    while (start < totalPages) {
+        // Gallop to a part length that no longer fits, then binary search the boundary
+        let good = start + 1;
+        let step = 1;
+        let bad = totalPages + 1;
+        while (good < totalPages) {
+            const candidate = Math.min(totalPages, good + step);
+            if (await fits(start, candidate)) {
+                good = candidate;
+                step *= 2;
+            } else {
+                bad = candidate;
+                break;
+            }
+        }
+        while (bad - good > 1) {
+            const mid = Math.floor((good + bad) / 2);
+            if (await fits(start, mid)) good = mid;
+            else bad = mid;
+        }
+
+        parts.push(pageSpan(start, good));
+        start = good;
+        onPagesPlanned?.(start);
+    }
+
+    return parts;
+};
+
 /**
  * Split a PDF into separate pages or page ranges
  * @param file - The PDF file to split
- * @param config - Configuration for split mode and options
+ * @param config - Configuration for split mode and options. Besides explicit
+ *                 pages, parts can start at bookmarks, stay under a byte size
+ *                 or be separated by blank pages (which are dropped).
+ * @param password - Optional password if the PDF is encrypted
  * @returns Promise<Uint8Array[]> - Array of split PDF byte arrays
  */
 export const splitPDF = async (
     file: File,
     config: SplitPdfConfig,
     onProgress?: (progress: number, status: string) => void,
-    abortSignal?: { current: boolean }
+    abortSignal?: { current: boolean },
+    password?: string
 ): Promise<{ pdf: Uint8Array; name: string }[]> => {
     if (!file.type.includes('pdf') && !file.name.toLowerCase().endsWith('.pdf')) {
         throw new Error('File is not a PDF');
@@ -136,7 +285,7 @@ export const splitPDF = async (
 
     // Read the file
     const arrayBuffer = await file.arrayBuffer();
-    const sourcePdf = await PDFDocument.load(arrayBuffer);
+    const sourcePdf = await loadPDFDocument(arrayBuffer, password);
     const totalPages = sourcePdf.getPageCount();
 
     if (totalPages === 0) {
@@ -148,6 +297,7 @@ export const splitPDF = async (
 
     const baseName = file.name.replace(/\.pdf$/i, '');
     let parsedRanges: number[][] = [];
+    const partNames: Array<string | undefined> = []; // Optional name for each range
 
     // Parse based on split mode
     switch (config.mode) {
@@ -221,6 +371,76 @@ export const splitPDF = async (
             }
             break;
 
+        case 'bookmarks': {
+            const level = Math.max(1, config.bookmarkLevel || 1);
+            const titlesByStartPage = new Map<number, string>();
+            const collectStarts = (items: OutlineItem[], depth: number) => {
+                for (const item of items) {
+                    // Parents come before their children, so a chapter keeps its own title
+                    if (item.destination && !titlesByStartPage.has(item.destination.pageIndex)) {
+                        titlesByStartPage.set(item.destination.pageIndex, item.title);
+                    }
+                    if (depth < level) collectStarts(item.children, depth + 1);
+                }
+            };
+            collectStarts(readOutline(sourcePdf), 1);
+
+            if (titlesByStartPage.size === 0) {
+                throw new Error('This PDF has no bookmarks to split at');
+            }
+
+            const startPages = [...titlesByStartPage.keys()].sort((a, b) => a - b);
+            if (startPages[0] > 0) startPages.unshift(0); // Pages before the first bookmark
+
+            startPages.forEach((start, i) => {
+                const end = i + 1 < startPages.length ? startPages[i + 1] : totalPages;
+                parsedRanges.push(pageSpan(start, end));
+                partNames.push(titlesByStartPage.get(start));
+            });
+            break;
+        }
+
+        case 'file-size': {
+            const maxFileSizeMB = config.maxFileSizeMB || 10;
+            if (maxFileSizeMB <= 0) {
+                throw new Error('Maximum file size must be greater than 0');
+            }
+            parsedRanges = await planPartsBySize(
+                sourcePdf,
+                maxFileSizeMB * 1024 * 1024,
+                (pagesDone) => onProgress?.(10 + (pagesDone / totalPages) * 10, `Measuring part sizes (${pagesDone} of ${totalPages} pages)...`),
+                abortSignal
+            );
+            break;
+        }
+
+        case 'blank-pages': {
+            const blankPages = new Set(await detectBlankPages(
+                arrayBuffer,
+                config.blankInkThreshold ?? 0.5,
+                password,
+                (progress, status) => onProgress?.(10 + progress / 10, status),
+                abortSignal
+            ));
+
+            // Separator pages end the current part and are dropped
+            let current: number[] = [];
+            for (let i = 0; i < totalPages; i++) {
+                if (!blankPages.has(i)) {
+                    current.push(i);
+                } else if (current.length > 0) {
+                    parsedRanges.push(current);
+                    current = [];
+                }
+            }
+            if (current.length > 0) parsedRanges.push(current);
+
+            if (parsedRanges.length === 0) {
+                throw new Error('Every page in this PDF is blank');
+            }
+            break;
+        }
+
         default:
             throw new Error(`Unknown split mode: ${config.mode}`);
     }
@@ -259,7 +479,13 @@ export const splitPDF = async (
 
         // Generate descriptive name based on mode
         let name: string;
-        if (config.mode === 'extract' && pages.length === 1) {
+        const partName = partNames[i] && sanitizeFileName(partNames[i]!);
+        if (partName) {
+            name = `${baseName}_${partName}.pdf`;
+            for (let n = 2; results.some(result => result.name === name); n++) {
+                name = `${baseName}_${partName}_${n}.pdf`;
+            }
+        } else if (config.mode === 'extract' && pages.length === 1) {
             name = `${baseName}_page_${pages[0] + 1}.pdf`;
         } else {
             const pagesList = pages.map(p => p + 1).join('-');
@@ -274,85 +500,211 @@ export const splitPDF = async (
 };
 
 /**
- * Compress a PDF by removing duplicate objects and optimizing
+ * Image resampling settings per compression level.
+ * `dpi` caps the effective resolution of each image at the size it is drawn;
+ * `quality` is the JPEG quality used when re-encoding.
+ */
+export const COMPRESSION_PRESETS: Record<CompressionLevel, {
+    dpi: number;
+    quality: number;
+    useObjectStreams: boolean;
+    objectsPerTick: number;
+}> = {
+    low: { dpi: 220, quality: 0.85, useObjectStreams: false, objectsPerTick: 100 },
+    medium: { dpi: 150, quality: 0.72, useObjectStreams: true, objectsPerTick: 50 },
+    high: { dpi: 110, quality: 0.6, useObjectStreams: true, objectsPerTick: 25 },
+    extreme: { dpi: 72, quality: 0.45, useObjectStreams: true, objectsPerTick: 10 },
+};
+
+/** Maximum re-encoding passes when chasing a target file size */
+const MAX_TARGET_SIZE_PASSES = 6;
+
+/** Smallest DPI / quality the target-size loop will step down to */
+const MIN_TARGET_DPI = 36;
+const MIN_TARGET_QUALITY = 0.1;
+
+/**
+ * Downsample and re-encode every image XObject in the document as JPEG.
+ * Each image is resampled so that it is no denser than `dpi` at the largest
+ * size it is drawn on any page; images that would not shrink are left as-is.
+ * @returns Number of images that were replaced
+ */
+const recompressImages = async (
+    pdf: PDFDocument,
+    settings: { dpi: number; quality: number },
+    onProgress?: (done: number, total: number) => void
+): Promise<number> => {
+    const images = listRecompressibleImages(pdf);
+    if (images.length === 0) return 0;
+
+    const placements = measureImagePlacements(pdf);
+
+    // Images that are never drawn directly on a page (e.g. patterns)
+    // are bounded by the largest page instead
+    const fallback = pdf.getPages().reduce(
+        (max, page) => {
+            const { width, height } = page.getSize();
+            return { width: Math.max(max.width, width), height: Math.max(max.height, height) };
+        },
+        { width: 0, height: 0 }
+    );
+
+    let replaced = 0;
+
+    for (let i = 0; i < images.length; i++) {
+        const image = images[i];
+        onProgress?.(i, images.length);
+
+        const placement = placements.get(image.ref.toString()) ?? fallback;
+        const maxWidth = (placement.width / 72) * settings.dpi;
+        const maxHeight = (placement.height / 72) * settings.dpi;
+        const ratio = Math.min(1, maxWidth / image.width, maxHeight / image.height);
+        const targetWidth = Math.max(1, Math.round(image.width * ratio));
+        const targetHeight = Math.max(1, Math.round(image.height * ratio));
+
+        const canvas = await rasterizeImage(image, targetWidth, targetHeight);
+        if (!canvas) continue;
+
+        let jpegBytes: Uint8Array;
+        try {
+            jpegBytes = await canvasToJpegBytes(canvas, settings.quality);
+        } finally {
+            canvas.width = 0;
+            canvas.height = 0;
+        }
+
+        // Keep the original when re-encoding would not save space
+        if (jpegBytes.length >= image.stream.getContentsSize()) continue;
+
+        // Canvas always encodes RGB JPEGs, so grayscale sources become DeviceRGB
+        const replacement = pdf.context.stream(jpegBytes, {
+            Type: 'XObject',
+            Subtype: 'Image',
+            Width: targetWidth,
+            Height: targetHeight,
+            ColorSpace: 'DeviceRGB',
+            BitsPerComponent: 8,
+            Filter: 'DCTDecode',
+        });
+        // Soft and stencil masks stay as they are; the new image points at the same streams
+        for (const key of ['SMask', 'Mask']) {
+            const mask = image.stream.dict.get(PDFName.of(key));
+            if (mask) replacement.dict.set(PDFName.of(key), mask);
+        }
+        const interpolate = image.stream.dict.get(PDFName.of('Interpolate'));
+        if (interpolate) {
+            replacement.dict.set(PDFName.of('Interpolate'), interpolate);
+        }
+        pdf.context.assign(image.ref, replacement);
+        replaced++;
+    }
+
+    onProgress?.(images.length, images.length);
+    return replaced;
+};
+
+/**
+ * Compress a PDF by downsampling and re-encoding images and optimizing structure
  * @param file - The PDF file to compress
  * @param config - Configuration for compression level and options
+ * @param onProgress - Optional progress callback
+ * @param password - Optional password if the PDF is encrypted
  * @returns Promise<Uint8Array> - The compressed PDF as a byte array
  */
-export const compressPDF = async (file: File, config?: CompressPdfConfig): Promise<Uint8Array> => {
+export const compressPDF = async (
+    file: File,
+    config?: CompressPdfConfig,
+    onProgress?: (progress: number, status: string) => void,
+    password?: string
+): Promise<Uint8Array> => {
     if (!file.type.includes('pdf') && !file.name.toLowerCase().endsWith('.pdf')) {
         throw new Error('File is not a PDF');
     }
 
+    onProgress?.(5, 'Loading PDF...');
+
     // Read the file
     const arrayBuffer = await file.arrayBuffer();
-    const pdf = await PDFDocument.load(arrayBuffer);
 
     // Apply configuration
     const compressionLevel = config?.compressionLevel || 'medium';
     const optimizeImages = config?.optimizeImages ?? true;
     const removeMetadata = config?.removeMetadata ?? false;
+    const targetFileSize = config?.targetFileSize && config.targetFileSize > 0 ? config.targetFileSize : undefined;
+    const preset = COMPRESSION_PRESETS[compressionLevel] || COMPRESSION_PRESETS.medium;
+
+    let dpi = preset.dpi;
+    let quality = config?.qualityPercentage !== undefined
+        ? Math.min(1, Math.max(MIN_TARGET_QUALITY, config.qualityPercentage / 100))
+        : preset.quality;
+
+    const maxPasses = targetFileSize && optimizeImages ? MAX_TARGET_SIZE_PASSES : 1;
+    let best: Uint8Array | null = null;
+
+    for (let pass = 0; pass < maxPasses; pass++) {
+        const passStart = 10 + (pass / maxPasses) * 85;
+        const passSpan = 85 / maxPasses;
+
+        // Reload from the original bytes so each pass resamples the source images once
+        const pdf = await loadPDFDocument(arrayBuffer, password);
+
+        // Remove metadata if requested
+        if (removeMetadata) {
+            pdf.setTitle('');
+            pdf.setAuthor('');
+            pdf.setSubject('');
+            pdf.setKeywords([]);
+            pdf.setProducer('');
+            pdf.setCreator('');
+        }
 
-    // Remove metadata if requested
-    if (removeMetadata) {
-        pdf.setTitle('');
-        pdf.setAuthor('');
-        pdf.setSubject('');
-        pdf.setKeywords([]);
-        pdf.setProducer('');
-        pdf.setCreator('');
-    }
-
-    // Configure compression options based on level
-    const compressionOptions: any = {
-        addDefaultPage: false,
-    };
-
-    switch (compressionLevel) {
-        case 'low':
-            compressionOptions.useObjectStreams = false;
-            compressionOptions.objectsPerTick = 100;
-            break;
+        let replaced = 0;
+        if (optimizeImages) {
+            replaced = await recompressImages(pdf, { dpi, quality }, (done, total) => {
+                onProgress?.(
+                    passStart + (done / Math.max(1, total)) * passSpan * 0.8,
+                    pass === 0
+                        ? `Optimizing image ${Math.min(done + 1, total)} of ${total}...`
+                        : `Pass ${pass + 1}: re-encoding image ${Math.min(done + 1, total)} of ${total}...`
+                );
+            });
+        }
 
-        case 'medium':
-            compressionOptions.useObjectStreams = true;
-            compressionOptions.objectsPerTick = 50;
-            break;
+        onProgress?.(passStart + passSpan * 0.85, 'Saving compressed PDF...');
+        const bytes = await pdf.save({
+            addDefaultPage: false,
+            useObjectStreams: preset.useObjectStreams,
+            objectsPerTick: preset.objectsPerTick,
+        });
 
-        case 'high':
-            compressionOptions.useObjectStreams = true;
-            compressionOptions.objectsPerTick = 25;
-            break;
+        if (!best || bytes.length < best.length) {
+            best = bytes;
+        }
 
-        case 'extreme':
-            compressionOptions.useObjectStreams = true;
-            compressionOptions.objectsPerTick = 10;
+        // Stop when the target is met, or when there are no images left to squeeze
+        if (!targetFileSize || best.length <= targetFileSize || replaced === 0) {
             break;
+        }
 
-        default:
-            compressionOptions.useObjectStreams = true;
-            compressionOptions.objectsPerTick = 50;
+        quality = Math.max(MIN_TARGET_QUALITY, quality * 0.75);
+        dpi = Math.max(MIN_TARGET_DPI, dpi * 0.8);
     }
 
-    // Note: pdf-lib has limited image compression capabilities
-    // For more advanced image optimization, we would need additional libraries
-    // Currently we rely on pdf-lib's built-in object stream compression
-
-    // Save with compression options
-    const compressedPdfBytes = await pdf.save(compressionOptions);
-
-    return compressedPdfBytes;
+    onProgress?.(100, 'Compression complete!');
+    return best!;
 };
 
 /**
  * Rotate PDF pages
  * @param file - The PDF file to rotate
  * @param config - Configuration for rotation angle and page selection
+ * @param password - Optional password if the PDF is encrypted
  * @returns Promise<Uint8Array> - The rotated PDF as a byte array
  */
 export const rotatePDF = async (
     file: File,
-    config: RotatePdfConfig
+    config: RotatePdfConfig,
+    password?: string
 ): Promise<Uint8Array> => {
     if (!file.type.includes('pdf') && !file.name.toLowerCase().endsWith('.pdf')) {
         throw new Error('File is not a PDF');
@@ -366,7 +718,7 @@ export const rotatePDF = async (
 
     // Read the file
     const arrayBuffer = await file.arrayBuffer();
-    const pdf = await PDFDocument.load(arrayBuffer);
+    const pdf = await loadPDFDocument(arrayBuffer, password);
 
     const pages = pdf.getPages();
     const totalPages = pages.length;
@@ -398,12 +750,158 @@ export const rotatePDF = async (
     return rotatedPdfBytes;
 };
 
+/** Size of an inserted blank page, taking 'match' from the nearest page that has one */
+const resolveBlankPageSize = (
+    blank: BlankPageOptions,
+    neighbour?: PDFPage
+): [number, number] => {
+    if (blank.size === 'match') {
+        if (!neighbour) return [595, 842];
+        const { width, height } = neighbour.getSize();
+        const quarterTurn = neighbour.getRotation().angle % 180 !== 0;
+        return quarterTurn ? [height, width] : [width, height];
+    }
+
+    const { width, height } = getPageSizeDimensions(blank.size, blank.customSize);
+    const landscape = blank.orientation === 'landscape';
+    return landscape === width > height ? [width, height] : [height, width];
+};
+
+/**
+ * Rebuild a PDF from an organized page list
+ * @param sources - The document being organized first, then any PDFs pages were inserted from
+ * @param pages - Output pages in order; a source page may appear more than once
+ * @param onProgress - Optional progress callback
+ * @param abortSignal - Optional cancellation flag
+ * @param passwords - Optional passwords for encrypted sources, keyed by file name
+ * @returns Promise<Uint8Array> - The organized PDF as a byte array
+ *
+ * Bookmarks, named destinations and internal links follow their pages and
+ * point at the first copy of a duplicated page; those of deleted pages are dropped.
+ */
+export const organizePDF = async (
+    sources: File[],
+    pages: OrganizerPage[],
+    onProgress?: (progress: number, status: string) => void,
+    abortSignal?: { current: boolean },
+    passwords?: Record<string, string>
+): Promise<Uint8Array> => {
+    if (sources.length === 0) {
+        throw new Error('No file provided to organize');
+    }
+    if (pages.length === 0) {
+        throw new Error('The document must keep at least one page');
+    }
+
+    onProgress?.(5, 'Preparing pages...');
+
+    const organizedPdf = await PDFDocument.create();
+    const placed: Array<PDFPage | undefined> = new Array(pages.length);
+    const outline: OutlineItem[] = [];
+    const destinations = new Map<string, PageDestination>();
+
+    for (let sourceIdx = 0; sourceIdx < sources.length; sourceIdx++) {
+        if (abortSignal?.current) throw new Error('Organize cancelled');
+
+        const positions = pages.flatMap((page, position) => (!page.blank && page.source === sourceIdx ? [position] : []));
+        if (positions.length === 0) continue;
+
+        const file = sources[sourceIdx];
+        onProgress?.(10 + (sourceIdx / sources.length) * 70, `Copying pages from ${file.name}...`);
+
+        try {
+            const pdf = await loadPDFDocument(await file.arrayBuffer(), passwords?.[file.name]);
+            const totalPages = pdf.getPageCount();
+
+            // Keep document information from the file being organized
+            if (sourceIdx === 0) {
+                const title = pdf.getTitle();
+                const author = pdf.getAuthor();
+                const subject = pdf.getSubject();
+                const keywords = pdf.getKeywords();
+                if (title) organizedPdf.setTitle(title);
+                if (author) organizedPdf.setAuthor(author);
+                if (subject) organizedPdf.setSubject(subject);
+                if (keywords) organizedPdf.setKeywords([keywords]);
+            }
+
+            const pagesToCopy = [...new Set(positions.map(position => pages[position].pageIndex))];
+            for (const pageIdx of pagesToCopy) {
+                if (pageIdx < 0 || pageIdx >= totalPages) {
+                    throw new Error(`Invalid page index ${pageIdx} in file "${file.name}". File has ${totalPages} pages.`);
+                }
+            }
+
+            const navigation = detachNavigation(pdf, pagesToCopy);
+
+            const copiedPages = await organizedPdf.copyPages(pdf, pagesToCopy);
+            const copies = new Map(pagesToCopy.map((pageIdx, i) => [pageIdx, copiedPages[i]]));
+
+            // The first use of a page takes the copy; duplicates get their own page
+            // dictionary sharing its content and resources
+            const pageMap = new Map<number, number>();
+            const pageRefs = new Map<number, PDFRef>();
+            const clones: PDFPage[] = [];
+            for (const position of positions) {
+                const { pageIndex } = pages[position];
+                const copy = copies.get(pageIndex)!;
+                if (!pageMap.has(pageIndex)) {
+                    pageMap.set(pageIndex, position);
+                    pageRefs.set(pageIndex, copy.ref);
+                    placed[position] = copy;
+                } else {
+                    const node = copy.node.clone();
+                    const clone = PDFPage.of(node, organizedPdf.context.register(node), organizedPdf);
+                    clones.push(clone);
+                    placed[position] = clone;
+                }
+            }
+
+            outline.push(...attachNavigation(navigation, copiedPages, pageMap, pageRefs, destinations));
+
+            // Duplicates now carry the resolved links; give each its own annotations to edit
+            clones.forEach(copyPageAnnotations);
+        } catch (error) {
+            if (error instanceof Error && error.message === 'Organize cancelled') throw error;
+            throw new Error(`Failed to process "${file.name}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    if (abortSignal?.current) throw new Error('Organize cancelled');
+    onProgress?.(85, 'Arranging pages...');
+
+    pages.forEach((page, position) => {
+        let pdfPage: PDFPage;
+        if (page.blank) {
+            const neighbour = placed.slice(0, position).reverse().find(Boolean) ?? placed.slice(position + 1).find(Boolean);
+            pdfPage = organizedPdf.addPage(resolveBlankPageSize(page.blank, neighbour));
+        } else {
+            pdfPage = organizedPdf.addPage(placed[position]!);
+        }
+
+        if (page.rotation % 360 !== 0) {
+            const angle = (((pdfPage.getRotation().angle + page.rotation) % 360) + 360) % 360;
+            pdfPage.setRotation(degrees(angle));
+        }
+    });
+
+    const pageRefs = organizedPdf.getPages().map(page => page.ref);
+    if (outline.length > 0) writeOutline(organizedPdf, outline, pageRefs);
+    writeNamedDestinations(organizedPdf, destinations, pageRefs);
+
+    onProgress?.(95, 'Saving PDF...');
+    const organizedPdfBytes = await organizedPdf.save();
+    onProgress?.(100, 'Organizing complete!');
+    return organizedPdfBytes;
+};
+
 /**
  * Get PDF information
  * @param file - The PDF file to analyze
+ * @param password - Password for an encrypted file
  * @returns Promise<object> - PDF metadata
  */
-export const getPDFInfo = async (file: File): Promise<{
+export const getPDFInfo = async (file: File, password?: string): Promise<{
     pageCount: number;
     title?: string;
     author?: string;
@@ -418,7 +916,7 @@ export const getPDFInfo = async (file: File): Promise<{
     }
 
     const arrayBuffer = await file.arrayBuffer();
-    const pdf = await PDFDocument.load(arrayBuffer);
+    const pdf = await loadPDFDocument(arrayBuffer, password);
 
     return {
         pageCount: pdf.getPageCount(),
@@ -657,7 +1155,7 @@ export const downloadImage = (blob: Blob, filename: string): void => {
  * @param pageSize - The page size name or custom dimensions
  * @returns Page dimensions in points
  */
-const getPageSizeDimensions = (pageSize: PageSize, customSize?: PageSizeDimensions): PageSizeDimensions => {
+export const getPageSizeDimensions = (pageSize: PageSize, customSize?: PageSizeDimensions): PageSizeDimensions => {
     const sizes: Record<PageSize, PageSizeDimensions> = {
         A4: { width: 595, height: 842 },
         Letter: { width: 612, height: 792 },
@@ -674,7 +1172,7 @@ const getPageSizeDimensions = (pageSize: PageSize, customSize?: PageSizeDimensio
  * @param marginSize - The margin size
  * @returns Margin dimensions in points
  */
-const getMarginDimensions = (marginSize: MarginSize, customMargin?: MarginDimensions): MarginDimensions => {
+export const getMarginDimensions = (marginSize: MarginSize, customMargin?: MarginDimensions): MarginDimensions => {
     const margins: Record<MarginSize, MarginDimensions> = {
         none: { top: 0, right: 0, bottom: 0, left: 0 },
         small: { top: 28.35, right: 28.35, bottom: 28.35, left: 28.35 }, // 10mm
@@ -854,23 +1352,20 @@ export const imagesToPDF = async (
 };
 
 /**
- * Encrypt a PDF with a password
+ * Encrypt a PDF with a password using the Standard Security Handler
  * @param file - The PDF file to encrypt
  * @param userPassword - Password for opening the PDF
- * @param ownerPassword - Optional password for modifying PDF permissions (defaults to userPassword)
+ * @param ownerPassword - Optional password for changing permissions (defaults to userPassword)
+ * @param permissions - Operations allowed when opened with the user password
+ * @param options - Algorithm/key length and whether to encrypt XMP metadata
  * @returns Promise<Uint8Array> - The encrypted PDF as a byte array
  */
-export interface EncryptPermissions {
-    printing?: boolean;
-    copying?: boolean;
-    modifying?: boolean;
-}
-
 export const encryptPDF = async (
     file: File,
     userPassword: string,
     ownerPassword?: string,
-    permissions?: EncryptPermissions
+    permissions?: EncryptPermissions,
+    options?: Partial<Pick<EncryptPdfConfig, 'algorithm' | 'encryptMetadata'>>
 ): Promise<Uint8Array> => {
     if (!file.type.includes('pdf') && !file.name.toLowerCase().endsWith('.pdf')) {
         throw new Error('File is not a PDF');
@@ -884,19 +1379,18 @@ export const encryptPDF = async (
     const arrayBuffer = await file.arrayBuffer();
     const pdf = await PDFDocument.load(arrayBuffer);
 
-    // Save with encryption
-    const encryptedPdfBytes = await pdf.save({
-        userPassword: userPassword,
+    await encryptDocument(pdf, {
+        userPassword,
         ownerPassword: ownerPassword || userPassword,
-        permissions: {
-            printing: permissions?.printing !== false ? 'highResolution' : 'none' as any,
-            modifying: permissions?.modifying ?? false,
-            copying: permissions?.copying ?? false,
-            annotating: permissions?.modifying ?? false,
-            fillingForms: permissions?.modifying ?? false,
-            contentAccessibility: true,
-            documentAssembly: false,
-        },
+        permissions: { ...DEFAULT_ENCRYPT_PDF_CONFIG.permissions, ...permissions },
+        algorithm: options?.algorithm ?? DEFAULT_ENCRYPT_PDF_CONFIG.algorithm,
+        encryptMetadata: options?.encryptMetadata ?? DEFAULT_ENCRYPT_PDF_CONFIG.encryptMetadata,
+    });
+
+    // Object streams and regenerated form appearances would bypass encryption
+    const encryptedPdfBytes = await pdf.save({
+        useObjectStreams: false,
+        updateFieldAppearances: false,
     });
 
     return encryptedPdfBytes;
@@ -905,7 +1399,7 @@ export const encryptPDF = async (
 /**
  * Unlock (decrypt) a password-protected PDF
  * @param file - The encrypted PDF file
- * @param password - Password to unlock the PDF
+ * @param password - User or owner password to unlock the PDF; empty for files with only an owner password
  * @returns Promise<Uint8Array> - The unlocked PDF as a byte array
  */
 export const unlockPDF = async (
@@ -916,22 +1410,13 @@ export const unlockPDF = async (
         throw new Error('File is not a PDF');
     }
 
-    if (!password || password.trim() === '') {
-        throw new Error('Password is required');
-    }
-
+    // An empty password is valid: files with only an owner password open with an empty user password
     try {
         // Read the file
         const arrayBuffer = await file.arrayBuffer();
 
-        // Try to load with password
-        const pdf = await PDFDocument.load(arrayBuffer, {
-            password: password,
-            ignoreEncryption: false,
-        });
-
-        // Save without encryption
-        const unlockedPdfBytes = await pdf.save();
+        // Decrypt every string and stream and drop the /Encrypt dictionary
+        const unlockedPdfBytes = await decryptPDFBytes(new Uint8Array(arrayBuffer), password);
         return unlockedPdfBytes;
     } catch (error) {
         if (error instanceof Error && error.message.includes('password')) {
@@ -944,24 +1429,14 @@ export const unlockPDF = async (
 /**
  * Check if a PDF is encrypted
  * @param file - The PDF file to check
- * @returns Promise<boolean> - True if encrypted, false otherwise
+ * @returns Promise<PDFEncryptionInfo | false> - Algorithm, revision and permissions if encrypted, false otherwise
  */
-export const isPDFEncrypted = async (file: File): Promise<boolean> => {
+export const isPDFEncrypted = async (file: File): Promise<PDFEncryptionInfo | false> => {
     if (!file.type.includes('pdf') && !file.name.toLowerCase().endsWith('.pdf')) {
         throw new Error('File is not a PDF');
     }
 
-    try {
-        const arrayBuffer = await file.arrayBuffer();
-        await PDFDocument.load(arrayBuffer);
-        return false; // Successfully loaded without password
-    } catch (error) {
-        if (error instanceof Error && (
-            error.message.includes('encrypted') ||
-            error.message.includes('password')
-        )) {
-            return true; // PDF is encrypted
-        }
-        throw error; // Some other error occurred
-    }
+    const arrayBuffer = await file.arrayBuffer();
+    const pdf = await PDFDocument.load(arrayBuffer, { ignoreEncryption: true, updateMetadata: false });
+    return readEncryptionInfo(pdf.context) ?? false;
 };
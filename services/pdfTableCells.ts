@@ -0,0 +1,236 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Typed table cells for PDF to Excel
+ * 1. Take the decimal separator and date order from a locale, or infer them from the document's values
+ * 2. Recognise numbers, currency amounts, percentages, negatives in parentheses and dates in cell text
+ * 3. Give each value a spreadsheet number format that shows it the way it was printed
+ */
+
+import { escapeRegExp } from '../utils/escape';
+
+// ── Types ─────────────────────────────────────────
+
+export type DateOrder = 'dmy' | 'mdy' | 'ymd';
+
+export interface NumberConventions {
+    decimal: '.' | ',';
+    dateOrder: DateOrder;
+}
+
+export type TypedCell =
+    | { type: 'text'; value: string; text: string }
+    | { type: 'number'; value: number; format?: string; text: string } // No format: shown as General
+    | { type: 'date'; value: string; format: string; text: string }; // value: ISO yyyy-mm-dd
+
+// ── Constants ─────────────────────────────────────
+
+const DEFAULT_CONVENTIONS: NumberConventions = { decimal: '.', dateOrder: 'mdy' };
+
+/** Currency symbols and codes recognised before or after an amount */
+const CURRENCY = String.raw`US\$|A\$|C\$|R\$|[$€£¥₹₩₽₺₪₫฿₦₱]|CHF|USD|EUR|GBP|JPY|CAD|AUD|INR|CNY|SEK|NOK|DKK|PLN|CZK|zł|Kč|kr`;
+const CURRENCY_PREFIX = new RegExp(`^(${CURRENCY})(\\s?)(.+)$`);
+const CURRENCY_SUFFIX = new RegExp(`^(.+?)(\\s?)(${CURRENCY})$`);
+
+/** Integers with more digits than this are account and reference numbers, which lose digits as numbers */
+const MAX_INTEGER_DIGITS = 15;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// ── Conventions ───────────────────────────────────
+
+/** Decimal separator and date order of a locale, e.g. "de-DE" → 1.234,56 and 22.11.2000 */
+export const conventionsForLocale = (locale: string): NumberConventions => {
+    try {
+        const decimal = new Intl.NumberFormat(locale).formatToParts(1.5).find(part => part.type === 'decimal')?.value;
+        const order = new Intl.DateTimeFormat(locale, { year: 'numeric', month: '2-digit', day: '2-digit' })
+            .formatToParts(new Date(2000, 10, 22))
+            .filter(part => part.type === 'day' || part.type === 'month' || part.type === 'year')
+            .map(part => part.type[0])
+            .join('');
+        return {
+            decimal: decimal === ',' ? ',' : '.',
+            dateOrder: order === 'mdy' || order === 'ymd' ? order : 'dmy',
+        };
+    } catch {
+        return DEFAULT_CONVENTIONS;
+    }
+};
+
+/**
+ * Conventions the document's own values settle, falling back to the given ones:
+ * "1.234,56" or "12,50" mean a decimal comma, "31/01/2024" means day first
+ */
+export const inferConventions = (texts: string[], fallback: NumberConventions): NumberConventions => {
+    let dot = 0;
+    let comma = 0;
+    let dayFirst = 0;
+    let monthFirst = 0;
+
+    for (const text of texts) {
+        const core = text.replace(/[^\d.,/-]/g, '');
+        if (/^\d{1,3}(,\d{3})+\.\d+$|^\d+\.(\d{1,2}|\d{4,})$/.test(core)) dot++;
+        else if (/^\d{1,3}(\.\d{3})+,\d+$|^\d+,(\d{1,2}|\d{4,})$/.test(core)) comma++;
+
+        const date = /^(\d{1,2})[./-](\d{1,2})[./-]\d{2,4}$/.exec(core);
+        if (date && Number(date[1]) > 12) dayFirst++;
+        else if (date && Number(date[2]) > 12) monthFirst++;
+    }
+
+    return {
+        decimal: dot === comma ? fallback.decimal : dot > comma ? '.' : ',',
+        dateOrder: dayFirst === monthFirst ? fallback.dateOrder : dayFirst > monthFirst ? 'dmy' : 'mdy',
+    };
+};
+
+// ── Dates ─────────────────────────────────────────
+
+const isoDate = (year: number, month: number, day: number): string | null => {
+    if (month < 1 || month > 12 || day < 1) return null;
+    if (day > new Date(Date.UTC(year, month, 0)).getUTCDate()) return null;
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+const fullYear = (year: string): number => {
+    const value = Number(year);
+    if (year.length > 2) return value;
+    return value < 50 ? 2000 + value : 1900 + value;
+};
+
+const monthNumber = (name: string): number => MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+
+/** Format code part for a day, month or year written with this many digits */
+const part = (letter: 'd' | 'm' | 'y', digits: string): string =>
+    letter === 'y' ? (digits.length > 2 ? 'yyyy' : 'yy') : letter.repeat(digits.length > 1 ? 2 : 1);
+
+const parseDate = (text: string, order: DateOrder): TypedCell | null => {
+    // 2024-01-31, 2024/01/31
+    let match = /^(\d{4})([./-])(\d{1,2})\2(\d{1,2})$/.exec(text);
+    if (match) {
+        const value = isoDate(Number(match[1]), Number(match[3]), Number(match[4]));
+        const sep = match[2];
+        return value ? { type: 'date', value, text, format: `yyyy${sep}${part('m', match[3])}${sep}${part('d', match[4])}` } : null;
+    }
+
+    // 31/01/2024, 01/31/2024, 31.01.24
+    match = /^(\d{1,2})([./-])(\d{1,2})\2(\d{2}|\d{4})$/.exec(text);
+    if (match) {
+        const [, first, sep, second, year] = match;
+        const dayFirst = order !== 'mdy';
+        for (const asDayFirst of [dayFirst, !dayFirst]) {
+            const [day, month] = asDayFirst ? [first, second] : [second, first];
+            const value = isoDate(fullYear(year), Number(month), Number(day));
+            if (!value) continue;
+            const [a, b] = asDayFirst ? [part('d', first), part('m', second)] : [part('m', first), part('d', second)];
+            return { type: 'date', value, text, format: `${a}${sep}${b}${sep}${part('y', year)}` };
+        }
+        return null;
+    }
+
+    // 31 Jan 2024, 31-Jan-24
+    match = /^(\d{1,2})([\s.-]+)([A-Za-z]{3,9})\.?([\s.,-]+)(\d{2}|\d{4})$/.exec(text);
+    if (match && monthNumber(match[3]) > 0) {
+        const value = isoDate(fullYear(match[5]), monthNumber(match[3]), Number(match[1]));
+        const sep = match[2].includes('-') ? '-' : ' ';
+        return value ? { type: 'date', value, text, format: `${part('d', match[1])}${sep}mmm${sep}${part('y', match[5])}` } : null;
+    }
+
+    // January 31, 2024
+    match = /^([A-Za-z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{4})$/.exec(text);
+    if (match && monthNumber(match[1]) > 0) {
+        const value = isoDate(Number(match[3]), monthNumber(match[1]), Number(match[2]));
+        const month = match[1].length > 3 ? 'mmmm' : 'mmm';
+        return value ? { type: 'date', value, text, format: `${month} ${part('d', match[2])}, yyyy` } : null;
+    }
+
+    return null;
+};
+
+// ── Numbers ───────────────────────────────────────
+
+const parseNumber = (text: string, decimal: '.' | ','): TypedCell | null => {
+    let rest = text.replace(/[  ]/g, ' ');
+    let negative = false;
+    let parentheses = false;
+    let percent = false;
+    let currency: { symbol: string; prefix: boolean; space: boolean } | null = null;
+
+    if (/^\(.+\)$/.test(rest)) {
+        parentheses = negative = true;
+        rest = rest.slice(1, -1).trim();
+    }
+
+    // Signs may come before or after a currency symbol: -$5, $-5, 5- (trailing minus)
+    const takeSign = () => {
+        if (/^[-−–]\s?/.test(rest)) {
+            negative = !negative;
+            rest = rest.replace(/^[-−–]\s?/, '');
+        } else if (/\d\s?[-−]$/.test(rest)) {
+            negative = !negative;
+            rest = rest.replace(/\s?[-−]$/, '');
+        }
+    };
+
+    takeSign();
+    const prefix = CURRENCY_PREFIX.exec(rest);
+    const suffix = prefix ? null : CURRENCY_SUFFIX.exec(rest);
+    if (prefix) {
+        currency = { symbol: prefix[1], prefix: true, space: prefix[2] !== '' };
+        rest = prefix[3];
+    } else if (suffix) {
+        currency = { symbol: suffix[3], prefix: false, space: suffix[2] !== '' };
+        rest = suffix[1];
+    }
+    if (currency) takeSign();
+
+    if (/\s?%$/.test(rest)) {
+        percent = true;
+        rest = rest.replace(/\s?%$/, '');
+    }
+
+    // Digits with optional grouping (one consistent separator) and decimals
+    const point = escapeRegExp(decimal);
+    const groups = decimal === '.' ? `[, ']` : `[. ']`;
+    const match = new RegExp(`^(\\d{1,3}(?:(${groups})\\d{3})(?:\\2\\d{3})*|\\d+|)(?:${point}(\\d+))?$`).exec(rest);
+    if (!match || (!match[1] && !match[3])) return null;
+
+    const [, whole, groupSeparator, fraction = ''] = match;
+    const grouped = !!groupSeparator;
+    const digits = whole.replace(/\D/g, '');
+    // Leading zeros mark codes such as 00123, not amounts
+    if (!fraction && !currency && !percent && /^0\d/.test(digits)) return null;
+    if (digits.length > MAX_INTEGER_DIGITS) return null;
+
+    let value = Number(`${digits || '0'}.${fraction || '0'}`);
+    if (negative) value = -value;
+    if (percent) value /= 100;
+
+    let format = `${grouped ? '#,##0' : '0'}${fraction ? `.${'0'.repeat(fraction.length)}` : ''}`;
+    if (percent) format += '%';
+    if (currency) {
+        const symbol = `"${currency.symbol}"`;
+        const gap = currency.space ? ' ' : '';
+        format = currency.prefix ? `${symbol}${gap}${format}` : `${format}${gap}${symbol}`;
+    }
+    if (parentheses) format = `${format};(${format})`;
+
+    return { type: 'number', value: Object.is(value, -0) ? 0 : value, text, format: format === '0' ? undefined : format };
+};
+
+// ── Main Entry Point ──────────────────────────────
+
+/** A cell's text as a date, a number or plain text */
+export const parseCell = (text: string, conventions: NumberConventions): TypedCell => {
+    const trimmed = text.trim();
+    if (!trimmed || !/\d/.test(trimmed)) return { type: 'text', value: text, text };
+    return parseDate(trimmed, conventions.dateOrder)
+        ?? parseNumber(trimmed, conventions.decimal)
+        ?? { type: 'text', value: text, text };
+};
+
+/** Spreadsheet serial number of an ISO date (days since 1899-12-30) */
+export const dateSerial = (iso: string): number => {
+    const [year, month, day] = iso.split('-').map(Number);
+    return (Date.UTC(year, month - 1, day) - Date.UTC(1899, 11, 30)) / 86_400_000;
+};
@@ -0,0 +1,464 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Table detection for PDF to Excel
+ * 1. Join the page's drawn lines and rectangle edges into connected grids of ruling lines
+ * 2. Turn each grid into rows and columns, merging cells whose separating line is missing
+ * 3. Cluster the remaining text into borderless tables, split where a large gap or a ruled table lies between rows
+ *
+ * All positions are in points from the top-left corner of the page as displayed.
+ */
+
+// ── Types ─────────────────────────────────────────
+
+export interface TextItem {
+    text: string;
+    x: number;
+    y: number; // Baseline
+    width: number;
+    fontSize: number;
+}
+
+/** A drawn horizontal (y0 === y1) or vertical (x0 === x1) line */
+export interface RulingLine {
+    x0: number;
+    y0: number;
+    x1: number;
+    y1: number;
+}
+
+export interface TableBounds {
+    x0: number;
+    y0: number;
+    x1: number;
+    y1: number;
+}
+
+export interface MergedCell {
+    row: number;
+    col: number;
+    rowSpan: number;
+    colSpan: number;
+}
+
+export interface ExtractedTable {
+    bounds: TableBounds;
+    rows: string[][];
+    merges: MergedCell[]; // Spanning cells; the text is in the top-left cell
+    ruled: boolean; // Found from drawn lines rather than text alignment
+}
+
+export interface TableDetectionOptions {
+    area?: TableBounds; // Only look inside this area, and treat its text as one table when no lines are found
+    useLines?: boolean;
+}
+
+// ── Constants ─────────────────────────────────────
+
+/** Line ends and positions closer than this (in points) are treated as touching */
+const SNAP = 2;
+
+/** Lines shorter than this are tick marks and glyph parts, not cell borders */
+const MIN_LINE_LENGTH = 6;
+
+/** Filled rectangles thinner than this are drawn lines */
+const MAX_LINE_THICKNESS = 3;
+
+/** A vertical gap between text rows of this many font sizes starts a new table */
+const BLOCK_GAP = 2.5;
+
+/** Gap between two items on a line, in font sizes, that means a space */
+const SPACE_GAP = 0.15;
+
+/** Height of the text's visual centre above the baseline, in font sizes */
+const CENTER_RISE = 0.3;
+
+// ── Ruling Lines ──────────────────────────────────
+
+/**
+ * Ruling lines from the outline of a painted rectangle: the centre line of a thin
+ * one (a border drawn as a filled bar), otherwise its four edges
+ */
+export const rectangleToLines = (x0: number, y0: number, x1: number, y1: number): RulingLine[] => {
+    const left = Math.min(x0, x1);
+    const right = Math.max(x0, x1);
+    const top = Math.min(y0, y1);
+    const bottom = Math.max(y0, y1);
+
+    if (bottom - top <= MAX_LINE_THICKNESS) {
+        const y = (top + bottom) / 2;
+        return [{ x0: left, y0: y, x1: right, y1: y }];
+    }
+    if (right - left <= MAX_LINE_THICKNESS) {
+        const x = (left + right) / 2;
+        return [{ x0: x, y0: top, x1: x, y1: bottom }];
+    }
+    return [
+        { x0: left, y0: top, x1: right, y1: top },
+        { x0: left, y0: bottom, x1: right, y1: bottom },
+        { x0: left, y0: top, x1: left, y1: bottom },
+        { x0: right, y0: top, x1: right, y1: bottom },
+    ];
+};
+
+interface Rule {
+    at: number; // y of a horizontal rule, x of a vertical one
+    from: number;
+    to: number;
+}
+
+/** Join collinear rules that overlap or touch, e.g. a border drawn cell by cell */
+const joinRules = (rules: Rule[]): Rule[] => {
+    const sorted = [...rules].sort((a, b) => a.at - b.at || a.from - b.from);
+    const joined: Rule[] = [];
+    for (const rule of sorted) {
+        const match = joined.find(other => Math.abs(other.at - rule.at) <= SNAP && rule.from <= other.to + SNAP && rule.to >= other.from - SNAP);
+        if (match) {
+            match.from = Math.min(match.from, rule.from);
+            match.to = Math.max(match.to, rule.to);
+        } else {
+            joined.push({ ...rule });
+        }
+    }
+    return joined;
+};
+
+/** Split lines into joined horizontal and vertical rules, dropping diagonal and short ones */
+const toRules = (lines: RulingLine[]): { horizontal: Rule[]; vertical: Rule[] } => {
+    const horizontal: Rule[] = [];
+    const vertical: Rule[] = [];
+    for (const line of lines) {
+        const dx = Math.abs(line.x1 - line.x0);
+        const dy = Math.abs(line.y1 - line.y0);
+        if (dy <= SNAP / 2 && dx >= MIN_LINE_LENGTH) {
+            horizontal.push({ at: (line.y0 + line.y1) / 2, from: Math.min(line.x0, line.x1), to: Math.max(line.x0, line.x1) });
+        } else if (dx <= SNAP / 2 && dy >= MIN_LINE_LENGTH) {
+            vertical.push({ at: (line.x0 + line.x1) / 2, from: Math.min(line.y0, line.y1), to: Math.max(line.y0, line.y1) });
+        }
+    }
+    return { horizontal: joinRules(horizontal), vertical: joinRules(vertical) };
+};
+
+const crosses = (h: Rule, v: Rule): boolean =>
+    v.at >= h.from - SNAP && v.at <= h.to + SNAP && h.at >= v.from - SNAP && h.at <= v.to + SNAP;
+
+/** Sorted positions with those closer than SNAP merged into their mean */
+const clusterPositions = (values: number[]): number[] => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const clusters: number[][] = [];
+    for (const value of sorted) {
+        const last = clusters[clusters.length - 1];
+        if (last && value - last[last.length - 1] <= SNAP) last.push(value);
+        else clusters.push([value]);
+    }
+    return clusters.map(cluster => cluster.reduce((sum, value) => sum + value, 0) / cluster.length);
+};
+
+/**
+ * Index of the interval of sorted boundaries that contains a position.
+ * Positions just outside the first or last boundary belong to the edge interval.
+ */
+const intervalOf = (boundaries: number[], value: number): number => {
+    for (let i = 1; i < boundaries.length - 1; i++) {
+        if (value < boundaries[i]) return i - 1;
+    }
+    return boundaries.length - 2;
+};
+
+interface Grid {
+    bounds: TableBounds;
+    xs: number[]; // Column boundaries
+    ys: number[]; // Row boundaries
+    merges: MergedCell[];
+}
+
+/** Row and column boundaries of a connected set of rules, and the cells that span several of them */
+const buildGrid = (horizontal: Rule[], vertical: Rule[]): Grid | null => {
+    const x0 = Math.min(...horizontal.map(h => h.from), ...vertical.map(v => v.at));
+    const x1 = Math.max(...horizontal.map(h => h.to), ...vertical.map(v => v.at));
+    const y0 = Math.min(...vertical.map(v => v.from), ...horizontal.map(h => h.at));
+    const y1 = Math.max(...vertical.map(v => v.to), ...horizontal.map(h => h.at));
+
+    // The outer edges count as boundaries even when the table has no frame
+    const xs = clusterPositions([x0, x1, ...vertical.map(v => v.at)]);
+    const ys = clusterPositions([y0, y1, ...horizontal.map(h => h.at)]);
+    const rows = ys.length - 1;
+    const cols = xs.length - 1;
+    if (rows < 1 || cols < 1 || rows * cols < 2) return null;
+
+    // A cell joins its neighbour when no rule separates them through the middle of their shared side
+    const separated = (rules: Rule[], at: number, middle: number) =>
+        rules.some(rule => Math.abs(rule.at - at) <= SNAP && rule.from <= middle && rule.to >= middle);
+
+    const parent = Array.from({ length: rows * cols }, (_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+    const union = (a: number, b: number) => { parent[find(a)] = find(b); };
+
+    for (let r = 0; r < rows; r++) {
+        const middleY = (ys[r] + ys[r + 1]) / 2;
+        for (let c = 0; c < cols; c++) {
+            const middleX = (xs[c] + xs[c + 1]) / 2;
+            if (c + 1 < cols && !separated(vertical, xs[c + 1], middleY)) union(r * cols + c, r * cols + c + 1);
+            if (r + 1 < rows && !separated(horizontal, ys[r + 1], middleX)) union(r * cols + c, (r + 1) * cols + c);
+        }
+    }
+
+    // Each joined region becomes a merge when it is a rectangle no other region cuts into
+    const merges: MergedCell[] = [];
+    const covered = new Set<number>();
+    for (let r = 0; r < rows; r++) {
+        for (let c = 0; c < cols; c++) {
+            if (covered.has(r * cols + c)) continue;
+            const region = find(r * cols + c);
+            let colSpan = 1;
+            while (c + colSpan < cols && find(r * cols + c + colSpan) === region) colSpan++;
+            let rowSpan = 1;
+            while (r + rowSpan < rows && find((r + rowSpan) * cols + c) === region) rowSpan++;
+            if (rowSpan === 1 && colSpan === 1) continue;
+
+            let rectangular = true;
+            for (let rr = r; rr < r + rowSpan && rectangular; rr++) {
+                for (let cc = c; cc < c + colSpan; cc++) {
+                    if (find(rr * cols + cc) !== region || covered.has(rr * cols + cc)) { rectangular = false; break; }
+                }
+            }
+            if (!rectangular) continue;
+
+            for (let rr = r; rr < r + rowSpan; rr++) {
+                for (let cc = c; cc < c + colSpan; cc++) covered.add(rr * cols + cc);
+            }
+            merges.push({ row: r, col: c, rowSpan, colSpan });
+        }
+    }
+
+    return { bounds: { x0, y0, x1, y1 }, xs, ys, merges };
+};
+
+/** Grids of ruling lines that touch one another, each a candidate table */
+const findGrids = (lines: RulingLine[]): Grid[] => {
+    const { horizontal, vertical } = toRules(lines);
+    const all = [...horizontal, ...vertical];
+    const parent = all.map((_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+    horizontal.forEach((h, i) => vertical.forEach((v, j) => {
+        if (crosses(h, v)) parent[find(i)] = find(horizontal.length + j);
+    }));
+
+    const groups = new Map<number, { horizontal: Rule[]; vertical: Rule[] }>();
+    all.forEach((rule, i) => {
+        const root = find(i);
+        if (!groups.has(root)) groups.set(root, { horizontal: [], vertical: [] });
+        groups.get(root)![i < horizontal.length ? 'horizontal' : 'vertical'].push(rule);
+    });
+
+    return [...groups.values()]
+        .filter(group => group.horizontal.length > 0 && group.vertical.length > 0)
+        .map(group => buildGrid(group.horizontal, group.vertical))
+        .filter((grid): grid is Grid => grid !== null);
+};
+
+// ── Cell Text ─────────────────────────────────────
+
+const centerOf = (item: TextItem) => ({ x: item.x + item.width / 2, y: item.y - item.fontSize * CENTER_RISE });
+
+const contains = (bounds: TableBounds, point: { x: number; y: number }, margin = 0): boolean =>
+    point.x >= bounds.x0 - margin && point.x <= bounds.x1 + margin && point.y >= bounds.y0 - margin && point.y <= bounds.y1 + margin;
+
+/** Text of the items in one cell, in reading order, with a line break between lines */
+const cellText = (items: TextItem[]): string => {
+    const lines = groupRows(items);
+    return lines.map(line => {
+        let text = '';
+        let right = -Infinity;
+        for (const item of line) {
+            if (text && item.x - right > item.fontSize * SPACE_GAP) text += ' ';
+            text += item.text;
+            right = item.x + item.width;
+        }
+        return text.trim();
+    }).filter(Boolean).join('\n');
+};
+
+const fillGrid = (grid: Grid, items: TextItem[]): string[][] => {
+    const cols = grid.xs.length - 1;
+    const cells: TextItem[][][] = Array.from({ length: grid.ys.length - 1 }, () => Array.from({ length: cols }, () => []));
+    const anchorOf = (row: number, col: number) =>
+        grid.merges.find(m => row >= m.row && row < m.row + m.rowSpan && col >= m.col && col < m.col + m.colSpan) ?? { row, col };
+
+    for (const item of items) {
+        const center = centerOf(item);
+        const row = intervalOf(grid.ys, center.y);
+        const col = intervalOf(grid.xs, center.x);
+        if (row < 0 || col < 0) continue;
+        const anchor = anchorOf(row, col);
+        cells[anchor.row][anchor.col].push(item);
+    }
+
+    return cells.map(row => row.map(cellText));
+};
+
+// ── Text Clustering ───────────────────────────────
+
+/** Items grouped into lines by baseline, top to bottom, each sorted left to right */
+function groupRows(items: TextItem[]): TextItem[][] {
+    if (items.length === 0) return [];
+    const sorted = [...items].sort((a, b) => a.y - b.y);
+    const rows: TextItem[][] = [[sorted[0]]];
+    for (const item of sorted.slice(1)) {
+        const row = rows[rows.length - 1];
+        if (Math.abs(item.y - row[0].y) <= Math.max(item.fontSize, row[0].fontSize) * 0.4) row.push(item);
+        else rows.push([item]);
+    }
+    return rows.map(row => row.sort((a, b) => a.x - b.x));
+}
+
+/** Cluster X positions into column boundaries */
+function detectColumns(items: TextItem[], tolerance: number): number[] {
+    const xPositions = items.map(i => Math.round(i.x)).sort((a, b) => a - b);
+    if (xPositions.length === 0) return [];
+
+    const clusters: number[] = [xPositions[0]];
+
+    for (const x of xPositions) {
+        const lastCluster = clusters[clusters.length - 1];
+        if (x - lastCluster > tolerance) {
+            clusters.push(x);
+        }
+    }
+
+    return clusters;
+}
+
+/** Find which column a given x-position belongs to */
+function findColumn(x: number, columns: number[], tolerance: number): number {
+    for (let i = 0; i < columns.length; i++) {
+        if (Math.abs(x - columns[i]) <= tolerance) return i;
+    }
+    // Fallback: nearest column
+    let minDist = Infinity;
+    let best = 0;
+    for (let i = 0; i < columns.length; i++) {
+        const dist = Math.abs(x - columns[i]);
+        if (dist < minDist) { minDist = dist; best = i; }
+    }
+    return best;
+}
+
+const medianFontSize = (items: TextItem[]): number => {
+    const fontSizes = items.map(i => i.fontSize).sort((a, b) => a - b);
+    return fontSizes[Math.floor(fontSizes.length / 2)];
+};
+
+/** Table from text alignment alone: rows by baseline, columns by clustered left edges */
+function extractTableFromItems(items: TextItem[]): string[][] {
+    if (items.length === 0) return [];
+
+    /**
+     * 🔒 ROBUSTNESS FIX: Use median font size instead of average
+     *
+     * Problem: Mixed fonts (e.g., headers=16px, body=10px) cause average=13px
+     *          which is wrong for both header and body clustering
+     * Solution: Use median which is robust to outliers + fallback tolerances
+     */
+    // Use median as base, but add min/max bounds for safety
+    const baseFontSize = Math.max(8, Math.min(medianFontSize(items), 20)); // Clamp between 8-20px
+    const colTolerance = baseFontSize * 1.5;
+
+    const columns = detectColumns(items, colTolerance);
+    const grid: string[][] = [];
+
+    for (const row of groupRows(items)) {
+        const gridRow: string[] = new Array(columns.length).fill('');
+        for (const item of row) {
+            const colIndex = findColumn(item.x, columns, colTolerance);
+            gridRow[colIndex] = gridRow[colIndex] ? `${gridRow[colIndex]} ${item.text}` : item.text;
+        }
+        // Only add row if it has content
+        if (gridRow.some(c => c.trim())) {
+            grid.push(gridRow);
+        }
+    }
+
+    return grid;
+}
+
+const boundsOf = (items: TextItem[]): TableBounds => ({
+    x0: Math.min(...items.map(i => i.x)),
+    y0: Math.min(...items.map(i => i.y - i.fontSize)),
+    x1: Math.max(...items.map(i => i.x + i.width)),
+    y1: Math.max(...items.map(i => i.y)),
+});
+
+const textTable = (items: TextItem[]): ExtractedTable => ({
+    bounds: boundsOf(items),
+    rows: extractTableFromItems(items),
+    merges: [],
+    ruled: false,
+});
+
+/**
+ * Split text into blocks at large vertical gaps and around ruled tables,
+ * so unrelated text above and below a table does not end up in its columns
+ */
+const splitBlocks = (items: TextItem[], ruled: TableBounds[]): TextItem[][] => {
+    const gap = medianFontSize(items) * BLOCK_GAP;
+    const blocks: TextItem[][] = [];
+    let previous: TextItem[] | null = null;
+
+    for (const row of groupRows(items)) {
+        const between = previous && ruled.some(bounds => bounds.y0 >= previous![0].y && bounds.y1 <= row[0].y);
+        if (!previous || row[0].y - previous[0].y > gap || between) blocks.push([]);
+        blocks[blocks.length - 1].push(...row);
+        previous = row;
+    }
+
+    return blocks;
+};
+
+// ── Main Entry Point ──────────────────────────────
+
+/** A line clipped to an area, or null when it lies outside */
+const clipLine = (line: RulingLine, area: TableBounds): RulingLine | null => {
+    const x0 = Math.max(Math.min(line.x0, line.x1), area.x0);
+    const x1 = Math.min(Math.max(line.x0, line.x1), area.x1);
+    const y0 = Math.max(Math.min(line.y0, line.y1), area.y0);
+    const y1 = Math.min(Math.max(line.y0, line.y1), area.y1);
+    return x0 <= x1 && y0 <= y1 ? { x0, y0, x1, y1 } : null;
+};
+
+/**
+ * Tables on a page, top to bottom: grids of drawn lines first, then blocks of aligned text
+ */
+export const detectTables = (items: TextItem[], lines: RulingLine[], options: TableDetectionOptions = {}): ExtractedTable[] => {
+    const { area, useLines = true } = options;
+    const inArea = area ? items.filter(item => contains(area, centerOf(item))) : items;
+    const areaLines = area
+        ? lines.map(line => clipLine(line, area)).filter((line): line is RulingLine => line !== null)
+        : lines;
+
+    const tables: ExtractedTable[] = [];
+    let remaining = inArea;
+
+    if (useLines) {
+        for (const grid of findGrids(areaLines)) {
+            const inside = remaining.filter(item => contains(grid.bounds, centerOf(item), SNAP));
+            if (inside.length === 0) continue; // A frame or a chart, not a table
+            remaining = remaining.filter(item => !inside.includes(item));
+            tables.push({ bounds: grid.bounds, rows: fillGrid(grid, inside), merges: grid.merges, ruled: true });
+        }
+    }
+
+    if (remaining.length > 0) {
+        if (area && tables.length === 0) {
+            // The user marked this as a table, so keep it together
+            tables.push(textTable(remaining));
+        } else {
+            const ruled = tables.map(table => table.bounds);
+            tables.push(...splitBlocks(remaining, ruled).map(textTable));
+        }
+    }
+
+    return tables.filter(table => table.rows.length > 0).sort((a, b) => a.bounds.y0 - b.bounds.y0);
+};
@@ -0,0 +1,464 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Page layout analysis for PDF to Word — works on positioned text only
+ * 1. Group text fragments into lines in reading order, column by column, and merge them into style runs
+ * 2. Detect headings by font size relative to the body text
+ * 3. Rebuild bullet and numbered lists, and simple tables from aligned columns
+ * 4. Merge the remaining lines into paragraphs, with images kept in reading order
+ */
+
+// ── Types ─────────────────────────────────────────
+
+/** A piece of text as pdf.js reports it, in points from the top-left of the page */
+export interface TextFragment {
+    text: string;
+    x: number; // Left edge
+    y: number; // Baseline
+    width: number;
+    fontSize: number;
+    bold: boolean;
+    italic: boolean;
+    fontFamily?: string;
+    color?: string; // Hex RRGGBB, when known
+}
+
+export interface StyledRun {
+    text: string;
+    bold: boolean;
+    italic: boolean;
+    fontSize: number;
+    fontFamily?: string;
+    color?: string;
+}
+
+/** An image drawn on the page, as JPEG or PNG, in points from the top-left of the page */
+export interface PageImage {
+    data: Uint8Array;
+    type: 'jpg' | 'png';
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface TextLine {
+    fragments: TextFragment[]; // Left to right
+    y: number;
+    x: number;
+    right: number;
+    fontSize: number; // The size most of the line's characters use
+}
+
+export type HeadingRank = 1 | 2 | 3;
+
+export type LayoutBlock =
+    | { type: 'paragraph'; runs: StyledRun[]; heading?: HeadingRank }
+    | { type: 'list-item'; runs: StyledRun[]; ordered: boolean; level: number; listId: number }
+    | { type: 'table'; rows: StyledRun[][][] } // Rows of cells of runs
+    | { type: 'image'; image: PageImage };
+
+/** Document-wide font sizes, measured once so headings rank the same on every page */
+export interface LayoutStyle {
+    bodySize: number;
+    headingRanks: Map<number, HeadingRank>; // Rounded font size → heading level
+}
+
+// ── Constants ─────────────────────────────────────────
+
+/** Baselines closer than this (in ems) belong to the same line, which keeps super- and subscripts inline */
+const LINE_TOLERANCE = 0.5;
+
+/** Horizontal gap (in ems) between fragments that stands for a space */
+const SPACE_GAP = 0.15;
+
+/** Horizontal gap (in ems) that separates table cells */
+const CELL_GAP = 1.5;
+
+/** Baseline distance (in ems) up to which consecutive lines continue a paragraph */
+const PARAGRAPH_GAP = 1.45;
+
+/** Baseline distance (in ems) up to which aligned lines continue a table */
+const TABLE_ROW_GAP = 3;
+
+/** A size at least this much larger than the body text is a heading */
+const HEADING_RATIO = 1.15;
+
+/** Indent (in points) of each nested list level */
+const LIST_INDENT = 18;
+
+const BULLET_MARKER = /^\s*(?:[•◦▪▫‣∙·●○■□➢►▶✓✔]|[-–—*](?=\s))\s*/;
+const NUMBER_MARKER = /^\s*\(?(?:\d{1,3}|[a-z]|[ivx]{1,5})[.)]\s+/;
+
+// ── Lines and runs ─────────────────────────────────────────
+
+const roundSize = (size: number): number => Math.round(size * 2) / 2;
+
+/** The size most characters use, so a drop cap or footnote mark does not set the line's size */
+const dominantSize = (fragments: TextFragment[]): number => {
+    const weights = new Map<number, number>();
+    for (const fragment of fragments) {
+        const size = roundSize(fragment.fontSize);
+        weights.set(size, (weights.get(size) ?? 0) + fragment.text.trim().length);
+    }
+    let best = roundSize(fragments[0].fontSize);
+    let bestWeight = -1;
+    for (const [size, weight] of weights) {
+        if (weight > bestWeight) {
+            best = size;
+            bestWeight = weight;
+        }
+    }
+    return best;
+};
+
+const toTextLine = (group: TextFragment[]): TextLine => {
+    const ordered = [...group].sort((a, b) => a.x - b.x);
+    const fontSize = dominantSize(ordered);
+    const main = ordered.find(fragment => roundSize(fragment.fontSize) === fontSize) ?? ordered[0];
+    return {
+        fragments: ordered,
+        y: main.y,
+        x: ordered[0].x,
+        right: Math.max(...ordered.map(fragment => fragment.x + fragment.width)),
+        fontSize,
+    };
+};
+
+/** Whether two baselines are close enough to be one line */
+const onBaseline = (a: { y: number; fontSize: number }, b: { y: number; fontSize: number }): boolean =>
+    Math.abs(a.y - b.y) <= Math.min(a.fontSize, b.fontSize) * LINE_TOLERANCE;
+
+/**
+ * Put the lines of side-by-side columns in reading order: where lines share a baseline,
+ * the columns they mark are read one after the other until a line crosses the gap between them
+ */
+const readingOrder = (lines: TextLine[]): TextLine[] => {
+    const rows: TextLine[][] = [];
+    for (const line of lines) {
+        const row = rows[rows.length - 1];
+        if (row && onBaseline(row[0], line)) row.push(line);
+        else rows.push([line]);
+    }
+
+    const ordered: TextLine[] = [];
+    let r = 0;
+    while (r < rows.length) {
+        if (rows[r].length < 2) {
+            ordered.push(...rows[r++]);
+            continue;
+        }
+
+        // Each column runs from its left edge to the next column's
+        const starts = rows[r].map(line => line.x);
+        const columnOf = (line: TextLine): number => {
+            let k = -1;
+            starts.forEach((start, i) => {
+                if (line.x >= start - line.fontSize) k = i;
+            });
+            return k >= 0 && (k === starts.length - 1 || line.right < starts[k + 1]) ? k : -1;
+        };
+        const columns: TextLine[][] = starts.map(() => []);
+        const first = r;
+        while (r < rows.length) {
+            const placed = rows[r].map(columnOf);
+            if (placed.includes(-1)) break;
+            rows[r].forEach((line, i) => columns[placed[i]].push(line));
+            r++;
+        }
+        if (r === first) ordered.push(...rows[r++]);
+        else ordered.push(...columns.flat());
+    }
+    return ordered;
+};
+
+/**
+ * Group fragments into lines, each sorted left to right, in reading order.
+ * Fragments on one baseline only form a line when they follow each other in the content
+ * stream or sit close together, so side-by-side columns stay apart rather than reading as a table.
+ */
+export const groupLines = (fragments: TextFragment[]): TextLine[] => {
+    const groups: Array<{ fragments: TextFragment[]; y: number; fontSize: number; x: number; right: number }> = [];
+    let previous: (typeof groups)[number] | undefined;
+
+    for (const fragment of fragments) {
+        if (fragment.text.length === 0) continue;
+        const right = fragment.x + fragment.width;
+        const near = (group: (typeof groups)[number]) =>
+            Math.max(fragment.x - group.right, group.x - right) <= Math.min(fragment.fontSize, group.fontSize) * CELL_GAP;
+        const group = previous && onBaseline(previous, fragment)
+            ? previous
+            : groups.find(candidate => onBaseline(candidate, fragment) && near(candidate));
+
+        if (group) {
+            group.fragments.push(fragment);
+            group.fontSize = Math.max(group.fontSize, fragment.fontSize);
+            group.x = Math.min(group.x, fragment.x);
+            group.right = Math.max(group.right, right);
+            previous = group;
+        } else {
+            previous = { fragments: [fragment], y: fragment.y, fontSize: fragment.fontSize, x: fragment.x, right };
+            groups.push(previous);
+        }
+    }
+
+    const lines = groups
+        .filter(group => group.fragments.some(fragment => fragment.text.trim()))
+        .map(group => toTextLine(group.fragments))
+        .sort((a, b) => a.y - b.y || a.x - b.x);
+    return readingOrder(lines);
+};
+
+/** Append text to the runs, merging with the last run when the style matches */
+const appendText = (runs: StyledRun[], text: string, style: Omit<StyledRun, 'text'>): void => {
+    const last = runs[runs.length - 1];
+    let collapsed = text.replace(/\s+/g, ' ');
+    if (!last) collapsed = collapsed.trimStart();
+    else if (last.text.endsWith(' ') && collapsed.startsWith(' ')) collapsed = collapsed.slice(1);
+    if (!collapsed) return;
+
+    const sameStyle = last && last.bold === style.bold && last.italic === style.italic
+        && Math.abs(last.fontSize - style.fontSize) < 0.5
+        && last.fontFamily === style.fontFamily && last.color === style.color;
+    if (sameStyle) {
+        last.text += collapsed;
+    } else {
+        runs.push({ ...style, text: collapsed });
+    }
+};
+
+const trimRuns = (runs: StyledRun[]): StyledRun[] => {
+    if (runs.length > 0) runs[runs.length - 1].text = runs[runs.length - 1].text.trimEnd();
+    return runs.filter(run => run.text.length > 0);
+};
+
+/**
+ * Merge fragments into style runs, adding spaces where the gap between fragments shows one
+ */
+export const lineRuns = (fragments: TextFragment[]): StyledRun[] => {
+    const runs: StyledRun[] = [];
+    let previous: TextFragment | undefined;
+
+    for (const fragment of fragments) {
+        let text = fragment.text;
+        if (previous) {
+            const gap = fragment.x - (previous.x + previous.width);
+            if (gap > Math.min(fragment.fontSize, previous.fontSize) * SPACE_GAP) text = ` ${text}`;
+        }
+        const { bold, italic, fontSize, fontFamily, color } = fragment;
+        appendText(runs, text, { bold, italic, fontSize, fontFamily, color });
+        previous = fragment;
+    }
+
+    return trimRuns(runs);
+};
+
+/** Split a line into cells wherever the horizontal gap is wider than a word space could be */
+export const splitCells = (line: TextLine): TextFragment[][] => {
+    const cells: TextFragment[][] = [];
+    let previous: TextFragment | undefined;
+
+    for (const fragment of line.fragments) {
+        if (!fragment.text.trim()) continue;
+        const gap = previous ? fragment.x - (previous.x + previous.width) : Infinity;
+        if (gap > line.fontSize * CELL_GAP) cells.push([fragment]);
+        else cells[cells.length - 1].push(fragment);
+        previous = fragment;
+    }
+
+    return cells;
+};
+
+// ── Style ─────────────────────────────────────────
+
+/**
+ * Find the body text size (the one most characters use) and rank up to three larger sizes as headings
+ */
+export const measureLayoutStyle = (lines: TextLine[]): LayoutStyle => {
+    const fragments = lines.flatMap(line => line.fragments);
+    const bodySize = fragments.length > 0 ? dominantSize(fragments) : 12;
+
+    const headingSizes = [...new Set(lines.map(line => roundSize(line.fontSize)))]
+        .filter(size => size >= bodySize * HEADING_RATIO)
+        .sort((a, b) => b - a)
+        .slice(0, 3);
+
+    return {
+        bodySize,
+        headingRanks: new Map(headingSizes.map((size, i) => [size, (i + 1) as HeadingRank])),
+    };
+};
+
+// ── Blocks ─────────────────────────────────────────
+
+const cellSpan = (cell: TextFragment[]): [number, number] => [
+    cell[0].x,
+    Math.max(...cell.map(fragment => fragment.x + fragment.width)),
+];
+
+/** Whether two rows have the same columns, each aligned at its left edge, right edge or centre */
+const columnsAlign = (a: TextFragment[][], b: TextFragment[][], tolerance: number): boolean =>
+    a.length === b.length && a.every((cell, i) => {
+        const [left1, right1] = cellSpan(cell);
+        const [left2, right2] = cellSpan(b[i]);
+        return Math.abs(left1 - left2) <= tolerance
+            || Math.abs(right1 - right2) <= tolerance
+            || Math.abs((left1 + right1) / 2 - (left2 + right2) / 2) <= tolerance;
+    });
+
+/** The line as text, with the spaces its gaps stand for */
+const lineText = (line: TextLine): string => lineRuns(line.fragments).map(run => run.text).join('');
+
+/** The list marker at the start of a line, if any */
+const listMarker = (line: TextLine): { ordered: boolean; length: number } | null => {
+    const text = lineText(line);
+    const bullet = text.match(BULLET_MARKER);
+    if (bullet && bullet[0].length < text.length) return { ordered: false, length: bullet[0].length };
+    const number = text.match(NUMBER_MARKER);
+    if (number && number[0].length < text.length) return { ordered: true, length: number[0].length };
+    return null;
+};
+
+/** The line's runs with the first `length` characters removed */
+const dropPrefix = (runs: StyledRun[], length: number): StyledRun[] => {
+    let remaining = length;
+    const result: StyledRun[] = [];
+    for (const run of runs) {
+        if (remaining >= run.text.length) {
+            remaining -= run.text.length;
+            continue;
+        }
+        result.push({ ...run, text: run.text.slice(remaining) });
+        remaining = 0;
+    }
+    if (result.length > 0) result[0].text = result[0].text.trimStart();
+    return trimRuns(result);
+};
+
+/** Continue a block's runs with another line, undoing end-of-line hyphenation */
+const joinLine = (runs: StyledRun[], next: StyledRun[]): void => {
+    const last = runs[runs.length - 1];
+    const hyphenated = last && /[a-z]-$/.test(last.text) && /^[a-z]/.test(next[0]?.text ?? '');
+    if (hyphenated) last.text = last.text.slice(0, -1);
+    next.forEach((run, i) => appendText(runs, i === 0 && !hyphenated ? ` ${run.text}` : run.text, run));
+};
+
+/**
+ * Arrange a page's lines and images into Word blocks, top to bottom
+ * @param listIds - Shared counter so every list in the document gets its own numbering
+ */
+export const layoutPage = (
+    lines: TextLine[],
+    images: PageImage[],
+    style: LayoutStyle,
+    listIds: { next: number } = { next: 0 }
+): LayoutBlock[] => {
+    const blocks: LayoutBlock[] = [];
+    const pendingImages = [...images].sort((a, b) => a.y - b.y);
+    const headingRank = (line: TextLine) => style.headingRanks.get(roundSize(line.fontSize));
+    let list: { id: number; x: number; ordered: boolean } | null = null;
+
+    const flushImagesAbove = (top: number) => {
+        while (pendingImages.length > 0 && pendingImages[0].y < top) {
+            blocks.push({ type: 'image', image: pendingImages.shift()! });
+            list = null;
+        }
+    };
+
+    /** Whether `next` sits close enough below `line` to belong to the same block */
+    const follows = (line: TextLine, next: TextLine | undefined, maxGap: number): next is TextLine =>
+        !!next && next.y > line.y && next.y - line.y <= line.fontSize * maxGap && Math.abs(next.fontSize - line.fontSize) <= 1;
+
+    let i = 0;
+    while (i < lines.length) {
+        const line = lines[i];
+        flushImagesAbove(line.y - line.fontSize);
+
+        // Headings, including ones wrapped over several lines
+        const rank = headingRank(line);
+        if (rank) {
+            const runs = lineRuns(line.fragments);
+            let last = line;
+            while (follows(last, lines[i + 1], PARAGRAPH_GAP) && headingRank(lines[i + 1]) === rank) {
+                joinLine(runs, lineRuns(lines[++i].fragments));
+                last = lines[i];
+            }
+            blocks.push({ type: 'paragraph', runs, heading: rank });
+            list = null;
+            i++;
+            continue;
+        }
+
+        // List items, with their wrapped lines indented past the marker
+        const marker = listMarker(line);
+        if (marker) {
+            if (!list || (list.ordered !== marker.ordered && line.x <= list.x + LIST_INDENT / 2)) {
+                list = { id: listIds.next++, x: line.x, ordered: marker.ordered };
+            }
+            const runs = dropPrefix(lineRuns(line.fragments), marker.length);
+            let last = line;
+            while (follows(last, lines[i + 1], PARAGRAPH_GAP) && !listMarker(lines[i + 1])
+                && !headingRank(lines[i + 1]) && lines[i + 1].x > line.x + line.fontSize / 2) {
+                joinLine(runs, lineRuns(lines[++i].fragments));
+                last = lines[i];
+            }
+            const level = Math.min(8, Math.max(0, Math.round((line.x - list.x) / LIST_INDENT)));
+            blocks.push({ type: 'list-item', runs, ordered: marker.ordered, level, listId: list.id });
+            i++;
+            continue;
+        }
+        list = null;
+
+        // Tables: two or more consecutive rows whose cells line up
+        const cells = splitCells(line);
+        if (cells.length >= 2) {
+            const rows = [cells];
+            let j = i + 1;
+            while (j < lines.length && lines[j].y > lines[j - 1].y && lines[j].y - lines[j - 1].y <= lines[j - 1].fontSize * TABLE_ROW_GAP) {
+                const next = splitCells(lines[j]);
+                if (!columnsAlign(rows[rows.length - 1], next, line.fontSize)) break;
+                rows.push(next);
+                j++;
+            }
+            if (rows.length >= 2) {
+                blocks.push({ type: 'table', rows: rows.map(row => row.map(cell => lineRuns(cell))) });
+                i = j;
+                continue;
+            }
+        }
+
+        // Paragraphs end at a wider gap, a change of size, or a short line ending a sentence
+        const runs = lineRuns(line.fragments);
+        let last = line;
+        let right = line.right;
+        while (follows(last, lines[i + 1], PARAGRAPH_GAP)) {
+            const next = lines[i + 1];
+            const endsSentence = /[.!?:]$/.test(lineText(last).trimEnd()) && last.right < right - last.fontSize * 4;
+            if (endsSentence || headingRank(next) || listMarker(next) || splitCells(next).length >= 2) break;
+            joinLine(runs, lineRuns(next.fragments));
+            right = Math.max(right, next.right);
+            last = next;
+            i++;
+        }
+        blocks.push({ type: 'paragraph', runs });
+        i++;
+    }
+
+    flushImagesAbove(Infinity);
+    return blocks;
+};
+
+/** Plain text of a block, one string per paragraph, list item or table */
+export const blockText = (block: LayoutBlock): string => {
+    const text = (runs: StyledRun[]) => runs.map(run => run.text).join('');
+    switch (block.type) {
+        case 'paragraph':
+        case 'list-item':
+            return text(block.runs);
+        case 'table':
+            return block.rows.map(row => row.map(text).join('\t')).join('\n');
+        case 'image':
+            return '';
+    }
+};
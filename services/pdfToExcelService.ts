@@ -3,168 +3,219 @@
  * SPDX-License-Identifier: Apache-2.0
  *
  * PDF to Excel — 100% client-side
- * 1. Extract text items with positions from PDF via pdf.js
- * 2. Detect table rows/columns from spatial clustering
- * 3. Build 2D grid → write .xlsx with SheetJS
+ * 1. Extract text items with positions, and the drawn lines and rectangles, from PDF via pdf.js
+ * 2. Detect tables from ruling-line grids (with merged cells), then from text alignment
+ * 3. Recognise numbers, currencies, percentages and dates by locale, as typed cells with number formats
+ * 4. Write XLSX or ODS (each table on its own sheet, or a page's tables on one), a CSV per table, or JSON
  */
 
 import * as XLSX from 'xlsx';
+import { csvField } from '../utils/csv';
+import { DEFAULT_PDF_TO_EXCEL_CONFIG, type PdfToExcelConfig, type TableArea } from '../types';
+import { readRulingLines } from './pdfPageReader';
+import { detectTables, type ExtractedTable, type TextItem } from './pdfTableDetection';
+import {
+    conventionsForLocale,
+    dateSerial,
+    inferConventions,
+    parseCell,
+    type NumberConventions,
+    type TypedCell,
+} from './pdfTableCells';
 
-// ── Types ─────────────────────────────────────────
+export interface AbortSignal {
+    current: boolean;
+}
 
-interface TextItem {
-    text: string;
-    x: number;
-    y: number;
-    width: number;
-    fontSize: number;
+export interface TableExportFile {
+    name: string;
+    data: Uint8Array;
+    mimeType: string;
 }
 
-interface TableRow {
-    y: number;
-    cells: { col: number; text: string }[];
+export interface TableExportResult {
+    files: TableExportFile[];
+    tableCount: number;
 }
 
-export interface AbortSignal {
-    current: boolean;
+/** The tables found on one page, with the page size in points */
+export interface PageTables {
+    pageNum: number;
+    width: number;
+    height: number;
+    tables: ExtractedTable[];
 }
 
-// ── Column Detection ──────────────────────────────
+const MIME_TYPES = {
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    ods: 'application/vnd.oasis.opendocument.spreadsheet',
+    csv: 'text/csv;charset=utf-8',
+    json: 'application/json',
+};
 
-/** Cluster X positions into column boundaries */
-function detectColumns(items: TextItem[], tolerance: number): number[] {
-    const xPositions = items.map(i => Math.round(i.x)).sort((a, b) => a - b);
-    if (xPositions.length === 0) return [];
+// ── Cells ─────────────────────────────────────────
 
-    const clusters: number[] = [xPositions[0]];
+const typeCell = (text: string, conventions?: NumberConventions): TypedCell =>
+    conventions ? parseCell(text, conventions) : { type: 'text', value: text, text };
 
-    for (const x of xPositions) {
-        const lastCluster = clusters[clusters.length - 1];
-        if (x - lastCluster > tolerance) {
-            clusters.push(x);
-        }
+/**
+ * A SheetJS cell keeping the printed text as its display value.
+ * XLSX dates are serial numbers with a date format; the ODS writer takes ISO dates as date cells.
+ */
+const sheetCell = (cell: TypedCell, bookType: 'xlsx' | 'ods'): XLSX.CellObject | undefined => {
+    switch (cell.type) {
+        case 'number':
+            return { t: 'n', v: cell.value, w: cell.text, ...(cell.format && { z: cell.format }) };
+        case 'date':
+            return bookType === 'ods'
+                ? { t: 'd', v: cell.value, w: cell.text }
+                : { t: 'n', v: dateSerial(cell.value), w: cell.text, z: cell.format };
+        default:
+            return cell.value ? { t: 's', v: cell.value } : undefined;
     }
+};
 
-    return clusters;
-}
+// ── Sheet Building ────────────────────────────────
 
-/** Find which column a given x-position belongs to */
-function findColumn(x: number, columns: number[], tolerance: number): number {
-    for (let i = 0; i < columns.length; i++) {
-        if (Math.abs(x - columns[i]) <= tolerance) return i;
-    }
-    // Fallback: nearest column
-    let minDist = Infinity;
-    let best = 0;
-    for (let i = 0; i < columns.length; i++) {
-        const dist = Math.abs(x - columns[i]);
-        if (dist < minDist) { minDist = dist; best = i; }
+/**
+ * A worksheet with the tables one below the other, separated by a blank row.
+ * Without conventions every cell is text.
+ */
+export const tablesToSheet = (
+    tables: ExtractedTable[],
+    conventions?: NumberConventions,
+    bookType: 'xlsx' | 'ods' = 'xlsx'
+): XLSX.WorkSheet => {
+    const grid: (XLSX.CellObject | undefined)[][] = [];
+    const texts: string[][] = [];
+    const merges: XLSX.Range[] = [];
+
+    for (const table of tables) {
+        if (grid.length > 0) {
+            grid.push([]);
+            texts.push([]);
+        }
+        const offset = grid.length;
+        for (const row of table.rows) {
+            grid.push(row.map(text => sheetCell(typeCell(text, conventions), bookType)));
+            texts.push(row);
+        }
+        merges.push(...table.merges.map(m => ({
+            s: { r: offset + m.row, c: m.col },
+            e: { r: offset + m.row + m.rowSpan - 1, c: m.col + m.colSpan - 1 },
+        })));
     }
-    return best;
-}
-
-// ── Row Detection ─────────────────────────────────
 
-/** Group text items into rows by Y position */
-function detectRows(items: TextItem[], tolerance: number): TableRow[] {
-    if (items.length === 0) return [];
+    const sheet = XLSX.utils.aoa_to_sheet(grid);
+    if (merges.length > 0) sheet['!merges'] = merges;
+
+    // Auto-size columns
+    const columnCount = Math.max(...texts.map(row => row.length));
+    sheet['!cols'] = Array.from({ length: columnCount }, (_, colIdx) => {
+        const maxLen = texts.reduce((max, row) => {
+            const cellLen = Math.max(0, ...(row[colIdx] || '').split('\n').map(line => line.length));
+            return cellLen > max ? cellLen : max;
+        }, 5);
+        return { wch: Math.min(maxLen + 2, 60) };
+    });
 
-    // Sort by Y descending (PDF origin is bottom-left, higher Y = higher on page)
-    const sorted = [...items].sort((a, b) => b.y - a.y);
+    return sheet;
+};
 
-    const rows: { y: number; items: TextItem[] }[] = [];
-    let currentRow = { y: sorted[0].y, items: [sorted[0]] };
+const sheetName = (pageNum: number, totalPages: number, table?: { index: number; count: number }): string => {
+    const page = totalPages > 1 ? `Page ${pageNum}` : '';
+    if (!table || table.count === 1) return page || 'Sheet1';
+    return page ? `${page} - Table ${table.index + 1}` : `Table ${table.index + 1}`;
+};
 
-    for (let i = 1; i < sorted.length; i++) {
-        const item = sorted[i];
-        if (Math.abs(currentRow.y - item.y) <= tolerance) {
-            currentRow.items.push(item);
+const buildWorkbook = (
+    pages: PageTables[],
+    config: PdfToExcelConfig,
+    totalPages: number,
+    conventions: NumberConventions | undefined,
+    bookType: 'xlsx' | 'ods'
+): XLSX.WorkBook => {
+    const workbook = XLSX.utils.book_new();
+
+    for (const { pageNum, tables } of pages) {
+        if (config.tableLayout === 'page') {
+            XLSX.utils.book_append_sheet(workbook, tablesToSheet(tables, conventions, bookType), sheetName(pageNum, totalPages));
         } else {
-            rows.push(currentRow);
-            currentRow = { y: item.y, items: [item] };
+            tables.forEach((table, index) => {
+                const name = sheetName(pageNum, totalPages, { index, count: tables.length });
+                XLSX.utils.book_append_sheet(workbook, tablesToSheet([table], conventions, bookType), name);
+            });
         }
     }
-    rows.push(currentRow);
-
-    return rows.map(r => ({
-        y: r.y,
-        cells: r.items
-            .sort((a, b) => a.x - b.x)
-            .map(item => ({ col: 0, text: item.text })),
-    }));
-}
 
-// ── Table Extraction ──────────────────────────────
-
-function extractTableFromItems(items: TextItem[]): string[][] {
-    if (items.length === 0) return [];
-
-    /**
-     * 🔒 ROBUSTNESS FIX: Use median font size instead of average
-     *
-     * Problem: Mixed fonts (e.g., headers=16px, body=10px) cause average=13px
-     *          which is wrong for both header and body clustering
-     * Solution: Use median which is robust to outliers + fallback tolerances
-     */
-    // Calculate median font size (more robust than average for mixed fonts)
-    const fontSizes = items.map(i => i.fontSize).sort((a, b) => a - b);
-    const medianFontSize = fontSizes[Math.floor(fontSizes.length / 2)];
-
-    // Use median as base, but add min/max bounds for safety
-    const baseFontSize = Math.max(8, Math.min(medianFontSize, 20)); // Clamp between 8-20px
-    const rowTolerance = baseFontSize * 0.4;
-    const colTolerance = baseFontSize * 1.5;
-
-    // Detect columns and rows with robust tolerance
-    const columns = detectColumns(items, colTolerance);
-    const rows = detectRows(items, rowTolerance);
-
-    if (columns.length === 0) return rows.map(r => [r.cells.map(c => c.text).join(' ')]);
-
-    // Build 2D grid
-    const grid: string[][] = [];
-
-    for (const row of rows) {
-        const gridRow = new Array(columns.length).fill('');
-        for (const cell of row.cells) {
-            // Find original item to get exact x
-            const origItem = items.find(i => i.text === cell.text && Math.abs(i.y - row.y) <= rowTolerance);
-            const colIndex = origItem
-                ? findColumn(origItem.x, columns, colTolerance)
-                : findColumn(0, columns, colTolerance);
-
-            if (gridRow[colIndex]) {
-                gridRow[colIndex] += ' ' + cell.text;
-            } else {
-                gridRow[colIndex] = cell.text;
-            }
-        }
-        // Only add row if it has content
-        if (gridRow.some(c => c.trim())) {
-            grid.push(gridRow);
-        }
+    // If no tables found, create a sheet noting that
+    if (workbook.SheetNames.length === 0) {
+        const emptySheet = XLSX.utils.aoa_to_sheet([
+            ['No tabular data could be extracted from this PDF.'],
+            ['The PDF may not contain tables, or the tables may use a format that could not be detected.'],
+        ]);
+        XLSX.utils.book_append_sheet(workbook, emptySheet, 'Sheet1');
     }
 
-    return grid;
-}
+    return workbook;
+};
+
+// ── CSV and JSON ──────────────────────────────────
+
+/** One table as CSV; typed cells are written as plain numbers and ISO dates */
+export const tableToCsv = (table: ExtractedTable, conventions?: NumberConventions): string =>
+    table.rows
+        .map(row => row.map(text => csvField(typeCell(text, conventions).value)).join(','))
+        .join('\r\n');
+
+/**
+ * Every table with its page, bounding box (points from the page's top-left corner),
+ * merged cells and row values
+ */
+export const tablesToJson = (source: string, pages: PageTables[], conventions?: NumberConventions): string => {
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    return JSON.stringify({
+        source,
+        unit: 'pt',
+        pages: pages.map(({ pageNum, width, height }) => ({ page: pageNum, width: round(width), height: round(height) })),
+        tables: pages.flatMap(({ pageNum, tables }) => tables.map((table, index) => ({
+            page: pageNum,
+            index: index + 1,
+            bbox: {
+                x: round(table.bounds.x0),
+                y: round(table.bounds.y0),
+                width: round(table.bounds.x1 - table.bounds.x0),
+                height: round(table.bounds.y1 - table.bounds.y0),
+            },
+            ruled: table.ruled,
+            merges: table.merges,
+            rows: table.rows.map(row => row.map(text => typeCell(text, conventions).value)),
+        }))),
+    }, null, 2);
+};
 
 // ── Main Service ──────────────────────────────────
 
+/**
+ * @param areas - Table areas drawn by the user; a page with areas is only searched inside them
+ */
 export const pdfToExcel = async (
     file: File,
+    config: PdfToExcelConfig = DEFAULT_PDF_TO_EXCEL_CONFIG,
+    areas: TableArea[] = [],
     onProgress?: (progress: number, status: string) => void,
     abortSignal?: AbortSignal
-): Promise<Uint8Array> => {
+): Promise<TableExportResult> => {
     const { pdfjsLib } = await import('./pdfConfig');
 
     onProgress?.(5, 'Loading PDF...');
     const arrayBuffer = await file.arrayBuffer();
     const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+    const pages: PageTables[] = [];
+    const totalPages = pdf.numPages;
 
     try {
-        const workbook = XLSX.utils.book_new();
-        const totalPages = pdf.numPages;
-
         onProgress?.(10, `Extracting tables from ${totalPages} page${totalPages > 1 ? 's' : ''}...`);
 
         for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
@@ -174,58 +225,90 @@ export const pdfToExcel = async (
             onProgress?.(progressPct, `Processing page ${pageNum} of ${totalPages}...`);
 
             const page = await pdf.getPage(pageNum);
+            const viewport = page.getViewport({ scale: 1 });
             const textContent = await page.getTextContent();
             const items: TextItem[] = [];
 
             for (const item of textContent.items as any[]) {
-                if (!item.str?.trim()) continue;
-                const x = item.transform ? item.transform[4] : 0;
-                const y = item.transform ? item.transform[5] : 0;
-                const fontSize = item.transform ? Math.abs(item.transform[3]) : 12;
+                if (!item.str?.trim() || !item.transform) continue;
+                const [, , c, d, e, f] = item.transform;
+                const [x, y] = viewport.convertToViewportPoint(e, f);
+                const fontSize = Math.hypot(c, d) || 12;
                 const width = item.width || (item.str.length * fontSize * 0.5);
 
                 items.push({ text: item.str.trim(), x, y, width, fontSize });
             }
 
-            const grid = extractTableFromItems(items);
-
-            if (grid.length > 0) {
-                const sheet = XLSX.utils.aoa_to_sheet(grid);
-
-                // Auto-size columns
-                const colWidths = grid[0].map((_, colIdx) => {
-                    const maxLen = grid.reduce((max, row) => {
-                        const cellLen = (row[colIdx] || '').length;
-                        return cellLen > max ? cellLen : max;
-                    }, 5);
-                    return { wch: Math.min(maxLen + 2, 60) };
-                });
-                sheet['!cols'] = colWidths;
-
-                const sheetName = totalPages > 1 ? `Page ${pageNum}` : 'Sheet1';
-                XLSX.utils.book_append_sheet(workbook, sheet, sheetName);
-            }
+            const lines = config.detectLines ? await readRulingLines(page) : [];
+            const pageAreas = areas.filter(area => area.pageIndex === pageNum - 1);
+            const tables = pageAreas.length > 0
+                ? pageAreas.flatMap(area => detectTables(items, lines, {
+                    useLines: config.detectLines,
+                    area: {
+                        x0: area.left * viewport.width,
+                        y0: area.top * viewport.height,
+                        x1: area.right * viewport.width,
+                        y1: area.bottom * viewport.height,
+                    },
+                }))
+                : detectTables(items, lines, { useLines: config.detectLines });
+            page.cleanup();
+
+            if (tables.length > 0) pages.push({ pageNum, width: viewport.width, height: viewport.height, tables });
         }
+    } finally {
+        pdf.destroy();
+    }
 
-        // If no tables found, create a sheet noting that
-        if (workbook.SheetNames.length === 0) {
-            const emptySheet = XLSX.utils.aoa_to_sheet([
-                ['No tabular data could be extracted from this PDF.'],
-                ['The PDF may not contain tables, or the tables may use a format that could not be detected.'],
-            ]);
-            XLSX.utils.book_append_sheet(workbook, emptySheet, 'Sheet1');
-        }
+    if (abortSignal?.current) throw new Error('Conversion cancelled');
 
-        if (abortSignal?.current) throw new Error('Conversion cancelled');
+    const tableCount = pages.reduce((sum, page) => sum + page.tables.length, 0);
+    const format = config.format ?? 'xlsx';
+    if (tableCount === 0 && (format === 'csv' || format === 'json')) {
+        throw new Error('No tabular data could be extracted from this PDF.');
+    }
 
-        onProgress?.(90, 'Generating Excel file...');
-        const xlsxData = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+    // Decimal separator and date order: chosen by the user, or the browser's settled by the document's own values
+    let conventions: NumberConventions | undefined;
+    if (config.detectTypes ?? true) {
+        const locale = config.numberLocale ?? 'auto';
+        conventions = locale === 'auto'
+            ? inferConventions(
+                pages.flatMap(page => page.tables.flatMap(table => table.rows.flat())),
+                conventionsForLocale(navigator.language)
+            )
+            : conventionsForLocale(locale);
+    }
 
-        onProgress?.(100, 'Conversion complete!');
-        return new Uint8Array(xlsxData);
-    } finally {
-        pdf.destroy();
+    const baseName = sanitizeFilename(file.name.replace(/\.pdf$/i, ''));
+    let files: TableExportFile[];
+
+    if (format === 'csv') {
+        onProgress?.(90, 'Generating CSV files...');
+        files = pages.flatMap(({ pageNum, tables }) => tables.map((table, index) => ({
+            name: tableCount === 1 ? `${baseName}.csv` : `${baseName}_page_${pageNum}_table_${index + 1}.csv`,
+            data: new TextEncoder().encode(tableToCsv(table, conventions)),
+            mimeType: MIME_TYPES.csv,
+        })));
+    } else if (format === 'json') {
+        onProgress?.(90, 'Generating JSON file...');
+        files = [{
+            name: `${baseName}.json`,
+            data: new TextEncoder().encode(tablesToJson(file.name, pages, conventions)),
+            mimeType: MIME_TYPES.json,
+        }];
+    } else {
+        onProgress?.(90, `Generating ${format === 'ods' ? 'ODS' : 'Excel'} file...`);
+        const workbook = buildWorkbook(pages, config, totalPages, conventions, format);
+        files = [{
+            name: `${baseName}.${format}`,
+            data: new Uint8Array(XLSX.write(workbook, { bookType: format, type: 'array' })),
+            mimeType: MIME_TYPES[format],
+        }];
     }
+
+    onProgress?.(100, 'Conversion complete!');
+    return { files, tableCount };
 };
 
 // ── Download ──────────────────────────────────────
@@ -239,16 +322,12 @@ function sanitizeFilename(name: string): string {
         .trim() || 'spreadsheet';
 }
 
-export const downloadExcel = (data: Uint8Array, filename: string): void => {
-    const blob = new Blob([data], {
-        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-    });
+export const downloadTableFile = ({ name, data, mimeType }: TableExportFile): void => {
+    const blob = new Blob([data], { type: mimeType });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    const safe = sanitizeFilename(filename);
-    const xlsxName = safe.replace(/\.pdf$/i, '.xlsx');
-    link.download = xlsxName.endsWith('.xlsx') ? xlsxName : `${xlsxName}.xlsx`;
+    link.download = sanitizeFilename(name);
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
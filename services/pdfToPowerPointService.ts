@@ -3,17 +3,165 @@
  * SPDX-License-Identifier: Apache-2.0
  *
  * PDF to PowerPoint — 100% client-side
- * 1. Render each PDF page to canvas at high DPI via pdf.js
- * 2. Convert canvas to JPEG image
- * 3. Build PPTX with one slide per page using pptxgenjs
+ * 1. Render each selected PDF page to canvas at the chosen DPI via pdf.js
+ * 2. Image mode: place the render as a full-slide JPEG
+ * 3. Editable mode: place each text line as a text box with its fonts and the colours sampled
+ *    from the render, each image as its own picture, over an optional faint render with the text erased
+ * 4. Build the PPTX with one slide per page using pptxgenjs
  */
 
+import type PptxGenJS from 'pptxgenjs';
+import { DEFAULT_PDF_TO_POWERPOINT_CONFIG, type PdfToPowerPointConfig } from '../types';
+import { renderPDFPageFromDoc } from './pdfEditorService';
+import { loadPageSources, readPageContent, type PageContent } from './pdfPageReader';
+import { groupLines, lineRuns, type TextFragment } from './pdfTextLayout';
+import type { RawImage } from './pdfImageCodec';
+import { parsePageRange } from '../utils/pageRange';
+
 export interface AbortSignal {
     current: boolean;
 }
 
+// ── Constants ─────────────────────────────────────
+
+/** 🔒 MEMORY FIX: Cap on canvas size to prevent memory explosion; bigger pages are rendered at a lower scale */
+const MAX_CANVAS_PIXELS = 1920 * 1080; // 2MP max to prevent memory issues
+
+/** Transparency (percent) of the background render behind editable slides */
+const BACKGROUND_TRANSPARENCY = 70;
+
+/** Glyph extent above and below the baseline, as fractions of the font size */
+const ASCENT = 0.8;
+const DESCENT = 0.25;
+
+/** Extra width (in ems) given to text boxes, so a substituted font that runs wider does not clip */
+const TEXT_BOX_SLACK = 1;
+
+// ── Colour Sampling ───────────────────────────────
+
+export interface PixelBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+const toHex = (r: number, g: number, b: number): string =>
+    [r, g, b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('').toUpperCase();
+
+/**
+ * Text and background colour inside a text box of a render.
+ * The background is the median of the box's border pixels; the text colour is the pixel
+ * furthest from it, which is a glyph's solid core rather than its anti-aliased edge.
+ */
+export const sampleTextColor = (pixels: RawImage, box: PixelBox): { text: string; background: string } => {
+    const x0 = Math.max(0, Math.floor(box.x));
+    const y0 = Math.max(0, Math.floor(box.y));
+    const x1 = Math.min(pixels.width, Math.ceil(box.x + box.width));
+    const y1 = Math.min(pixels.height, Math.ceil(box.y + box.height));
+    if (x1 <= x0 || y1 <= y0) return { text: '000000', background: 'FFFFFF' };
+
+    const pixel = (x: number, y: number) => {
+        const i = (y * pixels.width + x) * 4;
+        return [pixels.data[i], pixels.data[i + 1], pixels.data[i + 2]];
+    };
+
+    const border: number[][] = [];
+    for (let x = x0; x < x1; x++) border.push(pixel(x, y0), pixel(x, y1 - 1));
+    for (let y = y0; y < y1; y++) border.push(pixel(x0, y), pixel(x1 - 1, y));
+    const median = (channel: number) => border.map(p => p[channel]).sort((a, b) => a - b)[border.length >> 1];
+    const background = [median(0), median(1), median(2)];
+
+    let text = [0, 0, 0];
+    let furthest = -1;
+    for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+            const p = pixel(x, y);
+            const distance = Math.abs(p[0] - background[0]) + Math.abs(p[1] - background[1]) + Math.abs(p[2] - background[2]);
+            if (distance > furthest) {
+                furthest = distance;
+                text = p;
+            }
+        }
+    }
+
+    return { text: toHex(text[0], text[1], text[2]), background: toHex(background[0], background[1], background[2]) };
+};
+
+/** A fragment's glyph area in points from the top-left of the page */
+const fragmentBox = (fragment: TextFragment): PixelBox => ({
+    x: fragment.x,
+    y: fragment.y - fragment.fontSize * ASCENT,
+    width: fragment.width,
+    height: fragment.fontSize * (ASCENT + DESCENT),
+});
+
+// ── Slide Content ─────────────────────────────────
+
+const bytesToDataUrl = (bytes: Uint8Array, mimeType: string): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+/**
+ * Place a page's images as pictures and its text lines as text boxes on a slide.
+ * Positions scale from page points to the slide's inches; fonts keep their size relative to the page.
+ * @param slideSize - Slide size in inches
+ */
+export const addEditableContent = (
+    slide: PptxGenJS.Slide,
+    content: PageContent,
+    slideSize: { width: number; height: number }
+): void => {
+    const sx = slideSize.width / content.width;
+    const sy = slideSize.height / content.height;
+
+    for (const image of content.images) {
+        slide.addImage({
+            data: bytesToDataUrl(image.data, image.type === 'jpg' ? 'image/jpeg' : 'image/png'),
+            x: image.x * sx,
+            y: image.y * sy,
+            w: image.width * sx,
+            h: image.height * sy,
+        });
+    }
+
+    for (const line of groupLines(content.fragments)) {
+        const runs = lineRuns(line.fragments);
+        if (runs.length === 0) continue;
+
+        slide.addText(
+            runs.map(run => ({
+                text: run.text,
+                options: {
+                    bold: run.bold,
+                    italic: run.italic,
+                    fontSize: Math.round(run.fontSize * sy * 72 * 10) / 10,
+                    fontFace: run.fontFamily,
+                    color: run.color,
+                },
+            })),
+            {
+                x: line.x * sx,
+                y: (line.y - line.fontSize * ASCENT) * sy,
+                w: (line.right - line.x + line.fontSize * TEXT_BOX_SLACK) * sx,
+                h: line.fontSize * (ASCENT + DESCENT) * sy,
+                margin: 0,
+                wrap: false,
+                valign: 'top',
+            }
+        );
+    }
+};
+
+// ── Main Conversion ───────────────────────────────
+
 export const pdfToPowerPoint = async (
     file: File,
+    config: PdfToPowerPointConfig = DEFAULT_PDF_TO_POWERPOINT_CONFIG,
     onProgress?: (progress: number, status: string) => void,
     abortSignal?: AbortSignal
 ): Promise<Uint8Array> => {
@@ -22,92 +170,93 @@ export const pdfToPowerPoint = async (
 
     onProgress?.(5, 'Loading PDF...');
     const arrayBuffer = await file.arrayBuffer();
+    const source = config.mode === 'editable' ? await loadPageSources(arrayBuffer) : null;
     const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
 
     try {
-        const totalPages = pdf.numPages;
+        const pageIndices = config.pageSelection === 'range' && config.pageRange?.trim()
+            ? parsePageRange(config.pageRange, pdf.numPages)
+            : Array.from({ length: pdf.numPages }, (_, i) => i);
+        const totalPages = pageIndices.length;
         onProgress?.(10, `Converting ${totalPages} page${totalPages > 1 ? 's' : ''} to slides...`);
 
         const pptx = new PptxGenJS();
         pptx.title = file.name.replace(/\.pdf$/i, '');
         pptx.author = 'Sola PDF Converter';
 
-        // Read first page to determine aspect ratio
-        const firstPage = await pdf.getPage(1);
+        // Read first selected page to determine aspect ratio
+        const firstPage = await pdf.getPage(pageIndices[0] + 1);
         const firstVp = firstPage.getViewport({ scale: 1 });
         const isLandscape = firstVp.width > firstVp.height;
 
         // Set slide dimensions to match PDF page ratio
-        if (isLandscape) {
-            const w = 13.33;
-            const h = w * (firstVp.height / firstVp.width);
-            pptx.defineLayout({ name: 'PDF', width: w, height: h });
-        } else {
-            const h = 7.5;
-            const w = h * (firstVp.width / firstVp.height);
-            pptx.defineLayout({ name: 'PDF', width: w, height: h });
-        }
+        const slideSize = isLandscape
+            ? { width: 13.33, height: 13.33 * (firstVp.height / firstVp.width) }
+            : { width: 7.5 * (firstVp.width / firstVp.height), height: 7.5 };
+        pptx.defineLayout({ name: 'PDF', ...slideSize });
         pptx.layout = 'PDF';
 
-        /**
-         * 🔒 MEMORY FIX: Adaptive canvas scaling to prevent memory explosion
-         *
-         * Problem: scale=2 creates huge canvases (e.g., 1224x1584px = 7.7MB per page)
-         *          For large PDFs, this causes browser crashes
-         * Solution: Use adaptive scaling based on page dimensions
-         */
-        const MAX_CANVAS_PIXELS = 1920 * 1080; // 2MP max to prevent memory issues
-
-        for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
+        for (let i = 0; i < totalPages; i++) {
             if (abortSignal?.current) throw new Error('Conversion cancelled');
 
-            const pct = 10 + (pageNum / totalPages) * 80;
-            onProgress?.(pct, `Rendering page ${pageNum} of ${totalPages}...`);
+            const pageNum = pageIndices[i] + 1;
+            const pct = 10 + (i / totalPages) * 80;
+            onProgress?.(pct, `Converting page ${pageNum} (${i + 1} of ${totalPages})...`);
 
             const page = await pdf.getPage(pageNum);
+            const content = config.mode === 'editable'
+                ? await readPageContent(page, source ? { pdf: source, page: source.getPage(pageNum - 1) } : undefined)
+                : null;
 
-            // 🔒 MEMORY FIX: Calculate adaptive scale based on page size
+            // Render at the chosen DPI, scaled down if the canvas would be too large
             const baseVp = page.getViewport({ scale: 1 });
             const basePixels = baseVp.width * baseVp.height;
-
-            // Default scale=1.5 (108 DPI) for good quality
-            // But reduce if canvas would be too large
-            let scale = 1.5;
+            let scale = config.dpi / 72;
             if (basePixels * scale * scale > MAX_CANVAS_PIXELS) {
                 scale = Math.sqrt(MAX_CANVAS_PIXELS / basePixels);
             }
 
-            const vp = page.getViewport({ scale });
-
-            const canvas = document.createElement('canvas');
-            canvas.width = vp.width;
-            canvas.height = vp.height;
-            const ctx = canvas.getContext('2d');
-            if (!ctx) throw new Error('Failed to create canvas context');
+            const slide = pptx.addSlide();
+            // Editable slides place the images as pictures, so the background leaves them out
+            const placed = new Set(content?.imageOperations ?? []);
+            const { canvas } = await renderPDFPageFromDoc(pdf, pageNum, scale, placed.size ? index => !placed.has(index) : undefined);
+            try {
+                if (!content) {
+                    slide.addImage({ data: canvas.toDataURL('image/jpeg', 0.92), x: 0, y: 0, w: '100%', h: '100%' });
+                    continue;
+                }
 
-            await page.render({ canvasContext: ctx, viewport: vp }).promise;
+                const ctx = canvas.getContext('2d');
+                if (!ctx) throw new Error('Failed to create canvas context');
+                const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
 
-            const imageData = canvas.toDataURL('image/jpeg', 0.92);
+                // Colour each fragment from the render, then paint its background over it
+                // so the faint background does not show a second copy of the text
+                for (const fragment of content.fragments) {
+                    const box = fragmentBox(fragment);
+                    const pixelBox = { x: box.x * scale, y: box.y * scale, width: box.width * scale, height: box.height * scale };
+                    const { text, background } = sampleTextColor(pixels, pixelBox);
+                    fragment.color = text;
+                    ctx.fillStyle = `#${background}`;
+                    ctx.fillRect(pixelBox.x, pixelBox.y, pixelBox.width, pixelBox.height);
+                }
 
-            const slide = pptx.addSlide();
-            slide.addImage({
-                data: imageData,
-                x: 0,
-                y: 0,
-                w: '100%',
-                h: '100%',
-            });
-
-            // 🔒 MEMORY FIX: Aggressive canvas cleanup
-            canvas.width = 0;
-            canvas.height = 0;
-            ctx.clearRect(0, 0, 0, 0);
-
-            // Force garbage collection hint (non-standard, only in some browsers)
-            if (pageNum % 10 === 0 && typeof (global as any).gc === 'function') {
-                try {
-                    (global as any).gc();
-                } catch { /* ignore */ }
+                if (config.background) {
+                    slide.addImage({
+                        data: canvas.toDataURL('image/jpeg', 0.85),
+                        x: 0,
+                        y: 0,
+                        w: '100%',
+                        h: '100%',
+                        transparency: BACKGROUND_TRANSPARENCY,
+                    });
+                }
+                addEditableContent(slide, content, slideSize);
+            } finally {
+                // 🔒 MEMORY FIX: Aggressive canvas cleanup
+                canvas.width = 0;
+                canvas.height = 0;
+                page.cleanup();
             }
         }
 
@@ -3,13 +3,38 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { Document, Paragraph, TextRun, HeadingLevel, Packer, SectionType } from 'docx';
+import {
+    AlignmentType,
+    Document,
+    HeadingLevel,
+    ImageRun,
+    LevelFormat,
+    Packer,
+    Paragraph,
+    SectionType,
+    Table,
+    TableCell,
+    TableRow,
+    TextRun,
+    WidthType,
+} from 'docx';
 import { createConfiguredWorker } from './tesseractConfig';
+import { loadPageSources, readPageContent } from './pdfPageReader';
+import {
+    blockText,
+    groupLines,
+    layoutPage,
+    measureLayoutStyle,
+    type LayoutBlock,
+    type PageImage,
+    type StyledRun,
+    type TextLine,
+} from './pdfTextLayout';
 
 // ── Constants ─────────────────────────────────────
 
 /** Maximum pages for OCR — prevents multi-hour freezes on large docs */
-const MAX_OCR_PAGES = 200;
+export const MAX_OCR_PAGES = 200;
 
 // ── Unicode Detection & Warnings ──────────────────
 
@@ -117,6 +142,7 @@ ${warnings.join('\n')}
 interface PageData {
     pageNumber: number;
     paragraphs: string[]; // each paragraph is a block of text
+    blocks?: LayoutBlock[]; // headings, lists, tables and images when the layout is known
 }
 
 export interface AbortSignal {
@@ -125,6 +151,10 @@ export interface AbortSignal {
 
 // ── Text Extraction (Non-OCR) ─────────────────────
 
+/**
+ * Extract each page's text with its layout: style runs, headings ranked by relative size,
+ * lists, tables from aligned columns and images in reading order
+ */
 export const extractTextFromPDF = async (
     file: File,
     abortSignal?: AbortSignal
@@ -132,11 +162,12 @@ export const extractTextFromPDF = async (
     const { pdfjsLib } = await import('./pdfConfig');
 
     const arrayBuffer = await file.arrayBuffer();
+    const source = await loadPageSources(arrayBuffer);
     const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
     const pdf = await loadingTask.promise;
 
     try {
-        const pages: PageData[] = [];
+        const layouts: Array<{ lines: TextLine[]; images: PageImage[] }> = [];
 
         for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
             if (abortSignal?.current) {
@@ -144,71 +175,23 @@ export const extractTextFromPDF = async (
             }
 
             const page = await pdf.getPage(pageNum);
-            const textContent = await page.getTextContent();
-
-            const items = textContent.items as any[];
-            const lines: string[] = [];
-            let currentLine = '';
-            let lastY: number | null = null;
-            let lastFontSize = 12; // default fallback
-
-            for (const item of items) {
-                if (!item.str && !item.hasEOL) continue;
-
-                const currentY = item.transform ? item.transform[5] : null;
-                const fontSize = item.transform ? Math.abs(item.transform[3]) : lastFontSize;
-                if (fontSize > 0) lastFontSize = fontSize;
-
-                if (lastY !== null && currentY !== null && item.str) {
-                    const yDiff = Math.abs(lastY - currentY);
-                    // Use font-size-relative threshold instead of hardcoded 2
-                    if (yDiff > lastFontSize * 0.5) {
-                        // New line detected — push current line
-                        if (currentLine.trim()) lines.push(currentLine.trim());
-                        currentLine = '';
-                    } else if (currentLine.length > 0 && !currentLine.endsWith(' ')) {
-                        currentLine += ' ';
-                    }
-                } else if (currentLine.length > 0 && item.str && !currentLine.endsWith(' ')) {
-                    currentLine += ' ';
-                }
-
-                currentLine += item.str || '';
-                if (currentY !== null && item.str?.trim()) lastY = currentY;
-
-                if (item.hasEOL) {
-                    if (currentLine.trim()) lines.push(currentLine.trim());
-                    currentLine = '';
-                    lastY = null;
-                }
-            }
-
-            // Push remaining text
-            if (currentLine.trim()) lines.push(currentLine.trim());
-
-            // Group lines into paragraphs (consecutive lines become one paragraph,
-            // blank lines separate paragraphs)
-            const paragraphs: string[] = [];
-            let currentParagraph = '';
-
-            for (const line of lines) {
-                if (line.trim() === '') {
-                    if (currentParagraph.trim()) {
-                        paragraphs.push(currentParagraph.trim());
-                        currentParagraph = '';
-                    }
-                } else {
-                    if (currentParagraph) currentParagraph += ' ';
-                    currentParagraph += line;
-                }
-            }
-            if (currentParagraph.trim()) {
-                paragraphs.push(currentParagraph.trim());
-            }
-
-            pages.push({ pageNumber: pageNum, paragraphs });
+            const { fragments, images } = await readPageContent(page, source ? { pdf: source, page: source.getPage(pageNum - 1) } : undefined);
+            layouts.push({ lines: groupLines(fragments), images });
+            page.cleanup();
         }
 
+        // Heading sizes are ranked across the whole document so they match from page to page
+        const style = measureLayoutStyle(layouts.flatMap(layout => layout.lines));
+        const listIds = { next: 0 };
+        const pages: PageData[] = layouts.map(({ lines, images }, index) => {
+            const blocks = layoutPage(lines, images, style, listIds);
+            return {
+                pageNumber: index + 1,
+                paragraphs: blocks.map(blockText).filter(text => text.length > 0),
+                blocks,
+            };
+        });
+
         return { pages, pageCount: pdf.numPages };
     } finally {
         pdf.destroy();
@@ -220,13 +203,14 @@ export const extractTextFromPDF = async (
 export const extractTextWithOCR = async (
     file: File,
     onProgress?: (progress: number, status: string) => void,
-    abortSignal?: AbortSignal
+    abortSignal?: AbortSignal,
+    password?: string
 ): Promise<{ pages: PageData[]; pageCount: number }> => {
     let worker: any = null;
     const { pdfjsLib } = await import('./pdfConfig');
 
     const arrayBuffer = await file.arrayBuffer();
-    const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
+    const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer, password });
     const pdf = await loadingTask.promise;
 
     try {
@@ -326,18 +310,85 @@ export const extractTextWithOCR = async (
 
 // ── Word Document Generation ──────────────────────
 
+const ORDERED_LIST = 'pdf-ordered-list';
+
+const HEADINGS = {
+    1: HeadingLevel.HEADING_1,
+    2: HeadingLevel.HEADING_2,
+    3: HeadingLevel.HEADING_3,
+} as const;
+
+/** Printable width of a default Word page (Letter, 1" margins) in pixels at 96 DPI */
+const MAX_IMAGE_WIDTH = 624;
+
+/** Number formats of the nine ordered list levels: 1. a. i. 1. a. i. ... */
+const ORDERED_LEVEL_FORMATS = [LevelFormat.DECIMAL, LevelFormat.LOWER_LETTER, LevelFormat.LOWER_ROMAN];
+
+const toTextRuns = (runs: StyledRun[]): TextRun[] =>
+    runs.map(run => new TextRun({
+        text: run.text,
+        bold: run.bold || undefined,
+        italics: run.italic || undefined,
+        size: Math.round(run.fontSize * 2), // half-points
+        font: run.fontFamily,
+        color: run.color,
+    }));
+
+/** A layout block as Word content; pdf points become 96 DPI pixels for images */
+const blockToWord = (block: LayoutBlock): Paragraph | Table => {
+    switch (block.type) {
+        case 'paragraph':
+            return new Paragraph({
+                children: toTextRuns(block.runs),
+                heading: block.heading ? HEADINGS[block.heading] : undefined,
+                spacing: { after: 120 },
+            });
+        case 'list-item':
+            return new Paragraph({
+                children: toTextRuns(block.runs),
+                ...(block.ordered
+                    ? { numbering: { reference: ORDERED_LIST, level: block.level, instance: block.listId } }
+                    : { bullet: { level: block.level } }),
+            });
+        case 'table':
+            return new Table({
+                width: { size: 100, type: WidthType.PERCENTAGE },
+                rows: block.rows.map(row => new TableRow({
+                    children: row.map(cell => new TableCell({
+                        children: [new Paragraph({ children: toTextRuns(cell) })],
+                    })),
+                })),
+            });
+        case 'image': {
+            const scale = Math.min(96 / 72, MAX_IMAGE_WIDTH / block.image.width);
+            return new Paragraph({
+                children: [new ImageRun({
+                    type: block.image.type,
+                    data: block.image.data,
+                    transformation: {
+                        width: Math.round(block.image.width * scale),
+                        height: Math.round(block.image.height * scale),
+                    },
+                })],
+                spacing: { after: 120 },
+            });
+        }
+    }
+};
+
 export const pagesToWord = async (
     pages: PageData[],
     filename: string = 'converted-document.docx'
 ): Promise<Blob> => {
     const docTitle = filename.replace(/\.pdf$/i, '');
+    const hasLayout = pages.some(page => page.blocks);
 
     // Build sections — one section per page with page breaks
     const sections = pages.map((pageData, index) => {
-        const children: Paragraph[] = [];
+        const children: Array<Paragraph | Table> = [];
 
-        // First page gets the document title
-        if (index === 0) {
+        // Plain text gets the document title on the first page; laid-out pages keep their own headings
+        if (index === 0 && !hasLayout) {
             children.push(
                 new Paragraph({
                     text: docTitle,
@@ -347,8 +398,9 @@ export const pagesToWord = async (
             );
         }
 
-        // Add paragraphs from this page
-        if (pageData.paragraphs.length === 0) {
+        if (pageData.blocks && pageData.blocks.length > 0) {
+            children.push(...pageData.blocks.map(blockToWord));
+        } else if (pageData.paragraphs.length === 0) {
             // Empty page — add a blank paragraph
             children.push(new Paragraph({ text: '' }));
         } else {
@@ -386,7 +438,22 @@ export const pagesToWord = async (
         });
     }
 
-    const doc = new Document({ sections });
+    const doc = new Document({
+        title: docTitle,
+        numbering: {
+            config: [{
+                reference: ORDERED_LIST,
+                levels: Array.from({ length: 9 }, (_, level) => ({
+                    level,
+                    format: ORDERED_LEVEL_FORMATS[level % 3],
+                    text: `%${level + 1}.`,
+                    alignment: AlignmentType.START,
+                    style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } },
+                })),
+            }],
+        },
+        sections,
+    });
     return Packer.toBlob(doc);
 };
 
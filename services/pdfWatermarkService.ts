@@ -0,0 +1,200 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * PDF watermarking — 100% client-side
+ * 1. Embed the stamp once per document (standard font text or PNG/JPEG image)
+ * 2. Lay it out on the page as displayed (honoring /Rotate), single or tiled
+ * 3. Draw it over the content, or move it behind the existing content streams
+ */
+
+import { PDFArray, PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, degrees, rgb } from 'pdf-lib';
+import { STANDARD_FONTS, getPageFrame, isolateExistingContent, toUserSpace, type PageFrame } from './pdfGeometry';
+import { loadPDFDocument } from './pdfService';
+import { hexToRgb, base64ToArrayBuffer } from './pdfEditorService';
+import { parsePageRange } from '../utils/pageRange';
+import type { WatermarkPdfConfig } from '../types';
+
+// ── Constants ─────────────────────────────────────────
+
+/** Distance kept from the page edge for single placements */
+const PAGE_MARGIN = 36;
+
+// ── Layout ─────────────────────────────────────────
+
+/**
+ * Drawing origin and angle for a w×h box rotated about its center (cx, cy).
+ * pdf-lib rotates text and images about their bottom-left corner.
+ */
+const placeCentered = (frame: PageFrame, cx: number, cy: number, w: number, h: number, rotation: number) => {
+    const rad = (rotation * Math.PI) / 180;
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    const origin = toUserSpace(frame, cx - (w / 2 * cos - h / 2 * sin), cy - (w / 2 * sin + h / 2 * cos));
+    return { x: origin.x, y: origin.y, rotate: degrees(rotation + frame.rotation) };
+};
+
+/** Centers of every stamp on the page, in displayed page space */
+const layoutStampCenters = (frame: PageFrame, w: number, h: number, config: WatermarkPdfConfig): Array<{ cx: number; cy: number }> => {
+    if (config.layout === 'tiled') {
+        const stepX = w + config.tileSpacing;
+        const stepY = h + config.tileSpacing;
+        const centers: Array<{ cx: number; cy: number }> = [];
+
+        // Brick pattern, overscanning by a tile so rotated stamps reach the corners
+        for (let row = 0, cy = -stepY; cy <= frame.height + stepY; row++, cy += stepY) {
+            for (let cx = -stepX + (row % 2) * (stepX / 2); cx <= frame.width + stepX; cx += stepX) {
+                centers.push({ cx, cy });
+            }
+        }
+        return centers;
+    }
+
+    const rad = (config.rotation * Math.PI) / 180;
+    const boundsW = Math.abs(w * Math.cos(rad)) + Math.abs(h * Math.sin(rad));
+    const boundsH = Math.abs(w * Math.sin(rad)) + Math.abs(h * Math.cos(rad));
+    const { position } = config;
+
+    const cx = position.endsWith('left') ? PAGE_MARGIN + boundsW / 2
+        : position.endsWith('right') ? frame.width - PAGE_MARGIN - boundsW / 2
+            : frame.width / 2;
+    const cy = position.startsWith('top') ? frame.height - PAGE_MARGIN - boundsH / 2
+        : position.startsWith('bottom') ? PAGE_MARGIN + boundsH / 2
+            : frame.height / 2;
+
+    return [{ cx, cy }];
+};
+
+// ── Layering ─────────────────────────────────────────
+
+/** pdf-lib appends what it draws; move that stream in front of the original content */
+const moveStampBehindContent = (page: PDFPage): void => {
+    const contents = page.node.Contents();
+    if (!(contents instanceof PDFArray) || contents.size() < 2) return;
+
+    const stamp = contents.get(contents.size() - 1);
+    contents.remove(contents.size() - 1);
+    contents.insert(0, stamp);
+};
+
+// ── Watermarking ─────────────────────────────────────────
+
+const embedStampImage = async (pdf: PDFDocument, dataUrl: string): Promise<PDFImage> => {
+    const mimeType = dataUrl.split(',')[0].split(':')[1]?.split(';')[0] || '';
+    const bytes = base64ToArrayBuffer(dataUrl.split(',')[1] ?? '');
+
+    if (mimeType === 'image/png') return pdf.embedPng(bytes);
+    if (mimeType === 'image/jpeg' || mimeType === 'image/jpg') return pdf.embedJpg(bytes);
+    throw new Error(`Unsupported image format: ${mimeType}. Only PNG and JPEG images can be used as a watermark.`);
+};
+
+/**
+ * Stamp a watermark on the selected pages of a loaded document
+ */
+export const applyWatermark = async (
+    pdf: PDFDocument,
+    config: WatermarkPdfConfig,
+    onProgress?: (progress: number, status: string) => void
+): Promise<void> => {
+    const pages = pdf.getPages();
+    const pageIndices = config.pageSelection === 'range'
+        ? parsePageRange(config.pageRange ?? '', pages.length)
+        : pages.map((_, i) => i);
+
+    if (pageIndices.length === 0) {
+        throw new Error('Please enter the pages to watermark');
+    }
+
+    let font: PDFFont | undefined;
+    let image: PDFImage | undefined;
+
+    if (config.type === 'text') {
+        const text = config.text.trim();
+        if (!text) {
+            throw new Error('Please enter the watermark text');
+        }
+        font = await pdf.embedFont(STANDARD_FONTS[config.font] ?? StandardFonts.Helvetica);
+        try {
+            font.widthOfTextAtSize(text, config.fontSize);
+        } catch {
+            throw new Error('The watermark text contains characters the selected font cannot display');
+        }
+    } else {
+        if (!config.imageData) {
+            throw new Error('Please choose a watermark image');
+        }
+        image = await embedStampImage(pdf, config.imageData);
+    }
+
+    const color = hexToRgb(config.color);
+    const opacity = Math.min(1, Math.max(0, config.opacity));
+
+    pageIndices.forEach((pageIdx, i) => {
+        onProgress?.((i / pageIndices.length) * 100, `Watermarking page ${pageIdx + 1}...`);
+
+        const page = pages[pageIdx];
+        const frame = getPageFrame(page);
+
+        if (config.layer === 'over') isolateExistingContent(pdf, page);
+        // Start a stream of our own; pdf-lib otherwise appends to the one it last drew into
+        page.resetPosition();
+
+        if (font) {
+            const text = config.text.trim();
+            const w = font.widthOfTextAtSize(text, config.fontSize);
+            const h = font.heightAtSize(config.fontSize, { descender: false });
+
+            for (const { cx, cy } of layoutStampCenters(frame, w, h, config)) {
+                page.drawText(text, {
+                    ...placeCentered(frame, cx, cy, w, h, config.rotation),
+                    size: config.fontSize,
+                    font,
+                    color: rgb(color.r, color.g, color.b),
+                    opacity,
+                });
+            }
+        } else if (image) {
+            const w = frame.width * (config.imageScale / 100);
+            const h = w * (image.height / image.width);
+
+            for (const { cx, cy } of layoutStampCenters(frame, w, h, config)) {
+                page.drawImage(image, {
+                    ...placeCentered(frame, cx, cy, w, h, config.rotation),
+                    width: w,
+                    height: h,
+                    opacity,
+                });
+            }
+        }
+
+        if (config.layer === 'under') moveStampBehindContent(page);
+    });
+};
+
+/**
+ * Add a text or image watermark to a PDF
+ * @param file - The PDF file to watermark
+ * @param config - Stamp, layout, page selection and layer
+ * @param password - Optional password if the PDF is encrypted
+ * @returns Promise<Uint8Array> - The watermarked PDF
+ */
+export const watermarkPDF = async (
+    file: File,
+    config: WatermarkPdfConfig,
+    onProgress?: (progress: number, status: string) => void,
+    password?: string
+): Promise<Uint8Array> => {
+    if (!file.type.includes('pdf') && !file.name.toLowerCase().endsWith('.pdf')) {
+        throw new Error('File is not a PDF');
+    }
+
+    onProgress?.(5, 'Loading PDF...');
+    const pdf = await loadPDFDocument(await file.arrayBuffer(), password);
+
+    await applyWatermark(pdf, config, (progress, status) => onProgress?.(10 + progress * 0.8, status));
+
+    onProgress?.(95, 'Saving PDF...');
+    const pdfBytes = await pdf.save();
+    onProgress?.(100, 'Watermark added!');
+    return pdfBytes;
+};
@@ -4,7 +4,9 @@
  */
 
 import { PDFDocument, rgb, StandardFonts } from 'pdf-lib';
-import type { PlacedField, SignatureData } from '../types';
+import { flattenDocument } from './pdfFlattenService';
+import { loadPDFDocument } from './pdfService';
+import type { FlattenPdfConfig, PlacedField, SignatureData } from '../types';
 
 interface EmbedSignaturesOptions {
   file: File;
@@ -12,6 +14,8 @@ interface EmbedSignaturesOptions {
   signatures: Map<string, SignatureData>;
   signerName: string;
   pageScales: Map<number, { scaleX: number; scaleY: number; pageWidth: number; pageHeight: number }>;
+  flatten?: FlattenPdfConfig; // Bake form fields, comments and/or links into the pages
+  password?: string; // For an encrypted file
 }
 
 /**
@@ -47,14 +51,14 @@ function getImageType(dataUrl: string): 'png' | 'jpg' {
  * Embed signatures and fields into a PDF file
  */
 export async function embedSignatures(options: EmbedSignaturesOptions): Promise<Uint8Array> {
-  const { file, placedFields, signatures, signerName, pageScales } = options;
+  const { file, placedFields, signatures, signerName, pageScales, flatten, password } = options;
 
   if (placedFields.length === 0) {
     throw new Error('No signature fields have been placed on the document.');
   }
 
   const arrayBuffer = await file.arrayBuffer();
-  const pdfDoc = await PDFDocument.load(arrayBuffer);
+  const pdfDoc = await loadPDFDocument(arrayBuffer, password);
   const pages = pdfDoc.getPages();
   const helveticaFont = await pdfDoc.embedFont(StandardFonts.Helvetica);
 
@@ -148,5 +152,7 @@ export async function embedSignatures(options: EmbedSignaturesOptions): Promise<
     }
   }
 
+  if (flatten) flattenDocument(pdfDoc, flatten);
+
   return pdfDoc.save();
 }
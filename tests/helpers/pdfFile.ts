@@ -0,0 +1,10 @@
+/**
+ * Shared fixtures for service tests
+ */
+
+/** A PDF File whose arrayBuffer() resolves to the given bytes, as services read it under jsdom */
+export const pdfFile = (bytes: Uint8Array, name = 'test.pdf'): File => {
+  const file = new File([bytes], name, { type: 'application/pdf' });
+  Object.defineProperty(file, 'arrayBuffer', { value: async () => bytes.buffer });
+  return file;
+};
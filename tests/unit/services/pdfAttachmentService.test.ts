@@ -0,0 +1,136 @@
+/**
+ * Unit tests for PDF file attachments and e-invoices
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PDFArray, PDFDict, PDFDocument, PDFName } from 'pdf-lib';
+import {
+  attachFile,
+  attachInvoiceXml,
+  findInvoiceAttachment,
+  listAttachments,
+  readInvoiceXml,
+  type NewAttachment,
+} from '@/services/pdfAttachmentService';
+import { readXmpPacket } from '@/services/pdfMetadataService';
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+const newAttachment = (overrides: Partial<NewAttachment>): NewAttachment => ({
+  name: 'notes.txt',
+  data: bytes('hello'),
+  mimeType: 'text/plain',
+  description: '',
+  relationship: 'Supplement',
+  pageIndex: null,
+  corner: 'top-right',
+  ...overrides,
+});
+
+const CII_INVOICE = `<?xml version="1.0" encoding="UTF-8"?>
+<rsm:CrossIndustryInvoice xmlns:rsm="urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100"
+    xmlns:ram="urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100"
+    xmlns:udt="urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100">
+  <rsm:ExchangedDocumentContext>
+    <ram:GuidelineSpecifiedDocumentContextParameter>
+      <ram:ID>urn:cen.eu:en16931:2017#compliant#urn:factur-x.eu:1p0:basic</ram:ID>
+    </ram:GuidelineSpecifiedDocumentContextParameter>
+  </rsm:ExchangedDocumentContext>
+  <rsm:ExchangedDocument>
+    <ram:ID>INV-2024-017</ram:ID>
+    <ram:IssueDateTime><udt:DateTimeString format="102">20240315</udt:DateTimeString></ram:IssueDateTime>
+  </rsm:ExchangedDocument>
+  <rsm:SupplyChainTradeTransaction>
+    <ram:ApplicableHeaderTradeAgreement>
+      <ram:SellerTradeParty><ram:Name>Acme GmbH</ram:Name></ram:SellerTradeParty>
+      <ram:BuyerTradeParty><ram:Name>Globex SARL</ram:Name></ram:BuyerTradeParty>
+    </ram:ApplicableHeaderTradeAgreement>
+    <ram:ApplicableHeaderTradeSettlement>
+      <ram:InvoiceCurrencyCode>EUR</ram:InvoiceCurrencyCode>
+      <ram:SpecifiedTradeSettlementHeaderMonetarySummation>
+        <ram:GrandTotalAmount>119.00</ram:GrandTotalAmount>
+        <ram:DuePayableAmount>119.00</ram:DuePayableAmount>
+      </ram:SpecifiedTradeSettlementHeaderMonetarySummation>
+    </ram:ApplicableHeaderTradeSettlement>
+  </rsm:SupplyChainTradeTransaction>
+</rsm:CrossIndustryInvoice>`;
+
+const reload = async (pdf: PDFDocument) => PDFDocument.load(await pdf.save());
+
+describe('pdfAttachmentService', () => {
+  it('should list document and page attachments after saving', async () => {
+    const pdf = await PDFDocument.create();
+    pdf.addPage([600, 800]);
+    pdf.addPage([600, 800]);
+
+    const now = new Date('2024-03-15T10:00:00Z');
+    attachFile(pdf, newAttachment({ name: 'zeta.txt', description: 'Last' }), now);
+    attachFile(pdf, newAttachment({ name: 'data.csv', data: bytes('a,b\n1,2'), mimeType: 'text/csv' }), now);
+    attachFile(pdf, newAttachment({ name: 'photo.png', mimeType: 'image/png', pageIndex: 1, corner: 'bottom-left' }), now);
+
+    const loaded = await reload(pdf);
+    const attachments = listAttachments(loaded);
+
+    expect(attachments.map(a => [a.name, a.pageIndex])).toEqual([['data.csv', null], ['zeta.txt', null], ['photo.png', 1]]);
+    expect(new TextDecoder().decode(attachments[0].data)).toBe('a,b\n1,2');
+    expect(attachments[0]).toMatchObject({ mimeType: 'text/csv', size: 7, relationship: 'Supplement' });
+    expect(attachments[0].creationDate?.toISOString()).toBe(now.toISOString());
+    expect(attachments[1].description).toBe('Last');
+
+    const annots = loaded.getPage(1).node.Annots()!;
+    expect(annots.size()).toBe(1);
+    const annot = annots.lookup(0, PDFDict);
+    expect(annot.lookup(PDFName.of('Subtype'))).toBe(PDFName.of('FileAttachment'));
+    expect(annot.lookup(PDFName.of('Rect'), PDFArray).asRectangle()).toEqual({ x: 24, y: 24, width: 20, height: 20 });
+  });
+
+  it('should keep same-named attachments and list each once', async () => {
+    const pdf = await PDFDocument.create();
+    pdf.addPage();
+    attachFile(pdf, newAttachment({ data: bytes('first') }));
+    attachFile(pdf, newAttachment({ data: bytes('second') }));
+
+    const attachments = listAttachments(await reload(pdf));
+
+    expect(attachments.map(a => new TextDecoder().decode(a.data))).toEqual(['first', 'second']);
+    expect(attachments.every(a => a.name === 'notes.txt')).toBe(true);
+  });
+
+  it('should read the key facts of a Factur-X invoice', () => {
+    expect(readInvoiceXml(CII_INVOICE)).toEqual({
+      syntax: 'CII',
+      guideline: 'urn:cen.eu:en16931:2017#compliant#urn:factur-x.eu:1p0:basic',
+      profile: 'BASIC',
+      number: 'INV-2024-017',
+      issueDate: '2024-03-15',
+      seller: 'Acme GmbH',
+      buyer: 'Globex SARL',
+      currency: 'EUR',
+      total: '119.00',
+      duePayable: '119.00',
+    });
+    expect(() => readInvoiceXml('<order/>')).toThrow('not a ZUGFeRD, Factur-X or XRechnung invoice');
+  });
+
+  it('should attach invoice XML as factur-x.xml with fx: metadata, replacing an earlier one', async () => {
+    const pdf = await PDFDocument.create();
+    pdf.addPage();
+    attachFile(pdf, newAttachment({ name: 'ZUGFeRD-invoice.xml', data: bytes('<old/>') }));
+    attachInvoiceXml(pdf, bytes(CII_INVOICE));
+
+    const loaded = await reload(pdf);
+    const attachments = listAttachments(loaded);
+    const invoice = findInvoiceAttachment(attachments);
+
+    expect(attachments).toHaveLength(1);
+    expect(invoice).toMatchObject({ name: 'factur-x.xml', mimeType: 'text/xml', relationship: 'Alternative' });
+    expect((loaded.catalog.lookup(PDFName.of('AF')) as PDFArray).size()).toBe(1);
+
+    const xmp = readXmpPacket(loaded)!;
+    expect(xmp).toContain('<fx:DocumentFileName>factur-x.xml</fx:DocumentFileName>');
+    expect(xmp).toContain('<fx:ConformanceLevel>BASIC</fx:ConformanceLevel>');
+    // The PDF is not converted, so it must not claim PDF/A conformance
+    expect(xmp).not.toContain('pdfaid');
+    expect(xmp.match(/Factur-X PDFA Extension Schema/g)).toHaveLength(1);
+  });
+});
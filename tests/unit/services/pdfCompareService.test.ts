@@ -0,0 +1,111 @@
+/**
+ * Unit tests for comparing two PDFs
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import {
+  alignPages,
+  buildComparisonReport,
+  diffPixels,
+  diffWords,
+  findChangedRegions,
+  splitIntoWords,
+  type PixelBuffer,
+} from '@/services/pdfCompareService';
+import type { DetectedTextItem } from '@/services/pdfEditorService';
+
+const item = (text: string, x: number, y: number, width: number): DetectedTextItem => ({
+  id: text,
+  text,
+  x,
+  y,
+  width,
+  height: 10,
+  fontSize: 10,
+  fontFamily: 'Helvetica',
+  color: '#000000',
+  transform: [10, 0, 0, 10, x, 800 - y - 10],
+  pageNumber: 1,
+});
+
+/** A white image with black pixels at the given points */
+const image = (width: number, height: number, black: Array<[number, number]> = []): PixelBuffer => {
+  const data = new Uint8ClampedArray(width * height * 4).fill(255);
+  for (const [x, y] of black) data.set([0, 0, 0, 255], (y * width + x) * 4);
+  return { data, width, height };
+};
+
+const words = (text: string) => text.split(' ');
+
+describe('pdfCompareService', () => {
+  it('should split items into words and join items split inside a word', () => {
+    const result = splitIntoWords([item('The con', 100, 50, 35), item('tract ends', 135, 50, 50), item('here', 100, 70, 20)]);
+
+    expect(result.map(word => word.text)).toEqual(['The', 'contract', 'ends', 'here']);
+    expect(result[1]).toMatchObject({ x: 120, width: 40, y: 50, height: 10 });
+  });
+
+  it('should diff words with deletions before insertions', () => {
+    const a = words('the buyer shall pay the full price');
+    const b = words('the seller shall pay half the price');
+
+    const changes = diffWords(a, b)
+      .filter(run => run.type !== 'equal')
+      .map(run => `${run.type}:${(run.type === 'delete' ? a.slice(run.aStart, run.aEnd) : b.slice(run.bStart, run.bEnd)).join(' ')}`);
+
+    expect(changes).toEqual(['delete:buyer', 'insert:seller', 'insert:half', 'delete:full']);
+  });
+
+  it('should align pages around an inserted page and pair rewritten pages in place', () => {
+    const original = [words('alpha beta gamma'), words('delta epsilon zeta'), words('eta theta iota')];
+    const revised = [words('alpha beta gamma'), words('new page entirely'), words('delta epsilon zeta'), words('totally different text')];
+
+    expect(alignPages(original, revised)).toEqual([
+      { left: 0, right: 0 },
+      { left: null, right: 1 },
+      { left: 1, right: 2 },
+      { left: 2, right: 3 },
+    ]);
+    expect(alignPages(original, [original[0], original[2]])).toEqual([
+      { left: 0, right: 0 },
+      { left: 1, right: null },
+      { left: 2, right: 1 },
+    ]);
+  });
+
+  it('should mark removed and added pixels and group them into regions', () => {
+    const before = image(40, 40, [[2, 2], [3, 2]]);
+    const after = image(40, 40, [[30, 30]]);
+
+    const { mask, changed } = diffPixels(before, after, 48);
+
+    expect(changed).toBe(3);
+    expect(mask[2 * 40 + 2]).toBe(1);
+    expect(mask[30 * 40 + 30]).toBe(2);
+    expect(findChangedRegions(mask, 40, 40, 8)).toEqual([
+      { x: 0, y: 0, width: 8, height: 8 },
+      { x: 24, y: 24, width: 8, height: 8 },
+    ]);
+  });
+
+  it('should build a report with a summary and one page per page pair', async () => {
+    const size = { width: 600, height: 800 };
+    const data = await buildComparisonReport({
+      pages: [
+        { left: 0, right: 0, leftSize: size, rightSize: size, regions: [], pixelDifference: 0, changes: [
+          { type: 'delete', text: 'buyer', rects: [{ x: 100, y: 100, width: 30, height: 10 }] },
+          { type: 'insert', text: 'seller', rects: [{ x: 100, y: 100, width: 32, height: 10 }] },
+        ] },
+        { left: null, right: 1, leftSize: null, rightSize: size, regions: [], pixelDifference: 0, changes: [] },
+      ],
+      insertions: 1,
+      deletions: 1,
+      changedPages: 2,
+    }, { original: 'contract v1.pdf', revised: 'contract → v2.pdf' });
+
+    const report = await PDFDocument.load(data);
+    expect(report.getPageCount()).toBe(3);
+    expect(report.getTitle()).toBe('Comparison of contract v1.pdf and contract ? v2.pdf');
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Unit tests for the PDF content stream parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseContentStream, serializeContentStream, multiplyMatrix, IDENTITY_MATRIX } from '@/services/pdfContentStream';
+import type { Matrix } from '@/services/pdfContentStream';
+
+const encode = (text: string): Uint8Array => Uint8Array.from(text, ch => ch.charCodeAt(0));
+
+describe('parseContentStream', () => {
+  it('should split operators and operands', () => {
+    const ops = parseContentStream(encode('q 100 0 0 50 10 20 cm /Im1 Do Q'));
+
+    expect(ops.map(op => op.operator)).toEqual(['q', 'cm', 'Do', 'Q']);
+    expect(ops[1].operands).toHaveLength(6);
+    expect(ops[1].operands[0]).toEqual({ type: 'number', value: 100 });
+    expect(ops[2].operands[0]).toEqual({ type: 'name', value: 'Im1' });
+  });
+
+  it('should decode literal strings with escapes and nested parentheses', () => {
+    const ops = parseContentStream(encode('BT (a\\(b\\) (c) \\101) Tj ET'));
+    const operand = ops[1].operands[0];
+
+    expect(operand.type).toBe('string');
+    if (operand.type === 'string') {
+      expect(new TextDecoder().decode(operand.value)).toBe('a(b) (c) A');
+      expect(operand.hex).toBe(false);
+    }
+  });
+
+  it('should parse hex strings, arrays and dictionaries', () => {
+    const ops = parseContentStream(encode('[<48 65> -120 (llo)] TJ /OC <</MCID 3>> BDC'));
+
+    const array = ops[0].operands[0];
+    expect(array.type).toBe('array');
+    if (array.type === 'array') {
+      expect(array.items).toHaveLength(3);
+      expect(array.items[1]).toEqual({ type: 'number', value: -120 });
+    }
+
+    const dict = ops[1].operands[1];
+    expect(dict.type).toBe('dict');
+    if (dict.type === 'dict') {
+      expect(dict.entries.MCID).toEqual({ type: 'number', value: 3 });
+    }
+  });
+
+  it('should skip comments and decode escaped names', () => {
+    const ops = parseContentStream(encode('% comment\n/F#231 12 Tf'));
+
+    expect(ops).toHaveLength(1);
+    expect(ops[0].operands[0]).toEqual({ type: 'name', value: 'F#1' });
+  });
+
+  it('should capture inline image data without tokenizing it', () => {
+    const ops = parseContentStream(encode('q BI /W 2 /H 1 /BPC 8 /CS /G ID \x00EI\xff EI Q'));
+
+    expect(ops.map(op => op.operator)).toEqual(['q', 'BI', 'Q']);
+    expect(ops[1].inlineImageData).toEqual(new Uint8Array([0x00, 0x45, 0x49, 0xff]));
+  });
+});
+
+describe('multiplyMatrix', () => {
+  it('should return the same matrix when multiplied by identity', () => {
+    const m: Matrix = [2, 0, 0, 3, 10, 20];
+    expect(multiplyMatrix(m, IDENTITY_MATRIX)).toEqual(m);
+  });
+
+  it('should apply the inner transform inside the outer one', () => {
+    const scale: Matrix = [100, 0, 0, 50, 0, 0];
+    const translate: Matrix = [1, 0, 0, 1, 10, 20];
+    expect(multiplyMatrix(scale, translate)).toEqual([100, 0, 0, 50, 10, 20]);
+  });
+});
+
+describe('serializeContentStream', () => {
+  it('should write operations that parse back to the same operations', () => {
+    const source = encode(
+      'q 0.5 0 0 -1.25 10 20 cm BT /F#201 12 Tf [(a\\(b\\)\\\\) -120 <00ff>] TJ ET ' +
+      '/Span <</ActualText (x) /MCID 3>> BDC EMC true false null [1 [2]] d0 ' +
+      'BI /W 2 /H 1 /BPC 8 /CS /G ID \x00EI\xff EI Q'
+    );
+    const ops = parseContentStream(source);
+
+    expect(parseContentStream(serializeContentStream(ops))).toEqual(ops);
+  });
+
+  it('should write numbers without exponents', () => {
+    const text = new TextDecoder().decode(serializeContentStream([
+      { operator: 'Td', operands: [{ type: 'number', value: 1e-7 }, { type: 'number', value: 2.5 }] },
+    ]));
+
+    expect(text).toBe('0 2.5 Td\n');
+  });
+});
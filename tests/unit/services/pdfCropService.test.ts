@@ -0,0 +1,86 @@
+/**
+ * Unit tests for cropping and page-box editing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PDFDocument, degrees } from 'pdf-lib';
+import { cropPDF, displayRectToPageBox, padPageBox, selectCropPages } from '@/services/pdfCropService';
+import { DEFAULT_CROP_PDF_CONFIG, type CropPdfConfig } from '@/types';
+import { pdfFile } from '@/tests/helpers/pdfFile';
+
+const config = (overrides: Partial<CropPdfConfig> = {}): CropPdfConfig => ({
+  ...DEFAULT_CROP_PDF_CONFIG,
+  ...overrides,
+});
+
+async function createPdfFile(pageCount: number): Promise<File> {
+  const pdf = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) pdf.addPage([600, 800]);
+  return pdfFile(await pdf.save());
+}
+
+describe('pdfCropService', () => {
+  describe('displayRectToPageBox', () => {
+    it('should map a rectangle from the top-left of an upright page', async () => {
+      const pdf = await PDFDocument.create();
+      const page = pdf.addPage([600, 800]);
+
+      expect(displayRectToPageBox(page, { left: 0.1, top: 0.25, right: 0.5, bottom: 0.5 }))
+        .toEqual({ x: 60, y: 400, width: 240, height: 200 });
+    });
+
+    it('should follow the page rotation', async () => {
+      const pdf = await PDFDocument.create();
+      const page = pdf.addPage([600, 800]);
+      page.setRotation(degrees(90));
+
+      // Displayed 800 wide and 600 tall; its top strip is the left edge of the page
+      expect(displayRectToPageBox(page, { left: 0, top: 0, right: 1, bottom: 0.5 }))
+        .toEqual({ x: 0, y: 0, width: 300, height: 800 });
+    });
+
+    it('should be relative to an existing crop box', async () => {
+      const pdf = await PDFDocument.create();
+      const page = pdf.addPage([600, 800]);
+      page.setCropBox(100, 100, 200, 200);
+
+      expect(displayRectToPageBox(page, { left: 0.5, top: 0.5, right: 1, bottom: 1 }))
+        .toEqual({ x: 200, y: 100, width: 100, height: 100 });
+    });
+  });
+
+  it('should pad a box without leaving its bounds', () => {
+    expect(padPageBox({ x: 5, y: 50, width: 100, height: 100 }, 10, { x: 0, y: 0, width: 110, height: 300 }))
+      .toEqual({ x: 0, y: 40, width: 110, height: 120 });
+  });
+
+  it('should select odd and even pages by their page number', () => {
+    expect(selectCropPages('odd', 5, 0)).toEqual([0, 2, 4]);
+    expect(selectCropPages('even', 5, 0)).toEqual([1, 3]);
+    expect(selectCropPages('current', 5, 3)).toEqual([3]);
+  });
+
+  describe('cropPDF', () => {
+    it('should write the crop box and the chosen extra boxes', async () => {
+      const file = await createPdfFile(3);
+      const rect = { left: 0.1, top: 0.1, right: 0.9, bottom: 0.9 };
+      const result = await cropPDF(file, config({ pageSelection: 'even', setTrimBox: true }), rect, 0);
+
+      expect(result.croppedPages).toBe(1);
+      const cropped = await PDFDocument.load(result.data);
+      expect(cropped.getPage(0).getCropBox()).toEqual({ x: 0, y: 0, width: 600, height: 800 });
+      expect(cropped.getPage(1).getCropBox()).toEqual({ x: 60, y: 80, width: 480, height: 640 });
+      expect(cropped.getPage(1).getTrimBox()).toEqual({ x: 60, y: 80, width: 480, height: 640 });
+      expect(cropped.getPage(1).getMediaBox()).toEqual({ x: 0, y: 0, width: 600, height: 800 });
+    });
+
+    it('should require a rectangle in manual mode', async () => {
+      await expect(cropPDF(await createPdfFile(1), config(), null, 0)).rejects.toThrow('draw the area');
+    });
+
+    it('should reject a crop that leaves almost nothing', async () => {
+      const rect = { left: 0.5, top: 0.5, right: 0.51, bottom: 0.51 };
+      await expect(cropPDF(await createPdfFile(1), config(), rect, 0)).rejects.toThrow('too small');
+    });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Unit tests for creating form fields from editor elements
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PDFDict, PDFDocument, PDFName, PDFString, degrees } from 'pdf-lib';
+import { applyFormFieldElements, getRedactionAreas, type FormFieldElement } from '@/services/pdfEditorService';
+
+let nextId = 0;
+
+/** A field element in canvas space at scale 1, so coordinates equal PDF points */
+const field = (overrides: Partial<FormFieldElement>): FormFieldElement => ({
+  id: `field-${nextId++}`,
+  pageNumber: 1,
+  type: 'text',
+  x: 50,
+  y: 50,
+  width: 150,
+  height: 20,
+  name: 'Field',
+  defaultValue: '',
+  required: false,
+  fontSize: 12,
+  tabOrder: 1,
+  options: [],
+  ...overrides,
+});
+
+async function createPDF(): Promise<PDFDocument> {
+  const pdf = await PDFDocument.create();
+  pdf.addPage([600, 800]);
+  return pdf;
+}
+
+/** Names of the fields whose widgets are in the page's annotations, in order */
+function widgetOrder(pdf: PDFDocument): string[] {
+  const annots = pdf.getPage(0).node.Annots()!;
+  return annots.asArray().map((_, i) => {
+    const widget = annots.lookup(i, PDFDict);
+    const parent = widget.lookup(PDFName.of('Parent'));
+    const title = (parent instanceof PDFDict ? parent : widget).lookup(PDFName.of('T'));
+    return (title as PDFString).decodeText();
+  });
+}
+
+describe('pdfEditorService form fields', () => {
+  it('should create every kind of field with its default value', async () => {
+    const pdf = await createPDF();
+
+    await applyFormFieldElements(pdf, [
+      field({ name: 'name', defaultValue: 'Ada', required: true }),
+      field({ name: 'notes', type: 'multiline', height: 60 }),
+      field({ name: 'agree', type: 'checkbox', width: 14, height: 14, defaultValue: 'Yes' }),
+      field({ name: 'size', type: 'radio', width: 14, height: 14, option: 'S', defaultValue: 'M' }),
+      field({ name: 'size', type: 'radio', width: 14, height: 14, x: 80, option: 'M', defaultValue: 'M' }),
+      field({ name: 'country', type: 'dropdown', options: ['France', 'Germany'], defaultValue: 'Germany' }),
+      field({ name: 'born', type: 'date', dateFormat: 'dd/mm/yyyy' }),
+    ], 1);
+
+    const form = pdf.getForm();
+    expect(form.getTextField('name').getText()).toBe('Ada');
+    expect(form.getTextField('name').isRequired()).toBe(true);
+    expect(form.getTextField('notes').isMultiline()).toBe(true);
+    expect(form.getCheckBox('agree').isChecked()).toBe(true);
+    expect(form.getRadioGroup('size').getOptions()).toEqual(['S', 'M']);
+    expect(form.getRadioGroup('size').getSelected()).toBe('M');
+    expect(form.getDropdown('country').getSelected()).toEqual(['Germany']);
+
+    const actions = form.getTextField('born').acroField.dict.lookup(PDFName.of('AA'), PDFDict);
+    expect((actions.lookup(PDFName.of('F'), PDFDict).lookup(PDFName.of('JS')) as PDFString).decodeText())
+      .toBe('AFDate_FormatEx("dd/mm/yyyy");');
+  });
+
+  it('should convert canvas coordinates to the widget rectangle', async () => {
+    const pdf = await createPDF();
+
+    await applyFormFieldElements(pdf, [field({ name: 'name', x: 75, y: 150, width: 300, height: 30 })], 1.5);
+
+    const rect = pdf.getForm().getTextField('name').acroField.getWidgets()[0].getRectangle();
+    // pdf-lib grows the rectangle by half the 1pt default border on each side
+    expect(rect).toEqual({ x: 49.5, y: 679.5, width: 201, height: 21 });
+  });
+
+  it('should place widgets on cropped and rotated pages where they were drawn', async () => {
+    const pdf = await createPDF();
+    pdf.getPage(0).setCropBox(100, 100, 400, 600);
+    const rotated = pdf.addPage([600, 800]);
+    rotated.setRotation(degrees(90));
+
+    await applyFormFieldElements(pdf, [
+      field({ name: 'cropped', x: 50, y: 50, width: 150, height: 20 }),
+      field({ name: 'rotated', pageNumber: 2, x: 100, y: 50, width: 150, height: 20 }),
+    ], 1);
+
+    const widgetOf = (name: string) => pdf.getForm().getTextField(name).acroField.getWidgets()[0];
+    // Displayed 600 high, so y 50 to 70 from the top is 530 to 550 from the crop box bottom
+    expect(widgetOf('cropped').getRectangle()).toEqual({ x: 149.5, y: 629.5, width: 151, height: 21 });
+    // Displayed 800 wide and 600 high: the box turns onto x 50 to 70, y 100 to 250
+    expect(widgetOf('rotated').getRectangle()).toEqual({ x: 49.5, y: 99.5, width: 21, height: 151 });
+    expect(widgetOf('rotated').getAppearanceCharacteristics()?.getRotation()).toBe(90);
+  });
+
+  it('should add widgets in tab order', async () => {
+    const pdf = await createPDF();
+
+    await applyFormFieldElements(pdf, [
+      field({ name: 'third', tabOrder: 3 }),
+      field({ name: 'first', tabOrder: 1 }),
+      field({ name: 'second', tabOrder: 2 }),
+    ], 1);
+
+    expect(widgetOrder(pdf)).toEqual(['first', 'second', 'third']);
+  });
+
+  it('should reject duplicate and missing names', async () => {
+    await expect(applyFormFieldElements(await createPDF(), [field({ name: 'a' }), field({ name: 'a', type: 'date' })]))
+      .rejects.toThrow('Two form fields are named "a"');
+    await expect(applyFormFieldElements(await createPDF(), [field({ name: ' ' })]))
+      .rejects.toThrow('needs a name');
+  });
+
+  it('should not reuse the name of a field already in the PDF', async () => {
+    const pdf = await createPDF();
+    pdf.getForm().createTextField('name').addToPage(pdf.getPage(0));
+
+    await expect(applyFormFieldElements(pdf, [field({ name: 'name' })])).rejects.toThrow('already has a form field');
+  });
+});
+
+describe('pdfEditorService redactions', () => {
+  it('should convert canvas rectangles on rotated pages to user space', async () => {
+    const pdf = await createPDF();
+    pdf.getPage(0).setRotation(degrees(90));
+
+    // Displayed 800 wide and 600 high; canvas at scale 2
+    const [area] = getRedactionAreas(pdf, [
+      { id: 'r1', pageNumber: 1, x: 200, y: 100, width: 100, height: 40, fillColor: '#000000', label: '' },
+    ], 2);
+
+    expect(area).toEqual({ pageIndex: 0, x: 50, y: 100, width: 20, height: 50, fillColor: '#000000', label: '' });
+  });
+});
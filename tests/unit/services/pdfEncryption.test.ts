@@ -0,0 +1,221 @@
+/**
+ * Unit tests for the PDF Standard Security Handler
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  PDFDocument,
+  PDFArray,
+  PDFDict,
+  PDFName,
+  PDFNumber,
+  PDFObjectStream,
+  PDFRawStream,
+  PDFRef,
+  PDFString,
+} from 'pdf-lib';
+import { md5, rc4 } from '@/services/pdfCrypto';
+import {
+  computePermissionFlags,
+  decodePermissionFlags,
+  encryptDocument,
+  decryptPDFBytes,
+  readEncryptionInfo,
+} from '@/services/pdfEncryption';
+import type { EncryptionAlgorithm } from '../../../types';
+
+const encode = (text: string): Uint8Array => Uint8Array.from(text, ch => ch.charCodeAt(0));
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+const PAGE_TEXT = 'BT /F1 12 Tf 72 720 Td (Secret page text) Tj ET';
+
+async function createEncryptedPdf(
+  algorithm: EncryptionAlgorithm,
+  userPassword = 'user-pass',
+  ownerPassword = 'owner-pass'
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle('Quarterly Report');
+  const page = pdf.addPage([595, 842]);
+  page.node.addContentStream(pdf.context.register(pdf.context.stream(PAGE_TEXT)));
+
+  await encryptDocument(pdf, {
+    userPassword,
+    ownerPassword,
+    permissions: { printing: true },
+    algorithm,
+    encryptMetadata: true,
+  });
+  return pdf.save({ useObjectStreams: false, updateFieldAppearances: false });
+}
+
+async function readFirstPageText(bytes: Uint8Array): Promise<string> {
+  const pdf = await PDFDocument.load(bytes, { ignoreEncryption: true });
+  const contents = pdf.getPage(0).node.Contents();
+  const streams = contents instanceof PDFArray
+    ? contents.asArray().map(ref => pdf.context.lookup(ref) as PDFRawStream)
+    : [contents as PDFRawStream];
+  return streams.map(stream => String.fromCharCode(...stream.getContents())).join('\n');
+}
+
+describe('pdfCrypto primitives', () => {
+  it('should match the RFC 1321 MD5 test vectors', () => {
+    expect(toHex(md5(encode('')))).toBe('d41d8cd98f00b204e9800998ecf8427e');
+    expect(toHex(md5(encode('The quick brown fox jumps over the lazy dog')))).toBe('9e107d9d372bb6826bd81d3542a419d6');
+  });
+
+  it('should match a known RC4 test vector', () => {
+    expect(toHex(rc4(encode('Key'), encode('Plaintext')))).toBe('bbf316e8d940af0ad3');
+  });
+});
+
+describe('computePermissionFlags', () => {
+  it('should set only the reserved bits when nothing is allowed', () => {
+    expect(computePermissionFlags({})).toBe(0xfffff0c0 | 0);
+  });
+
+  it('should set the bit for each allowed operation', () => {
+    const flags = computePermissionFlags({ printing: true, highQualityPrint: true, copying: true, documentAssembly: true });
+    expect(flags & 4).toBe(4);
+    expect(flags & 2048).toBe(2048);
+    expect(flags & 16).toBe(16);
+    expect(flags & 1024).toBe(1024);
+    expect(flags & 8).toBe(0);
+  });
+
+  it('should ignore high-quality printing when printing is not allowed', () => {
+    expect(computePermissionFlags({ highQualityPrint: true }) & 2048).toBe(0);
+  });
+});
+
+describe('encryptDocument', () => {
+  it.each<[EncryptionAlgorithm, number, number]>([
+    ['RC4-128', 2, 3],
+    ['AES-128', 4, 4],
+    ['AES-256', 5, 6],
+  ])('should write a %s encryption dictionary', async (algorithm, version, revision) => {
+    const bytes = await createEncryptedPdf(algorithm);
+    const pdf = await PDFDocument.load(bytes, { ignoreEncryption: true });
+    const encrypt = pdf.context.lookup(pdf.context.trailerInfo.Encrypt) as PDFDict;
+
+    expect(pdf.isEncrypted).toBe(true);
+    expect(encrypt.get(PDFName.of('Filter'))).toBe(PDFName.of('Standard'));
+    expect((encrypt.get(PDFName.of('V')) as PDFNumber).asNumber()).toBe(version);
+    expect((encrypt.get(PDFName.of('R')) as PDFNumber).asNumber()).toBe(revision);
+    expect(await readFirstPageText(bytes)).not.toContain('Secret page text');
+  });
+});
+
+describe('decryptPDFBytes', () => {
+  it.each<EncryptionAlgorithm>(['RC4-128', 'AES-128', 'AES-256'])(
+    'should round-trip %s with the user and owner passwords',
+    async (algorithm) => {
+      const encrypted = await createEncryptedPdf(algorithm);
+
+      for (const password of ['user-pass', 'owner-pass']) {
+        const decrypted = await decryptPDFBytes(encrypted, password);
+
+        const reloaded = await PDFDocument.load(decrypted);
+        expect(reloaded.isEncrypted).toBe(false);
+        expect(reloaded.getTitle()).toBe('Quarterly Report');
+        expect(await readFirstPageText(decrypted)).toContain('Secret page text');
+      }
+    }
+  );
+
+  it('should reject a wrong password', async () => {
+    const encrypted = await createEncryptedPdf('AES-128');
+
+    await expect(decryptPDFBytes(encrypted, 'wrong')).rejects.toThrow('Incorrect password');
+  });
+
+  it('should write legacy passwords in PDFDocEncoding and reject characters it lacks', async () => {
+    const encrypted = await createEncryptedPdf('RC4-128', 'café€', 'owner-pass');
+
+    expect(await readFirstPageText(await decryptPDFBytes(encrypted, 'café€'))).toContain('Secret page text');
+    await expect(decryptPDFBytes(encrypted, 'cafe€')).rejects.toThrow('Incorrect password');
+    await expect(createEncryptedPdf('AES-128', 'Ωmega')).rejects.toThrow('"Ω" cannot be used with RC4 or AES-128');
+  });
+
+  it('should prepare AES-256 passwords with SASLprep', async () => {
+    const encrypted = await createEncryptedPdf('AES-256', 'Ωmega\u00a0pass', 'owner-pass');
+
+    expect(await readFirstPageText(await decryptPDFBytes(encrypted, 'Ωmega pass'))).toContain('Secret page text');
+    await expect(createEncryptedPdf('AES-256', 'tab\tpass')).rejects.toThrow('U+0009');
+  });
+
+  it('should return unencrypted input unchanged', async () => {
+    const pdf = await PDFDocument.create();
+    pdf.addPage();
+    const bytes = await pdf.save();
+
+    expect(await decryptPDFBytes(bytes, 'anything')).toBe(bytes);
+  });
+
+  it('should unpack encrypted object streams', async () => {
+    const pdf = await PDFDocument.create();
+    pdf.addPage([595, 842]);
+
+    // Move the Info dictionary into an object stream before encrypting
+    const infoRef = pdf.context.trailerInfo.Info as PDFRef;
+    pdf.context.assign(infoRef, pdf.context.obj({ Title: PDFString.of('Packed Title') }));
+    const objectStream = PDFObjectStream.withContextAndObjects(
+      pdf.context,
+      [[infoRef, pdf.context.lookup(infoRef)!]],
+      false
+    );
+    pdf.context.delete(infoRef);
+    pdf.context.register(objectStream);
+
+    await encryptDocument(pdf, {
+      userPassword: 'pw',
+      ownerPassword: 'pw',
+      permissions: {},
+      algorithm: 'AES-128',
+      encryptMetadata: true,
+    });
+    const encrypted = await pdf.save({ useObjectStreams: false, updateFieldAppearances: false });
+
+    const decrypted = await PDFDocument.load(await decryptPDFBytes(encrypted, 'pw'));
+    expect(decrypted.getTitle()).toBe('Packed Title');
+  });
+});
+
+describe('readEncryptionInfo', () => {
+  it('should report the algorithm, revision and permissions', async () => {
+    const bytes = await createEncryptedPdf('AES-256');
+    const pdf = await PDFDocument.load(bytes, { ignoreEncryption: true });
+    const info = readEncryptionInfo(pdf.context);
+
+    expect(info).toMatchObject({ algorithm: 'AES-256', version: 5, revision: 6, keyLength: 256 });
+    expect(info!.permissions.printing).toBe(true);
+    expect(info!.permissions.copying).toBe(false);
+  });
+
+  it('should return null for unencrypted documents', async () => {
+    const pdf = await PDFDocument.create();
+    expect(readEncryptionInfo(pdf.context)).toBeNull();
+  });
+});
+
+describe('decodePermissionFlags', () => {
+  it('should invert computePermissionFlags', () => {
+    const permissions = {
+      printing: true,
+      highQualityPrint: false,
+      copying: true,
+      modifying: false,
+      annotating: true,
+      fillingForms: true,
+      contentAccessibility: true,
+      documentAssembly: false,
+    };
+    expect(decodePermissionFlags(computePermissionFlags(permissions))).toEqual(permissions);
+  });
+
+  it('should derive the extended permissions from the basic bits for revision 2', () => {
+    const permissions = decodePermissionFlags(computePermissionFlags({ copying: true }), 2);
+    expect(permissions.contentAccessibility).toBe(true);
+    expect(permissions.documentAssembly).toBe(false);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for flattening forms and annotations
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PDFArray, PDFContentStream, PDFDict, PDFDocument, PDFName, PDFPage } from 'pdf-lib';
+import { countAnnotations, flattenDocument, flattenPDF } from '@/services/pdfFlattenService';
+import { DEFAULT_FLATTEN_PDF_CONFIG, type FlattenPdfConfig } from '@/types';
+import { pdfFile } from '@/tests/helpers/pdfFile';
+
+const config = (overrides: Partial<FlattenPdfConfig> = {}): FlattenPdfConfig => ({
+  ...DEFAULT_FLATTEN_PDF_CONFIG,
+  ...overrides,
+});
+
+/** Add an annotation with a 10×10 appearance stream */
+function addAnnotation(pdf: PDFDocument, page: PDFPage, subtype: string, rect: number[], extra: Record<string, unknown> = {}) {
+  const appearance = pdf.context.register(pdf.context.stream('0 0 1 rg 0 0 10 10 re f', {
+    Type: 'XObject',
+    Subtype: 'Form',
+    BBox: [0, 0, 10, 10],
+  }));
+  const annot = pdf.context.register(pdf.context.obj({
+    Type: 'Annot',
+    Subtype: subtype,
+    Rect: rect,
+    AP: { N: appearance },
+    ...extra,
+  }));
+  const annots = page.node.Annots() ?? pdf.context.obj([]);
+  annots.push(annot);
+  page.node.set(PDFName.of('Annots'), annots);
+}
+
+/** Text of the content stream flattening appended to a page */
+function lastContentStream(pdf: PDFDocument, page: PDFPage): string {
+  const contents = page.node.Contents() as PDFArray;
+  const stream = pdf.context.lookup(contents.get(contents.size() - 1)) as PDFContentStream;
+  return stream.getContentsString();
+}
+
+describe('pdfFlattenService', () => {
+  it('should count form fields, comments and links', async () => {
+    const pdf = await PDFDocument.create();
+    const page = pdf.addPage();
+    addAnnotation(pdf, page, 'Text', [0, 0, 20, 20]);
+    addAnnotation(pdf, page, 'Popup', [0, 0, 20, 20]);
+    addAnnotation(pdf, page, 'Link', [0, 0, 20, 20]);
+    pdf.getForm().createTextField('name').addToPage(page);
+
+    expect(countAnnotations(pdf)).toEqual({ forms: 1, comments: 1, links: 1 });
+  });
+
+  it('should draw the appearance onto the annotation rectangle', async () => {
+    const pdf = await PDFDocument.create();
+    const page = pdf.addPage();
+    addAnnotation(pdf, page, 'Square', [100, 100, 120, 140]);
+
+    const counts = flattenDocument(pdf, config());
+
+    expect(counts.comments).toBe(1);
+    expect(page.node.Annots()).toBeUndefined();
+    expect(lastContentStream(pdf, page)).toContain('2 0 0 4 100 100 cm');
+    expect(page.node.Resources()!.lookup(PDFName.of('XObject'), PDFDict).keys().length).toBe(1);
+  });
+
+  it('should only flatten the chosen kinds of annotations', async () => {
+    const pdf = await PDFDocument.create();
+    const page = pdf.addPage();
+    addAnnotation(pdf, page, 'Highlight', [0, 0, 20, 20]);
+    addAnnotation(pdf, page, 'Popup', [20, 0, 40, 20]);
+    addAnnotation(pdf, page, 'Link', [40, 0, 60, 20]);
+
+    flattenDocument(pdf, config({ comments: true, links: false }));
+
+    const annots = page.node.Annots()!;
+    expect(annots.size()).toBe(1);
+    expect(annots.lookup(0, PDFDict).lookup(PDFName.of('Subtype'))).toBe(PDFName.of('Link'));
+  });
+
+  it('should remove hidden annotations without drawing them', async () => {
+    const pdf = await PDFDocument.create();
+    const page = pdf.addPage();
+    addAnnotation(pdf, page, 'Stamp', [0, 0, 20, 20], { F: 2 });
+
+    flattenDocument(pdf, config());
+
+    expect(page.node.Annots()).toBeUndefined();
+    expect(page.node.Contents()).toBeUndefined();
+  });
+
+  it('should bake filled-in form fields and remove the form', async () => {
+    const pdf = await PDFDocument.create();
+    const page = pdf.addPage();
+    const field = pdf.getForm().createTextField('name');
+    field.setText('Alice');
+    field.addToPage(page, { x: 50, y: 50, width: 200, height: 30 });
+    const file = pdfFile(await pdf.save());
+
+    const { data, flattened } = await flattenPDF(file, config({ comments: false }));
+    const result = await PDFDocument.load(data);
+
+    expect(flattened.forms).toBe(1);
+    expect(result.catalog.getAcroForm()).toBeUndefined();
+    expect(result.getPage(0).node.Annots()).toBeUndefined();
+  });
+
+  it('should require at least one option', async () => {
+    const pdf = await PDFDocument.create();
+    pdf.addPage();
+    const file = pdfFile(await pdf.save());
+
+    await expect(flattenPDF(file, { forms: false, comments: false, links: false }))
+      .rejects.toThrow('at least one');
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Unit tests for filling forms and exchanging field values
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PDFDocument, PDFName, PDFBool, degrees } from 'pdf-lib';
+import {
+  readFormFields,
+  findMissingRequired,
+  fillForm,
+  exportFormData,
+  parseFormData,
+  matchImportedValues,
+  detectFormDataFormat,
+  type FormValues,
+} from '@/services/pdfFormService';
+import { pdfFile } from '@/tests/helpers/pdfFile';
+
+/** A one-page form with one field of every fillable kind */
+async function createForm(): Promise<PDFDocument> {
+  const pdf = await PDFDocument.create();
+  const page = pdf.addPage([600, 800]);
+  const form = pdf.getForm();
+
+  const name = form.createTextField('applicant.name');
+  name.addToPage(page, { x: 50, y: 700, width: 200, height: 20 });
+  name.enableRequired();
+  const code = form.createTextField('applicant.code');
+  code.setMaxLength(3);
+  code.addToPage(page, { x: 50, y: 650, width: 100, height: 20 });
+
+  form.createCheckBox('agree').addToPage(page, { x: 50, y: 600, width: 15, height: 15 });
+
+  const colour = form.createRadioGroup('colour');
+  colour.addOptionToPage('red', page, { x: 50, y: 550, width: 15, height: 15 });
+  colour.addOptionToPage('blue', page, { x: 100, y: 550, width: 15, height: 15 });
+
+  const country = form.createDropdown('country');
+  country.addOptions(['France', 'Germany']);
+  country.addToPage(page, { x: 50, y: 500, width: 100, height: 20 });
+
+  const languages = form.createOptionList('languages');
+  languages.addOptions(['English', 'French', 'German']);
+  languages.enableMultiselect();
+  languages.addToPage(page, { x: 50, y: 400, width: 100, height: 60 });
+
+  return pdf;
+}
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+const FILLED: FormValues = {
+  'applicant.name': 'Ada Lovelace',
+  'applicant.code': 'ABC',
+  agree: true,
+  colour: 'blue',
+  country: 'Germany',
+  languages: ['English', 'German'],
+};
+
+describe('pdfFormService', () => {
+  it('should list fields with their types, options and widget positions', async () => {
+    const fields = readFormFields(await createForm());
+    const byName = Object.fromEntries(fields.map(field => [field.name, field]));
+
+    expect(fields.map(field => field.type)).toEqual(['text', 'text', 'checkbox', 'radio', 'dropdown', 'list']);
+    expect(byName['applicant.name'].required).toBe(true);
+    expect(byName['applicant.code'].maxLength).toBe(3);
+    expect(byName.colour.options).toEqual(['red', 'blue']);
+    expect(byName.colour.widgets.map(widget => widget.option)).toEqual(['red', 'blue']);
+    expect(byName.languages.multiSelect).toBe(true);
+
+    const { rect, pageIndex } = byName['applicant.name'].widgets[0];
+    expect(pageIndex).toBe(0);
+    expect(rect.left).toBeCloseTo(50 / 600);
+    expect(rect.top).toBeCloseTo(80 / 800);
+    expect(rect.right).toBeCloseTo(250 / 600);
+    expect(rect.bottom).toBeCloseTo(100 / 800);
+  });
+
+  it('should place widgets on rotated pages as displayed', async () => {
+    const pdf = await createForm();
+    pdf.getPage(0).setRotation(degrees(90));
+
+    const { rect } = readFormFields(pdf).find(field => field.name === 'applicant.name')!.widgets[0];
+
+    // Displayed 800 wide and 600 high; user-space y becomes the displayed x
+    expect(rect.left).toBeCloseTo(700 / 800);
+    expect(rect.right).toBeCloseTo(720 / 800);
+    expect(rect.top).toBeCloseTo(50 / 600);
+    expect(rect.bottom).toBeCloseTo(250 / 600);
+  });
+
+  it('should return no fields for a PDF without a form', async () => {
+    const pdf = await PDFDocument.create();
+    pdf.addPage();
+    expect(readFormFields(pdf)).toEqual([]);
+  });
+
+  it('should report empty required fields', async () => {
+    const fields = readFormFields(await createForm());
+
+    expect(findMissingRequired(fields, {})).toEqual(['applicant.name']);
+    expect(findMissingRequired(fields, { 'applicant.name': 'Ada' })).toEqual([]);
+  });
+
+  it('should fill every kind of field and regenerate appearances', async () => {
+    const file = pdfFile(await (await createForm()).save(), 'form.pdf');
+
+    const data = await fillForm(file, { ...FILLED, 'applicant.code': 'ABCDEF' });
+    const form = (await PDFDocument.load(data)).getForm();
+
+    expect(form.getTextField('applicant.name').getText()).toBe('Ada Lovelace');
+    expect(form.getTextField('applicant.code').getText()).toBe('ABC');
+    expect(form.getCheckBox('agree').isChecked()).toBe(true);
+    expect(form.getRadioGroup('colour').getSelected()).toBe('blue');
+    expect(form.getDropdown('country').getSelected()).toEqual(['Germany']);
+    expect(form.getOptionList('languages').getSelected()).toEqual(['English', 'German']);
+    expect(form.acroForm.dict.lookup(PDFName.of('NeedAppearances'))).not.toBe(PDFBool.True);
+  });
+
+  it('should leave appearances to the viewer for text Helvetica cannot encode', async () => {
+    const file = pdfFile(await (await createForm()).save(), 'form.pdf');
+
+    const data = await fillForm(file, { 'applicant.name': 'Łukasz 李' });
+    const form = (await PDFDocument.load(data)).getForm();
+
+    expect(form.getTextField('applicant.name').getText()).toBe('Łukasz 李');
+    expect(form.acroForm.dict.lookup(PDFName.of('NeedAppearances'))).toBe(PDFBool.True);
+  });
+
+  it('should reject a PDF without a form', async () => {
+    const pdf = await PDFDocument.create();
+    pdf.addPage();
+
+    await expect(fillForm(pdfFile(await pdf.save(), 'form.pdf'), {})).rejects.toThrow('no form fields');
+  });
+
+  it.each(['fdf', 'xfdf', 'json'] as const)('should round-trip values through %s', async (format) => {
+    const fields = readFormFields(await createForm());
+    const values = { ...FILLED, 'applicant.name': 'Zoë (née "Smith") & co' };
+
+    const exported = exportFormData(fields, values, format, 'form.pdf');
+    const imported = await parseFormData(encode(exported), format);
+
+    expect(matchImportedValues(fields, imported)).toEqual({ values, unmatched: [] });
+  });
+
+  it('should nest qualified names in exported XFDF', async () => {
+    const fields = readFormFields(await createForm());
+
+    const xfdf = exportFormData(fields, FILLED, 'xfdf', 'form.pdf');
+
+    expect(xfdf).toContain('<field name="applicant">\n      <field name="name">\n        <value>Ada Lovelace</value>');
+    expect(xfdf).toContain('<field name="languages">\n      <value>English</value>\n      <value>German</value>');
+  });
+
+  it('should export check box and radio states as names', async () => {
+    const fields = readFormFields(await createForm());
+
+    const fdf = exportFormData(fields, { agree: false, colour: '' }, 'fdf', 'form.pdf');
+
+    expect(fdf.startsWith('%FDF-1.2')).toBe(true);
+    expect(fdf).toContain('/T (applicant) /Kids [<< /T (name) /V () >> << /T (code) /V () >>]');
+    expect(fdf).toContain('/T (agree) /V /Off');
+    expect(fdf).toContain('/T (colour) /V /Off');
+  });
+
+  it('should report imported names the form does not have', async () => {
+    const fields = readFormFields(await createForm());
+
+    const { values, unmatched } = matchImportedValues(fields, { agree: 'Yes', 'old.field': 'x' });
+
+    expect(values).toEqual({ agree: true });
+    expect(unmatched).toEqual(['old.field']);
+  });
+
+  it('should detect the data format from the name or content', () => {
+    expect(detectFormDataFormat('data.XFDF', encode(''))).toBe('xfdf');
+    expect(detectFormDataFormat('export', encode('%FDF-1.2\n'))).toBe('fdf');
+    expect(detectFormDataFormat('export', encode(' {"a": 1}'))).toBe('json');
+    expect(detectFormDataFormat('notes.txt', encode('hello'))).toBeNull();
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Unit tests for the shared page geometry helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PDFDocument, degrees } from 'pdf-lib';
+import { getPageFrame, toDisplaySpace, toUserSpace } from '@/services/pdfGeometry';
+
+describe('pdfGeometry', () => {
+  it('should swap the displayed size of quarter-turned pages', async () => {
+    const pdf = await PDFDocument.create();
+    const page = pdf.addPage([600, 800]);
+    page.setRotation(degrees(90));
+
+    const frame = getPageFrame(page);
+    expect(frame.width).toBe(800);
+    expect(frame.height).toBe(600);
+  });
+
+  it('should map displayed corners to the matching user space corners', async () => {
+    const pdf = await PDFDocument.create();
+    const page = pdf.addPage([600, 800]);
+
+    const expected: Record<number, { x: number; y: number }> = {
+      0: { x: 0, y: 0 },
+      90: { x: 600, y: 0 },
+      180: { x: 600, y: 800 },
+      270: { x: 0, y: 800 },
+    };
+    for (const angle of [0, 90, 180, 270]) {
+      page.setRotation(degrees(angle));
+      expect(toUserSpace(getPageFrame(page), 0, 0)).toEqual(expected[angle]);
+    }
+  });
+
+  it('should map user space back to the displayed page', async () => {
+    const pdf = await PDFDocument.create();
+    const page = pdf.addPage([600, 800]);
+
+    for (const angle of [0, 90, 180, 270]) {
+      page.setRotation(degrees(angle));
+      const frame = getPageFrame(page);
+      const { x, y } = toUserSpace(frame, 120, 45);
+      expect(toDisplaySpace(frame, x, y)).toEqual({ x: 120, y: 45 });
+    }
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Unit tests for the PDF image XObject codec
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PDFDocument, PDFName } from 'pdf-lib';
+import { listImageXObjects, listPaintedImages, listRecompressibleImages, decodeImagePixels, measureImagePlacements } from '@/services/pdfImageCodec';
+
+// 2x2 RGB image: red, green / blue, white
+const RGB_PIXELS = new Uint8Array([255, 0, 0, 0, 255, 0, 0, 0, 255, 255, 255, 255]);
+
+async function createPdfWithImage(drawWidth: number, drawHeight: number): Promise<PDFDocument> {
+  const pdf = await PDFDocument.create();
+  const page = pdf.addPage([595, 842]);
+
+  const imageRef = pdf.context.register(
+    pdf.context.flateStream(RGB_PIXELS, {
+      Type: 'XObject',
+      Subtype: 'Image',
+      Width: 2,
+      Height: 2,
+      ColorSpace: 'DeviceRGB',
+      BitsPerComponent: 8,
+    })
+  );
+  page.node.setXObject(PDFName.of('Im0'), imageRef);
+
+  const contentRef = pdf.context.register(
+    pdf.context.stream(`q ${drawWidth} 0 0 ${drawHeight} 50 50 cm /Im0 Do Q`)
+  );
+  page.node.addContentStream(contentRef);
+
+  return pdf;
+}
+
+describe('listImageXObjects', () => {
+  it('should find image XObjects and read their dictionaries', async () => {
+    const pdf = await createPdfWithImage(144, 72);
+    const images = listImageXObjects(pdf);
+
+    expect(images).toHaveLength(1);
+    expect(images[0].width).toBe(2);
+    expect(images[0].height).toBe(2);
+    expect(images[0].filters).toEqual(['FlateDecode']);
+    expect(images[0].colorSpace.family).toBe('DeviceRGB');
+  });
+});
+
+describe('listRecompressibleImages', () => {
+  it('should leave soft masks and stencil masks out so masked images keep them', async () => {
+    const pdf = await createPdfWithImage(144, 72);
+    const [base] = listImageXObjects(pdf);
+
+    const softMask = pdf.context.register(
+      pdf.context.flateStream(new Uint8Array([0, 255, 255, 0]), {
+        Type: 'XObject', Subtype: 'Image', Width: 2, Height: 2, ColorSpace: 'DeviceGray', BitsPerComponent: 8,
+      })
+    );
+    const stencil = pdf.context.register(
+      pdf.context.flateStream(new Uint8Array([0x40, 0x80]), {
+        Type: 'XObject', Subtype: 'Image', Width: 2, Height: 2, ImageMask: true, BitsPerComponent: 1,
+      })
+    );
+    const masked = pdf.context.register(
+      pdf.context.flateStream(RGB_PIXELS, {
+        Type: 'XObject', Subtype: 'Image', Width: 2, Height: 2, ColorSpace: 'DeviceRGB', BitsPerComponent: 8, Mask: stencil,
+      })
+    );
+    base.stream.dict.set(PDFName.of('SMask'), softMask);
+
+    const refs = listRecompressibleImages(pdf).map(image => image.ref.toString());
+
+    expect(refs).toEqual(expect.arrayContaining([base.ref.toString(), masked.toString()]));
+    expect(refs).not.toContain(softMask.toString());
+    expect(refs).not.toContain(stencil.toString());
+  });
+});
+
+describe('decodeImagePixels', () => {
+  it('should decode Flate RGB images to RGBA', async () => {
+    const pdf = await createPdfWithImage(144, 72);
+    const [image] = listImageXObjects(pdf);
+    const raw = decodeImagePixels(image);
+
+    expect(raw).not.toBeNull();
+    expect(Array.from(raw!.data.slice(0, 8))).toEqual([255, 0, 0, 255, 0, 255, 0, 255]);
+    expect(Array.from(raw!.data.slice(12, 16))).toEqual([255, 255, 255, 255]);
+  });
+
+  it('should expand indexed images through their palette', async () => {
+    const pdf = await PDFDocument.create();
+    const palette = pdf.context.obj([
+      PDFName.of('Indexed'),
+      PDFName.of('DeviceRGB'),
+      1,
+      pdf.context.stream(new Uint8Array([0, 0, 0, 10, 20, 30])),
+    ]);
+    pdf.context.register(
+      pdf.context.stream(new Uint8Array([0b01000000]), {
+        Type: 'XObject',
+        Subtype: 'Image',
+        Width: 2,
+        Height: 1,
+        ColorSpace: palette,
+        BitsPerComponent: 1,
+      })
+    );
+
+    const [image] = listImageXObjects(pdf);
+    const raw = decodeImagePixels(image);
+
+    expect(Array.from(raw!.data)).toEqual([0, 0, 0, 255, 10, 20, 30, 255]);
+  });
+});
+
+describe('measureImagePlacements', () => {
+  it('should report the drawn size of each image in points', async () => {
+    const pdf = await createPdfWithImage(144, 72);
+    const [image] = listImageXObjects(pdf);
+    const placements = measureImagePlacements(pdf);
+
+    expect(placements.get(image.ref.toString())).toEqual({ width: 144, height: 72 });
+  });
+});
+
+describe('listPaintedImages', () => {
+  it('should list images in painting order, inside forms too, without stencil masks', async () => {
+    const pdf = await createPdfWithImage(144, 72);
+    const page = pdf.getPage(0);
+    const [first] = listImageXObjects(pdf);
+    const second = pdf.context.register(pdf.context.flateStream(RGB_PIXELS, {
+      Type: 'XObject', Subtype: 'Image', Width: 2, Height: 2, ColorSpace: 'DeviceRGB', BitsPerComponent: 8,
+    }));
+    const stencil = pdf.context.register(pdf.context.flateStream(new Uint8Array([0]), {
+      Type: 'XObject', Subtype: 'Image', Width: 1, Height: 1, ImageMask: true,
+    }));
+    const form = pdf.context.register(pdf.context.stream('/Im1 Do /Im0 Do', {
+      Type: 'XObject', Subtype: 'Form', BBox: [0, 0, 1, 1],
+      Resources: { XObject: { Im0: first.ref, Im1: second } },
+    }));
+    page.node.setXObject(PDFName.of('Fm0'), form);
+    page.node.setXObject(PDFName.of('Mk0'), stencil);
+    page.node.addContentStream(pdf.context.register(pdf.context.stream('/Mk0 Do /Fm0 Do')));
+
+    const painted = listPaintedImages(pdf, page).map(image => image.ref);
+
+    expect(painted).toEqual([first.ref, second, first.ref]);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Unit tests for extracting embedded images
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PDFDocument, PDFName, PDFRef } from 'pdf-lib';
+import { extractImagesFromDocument } from '@/services/pdfImageExtractionService';
+
+/** Just enough of a baseline JPEG for pdf-lib to read its size */
+const fakeJpeg = (width: number, height: number, seed: number): Uint8Array => new Uint8Array([
+  0xff, 0xd8,
+  0xff, 0xc0, 0x00, 0x11, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff, 0x03,
+  0x01, 0x11, 0x00, 0x02, 0x11, 0x01, 0x03, 0x11, 0x01,
+  0xff, 0xfe, 0x00, 0x03, seed,
+  0xff, 0xd9,
+]);
+
+/** A Flate-encoded image XObject with every sample set to the given value */
+const flateImage = (pdf: PDFDocument, size: number, colorSpace: 'DeviceRGB' | 'DeviceGray', value: number, smask?: PDFRef): PDFRef => {
+  const components = colorSpace === 'DeviceRGB' ? 3 : 1;
+  const dict: Record<string, unknown> = {
+    Type: 'XObject',
+    Subtype: 'Image',
+    Width: size,
+    Height: size,
+    ColorSpace: colorSpace,
+    BitsPerComponent: 8,
+  };
+  if (smask) dict.SMask = smask;
+  return pdf.context.register(pdf.context.flateStream(new Uint8Array(size * size * components).fill(value), dict as never));
+};
+
+const addToPage = (pdf: PDFDocument, pageIndex: number, refs: PDFRef[]) => {
+  const page = pdf.getPage(pageIndex);
+  refs.forEach((ref, i) => page.node.setXObject(PDFName.of(`Im${i}`), ref));
+};
+
+describe('pdfImageExtractionService', () => {
+  it('should export JPEGs as-is and other images as PNG with the soft mask as alpha', async () => {
+    const pdf = await PDFDocument.create();
+    pdf.addPage();
+    const jpegBytes = fakeJpeg(200, 100, 1);
+    const jpeg = await pdf.embedJpg(jpegBytes);
+    const mask = flateImage(pdf, 40, 'DeviceGray', 128);
+    const masked = flateImage(pdf, 40, 'DeviceRGB', 200, mask);
+    await pdf.flush();
+    addToPage(pdf, 0, [jpeg.ref, masked]);
+
+    const { images } = await extractImagesFromDocument(pdf, 'brochure', { minSize: 0 });
+
+    expect(images.map(image => image.name)).toEqual(['brochure_page_1_image_1.jpg', 'brochure_page_1_image_2.png']);
+    expect(images[0].data).toEqual(jpegBytes);
+    expect(images[0]).toMatchObject({ mimeType: 'image/jpeg', width: 200, height: 100, pageIndex: 0 });
+
+    const png = images[1].data;
+    expect(Array.from(png.slice(1, 4), c => String.fromCharCode(c)).join('')).toBe('PNG');
+    const header = new DataView(png.buffer, png.byteOffset + 16, 13);
+    expect([header.getUint32(0), header.getUint32(4), header.getUint8(9)]).toEqual([40, 40, 6]); // RGBA
+  });
+
+  it('should skip small images and drop repeated ones', async () => {
+    const pdf = await PDFDocument.create();
+    pdf.addPage();
+    pdf.addPage();
+    const first = await pdf.embedJpg(fakeJpeg(300, 300, 7));
+    const copy = await pdf.embedJpg(fakeJpeg(300, 300, 7));
+    const icon = flateImage(pdf, 8, 'DeviceGray', 0);
+    await pdf.flush();
+    addToPage(pdf, 0, [first.ref, icon]);
+    addToPage(pdf, 1, [first.ref, copy.ref]);
+
+    const result = await extractImagesFromDocument(pdf, 'doc', { minSize: 32 });
+
+    expect(result.images).toHaveLength(1);
+    expect(result.skippedSmall).toBe(1);
+    expect(result.duplicates).toBe(2);
+
+    const pageTwo = await extractImagesFromDocument(pdf, 'doc', { minSize: 32, pageRange: '2' });
+    expect(pageTwo.images.map(image => image.name)).toEqual(['doc_page_2_image_1.jpg']);
+  });
+});
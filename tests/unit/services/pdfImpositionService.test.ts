@@ -0,0 +1,100 @@
+/**
+ * Unit tests for N-up imposition and booklet layout
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PDFDocument } from 'pdf-lib';
+import { bookletSides, cellOrder, imposePDF, planSheetLayout, planSheetSides } from '@/services/pdfImpositionService';
+import { DEFAULT_NUP_PDF_CONFIG, type NUpPdfConfig } from '@/types';
+import { pdfFile } from '@/tests/helpers/pdfFile';
+
+const config = (overrides: Partial<NUpPdfConfig> = {}): NUpPdfConfig => ({
+  ...DEFAULT_NUP_PDF_CONFIG,
+  ...overrides,
+});
+
+async function createPdfFile(pageCount: number): Promise<File> {
+  const pdf = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) {
+    pdf.addPage([595, 842]).drawText(`Page ${i + 1}`, { x: 50, y: 800 });
+  }
+  return pdfFile(await pdf.save());
+}
+
+describe('pdfImpositionService', () => {
+  describe('cellOrder', () => {
+    it('should fill rows left to right', () => {
+      expect(cellOrder(2, 2, 'across')).toEqual([[0, 0], [1, 0], [0, 1], [1, 1]]);
+    });
+
+    it('should fill columns top to bottom', () => {
+      expect(cellOrder(2, 2, 'down')).toEqual([[0, 0], [0, 1], [1, 0], [1, 1]]);
+    });
+
+    it('should start from the right for right-to-left orders', () => {
+      expect(cellOrder(3, 1, 'across-rtl')).toEqual([[2, 0], [1, 0], [0, 0]]);
+      expect(cellOrder(2, 2, 'down-rtl')).toEqual([[1, 0], [1, 1], [0, 0], [0, 1]]);
+    });
+  });
+
+  describe('bookletSides', () => {
+    it('should pair pages for folding and pad with blanks', () => {
+      expect(bookletSides(5)).toEqual([
+        [null, 0], [1, null],
+        [null, 2], [3, 4],
+      ]);
+    });
+
+    it('should swap the halves for right-hand binding', () => {
+      expect(bookletSides(4, 'right')).toEqual([[0, 3], [2, 1]]);
+    });
+  });
+
+  it('should group pages in reading order for N-up', () => {
+    expect(planSheetSides(5, config({ pagesPerSheet: 2 }))).toEqual([[0, 1], [2, 3], [4]]);
+  });
+
+  describe('planSheetLayout', () => {
+    it('should turn the sheet to landscape for 2-up portrait pages', () => {
+      const layout = planSheetLayout({ width: 595, height: 842 }, 2, 'auto', 0, 0, { width: 595, height: 842 });
+      expect(layout).toMatchObject({ width: 842, height: 595, columns: 2, rows: 1 });
+    });
+
+    it('should keep a fixed orientation', () => {
+      const layout = planSheetLayout({ width: 595, height: 842 }, 2, 'portrait', 0, 0, { width: 595, height: 842 });
+      expect(layout).toMatchObject({ width: 595, height: 842 });
+    });
+
+    it('should reject margins that leave no room', () => {
+      expect(() => planSheetLayout({ width: 595, height: 842 }, 4, 'auto', 400, 0, { width: 595, height: 842 }))
+        .toThrow('no room');
+    });
+  });
+
+  describe('imposePDF', () => {
+    it('should place four pages per sheet', async () => {
+      const file = await createPdfFile(5);
+
+      const result = await PDFDocument.load(await imposePDF(file, config({ pagesPerSheet: 4, orientation: 'portrait' })));
+
+      expect(result.getPageCount()).toBe(2);
+      expect(result.getPage(0).getSize()).toEqual({ width: 595, height: 842 });
+    });
+
+    it('should produce one landscape sheet side per two booklet pages', async () => {
+      const file = await createPdfFile(5);
+
+      const result = await PDFDocument.load(await imposePDF(file, config({ mode: 'booklet' })));
+
+      expect(result.getPageCount()).toBe(4);
+      expect(result.getPage(0).getSize()).toEqual({ width: 842, height: 595 });
+    });
+
+    it('should stop when cancelled', async () => {
+      const file = await createPdfFile(2);
+
+      await expect(imposePDF(file, config(), undefined, undefined, { current: true }))
+        .rejects.toThrow('Imposition cancelled');
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Unit tests for the PDF metadata (Info dictionary + XMP) service
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PDFDict, PDFDocument, PDFHexString, PDFName } from 'pdf-lib';
+import {
+  applyPDFMetadata,
+  buildXmpPacket,
+  emptyMetadata,
+  getPDFMetadata,
+  readPDFMetadata,
+  readXmpMetadata,
+  readXmpPacket,
+  setPDFMetadata,
+  validateCustomMetadata,
+} from '@/services/pdfMetadataService';
+import type { PdfMetadata } from '@/types';
+import { pdfFile } from '@/tests/helpers/pdfFile';
+
+const METADATA: PdfMetadata = {
+  title: 'Quarterly Report',
+  author: 'Document Control',
+  subject: 'Finance — Q3',
+  keywords: 'finance, quarterly',
+  creator: 'Writer',
+  producer: 'Sola',
+  creationDate: new Date('2026-01-02T03:04:05Z'),
+  modificationDate: new Date('2026-02-03T04:05:06Z'),
+  custom: [{ key: 'DocumentNumber', value: 'DC-0042' }],
+};
+
+describe('pdfMetadataService', () => {
+  it('should write and read back every Info field', async () => {
+    const pdf = await PDFDocument.create();
+    pdf.addPage();
+    applyPDFMetadata(pdf, METADATA);
+
+    expect(readPDFMetadata(pdf)).toEqual(METADATA);
+  });
+
+  it('should mirror the metadata into the XMP packet', async () => {
+    const pdf = await PDFDocument.create();
+    applyPDFMetadata(pdf, METADATA);
+
+    const xmp = readXmpMetadata(readXmpPacket(pdf)!);
+    expect(xmp).toEqual(METADATA);
+  });
+
+  it('should remove custom keys that were deleted', async () => {
+    const pdf = await PDFDocument.create();
+    applyPDFMetadata(pdf, METADATA);
+    applyPDFMetadata(pdf, { ...METADATA, custom: [] });
+
+    expect(readPDFMetadata(pdf).custom).toEqual([]);
+    expect(readXmpPacket(pdf)).not.toContain('DocumentNumber');
+  });
+
+  it('should fall back to XMP for fields missing from the Info dictionary', async () => {
+    const pdf = await PDFDocument.create();
+    applyPDFMetadata(pdf, METADATA);
+    pdf.context.lookup(pdf.context.trailerInfo.Info, PDFDict).delete(PDFName.of('Author'));
+
+    expect(readPDFMetadata(pdf).author).toBe('Document Control');
+  });
+
+  it('should keep XMP properties it does not manage', () => {
+    const existing = `<?xpacket begin="" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+<rdf:Description rdf:about="" xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/" pdfaid:part="2" pdfaid:conformance="B"
+  xmlns:pdf="http://ns.adobe.com/pdf/1.3/" pdf:Producer="Old Producer"/>
+</rdf:RDF></x:xmpmeta>
+<?xpacket end="w"?>`;
+
+    const packet = buildXmpPacket({ ...emptyMetadata(), producer: 'New Producer' }, existing);
+    expect(packet).toContain('pdfaid:part="2"');
+    expect(packet).toContain('New Producer');
+    expect(packet).not.toContain('Old Producer');
+  });
+
+  it('should reject duplicate and reserved custom keys', () => {
+    expect(() => validateCustomMetadata([{ key: 'Ref', value: '1' }, { key: 'Ref', value: '2' }])).toThrow('more than once');
+    expect(() => validateCustomMetadata([{ key: 'Author', value: 'x' }])).toThrow('standard field');
+    expect(validateCustomMetadata([{ key: ' ', value: '' }, { key: ' Ref ', value: '1' }])).toEqual([{ key: 'Ref', value: '1' }]);
+  });
+
+  it('should round-trip metadata through a saved file', async () => {
+    const pdf = await PDFDocument.create();
+    pdf.addPage();
+    pdf.context.lookup(pdf.context.trailerInfo.Info, PDFDict).set(PDFName.of('Legacy'), PDFHexString.fromText('kept'));
+    const file = pdfFile(await pdf.save());
+
+    const { metadata } = await getPDFMetadata(file);
+    expect(metadata.custom).toEqual([{ key: 'Legacy', value: 'kept' }]);
+
+    const saved = await setPDFMetadata(file, { ...metadata, author: 'Document Control' });
+    const reread = await getPDFMetadata(pdfFile(saved));
+    expect(reread.metadata.author).toBe('Document Control');
+    expect(reread.metadata.custom).toEqual([{ key: 'Legacy', value: 'kept' }]);
+    expect(reread.hasXmp).toBe(true);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Unit tests for PDF outline, named destination and link handling
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PDFDocument, PDFArray, PDFDict, PDFName, PDFNumber, PDFPage, PDFRef, PDFString } from 'pdf-lib';
+import {
+  readOutline,
+  writeOutline,
+  remapOutline,
+  readNamedDestinations,
+  writeNamedDestinations,
+  detachLinkDestinations,
+  attachLinkDestinations,
+  copyPageAnnotations,
+  type OutlineItem,
+} from '@/services/pdfNavigation';
+
+async function createPdf(pageCount: number): Promise<PDFDocument> {
+  const pdf = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) pdf.addPage([595, 842]);
+  return pdf;
+}
+
+const pageRefsOf = (pdf: PDFDocument): PDFRef[] => pdf.getPages().map(page => page.ref);
+
+const addLink = (pdf: PDFDocument, pageIndex: number, dest: PDFArray | PDFString): PDFDict => {
+  const annot = pdf.context.obj({
+    Type: 'Annot',
+    Subtype: 'Link',
+    Rect: [0, 0, 100, 20],
+    Dest: dest,
+    P: pdf.getPage(pageIndex).ref,
+  });
+  pdf.getPage(pageIndex).node.set(PDFName.of('Annots'), pdf.context.obj([pdf.context.register(annot)]));
+  return annot;
+};
+
+const OUTLINE: OutlineItem[] = [
+  {
+    title: 'Chapter 1',
+    destination: { pageIndex: 0, view: ['XYZ', 0, 842, null] },
+    open: true,
+    children: [
+      { title: 'Section 1.1', destination: { pageIndex: 1, view: ['Fit'] }, open: false, children: [] },
+    ],
+  },
+  { title: 'Kapitel 2 – Übersicht', destination: { pageIndex: 2, view: ['Fit'] }, open: false, children: [], flags: 2 },
+];
+
+describe('writeOutline / readOutline', () => {
+  it('should round-trip a nested outline', async () => {
+    const pdf = await createPdf(3);
+    writeOutline(pdf, OUTLINE, pageRefsOf(pdf));
+
+    const reloaded = await PDFDocument.load(await pdf.save());
+    expect(readOutline(reloaded)).toEqual([
+      { ...OUTLINE[0], uri: undefined, color: undefined, flags: undefined,
+        children: [{ ...OUTLINE[0].children[0], uri: undefined, color: undefined, flags: undefined }] },
+      { ...OUTLINE[1], uri: undefined, color: undefined },
+    ]);
+  });
+
+  it('should write visible item counts', async () => {
+    const pdf = await createPdf(3);
+    writeOutline(pdf, OUTLINE, pageRefsOf(pdf));
+
+    const outlines = pdf.catalog.lookup(PDFName.of('Outlines'), PDFDict);
+    expect((outlines.get(PDFName.of('Count')) as PDFNumber).asNumber()).toBe(3);
+  });
+
+  it('should resolve outline items that point at named destinations', async () => {
+    const pdf = await createPdf(2);
+    writeNamedDestinations(pdf, new Map([['intro', { pageIndex: 1, view: ['Fit'] }]]), pageRefsOf(pdf));
+    const itemRef = pdf.context.nextRef();
+    const outlinesRef = pdf.context.register(pdf.context.obj({ Type: 'Outlines', First: itemRef, Last: itemRef, Count: 1 }));
+    pdf.context.assign(itemRef, pdf.context.obj({ Title: PDFString.of('Intro'), Parent: outlinesRef, Dest: PDFString.of('intro') }));
+    pdf.catalog.set(PDFName.of('Outlines'), outlinesRef);
+
+    expect(readOutline(pdf)[0].destination).toEqual({ pageIndex: 1, view: ['Fit'] });
+  });
+});
+
+describe('writeOutline URI actions', () => {
+  it('should escape parentheses and backslashes and percent-encode non-ASCII characters', async () => {
+    const pdf = await createPdf(1);
+    writeOutline(pdf, [
+      { title: 'Spec', destination: null, uri: 'https://example.com/a_(b)\\c?q=ü', open: false, children: [] },
+    ], pageRefsOf(pdf));
+
+    const reloaded = await PDFDocument.load(await pdf.save());
+
+    expect(readOutline(reloaded)[0].uri).toBe('https://example.com/a_(b)\\c?q=%C3%BC');
+  });
+});
+
+describe('remapOutline', () => {
+  it('should remap page indices and drop items whose page is gone', () => {
+    const remapped = remapOutline(OUTLINE, new Map([[0, 5], [2, 6]]));
+
+    expect(remapped).toHaveLength(2);
+    expect(remapped[0].destination!.pageIndex).toBe(5);
+    expect(remapped[0].children).toHaveLength(0);
+    expect(remapped[1].destination!.pageIndex).toBe(6);
+  });
+});
+
+describe('readNamedDestinations', () => {
+  it('should read the legacy /Dests dictionary and the /Names tree', async () => {
+    const pdf = await createPdf(3);
+    writeNamedDestinations(pdf, new Map([['b', { pageIndex: 2, view: ['Fit'] }]]), pageRefsOf(pdf));
+    pdf.catalog.set(PDFName.of('Dests'), pdf.context.obj({ a: [pdf.getPage(1).ref, PDFName.of('Fit')] }));
+
+    const destinations = readNamedDestinations(pdf);
+    expect(destinations.get('a')).toEqual({ pageIndex: 1, view: ['Fit'] });
+    expect(destinations.get('b')).toEqual({ pageIndex: 2, view: ['Fit'] });
+  });
+});
+
+describe('detachLinkDestinations / attachLinkDestinations', () => {
+  it('should keep internal links working across copyPages', async () => {
+    const source = await createPdf(3);
+    addLink(source, 0, source.context.obj([source.getPage(2).ref, PDFName.of('Fit')]));
+
+    detachLinkDestinations(source, [0, 2]);
+    const target = await PDFDocument.create();
+    const copied = await target.copyPages(source, [0, 2]);
+    copied.forEach(page => target.addPage(page));
+    attachLinkDestinations(copied, new Map([[0, copied[0].ref], [2, copied[1].ref]]), new Map());
+
+    const annots = copied[0].node.lookup(PDFName.of('Annots'), PDFArray);
+    const dest = annots.lookup(0, PDFDict).lookup(PDFName.of('Dest'), PDFArray);
+    expect(dest.get(0)).toBe(copied[1].ref);
+    // Only the two copied pages exist; the link did not drag in a third page
+    const pageObjects = target.context.enumerateIndirectObjects()
+      .filter(([, obj]) => obj instanceof PDFDict && obj.get(PDFName.of('Type')) === PDFName.of('Page'));
+    expect(pageObjects).toHaveLength(2);
+  });
+
+  it('should drop links to pages that were not copied and rename named links', async () => {
+    const source = await createPdf(3);
+    addLink(source, 0, source.context.obj([source.getPage(2).ref, PDFName.of('Fit')]));
+    addLink(source, 1, PDFString.of('intro'));
+
+    detachLinkDestinations(source, [0, 1]);
+    const target = await PDFDocument.create();
+    const copied = await target.copyPages(source, [0, 1]);
+    attachLinkDestinations(copied, new Map([[0, copied[0].ref], [1, copied[1].ref]]), new Map([['intro', 'intro_2']]));
+
+    expect(copied[0].node.lookup(PDFName.of('Annots'), PDFArray).size()).toBe(0);
+    const named = copied[1].node.lookup(PDFName.of('Annots'), PDFArray).lookup(0, PDFDict);
+    expect((named.lookup(PDFName.of('Dest')) as PDFString).decodeText()).toBe('intro_2');
+  });
+
+  it('should resolve links on each of two copies of the same page', async () => {
+    const source = await createPdf(2);
+    addLink(source, 0, source.context.obj([source.getPage(1).ref, PDFName.of('Fit')]));
+
+    detachLinkDestinations(source, [0, 1]);
+    const target = await PDFDocument.create();
+    const copied = await target.copyPages(source, [0, 0, 1]);
+    attachLinkDestinations(copied, new Map([[0, copied[0].ref], [1, copied[2].ref]]), new Map());
+
+    for (const page of copied.slice(0, 2)) {
+      const link = page.node.lookup(PDFName.of('Annots'), PDFArray).lookup(0, PDFDict);
+      expect(link.lookup(PDFName.of('Dest'), PDFArray).get(0)).toBe(copied[2].ref);
+    }
+    expect(copied[0].node.lookup(PDFName.of('Annots'))).not.toBe(copied[1].node.lookup(PDFName.of('Annots')));
+  });
+});
+
+describe('copyPageAnnotations', () => {
+  it('should give a cloned page its own annotations so editing one copy leaves the other alone', async () => {
+    const pdf = await createPdf(2);
+    addLink(pdf, 0, pdf.context.obj([pdf.getPage(1).ref, PDFName.of('Fit')]));
+    const node = pdf.getPage(0).node.clone();
+    const clone = PDFPage.of(node, pdf.context.register(node), pdf);
+
+    copyPageAnnotations(clone);
+    const cloneLink = clone.node.lookup(PDFName.of('Annots'), PDFArray).lookup(0, PDFDict);
+    cloneLink.lookup(PDFName.of('Dest'), PDFArray).set(0, PDFNumber.of(7));
+
+    const originalLink = pdf.getPage(0).node.lookup(PDFName.of('Annots'), PDFArray).lookup(0, PDFDict);
+    expect(originalLink.lookup(PDFName.of('Dest'), PDFArray).get(0)).toBe(pdf.getPage(1).ref);
+    expect(cloneLink.get(PDFName.of('P'))).toBe(clone.ref);
+  });
+});
+
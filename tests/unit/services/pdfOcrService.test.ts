@@ -0,0 +1,71 @@
+/**
+ * Unit tests for the invisible OCR text layer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PDFArray, PDFContentStream, PDFDocument, StandardFonts } from 'pdf-lib';
+import { addInvisibleTextLayer, type OcrLine } from '@/services/pdfOcrService';
+
+/** The content stream pdf-lib appended to the page */
+const appendedContent = (pdf: PDFDocument): string => {
+  const contents = pdf.getPage(0).node.Contents() as PDFArray;
+  const stream = pdf.context.lookup(contents.get(contents.size() - 1)) as PDFContentStream;
+  return stream.getContentsString();
+};
+
+describe('pdfOcrService', () => {
+  it('should write each word as invisible text squeezed to its box', async () => {
+    const pdf = await PDFDocument.create();
+    const page = pdf.addPage([300, 200]);
+    const font = await pdf.embedFont(StandardFonts.Helvetica);
+    const lines: OcrLine[] = [{
+      bbox: { x0: 100, y0: 100, x1: 500, y1: 140 },
+      baseline: { x0: 100, y0: 130, x1: 500, y1: 130 },
+      words: [
+        { text: 'Invoice', bbox: { x0: 100, y0: 100, x1: 260, y1: 140 } },
+        { text: 'total', bbox: { x0: 300, y0: 100, x1: 400, y1: 135 } },
+      ],
+    }];
+
+    // Pixels at 2x scale, top-left origin
+    const { words, skippedWords } = addInvisibleTextLayer(page, font, lines, (x, y) => [x / 2, 200 - y / 2]);
+    const content = appendedContent(pdf);
+
+    expect(words).toBe(2);
+    expect(skippedWords).toEqual([]);
+    expect(content).toContain('3 Tr');
+    expect(content).toContain('1 0 0 1 50 135 Tm');
+    expect(content).toContain('1 0 0 1 150 135 Tm');
+    expect(content).toContain(font.encodeText('Invoice ').toString());
+    expect(content).toContain(font.encodeText('total').toString());
+
+    // 15pt above the baseline is the ascender, and "Invoice" is squeezed into 80pt
+    const size = 15 / 0.718;
+    const squeeze = Number(content.match(/([\d.]+) Tz/)![1]);
+    expect(squeeze).toBeCloseTo((80 / font.widthOfTextAtSize('Invoice', size)) * 100, 3);
+  });
+
+  it('should drop characters the font cannot encode and report the words affected', async () => {
+    const pdf = await PDFDocument.create();
+    const page = pdf.addPage();
+    const font = await pdf.embedFont(StandardFonts.Helvetica);
+    const box = { x0: 0, y0: 0, x1: 50, y1: 20 };
+
+    const { words, skippedWords } = addInvisibleTextLayer(page, font, [
+      { bbox: box, words: [{ text: '漢字', bbox: box }, { text: 'Café✓', bbox: box }, { text: 'Paris', bbox: box }] },
+    ], (x, y) => [x, 800 - y]);
+
+    expect(words).toBe(2);
+    expect(skippedWords).toEqual(['漢字', 'Café✓']);
+    expect(appendedContent(pdf)).toContain(font.encodeText('Café ').toString());
+  });
+
+  it('should leave a page without recognized words untouched', async () => {
+    const pdf = await PDFDocument.create();
+    const page = pdf.addPage();
+    const font = await pdf.embedFont(StandardFonts.Helvetica);
+
+    expect(addInvisibleTextLayer(page, font, [], (x, y) => [x, y])).toEqual({ words: 0, skippedWords: [] });
+    expect(page.node.Contents()).toBeUndefined();
+  });
+});
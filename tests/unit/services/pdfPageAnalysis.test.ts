@@ -0,0 +1,52 @@
+/**
+ * Unit tests for rendered page analysis
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findInkBounds, measureInkCoverage } from '@/services/pdfPageAnalysis';
+
+function createImage(width: number, height: number, inkPixels: Array<[number, number]> = []) {
+  const data = new Uint8ClampedArray(width * height * 4).fill(255);
+  for (const [x, y] of inkPixels) {
+    const i = (y * width + x) * 4;
+    data[i] = data[i + 1] = data[i + 2] = 0;
+  }
+  return { data, width, height };
+}
+
+describe('measureInkCoverage', () => {
+  it('should report zero coverage for a white page', () => {
+    expect(measureInkCoverage(createImage(20, 20))).toBe(0);
+  });
+
+  it('should report the share of dark pixels', () => {
+    const image = createImage(10, 10, [[2, 2], [3, 3], [4, 4], [5, 5]]);
+
+    expect(measureInkCoverage(image, 0)).toBeCloseTo(0.04);
+  });
+
+  it('should ignore pixels in the edge margin', () => {
+    const image = createImage(20, 20, [[0, 0], [19, 19], [0, 10]]);
+
+    expect(measureInkCoverage(image, 0.1)).toBe(0);
+  });
+
+  it('should treat transparent pixels as paper', () => {
+    const image = createImage(4, 4);
+    image.data.fill(0);
+
+    expect(measureInkCoverage(image, 0)).toBe(0);
+  });
+});
+
+describe('findInkBounds', () => {
+  it('should return null for a white page', () => {
+    expect(findInkBounds(createImage(10, 10))).toBeNull();
+  });
+
+  it('should enclose every ink pixel', () => {
+    const image = createImage(10, 20, [[2, 5], [6, 3], [4, 14]]);
+
+    expect(findInkBounds(image)).toEqual({ left: 0.2, top: 0.15, right: 0.7, bottom: 0.75 });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Unit tests for page numbers, headers/footers and Bates numbering
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PDFArray, PDFDocument, PDFPage, PDFRef } from 'pdf-lib';
+import {
+  applyPageNumbers,
+  addPageNumbersToPDFs,
+  batesLogToCSV,
+  formatBatesNumber,
+  resolvePageTokens,
+  usesBatesNumbers,
+} from '@/services/pdfPageNumberService';
+import { encryptDocument } from '@/services/pdfEncryption';
+import { DEFAULT_PAGE_NUMBERS_PDF_CONFIG, type PageNumbersPdfConfig } from '@/types';
+import { pdfFile } from '@/tests/helpers/pdfFile';
+
+const config = (overrides: Partial<PageNumbersPdfConfig> = {}): PageNumbersPdfConfig => ({
+  ...DEFAULT_PAGE_NUMBERS_PDF_CONFIG,
+  bates: { ...DEFAULT_PAGE_NUMBERS_PDF_CONFIG.bates, prefix: 'ACME' },
+  ...overrides,
+});
+
+async function createPdf(pageCount: number): Promise<PDFDocument> {
+  const pdf = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) pdf.addPage([595, 842]);
+  return pdf;
+}
+
+async function createPdfFile(pageCount: number, name: string, password?: string): Promise<File> {
+  const pdf = await createPdf(pageCount);
+  if (password) await encryptDocument(pdf, { userPassword: password, ownerPassword: 'owner-pass', permissions: {}, algorithm: 'AES-128', encryptMetadata: true });
+  return pdfFile(await pdf.save(), name);
+}
+
+/** pdf-lib writes text as hex strings */
+const hex = (text: string) => Array.from(text, c => c.charCodeAt(0).toString(16).padStart(2, '0')).join('').toUpperCase();
+
+const pageContent = (pdf: PDFDocument, page: PDFPage): string => {
+  const contents = page.node.Contents();
+  if (!(contents instanceof PDFArray)) return '';
+  return contents.asArray().map(ref => {
+    const stream = pdf.context.lookup(ref as PDFRef) as unknown as { getUnencodedContents?: () => Uint8Array; getContents: () => Uint8Array };
+    return new TextDecoder().decode(stream.getUnencodedContents ? stream.getUnencodedContents() : stream.getContents());
+  }).join('\n');
+};
+
+describe('pdfPageNumberService', () => {
+  describe('tokens', () => {
+    it('should zero-pad Bates numbers between prefix and suffix', () => {
+      expect(formatBatesNumber(42, { prefix: 'ACME-', startNumber: 1, digits: 6, suffix: '-C' })).toBe('ACME-000042-C');
+      expect(formatBatesNumber(1234567, { prefix: '', startNumber: 1, digits: 3, suffix: '' })).toBe('1234567');
+    });
+
+    it('should resolve every token and leave other braces alone', () => {
+      const text = resolvePageTokens('{filename} {page}/{total} {date} {bates} {other}', {
+        page: 2, total: 9, filename: 'brief', date: '1/2/2026', bates: 'X001',
+      });
+      expect(text).toBe('brief 2/9 1/2/2026 X001 {other}');
+    });
+
+    it('should detect Bates tokens in any slot', () => {
+      expect(usesBatesNumbers(config())).toBe(false);
+      expect(usesBatesNumbers(config({ header: { left: '', center: '', right: 'No. {bates}' } }))).toBe(true);
+    });
+  });
+
+  describe('applyPageNumbers', () => {
+    it('should number pages after the skipped ones', async () => {
+      const pdf = await createPdf(3);
+      const result = await applyPageNumbers(
+        pdf,
+        config({ skipFirstPages: 1, footer: { left: '{bates}', center: 'Page {page} of {total}', right: '' } }),
+        { filename: 'doc', date: 'today', batesStart: 10 }
+      );
+
+      expect(result).toEqual({ stampedPages: 2, firstBates: 10, lastBates: 11 });
+      expect(pageContent(pdf, pdf.getPage(0))).not.toContain(hex('Page'));
+      expect(pageContent(pdf, pdf.getPage(1))).toContain(hex('Page 1 of 2'));
+      expect(pageContent(pdf, pdf.getPage(2))).toContain(hex('ACME000011'));
+    });
+
+    it('should replace characters the font cannot display', async () => {
+      const pdf = await createPdf(1);
+      await applyPageNumbers(pdf, config({ footer: { left: '', center: '{filename}', right: '' } }), {
+        filename: 'contrat_été_契約', date: '', batesStart: 1,
+      });
+      expect(pageContent(pdf, pdf.getPage(0))).toContain(hex('contrat_été_??'));
+    });
+
+    it('should stamp nothing when every page is skipped', async () => {
+      const pdf = await createPdf(2);
+      const result = await applyPageNumbers(pdf, config({ skipFirstPages: 5 }), { filename: 'doc', date: '', batesStart: 1 });
+      expect(result).toEqual({ stampedPages: 0 });
+    });
+  });
+
+  describe('addPageNumbersToPDFs', () => {
+    it('should continue Bates numbers across files and log each range', async () => {
+      const files = [await createPdfFile(3, 'a.pdf'), await createPdfFile(2, 'b.pdf')];
+      const result = await addPageNumbersToPDFs(files, config({ footer: { left: '', center: '', right: '{bates}' } }));
+
+      expect(result.files.map(f => f.name)).toEqual(['a_numbered.pdf', 'b_numbered.pdf']);
+      expect(result.batesLog).toEqual([
+        { fileName: 'a.pdf', firstBates: 'ACME000001', lastBates: 'ACME000003', pageCount: 3 },
+        { fileName: 'b.pdf', firstBates: 'ACME000004', lastBates: 'ACME000005', pageCount: 2 },
+      ]);
+    });
+
+    it('should require at least one header or footer', async () => {
+      const files = [await createPdfFile(1, 'a.pdf')];
+      const empty = { left: '', center: ' ', right: '' };
+      await expect(addPageNumbersToPDFs(files, config({ header: empty, footer: empty })))
+        .rejects.toThrow('Please enter text for at least one header or footer position');
+    });
+
+    it('should open encrypted files with the given password', async () => {
+      const files = [await createPdfFile(2, 'locked.pdf', 'user-pass')];
+
+      const result = await addPageNumbersToPDFs(files, config(), undefined, undefined, '', 'user-pass');
+      expect((await PDFDocument.load(result.files[0].data)).getPageCount()).toBe(2);
+      await expect(addPageNumbersToPDFs(files, config())).rejects.toThrow('password-protected');
+    });
+
+    it('should stop when cancelled', async () => {
+      const files = [await createPdfFile(1, 'a.pdf')];
+      await expect(addPageNumbersToPDFs(files, config(), undefined, { current: true })).rejects.toThrow('cancelled');
+    });
+  });
+
+  describe('batesLogToCSV', () => {
+    it('should quote fields and defuse spreadsheet formulas', () => {
+      const csv = batesLogToCSV([
+        { fileName: 'a, "final".pdf', firstBates: '=1', lastBates: 'X2', pageCount: 2 },
+      ]);
+      expect(csv).toBe('File,First Bates,Last Bates,Pages\r\n"a, ""final"".pdf",\'=1,X2,2\r\n');
+    });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Unit tests for finding text to redact by pattern
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  compileMatchers,
+  findMatches,
+  findRedactionHits,
+  ibanCheck,
+  luhnCheck,
+  redactionLogToCSV,
+  type RedactionSearchOptions,
+} from '@/services/pdfRedactionSearchService';
+
+const options = (overrides: Partial<RedactionSearchOptions>): RedactionSearchOptions => ({
+  patterns: [],
+  expressions: [],
+  words: [],
+  matchCase: false,
+  ...overrides,
+});
+
+const matchedText = (text: string, search: Partial<RedactionSearchOptions>): string[] =>
+  findMatches(text, compileMatchers(options(search))).map(match => text.slice(match.start, match.end));
+
+/** A pdf.js document stand-in whose pages hold the given text items at scale 1 */
+const fakeDoc = (pages: Array<Array<{ str: string; transform: number[]; width: number }>>) => ({
+  numPages: pages.length,
+  getPage: async (pageNumber: number) => ({
+    getViewport: () => ({ convertToViewportPoint: (x: number, y: number) => [x, 800 - y] }),
+    getTextContent: async () => ({ items: pages[pageNumber - 1] }),
+  }),
+});
+
+describe('pdfRedactionSearchService', () => {
+  it('should check card numbers and IBANs', () => {
+    expect(luhnCheck('4111111111111111')).toBe(true);
+    expect(luhnCheck('4111111111111112')).toBe(false);
+    expect(ibanCheck('DE89 3704 0044 0532 0130 00')).toBe(true);
+    expect(ibanCheck('DE88 3704 0044 0532 0130 00')).toBe(false);
+  });
+
+  it('should find the built-in patterns', () => {
+    const text = 'Mail ada@example.org, card 4111 1111 1111 1111, IBAN GB82 WEST 1234 5698 7654 32, ' +
+      'SSN 123-45-6789, born 03/12/1985 or 12 March 1985, call +44 20 7946 0958.';
+
+    expect(matchedText(text, { patterns: ['email', 'creditCard', 'iban', 'ssn', 'date', 'phone'] })).toEqual([
+      'ada@example.org',
+      '4111 1111 1111 1111',
+      'GB82 WEST 1234 5698 7654 32',
+      '123-45-6789',
+      '03/12/1985',
+      '12 March 1985',
+      '+44 20 7946 0958',
+    ]);
+  });
+
+  it('should skip numbers that fail their checks', () => {
+    expect(matchedText('card 4111 1111 1111 1112, date 45/13/2020, ref 1234', {
+      patterns: ['creditCard', 'date', 'phone'],
+    })).toEqual([]);
+  });
+
+  it('should let earlier patterns claim text before later ones', () => {
+    const matches = findMatches('Due 2024-01-15', compileMatchers(options({ patterns: ['date', 'phone'] })));
+
+    expect(matches).toEqual([{ start: 4, end: 14, pattern: 'Date' }]);
+  });
+
+  it('should match expressions and whole words from a word list', () => {
+    expect(matchedText('Case AB-1234 for Smithson and Jane  Smith', {
+      expressions: ['[A-Z]{2}-\\d{4}'],
+      words: ['smith', 'Jane Smith'],
+    })).toEqual(['AB-1234', 'Jane  Smith']);
+  });
+
+  it('should reject invalid expressions', () => {
+    expect(() => compileMatchers(options({ expressions: ['(unclosed'] }))).toThrow('"(unclosed" is not a valid regular expression');
+  });
+
+  it('should map hits across text items to a rectangle per item', async () => {
+    // "ada@exam" and "ple.org" are separate items on one line; each character is 5pt wide at 10pt
+    const doc = fakeDoc([[
+      { str: 'Mail ada@exam', transform: [10, 0, 0, 10, 100, 700], width: 65 },
+      { str: 'ple.org', transform: [10, 0, 0, 10, 165, 700], width: 35 },
+    ]]);
+
+    const [hit] = await findRedactionHits(doc, options({ patterns: ['email'] }));
+
+    expect(hit).toMatchObject({ pageIndex: 0, pattern: 'Email address', text: 'ada@example.org', before: 'Mail ' });
+    expect(hit.rects).toEqual([
+      { x: 125, y: 698, width: 40, height: 10 },
+      { x: 165, y: 698, width: 35, height: 10 },
+    ]);
+  });
+
+  it('should write a CSV log with the bounding box of each hit', () => {
+    const csv = redactionLogToCSV([{
+      id: 'hit-1-0',
+      pageIndex: 1,
+      pattern: '/a,b/',
+      text: 'secret',
+      before: '',
+      after: '',
+      rects: [{ x: 10, y: 20, width: 30, height: 10 }, { x: 10, y: 5, width: 5.555, height: 10 }],
+    }]);
+
+    expect(csv).toBe('Page,Pattern,X,Y,Width,Height\r\n2,"/a,b/",10,5,30,25\r\n');
+    expect(csv).not.toContain('secret');
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * Unit tests for redaction that removes the content under the redacted areas
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PDFBool, PDFDict, PDFDocument, PDFHexString, PDFName, PDFStream, PDFString, StandardFonts } from 'pdf-lib';
+import { redactDocument, type RedactionArea } from '@/services/pdfRedactionService';
+import { decodeStreamContents, getPageContentBytes, parseContentStream } from '@/services/pdfContentStream';
+import { decodeImagePixels, listImageXObjects } from '@/services/pdfImageCodec';
+
+const latin1 = (bytes: Uint8Array): string => Array.from(bytes, b => String.fromCharCode(b)).join('');
+
+const area = (overrides: Partial<RedactionArea>): RedactionArea => ({
+  pageIndex: 0,
+  x: 0,
+  y: 0,
+  width: 10,
+  height: 10,
+  fillColor: '#000000',
+  label: '',
+  ...overrides,
+});
+
+/** Reload so embedded fonts and images are real objects, as in a file from disk */
+async function reload(pdf: PDFDocument): Promise<PDFDocument> {
+  return PDFDocument.load(await pdf.save());
+}
+
+/** "Secret Public" in 12pt Helvetica with its baseline at (50, 700) */
+async function createTextPdf(): Promise<{ pdf: PDFDocument; secretWidth: number }> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  pdf.addPage([600, 800]).drawText('Secret Public', { x: 50, y: 700, size: 12, font });
+  return { pdf: await reload(pdf), secretWidth: font.widthOfTextAtSize('Secret', 12) };
+}
+
+/** Every string shown on the page, decoded as Latin-1 */
+function shownText(pdf: PDFDocument): string {
+  let text = '';
+  const collect = (operand: { type: string; value?: unknown; items?: unknown[] }) => {
+    if (operand.type === 'string') text += latin1(operand.value as Uint8Array);
+    if (operand.type === 'array') (operand.items as typeof operand[]).forEach(collect);
+  };
+  parseContentStream(getPageContentBytes(pdf.getPage(0))).forEach(op => op.operands.forEach(collect));
+  return text;
+}
+
+describe('pdfRedactionService', () => {
+  it('should remove only the glyphs inside the area and keep the rest in place', async () => {
+    const { pdf, secretWidth } = await createTextPdf();
+
+    const result = await redactDocument(pdf, [area({ x: 48, y: 695, width: secretWidth + 1, height: 20 })]);
+
+    expect(result.removedText).toEqual(['Secret']);
+    expect(shownText(pdf)).not.toContain('Secret');
+    expect(shownText(pdf)).toContain(' Public');
+
+    // The removed glyphs become a kerning offset of their combined width
+    const tj = parseContentStream(getPageContentBytes(pdf.getPage(0))).find(op => op.operator === 'TJ')!;
+    const [offset] = tj.operands[0].type === 'array' ? tj.operands[0].items : [];
+    const helvetica = await pdf.embedFont(StandardFonts.Helvetica);
+    expect(offset.type === 'number' && offset.value).toBeCloseTo(-helvetica.widthOfTextAtSize('Secret', 1000));
+  });
+
+  it('should not leave the original content stream in the document', async () => {
+    const { pdf, secretWidth } = await createTextPdf();
+
+    await redactDocument(pdf, [area({ x: 48, y: 695, width: secretWidth + 1, height: 20 })]);
+
+    const secretHex = Array.from('Secret', ch => ch.charCodeAt(0).toString(16).toUpperCase()).join('');
+    for (const [, obj] of pdf.context.enumerateIndirectObjects()) {
+      if (!(obj instanceof PDFStream)) continue;
+      const contents = latin1(decodeStreamContents(obj)).toUpperCase();
+      expect(contents).not.toContain(secretHex);
+    }
+  });
+
+  it('should remove paths that cross the area but keep rectangles spanning it', async () => {
+    const pdf = await PDFDocument.create();
+    const page = pdf.addPage([600, 800]);
+    page.node.addContentStream(pdf.context.register(pdf.context.stream(
+      '0 0 600 800 re f 100 100 m 300 100 l S 100 500 m 300 500 l S q 2 0 0 2 0 0 cm 80 60 10 10 re f Q'
+    )));
+
+    const result = await redactDocument(pdf, [area({ x: 150, y: 90, width: 50, height: 50 })]);
+
+    const ops = parseContentStream(getPageContentBytes(page)).map(op => op.operator).join(' ');
+    expect(result.removedPaths).toBe(2);
+    expect(ops).toContain('re f m l S q cm Q');
+  });
+
+  it('should paint over the covered pixels of an image and drop fully covered images', async () => {
+    const pdf = await PDFDocument.create();
+    const page = pdf.addPage([600, 800]);
+    const image = (name: string) => {
+      // 2x1 RGB image: red, green
+      const ref = pdf.context.register(pdf.context.flateStream(new Uint8Array([255, 0, 0, 0, 255, 0]), {
+        Type: 'XObject', Subtype: 'Image', Width: 2, Height: 1, ColorSpace: 'DeviceRGB', BitsPerComponent: 8,
+      }));
+      page.node.setXObject(PDFName.of(name), ref);
+    };
+    image('Im1');
+    image('Im2');
+    page.node.addContentStream(pdf.context.register(pdf.context.stream(
+      'q 100 0 0 50 50 50 cm /Im1 Do Q q 20 0 0 20 400 400 cm /Im2 Do Q'
+    )));
+
+    const result = await redactDocument(pdf, [
+      area({ x: 40, y: 40, width: 40, height: 70, fillColor: '#0000ff' }),
+      area({ x: 390, y: 390, width: 40, height: 40 }),
+    ]);
+
+    expect(result).toMatchObject({ editedImages: 1, removedImages: 1 });
+    const ops = parseContentStream(getPageContentBytes(page)).filter(op => op.operator === 'Do');
+    expect(ops).toHaveLength(1);
+
+    // Only the edited copy is left in the file
+    const images = listImageXObjects(pdf);
+    expect(images).toHaveLength(1);
+    expect(Array.from(decodeImagePixels(images[0])!.data)).toEqual([0, 0, 255, 255, 0, 255, 0, 255]);
+  });
+
+  it('should carry a stencil mask over to the copy, opaque under the area, and drop stencil images', async () => {
+    const pdf = await PDFDocument.create();
+    const page = pdf.addPage([600, 800]);
+    // 2x1 stencils: the left pixel painted, the right one masked out
+    const stencil = (extra: Record<string, unknown>) => pdf.context.register(pdf.context.flateStream(new Uint8Array([0x40]), {
+      Type: 'XObject', Subtype: 'Image', Width: 2, Height: 1, ImageMask: true, ...extra,
+    }));
+    page.node.setXObject(PDFName.of('Im1'), pdf.context.register(pdf.context.flateStream(new Uint8Array([255, 0, 0, 0, 255, 0]), {
+      Type: 'XObject', Subtype: 'Image', Width: 2, Height: 1, ColorSpace: 'DeviceRGB', BitsPerComponent: 8, Mask: stencil({}),
+    })));
+    page.node.setXObject(PDFName.of('Im2'), stencil({ BitsPerComponent: 1 }));
+    page.node.addContentStream(pdf.context.register(pdf.context.stream(
+      'q 100 0 0 50 50 50 cm /Im1 Do Q q 100 0 0 50 50 400 cm /Im2 Do Q'
+    )));
+
+    const result = await redactDocument(pdf, [
+      area({ x: 110, y: 40, width: 60, height: 70 }),
+      area({ x: 110, y: 390, width: 60, height: 70 }),
+    ]);
+
+    expect(result).toMatchObject({ editedImages: 1, removedImages: 1 });
+    const [draw] = parseContentStream(getPageContentBytes(page)).filter(op => op.operator === 'Do');
+    const name = draw.operands[0].type === 'name' ? draw.operands[0].value : '';
+    const copy = page.node.Resources()!.lookup(PDFName.of('XObject'), PDFDict).lookup(PDFName.of(name), PDFStream);
+    expect(copy.dict.has(PDFName.of('Mask'))).toBe(false);
+    expect(Array.from(decodeStreamContents(copy.dict.lookup(PDFName.of('SMask'), PDFStream)))).toEqual([255, 255]);
+  });
+
+  it('should clip shadings around the area and remove mesh shadings over it', async () => {
+    const pdf = await PDFDocument.create();
+    const page = pdf.addPage([600, 800]);
+    const mesh = () => pdf.context.register(pdf.context.stream('', {
+      ShadingType: 4, ColorSpace: 'DeviceGray', BitsPerCoordinate: 8, BitsPerComponent: 8, BitsPerFlag: 8, Decode: [0, 600, 0, 800, 0, 1],
+    }));
+    page.node.Resources()!.set(PDFName.of('Shading'), pdf.context.obj({
+      Sh1: { ShadingType: 2, ColorSpace: 'DeviceGray', Coords: [0, 0, 600, 0], Function: { FunctionType: 2, Domain: [0, 1], C0: [0], C1: [1], N: 1 } },
+      Sh2: mesh(),
+      Sh3: mesh(),
+    }));
+    page.node.addContentStream(pdf.context.register(pdf.context.stream(
+      '/Sh1 sh q 300 300 100 100 re W n /Sh2 sh Q /Sh3 sh'
+    )));
+
+    const result = await redactDocument(pdf, [area({ x: 150, y: 90, width: 50, height: 50 })]);
+
+    const ops = parseContentStream(getPageContentBytes(page));
+    expect(result.removedPaths).toBe(1);
+    expect(ops.map(op => op.operator).join(' ')).toContain('q m l l l h m l l l h W* n sh Q q re W n sh Q Q');
+    expect(ops.filter(op => op.operator === 'sh').map(op => op.operands[0].type === 'name' && op.operands[0].value)).toEqual(['Sh1', 'Sh2']);
+  });
+
+  it('should redact text drawn inside a form XObject', async () => {
+    const { pdf, secretWidth } = await createTextPdf();
+    const page = pdf.getPage(0);
+    // Move the page content into a form drawn by a new page stream
+    const form = pdf.context.flateStream(getPageContentBytes(page), {
+      Type: 'XObject', Subtype: 'Form', BBox: [0, 0, 600, 800], Resources: page.node.Resources()!,
+    });
+    const formRef = pdf.context.register(form);
+    page.node.setXObject(PDFName.of('Fm1'), formRef);
+    page.node.set(PDFName.of('Contents'), pdf.context.register(pdf.context.stream('/Fm1 Do')));
+
+    await redactDocument(pdf, [area({ x: 48, y: 695, width: secretWidth + 1, height: 20 })]);
+
+    const [doOp] = parseContentStream(getPageContentBytes(page)).filter(op => op.operator === 'Do');
+    const name = doOp.operands[0].type === 'name' ? doOp.operands[0].value : '';
+    expect(name).not.toBe('Fm1');
+    const copy = page.node.Resources()!.lookup(PDFName.of('XObject'), PDFDict).lookup(PDFName.of(name), PDFStream);
+    expect(latin1(decodeStreamContents(copy))).toContain('TJ');
+  });
+
+  it('should remove annotations over the area and scrub redacted words elsewhere', async () => {
+    const { pdf, secretWidth } = await createTextPdf();
+    pdf.setTitle('Secret report', { showInWindowTitleBar: false });
+    const annotation = (rect: number[], contents: string) => pdf.context.register(pdf.context.obj({
+      Type: 'Annot', Subtype: 'Text', Rect: rect, Contents: PDFString.of(contents),
+    }));
+    pdf.getPage(0).node.set(PDFName.of('Annots'), pdf.context.obj([
+      annotation([50, 700, 70, 720], 'Over the area'),
+      annotation([300, 300, 320, 320], 'Mentions Secret here'),
+    ]));
+
+    const result = await redactDocument(pdf, [area({ x: 48, y: 695, width: secretWidth + 1, height: 20 })]);
+
+    expect(result.removedAnnotations).toBe(1);
+    const annots = pdf.getPage(0).node.Annots()!;
+    expect(annots.size()).toBe(1);
+    expect(annots.lookup(0, PDFDict).lookup(PDFName.of('Contents'), PDFHexString).decodeText()).toBe('Mentions here');
+    expect(pdf.getTitle()).toBe('report');
+  });
+
+  it('should scrub redacted words from bookmark titles', async () => {
+    const { pdf, secretWidth } = await createTextPdf();
+    const outlinesRef = pdf.context.nextRef();
+    const secondRef = pdf.context.nextRef();
+    const firstRef = pdf.context.register(pdf.context.obj({
+      Title: PDFString.of('Secret plans'), Parent: outlinesRef, Next: secondRef,
+    }));
+    pdf.context.assign(secondRef, pdf.context.obj({ Title: PDFHexString.fromText('Secret'), Parent: outlinesRef, Prev: firstRef }));
+    pdf.context.assign(outlinesRef, pdf.context.obj({ Type: 'Outlines', First: firstRef, Last: secondRef, Count: 2 }));
+    pdf.catalog.set(PDFName.of('Outlines'), outlinesRef);
+
+    await redactDocument(pdf, [area({ x: 48, y: 695, width: secretWidth + 1, height: 20 })]);
+
+    const title = (ref: typeof firstRef) => pdf.context.lookup(ref, PDFDict).lookup(PDFName.of('Title'), PDFHexString).decodeText();
+    expect(title(firstRef)).toBe('plans');
+    expect(title(secondRef)).toBe('Redacted');
+  });
+
+  it('should scrub redacted words from form field values and defaults', async () => {
+    const { pdf, secretWidth } = await createTextPdf();
+    const form = pdf.getForm();
+    const field = form.createTextField('name');
+    field.setText('Secret agent');
+    field.addToPage(pdf.getPage(0), { x: 300, y: 300, width: 200, height: 20 });
+    field.acroField.dict.set(PDFName.of('DV'), PDFString.of('Secret'));
+
+    await redactDocument(pdf, [area({ x: 48, y: 695, width: secretWidth + 1, height: 20 })]);
+
+    const dict = field.acroField.dict;
+    expect(dict.lookup(PDFName.of('V'), PDFHexString).decodeText()).toBe('agent');
+    expect(dict.lookup(PDFName.of('DV'), PDFHexString).decodeText()).toBe('');
+    // The old appearance drew the value; viewers rebuild it from the scrubbed one
+    expect(field.acroField.getWidgets()[0].getAppearances()).toBeUndefined();
+    expect(form.acroForm.dict.get(PDFName.of('NeedAppearances'))).toBe(PDFBool.True);
+  });
+
+  it('should drop the alternate text of tagged elements whose content was removed', async () => {
+    const { pdf, secretWidth } = await createTextPdf();
+    const page = pdf.getPage(0);
+    page.node.addContentStream(pdf.context.register(pdf.context.stream(
+      '/Figure <</MCID 0>> BDC 40 690 m 60 720 l S EMC /Figure <</MCID 1>> BDC 300 300 m 320 320 l S EMC'
+    )));
+    page.node.set(PDFName.of('StructParents'), pdf.context.obj(0));
+
+    const rootRef = pdf.context.nextRef();
+    const sectionRef = pdf.context.nextRef();
+    const element = (alt: string) => pdf.context.register(pdf.context.obj({
+      Type: 'StructElem', S: 'Figure', P: sectionRef, Pg: page.ref, Alt: PDFString.of(alt),
+    }));
+    const removed = element('Portrait of the witness');
+    const kept = element('Chart of Secret sales');
+    pdf.context.assign(sectionRef, pdf.context.obj({
+      Type: 'StructElem', S: 'Sect', P: rootRef, K: [removed, kept], ActualText: PDFString.of('Witness statement'),
+    }));
+    pdf.context.assign(rootRef, pdf.context.obj({
+      Type: 'StructTreeRoot', K: sectionRef, ParentTree: { Nums: [0, [removed, kept]] },
+    }));
+    pdf.catalog.set(PDFName.of('StructTreeRoot'), rootRef);
+
+    await redactDocument(pdf, [area({ x: 48, y: 695, width: secretWidth + 1, height: 20 })]);
+
+    const entry = (ref: typeof rootRef, key: string) => pdf.context.lookup(ref, PDFDict).lookup(PDFName.of(key));
+    expect(entry(removed, 'Alt')).toBeUndefined();
+    expect(entry(sectionRef, 'ActualText')).toBeUndefined();
+    expect((entry(kept, 'Alt') as PDFHexString).decodeText()).toBe('Chart of sales');
+  });
+
+  it('should reject labels the label font cannot draw', async () => {
+    const { pdf } = await createTextPdf();
+
+    await expect(redactDocument(pdf, [area({ x: 40, y: 40, width: 200, height: 40, label: '机密' })]))
+      .rejects.toThrow('label contains characters');
+  });
+});
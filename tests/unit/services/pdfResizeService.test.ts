@@ -0,0 +1,160 @@
+/**
+ * Unit tests for page size normalization
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFNumber, degrees } from 'pdf-lib';
+import { planPageResize, resizePDF } from '@/services/pdfResizeService';
+import { DEFAULT_RESIZE_PDF_CONFIG, type ResizePdfConfig } from '@/types';
+import { pdfFile } from '@/tests/helpers/pdfFile';
+
+const config = (overrides: Partial<ResizePdfConfig> = {}): ResizePdfConfig => ({
+  ...DEFAULT_RESIZE_PDF_CONFIG,
+  ...overrides,
+});
+
+describe('pdfResizeService', () => {
+  describe('planPageResize', () => {
+    it('should fit a page inside the target and center it', () => {
+      const plan = planPageResize({ width: 612, height: 792 }, config({ pageSize: 'A4' }));
+
+      expect(plan).toMatchObject({ width: 595, height: 842 });
+      expect(plan.scale).toBeCloseTo(595 / 612);
+      expect(plan.placement.x).toBeCloseTo(0);
+      expect(plan.placement.y).toBeCloseTo((842 - 792 * (595 / 612)) / 2);
+    });
+
+    it('should follow each page orientation when set to auto', () => {
+      expect(planPageResize({ width: 800, height: 600 }, config())).toMatchObject({ width: 842, height: 595 });
+      expect(planPageResize({ width: 800, height: 600 }, config({ orientation: 'portrait' })))
+        .toMatchObject({ width: 595, height: 842 });
+    });
+
+    it('should cover the area in fill mode and keep the scale in actual-size mode', () => {
+      expect(planPageResize({ width: 595, height: 595 }, config({ mode: 'fill' })).scale).toBeCloseTo(842 / 595);
+      expect(planPageResize({ width: 1000, height: 1200 }, config({ mode: 'actual' })).scale).toBe(1);
+    });
+
+    it('should leave the margins free', () => {
+      const plan = planPageResize({ width: 595, height: 842 }, config({ margin: 'medium' }));
+
+      expect(plan.area).toMatchObject({ x: 56.7, y: 56.7 });
+      expect(plan.area.width).toBeCloseTo(595 - 113.4);
+      expect(plan.placement.y).toBeCloseTo(56.7 + (plan.area.height - 842 * plan.scale) / 2);
+      expect(plan.placement.width).toBeCloseTo(plan.area.width);
+    });
+
+    it('should reject margins that leave no room', () => {
+      expect(() => planPageResize({ width: 595, height: 842 }, config({ customMargin: { top: 500, right: 0, bottom: 500, left: 0 } })))
+        .toThrow('no room');
+    });
+  });
+
+  describe('resizePDF', () => {
+    it('should bring mixed page sizes to one size', async () => {
+      const pdf = await PDFDocument.create();
+      pdf.addPage([612, 792]).drawText('Letter');
+      pdf.addPage([400, 300]).drawText('Small landscape');
+      const file = pdfFile(await pdf.save());
+
+      const result = await PDFDocument.load(await resizePDF(file, config()));
+
+      expect(result.getPage(0).getSize()).toEqual({ width: 595, height: 842 });
+      expect(result.getPage(1).getSize()).toEqual({ width: 842, height: 595 });
+    });
+
+    it('should size rotated pages as they are displayed', async () => {
+      const pdf = await PDFDocument.create();
+      const page = pdf.addPage([792, 612]);
+      page.setRotation(degrees(90));
+      page.drawText('Rotated');
+      const file = pdfFile(await pdf.save());
+
+      const result = await PDFDocument.load(await resizePDF(file, config({ orientation: 'portrait' })));
+
+      // Displayed portrait, so the unrotated box is landscape
+      expect(result.getPage(0).getSize()).toEqual({ width: 842, height: 595 });
+      expect(result.getPage(0).getRotation().angle).toBe(90);
+    });
+
+    it('should move annotations with the content', async () => {
+      const pdf = await PDFDocument.create();
+      const page = pdf.addPage([612, 792]);
+      page.drawText('Link');
+      const link = pdf.context.obj({ Type: 'Annot', Subtype: 'Link', Rect: [0, 0, 100, 100] });
+      page.node.set(PDFName.of('Annots'), pdf.context.obj([pdf.context.register(link)]));
+      const file = pdfFile(await pdf.save());
+
+      const result = await PDFDocument.load(await resizePDF(file, config()));
+
+      const rect = result.getPage(0).node.Annots()!.lookup(0, PDFDict).lookup(PDFName.of('Rect'), PDFArray);
+      const [x1, y1, x2] = rect.asArray().map(n => (n as PDFNumber).asNumber());
+      const scale = 595 / 612;
+      expect(x1).toBeCloseTo(0);
+      expect(y1).toBeCloseTo((842 - 792 * scale) / 2);
+      expect(x2).toBeCloseTo(100 * scale);
+    });
+
+    it('should move an annotation shared by two pages only once', async () => {
+      const pdf = await PDFDocument.create();
+      const annots = pdf.context.register(pdf.context.obj([
+        pdf.context.register(pdf.context.obj({ Type: 'Annot', Subtype: 'Square', Rect: [100, 100, 200, 200] })),
+      ]));
+      pdf.addPage([612, 792]).node.set(PDFName.of('Annots'), annots);
+      pdf.addPage([612, 792]).node.set(PDFName.of('Annots'), annots);
+      const file = pdfFile(await pdf.save());
+
+      const result = await PDFDocument.load(await resizePDF(file, config()));
+
+      const rect = result.getPage(1).node.Annots()!.lookup(0, PDFDict).lookup(PDFName.of('Rect'), PDFArray);
+      expect((rect.get(0) as PDFNumber).asNumber()).toBeCloseTo(100 * (595 / 612));
+    });
+
+    it('should move destination coordinates with their page', async () => {
+      const pdf = await PDFDocument.create();
+      const page = pdf.addPage([612, 792]);
+      const link = pdf.context.obj({
+        Type: 'Annot',
+        Subtype: 'Link',
+        Rect: [0, 0, 100, 100],
+        Dest: [page.ref, PDFName.of('XYZ'), 100, 700, null],
+      });
+      page.node.set(PDFName.of('Annots'), pdf.context.obj([pdf.context.register(link)]));
+      const outlineItem = pdf.context.nextRef();
+      const outlines = pdf.context.register(pdf.context.obj({ Type: 'Outlines', First: outlineItem, Last: outlineItem, Count: 1 }));
+      pdf.context.assign(outlineItem, pdf.context.obj({
+        Title: 'Box',
+        Parent: outlines,
+        Dest: [page.ref, PDFName.of('FitR'), 100, 100, 200, 200],
+      }));
+      pdf.catalog.set(PDFName.of('Outlines'), outlines);
+      const file = pdfFile(await pdf.save());
+
+      const result = await PDFDocument.load(await resizePDF(file, config()));
+
+      const scale = 595 / 612;
+      const offsetY = (842 - 792 * scale) / 2;
+      const numbers = (dest: PDFArray) => dest.asArray().slice(2).map(n => (n instanceof PDFNumber ? n.asNumber() : null));
+      const linkDest = result.getPage(0).node.Annots()!.lookup(0, PDFDict).lookup(PDFName.of('Dest'), PDFArray);
+      const [left, top, zoom] = numbers(linkDest);
+      expect(left).toBeCloseTo(100 * scale);
+      expect(top).toBeCloseTo(700 * scale + offsetY);
+      expect(zoom).toBeNull();
+
+      const item = result.catalog.lookup(PDFName.of('Outlines'), PDFDict).lookup(PDFName.of('First'), PDFDict);
+      const [l, b, r, t] = numbers(item.lookup(PDFName.of('Dest'), PDFArray)) as number[];
+      expect([l, b, r, t].map(n => Math.round(n))).toEqual([
+        Math.round(100 * scale), Math.round(100 * scale + offsetY), Math.round(200 * scale), Math.round(200 * scale + offsetY),
+      ]);
+    });
+
+    it('should stop when cancelled', async () => {
+      const pdf = await PDFDocument.create();
+      pdf.addPage();
+      const file = pdfFile(await pdf.save());
+
+      await expect(resizePDF(file, config(), undefined, undefined, { current: true }))
+        .rejects.toThrow('Resize cancelled');
+    });
+  });
+});
@@ -4,12 +4,13 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { PDFDocument } from 'pdf-lib';
+import { PDFArray, PDFDict, PDFDocument, PDFName } from 'pdf-lib';
 import {
   mergePDFs,
   splitPDF,
   compressPDF,
   rotatePDF,
+  organizePDF,
   getPDFInfo,
   pdfToJPG,
   imagesToPDF,
@@ -17,7 +18,10 @@ import {
   unlockPDF,
   isPDFEncrypted,
 } from '@/services/pdfService';
-import type { SplitPdfConfig, RotatePdfConfig } from '../../../types';
+import { readOutline, writeOutline } from '@/services/pdfNavigation';
+import { encryptDocument } from '@/services/pdfEncryption';
+import { pdfFile } from '@/tests/helpers/pdfFile';
+import type { SplitPdfConfig, RotatePdfConfig, OrganizerPage } from '../../../types';
 
 // Helper function to create a mock PDF File with arrayBuffer method
 async function createMockPDFFile(pageCount: number = 1, name: string = 'test.pdf'): Promise<File> {
@@ -92,6 +96,32 @@ describe('PDF Service - mergePDFs', () => {
     expect(pageCount).toBe(6); // 1 + 2 + 3 pages
   });
 
+  it('should keep each file\'s bookmarks under a per-file bookmark', async () => {
+    const withOutline = await PDFDocument.create();
+    withOutline.addPage([595, 842]);
+    withOutline.addPage([595, 842]);
+    writeOutline(withOutline, [
+      { title: 'Appendix', destination: { pageIndex: 1, view: ['Fit'] }, open: false, children: [] },
+    ], withOutline.getPages().map(page => page.ref));
+    const outlinedFile = await createMockPDFFile(2, 'report.pdf');
+    const outlinedBytes = await withOutline.save();
+    Object.defineProperty(outlinedFile, 'arrayBuffer', { value: async () => outlinedBytes.buffer });
+
+    const result = await mergePDFs([await createMockPDFFile(1, 'cover.pdf'), outlinedFile], {
+      pageOrder: [
+        { fileId: 'cover.pdf', fileName: 'cover.pdf', pageIndices: [] },
+        { fileId: 'report.pdf', fileName: 'report.pdf', pageIndices: [] },
+      ],
+      removePages: [],
+      addFileBookmarks: true,
+    });
+    const outline = readOutline(await PDFDocument.load(result));
+
+    expect(outline.map(item => item.title)).toEqual(['cover', 'report']);
+    expect(outline[1].destination!.pageIndex).toBe(1);
+    expect(outline[1].children[0]).toMatchObject({ title: 'Appendix', destination: { pageIndex: 2 } });
+  });
+
   it('should throw error when no files provided', async () => {
     await expect(mergePDFs([])).rejects.toThrow('No files provided for merging');
   });
@@ -173,6 +203,62 @@ describe('PDF Service - splitPDF', () => {
     await expect(splitPDF(pdf, config2)).rejects.toThrow('Invalid page number');
   });
 
+  it('should split at bookmarks and name parts after their titles', async () => {
+    const source = await PDFDocument.create();
+    for (let i = 0; i < 5; i++) source.addPage([595, 842]);
+    writeOutline(source, [
+      {
+        title: 'Introduction', destination: { pageIndex: 1, view: ['Fit'] }, open: true,
+        children: [{ title: 'Scope', destination: { pageIndex: 2, view: ['Fit'] }, open: false, children: [] }],
+      },
+      { title: 'Results: Q1/Q2', destination: { pageIndex: 3, view: ['Fit'] }, open: false, children: [] },
+    ], source.getPages().map(page => page.ref));
+    const file = pdfFile(await source.save(), 'report.pdf');
+
+    const topLevel = await splitPDF(file, { mode: 'bookmarks', outputFormat: 'separate' });
+    expect(topLevel.map(part => part.name)).toEqual([
+      'report_pages_1.pdf',
+      'report_Introduction.pdf',
+      'report_Results Q1 Q2.pdf',
+    ]);
+    expect(await getPDFPageCount(topLevel[1].pdf)).toBe(2);
+
+    const nested = await splitPDF(file, { mode: 'bookmarks', bookmarkLevel: 2, outputFormat: 'separate' });
+    expect(nested.map(part => part.name)).toContain('report_Scope.pdf');
+  });
+
+  it('should throw error when splitting by bookmarks without an outline', async () => {
+    const pdf = await createMockPDFFile(3);
+
+    await expect(splitPDF(pdf, { mode: 'bookmarks', outputFormat: 'separate' }))
+      .rejects.toThrow('no bookmarks');
+  });
+
+  it('should split into parts under the maximum file size', async () => {
+    // Give every page its own uncompressed content so part sizes grow with page count
+    const source = await PDFDocument.create();
+    for (let i = 0; i < 12; i++) {
+      const page = source.addPage([595, 842]);
+      const text = Array.from({ length: 200 }, (_, line) => `BT 72 ${line} Td (Page ${i} line ${line}) Tj ET`).join('\n');
+      page.node.addContentStream(source.context.register(source.context.stream(text)));
+    }
+    const pdf = await createMockPDFFile(12, 'large.pdf');
+    const bytes = await source.save();
+    Object.defineProperty(pdf, 'arrayBuffer', { value: async () => bytes.buffer });
+    const singlePage = await splitPDF(pdf, { mode: 'extract', extractPages: [1], outputFormat: 'separate' });
+    const limit = singlePage[0].pdf.length * 3;
+
+    const result = await splitPDF(pdf, { mode: 'file-size', maxFileSizeMB: limit / (1024 * 1024), outputFormat: 'separate' });
+
+    expect(result.length).toBeGreaterThan(1);
+    let totalPages = 0;
+    for (const part of result) {
+      expect(part.pdf.length).toBeLessThanOrEqual(limit);
+      totalPages += await getPDFPageCount(part.pdf);
+    }
+    expect(totalPages).toBe(12);
+  });
+
   it('should throw error for non-PDF file', async () => {
     const txtFile = new File(['text'], 'test.txt', { type: 'text/plain' });
 
@@ -234,6 +320,22 @@ describe('PDF Service - rotatePDF', () => {
     expect(page.getRotation().angle).toBe(90);
   });
 
+  it('should rotate an encrypted PDF when given its password', async () => {
+    const encryptedPdf = await encryptPDF(await createMockPDFFile(2), 'user-pass', 'owner-pass');
+    const encryptedFile = await createMockPDFFile(2, 'encrypted.pdf');
+    Object.defineProperty(encryptedFile, 'arrayBuffer', {
+      value: async () => encryptedPdf.buffer,
+    });
+
+    await expect(rotatePDF(encryptedFile, { rotation: 90, pageSelection: 'all' }))
+      .rejects.toThrow('password');
+
+    const result = await rotatePDF(encryptedFile, { rotation: 90, pageSelection: 'all' }, 'user-pass');
+    const rotatedPdf = await PDFDocument.load(result);
+    expect(rotatedPdf.getPageCount()).toBe(2);
+    expect(rotatedPdf.getPage(1).getRotation().angle).toBe(90);
+  });
+
   it('should rotate specific pages only', async () => {
     const pdf = await createMockPDFFile(5);
 
@@ -290,6 +392,99 @@ describe('PDF Service - rotatePDF', () => {
   });
 });
 
+describe('PDF Service - organizePDF', () => {
+  const sourcePage = (source: number, pageIndex: number, rotation = 0): OrganizerPage => ({
+    id: `${source}-${pageIndex}-${rotation}`,
+    source,
+    pageIndex,
+    rotation,
+  });
+
+  it('should reorder, delete, duplicate and rotate pages', async () => {
+    const pdf = await createMockPDFFile(3);
+
+    const result = await organizePDF([pdf], [
+      sourcePage(0, 2),
+      sourcePage(0, 0, 90),
+      sourcePage(0, 0, -90),
+    ]);
+
+    const organized = await PDFDocument.load(result);
+    expect(organized.getPageCount()).toBe(3);
+    expect(organized.getPages().map(page => page.getRotation().angle)).toEqual([0, 90, 270]);
+    expect(new Set(organized.getPages().map(page => page.ref.toString())).size).toBe(3);
+  });
+
+  it('should insert blank pages and pages from another PDF', async () => {
+    const pdf = await createMockPDFFile(2);
+    const letterDoc = await PDFDocument.create();
+    letterDoc.addPage([612, 792]);
+    const letterBytes = await letterDoc.save();
+    const other = new File([letterBytes], 'other.pdf', { type: 'application/pdf' });
+    Object.defineProperty(other, 'arrayBuffer', { value: async () => letterBytes.buffer });
+
+    const result = await organizePDF([pdf, other], [
+      sourcePage(0, 0),
+      { id: 'blank-1', pageIndex: 0, rotation: 0, blank: { size: 'match', orientation: 'portrait' } },
+      sourcePage(1, 0),
+      { id: 'blank-2', pageIndex: 0, rotation: 0, blank: { size: 'A5', orientation: 'landscape' } },
+      sourcePage(0, 1),
+    ]);
+
+    const organized = await PDFDocument.load(result);
+    expect(organized.getPages().map(page => [page.getWidth(), page.getHeight()])).toEqual([
+      [595, 842],
+      [595, 842],
+      [612, 792],
+      [595, 420],
+      [595, 842],
+    ]);
+  });
+
+  it('should keep bookmarks of pages that survive', async () => {
+    const doc = await PDFDocument.create();
+    doc.addPage();
+    doc.addPage();
+    writeOutline(doc, [
+      { title: 'First', destination: { pageIndex: 0, view: ['Fit'] }, open: false, children: [] },
+      { title: 'Second', destination: { pageIndex: 1, view: ['Fit'] }, open: false, children: [] },
+    ], doc.getPages().map(page => page.ref));
+    const file = pdfFile(await doc.save(), 'outlined.pdf');
+
+    const result = await organizePDF([file], [sourcePage(0, 1)]);
+    const outline = readOutline(await PDFDocument.load(result));
+    expect(outline.map(item => [item.title, item.destination?.pageIndex])).toEqual([['Second', 0]]);
+  });
+
+  it('should give a duplicated page its own copy of the links', async () => {
+    const doc = await PDFDocument.create();
+    doc.addPage();
+    doc.addPage();
+    const link = doc.context.register(doc.context.obj({
+      Type: 'Annot',
+      Subtype: 'Link',
+      Rect: [0, 0, 100, 20],
+      Dest: [doc.getPage(1).ref, PDFName.of('Fit')],
+    }));
+    doc.getPage(0).node.set(PDFName.of('Annots'), doc.context.obj([link]));
+    const file = pdfFile(await doc.save(), 'linked.pdf');
+
+    const result = await organizePDF([file], [sourcePage(0, 0), sourcePage(0, 0, 90), sourcePage(0, 1)]);
+
+    const organized = await PDFDocument.load(result);
+    const [first, second, target] = organized.getPages();
+    const links = [first, second].map(page => page.node.lookup(PDFName.of('Annots'), PDFArray));
+    expect(links[0].get(0)).not.toBe(links[1].get(0));
+    for (const annots of links) {
+      expect(annots.lookup(0, PDFDict).lookup(PDFName.of('Dest'), PDFArray).get(0)).toBe(target.ref);
+    }
+  });
+
+  it('should refuse to remove every page', async () => {
+    await expect(organizePDF([await createMockPDFFile(1)], [])).rejects.toThrow('at least one page');
+  });
+});
+
 describe('PDF Service - getPDFInfo', () => {
   it('should return PDF metadata', async () => {
     const pdf = await createMockPDFFile(5);
@@ -443,10 +638,36 @@ describe('PDF Service - unlockPDF', () => {
     expect(result).toBeInstanceOf(Uint8Array);
   });
 
-  it('should throw error for empty password', async () => {
+  it('should unlock a PDF that only has an owner password with an empty password', async () => {
+    const doc = await PDFDocument.create();
+    doc.addPage([595, 842]);
+    await encryptDocument(doc, {
+      userPassword: '',
+      ownerPassword: 'owner-pass',
+      permissions: { printing: true },
+      algorithm: 'AES-128',
+      encryptMetadata: true,
+    });
+    const encryptedBytes = await doc.save({ useObjectStreams: false });
+    const encryptedFile = await createMockPDFFile(1, 'owner-only.pdf');
+    Object.defineProperty(encryptedFile, 'arrayBuffer', {
+      value: async () => encryptedBytes.buffer,
+    });
+
+    const result = await unlockPDF(encryptedFile, '');
+
+    expect((await PDFDocument.load(result)).getPageCount()).toBe(1);
+  });
+
+  it('should reject an empty password when the PDF needs an open password', async () => {
     const pdf = await createMockPDFFile(1);
+    const encryptedPdf = await encryptPDF(pdf, 'testPassword');
+    const encryptedFile = await createMockPDFFile(1, 'encrypted.pdf');
+    Object.defineProperty(encryptedFile, 'arrayBuffer', {
+      value: async () => encryptedPdf.buffer,
+    });
 
-    await expect(unlockPDF(pdf, '')).rejects.toThrow('Password is required');
+    await expect(unlockPDF(encryptedFile, '')).rejects.toThrow('Incorrect password');
   });
 });
 
@@ -459,9 +680,7 @@ describe('PDF Service - isPDFEncrypted', () => {
     expect(result).toBe(false);
   });
 
-  it('should check for encrypted PDF', async () => {
-    // Note: pdf-lib encryption detection varies by environment
-    // This test validates the function runs without error
+  it('should report the encryption details of an encrypted PDF', async () => {
     const pdf = await createMockPDFFile(1);
     const encryptedPdf = await encryptPDF(pdf, 'password');
     const encryptedFile = await createMockPDFFile(1, 'encrypted.pdf');
@@ -472,8 +691,12 @@ describe('PDF Service - isPDFEncrypted', () => {
 
     const result = await isPDFEncrypted(encryptedFile);
 
-    // Result may be false in test environment, but function should work
-    expect(typeof result).toBe('boolean');
+    expect(result).not.toBe(false);
+    if (result) {
+      expect(result.algorithm).toBe('AES-256');
+      expect(result.revision).toBe(6);
+      expect(result.permissions.printing).toBe(true);
+    }
   });
 
   it('should throw error for non-PDF file', async () => {
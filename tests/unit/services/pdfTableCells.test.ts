@@ -0,0 +1,94 @@
+/**
+ * Unit tests for typed PDF to Excel cells and the CSV, JSON and ODS outputs
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import { conventionsForLocale, dateSerial, inferConventions, parseCell, type NumberConventions } from '@/services/pdfTableCells';
+import { tableToCsv, tablesToJson, tablesToSheet } from '@/services/pdfToExcelService';
+import type { ExtractedTable } from '@/services/pdfTableDetection';
+
+const US: NumberConventions = { decimal: '.', dateOrder: 'mdy' };
+const DE: NumberConventions = { decimal: ',', dateOrder: 'dmy' };
+
+const table = (rows: string[][]): ExtractedTable => ({
+  bounds: { x0: 72, y0: 100, x1: 372, y1: 160 },
+  rows,
+  merges: [],
+  ruled: true,
+});
+
+describe('pdfTableCells', () => {
+  it('should read amounts, currencies, percentages and negatives with matching formats', () => {
+    expect(parseCell('1,234.50', US)).toMatchObject({ type: 'number', value: 1234.5, format: '#,##0.00' });
+    expect(parseCell('1.234,50', DE)).toMatchObject({ type: 'number', value: 1234.5, format: '#,##0.00' });
+    expect(parseCell('$1,200', US)).toMatchObject({ type: 'number', value: 1200, format: '"$"#,##0' });
+    expect(parseCell('12,50 €', DE)).toMatchObject({ type: 'number', value: 12.5, format: '0.00 "€"' });
+    expect(parseCell('(1,234.00)', US)).toMatchObject({ type: 'number', value: -1234, format: '#,##0.00;(#,##0.00)' });
+    expect(parseCell('-$5.25', US)).toMatchObject({ type: 'number', value: -5.25 });
+    expect(parseCell('350.00-', US)).toMatchObject({ type: 'number', value: -350 });
+    expect(parseCell('12.5%', US)).toMatchObject({ type: 'number', value: 0.125, format: '0.0%' });
+    expect(parseCell('42', US)).toEqual({ type: 'number', value: 42, text: '42', format: undefined });
+  });
+
+  it('should keep codes, long references and ordinary text as text', () => {
+    expect(parseCell('00123', US).type).toBe('text');
+    expect(parseCell('1234567890123456789', US).type).toBe('text');
+    expect(parseCell('Q1 2024', US).type).toBe('text');
+    expect(parseCell('1,2,3', US).type).toBe('text');
+    expect(parseCell('', US)).toEqual({ type: 'text', value: '', text: '' });
+  });
+
+  it('should read dates in the locale order, falling back when the day cannot be a month', () => {
+    expect(parseCell('03/04/2024', US)).toMatchObject({ type: 'date', value: '2024-03-04', format: 'mm/dd/yyyy' });
+    expect(parseCell('03/04/2024', { ...US, dateOrder: 'dmy' })).toMatchObject({ value: '2024-04-03', format: 'dd/mm/yyyy' });
+    expect(parseCell('31/01/2024', US)).toMatchObject({ type: 'date', value: '2024-01-31' });
+    expect(parseCell('31.01.24', DE)).toMatchObject({ type: 'date', value: '2024-01-31', format: 'dd.mm.yy' });
+    expect(parseCell('2024-02-29', US)).toMatchObject({ type: 'date', value: '2024-02-29', format: 'yyyy-mm-dd' });
+    expect(parseCell('5 Mar 2024', US)).toMatchObject({ type: 'date', value: '2024-03-05', format: 'd mmm yyyy' });
+    expect(parseCell('January 31, 2024', US)).toMatchObject({ type: 'date', value: '2024-01-31', format: 'mmmm dd, yyyy' });
+    expect(parseCell('2023-02-29', US).type).toBe('text');
+    expect(dateSerial('2024-01-31')).toBe(45322);
+  });
+
+  it('should take conventions from the locale and let the document settle them', () => {
+    expect(conventionsForLocale('de-DE')).toEqual({ decimal: ',', dateOrder: 'dmy' });
+    expect(conventionsForLocale('en-US')).toEqual({ decimal: '.', dateOrder: 'mdy' });
+    expect(inferConventions(['Total', '1.234,56', '12,50', '31/12/2023'], US)).toEqual({ decimal: ',', dateOrder: 'dmy' });
+    expect(inferConventions(['1.234', 'Total'], DE)).toEqual(DE);
+  });
+
+  it('should write typed cells with their formats, and dates as date cells for ODS', () => {
+    const rows = [['Item', 'Amount', 'Due'], ['Rent', '$1,200.00', '01/31/2024']];
+
+    const sheet = tablesToSheet([table(rows)], US);
+    expect(sheet.B2).toMatchObject({ t: 'n', v: 1200, z: '"$"#,##0.00', w: '$1,200.00' });
+    expect(sheet.C2).toMatchObject({ t: 'n', v: 45322, z: 'mm/dd/yyyy' });
+
+    const ods = tablesToSheet([table(rows)], US, 'ods');
+    expect(ods.C2).toMatchObject({ t: 'd', v: '2024-01-31' });
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, ods, 'Sheet1');
+    const content = XLSX.write(workbook, { bookType: 'fods', type: 'string' }) as string;
+    expect(content).toContain('office:value-type="float" office:value="1200"');
+    expect(content).toContain('office:value-type="date"');
+  });
+
+  it('should write CSV with plain values and JSON with page and bounding box', () => {
+    const rows = [['Item', 'Amount'], ['=cmd', '(1,234.00)'], ['Sale, net', '12.5%']];
+
+    expect(tableToCsv(table(rows), US)).toBe('Item,Amount\r\n\'=cmd,-1234\r\n"Sale, net",0.125');
+    expect(tableToCsv(table(rows))).toBe('Item,Amount\r\n\'=cmd,"(1,234.00)"\r\n"Sale, net",12.5%');
+
+    const json = JSON.parse(tablesToJson('report.pdf', [{ pageNum: 2, width: 612, height: 792, tables: [table(rows)] }], US));
+    expect(json.source).toBe('report.pdf');
+    expect(json.tables).toEqual([{
+      page: 2,
+      index: 1,
+      bbox: { x: 72, y: 100, width: 300, height: 60 },
+      ruled: true,
+      merges: [],
+      rows: [['Item', 'Amount'], ['=cmd', -1234], ['Sale, net', 0.125]],
+    }]);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Unit tests for PDF table detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectTables, rectangleToLines, type RulingLine, type TextItem } from '@/services/pdfTableDetection';
+import { tablesToSheet } from '@/services/pdfToExcelService';
+
+const item = (text: string, x: number, y: number, fontSize = 10): TextItem => ({
+  text,
+  x,
+  y,
+  width: text.length * fontSize * 0.5,
+  fontSize,
+});
+
+const hLine = (y: number, x0: number, x1: number): RulingLine => ({ x0, y0: y, x1, y1: y });
+const vLine = (x: number, y0: number, y1: number): RulingLine => ({ x0: x, y0, x1: x, y1 });
+
+/**
+ * A bordered 3 × 3 grid at x 100-400, y 100-190 whose header row is one merged cell:
+ * the inner vertical lines start below it
+ */
+const mergedHeaderGrid = (): RulingLine[] => [
+  hLine(100, 100, 400), hLine(130, 100, 400), hLine(160, 100, 400), hLine(190, 100, 400),
+  vLine(100, 100, 190), vLine(400, 100, 190), vLine(200, 130, 190), vLine(300, 130, 190),
+];
+
+describe('pdfTableDetection', () => {
+  it('should read a ruled grid, merging cells whose border is missing', () => {
+    const items = [
+      item('Sales', 220, 120),
+      item('Region', 110, 150), item('Q1', 210, 150), item('Q2', 310, 150),
+      item('North', 110, 180), item('1,200', 210, 180), item('1,350', 310, 180),
+    ];
+
+    const [table] = detectTables(items, mergedHeaderGrid());
+
+    expect(table.ruled).toBe(true);
+    expect(table.rows).toEqual([
+      ['Sales', '', ''],
+      ['Region', 'Q1', 'Q2'],
+      ['North', '1,200', '1,350'],
+    ]);
+    expect(table.merges).toEqual([{ row: 0, col: 0, rowSpan: 1, colSpan: 3 }]);
+  });
+
+  it('should place text whose centre falls just outside the grid in the edge cell', () => {
+    const items = [
+      item('Sales', 220, 120),
+      item('Region', 110, 150), item('Q1', 210, 150), item('Q2', 310, 150),
+      item('North', 86, 180), item('1,200', 210, 180), item('1,350', 310, 194),
+    ];
+
+    const tables = detectTables(items, mergedHeaderGrid());
+
+    expect(tables).toHaveLength(1);
+    expect(tables[0].rows[2]).toEqual(['North', '1,200', '1,350']);
+  });
+
+  it('should keep unrelated text out of a ruled table and split text blocks', () => {
+    const items = [
+      item('Monthly report', 100, 60, 16),
+      item('Sales', 220, 120),
+      item('Region', 110, 150), item('Q1', 210, 150), item('Q2', 310, 150),
+      item('North', 110, 180), item('1,200', 210, 180), item('1,350', 310, 180),
+      item('Item', 100, 300), item('Price', 250, 300),
+      item('Pen', 100, 314), item('2.50', 250, 314),
+    ];
+
+    const tables = detectTables(items, mergedHeaderGrid());
+
+    expect(tables.map(table => table.ruled)).toEqual([false, true, false]);
+    expect(tables[0].rows).toEqual([['Monthly report']]);
+    expect(tables[2].rows).toEqual([['Item', 'Price'], ['Pen', '2.50']]);
+  });
+
+  it('should only read inside a drawn area and treat its text as one table', () => {
+    const items = [
+      item('Title', 100, 40),
+      item('A', 100, 100), item('B', 200, 100),
+      item('1', 100, 150), item('2', 200, 150),
+    ];
+
+    const tables = detectTables(items, [], { area: { x0: 90, y0: 80, x1: 260, y1: 160 } });
+
+    expect(tables).toHaveLength(1);
+    expect(tables[0].rows).toEqual([['A', 'B'], ['1', '2']]);
+  });
+
+  it('should turn thin filled rectangles into lines and larger ones into their edges', () => {
+    expect(rectangleToLines(10, 50, 200, 51)).toEqual([{ x0: 10, y0: 50.5, x1: 200, y1: 50.5 }]);
+    expect(rectangleToLines(10, 10, 60, 40)).toHaveLength(4);
+  });
+
+  it('should stack tables on one sheet with their merges offset', () => {
+    const tables = detectTables([
+      item('Sales', 220, 120),
+      item('Region', 110, 150), item('Q1', 210, 150), item('Q2', 310, 150),
+      item('North', 110, 180), item('1,200', 210, 180), item('1,350', 310, 180),
+    ], mergedHeaderGrid());
+
+    const sheet = tablesToSheet([{ ...tables[0], merges: [] }, tables[0]]);
+
+    expect(sheet['!ref']).toBe('A1:C7');
+    expect(sheet['!merges']).toEqual([{ s: { r: 4, c: 0 }, e: { r: 4, c: 2 } }]);
+    expect(sheet.A5.v).toBe('Sales');
+  });
+});
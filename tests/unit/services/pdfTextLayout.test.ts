@@ -0,0 +1,167 @@
+/**
+ * Unit tests for PDF to Word layout analysis
+ */
+
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import {
+  groupLines,
+  layoutPage,
+  lineRuns,
+  measureLayoutStyle,
+  type LayoutBlock,
+  type TextFragment,
+} from '@/services/pdfTextLayout';
+import { pagesToWord } from '@/services/pdfToWordService';
+
+/** A fragment whose width assumes half an em per character */
+const text = (str: string, x: number, y: number, options: Partial<TextFragment> = {}): TextFragment => {
+  const fontSize = options.fontSize ?? 10;
+  return { text: str, x, y, width: str.length * fontSize * 0.5, fontSize, bold: false, italic: false, ...options };
+};
+
+const layout = (fragments: TextFragment[]): LayoutBlock[] => {
+  const lines = groupLines(fragments);
+  return layoutPage(lines, [], measureLayoutStyle(lines));
+};
+
+const plain = (block: LayoutBlock) =>
+  block.type === 'paragraph' || block.type === 'list-item' ? block.runs.map(run => run.text).join('') : '';
+
+describe('pdfTextLayout', () => {
+  it('should merge fragments into style runs with spaces from the gaps', () => {
+    const runs = lineRuns([
+      text('Total', 72, 100, { bold: true }),
+      text(':', 97, 100, { bold: true }),
+      text('due', 104, 100),
+      text('now', 122, 100, { italic: true }),
+    ]);
+
+    expect(runs).toEqual([
+      { text: 'Total:', bold: true, italic: false, fontSize: 10 },
+      { text: ' due', bold: false, italic: false, fontSize: 10 },
+      { text: ' now', bold: false, italic: true, fontSize: 10 },
+    ]);
+  });
+
+  it('should rank headings by size and join wrapped paragraph lines', () => {
+    const blocks = layout([
+      text('Annual Report', 72, 60, { fontSize: 20, bold: true }),
+      text('Overview', 72, 100, { fontSize: 14 }),
+      text('Revenue grew in every re-', 72, 120),
+      text('gion during the year.', 72, 132),
+      text('Costs fell.', 72, 160),
+      text('Outlook', 72, 190, { fontSize: 14 }),
+    ]);
+
+    expect(blocks.map(block => block.type === 'paragraph' ? [block.heading, plain(block)] : block.type)).toEqual([
+      [1, 'Annual Report'],
+      [2, 'Overview'],
+      [undefined, 'Revenue grew in every region during the year.'],
+      [undefined, 'Costs fell.'],
+      [2, 'Outlook'],
+    ]);
+  });
+
+  it('should rebuild bullet and numbered lists with wrapped and nested items', () => {
+    const blocks = layout([
+      text('•', 72, 100),
+      text('First point that wraps', 86, 100),
+      text('onto a second line', 86, 112),
+      text('•', 90, 124),
+      text('Nested point', 104, 124),
+      text('Steps to follow:', 72, 150),
+      text('1.', 72, 170),
+      text('Open the file', 86, 170),
+      text('2.', 72, 182),
+      text('Save it', 86, 182),
+    ]);
+
+    const items = blocks.filter(block => block.type === 'list-item');
+    expect(items.map(item => [plain(item), item.ordered, item.level])).toEqual([
+      ['First point that wraps onto a second line', false, 0],
+      ['Nested point', false, 1],
+      ['Open the file', true, 0],
+      ['Save it', true, 0],
+    ]);
+    expect(items[0].listId).toBe(items[1].listId);
+    expect(items[2].listId).toBe(items[3].listId);
+    expect(items[2].listId).not.toBe(items[0].listId);
+    expect(plain(blocks[2])).toBe('Steps to follow:');
+  });
+
+  it('should reconstruct a table from aligned columns', () => {
+    const blocks = layout([
+      text('Intro text', 72, 80),
+      text('Item', 72, 100, { bold: true }),
+      text('Qty', 200, 100, { bold: true }),
+      text('Price', 280, 100, { bold: true }),
+      text('Paper A4', 72, 114),
+      text('10', 205, 114),
+      text('4.50', 285, 114),
+      text('Stapler', 72, 128),
+      text('1', 210, 128),
+      text('12.00', 280, 128),
+    ]);
+
+    expect(blocks[0].type).toBe('paragraph');
+    expect(blocks[1].type).toBe('table');
+    const rows = (blocks[1] as Extract<LayoutBlock, { type: 'table' }>).rows;
+    expect(rows.map(row => row.map(cell => cell.map(run => run.text).join('')))).toEqual([
+      ['Item', 'Qty', 'Price'],
+      ['Paper A4', '10', '4.50'],
+      ['Stapler', '1', '12.00'],
+    ]);
+    expect(rows[0][0][0].bold).toBe(true);
+  });
+
+  it('should read side-by-side columns one after the other instead of as a table', () => {
+    // Each column is drawn top to bottom before the next, as the content stream orders them
+    const column = (x: number, words: string[]) => words.map((word, i) => text(word, x, 100 + i * 12));
+    const blocks = layout([
+      ...column(72, ['The left column starts', 'here and wraps over', 'three lines of text']),
+      ...column(320, ['The right column starts', 'beside it and wraps', 'over three lines too']),
+      text('A footer across the page width, under both columns', 72, 160),
+    ]);
+
+    expect(blocks.map(block => block.type)).toEqual(['paragraph', 'paragraph', 'paragraph']);
+    expect(blocks.map(plain)).toEqual([
+      'The left column starts here and wraps over three lines of text',
+      'The right column starts beside it and wraps over three lines too',
+      'A footer across the page width, under both columns',
+    ]);
+  });
+
+  it('should place images between the lines above and below them', () => {
+    const lines = groupLines([text('Before', 72, 100), text('After', 72, 300)]);
+    const image = { data: new Uint8Array([1]), type: 'png' as const, x: 72, y: 120, width: 200, height: 150 };
+
+    const blocks = layoutPage(lines, [image], measureLayoutStyle(lines));
+
+    expect(blocks.map(block => block.type === 'image' ? 'image' : plain(block))).toEqual(['Before', 'image', 'After']);
+  });
+
+  it('should write headings, lists, tables and run styles to the Word document', async () => {
+    const blocks = layout([
+      text('Title', 72, 60, { fontSize: 18, fontFamily: 'Georgia', color: 'C00000' }),
+      text('1.', 72, 100),
+      text('Step one', 86, 100),
+      text('2.', 72, 112),
+      text('Step two', 86, 112),
+      text('Name', 72, 140),
+      text('Value', 200, 140),
+      text('Alpha', 72, 154),
+      text('1', 205, 154),
+    ]);
+    const blob = await pagesToWord([{ pageNumber: 1, paragraphs: [], blocks }], 'report.pdf');
+    const zip = await JSZip.loadAsync(blob);
+    const xml = await zip.file('word/document.xml')!.async('string');
+
+    expect(xml).toContain('w:val="Heading1"');
+    expect(xml).toContain('w:ascii="Georgia"');
+    expect(xml).toContain('<w:color w:val="C00000"/>');
+    expect(xml.match(/<w:numPr>/g)).toHaveLength(2);
+    expect(xml).toContain('<w:tbl>');
+    expect(xml).not.toContain('>report<');
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Unit tests for the editable PDF to PowerPoint slides
+ */
+
+import { describe, it, expect } from 'vitest';
+import PptxGenJS from 'pptxgenjs';
+import JSZip from 'jszip';
+import { addEditableContent, sampleTextColor } from '@/services/pdfToPowerPointService';
+import type { TextFragment } from '@/services/pdfTextLayout';
+
+/** A render filled with one colour, with a block of another colour inside */
+const render = (width: number, height: number, fill: number[], block: { x: number; y: number; size: number; color: number[] }) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inBlock = x >= block.x && x < block.x + block.size && y >= block.y && y < block.y + block.size;
+      data.set([...(inBlock ? block.color : fill), 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+};
+
+const fragment = (text: string, x: number, y: number, extra: Partial<TextFragment> = {}): TextFragment => ({
+  text,
+  x,
+  y,
+  width: text.length * 6,
+  fontSize: 12,
+  bold: false,
+  italic: false,
+  ...extra,
+});
+
+describe('pdfToPowerPointService', () => {
+  it('should take the box border as background and the most distant pixel as text colour', () => {
+    const pixels = render(20, 20, [240, 240, 200], { x: 8, y: 8, size: 4, color: [200, 0, 30] });
+
+    expect(sampleTextColor(pixels, { x: 2, y: 2, width: 16, height: 16 })).toEqual({ text: 'C8001E', background: 'F0F0C8' });
+    expect(sampleTextColor(pixels, { x: 30, y: 30, width: 5, height: 5 })).toEqual({ text: '000000', background: 'FFFFFF' });
+  });
+
+  it('should write each line as a text box with its runs and each image as a picture', async () => {
+    const pptx = new PptxGenJS();
+    pptx.defineLayout({ name: 'PDF', width: 10, height: 5 });
+    pptx.layout = 'PDF';
+    const slide = pptx.addSlide();
+
+    const png = Uint8Array.from(atob('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg=='), c => c.charCodeAt(0));
+    addEditableContent(slide, {
+      width: 720,
+      height: 360,
+      fragments: [
+        fragment('Quarterly', 72, 100, { bold: true, fontFamily: 'Georgia', color: '1F3864' }),
+        fragment('results', 132, 100),
+        fragment('Second line', 72, 130),
+      ],
+      images: [{ data: png, type: 'png', x: 360, y: 36, width: 144, height: 72 }],
+      imageOperations: [4],
+    }, { width: 10, height: 5 });
+
+    const zip = await JSZip.loadAsync(await pptx.write({ outputType: 'uint8array' }) as Uint8Array);
+    const xml = await zip.file('ppt/slides/slide1.xml')!.async('string');
+
+    expect(xml.match(/<p:sp>/g)).toHaveLength(2);
+    expect(xml.match(/<p:pic>/g)).toHaveLength(1);
+    expect(xml).toMatch(/<a:rPr[^>]*b="1"[^>]*>.*?<a:srgbClr val="1F3864"\/>.*?<a:latin typeface="Georgia"/);
+    expect(xml).toContain('<a:t>Quarterly</a:t>');
+    expect(xml).toContain('Second line');
+    // The picture sits at (360, 36) points on a 720 point wide page, i.e. 5 of 10 inches across
+    expect(xml).toContain(`<a:off x="${5 * 914400}" y="${0.5 * 914400}"/>`);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Unit tests for the PDF watermark service
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PDFArray, PDFDocument, PDFName, PDFPage, PDFRef, PDFStream } from 'pdf-lib';
+import { applyWatermark } from '@/services/pdfWatermarkService';
+import { DEFAULT_WATERMARK_PDF_CONFIG, type WatermarkPdfConfig } from '@/types';
+
+// 1x1 transparent PNG
+const PNG_DATA_URL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+async function createPdf(pageCount: number): Promise<PDFDocument> {
+  const pdf = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) {
+    pdf.addPage([595, 842]).drawText(`Page ${i + 1}`, { x: 50, y: 780, size: 12 });
+  }
+  return pdf;
+}
+
+const config = (overrides: Partial<WatermarkPdfConfig> = {}): WatermarkPdfConfig => ({
+  ...DEFAULT_WATERMARK_PDF_CONFIG,
+  ...overrides,
+});
+
+/** Decoded text of each content stream on the page, in drawing order */
+const contentStreams = (pdf: PDFDocument, page: PDFPage): string[] => {
+  const contents = page.node.Contents();
+  const refs = contents instanceof PDFArray ? contents.asArray() : [page.node.get(PDFName.of('Contents'))];
+  return refs.map(ref => {
+    const stream = pdf.context.lookup(ref as PDFRef) as PDFStream & { getUnencodedContents?: () => Uint8Array; getContents?: () => Uint8Array };
+    const bytes = stream.getUnencodedContents ? stream.getUnencodedContents() : stream.getContents!();
+    return new TextDecoder().decode(bytes);
+  });
+};
+
+const isStamp = (stream: string) => stream.includes('/GS');
+
+describe('pdfWatermarkService', () => {
+  describe('applyWatermark', () => {
+    it('should draw the stamp over isolated page content', async () => {
+      const pdf = await createPdf(1);
+      await applyWatermark(pdf, config({ layer: 'over' }));
+
+      const streams = contentStreams(pdf, pdf.getPage(0));
+      expect(streams[0].trim()).toBe('q');
+      expect(streams[streams.length - 2].trim()).toBe('Q');
+      expect(isStamp(streams[streams.length - 1])).toBe(true);
+    });
+
+    it('should move the stamp behind the page content', async () => {
+      const pdf = await createPdf(1);
+      await applyWatermark(pdf, config({ layer: 'under' }));
+
+      const streams = contentStreams(pdf, pdf.getPage(0));
+      expect(isStamp(streams[0])).toBe(true);
+      expect(streams.slice(1).some(isStamp)).toBe(false);
+      expect(streams[streams.length - 1]).toContain('Tj');
+    });
+
+    it('should only stamp pages in the selected range', async () => {
+      const pdf = await createPdf(4);
+      await applyWatermark(pdf, config({ pageSelection: 'range', pageRange: '2-3' }));
+
+      const stamped = pdf.getPages().map(page => contentStreams(pdf, page).some(isStamp));
+      expect(stamped).toEqual([false, true, true, false]);
+    });
+
+    it('should tile the stamp across the page', async () => {
+      const pdf = await createPdf(1);
+      await applyWatermark(pdf, config({ layout: 'tiled', fontSize: 24 }));
+
+      const stamp = contentStreams(pdf, pdf.getPage(0)).find(isStamp)!;
+      expect(stamp.match(/Tj/g)!.length).toBeGreaterThan(4);
+    });
+
+    it('should stamp an image', async () => {
+      const pdf = await createPdf(1);
+      await applyWatermark(pdf, config({ type: 'image', imageData: PNG_DATA_URL }));
+
+      const stamp = contentStreams(pdf, pdf.getPage(0)).find(isStamp)!;
+      expect(stamp).toContain('Do');
+    });
+
+    it('should reject text the font cannot encode', async () => {
+      const pdf = await createPdf(1);
+      await expect(applyWatermark(pdf, config({ text: '机密' })))
+        .rejects.toThrow('The watermark text contains characters the selected font cannot display');
+    });
+
+    it('should require watermark text and image', async () => {
+      const pdf = await createPdf(1);
+      await expect(applyWatermark(pdf, config({ text: '   ' }))).rejects.toThrow('Please enter the watermark text');
+      await expect(applyWatermark(pdf, config({ type: 'image' }))).rejects.toThrow('Please choose a watermark image');
+    });
+
+    it('should reject page ranges outside the document', async () => {
+      const pdf = await createPdf(2);
+      await expect(applyWatermark(pdf, config({ pageSelection: 'range', pageRange: '5' }))).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Unit tests for CSV field escaping
+ */
+
+import { describe, it, expect } from 'vitest';
+import { csvField } from '@/utils/csv';
+
+describe('csvField', () => {
+  it('should quote fields with commas, quotes or line breaks', () => {
+    expect(csvField('plain')).toBe('plain');
+    expect(csvField('a, b')).toBe('"a, b"');
+    expect(csvField('say "hi"')).toBe('"say ""hi"""');
+    expect(csvField('two\nlines')).toBe('"two\nlines"');
+  });
+
+  it('should defuse text a spreadsheet would run as a formula but keep numbers', () => {
+    expect(csvField('=SUM(A1)')).toBe('\'=SUM(A1)');
+    expect(csvField('-cmd')).toBe('\'-cmd');
+    expect(csvField(-12.5)).toBe('-12.5');
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Unit tests for XML and regular expression escaping
+ */
+
+import { describe, it, expect } from 'vitest';
+import { escapeRegExp, escapeXml } from '@/utils/escape';
+
+describe('escapeXml', () => {
+  it('should escape markup characters and quotes', () => {
+    expect(escapeXml(`Tom & "Jerry's" <b>`)).toBe('Tom &amp; &quot;Jerry&apos;s&quot; &lt;b&gt;');
+    expect(escapeXml('plain')).toBe('plain');
+  });
+});
+
+describe('escapeRegExp', () => {
+  it('should make a regular expression match the text literally', () => {
+    const pattern = new RegExp(`^${escapeRegExp('$1.50 (net) [a|b]*?')}$`);
+    expect(pattern.test('$1.50 (net) [a|b]*?')).toBe(true);
+    expect(pattern.test('$1x50 (net) [a|b]*?')).toBe(false);
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * Unit tests for page range parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parsePageRange } from '@/utils/pageRange';
+
+describe('parsePageRange', () => {
+  it('should return sorted, unique 0-based indices', () => {
+    expect(parsePageRange('5, 1-3, 2', 10)).toEqual([0, 1, 2, 4]);
+  });
+
+  it('should treat an open-ended range as running to the last page', () => {
+    expect(parsePageRange('8-', 10)).toEqual([7, 8, 9]);
+  });
+
+  it('should reject pages outside the document', () => {
+    expect(() => parsePageRange('3-12', 10)).toThrow('PDF has 10 pages');
+  });
+
+  it('should reject malformed input', () => {
+    expect(() => parsePageRange('one', 10)).toThrow('Invalid page range');
+  });
+
+  it('should return nothing for an empty range', () => {
+    expect(parsePageRange('  ', 10)).toEqual([]);
+  });
+});
@@ -71,6 +71,8 @@ export interface PdfToImageConfig {
   pageSelection: 'all' | 'current' | 'range';
   pageRange?: string; // e.g., "1-5,7,9-12"
   colorSpace: ColorSpace;
+  mode?: 'render' | 'extract'; // Render whole pages, or save the embedded images as they are stored
+  minImageSize?: number; // Pixels; extract mode skips images smaller than this
 }
 
 // Merge PDF Configuration
@@ -81,14 +83,18 @@ export interface MergePdfConfig {
     pageIndices: number[]; // Which pages to include from this file
   }>;
   removePages: string[]; // File IDs + page indices to exclude
+  addFileBookmarks?: boolean; // Wrap each file's bookmarks under a top-level entry named after the file
 }
 
 // Split PDF Configuration
 export interface SplitPdfConfig {
-  mode: 'ranges' | 'extract' | 'every-n-pages';
+  mode: 'ranges' | 'extract' | 'every-n-pages' | 'bookmarks' | 'file-size' | 'blank-pages';
   pageRanges?: string[]; // e.g., ["1-3", "5", "7-9"]
   extractPages?: number[]; // Specific pages to extract
   splitEvery?: number; // Split every N pages
+  bookmarkLevel?: number; // Split at bookmarks down to this outline depth (1 = top level)
+  maxFileSizeMB?: number; // Upper size limit for each part
+  blankInkThreshold?: number; // Max % of a page covered by ink for it to count as a blank separator
   outputFormat: 'separate' | 'merged';
 }
 
@@ -108,6 +114,204 @@ export interface RotatePdfConfig {
   pageNumbers?: number[]; // 1-based page numbers
 }
 
+// Encrypt PDF Configuration
+export type EncryptionAlgorithm = 'RC4-128' | 'AES-128' | 'AES-256';
+
+export interface EncryptPermissions {
+  printing?: boolean;
+  highQualityPrint?: boolean; // Without it, printing is limited to low resolution
+  copying?: boolean;
+  modifying?: boolean;
+  annotating?: boolean;
+  fillingForms?: boolean;
+  contentAccessibility?: boolean;
+  documentAssembly?: boolean;
+}
+
+export interface EncryptPdfConfig {
+  algorithm: EncryptionAlgorithm;
+  permissions: EncryptPermissions;
+  encryptMetadata: boolean;
+}
+
+// Watermark PDF Configuration
+export type WatermarkPosition =
+  | 'top-left' | 'top-center' | 'top-right'
+  | 'middle-left' | 'center' | 'middle-right'
+  | 'bottom-left' | 'bottom-center' | 'bottom-right';
+
+export type StandardFontName =
+  | 'Helvetica' | 'Helvetica-Bold' | 'Times-Roman' | 'Times-Bold' | 'Courier' | 'Courier-Bold';
+
+export interface WatermarkPdfConfig {
+  type: 'text' | 'image';
+  text: string;
+  font: StandardFontName;
+  fontSize: number; // Points
+  color: string; // Hex, e.g. "#ff0000"
+  imageData?: string; // PNG or JPEG data URL
+  imageScale: number; // Image width as % of the page width
+  opacity: number; // 0-1
+  rotation: number; // Degrees, counter-clockwise
+  layout: 'single' | 'tiled';
+  position: WatermarkPosition; // Used for single placement
+  tileSpacing: number; // Points between tiles
+  pageSelection: 'all' | 'range';
+  pageRange?: string; // e.g., "1-3,5"
+  layer: 'over' | 'under'; // Over or behind the page content
+}
+
+// Page Numbers / Headers & Footers Configuration
+export interface HeaderFooterSlots {
+  left: string;
+  center: string;
+  right: string;
+}
+
+export interface BatesNumbering {
+  prefix: string; // e.g., "ACME"
+  startNumber: number;
+  digits: number; // Zero-padded width, e.g. 6 -> 000001
+  suffix: string;
+}
+
+export interface PageNumbersPdfConfig {
+  header: HeaderFooterSlots; // Templates with {page} {total} {filename} {date} {bates}
+  footer: HeaderFooterSlots;
+  font: StandardFontName;
+  fontSize: number; // Points
+  color: string; // Hex
+  marginX: number; // Points from the left/right edge
+  marginY: number; // Points from the top/bottom edge
+  skipFirstPages: number; // Leave the first N pages of each file unstamped and unnumbered
+  bates: BatesNumbering; // Continues across every file in a batch
+}
+
+// PDF Metadata
+export interface PdfCustomMetadata {
+  key: string; // Info dictionary key, e.g. "DocumentNumber"
+  value: string;
+}
+
+export interface PdfMetadata {
+  title: string;
+  author: string;
+  subject: string;
+  keywords: string; // Comma-separated
+  creator: string; // Application the original document was made with
+  producer: string; // Application that produced the PDF
+  creationDate?: Date;
+  modificationDate?: Date;
+  custom: PdfCustomMetadata[];
+}
+
+// Organize PDF Configuration
+export type BlankPageSize = PageSize | 'match'; // 'match' copies the size of the nearest page
+
+export interface BlankPageOptions {
+  size: BlankPageSize;
+  customSize?: PageSizeDimensions; // Points, used when size is 'Custom'
+  orientation: Orientation;
+}
+
+export interface OrganizerPage {
+  id: string;
+  source?: number; // Index into the source files (0 = the document being organized); absent for blank pages
+  pageIndex: number; // 0-based page in the source file
+  rotation: number; // Degrees added to the page's own rotation (multiple of 90)
+  blank?: BlankPageOptions; // Set for inserted blank pages
+}
+
+export interface OrganizePdfConfig {
+  blankPage: BlankPageOptions; // Remembered for the next inserted blank page
+}
+
+// Crop PDF Configuration
+export interface CropRect {
+  left: number; // Fractions (0-1) of the page as displayed, measured from its top-left corner
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export type CropPageSelection = 'current' | 'all' | 'odd' | 'even';
+
+export interface CropPdfConfig {
+  mode: 'manual' | 'auto'; // Drawn rectangle, or trim whitespace detected on each page
+  pageSelection: CropPageSelection;
+  autoTrimPadding: number; // Points kept around the detected content
+  setMediaBox: boolean; // Also cut the page itself, not just what viewers show
+  setTrimBox: boolean;
+  setBleedBox: boolean;
+}
+
+// N-up / Booklet Configuration
+export type NUpPagesPerSheet = 2 | 4 | 6 | 9 | 16;
+
+// Reading order of pages on a sheet: across then down, or down then across,
+// starting from the left or (for right-to-left documents) the right
+export type NUpOrder = 'across' | 'down' | 'across-rtl' | 'down-rtl';
+
+export interface NUpPdfConfig {
+  mode: 'n-up' | 'booklet'; // Booklet: 2-up, reordered for duplex printing and folding
+  pagesPerSheet: NUpPagesPerSheet;
+  order: NUpOrder;
+  sheetSize: PageSize;
+  customSheetSize?: PageSizeDimensions;
+  orientation: Orientation | 'auto'; // 'auto' picks whichever fits the pages largest
+  margin: number; // Points around the sheet edge
+  gutter: number; // Points between pages (the spine gap in booklets)
+  border: boolean; // Thin frame around each page
+  bookletBinding: 'left' | 'right'; // Right for right-to-left languages
+}
+
+// Resize PDF Configuration
+// fit: whole page visible; fill: covers the area, cropping the overflow; actual: unscaled, centered
+export type ResizeMode = 'fit' | 'fill' | 'actual';
+
+export interface ResizePdfConfig {
+  pageSize: PageSize;
+  customPageSize?: PageSizeDimensions;
+  orientation: Orientation | 'auto'; // 'auto' keeps each page's own orientation
+  mode: ResizeMode;
+  margin: MarginSize;
+  customMargin?: MarginDimensions;
+}
+
+// Flatten PDF Configuration
+export interface FlattenPdfConfig {
+  forms: boolean; // Form fields: values become plain page content
+  comments: boolean; // Notes, highlights, stamps, drawings and other markup
+  links: boolean; // Links stop being clickable; any visible border stays
+}
+
+// PDF to PowerPoint Configuration
+export interface PdfToPowerPointConfig {
+  mode: 'image' | 'editable'; // Each page as one picture, or editable text boxes and separate pictures
+  dpi: number; // Resolution of the page renders (image mode and the editable background)
+  pageSelection: 'all' | 'range';
+  pageRange?: string; // e.g., "1-5,7,9-12"
+  background: boolean; // Editable mode: faint page render behind the objects, for vector art
+}
+
+// PDF to Excel Configuration
+// sheets: every table on its own sheet; page: the tables of a page stacked on one sheet
+export type ExcelTableLayout = 'sheets' | 'page';
+export type TableOutputFormat = 'xlsx' | 'ods' | 'csv' | 'json';
+
+export interface PdfToExcelConfig {
+  tableLayout: ExcelTableLayout;
+  detectLines: boolean; // Use drawn borders to find tables and merged cells, not only text alignment
+  format: TableOutputFormat; // csv writes one file per table
+  detectTypes: boolean; // Write numbers, currencies, percentages and dates as typed cells
+  numberLocale: string; // 'auto' (browser locale, settled by the document's values) or a BCP 47 tag
+}
+
+// A table area drawn on a page; pages with areas are only searched inside them
+export interface TableArea extends CropRect {
+  pageIndex: number;
+}
+
 // Configuration state during conversion flow
 export type ConversionStep = 'upload' | 'configure' | 'processing' | 'result';
 
@@ -136,11 +340,14 @@ export const DEFAULT_PDF_TO_IMAGE_CONFIG: PdfToImageConfig = {
   dpi: 150,
   pageSelection: 'all',
   colorSpace: 'rgb',
+  mode: 'render',
+  minImageSize: 100,
 };
 
 export const DEFAULT_MERGE_PDF_CONFIG: MergePdfConfig = {
   pageOrder: [],
   removePages: [],
+  addFileBookmarks: false,
 };
 
 export const DEFAULT_SPLIT_PDF_CONFIG: SplitPdfConfig = {
@@ -159,6 +366,111 @@ export const DEFAULT_ROTATE_PDF_CONFIG: RotatePdfConfig = {
   pageSelection: 'all',
 };
 
+export const DEFAULT_ENCRYPT_PDF_CONFIG: EncryptPdfConfig = {
+  algorithm: 'AES-256',
+  permissions: {
+    printing: true,
+    highQualityPrint: true,
+    copying: false,
+    modifying: false,
+    annotating: false,
+    fillingForms: false,
+    contentAccessibility: true,
+    documentAssembly: false,
+  },
+  encryptMetadata: true,
+};
+
+export const DEFAULT_WATERMARK_PDF_CONFIG: WatermarkPdfConfig = {
+  type: 'text',
+  text: 'CONFIDENTIAL',
+  font: 'Helvetica-Bold',
+  fontSize: 60,
+  color: '#ff0000',
+  imageScale: 40,
+  opacity: 0.3,
+  rotation: 45,
+  layout: 'single',
+  position: 'center',
+  tileSpacing: 80,
+  pageSelection: 'all',
+  layer: 'over',
+};
+
+export const DEFAULT_PAGE_NUMBERS_PDF_CONFIG: PageNumbersPdfConfig = {
+  header: { left: '', center: '', right: '' },
+  footer: { left: '', center: 'Page {page} of {total}', right: '' },
+  font: 'Helvetica',
+  fontSize: 10,
+  color: '#000000',
+  marginX: 36,
+  marginY: 24,
+  skipFirstPages: 0,
+  bates: {
+    prefix: '',
+    startNumber: 1,
+    digits: 6,
+    suffix: '',
+  },
+};
+
+export const DEFAULT_ORGANIZE_PDF_CONFIG: OrganizePdfConfig = {
+  blankPage: {
+    size: 'match',
+    orientation: 'portrait',
+  },
+};
+
+export const DEFAULT_CROP_PDF_CONFIG: CropPdfConfig = {
+  mode: 'manual',
+  pageSelection: 'all',
+  autoTrimPadding: 10,
+  setMediaBox: false,
+  setTrimBox: false,
+  setBleedBox: false,
+};
+
+export const DEFAULT_NUP_PDF_CONFIG: NUpPdfConfig = {
+  mode: 'n-up',
+  pagesPerSheet: 4,
+  order: 'across',
+  sheetSize: 'A4',
+  orientation: 'auto',
+  margin: 18,
+  gutter: 12,
+  border: false,
+  bookletBinding: 'left',
+};
+
+export const DEFAULT_RESIZE_PDF_CONFIG: ResizePdfConfig = {
+  pageSize: 'A4',
+  orientation: 'auto',
+  mode: 'fit',
+  margin: 'none',
+};
+
+export const DEFAULT_FLATTEN_PDF_CONFIG: FlattenPdfConfig = {
+  forms: true,
+  comments: true,
+  links: false,
+};
+
+export const DEFAULT_PDF_TO_POWERPOINT_CONFIG: PdfToPowerPointConfig = {
+  mode: 'image',
+  dpi: 108,
+  pageSelection: 'all',
+  pageRange: '',
+  background: true,
+};
+
+export const DEFAULT_PDF_TO_EXCEL_CONFIG: PdfToExcelConfig = {
+  tableLayout: 'sheets',
+  detectLines: true,
+  format: 'xlsx',
+  detectTypes: true,
+  numberLocale: 'auto',
+};
+
 // ========================================
 // Sign PDF Types
 // ========================================
@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Parse a page range such as "1-3, 5, 8-" into sorted, unique 0-based page indices.
+ * An open-ended range ("8-") runs to the last page.
+ * @throws Error when a part is not a page number or falls outside the document
+ */
+export const parsePageRange = (range: string, totalPages: number): number[] => {
+    const pages = new Set<number>();
+
+    for (const part of range.split(',')) {
+        const trimmed = part.trim();
+        if (!trimmed) continue;
+
+        const match = /^(\d+)\s*(?:-\s*(\d*))?$/.exec(trimmed);
+        if (!match) {
+            throw new Error(`Invalid page range: "${trimmed}"`);
+        }
+
+        const start = parseInt(match[1], 10);
+        const end = match[2] === undefined ? start : match[2] === '' ? totalPages : parseInt(match[2], 10);
+        if (start < 1 || end > totalPages || start > end) {
+            throw new Error(`Invalid range "${trimmed}". PDF has ${totalPages} pages.`);
+        }
+
+        for (let page = start; page <= end; page++) pages.add(page - 1);
+    }
+
+    return [...pages].sort((a, b) => a - b);
+};